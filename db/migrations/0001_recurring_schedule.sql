@@ -0,0 +1,17 @@
+-- Schedule model for recurring items: every N weeks/months, quarterly, half-yearly,
+-- fixed weekday, last business day and nth weekday of the month.
+
+ALTER TABLE recurring DROP CONSTRAINT IF EXISTS recurring_interval_type_check;
+ALTER TABLE recurring
+  ADD CONSTRAINT recurring_interval_type_check
+    CHECK (interval_type IN ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'HALF_YEARLY', 'YEARLY'));
+
+ALTER TABLE recurring
+  ADD COLUMN IF NOT EXISTS interval_count integer NOT NULL DEFAULT 1
+    CHECK (interval_count BETWEEN 1 AND 52),
+  ADD COLUMN IF NOT EXISTS month_rule text NOT NULL DEFAULT 'DAY_OF_MONTH'
+    CHECK (month_rule IN ('DAY_OF_MONTH', 'LAST_BUSINESS_DAY', 'NTH_WEEKDAY')),
+  ADD COLUMN IF NOT EXISTS weekday smallint
+    CHECK (weekday BETWEEN 1 AND 7),
+  ADD COLUMN IF NOT EXISTS week_of_month smallint
+    CHECK (week_of_month IN (-1, 1, 2, 3, 4, 5));
@@ -0,0 +1,14 @@
+-- Per-event business-day adjustment (weekends + German/TARGET2 bank holidays).
+-- NONE = raw calendar day, PREVIOUS = last bank day before, NEXT = next bank day.
+
+ALTER TABLE recurring
+  ADD COLUMN IF NOT EXISTS business_day_rule text NOT NULL DEFAULT 'NEXT'
+    CHECK (business_day_rule IN ('NONE', 'PREVIOUS', 'NEXT'));
+
+ALTER TABLE salary_settings
+  ADD COLUMN IF NOT EXISTS business_day_rule text NOT NULL DEFAULT 'PREVIOUS'
+    CHECK (business_day_rule IN ('NONE', 'PREVIOUS', 'NEXT'));
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS business_day_rule text NOT NULL DEFAULT 'NEXT'
+    CHECK (business_day_rule IN ('NONE', 'PREVIOUS', 'NEXT'));
@@ -0,0 +1,23 @@
+-- Bank statement import: counterparty/remittance info on transactions and
+-- reusable CSV column-mapping profiles per account (matched by IBAN).
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS counterparty text,
+  ADD COLUMN IF NOT EXISTS remittance_info text,
+  ADD COLUMN IF NOT EXISTS bank_reference text,
+  ADD COLUMN IF NOT EXISTS import_source text
+    CHECK (import_source IN ('csv'));
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  iban text,
+  name text NOT NULL,
+  mapping jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT import_profiles_user_account_uniq UNIQUE (user_id, account_id)
+);
+
+CREATE INDEX IF NOT EXISTS import_profiles_user_iban_idx ON import_profiles (user_id, iban);
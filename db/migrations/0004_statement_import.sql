@@ -0,0 +1,6 @@
+-- CAMT.053 / MT940 statement import next to CSV.
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_import_source_check;
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_import_source_check
+    CHECK (import_source IN ('csv', 'camt053', 'mt940'));
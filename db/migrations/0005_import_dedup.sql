@@ -0,0 +1,15 @@
+-- Idempotent re-import: every imported row carries a fingerprint
+-- (account, date, amount, normalized description, bank reference, occurrence).
+-- Rows imported before this migration have none; they are still caught by
+-- bank_reference or flagged as conflicts via date + amount.
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS import_fingerprint text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_import_fingerprint_uniq
+  ON transactions (user_id, account_id, import_fingerprint)
+  WHERE import_fingerprint IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_bank_reference_idx
+  ON transactions (user_id, account_id, bank_reference)
+  WHERE bank_reference IS NOT NULL;
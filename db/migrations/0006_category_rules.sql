@@ -0,0 +1,15 @@
+-- User-defined auto-categorization rules (applied on create, on import and on demand).
+
+CREATE TABLE IF NOT EXISTS category_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 100,
+  enabled boolean NOT NULL DEFAULT true,
+  conditions jsonb NOT NULL,
+  actions jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS category_rules_user_priority_idx ON category_rules (user_id, priority);
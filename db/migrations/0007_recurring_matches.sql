@@ -0,0 +1,11 @@
+-- Link booked transactions to the recurring occurrence they fulfil.
+-- recurring_occurrence is the planned date (after business-day shift), so a
+-- transaction booked a few days late still points at the right occurrence.
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS recurring_id uuid REFERENCES recurring(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurring_occurrence date;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_recurring_occurrence_uniq
+  ON transactions (recurring_id, recurring_occurrence)
+  WHERE recurring_id IS NOT NULL;
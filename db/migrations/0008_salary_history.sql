@@ -0,0 +1,46 @@
+-- Effective-dated salary: every salary_settings row is a version valid from
+-- valid_from until the next version starts. The old "one active row" constraint
+-- made POST overwrite the salary, so history was lost.
+
+ALTER TABLE salary_settings
+  DROP CONSTRAINT IF EXISTS salary_settings_user_active_uniq;
+DROP INDEX IF EXISTS salary_settings_user_active_uniq;
+
+ALTER TABLE salary_settings
+  ADD COLUMN IF NOT EXISTS valid_from date;
+
+UPDATE salary_settings SET valid_from = created_at::date WHERE valid_from IS NULL;
+
+ALTER TABLE salary_settings
+  ALTER COLUMN valid_from SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN valid_from SET NOT NULL;
+
+-- one version per start date; saving again on the same date updates that version
+CREATE UNIQUE INDEX IF NOT EXISTS salary_settings_user_valid_from_uniq
+  ON salary_settings (user_id, valid_from)
+  WHERE is_active;
+
+-- 13th salary, holiday pay and one-off bonuses. Yearly payments (payout_month/day)
+-- are paid while a salary version is valid; one-offs (payout_date) always.
+-- amount NULL = one monthly net salary of the version valid on the payout day.
+CREATE TABLE IF NOT EXISTS salary_special_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('THIRTEENTH_SALARY', 'HOLIDAY_PAY', 'BONUS')),
+  title text NOT NULL DEFAULT '',
+  amount numeric(12,2) CHECK (amount IS NULL OR amount > 0),
+  payout_date date,
+  payout_month smallint CHECK (payout_month BETWEEN 1 AND 12),
+  payout_day smallint CHECK (payout_day BETWEEN 1 AND 31),
+  business_day_rule text NOT NULL DEFAULT 'PREVIOUS'
+    CHECK (business_day_rule IN ('NONE', 'PREVIOUS', 'NEXT')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (payout_date IS NOT NULL AND payout_month IS NULL AND payout_day IS NULL)
+    OR (payout_date IS NULL AND payout_month IS NOT NULL AND payout_day IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS salary_special_payments_user_idx
+  ON salary_special_payments (user_id);
@@ -0,0 +1,5 @@
+-- Gross-to-net calculator settings per salary version (tax class, state, church
+-- tax, children, Zusatzbeitrag). The net is calculated with the parameters of the
+-- tax year the version starts in, so older versions keep their numbers.
+ALTER TABLE salary_settings
+  ADD COLUMN IF NOT EXISTS payroll jsonb;
@@ -0,0 +1,38 @@
+-- Customers for invoices: address, VAT ID, default payment terms and income
+-- profile. invoices.customer_id already exists; customer_name stays as the
+-- name printed on the invoice. Columns are added one by one in case an early
+-- customers table already exists.
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS email text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS street text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS postal_code text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS city text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS country text NOT NULL DEFAULT 'DE',
+  ADD COLUMN IF NOT EXISTS vat_id text,
+  ADD COLUMN IF NOT EXISTS payment_terms_days smallint NOT NULL DEFAULT 14
+    CHECK (payment_terms_days BETWEEN 0 AND 365),
+  ADD COLUMN IF NOT EXISTS default_profile_id uuid
+    REFERENCES income_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS notes text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS customers_user_name_idx ON customers (user_id, name);
+
+-- deleting a customer keeps its invoices (they still carry customer_name)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'invoices_customer_id_fkey') THEN
+    ALTER TABLE invoices
+      ADD CONSTRAINT invoices_customer_id_fkey
+      FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL NOT VALID;
+  END IF;
+END $$;
@@ -0,0 +1,9 @@
+-- expected_payment_auto: the expected payment date follows the customer's payment
+-- history (median lateness vs. due date) and is re-predicted whenever an invoice
+-- gets paid. Setting the date by hand turns it off for that invoice.
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS expected_payment_auto boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS invoices_user_paid_idx
+  ON invoices (user_id, paid_at)
+  WHERE status = 'paid';
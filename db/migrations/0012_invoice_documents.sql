@@ -0,0 +1,42 @@
+-- Invoice documents: line items, gapless numbering per income profile and year,
+-- and a snapshot of the issued document (invoices.document) from which the PDF
+-- and the XRechnung/ZUGFeRD files are rendered.
+
+CREATE TABLE IF NOT EXISTS invoice_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  position smallint NOT NULL,
+  description text NOT NULL,
+  quantity numeric(12,3) NOT NULL CHECK (quantity > 0),
+  unit text NOT NULL DEFAULT 'C62', -- UN/ECE Rec. 20
+  unit_price numeric(12,2) NOT NULL CHECK (unit_price >= 0), -- net
+  vat_rate numeric(5,2) NOT NULL CHECK (vat_rate >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS invoice_items_user_invoice_idx ON invoice_items (user_id, invoice_id);
+
+-- one row per profile and year; incremented inside the issuing transaction, so
+-- numbers are only consumed by invoices that were actually issued
+CREATE TABLE IF NOT EXISTS invoice_number_counters (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES income_profiles(id) ON DELETE CASCADE,
+  year smallint NOT NULL,
+  last_number integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (profile_id, year)
+);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS invoice_number text,
+  ADD COLUMN IF NOT EXISTS net_amount numeric(12,2),
+  ADD COLUMN IF NOT EXISTS vat_amount numeric(12,2),
+  ADD COLUMN IF NOT EXISTS buyer_reference text, -- Leitweg-ID for public sector customers
+  ADD COLUMN IF NOT EXISTS document jsonb;
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_profile_number_uq
+  ON invoices (user_id, profile_id, invoice_number)
+  WHERE invoice_number IS NOT NULL;
@@ -0,0 +1,64 @@
+-- Payment allocations: many transactions (instalments) per invoice, plus
+-- write-offs for amounts the customer deducted (fees, discounts) without a
+-- transaction. invoices.paid_amount is the sum of the allocations and is kept in
+-- sync by the store in the same transaction; open balance = amount - paid_amount.
+-- A payment without transaction only comes from invoices marked paid before
+-- allocations existed whose booking is gone.
+
+CREATE TABLE IF NOT EXISTS invoice_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'payment' CHECK (kind IN ('payment','writeoff')),
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  allocated_on date NOT NULL,
+  note text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE invoice_allocations DROP CONSTRAINT IF EXISTS invoice_allocations_check;
+ALTER TABLE invoice_allocations
+  ADD CONSTRAINT invoice_allocations_check
+  CHECK (kind = 'payment' OR transaction_id IS NULL);
+
+CREATE INDEX IF NOT EXISTS invoice_allocations_invoice_idx ON invoice_allocations (invoice_id);
+CREATE INDEX IF NOT EXISTS invoice_allocations_tx_idx
+  ON invoice_allocations (transaction_id)
+  WHERE transaction_id IS NOT NULL;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS paid_amount numeric(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices
+  ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('planned','sent','partially_paid','paid','void'));
+
+-- invoices paid before allocations existed: one allocation for the full amount,
+-- without transaction when paid_tx_id is unset or the booking was deleted
+INSERT INTO invoice_allocations (
+  user_id, invoice_id, transaction_id, kind, amount, allocated_on, note
+)
+SELECT
+  i.user_id,
+  i.id,
+  t.id,
+  'payment',
+  i.amount,
+  COALESCE(i.paid_at::date, t.tx_date, i.updated_at::date),
+  CASE WHEN t.id IS NULL THEN 'Als bezahlt markiert, ohne Buchung' ELSE '' END
+FROM invoices i
+LEFT JOIN transactions t ON t.id = i.paid_tx_id
+WHERE i.status = 'paid'
+  AND i.amount > 0
+  AND NOT EXISTS (SELECT 1 FROM invoice_allocations a WHERE a.invoice_id = i.id);
+
+UPDATE invoices i
+SET paid_amount = s.total
+FROM (
+  SELECT invoice_id, sum(amount) AS total
+  FROM invoice_allocations
+  GROUP BY invoice_id
+) s
+WHERE s.invoice_id = i.id AND i.paid_amount <> s.total;
@@ -0,0 +1,14 @@
+-- Incoming transactions are matched to open invoices on import and booking
+-- (invoice number in the remittance text, amount, customer name). Suggestions
+-- the user rejected are remembered so they are not offered again.
+CREATE TABLE IF NOT EXISTS invoice_match_dismissals (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (transaction_id, invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS transactions_user_incoming_idx
+  ON transactions (user_id, tx_date)
+  WHERE amount > 0 AND transfer_group_id IS NULL;
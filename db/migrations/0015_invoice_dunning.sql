@@ -0,0 +1,34 @@
+-- Dunning letters per invoice (Zahlungserinnerung, 1. and 2. Mahnung). Each
+-- letter keeps the snapshot it was printed from, so the history shows what was
+-- claimed at the time. invoices.dunning_level/dunned_at mirror the latest letter
+-- for the invoice list and are kept in sync by the store.
+
+CREATE TABLE IF NOT EXISTS invoice_dunnings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  level text NOT NULL CHECK (level IN ('reminder','dunning_1','dunning_2')),
+  sent_on date NOT NULL,
+  pay_by date NOT NULL,
+  outstanding numeric(12,2) NOT NULL,
+  interest numeric(12,2) NOT NULL DEFAULT 0,
+  fee numeric(12,2) NOT NULL DEFAULT 0,
+  flat_fee numeric(12,2) NOT NULL DEFAULT 0,
+  total numeric(12,2) NOT NULL,
+  document jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- every level once per invoice
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_dunnings_invoice_level_uidx
+  ON invoice_dunnings (invoice_id, level);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS dunning_level text
+    CHECK (dunning_level IN ('reminder','dunning_1','dunning_2')),
+  ADD COLUMN IF NOT EXISTS dunned_at date;
+
+-- overdue filter: open invoices by due date
+CREATE INDEX IF NOT EXISTS invoices_user_open_due_idx
+  ON invoices (user_id, due_date)
+  WHERE status IN ('sent','partially_paid');
@@ -0,0 +1,31 @@
+-- VAT on business transactions and simple invoices, plus the user's VAT filing
+-- settings for the Umsatzsteuer-Voranmeldung. net_amount/vat_amount carry the
+-- sign of amount; for reverse charge purchases net_amount = amount and
+-- vat_amount is the self-assessed tax (§ 13b UStG), which is deducted again.
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS vat_code text
+    CHECK (vat_code IN ('standard','reduced','zero','reverse_charge')),
+  ADD COLUMN IF NOT EXISTS net_amount numeric(12,2),
+  ADD COLUMN IF NOT EXISTS vat_amount numeric(12,2);
+
+-- invoices with line items take their VAT from the items; vat_code is for
+-- invoices entered with a single amount
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS vat_code text
+    CHECK (vat_code IN ('standard','reduced','zero','reverse_charge'));
+
+CREATE TABLE IF NOT EXISTS tax_settings (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  vat_filing text NOT NULL DEFAULT 'none'
+    CHECK (vat_filing IN ('none','monthly','quarterly')),
+  vat_permanent_extension boolean NOT NULL DEFAULT false, -- Dauerfristverlängerung
+  vat_special_prepayment numeric(12,2) CHECK (vat_special_prepayment >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- USt-VA: business transactions by date
+CREATE INDEX IF NOT EXISTS transactions_user_business_date_idx
+  ON transactions (user_id, tx_date)
+  WHERE is_business AND transfer_group_id IS NULL;
@@ -0,0 +1,30 @@
+-- Income tax payments of a self-employed profile from its tax assessment:
+-- quarterly prepayments (Einkommensteuer-Vorauszahlungen) and the refund or
+-- back-payment expected after the assessment. Open payments are plan events;
+-- a payment is settled by the transaction that booked it.
+
+CREATE TABLE IF NOT EXISTS tax_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES income_profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('prepayment','refund','back_payment')),
+  tax_year int NOT NULL,
+  due_date date NOT NULL,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  note text NOT NULL DEFAULT '',
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- one prepayment per quarter, so a new assessment updates them in place
+CREATE UNIQUE INDEX IF NOT EXISTS tax_payments_prepayment_uidx
+  ON tax_payments (profile_id, tax_year, due_date)
+  WHERE kind = 'prepayment';
+
+-- a transaction settles at most one payment
+CREATE UNIQUE INDEX IF NOT EXISTS tax_payments_tx_uidx
+  ON tax_payments (transaction_id)
+  WHERE transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS tax_payments_user_due_idx ON tax_payments (user_id, due_date);
@@ -0,0 +1,5 @@
+-- DATEV export settings (Berater-/Mandantennummer, chart of accounts, account
+-- mapping per category and money account, BU keys); validated by the app.
+
+ALTER TABLE tax_settings
+  ADD COLUMN IF NOT EXISTS datev jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -13,10 +13,14 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { formatEUR } from '@/lib/money';
+import { formatDateDE } from '@/lib/format';
+import type { RecurringDeviation } from '@/lib/recurring/match';
+import type { CashflowReconcileMonthResponse } from '@/lib/cashflow/reconcile';
+import { CashflowReconcileView } from './reconcile-view';
 
 type CashflowEvent = {
   date: string;
-  kind: "RECURRING" | "BUDGET_RESERVE" | "SALARY" | "INVOICE" | "TX_NORMAL" | "TX_TRANSFER";
+  kind: "RECURRING" | "BUDGET_RESERVE" | "SALARY" | "INVOICE" | "COMMISSION" | "TAX" | "TX_NORMAL" | "TX_TRANSFER";
   title: string;
   amount: number;
   meta?: Record<string, any>;
@@ -33,7 +37,11 @@ function mapPlanEvent(e: any): CashflowEvent {
   switch (e.source) {
     case 'salary': return { date: e.date, kind: 'SALARY' as const, title: e.title, amount: e.amount };
     case 'invoice': return { date: e.date, kind: 'INVOICE' as const, title: e.title, amount: e.amount, meta: { invoiceId: e.invoiceId } };
-    default: return { date: e.date, kind: 'RECURRING' as const, title: e.title, amount: e.amount };
+    case 'budget_reserve': return { date: e.date, kind: 'BUDGET_RESERVE' as const, title: e.title, amount: e.amount, meta: { budgetId: e.budgetId } };
+    case 'commission': return { date: e.date, kind: 'COMMISSION' as const, title: e.title, amount: e.amount, meta: { commissionRuleId: e.commissionRuleId } };
+    case 'vat': return { date: e.date, kind: 'TAX' as const, title: e.title, amount: e.amount, meta: { vatPeriod: e.vatPeriod } };
+    case 'tax_payment': return { date: e.date, kind: 'TAX' as const, title: e.title, amount: e.amount, meta: { taxPaymentId: e.taxPaymentId } };
+    default: return { date: e.date, kind: 'RECURRING' as const, title: e.title, amount: e.amount, meta: { recurringId: e.recurringId } };
   }
 }
 
@@ -52,15 +60,29 @@ function mapActualEvent(item: any): CashflowEvent {
     kind: 'TX_NORMAL' as const,
     title: item.tx.description || item.tx.category || 'Transaction',
     amount: item.tx.amount,
-    meta: { invoiceId: item.tx.invoice_id },
+    meta: { invoiceId: item.tx.invoice_id, txId: item.tx.id, recurringId: item.tx.recurring_id },
   };
 }
 
+const DEVIATION_LABEL: Record<RecurringDeviation['kind'], string> = {
+  missed: 'Ausgeblieben',
+  price_change: 'Betrag geändert',
+  unexpected: 'Unerwartet',
+};
+
+function deviationDetail(d: RecurringDeviation) {
+  if (d.kind === 'missed') return `erwartet ${formatEUR(d.expected)}`;
+  if (d.kind === 'price_change') return `${formatEUR(d.expected)} → ${formatEUR(d.actual)}`;
+  return `zusätzlich ${formatEUR(d.actual)}`;
+}
+
 export default function CashflowPage() {
   const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7)); // YYYY-MM
   const [days, setDays] = useState<DayRow[]>([]);
   const [loading, setLoading] = useState(false);
-  const [mode, setMode] = useState<"PLAN" | "ACTUAL">("PLAN");
+  const [mode, setMode] = useState<"PLAN" | "ACTUAL" | "RECONCILE">("PLAN");
+  const [reconcile, setReconcile] = useState<CashflowReconcileMonthResponse | null>(null);
+  const [deviations, setDeviations] = useState<RecurringDeviation[]>([]);
 
   // collapsed-by-default, only one day open (accordion behavior)
   const [openDay, setOpenDay] = useState<string | null>(null);
@@ -68,6 +90,16 @@ export default function CashflowPage() {
   async function load(m: string) {
     setLoading(true);
     try {
+      if (mode === "RECONCILE") {
+        const r = await fetch(`/api/cashflow/reconcile?month=${encodeURIComponent(m)}`, { credentials: 'include' });
+        if (!r.ok) throw new Error(await r.text());
+        const j: CashflowReconcileMonthResponse = await r.json();
+        setReconcile(j);
+        setDeviations(j.recurringDeviations);
+        setDays([]);
+        return;
+      }
+
       const url =
         mode === "PLAN"
           ? `/api/cashflow/plan?month=${encodeURIComponent(m)}`
@@ -79,12 +111,13 @@ export default function CashflowPage() {
 
       const mappedDays: DayRow[] = j.days.map((day: any) => ({
         date: day.date,
-        events: day.events.map(mode === "PLAN" ? mapPlanEvent : mapActualEvent),
+        events: mode === "PLAN" ? day.events.map(mapPlanEvent) : day.items.map(mapActualEvent),
         daySum: day.net,
-        running: day.running ?? 0,
+        running: day.runningBalance ?? 0,
       }));
 
       setDays(mappedDays);
+      setDeviations(mode === "ACTUAL" ? j.recurringDeviations ?? [] : []);
       setOpenDay(null);
     } catch (e: any) {
       console.error(e);
@@ -118,17 +151,25 @@ export default function CashflowPage() {
     [activeDays],
   );
 
+  const deviationByTx = useMemo(() => {
+    const m = new Map<string, RecurringDeviation>();
+    for (const d of deviations) if (d.kind !== 'missed') m.set(d.transactionId, d);
+    return m;
+  }, [deviations]);
+
   return (
     <div className="space-y-6">
       <div className="flex items-start justify-between gap-4">
         <div>
           <h1 className="text-2xl font-semibold">
-            {mode === "PLAN" ? "Cashflow-Plan" : "Cashflow (Ist)"}
+            {mode === "PLAN" ? "Cashflow-Plan" : mode === "ACTUAL" ? "Cashflow (Ist)" : "Plan vs. Ist"}
           </h1>
           <p className="mt-1 text-sm text-muted-foreground">
             {mode === "PLAN"
               ? "Prognose (Recurring + Budgets + Salary + Rechnungen). Keine Alltagstransaktionen."
-              : "Echte Transaktionen im Monat. Transfers gruppiert."}
+              : mode === "ACTUAL"
+                ? "Echte Transaktionen im Monat. Transfers gruppiert."
+                : "Plan und Buchungen je Tag und Kategorie. Prognose = Ist bis heute + offener Plan."}
           </p>
         </div>
 
@@ -160,138 +201,205 @@ export default function CashflowPage() {
             >
               Ist
             </Button>
+            <Button
+              variant={mode === "RECONCILE" ? "default" : "outline"}
+              onClick={() => setMode("RECONCILE")}
+              disabled={loading}
+            >
+              Plan vs. Ist
+            </Button>
           </div>
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-4">
-        <Kpi title="Netto" value={formatEUR(net)} tone={net < 0 ? 'neg' : 'pos'} />
-        <Kpi title="Tage mit Events" value={String(activeDays.length)} />
-        <Kpi title="Recurring" value={String(recurringCount)} />
-        <Kpi title="Gehalt" value={String(salaryCount)} />
-        <Kpi title="Rechnungen" value={String(invoiceCount)} />
-        <Kpi title="Budgets" value={String(budgetCount)} />
-      </div>
-
-      <div className="rounded-xl border bg-card">
-        <div className="flex items-center justify-between border-b px-4 py-3">
-          <div className="text-sm font-medium">Ereignisse</div>
-          <div className="text-xs text-muted-foreground">
-            Klicke auf einen Tag für Details. {loading && '(lädt)'}
+      {mode === "RECONCILE" ? (
+        reconcile ? <CashflowReconcileView data={reconcile} /> : null
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <Kpi title="Netto" value={formatEUR(net)} tone={net < 0 ? 'neg' : 'pos'} />
+            <Kpi title="Tage mit Events" value={String(activeDays.length)} />
+            <Kpi title="Recurring" value={String(recurringCount)} />
+            <Kpi title="Gehalt" value={String(salaryCount)} />
+            <Kpi title="Rechnungen" value={String(invoiceCount)} />
+            <Kpi title="Budgets" value={String(budgetCount)} />
           </div>
-        </div>
 
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead className="w-[160px]">Tag</TableHead>
-              <TableHead>Zusammenfassung / Details</TableHead>
-              <TableHead className="w-[140px] text-right">Tag</TableHead>
-              <TableHead className="w-[160px] text-right">Running</TableHead>
-            </TableRow>
-          </TableHeader>
-
-          <TableBody>
-            {activeDays.length === 0 ? (
-              <TableRow>
-                <TableCell colSpan={4} className="py-10 text-center text-muted-foreground">
-                  {mode === "PLAN"
-                    ? "Keine geplanten Events in diesem Monat."
-                    : "Keine Transaktionen in diesem Monat."}
-                </TableCell>
-              </TableRow>
-            ) : (
-              activeDays.map((d) => {
-                const isOpen = openDay === d.date;
-                const toggle = () => setOpenDay((cur) => (cur === d.date ? null : d.date));
-
-                return (
-                  <React.Fragment key={d.date}>
-                    {/* Day header row */}
-                    <TableRow
-                      onClick={toggle}
-                      className="bg-muted/30 cursor-pointer hover:bg-muted/40"
-                    >
-                      <TableCell className="font-medium">
-                        <span className="mr-2 text-muted-foreground">{isOpen ? '▾' : '▸'}</span>
-                        {d.date}
-                      </TableCell>
-
-                      <TableCell className="text-muted-foreground">
-                        Tagessumme · {formatEUR(d.daySum)}
-                        <span className="ml-2 text-xs text-muted-foreground">
-                          ({d.events.length} Events)
-                        </span>
-                      </TableCell>
-
-                      <TableCell className="text-right font-medium tabular-nums">
-                        <span className={d.daySum < 0 ? 'text-red-500' : 'text-emerald-600'}>
-                          {formatEUR(d.daySum)}
-                        </span>
-                      </TableCell>
-
-                      <TableCell className="text-right font-medium tabular-nums">
-                        {formatEUR(d.running)}
-                      </TableCell>
-                    </TableRow>
-
-                    {/* Details block as ONE row (no endless table rows) */}
-                    {isOpen ? (
-                      <TableRow>
-                        <TableCell className="py-3">
-                          <div className="h-full w-3 border-l-2 border-muted-foreground/20" />
-                        </TableCell>
-
-                        <TableCell colSpan={3} className="py-3">
-                          <div className="space-y-2">
-                            {d.events.map((e, idx) => (
-                              <div
-                                key={`${d.date}-${idx}`}
-                                className="grid grid-cols-[90px_1fr_140px] items-center gap-3 rounded-lg border bg-background px-3 py-2"
-                              >
-                                <Badge
-                                  variant="outline"
-                                  className={e.kind === 'RECURRING' ? 'text-muted-foreground' : ''}
-                                >
-                                  {e.kind === "SALARY"
-                                    ? "Gehalt"
-                                    : e.kind === "INVOICE"
-                                      ? "Rechnung"
-                                      : e.kind === "TX_TRANSFER"
-                                        ? "Transfer"
-                                        : e.kind === "RECURRING"
-                                          ? "Recurring"
-                                          : e.kind === "BUDGET_RESERVE"
-                                            ? "Budget"
-                                            : "Tx"}
-                                </Badge>
-
-                                <div className="min-w-0">
-                                  <div className="truncate text-sm">{e.title}</div>
-                                </div>
-
-                                <div className="text-right tabular-nums">
-                                  <span className={e.amount < 0 ? 'text-red-500' : 'text-emerald-600'}>
-                                    {formatEUR(e.amount)}
-                                  </span>
-                                </div>
+          {mode === "ACTUAL" && deviations.length > 0 ? (
+            <div className="rounded-xl border bg-card">
+              <div className="flex items-center justify-between border-b px-4 py-3">
+                <div className="text-sm font-medium">Abweichungen zu Fixkosten</div>
+                <div className="text-xs text-muted-foreground">{deviations.length} Hinweise</div>
+              </div>
+              <div className="divide-y">
+                {deviations.map((d) => (
+                  <div
+                    key={`${d.kind}-${d.recurringId}-${d.date}-${d.kind === 'missed' ? '' : d.transactionId}`}
+                    className="grid grid-cols-[140px_1fr_200px] items-center gap-3 px-4 py-2 text-sm"
+                  >
+                    <Badge variant={d.kind === 'price_change' ? 'outline' : 'destructive'}>
+                      {DEVIATION_LABEL[d.kind]}
+                    </Badge>
+                    <div className="min-w-0 truncate">
+                      {d.title}
+                      <span className="ml-2 text-xs text-muted-foreground">{formatDateDE(d.date)}</span>
+                    </div>
+                    <div className="text-right tabular-nums">{deviationDetail(d)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          <div className="rounded-xl border bg-card">
+            <div className="flex items-center justify-between border-b px-4 py-3">
+              <div className="text-sm font-medium">Ereignisse</div>
+              <div className="text-xs text-muted-foreground">
+                Klicke auf einen Tag für Details. {loading && '(lädt)'}
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[160px]">Tag</TableHead>
+                  <TableHead>Zusammenfassung / Details</TableHead>
+                  <TableHead className="w-[140px] text-right">Tag</TableHead>
+                  <TableHead className="w-[160px] text-right">Running</TableHead>
+                </TableRow>
+              </TableHeader>
+
+              <TableBody>
+                {activeDays.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="py-10 text-center text-muted-foreground">
+                      {mode === "PLAN"
+                        ? "Keine geplanten Events in diesem Monat."
+                        : "Keine Transaktionen in diesem Monat."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  activeDays.map((d) => {
+                    const isOpen = openDay === d.date;
+                    const toggle = () => setOpenDay((cur) => (cur === d.date ? null : d.date));
+
+                    return (
+                      <React.Fragment key={d.date}>
+                        {/* Day header row */}
+                        <TableRow
+                          onClick={toggle}
+                          className="bg-muted/30 cursor-pointer hover:bg-muted/40"
+                        >
+                          <TableCell className="font-medium">
+                            <span className="mr-2 text-muted-foreground">{isOpen ? '▾' : '▸'}</span>
+                            {d.date}
+                          </TableCell>
+
+                          <TableCell className="text-muted-foreground">
+                            Tagessumme · {formatEUR(d.daySum)}
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              ({d.events.length} Events)
+                            </span>
+                          </TableCell>
+
+                          <TableCell className="text-right font-medium tabular-nums">
+                            <span className={d.daySum < 0 ? 'text-red-500' : 'text-emerald-600'}>
+                              {formatEUR(d.daySum)}
+                            </span>
+                          </TableCell>
+
+                          <TableCell className="text-right font-medium tabular-nums">
+                            {formatEUR(d.running)}
+                          </TableCell>
+                        </TableRow>
+
+                        {/* Details block as ONE row (no endless table rows) */}
+                        {isOpen ? (
+                          <TableRow>
+                            <TableCell className="py-3">
+                              <div className="h-full w-3 border-l-2 border-muted-foreground/20" />
+                            </TableCell>
+
+                            <TableCell colSpan={3} className="py-3">
+                              <div className="space-y-2">
+                                {d.events.map((e, idx) => (
+                                  <div
+                                    key={`${d.date}-${idx}`}
+                                    className="grid grid-cols-[90px_1fr_140px] items-center gap-3 rounded-lg border bg-background px-3 py-2"
+                                  >
+                                    <Badge
+                                      variant="outline"
+                                      className={e.kind === 'RECURRING' ? 'text-muted-foreground' : ''}
+                                    >
+                                      {e.kind === "SALARY"
+                                        ? "Gehalt"
+                                        : e.kind === "INVOICE"
+                                          ? "Rechnung"
+                                          : e.kind === "COMMISSION"
+                                            ? "Provision"
+                                            : e.kind === "TAX"
+                                              ? "Steuer"
+                                              : e.kind === "TX_TRANSFER"
+                                                ? "Transfer"
+                                                : e.kind === "RECURRING"
+                                                  ? "Recurring"
+                                                  : e.kind === "BUDGET_RESERVE"
+                                                    ? "Budget"
+                                                    : "Tx"}
+                                    </Badge>
+
+                                    <div className="min-w-0">
+                                      <div className="truncate text-sm">{e.title}</div>
+                                      {e.kind === 'TX_NORMAL' ? (
+                                        <RecurringNote
+                                          deviation={deviationByTx.get(e.meta?.txId)}
+                                          fulfilled={Boolean(e.meta?.recurringId)}
+                                        />
+                                      ) : null}
+                                    </div>
+
+                                    <div className="text-right tabular-nums">
+                                      <span className={e.amount < 0 ? 'text-red-500' : 'text-emerald-600'}>
+                                        {formatEUR(e.amount)}
+                                      </span>
+                                    </div>
+                                  </div>
+                                ))}
                               </div>
-                            ))}
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ) : null}
-                  </React.Fragment>
-                );
-              })
-            )}
-          </TableBody>
-        </Table>
-      </div>
+                            </TableCell>
+                          </TableRow>
+                        ) : null}
+                      </React.Fragment>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
     </div>
   );
 }
 
+function RecurringNote({
+  deviation,
+  fulfilled,
+}: {
+  deviation: RecurringDeviation | undefined;
+  fulfilled: boolean;
+}) {
+  if (deviation) {
+    return (
+      <div className="text-xs text-amber-600">
+        {DEVIATION_LABEL[deviation.kind]} · {deviationDetail(deviation)}
+      </div>
+    );
+  }
+  if (fulfilled) return <div className="text-xs text-muted-foreground">Fixkosten erfüllt</div>;
+  return null;
+}
+
 function Kpi({
                title,
                value,
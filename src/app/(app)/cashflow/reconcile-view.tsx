@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatEUR } from '@/lib/money';
+import { formatDateDE } from '@/lib/format';
+import type {
+  CashflowReconcileMonthResponse,
+  ReconcileEventStatus,
+} from '@/lib/cashflow/reconcile';
+
+const STATUS_LABEL: Record<ReconcileEventStatus, string> = {
+  settled: 'Erledigt',
+  open: 'Offen',
+  overdue: 'Überfällig',
+  missed: 'Ausgeblieben',
+};
+
+function StatusBadge({ status }: { status: ReconcileEventStatus }) {
+  return (
+    <Badge
+      variant={status === 'missed' ? 'destructive' : status === 'settled' ? 'secondary' : 'outline'}
+      className={status === 'overdue' ? 'text-amber-600' : ''}
+    >
+      {STATUS_LABEL[status]}
+    </Badge>
+  );
+}
+
+function Amount({ value, muted }: { value: number; muted?: boolean }) {
+  const tone = muted ? 'text-muted-foreground' : value < 0 ? 'text-red-500' : 'text-emerald-600';
+  return <span className={`tabular-nums ${tone}`}>{formatEUR(value)}</span>;
+}
+
+export function CashflowReconcileView({ data }: { data: CashflowReconcileMonthResponse }) {
+  const [openDay, setOpenDay] = useState<string | null>(null);
+
+  const activeDays = data.days.filter(
+    (d) => d.events.length > 0 || d.items.length > 0 || d.remaining !== 0,
+  );
+  const settledTx = new Set(
+    data.days.flatMap((d) => d.events.map((e) => e.transactionId).filter(Boolean)),
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Kpi title="Geplant" value={data.totals.planned} />
+        <Kpi title="Ist" value={data.totals.actual} />
+        <Kpi title="Abweichung" value={data.totals.variance} />
+        <Kpi
+          title="Prognose Monatsende"
+          value={data.projectedClosingBalance}
+          hint={`Ist bis heute + offener Plan (${formatEUR(data.totals.remaining)})`}
+        />
+      </div>
+
+      <div className="rounded-xl border bg-card">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <div className="text-sm font-medium">Nach Kategorie</div>
+          <div className="text-xs text-muted-foreground">Größte Abweichung zuerst</div>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Kategorie</TableHead>
+              <TableHead className="text-right">Geplant</TableHead>
+              <TableHead className="text-right">Ist</TableHead>
+              <TableHead className="text-right">Abweichung</TableHead>
+              <TableHead className="text-right">Noch offen</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.categories.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-10 text-center text-muted-foreground">
+                  Weder Plan noch Buchungen in diesem Monat.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data.categories.map((c) => (
+                <TableRow key={c.category}>
+                  <TableCell>{c.category}</TableCell>
+                  <TableCell className="text-right">
+                    <Amount value={c.planned} muted />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Amount value={c.actual} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Amount value={c.variance} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Amount value={c.remaining} muted />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="rounded-xl border bg-card">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <div className="text-sm font-medium">Nach Tag</div>
+          <div className="text-xs text-muted-foreground">
+            Klicke auf einen Tag für Plan und Buchungen.
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[160px]">Tag</TableHead>
+              <TableHead className="text-right">Geplant</TableHead>
+              <TableHead className="text-right">Ist</TableHead>
+              <TableHead className="text-right">Abweichung</TableHead>
+              <TableHead className="w-[160px] text-right">Prognose</TableHead>
+            </TableRow>
+          </TableHeader>
+
+          <TableBody>
+            {activeDays.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-10 text-center text-muted-foreground">
+                  Keine Ereignisse in diesem Monat.
+                </TableCell>
+              </TableRow>
+            ) : (
+              activeDays.map((d) => {
+                const isOpen = openDay === d.date;
+                const toggle = () => setOpenDay((cur) => (cur === d.date ? null : d.date));
+                const unplanned = d.items.filter(
+                  (i) => i.kind === 'transfer' || !settledTx.has(i.tx.id),
+                );
+
+                return (
+                  <React.Fragment key={d.date}>
+                    <TableRow
+                      onClick={toggle}
+                      className={`cursor-pointer hover:bg-muted/40 ${d.date === data.today ? 'bg-muted/50' : 'bg-muted/20'}`}
+                    >
+                      <TableCell className="font-medium">
+                        <span className="mr-2 text-muted-foreground">{isOpen ? '▾' : '▸'}</span>
+                        {formatDateDE(d.date)}
+                        {d.date === data.today ? (
+                          <span className="ml-2 text-xs text-muted-foreground">heute</span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Amount value={d.planned} muted />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Amount value={d.actual} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Amount value={d.variance} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium tabular-nums">
+                        {formatEUR(d.runningBalance)}
+                      </TableCell>
+                    </TableRow>
+
+                    {isOpen ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="py-3">
+                          <div className="space-y-2">
+                            {d.events.map((e) => (
+                              <div
+                                key={e.id}
+                                className="grid grid-cols-[110px_1fr_140px_140px] items-center gap-3 rounded-lg border bg-background px-3 py-2"
+                              >
+                                <StatusBadge status={e.status} />
+                                <div className="min-w-0 truncate text-sm">{e.title}</div>
+                                <div className="text-right text-sm">
+                                  <span className="text-xs text-muted-foreground">Plan </span>
+                                  <Amount value={e.amount} muted />
+                                </div>
+                                <div className="text-right text-sm">
+                                  {e.actualAmount !== null ? (
+                                    <>
+                                      <span className="text-xs text-muted-foreground">Ist </span>
+                                      <Amount value={e.actualAmount} />
+                                    </>
+                                  ) : e.remaining !== 0 ? (
+                                    <span className="text-xs text-muted-foreground">erwartet</span>
+                                  ) : null}
+                                </div>
+                              </div>
+                            ))}
+
+                            {unplanned.map((i) => (
+                              <div
+                                key={i.kind === 'tx' ? i.tx.id : i.transferGroupId}
+                                className="grid grid-cols-[110px_1fr_140px_140px] items-center gap-3 rounded-lg border border-dashed bg-background px-3 py-2"
+                              >
+                                <Badge variant="outline">
+                                  {i.kind === 'transfer' ? 'Transfer' : 'Ungeplant'}
+                                </Badge>
+                                <div className="min-w-0 truncate text-sm">
+                                  {i.kind === 'tx'
+                                    ? i.tx.description || i.tx.category || 'Transaktion'
+                                    : i.title}
+                                </div>
+                                <div />
+                                <div className="text-right text-sm">
+                                  <Amount value={i.kind === 'tx' ? i.tx.amount : i.net} />
+                                </div>
+                              </div>
+                            ))}
+
+                            {d.remaining !== 0 ? (
+                              <div className="text-xs text-muted-foreground">
+                                Noch erwartet
+                                {d.date === data.today ? ' (inkl. überfälliger Planposten)' : ''}:{' '}
+                                {formatEUR(d.remaining)}
+                              </div>
+                            ) : null}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ) : null}
+                  </React.Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+function Kpi({ title, value, hint }: { title: string; value: number; hint?: string }) {
+  return (
+    <div className="rounded-xl border bg-card p-4">
+      <div className="text-xs text-muted-foreground">{title}</div>
+      <div
+        className={`mt-1 text-2xl font-semibold ${value < 0 ? 'text-red-600' : 'text-emerald-600'}`}
+      >
+        {formatEUR(value)}
+      </div>
+      {hint ? <div className="mt-1 text-xs text-muted-foreground">{hint}</div> : null}
+    </div>
+  );
+}
@@ -45,6 +45,12 @@ type TxItem = {
   to_account_name: string | null;
 };
 
+type TaxReserve = {
+  target: number;
+  balance: number;
+  shortfall: number;
+};
+
 type BudgetOverview = {
   id: string;
   name: string;
@@ -80,6 +86,7 @@ export default function DashboardPage() {
   const [budgets, setBudgets] = useState<BudgetOverview[]>([]);
   const [cashflowNet, setCashflowNet] = useState<number>(0);
   const [onboarding, setOnboarding] = useState<OnboardingStatus | null>(null);
+  const [taxReserve, setTaxReserve] = useState<TaxReserve | null>(null);
   const [loading, setLoading] = useState(false);
 
   async function load() {
@@ -87,30 +94,31 @@ export default function DashboardPage() {
     try {
       const month = yyyymm(new Date());
 
-      const [aRes, tRes, bRes, cRes, oRes] = await Promise.all([
+      const [aRes, tRes, bRes, cRes, oRes, rRes] = await Promise.all([
         fetch('/api/accounts/balances'),
         fetch('/api/transactions'),
         fetch('/api/budgets/overview'),
-        fetch(`/api/cashflow/month?month=${encodeURIComponent(month)}`),
+        fetch(`/api/cashflow/plan?month=${encodeURIComponent(month)}`),
         fetch('/api/onboarding/status', { cache: 'no-store' }),
+        fetch('/api/taxes/reserve'),
       ]);
 
-      const [aJson, tJson, bJson, cJson, oJson] = await Promise.all([
+      const [aJson, tJson, bJson, cJson, oJson, rJson] = await Promise.all([
         aRes.json(),
         tRes.json(),
         bRes.json(),
         cRes.json(),
         oRes.json(),
+        rRes.json(),
       ]);
 
       setAccounts(aJson.items ?? []);
       setTxs((tJson.items ?? []).slice(0, 10));
       setBudgets((bJson.items ?? []).slice(0, 8));
       setOnboarding(oJson ?? null);
+      setTaxReserve(rJson.item ?? null);
 
-      const days = cJson.days ?? [];
-      const net = days.length ? n(days[days.length - 1].running) : 0;
-      setCashflowNet(net);
+      setCashflowNet(n(cJson.totals?.net));
     } finally {
       setLoading(false);
     }
@@ -188,6 +196,23 @@ export default function DashboardPage() {
         </Alert>
       ) : null}
 
+      {taxReserve && taxReserve.shortfall > 0 ? (
+        <Alert variant="destructive">
+          <AlertTitle>Steuerrücklage unterdeckt</AlertTitle>
+          <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <span>
+              Auf den Steuerkonten fehlen{' '}
+              <Money value={taxReserve.shortfall} className="font-medium text-current" /> bis zur Rücklage von{' '}
+              <Money value={taxReserve.target} className="text-current" />.
+            </span>
+
+            <Button asChild variant="outline">
+              <Link href="/taxes/reserve">Rücklage auffüllen</Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : null}
+
       <div className="grid gap-4 lg:grid-cols-3">
         <SectionCard title="Budgets (Top)" description={`${budgetStats.over} over · ${budgetStats.near} nahe Limit`}>
           <div className="space-y-3">
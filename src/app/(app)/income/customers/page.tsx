@@ -0,0 +1,455 @@
+'use client';
+
+import * as React from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { DEFAULT_PAYMENT_TERMS_DAYS, isValidVatId, type Customer } from '@/lib/customers/customer';
+import type { CustomerPaymentStatsItem } from '@/lib/invoices/store';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteDialog } from '@/components/confirm-delete-dialog';
+
+type IncomeProfile = { id: string; name: string; type: string };
+
+const NO_PROFILE = 'none';
+
+const CustomerSchema = z.object({
+  name: z.string().trim().min(1, 'Pflichtfeld').max(240),
+  email: z.string().trim().max(240),
+  street: z.string().trim().max(240),
+  postalCode: z.string().trim().max(20),
+  city: z.string().trim().max(120),
+  country: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2}$/, 'Ländercode, z.B. DE'),
+  vatId: z
+    .string()
+    .refine((s) => !s.trim() || isValidVatId(s), 'Ungültige USt-IdNr. (z.B. DE123456789)'),
+  paymentTermsDays: z
+    .string()
+    .refine((s) => /^\d+$/.test(s.trim()) && Number(s) <= 365, 'Tage 0–365'),
+  defaultProfileId: z.string(),
+  notes: z.string().max(4000),
+});
+
+type CustomerInput = z.input<typeof CustomerSchema>;
+
+const EMPTY_CUSTOMER: CustomerInput = {
+  name: '',
+  email: '',
+  street: '',
+  postalCode: '',
+  city: '',
+  country: 'DE',
+  vatId: '',
+  paymentTermsDays: String(DEFAULT_PAYMENT_TERMS_DAYS),
+  defaultProfileId: NO_PROFILE,
+  notes: '',
+};
+
+function customerToForm(c: Customer): CustomerInput {
+  return {
+    name: c.name,
+    email: c.email,
+    street: c.street,
+    postalCode: c.postal_code,
+    city: c.city,
+    country: c.country,
+    vatId: c.vat_id ?? '',
+    paymentTermsDays: String(c.payment_terms_days),
+    defaultProfileId: c.default_profile_id ?? NO_PROFILE,
+    notes: c.notes,
+  };
+}
+
+function paymentBehaviour(s: CustomerPaymentStatsItem | undefined) {
+  if (!s) return '–';
+  if (s.medianDaysLate != null) {
+    const late = s.medianDaysLate;
+    const text =
+      late > 0
+        ? `${late} Tage nach Fälligkeit`
+        : late < 0
+          ? `${-late} Tage vor Fälligkeit`
+          : 'pünktlich';
+    return `${text} (${s.paidCount}×)`;
+  }
+  return s.medianDaysToPay != null ? `nach ${s.medianDaysToPay} Tagen (${s.paidCount}×)` : '–';
+}
+
+function address(c: Customer) {
+  return [c.street, [c.postal_code, c.city].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+}
+
+export default function IncomeCustomersPage() {
+  const [items, setItems] = React.useState<Customer[]>([]);
+  const [profiles, setProfiles] = React.useState<IncomeProfile[]>([]);
+  const [stats, setStats] = React.useState<CustomerPaymentStatsItem[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  // null = closed, 'new' = create, otherwise the customer being edited
+  const [editing, setEditing] = React.useState<Customer | 'new' | null>(null);
+  const [deleteItem, setDeleteItem] = React.useState<Customer | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+
+  const form = useForm<CustomerInput>({
+    resolver: zodResolver(CustomerSchema),
+    defaultValues: EMPTY_CUSTOMER,
+  });
+
+  async function reload() {
+    setLoading(true);
+    try {
+      const [customers, incomeProfiles, paymentStats] = await Promise.all([
+        apiGet<{ items: Customer[] }>('/api/income/customers'),
+        apiGet<{ items: IncomeProfile[] }>('/api/income/profiles'),
+        apiGet<{ items: CustomerPaymentStatsItem[] }>('/api/income/invoices/payment-stats'),
+      ]);
+      setItems(customers.items);
+      setProfiles(incomeProfiles.items);
+      setStats(paymentStats.items);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  React.useEffect(() => {
+    void reload();
+  }, []);
+
+  function openEditor(c: Customer | 'new') {
+    form.reset(c === 'new' ? EMPTY_CUSTOMER : customerToForm(c));
+    setEditing(c);
+  }
+
+  async function onSubmit(values: CustomerInput) {
+    const parsed = CustomerSchema.parse(values);
+    const body = JSON.stringify({
+      ...parsed,
+      vatId: parsed.vatId.trim() || null,
+      paymentTermsDays: Number(parsed.paymentTermsDays),
+      defaultProfileId: parsed.defaultProfileId === NO_PROFILE ? null : parsed.defaultProfileId,
+    });
+
+    if (editing && editing !== 'new') {
+      await apiSend(`/api/income/customers/${editing.id}`, { method: 'PATCH', body });
+    } else {
+      await apiSend('/api/income/customers', { method: 'POST', body });
+    }
+
+    setEditing(null);
+    await reload();
+  }
+
+  async function toggleActive(c: Customer) {
+    await apiSend(`/api/income/customers/${c.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ isActive: !c.is_active }),
+    });
+    await reload();
+  }
+
+  async function confirmDelete() {
+    if (!deleteItem) return;
+    setDeleting(true);
+    try {
+      await apiSend(`/api/income/customers/${deleteItem.id}`, { method: 'DELETE' });
+      setDeleteItem(null);
+      await reload();
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  const profileName = (id: string | null) => profiles.find((p) => p.id === id)?.name ?? '–';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Kunden</h2>
+          <p className="text-sm text-muted-foreground">
+            Zahlungsziel und Einkommensprofil werden beim Anlegen einer Rechnung übernommen.
+          </p>
+        </div>
+        <Button onClick={() => openEditor('new')}>Neuer Kunde</Button>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-muted-foreground">Lade…</div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Adresse</TableHead>
+                <TableHead>USt-IdNr.</TableHead>
+                <TableHead className="text-right">Zahlungsziel</TableHead>
+                <TableHead>Zahlt im Median</TableHead>
+                <TableHead>Profil</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                    Noch keine Kunden angelegt.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((c) => (
+                  <TableRow key={c.id} className={c.is_active ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="font-medium">{c.name}</div>
+                      {c.email ? (
+                        <div className="text-xs text-muted-foreground">{c.email}</div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell>{address(c) || '–'}</TableCell>
+                    <TableCell>{c.vat_id ?? '–'}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {c.payment_terms_days} Tage
+                    </TableCell>
+                    <TableCell>
+                      {paymentBehaviour(stats.find((s) => s.customerId === c.id))}
+                    </TableCell>
+                    <TableCell>{profileName(c.default_profile_id)}</TableCell>
+                    <TableCell className="space-x-1 text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(c)}>
+                        Bearbeiten
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => void toggleActive(c)}>
+                        {c.is_active ? 'Archivieren' : 'Aktivieren'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDeleteItem(c)}>
+                        Löschen
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(o) => !o && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Kunde anlegen' : 'Kunde bearbeiten'}</DialogTitle>
+          </DialogHeader>
+          <Form<CustomerInput> {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="z.B. ACME GmbH" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>E-Mail (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="street"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Straße und Hausnummer</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-[1fr_2fr_5rem] gap-4">
+                <FormField
+                  control={form.control}
+                  name="postalCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>PLZ</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="city"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ort</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="country"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Land</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="DE" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="vatId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>USt-IdNr. (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="DE123456789" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="paymentTermsDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Zahlungsziel (Tage)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="defaultProfileId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Einkommensprofil</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PROFILE}>Keins</SelectItem>
+                        {profiles.map((p) => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.name || p.type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notizen (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  Speichern
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDeleteDialog
+        open={!!deleteItem}
+        onOpenChange={(open) => !open && setDeleteItem(null)}
+        title="Kunde löschen?"
+        description="Bestehende Rechnungen bleiben erhalten und behalten den Kundennamen."
+        confirmLabel="Löschen"
+        loading={deleting}
+        onConfirm={confirmDelete}
+      />
+    </div>
+  );
+}
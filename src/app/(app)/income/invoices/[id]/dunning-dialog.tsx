@@ -0,0 +1,244 @@
+'use client';
+
+import * as React from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { parseMoneyDE } from '@/lib/money';
+import {
+  B2B_FLAT_FEE,
+  DUNNING_LEVEL_LABEL,
+  DUNNING_LEVELS,
+  type DunningSettings,
+} from '@/lib/invoices/dunning';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+
+const daysField = z
+  .string()
+  .regex(/^\d{1,3}$/, 'Tage (0–365)')
+  .refine((s) => Number(s) <= 365, 'Tage (0–365)');
+
+const feeField = z.string().refine((s) => {
+  const n = parseMoneyDE(s || '0');
+  return Number.isFinite(n) && n >= 0 && n <= 1000;
+}, 'Ungültiger Betrag');
+
+const LevelSchema = z.object({ enabled: z.boolean(), daysAfter: daysField, fee: feeField });
+
+const DunningFormSchema = z.object({
+  reminder: LevelSchema,
+  dunning_1: LevelSchema,
+  dunning_2: LevelSchema,
+  paymentDays: daysField.refine((s) => Number(s) >= 1 && Number(s) <= 60, 'Tage (1–60)'),
+  chargeInterest: z.boolean(),
+  chargeFlatFee: z.boolean(),
+});
+
+type DunningInput = z.input<typeof DunningFormSchema>;
+
+const toInput = (s: DunningSettings): DunningInput => {
+  const level = (l: DunningSettings['reminder']) => ({
+    enabled: l.enabled,
+    daysAfter: String(l.daysAfter),
+    fee: l.fee.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+  });
+  return {
+    reminder: level(s.reminder),
+    dunning_1: level(s.dunning_1),
+    dunning_2: level(s.dunning_2),
+    paymentDays: String(s.paymentDays),
+    chargeInterest: s.chargeInterest,
+    chargeFlatFee: s.chargeFlatFee,
+  };
+};
+
+/**
+ * Mahnstufen des Einkommensprofils: Abstand in Tagen (erste Stufe ab Fälligkeit,
+ * danach ab dem letzten Schreiben), Mahngebühr und Verzugszinsen/-pauschale.
+ */
+export function DunningDialog({
+  profileId,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  profileId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const [loaded, setLoaded] = React.useState(false);
+  const form = useForm<DunningInput>({ resolver: zodResolver(DunningFormSchema) });
+
+  React.useEffect(() => {
+    if (!open) return;
+    apiGet<{ item: DunningSettings }>(`/api/income/profiles/${profileId}/dunning`).then(
+      ({ item }) => {
+        form.reset(toInput(item));
+        setLoaded(true);
+      },
+    );
+  }, [open, profileId, form]);
+
+  async function onSubmit(values: DunningInput) {
+    const v = DunningFormSchema.parse(values);
+    const level = (l: (typeof v)['reminder']) => ({
+      enabled: l.enabled,
+      daysAfter: Number(l.daysAfter),
+      fee: parseMoneyDE(l.fee || '0'),
+    });
+    await apiSend(`/api/income/profiles/${profileId}/dunning`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        reminder: level(v.reminder),
+        dunning_1: level(v.dunning_1),
+        dunning_2: level(v.dunning_2),
+        paymentDays: Number(v.paymentDays),
+        chargeInterest: v.chargeInterest,
+        chargeFlatFee: v.chargeFlatFee,
+      }),
+    });
+    onOpenChange(false);
+    onSaved();
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Mahnwesen</DialogTitle>
+        </DialogHeader>
+
+        {loaded && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {DUNNING_LEVELS.map((level, i) => (
+                <div key={level} className="grid grid-cols-3 gap-4 items-end">
+                  <FormField
+                    control={form.control}
+                    name={`${level}.enabled`}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(v) => field.onChange(v === true)}
+                          />
+                        </FormControl>
+                        <FormLabel>{DUNNING_LEVEL_LABEL[level]}</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`${level}.daysAfter`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {i === 0 ? 'Tage nach Fälligkeit' : 'Tage nach letztem Schreiben'}
+                        </FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`${level}.fee`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Mahngebühr (€)</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+
+              <FormField
+                control={form.control}
+                name="paymentDays"
+                render={({ field }) => (
+                  <FormItem className="max-w-xs">
+                    <FormLabel>Zahlungsfrist im Schreiben (Tage)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="chargeInterest"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>
+                      Verzugszinsen ab der 1. Mahnung (9 Prozentpunkte über Basiszinssatz)
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="chargeFlatFee"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>
+                      Verzugspauschale {B2B_FLAT_FEE} € (§ 288 Abs. 5 BGB, Mahngebühren werden
+                      angerechnet)
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Speichere...' : 'Speichern'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
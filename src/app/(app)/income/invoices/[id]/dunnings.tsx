@@ -0,0 +1,167 @@
+'use client';
+
+import * as React from 'react';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR } from '@/lib/money';
+import { DUNNING_LEVEL_LABEL, daysOverdue, type DunningLevel } from '@/lib/invoices/dunning';
+import type { InvoiceDunning } from '@/lib/invoices/store';
+import type { Invoice } from '@/lib/types/income';
+
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteDialog } from '@/components/confirm-delete-dialog';
+
+type DunningsResponse = {
+  items: InvoiceDunning[];
+  next: { level: DunningLevel; dueOn: string } | null;
+};
+
+/**
+ * Mahnverlauf einer überfälligen Rechnung: Zahlungserinnerung, 1. und 2. Mahnung
+ * mit Verzugszinsen und Kosten, jeweils als PDF.
+ */
+export function InvoiceDunnings({
+  invoice,
+  onChanged,
+}: {
+  invoice: Invoice;
+  onChanged: () => void;
+}) {
+  const [data, setData] = React.useState<DunningsResponse>({ items: [], next: null });
+  const [creating, setCreating] = React.useState(false);
+  const [deleteItem, setDeleteItem] = React.useState<InvoiceDunning | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const reload = React.useCallback(async () => {
+    setData(await apiGet<DunningsResponse>(`/api/income/invoices/${invoice.id}/dunnings`));
+  }, [invoice.id]);
+
+  // the parent reloads the invoice after payments, letters and settings changes
+  React.useEffect(() => {
+    reload();
+  }, [reload, invoice]);
+
+  async function createNext() {
+    setCreating(true);
+    setError(null);
+    try {
+      await apiSend(`/api/income/invoices/${invoice.id}/dunnings`, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Fehler');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteItem) return;
+    setDeleting(true);
+    try {
+      await apiSend(`/api/income/invoices/${invoice.id}/dunnings/${deleteItem.id}`, {
+        method: 'DELETE',
+      });
+      setDeleteItem(null);
+      onChanged();
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const overdueDays = daysOverdue(invoice, today);
+  const { items, next } = data;
+  if (items.length === 0 && !next) return null;
+
+  const latest = items[items.length - 1];
+
+  return (
+    <div className="space-y-4 rounded-xl border p-6">
+      <div className="flex justify-between items-baseline gap-4">
+        <h2 className="text-xl font-semibold">Mahnungen</h2>
+        {overdueDays > 0 && (
+          <p className="text-sm text-destructive">{overdueDays} Tage überfällig</p>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Datum</TableHead>
+              <TableHead>Stufe</TableHead>
+              <TableHead>Zahlbar bis</TableHead>
+              <TableHead className="text-right">Zinsen</TableHead>
+              <TableHead className="text-right">Kosten</TableHead>
+              <TableHead className="text-right">Gesamt</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((d) => (
+              <TableRow key={d.id}>
+                <TableCell>{formatDateDE(d.sentOn)}</TableCell>
+                <TableCell>{DUNNING_LEVEL_LABEL[d.level]}</TableCell>
+                <TableCell>{formatDateDE(d.payBy)}</TableCell>
+                <TableCell className="text-right">{formatEUR(d.interest)}</TableCell>
+                <TableCell className="text-right">{formatEUR(d.fee + d.flatFee)}</TableCell>
+                <TableCell className="text-right">{formatEUR(d.total)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/api/income/invoices/${invoice.id}/dunnings/${d.id}/document`}>PDF</a>
+                  </Button>
+                  {d.id === latest.id && (
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteItem(d)}>
+                      Entfernen
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {next && (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {DUNNING_LEVEL_LABEL[next.level]}{' '}
+            {next.dueOn <= today ? 'ist fällig' : `fällig ab ${formatDateDE(next.dueOn)}`}
+          </p>
+          <Button
+            variant={next.dueOn <= today ? 'default' : 'outline'}
+            onClick={createNext}
+            disabled={creating}
+          >
+            {creating ? 'Erstelle...' : `${DUNNING_LEVEL_LABEL[next.level]} erstellen`}
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <ConfirmDeleteDialog
+        open={!!deleteItem}
+        onOpenChange={(o) => !o && setDeleteItem(null)}
+        title="Mahnung entfernen?"
+        description="Nur die letzte Mahnung kann entfernt werden, z.B. wenn sie nicht verschickt wurde."
+        confirmLabel="Entfernen"
+        loading={deleting}
+        onConfirm={confirmDelete}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,456 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { z } from 'zod';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import {
+  INVOICE_UNITS,
+  INVOICE_UNIT_LABEL,
+  invoiceTotals,
+  VAT_RATES,
+  type InvoiceUnit,
+} from '@/lib/invoices/document';
+import type { InvoiceItem } from '@/lib/invoices/store';
+import type { Invoice } from '@/lib/types/income';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DunningDialog } from './dunning-dialog';
+import { InvoiceDunnings } from './dunnings';
+import { InvoicePayments } from './payments';
+import { SellerDialog } from './seller-dialog';
+
+const moneyField = z
+  .string()
+  .min(1, 'Pflichtfeld')
+  .refine((s) => Number.isFinite(parseMoneyDE(s)) && parseMoneyDE(s) >= 0, 'Ungültiger Betrag');
+
+const ItemsSchema = z.object({
+  buyerReference: z.string().max(200),
+  items: z.array(
+    z.object({
+      description: z.string().trim().min(1, 'Pflichtfeld').max(500),
+      quantity: moneyField.refine((s) => parseMoneyDE(s) > 0, 'Menge > 0'),
+      unit: z.enum(INVOICE_UNITS),
+      unitPrice: moneyField,
+      vatRate: z.string(),
+    }),
+  ),
+});
+
+type ItemsInput = z.input<typeof ItemsSchema>;
+
+const EMPTY_ITEM: ItemsInput['items'][number] = {
+  description: '',
+  quantity: '1',
+  unit: 'HUR',
+  unitPrice: '',
+  vatRate: '19',
+};
+
+const DOWNLOADS = [
+  ['pdf', 'PDF'],
+  ['zugferd', 'ZUGFeRD (PDF)'],
+  ['xrechnung-cii', 'XRechnung (CII)'],
+  ['xrechnung-ubl', 'XRechnung (UBL)'],
+] as const;
+
+const numberDE = (n: number) => n.toLocaleString('de-DE', { maximumFractionDigits: 3 });
+
+function toLines(items: ItemsInput['items']) {
+  return items.map((l) => ({
+    description: l.description.trim(),
+    quantity: parseMoneyDE(l.quantity),
+    unit: l.unit as InvoiceUnit,
+    unitPrice: parseMoneyDE(l.unitPrice),
+    vatRate: Number(l.vatRate),
+  }));
+}
+
+export default function InvoiceDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [invoice, setInvoice] = React.useState<Invoice | null>(null);
+  const [items, setItems] = React.useState<InvoiceItem[]>([]);
+  const [sellerOpen, setSellerOpen] = React.useState(false);
+  const [dunningOpen, setDunningOpen] = React.useState(false);
+  const [issuing, setIssuing] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [eInvoiceIssues, setEInvoiceIssues] = React.useState<string[]>([]);
+
+  const form = useForm<ItemsInput>({
+    resolver: zodResolver(ItemsSchema),
+    defaultValues: { buyerReference: '', items: [EMPTY_ITEM] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'items' });
+
+  const reload = React.useCallback(async () => {
+    const data = await apiGet<{ item: Invoice; items: InvoiceItem[] }>(
+      `/api/income/invoices/${id}`,
+    );
+    setInvoice(data.item);
+    setItems(data.items);
+    form.reset({
+      buyerReference: data.item.buyer_reference ?? '',
+      items:
+        data.items.length > 0
+          ? data.items.map((l) => ({
+              description: l.description,
+              quantity: numberDE(l.quantity),
+              unit: l.unit,
+              unitPrice: numberDE(l.unitPrice),
+              vatRate: String(l.vatRate),
+            }))
+          : [EMPTY_ITEM],
+    });
+  }, [id, form]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  async function onSave(values: ItemsInput) {
+    setError(null);
+    const v = ItemsSchema.parse(values);
+    const saved = await apiSend<{ totals: { gross: number } }>(`/api/income/invoices/${id}/items`, {
+      method: 'PUT',
+      body: JSON.stringify({ items: toLines(v.items) }),
+    });
+    if ((invoice?.buyer_reference ?? '') !== v.buyerReference.trim()) {
+      await apiSend(`/api/income/invoices/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          amount: saved.totals.gross > 0 ? saved.totals.gross : invoice?.amount,
+          buyerReference: v.buyerReference.trim() || null,
+        }),
+      });
+    }
+    await reload();
+  }
+
+  async function onIssue() {
+    setIssuing(true);
+    setError(null);
+    try {
+      const r = await apiSend<{ eInvoiceIssues: string[] }>(`/api/income/invoices/${id}/issue`, {
+        method: 'POST',
+      });
+      setEInvoiceIssues(r.eInvoiceIssues);
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Fehler');
+    } finally {
+      setIssuing(false);
+    }
+  }
+
+  if (!invoice) {
+    return <div className="p-6 text-muted-foreground">Lade...</div>;
+  }
+
+  const issued = !!invoice.invoice_number;
+  const watched = form.watch('items');
+  const preview = invoiceTotals(
+    toLines(watched).filter((l) => Number.isFinite(l.quantity) && Number.isFinite(l.unitPrice)),
+  );
+
+  return (
+    <div className="space-y-6 p-6 max-w-4xl mx-auto">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <Link href="/income/invoices" className="text-sm text-muted-foreground hover:underline">
+            ← Rechnungen
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {invoice.invoice_number ?? 'Rechnungsentwurf'}
+          </h1>
+          <p className="text-muted-foreground">
+            {invoice.customer_name || 'Unbekannter Kunde'}
+            {invoice.issued_at ? ` · ${formatDateDE(invoice.issued_at)}` : ''}
+            {invoice.due_date ? ` · fällig ${formatDateDE(invoice.due_date)}` : ''}
+          </p>
+        </div>
+        {invoice.profile_id && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setDunningOpen(true)}>
+              Mahnwesen
+            </Button>
+            <Button variant="outline" onClick={() => setSellerOpen(true)}>
+              Absender
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {issued ? (
+        <div className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pos.</TableHead>
+                <TableHead>Beschreibung</TableHead>
+                <TableHead className="text-right">Menge</TableHead>
+                <TableHead className="text-right">Einzelpreis</TableHead>
+                <TableHead className="text-right">USt.</TableHead>
+                <TableHead className="text-right">Gesamt</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((l) => (
+                <TableRow key={l.id}>
+                  <TableCell>{l.position}</TableCell>
+                  <TableCell>{l.description}</TableCell>
+                  <TableCell className="text-right">
+                    {numberDE(l.quantity)} {INVOICE_UNIT_LABEL[l.unit]}
+                  </TableCell>
+                  <TableCell className="text-right">{formatEUR(l.unitPrice)}</TableCell>
+                  <TableCell className="text-right">{l.vatRate} %</TableCell>
+                  <TableCell className="text-right">
+                    {formatEUR(l.quantity * l.unitPrice)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="text-right space-y-1">
+            <p>Netto {formatEUR(invoice.net_amount ?? 0)}</p>
+            <p>USt. {formatEUR(invoice.vat_amount ?? 0)}</p>
+            <p className="text-xl font-bold">Gesamt {formatEUR(invoice.amount)}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {DOWNLOADS.map(([format, label]) => (
+              <Button key={format} variant="outline" asChild>
+                <a href={`/api/income/invoices/${id}/document?format=${format}`}>{label}</a>
+              </Button>
+            ))}
+          </div>
+
+          {eInvoiceIssues.length > 0 && (
+            <div className="rounded-lg border p-4 text-sm">
+              <p className="font-medium">Für die E-Rechnung fehlen noch Angaben:</p>
+              <ul className="list-disc pl-5">
+                {eInvoiceIssues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Beschreibung</TableHead>
+                  <TableHead className="w-24">Menge</TableHead>
+                  <TableHead className="w-28">Einheit</TableHead>
+                  <TableHead className="w-32">Einzelpreis (netto)</TableHead>
+                  <TableHead className="w-24">USt.</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((f, index) => (
+                  <TableRow key={f.id}>
+                    <TableCell>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.description`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.unit`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {INVOICE_UNITS.map((u) => (
+                                  <SelectItem key={u} value={u}>
+                                    {INVOICE_UNIT_LABEL[u]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.unitPrice`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="0,00" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.vatRate`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {VAT_RATES.map((r) => (
+                                  <SelectItem key={r} value={String(r)}>
+                                    {r} %
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)}>
+                        Entfernen
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Button type="button" variant="outline" onClick={() => append(EMPTY_ITEM)}>
+              Position hinzufügen
+            </Button>
+
+            <FormField
+              control={form.control}
+              name="buyerReference"
+              render={({ field }) => (
+                <FormItem className="max-w-sm">
+                  <FormLabel>Leitweg-ID / Bestellnummer (optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="text-right space-y-1">
+              <p>Netto {formatEUR(preview.net)}</p>
+              <p>USt. {formatEUR(preview.vat)}</p>
+              <p className="text-xl font-bold">Gesamt {formatEUR(preview.gross)}</p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="submit" variant="outline" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Speichere...' : 'Positionen speichern'}
+              </Button>
+              <Button
+                type="button"
+                onClick={onIssue}
+                disabled={issuing || items.length === 0 || form.formState.isDirty}
+              >
+                {issuing ? 'Erstelle...' : 'Rechnung erstellen'}
+              </Button>
+            </div>
+            {!invoice.profile_id && (
+              <p className="text-sm text-muted-foreground text-right">
+                Für die Rechnungsnummer braucht die Rechnung ein Einkommensprofil.
+              </p>
+            )}
+          </form>
+        </Form>
+      )}
+
+      <InvoicePayments invoice={invoice} onChanged={reload} />
+
+      {issued && <InvoiceDunnings invoice={invoice} onChanged={reload} />}
+
+      {invoice.profile_id && (
+        <>
+          <SellerDialog
+            profileId={invoice.profile_id}
+            open={sellerOpen}
+            onOpenChange={setSellerOpen}
+            onSaved={reload}
+          />
+          <DunningDialog
+            profileId={invoice.profile_id}
+            open={dunningOpen}
+            onOpenChange={setDunningOpen}
+            onSaved={reload}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import * as React from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import { outstandingAmount, type InvoiceAllocation } from '@/lib/invoices/allocation';
+import type { Invoice } from '@/lib/types/income';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteDialog } from '@/components/confirm-delete-dialog';
+
+type Account = { id: string; name: string };
+
+const PaymentSchema = z.object({
+  accountId: z.string().min(1, 'Konto wählen'),
+  txDate: z.string().min(1, 'Datum erforderlich'),
+  amount: z.string().refine((s) => {
+    const n = parseMoneyDE(s);
+    return Number.isFinite(n) && n > 0;
+  }, 'Ungültiger Betrag (z.B. 1.234,56)'),
+  writeOffRemainder: z.boolean(),
+  writeOffNote: z.string().max(240),
+});
+
+type PaymentInput = z.input<typeof PaymentSchema>;
+
+const toInput = (n: number) =>
+  n.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Zahlungseingänge und Abschreibungen einer Rechnung; Teilzahlungen lassen den
+ * Rest offen, abgezogene Gebühren können als Abschreibung ausgebucht werden.
+ */
+export function InvoicePayments({
+  invoice,
+  onChanged,
+}: {
+  invoice: Invoice;
+  onChanged: () => void;
+}) {
+  const [allocations, setAllocations] = React.useState<InvoiceAllocation[]>([]);
+  const [accounts, setAccounts] = React.useState<Account[]>([]);
+  const [deleteItem, setDeleteItem] = React.useState<InvoiceAllocation | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const outstanding = outstandingAmount(invoice.amount, invoice.paid_amount);
+  const open = invoice.status !== 'paid' && invoice.status !== 'void';
+
+  const form = useForm<PaymentInput>({
+    resolver: zodResolver(PaymentSchema),
+    defaultValues: {
+      accountId: '',
+      txDate: new Date().toISOString().slice(0, 10),
+      amount: toInput(outstanding),
+      writeOffRemainder: false,
+      writeOffNote: '',
+    },
+  });
+
+  const reload = React.useCallback(async () => {
+    const data = await apiGet<{ items: InvoiceAllocation[] }>(
+      `/api/income/invoices/${invoice.id}/allocations`,
+    );
+    setAllocations(data.items);
+  }, [invoice.id]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload, invoice.paid_amount]);
+
+  React.useEffect(() => {
+    apiGet<{ items: Account[] }>('/api/accounts').then((data) => setAccounts(data.items));
+  }, []);
+
+  React.useEffect(() => {
+    form.setValue('amount', toInput(outstanding));
+  }, [form, outstanding]);
+
+  async function onSubmit(values: PaymentInput) {
+    setError(null);
+    const v = PaymentSchema.parse(values);
+    try {
+      await apiSend(`/api/income/invoices/${invoice.id}/mark-paid`, {
+        method: 'POST',
+        body: JSON.stringify({
+          accountId: v.accountId,
+          txDate: v.txDate,
+          amount: parseMoneyDE(v.amount),
+          writeOffRemainder: v.writeOffRemainder,
+          writeOffNote: v.writeOffNote || undefined,
+          isBusiness: true,
+        }),
+      });
+      form.reset({ ...values, writeOffRemainder: false, writeOffNote: '' });
+      onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Fehler');
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteItem) return;
+    setDeleting(true);
+    try {
+      await apiSend(`/api/income/invoices/${invoice.id}/allocations/${deleteItem.id}`, {
+        method: 'DELETE',
+      });
+      setDeleteItem(null);
+      onChanged();
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  const received = parseMoneyDE(form.watch('amount'));
+  const rest = Number.isFinite(received) ? outstandingAmount(outstanding, received) : 0;
+
+  return (
+    <div className="space-y-4 rounded-xl border p-6">
+      <div className="flex justify-between items-baseline gap-4">
+        <h2 className="text-xl font-semibold">Zahlungen</h2>
+        <p className="text-sm text-muted-foreground">
+          Bezahlt {formatEUR(invoice.paid_amount)} · offen{' '}
+          <span className="font-medium text-foreground">{formatEUR(outstanding)}</span>
+        </p>
+      </div>
+
+      {allocations.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Datum</TableHead>
+              <TableHead>Art</TableHead>
+              <TableHead>Buchung / Notiz</TableHead>
+              <TableHead className="text-right">Betrag</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {allocations.map((a) => (
+              <TableRow key={a.id}>
+                <TableCell>{formatDateDE(a.allocatedOn)}</TableCell>
+                <TableCell>{a.kind === 'payment' ? 'Zahlung' : 'Abschreibung'}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {a.kind === 'payment' ? (a.txDescription ?? a.note) : a.note}
+                </TableCell>
+                <TableCell className="text-right">{formatEUR(a.amount)}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => setDeleteItem(a)}>
+                    Entfernen
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {open && (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Konto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Konto wählen" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts.map((a) => (
+                          <SelectItem key={a.id} value={a.id}>
+                            {a.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="txDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Eingang am</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Betrag (€)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {rest > 0 && (
+              <div className="flex flex-wrap items-center gap-4">
+                <FormField
+                  control={form.control}
+                  name="writeOffRemainder"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(v) => field.onChange(v === true)}
+                        />
+                      </FormControl>
+                      <FormLabel>Rest von {formatEUR(rest)} abschreiben</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                {form.watch('writeOffRemainder') && (
+                  <FormField
+                    control={form.control}
+                    name="writeOffNote"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input placeholder="z.B. Bankgebühren, Skonto" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? 'Speichere...' : 'Zahlung erfassen'}
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <ConfirmDeleteDialog
+        open={!!deleteItem}
+        onOpenChange={(o) => !o && setDeleteItem(null)}
+        title="Zuordnung entfernen?"
+        description="Die Buchung bleibt erhalten, der Betrag ist wieder offen."
+        confirmLabel="Entfernen"
+        loading={deleting}
+        onConfirm={confirmDelete}
+      />
+    </div>
+  );
+}
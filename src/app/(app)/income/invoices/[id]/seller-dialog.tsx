@@ -0,0 +1,189 @@
+'use client';
+
+import * as React from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import type { InvoiceSeller } from '@/lib/invoices/document';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+
+const SellerFormSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Pflichtfeld'),
+    contactName: z.string().trim(),
+    street: z.string().trim().min(1, 'Pflichtfeld'),
+    postalCode: z.string().trim().min(1, 'Pflichtfeld'),
+    city: z.string().trim().min(1, 'Pflichtfeld'),
+    country: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{2}$/, 'Ländercode, z.B. DE'),
+    vatId: z.string().trim(),
+    taxNumber: z.string().trim(),
+    email: z.string().trim().email('Ungültige E-Mail-Adresse'),
+    phone: z.string().trim(),
+    iban: z.string().trim(),
+    bic: z.string().trim(),
+    smallBusiness: z.boolean(),
+    invoicePrefix: z.string().max(20),
+  })
+  .refine((s) => !!s.vatId || !!s.taxNumber, {
+    message: 'USt-IdNr. oder Steuernummer erforderlich',
+    path: ['taxNumber'],
+  });
+
+type SellerInput = z.input<typeof SellerFormSchema>;
+
+const EMPTY_SELLER: SellerInput = {
+  name: '',
+  contactName: '',
+  street: '',
+  postalCode: '',
+  city: '',
+  country: 'DE',
+  vatId: '',
+  taxNumber: '',
+  email: '',
+  phone: '',
+  iban: '',
+  bic: '',
+  smallBusiness: false,
+  invoicePrefix: 'RE-',
+};
+
+const TEXT_FIELDS: Array<[Exclude<keyof SellerInput, 'smallBusiness'>, string]> = [
+  ['name', 'Name / Firma'],
+  ['contactName', 'Ansprechpartner'],
+  ['street', 'Straße'],
+  ['postalCode', 'PLZ'],
+  ['city', 'Ort'],
+  ['country', 'Land'],
+  ['email', 'E-Mail'],
+  ['phone', 'Telefon'],
+  ['vatId', 'USt-IdNr.'],
+  ['taxNumber', 'Steuernummer'],
+  ['iban', 'IBAN'],
+  ['bic', 'BIC'],
+  ['invoicePrefix', 'Präfix Rechnungsnummer'],
+];
+
+/**
+ * Absenderdaten des Einkommensprofils, wie sie auf Rechnungen gedruckt werden.
+ */
+export function SellerDialog({
+  profileId,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  profileId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const form = useForm<SellerInput>({
+    resolver: zodResolver(SellerFormSchema),
+    defaultValues: EMPTY_SELLER,
+  });
+
+  React.useEffect(() => {
+    if (!open) return;
+    apiGet<{ item: InvoiceSeller | null }>(`/api/income/profiles/${profileId}/seller`).then(
+      ({ item }) =>
+        form.reset(
+          item
+            ? { ...item, vatId: item.vatId ?? '', taxNumber: item.taxNumber ?? '' }
+            : EMPTY_SELLER,
+        ),
+    );
+  }, [open, profileId, form]);
+
+  async function onSubmit(values: SellerInput) {
+    const v = SellerFormSchema.parse(values);
+    await apiSend(`/api/income/profiles/${profileId}/seller`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        ...v,
+        vatId: v.vatId || null,
+        taxNumber: v.taxNumber || null,
+      }),
+    });
+    onOpenChange(false);
+    onSaved();
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Absender</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {TEXT_FIELDS.map(([name, label]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="smallBusiness"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(v) => field.onChange(v === true)}
+                    />
+                  </FormControl>
+                  <FormLabel>Kleinunternehmer (§ 19 UStG, keine Umsatzsteuer)</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Speichere...' : 'Speichern'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,41 @@
 'use client';
 
 import * as React from 'react';
+import Link from 'next/link';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
-import { parseMoneyDE } from '@/lib/money';
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import { invoiceDatesFromTerms, type Customer } from '@/lib/customers/customer';
+import { formatDateDE } from '@/lib/format';
+import {
+  AGING_BUCKET_LABEL,
+  AGING_BUCKETS,
+  agingBucket,
+  daysOverdue,
+  DUNNING_LEVEL_LABEL,
+  type AgingBucket,
+} from '@/lib/invoices/dunning';
+import { predictPaymentDate } from '@/lib/invoices/payment-prediction';
+import type {
+  CustomerPaymentStatsItem,
+  PaymentMatchItem,
+  PaymentPredictionItem,
+} from '@/lib/invoices/store';
+import type { PaymentMatchReason } from '@/lib/invoices/payment-match';
+import { VAT_CODE_LABEL, VAT_CODES } from '@/lib/tax/vat';
+import type { Invoice, InvoiceStatus } from '@/lib/types/income';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Form,
   FormControl,
@@ -21,7 +48,10 @@ import {
 import { apiGet, apiSend } from '@/lib/api';
 
 // Schema ohne transform - TS happy
+const NO_CUSTOMER = 'none';
+
 const CreateInvoiceSchema = z.object({
+  customerId: z.string().default(NO_CUSTOMER),
   customerName: z.string().max(240).optional().default(''),
   amount: z
     .string()
@@ -30,34 +60,73 @@ const CreateInvoiceSchema = z.object({
       const n = parseMoneyDE(s);
       return Number.isFinite(n) && n > 0;
     }, 'Ungültiger Betrag (z.B. 1.234,56)'),
+  // im Betrag enthaltene Umsatzsteuer (Brutto)
+  vatCode: z.enum(VAT_CODES).default('standard'),
+  dueDate: z.string().optional().default(''),
   expectedPaymentDate: z.string().min(1, 'Datum erforderlich'),
   notes: z.string().max(4000).optional().default(''),
 });
 
 type FormData = z.infer<typeof CreateInvoiceSchema>;
 
-type InvoiceItem = {
-  id: string;
-  customerName?: string;
-  amount: number;
-  expectedPaymentDate: string;
-  notes?: string;
+type InvoicesResponse = {
+  items: Invoice[];
 };
 
-type InvoicesResponse = {
-  items: InvoiceItem[];
+const STATUS_LABEL: Record<InvoiceStatus, string> = {
+  planned: 'Geplant',
+  sent: 'Gestellt',
+  partially_paid: 'Teilbezahlt',
+  paid: 'Bezahlt',
+  void: 'Storniert',
 };
 
+const AGING_CLASS: Record<AgingBucket, string> = {
+  current: 'text-muted-foreground',
+  '1_30': 'text-amber-600',
+  '31_60': 'text-orange-600',
+  '61_90': 'text-red-600',
+  over_90: 'text-red-700 font-semibold',
+};
+
+const MATCH_REASON_LABEL: Record<PaymentMatchReason, string> = {
+  invoice_number: 'Rechnungsnummer',
+  amount: 'Betrag',
+  customer_name: 'Kundenname',
+};
+
+// Tage überfällig (farbig nach Altersklasse) und letzte Mahnstufe
+function AgingIndicator({ invoice, today }: { invoice: Invoice; today: string }) {
+  const days = daysOverdue(invoice, today);
+  if (days === 0) return null;
+  const bucket = agingBucket(days);
+  return (
+    <p className={`text-xs ${AGING_CLASS[bucket]}`} title={AGING_BUCKET_LABEL[bucket]}>
+      {days} Tage überfällig
+      {invoice.dunning_level ? ` · ${DUNNING_LEVEL_LABEL[invoice.dunning_level]}` : ''}
+    </p>
+  );
+}
 
 export default function IncomeInvoicesPage() {
-  const [items, setItems] = React.useState<any[]>([]);
+  const [items, setItems] = React.useState<Invoice[]>([]);
+  const [customers, setCustomers] = React.useState<Customer[]>([]);
+  const [stats, setStats] = React.useState<CustomerPaymentStatsItem[]>([]);
+  const [predictions, setPredictions] = React.useState<PaymentPredictionItem[]>([]);
+  const [matches, setMatches] = React.useState<PaymentMatchItem[]>([]);
+  // Zahlungstermin folgt dem Zahlungsverhalten, bis er von Hand geändert wird
+  const [expectedAuto, setExpectedAuto] = React.useState(false);
   const [loading, setLoading] = React.useState(true);
+  const [overdueOnly, setOverdueOnly] = React.useState(false);
 
   const form = useForm<FormData>({
     resolver: zodResolver(CreateInvoiceSchema),
     defaultValues: {
+      customerId: NO_CUSTOMER,
       customerName: '',
+      dueDate: '',
       amount: '',
+      vatCode: 'standard',
       expectedPaymentDate: new Date().toISOString().slice(0, 10),
       notes: '',
     },
@@ -66,16 +135,77 @@ export default function IncomeInvoicesPage() {
   async function reload() {
     setLoading(true);
     try {
-      const data = await apiGet<InvoicesResponse>('/api/income/invoices');
+      const [data, paymentStats, paymentPredictions, paymentMatches] = await Promise.all([
+        apiGet<InvoicesResponse>('/api/income/invoices'),
+        apiGet<{ items: CustomerPaymentStatsItem[] }>('/api/income/invoices/payment-stats'),
+        apiGet<{ items: PaymentPredictionItem[] }>('/api/income/invoices/predictions'),
+        apiGet<{ items: PaymentMatchItem[] }>('/api/income/invoices/payment-matches'),
+      ]);
       setItems(data.items);
+      setStats(paymentStats.items);
+      setPredictions(paymentPredictions.items);
+      setMatches(paymentMatches.items);
     } finally {
       setLoading(false);
     }
   }
 
+  // Kunde gewählt: Name und Termine aus dem Zahlungsziel vorbelegen
+  function onCustomerChange(customerId: string) {
+    form.setValue('customerId', customerId);
+    const customer = customers.find((c) => c.id === customerId);
+    if (!customer) return;
+
+    const today = new Date().toISOString().slice(0, 10);
+    const dates = invoiceDatesFromTerms(today, customer.payment_terms_days);
+    const predicted = predictPaymentDate(
+      {
+        id: '',
+        customerKey: customer.id,
+        issuedAt: today,
+        dueDate: dates.dueDate,
+        expectedPaymentDate: null,
+      },
+      new Map(stats.map((s) => [s.customerKey, s])),
+      today,
+    );
+
+    form.setValue('customerName', customer.name);
+    form.setValue('dueDate', dates.dueDate);
+    form.setValue('expectedPaymentDate', predicted?.predictedDate ?? dates.expectedPaymentDate, {
+      shouldValidate: true,
+    });
+    setExpectedAuto(true);
+  }
+
+  async function applyPredictions(invoiceIds: string[]) {
+    await apiSend('/api/income/invoices/predictions', {
+      method: 'POST',
+      body: JSON.stringify({ invoiceIds }),
+    });
+    reload();
+  }
+
+  // Zuordnen bucht die Zahlung wie "Zahlung erfassen", Ignorieren blendet das Paar aus
+  async function decideMatch(m: PaymentMatchItem, action: 'confirm' | 'dismiss') {
+    await apiSend('/api/income/invoices/payment-matches', {
+      method: 'POST',
+      body: JSON.stringify({
+        action,
+        transactionId: m.transactionId,
+        invoiceId: m.invoiceId,
+        ...(action === 'confirm' ? { amount: m.amount } : {}),
+      }),
+    });
+    reload();
+  }
+
   async function onSubmit(values: FormData) {
     const payload = {
       ...values,
+      customerId: values.customerId === NO_CUSTOMER ? null : values.customerId,
+      dueDate: values.dueDate || null,
+      expectedPaymentAuto: values.customerId !== NO_CUSTOMER && expectedAuto,
       amount: parseMoneyDE(values.amount), // Parse nur hier
     };
 
@@ -85,11 +215,34 @@ export default function IncomeInvoicesPage() {
     });
 
     form.reset();
+    setExpectedAuto(false);
     reload();
   }
 
+  const today = new Date().toISOString().slice(0, 10);
+  const overdue = items.filter((i) => daysOverdue(i, today) > 0);
+  const visible = overdueOnly ? overdue : items;
+
+  // offene Beträge überfälliger Rechnungen je Altersklasse
+  const aging = new Map<AgingBucket, number>();
+  for (const i of overdue) {
+    const bucket = agingBucket(daysOverdue(i, today));
+    aging.set(bucket, (aging.get(bucket) ?? 0) + i.amount - i.paid_amount);
+  }
+
+  const selectedCustomerId = form.watch('customerId');
+  const selectedStats = stats.find((s) => s.customerId === selectedCustomerId);
+
+  // Vorschläge, die vom hinterlegten Termin abweichen
+  const suggestions = predictions.filter(
+    (p) => p.predictedDate !== p.expectedPaymentDate?.slice(0, 10),
+  );
+
   React.useEffect(() => {
     reload();
+    apiGet<{ items: Customer[] }>('/api/income/customers?active=1').then((data) =>
+      setCustomers(data.items),
+    );
   }, []);
 
   return (
@@ -114,10 +267,36 @@ export default function IncomeInvoicesPage() {
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField
                 control={form.control}
-                name="customerName"
+                name="customerId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Kunde</FormLabel>
+                    <Select value={field.value} onValueChange={onCustomerChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CUSTOMER}>Ohne Kundenstamm</SelectItem>
+                        {customers.map((c) => (
+                          <SelectItem key={c.id} value={c.id}>
+                            {c.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="customerName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name auf der Rechnung</FormLabel>
                     <FormControl>
                       <Input placeholder="z.B. ACME GmbH" {...field} />
                     </FormControl>
@@ -142,10 +321,35 @@ export default function IncomeInvoicesPage() {
 
               <FormField
                 control={form.control}
-                name="expectedPaymentDate"
+                name="vatCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Umsatzsteuer im Betrag</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VAT_CODES.map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {VAT_CODE_LABEL[c]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dueDate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Fälligkeit</FormLabel>
+                    <FormLabel>Fällig am (optional)</FormLabel>
                     <FormControl>
                       <Input type="date" {...field} />
                     </FormControl>
@@ -154,6 +358,33 @@ export default function IncomeInvoicesPage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="expectedPaymentDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Erwarteter Zahlungseingang</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          setExpectedAuto(false);
+                        }}
+                      />
+                    </FormControl>
+                    {expectedAuto && selectedStats?.medianDaysLate != null ? (
+                      <p className="text-xs text-muted-foreground">
+                        Aus Zahlungsverhalten: im Median {selectedStats.medianDaysLate} Tage nach
+                        Fälligkeit ({selectedStats.paidCount} Rechnungen)
+                      </p>
+                    ) : null}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="notes"
@@ -186,7 +417,7 @@ export default function IncomeInvoicesPage() {
         {/* Rechnungen Liste */}
         <div className="space-y-4">
           <div className="flex justify-between items-center">
-            <h2 className="text-xl font-semibold">Offene Rechnungen ({items.length})</h2>
+            <h2 className="text-xl font-semibold">Rechnungen ({visible.length})</h2>
             <Button
               variant="outline"
               onClick={reload}
@@ -196,28 +427,57 @@ export default function IncomeInvoicesPage() {
             </Button>
           </div>
 
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={overdueOnly ? 'outline' : 'default'}
+              onClick={() => setOverdueOnly(false)}
+            >
+              Alle
+            </Button>
+            <Button
+              size="sm"
+              variant={overdueOnly ? 'default' : 'outline'}
+              onClick={() => setOverdueOnly(true)}
+            >
+              Überfällig ({overdue.length})
+            </Button>
+          </div>
+
+          {overdueOnly && aging.size > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {AGING_BUCKETS.filter((b) => aging.has(b))
+                .map((b) => `${AGING_BUCKET_LABEL[b]}: ${formatEUR(aging.get(b) ?? 0)}`)
+                .join(' · ')}
+            </p>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center p-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
             </div>
-          ) : items.length === 0 ? (
+          ) : visible.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
-              Noch keine Rechnungen vorhanden.
+              {overdueOnly ? 'Keine überfälligen Rechnungen.' : 'Noch keine Rechnungen vorhanden.'}
             </div>
           ) : (
             <div className="space-y-3 max-h-96 overflow-y-auto">
-              {items.map((item) => (
-                <div
+              {visible.map((item) => (
+                <Link
                   key={item.id}
-                  className="group p-4 border rounded-lg hover:bg-accent transition-colors cursor-pointer"
+                  href={`/income/invoices/${item.id}`}
+                  className="group block p-4 border rounded-lg hover:bg-accent transition-colors"
                 >
                   <div className="flex justify-between items-start gap-4">
                     <div className="flex-1 min-w-0">
                       <h3 className="font-medium truncate group-hover:underline">
-                        {item.customerName || 'Unbekannter Kunde'}
+                        {item.customer_name || 'Unbekannter Kunde'}
                       </h3>
                       <p className="text-sm text-muted-foreground">
-                        {new Date(item.expectedPaymentDate).toLocaleDateString('de-DE')}
+                        {item.invoice_number ? `${item.invoice_number} · ` : ''}
+                        {item.expected_payment_date
+                          ? formatDateDE(item.expected_payment_date)
+                          : 'ohne Termin'}
                       </p>
                       {item.notes && (
                         <p className="text-sm mt-1 line-clamp-2">{item.notes}</p>
@@ -230,15 +490,103 @@ export default function IncomeInvoicesPage() {
                         maximumFractionDigits: 2,
                       })}
                       </p>
-                      <p className="text-xs text-muted-foreground">Offen</p>
+                      <p className="text-xs text-muted-foreground">
+                        {STATUS_LABEL[item.status]}
+                        {item.status === 'partially_paid'
+                          ? ` · offen ${formatEUR(item.amount - item.paid_amount)}`
+                          : ''}
+                      </p>
+                      <AgingIndicator invoice={item} today={today} />
                     </div>
                   </div>
-                </div>
+                </Link>
               ))}
             </div>
           )}
         </div>
       </div>
+
+      {matches.length > 0 && (
+        <div className="space-y-3 rounded-xl border p-6">
+          <div>
+            <h2 className="text-xl font-semibold">Zahlungseingänge zuordnen</h2>
+            <p className="text-sm text-muted-foreground">
+              Eingänge, die zu einer offenen Rechnung passen könnten.
+            </p>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            {matches.map((m) => (
+              <div
+                key={`${m.transactionId}|${m.invoiceId}`}
+                className="flex items-center justify-between gap-4"
+              >
+                <span>
+                  {formatDateDE(m.txDate)} · {m.txDescription}: {formatEUR(m.txAmount)} →{' '}
+                  <span className="font-medium">
+                    {m.invoiceNumber ?? (m.customerName || 'Unbekannter Kunde')}
+                  </span>{' '}
+                  (offen {formatEUR(m.outstanding)})
+                  <span className="text-muted-foreground">
+                    {' '}
+                    ({m.reasons.map((r) => MATCH_REASON_LABEL[r]).join(', ')})
+                  </span>
+                </span>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => decideMatch(m, 'dismiss')}>
+                    Ignorieren
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => decideMatch(m, 'confirm')}>
+                    {formatEUR(m.amount)} zuordnen
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-3 rounded-xl border p-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold">Zahlungstermine aus Zahlungsverhalten</h2>
+              <p className="text-sm text-muted-foreground">
+                Übernommene Termine werden bei jedem Zahlungseingang neu berechnet.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => applyPredictions(suggestions.map((p) => p.invoiceId))}
+            >
+              Alle übernehmen
+            </Button>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            {suggestions.map((p) => (
+              <div key={p.invoiceId} className="flex items-center justify-between gap-4">
+                <span>
+                  {p.customerName || 'Unbekannter Kunde'}:{' '}
+                  {p.expectedPaymentDate
+                    ? formatDateDE(p.expectedPaymentDate)
+                    : 'ohne Termin'}{' '}
+                  →{' '}
+                  <span className="font-medium">{formatDateDE(p.predictedDate)}</span>
+                  <span className="text-muted-foreground">
+                    {' '}
+                    ({p.basis === 'due_date' ? 'Verzug' : 'Zahlungsdauer'}, {p.sampleSize}{' '}
+                    Rechnungen)
+                  </span>
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => applyPredictions([p.invoiceId])}>
+                  Übernehmen
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -6,51 +6,82 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 
 import { apiGet, apiSend } from '@/lib/api';
+import { readCommissionRule } from '@/lib/commission/rules';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
-import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+
+import {
+  CommissionRuleFields,
+  describeCommissionRule,
+  emptyRuleForm,
+  ruleToForm,
+  RuleFormSchema,
+} from './rule-editor';
 
 type Rule = {
   id: string;
   name: string;
   is_active: boolean;
-  rule_json: any;
+  rule_json: unknown;
   created_at: string;
 };
 
 type RuleVersion = {
   id: string;
   valid_period: string; // text like "[2026-01-01,)" [web:201]
-  rule_json: any;
+  rule_json: unknown;
   created_at: string;
 };
 
 const CreateRuleSchema = z.object({
-  name: z.string().min(1).max(120),
-  ruleJson: z.string().default('{}'),
+  name: z.string().trim().min(1, 'Pflichtfeld').max(120),
+  rule: RuleFormSchema,
 });
 type CreateRuleInput = z.input<typeof CreateRuleSchema>;
-type CreateRuleOutput = z.output<typeof CreateRuleSchema>;
 
-const CreateVersionSchema = z.object({
-  validFrom: z.string().min(1),
-  validTo: z.string().optional().transform((s) => (s?.trim() ? s : null)),
-  ruleJson: z.string().default('{}'),
-});
+const CreateVersionSchema = z
+  .object({
+    validFrom: z.string().min(1, 'Pflichtfeld'),
+    validTo: z
+      .string()
+      .optional()
+      .transform((s) => (s?.trim() ? s : null)),
+    rule: RuleFormSchema,
+  })
+  .refine((v) => v.validTo === null || v.validTo > v.validFrom, {
+    message: 'Muss nach „Gültig ab“ liegen',
+    path: ['validTo'],
+  });
 type CreateVersionInput = z.input<typeof CreateVersionSchema>;
-type CreateVersionOutput = z.output<typeof CreateVersionSchema>;
 
-function safeParseJson(text: string) {
-  try {
-    return JSON.parse(text);
-  } catch {
-    return null;
-  }
+function RuleSummary({ json }: { json: unknown }) {
+  const rule = readCommissionRule(json);
+  return rule ? (
+    <span>{describeCommissionRule(rule)}</span>
+  ) : (
+    <span className="text-destructive">Definition ungültig – wird nicht berechnet</span>
+  );
 }
 
+const today = () => new Date().toISOString().slice(0, 10);
+
 export default function IncomeProvisionPage() {
   const [rules, setRules] = React.useState<Rule[]>([]);
   const [versions, setVersions] = React.useState<Record<string, RuleVersion[]>>({});
@@ -59,14 +90,14 @@ export default function IncomeProvisionPage() {
   const [createRuleOpen, setCreateRuleOpen] = React.useState(false);
   const [versionFor, setVersionFor] = React.useState<Rule | null>(null);
 
-  const createRuleForm = useForm<CreateRuleInput, unknown, CreateRuleOutput>({
+  const createRuleForm = useForm<CreateRuleInput>({
     resolver: zodResolver(CreateRuleSchema),
-    defaultValues: { name: '', ruleJson: '{}' },
+    defaultValues: { name: '', rule: emptyRuleForm() },
   });
 
-  const createVersionForm = useForm<CreateVersionInput, unknown, CreateVersionOutput>({
+  const createVersionForm = useForm<CreateVersionInput>({
     resolver: zodResolver(CreateVersionSchema),
-    defaultValues: { validFrom: new Date().toISOString().slice(0, 10), validTo: '', ruleJson: '{}' },
+    defaultValues: { validFrom: today(), validTo: '', rule: emptyRuleForm() },
   });
 
   async function reload() {
@@ -77,7 +108,9 @@ export default function IncomeProvisionPage() {
   }
 
   async function loadVersions(ruleId: string) {
-    const data = await apiGet<{ items: RuleVersion[] }>(`/api/income/provision-rules/${ruleId}/versions`);
+    const data = await apiGet<{ items: RuleVersion[] }>(
+      `/api/income/provision-rules/${ruleId}/versions`,
+    );
     setVersions((prev) => ({ ...prev, [ruleId]: data.items }));
   }
 
@@ -85,42 +118,34 @@ export default function IncomeProvisionPage() {
     void reload();
   }, []);
 
-  async function onCreateRule(values: CreateRuleOutput) {
-    const obj = safeParseJson(values.ruleJson);
-    if (!obj) {
-      createRuleForm.setError('ruleJson', { message: 'Ungültiges JSON' });
-      return;
-    }
+  async function onCreateRule(values: CreateRuleInput) {
+    const parsed = CreateRuleSchema.parse(values);
 
     await apiSend('/api/income/provision-rules', {
       method: 'POST',
-      body: JSON.stringify({ name: values.name, ruleJson: obj, isActive: true }),
+      body: JSON.stringify({ name: parsed.name, ruleJson: parsed.rule, isActive: true }),
     });
 
     setCreateRuleOpen(false);
-    createRuleForm.reset({ name: '', ruleJson: '{}' });
+    createRuleForm.reset({ name: '', rule: emptyRuleForm() });
     await reload();
   }
 
-  async function onCreateVersion(values: CreateVersionOutput) {
+  async function onCreateVersion(values: CreateVersionInput) {
     if (!versionFor) return;
-    const obj = safeParseJson(values.ruleJson);
-    if (!obj) {
-      createVersionForm.setError('ruleJson', { message: 'Ungültiges JSON' });
-      return;
-    }
+    const parsed = CreateVersionSchema.parse(values);
 
     await apiSend(`/api/income/provision-rules/${versionFor.id}/versions`, {
       method: 'POST',
       body: JSON.stringify({
-        validFrom: values.validFrom,
-        validTo: values.validTo,
-        ruleJson: obj,
+        validFrom: parsed.validFrom,
+        validTo: parsed.validTo,
+        ruleJson: parsed.rule,
       }),
     });
 
     setVersionFor(null);
-    createVersionForm.reset({ validFrom: new Date().toISOString().slice(0, 10), validTo: '', ruleJson: '{}' });
+    createVersionForm.reset({ validFrom: today(), validTo: '', rule: emptyRuleForm() });
     await loadVersions(versionFor.id);
   }
 
@@ -130,7 +155,8 @@ export default function IncomeProvisionPage() {
         <div>
           <h2 className="text-lg font-semibold">Provision</h2>
           <p className="text-sm text-muted-foreground">
-            Regeln sind versioniert (Gültigkeitszeitraum) – überlappende Zeiträume sind nicht erlaubt.
+            Regeln sind versioniert (Gültigkeitszeitraum) – überlappende Zeiträume sind nicht
+            erlaubt.
           </p>
         </div>
 
@@ -138,11 +164,11 @@ export default function IncomeProvisionPage() {
           <DialogTrigger asChild>
             <Button>Neue Regel</Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Regel anlegen</DialogTitle>
             </DialogHeader>
-            <Form {...createRuleForm}>
+            <Form<CreateRuleInput> {...createRuleForm}>
               <form onSubmit={createRuleForm.handleSubmit(onCreateRule)} className="space-y-4">
                 <FormField
                   control={createRuleForm.control}
@@ -157,19 +183,7 @@ export default function IncomeProvisionPage() {
                     </FormItem>
                   )}
                 />
-                <FormField
-                  control={createRuleForm.control}
-                  name="ruleJson"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Definition (JSON)</FormLabel>
-                      <FormControl>
-                        <Textarea rows={6} {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <CommissionRuleFields />
                 <DialogFooter>
                   <Button type="submit" disabled={createRuleForm.formState.isSubmitting}>
                     Speichern
@@ -188,7 +202,12 @@ export default function IncomeProvisionPage() {
           {rules.map((r) => (
             <div key={r.id} className="rounded border p-3 space-y-2">
               <div className="flex items-center justify-between">
-                <div className="font-medium">{r.name}</div>
+                <div>
+                  <div className="font-medium">{r.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    <RuleSummary json={r.rule_json} />
+                  </div>
+                </div>
                 <div className="flex gap-2">
                   <Button
                     variant="secondary"
@@ -202,9 +221,9 @@ export default function IncomeProvisionPage() {
                     onClick={() => {
                       setVersionFor(r);
                       createVersionForm.reset({
-                        validFrom: new Date().toISOString().slice(0, 10),
+                        validFrom: today(),
                         validTo: '',
-                        ruleJson: JSON.stringify(r.rule_json ?? {}, null, 2),
+                        rule: ruleToForm(r.rule_json),
                       });
                     }}
                   >
@@ -216,9 +235,14 @@ export default function IncomeProvisionPage() {
               {versions[r.id]?.length ? (
                 <div className="text-sm space-y-1">
                   {versions[r.id].map((v) => (
-                    <div key={v.id} className="flex items-center justify-between">
+                    <div key={v.id} className="flex items-center justify-between gap-4">
                       <div className="text-muted-foreground">{v.valid_period}</div>
-                      <div className="text-muted-foreground">created {new Date(v.created_at).toLocaleString()}</div>
+                      <div className="min-w-0 flex-1 truncate text-muted-foreground">
+                        <RuleSummary json={v.rule_json} />
+                      </div>
+                      <div className="text-muted-foreground">
+                        created {new Date(v.created_at).toLocaleString()}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -232,52 +256,43 @@ export default function IncomeProvisionPage() {
       )}
 
       <Dialog open={!!versionFor} onOpenChange={(o) => !o && setVersionFor(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Version hinzufügen</DialogTitle>
           </DialogHeader>
 
-          <Form {...createVersionForm}>
+          <Form<CreateVersionInput> {...createVersionForm}>
             <form onSubmit={createVersionForm.handleSubmit(onCreateVersion)} className="space-y-4">
-              <FormField
-                control={createVersionForm.control}
-                name="validFrom"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gültig ab</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={createVersionForm.control}
-                name="validTo"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gültig bis (optional)</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={createVersionForm.control}
-                name="ruleJson"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Definition (JSON)</FormLabel>
-                    <FormControl>
-                      <Textarea rows={8} {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={createVersionForm.control}
+                  name="validFrom"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gültig ab</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createVersionForm.control}
+                  name="validTo"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gültig bis (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <CommissionRuleFields />
 
               <DialogFooter>
                 <Button type="submit" disabled={createVersionForm.formState.isSubmitting}>
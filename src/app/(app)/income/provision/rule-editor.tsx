@@ -0,0 +1,443 @@
+'use client';
+
+import * as React from 'react';
+import { z } from 'zod';
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form';
+
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import type { BusinessDayRule } from '@/lib/cashflow/calendar';
+import {
+  calculateCommission,
+  CommissionRuleSchema,
+  readCommissionRule,
+  type CommissionBaseSource,
+  type CommissionPeriod,
+  type CommissionRuleJson,
+  type CommissionRuleKind,
+} from '@/lib/commission/rules';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+
+/* =========================
+ * Form values <-> rule_json
+ * ========================= */
+
+// Everything is a string while editing (German number input); the schema below turns
+// it into rule_json and validates it with the same schema the API enforces.
+export type RuleFormValues = {
+  kind: CommissionRuleKind;
+  rate: string;
+  tierMode: 'marginal' | 'stepped';
+  tiers: { from: string; rate: string }[];
+  amountPerUnit: string;
+  threshold: string;
+  bonus: string;
+  cap: string;
+  minimum: string;
+  base: CommissionBaseSource;
+  manualBase: string;
+  manualUnits: string;
+  period: CommissionPeriod;
+  payoutDay: string;
+  payoutDelayMonths: string;
+  businessDayRule: BusinessDayRule;
+};
+
+export const KIND_LABEL: Record<CommissionRuleKind, string> = {
+  percentage: 'Prozentsatz',
+  tiered: 'Staffel',
+  per_unit: 'Pro Stück',
+  threshold_bonus: 'Schwellenbonus',
+};
+
+const BASE_LABEL: Record<CommissionBaseSource, string> = {
+  invoices_paid: 'Bezahlte Rechnungen',
+  invoices_planned: 'Geplante Rechnungen',
+  manual: 'Manueller Umsatz',
+};
+
+const PERIOD_LABEL: Record<CommissionPeriod, string> = {
+  MONTHLY: 'Monatlich',
+  QUARTERLY: 'Quartalsweise',
+  YEARLY: 'Jährlich',
+};
+
+export function emptyRuleForm(): RuleFormValues {
+  return {
+    kind: 'percentage',
+    rate: '',
+    tierMode: 'marginal',
+    tiers: [{ from: '0', rate: '' }],
+    amountPerUnit: '',
+    threshold: '',
+    bonus: '',
+    cap: '',
+    minimum: '',
+    base: 'invoices_paid',
+    manualBase: '',
+    manualUnits: '',
+    period: 'MONTHLY',
+    payoutDay: '15',
+    payoutDelayMonths: '1',
+    businessDayRule: 'PREVIOUS',
+  };
+}
+
+function numText(n: number | null | undefined) {
+  return n === null || n === undefined ? '' : String(n).replace('.', ',');
+}
+
+// Stored rule_json -> form; unusable JSON starts from an empty rule.
+export function ruleToForm(json: unknown): RuleFormValues {
+  const r = readCommissionRule(json);
+  const empty = emptyRuleForm();
+  if (!r) return empty;
+
+  return {
+    ...empty,
+    kind: r.kind,
+    rate: r.kind === 'percentage' || r.kind === 'threshold_bonus' ? numText(r.rate) : '',
+    tierMode: r.kind === 'tiered' ? r.tierMode : 'marginal',
+    tiers:
+      r.kind === 'tiered'
+        ? r.tiers.map((t) => ({ from: numText(t.from), rate: numText(t.rate) }))
+        : empty.tiers,
+    amountPerUnit: r.kind === 'per_unit' ? numText(r.amountPerUnit) : '',
+    threshold: r.kind === 'threshold_bonus' ? numText(r.threshold) : '',
+    bonus: r.kind === 'threshold_bonus' ? numText(r.bonus) : '',
+    cap: numText(r.cap),
+    minimum: numText(r.minimum),
+    base: r.base,
+    manualBase: numText(r.manualBase),
+    manualUnits: numText(r.manualUnits),
+    period: r.period,
+    payoutDay: String(r.payoutDay),
+    payoutDelayMonths: String(r.payoutDelayMonths),
+    businessDayRule: r.businessDayRule,
+  };
+}
+
+// empty required fields become undefined, so the schema reports them
+const required = (s: string) => (s.trim() ? parseMoneyDE(s) : undefined);
+const optional = (s: string) => (s.trim() ? parseMoneyDE(s) : null);
+
+function formToRuleJson(v: RuleFormValues) {
+  const common = {
+    cap: optional(v.cap),
+    minimum: optional(v.minimum),
+    base: v.base,
+    manualBase: v.base === 'manual' ? optional(v.manualBase) : null,
+    manualUnits: v.base === 'manual' ? optional(v.manualUnits) : null,
+    period: v.period,
+    payoutDay: required(v.payoutDay),
+    payoutDelayMonths: required(v.payoutDelayMonths),
+    businessDayRule: v.businessDayRule,
+  };
+
+  switch (v.kind) {
+    case 'percentage':
+      return { ...common, kind: v.kind, rate: required(v.rate) };
+    case 'tiered':
+      return {
+        ...common,
+        kind: v.kind,
+        tierMode: v.tierMode,
+        tiers: v.tiers.map((t) => ({ from: required(t.from), rate: required(t.rate) })),
+      };
+    case 'per_unit':
+      return { ...common, kind: v.kind, amountPerUnit: required(v.amountPerUnit) };
+    case 'threshold_bonus':
+      return {
+        ...common,
+        kind: v.kind,
+        threshold: required(v.threshold),
+        bonus: required(v.bonus),
+        rate: optional(v.rate) ?? 0,
+      };
+  }
+}
+
+/**
+ * Form values -> validated rule_json. Issue paths match the form fields, so as part
+ * of a form schema (under `rule`) zodResolver puts each error next to its input.
+ */
+export const RuleFormSchema = z
+  .custom<RuleFormValues>()
+  .transform((v) => formToRuleJson(v) as z.input<typeof CommissionRuleSchema>)
+  .pipe(CommissionRuleSchema);
+
+export type RuleEditorValues = { rule: RuleFormValues };
+
+/* =========================
+ * Summary
+ * ========================= */
+
+export function describeCommissionRule(r: CommissionRuleJson) {
+  const pct = (n: number) => `${numText(n)} %`;
+
+  let what: string;
+  switch (r.kind) {
+    case 'percentage':
+      what = pct(r.rate);
+      break;
+    case 'tiered':
+      what = `${r.tierMode === 'stepped' ? 'Stufen' : 'Staffel'} ${r.tiers
+        .map((t) => `ab ${formatEUR(t.from)}: ${pct(t.rate)}`)
+        .join(', ')}`;
+      break;
+    case 'per_unit':
+      what = `${formatEUR(r.amountPerUnit)} pro Stück`;
+      break;
+    case 'threshold_bonus':
+      what = `${formatEUR(r.bonus)} ab ${formatEUR(r.threshold)}${r.rate ? ` + ${pct(r.rate)}` : ''}`;
+      break;
+  }
+
+  const limits = [
+    r.minimum !== null ? `min. ${formatEUR(r.minimum)}` : null,
+    r.cap !== null ? `max. ${formatEUR(r.cap)}` : null,
+  ].filter(Boolean);
+
+  return [what, ...limits, BASE_LABEL[r.base], PERIOD_LABEL[r.period]].join(' · ');
+}
+
+/* =========================
+ * Fields
+ * ========================= */
+
+function TextField({
+  name,
+  label,
+  placeholder,
+}: {
+  name: `rule.${keyof Omit<RuleFormValues, 'tiers'>}` | `rule.tiers.${number}.${'from' | 'rate'}`;
+  label?: string;
+  placeholder?: string;
+}) {
+  const { control } = useFormContext<RuleEditorValues>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          {label ? <FormLabel>{label}</FormLabel> : null}
+          <FormControl>
+            <Input {...field} value={String(field.value ?? '')} placeholder={placeholder} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function SelectField<T extends string>({
+  name,
+  label,
+  options,
+}: {
+  name: 'rule.kind' | 'rule.tierMode' | 'rule.base' | 'rule.period' | 'rule.businessDayRule';
+  label: string;
+  options: Record<T, string>;
+}) {
+  const { control } = useFormContext<RuleEditorValues>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {(Object.entries(options) as [T, string][]).map(([value, text]) => (
+                <SelectItem key={value} value={value}>
+                  {text}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function TierFields() {
+  const { control, formState } = useFormContext<RuleEditorValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'rule.tiers' });
+  const arrayError =
+    formState.errors.rule?.tiers?.root?.message ?? formState.errors.rule?.tiers?.message;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Stufen</div>
+      {fields.map((f, i) => (
+        <div key={f.id} className="grid grid-cols-[1fr_1fr_auto] items-start gap-2">
+          <TextField name={`rule.tiers.${i}.from`} placeholder="ab Umsatz, z.B. 10.000" />
+          <TextField name={`rule.tiers.${i}.rate`} placeholder="Satz in %" />
+          <Button
+            type="button"
+            variant="ghost"
+            disabled={fields.length === 1}
+            onClick={() => remove(i)}
+          >
+            Entfernen
+          </Button>
+        </div>
+      ))}
+      {arrayError ? <p className="text-sm text-destructive">{arrayError}</p> : null}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => append({ from: '', rate: '' })}
+      >
+        Stufe hinzufügen
+      </Button>
+    </div>
+  );
+}
+
+function Preview() {
+  const { control } = useFormContext<RuleEditorValues>();
+  const values = useWatch({ control, name: 'rule' });
+  const [sample, setSample] = React.useState('10.000');
+
+  const perUnit = values.kind === 'per_unit';
+  const parsed = RuleFormSchema.safeParse(values);
+  const n = parseMoneyDE(sample);
+  const result =
+    parsed.success && Number.isFinite(n)
+      ? calculateCommission(
+          parsed.data,
+          perUnit ? { revenue: 0, units: n } : { revenue: n, units: 0 },
+        )
+      : null;
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-muted/30 p-3">
+      <div className="grid grid-cols-[1fr_auto] items-center gap-3">
+        <Input
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder={perUnit ? 'Beispiel-Stückzahl' : 'Beispiel-Umsatz'}
+          aria-label={perUnit ? 'Beispiel-Stückzahl' : 'Beispiel-Umsatz'}
+        />
+        <div className="text-right">
+          <div className="text-xs text-muted-foreground">Provision pro Zeitraum</div>
+          <div className="text-lg font-semibold tabular-nums">
+            {result ? formatEUR(result.commission) : '–'}
+          </div>
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {!parsed.success
+          ? 'Definition unvollständig – Vorschau erscheint, sobald alle Pflichtfelder gültig sind.'
+          : !result
+            ? perUnit
+              ? 'Beispiel-Stückzahl eingeben.'
+              : 'Beispiel-Umsatz eingeben.'
+            : result.capped
+              ? `Gedeckelt (berechnet ${formatEUR(result.gross)})`
+              : result.minimumApplied
+                ? `Mindestbetrag greift (berechnet ${formatEUR(result.gross)})`
+                : describeCommissionRule(parsed.data)}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Structured editor for one rule definition. Must be rendered inside a <Form> whose
+ * values contain `rule: RuleFormValues`.
+ */
+export function CommissionRuleFields() {
+  const { control } = useFormContext<RuleEditorValues>();
+  const kind = useWatch({ control, name: 'rule.kind' });
+  const base = useWatch({ control, name: 'rule.base' });
+
+  return (
+    <div className="space-y-4">
+      <SelectField name="rule.kind" label="Art" options={KIND_LABEL} />
+
+      {kind === 'percentage' ? (
+        <TextField name="rule.rate" label="Satz (%)" placeholder="10" />
+      ) : null}
+
+      {kind === 'tiered' ? (
+        <>
+          <SelectField
+            name="rule.tierMode"
+            label="Berechnung"
+            options={{
+              marginal: 'Je Stufe (nur der Anteil darüber)',
+              stepped: 'Erreichte Stufe auf den ganzen Umsatz',
+            }}
+          />
+          <TierFields />
+        </>
+      ) : null}
+
+      {kind === 'per_unit' ? (
+        <TextField name="rule.amountPerUnit" label="Betrag pro Stück (EUR)" placeholder="50,00" />
+      ) : null}
+
+      {kind === 'threshold_bonus' ? (
+        <div className="grid grid-cols-3 gap-3">
+          <TextField name="rule.threshold" label="Schwelle (EUR)" placeholder="20.000" />
+          <TextField name="rule.bonus" label="Bonus (EUR)" placeholder="500" />
+          <TextField name="rule.rate" label="Zusätzlich %" placeholder="optional" />
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-3">
+        <TextField name="rule.minimum" label="Mindestbetrag" placeholder="optional" />
+        <TextField name="rule.cap" label="Deckel" placeholder="optional" />
+      </div>
+
+      <SelectField name="rule.base" label="Bemessungsgrundlage" options={BASE_LABEL} />
+      {base === 'manual' ? (
+        kind === 'per_unit' ? (
+          <TextField name="rule.manualUnits" label="Stück pro Zeitraum" placeholder="12" />
+        ) : (
+          <TextField name="rule.manualBase" label="Umsatz pro Zeitraum (EUR)" placeholder="8.000" />
+        )
+      ) : null}
+
+      <div className="grid grid-cols-3 gap-3">
+        <SelectField name="rule.period" label="Abrechnung" options={PERIOD_LABEL} />
+        <TextField name="rule.payoutDay" label="Auszahlungstag" placeholder="15" />
+        <TextField name="rule.payoutDelayMonths" label="Monate danach" placeholder="1" />
+      </div>
+
+      <SelectField
+        name="rule.businessDayRule"
+        label="Wochenende / Feiertag"
+        options={{
+          PREVIOUS: 'Vorheriger Bankarbeitstag',
+          NEXT: 'Nächster Bankarbeitstag',
+          NONE: 'Nicht verschieben',
+        }}
+      />
+
+      <Preview />
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import * as React from 'react';
+
+import { formatEUR } from '@/lib/money';
+import type { NetSalaryBreakdown } from '@/lib/salary/payroll';
+
+import { Button } from '@/components/ui/button';
+
+type Row = { label: string; amount: number; strong?: boolean };
+
+function rows(b: NetSalaryBreakdown): Row[] {
+  return [
+    { label: 'Brutto', amount: b.gross, strong: true },
+    { label: 'Lohnsteuer', amount: -b.incomeTax },
+    { label: 'Solidaritätszuschlag', amount: -b.solidaritySurcharge },
+    { label: 'Kirchensteuer', amount: -b.churchTax },
+    { label: 'Rentenversicherung', amount: -b.pension },
+    { label: 'Arbeitslosenversicherung', amount: -b.unemployment },
+    { label: 'Krankenversicherung', amount: -b.health },
+    { label: 'Pflegeversicherung', amount: -b.care },
+    { label: 'Netto', amount: b.net, strong: true },
+  ];
+}
+
+export function NetBreakdown({
+  breakdown,
+  year,
+  onApply,
+}: {
+  breakdown: NetSalaryBreakdown;
+  year: number;
+  onApply: (net: number) => void;
+}) {
+  return (
+    <div className="space-y-2 rounded border p-3 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div className="font-medium">Brutto-Netto {breakdown.taxYear}</div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onApply(breakdown.net)}
+        >
+          Netto übernehmen
+        </Button>
+      </div>
+
+      {breakdown.taxYear !== year ? (
+        <p className="text-xs text-muted-foreground">
+          Für {year} liegen keine Werte vor, gerechnet mit {breakdown.taxYear}.
+        </p>
+      ) : null}
+
+      <div className="space-y-1">
+        {rows(breakdown).map((r) => (
+          <div
+            key={r.label}
+            className={`flex justify-between gap-4 ${r.strong ? 'font-medium' : 'text-muted-foreground'}`}
+          >
+            <span>{r.label}</span>
+            <span className="tabular-nums">{formatEUR(r.amount)}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Schätzung für gesetzlich Versicherte ohne Freibeträge; maßgeblich ist
+        die Gehaltsabrechnung.
+      </p>
+    </div>
+  );
+}
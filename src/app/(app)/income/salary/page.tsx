@@ -7,9 +7,30 @@ import { zodResolver } from '@hookform/resolvers/zod';
 
 import { apiGet, apiSend } from '@/lib/api';
 import { parseMoneyDE, formatEUR } from '@/lib/money';
+import { formatDateDE } from '@/lib/format';
+import { formatDateOnly } from '@/lib/date-only';
+import {
+  salaryPayouts,
+  salaryVersionFromRow,
+  specialPaymentFromRow,
+  SPECIAL_PAYMENT_LABEL,
+  type SalarySpecialPaymentRow,
+} from '@/lib/salary/schedule';
+import {
+  calculateNetSalary,
+  defaultHealthAdditionalRate,
+  GERMAN_STATE_LABEL,
+  GERMAN_STATES,
+  TAX_CLASS_LABEL,
+  TAX_CLASSES,
+  type PayrollProfile,
+  type TaxClass,
+} from '@/lib/salary/payroll';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Form,
   FormControl,
@@ -18,6 +39,16 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteDialog } from '@/components/confirm-delete-dialog';
+import { NetBreakdown } from './net-breakdown';
 
 /* =========================
  * Schema helpers
@@ -61,14 +92,30 @@ const IntOptional = (min: number, max: number, label: string) =>
  * Schema
  * ========================= */
 
+const DateRequired = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Datum erforderlich');
+
 const SalarySchema = z
   .object({
     profileId: z.string().uuid('Ungültige Profil-ID'),
+    validFrom: DateRequired,
 
     netAmount: MoneyRequired,
     grossAmount: MoneyOptional,
 
+    // Brutto-Netto-Rechner
+    taxClass: z.enum(['1', '2', '3', '4', '5', '6']),
+    state: z.enum(GERMAN_STATES),
+    churchTax: z.boolean(),
+    children: IntRequired(0, 20, 'Kinder'),
+    healthAdditionalRate: MoneyOptional.refine(
+      (n) => n == null || (n >= 0 && n <= 10),
+      'Zusatzbeitrag 0–10 %',
+    ),
+
     payoutDay: IntRequired(1, 31, 'Tag'),
+    businessDayRule: z.enum(['NONE', 'PREVIOUS', 'NEXT']).default('PREVIOUS'),
 
     yearlyBonusAmount: MoneyOptional,
     yearlyBonusMonth: IntOptional(1, 12, 'Monat'),
@@ -95,6 +142,29 @@ const SalarySchema = z
     },
   );
 
+const SpecialPaymentSchema = z
+  .object({
+    kind: z.enum(['THIRTEENTH_SALARY', 'HOLIDAY_PAY', 'BONUS']),
+    title: z.string().max(120).default(''),
+    amount: MoneyOptional.refine(
+      (n) => n == null || n > 0,
+      'Ungültiger Betrag',
+    ),
+    mode: z.enum(['YEARLY', 'ONCE']),
+    payoutMonth: IntOptional(1, 12, 'Monat'),
+    payoutDay: IntOptional(1, 31, 'Tag'),
+    payoutDate: z.string().optional(),
+    businessDayRule: z.enum(['NONE', 'PREVIOUS', 'NEXT']).default('PREVIOUS'),
+  })
+  .refine((v) => v.mode !== 'ONCE' || !!v.payoutDate, {
+    message: 'Datum erforderlich',
+    path: ['payoutDate'],
+  })
+  .refine(
+    (v) => v.mode !== 'YEARLY' || (v.payoutMonth != null && v.payoutDay != null),
+    { message: 'Monat und Tag erforderlich', path: ['payoutMonth'] },
+  );
+
 /* =========================
  * Types
  * ========================= */
@@ -102,60 +172,152 @@ const SalarySchema = z
 type SalaryInput = z.input<typeof SalarySchema>;
 type SalaryOutput = z.output<typeof SalarySchema>;
 
+type SpecialPaymentInput = z.input<typeof SpecialPaymentSchema>;
+
 type SalaryItem = {
   id: string;
   profile_id: string;
+  valid_from: string;
   net_amount: number;
   gross_amount: number | null;
+  payroll: PayrollProfile | null;
   payout_day: number;
+  business_day_rule: 'NONE' | 'PREVIOUS' | 'NEXT';
   yearly_bonus_amount: number | null;
   yearly_bonus_month: number | null;
   yearly_bonus_day: number | null;
+  is_active: boolean;
 };
 
+type SpecialPaymentItem = SalarySpecialPaymentRow;
+
+const EMPTY_SPECIAL: SpecialPaymentInput = {
+  kind: 'THIRTEENTH_SALARY',
+  title: '',
+  amount: '',
+  mode: 'YEARLY',
+  payoutMonth: '11',
+  payoutDay: '25',
+  payoutDate: '',
+  businessDayRule: 'PREVIOUS',
+};
+
+// form text without currency symbol, so parseMoneyDE reads it back
+function moneyInput(n: number) {
+  return n.toLocaleString('de-DE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+// calculator settings from the (unvalidated) form values, as sent to the API
+function payrollProfile(v: SalaryInput): PayrollProfile {
+  const rate = v.healthAdditionalRate?.trim()
+    ? parseMoneyDE(v.healthAdditionalRate)
+    : null;
+  return {
+    taxClass: Number(v.taxClass),
+    state: v.state,
+    churchTax: v.churchTax,
+    children: Number(v.children) || 0,
+    healthAdditionalRate: rate != null && Number.isFinite(rate) ? rate : null,
+  };
+}
+
+function specialSchedule(p: SpecialPaymentItem) {
+  if (p.payout_date) return `einmalig am ${formatDateDE(p.payout_date)}`;
+  return `jährlich am ${p.payout_day}.${p.payout_month}.`;
+}
+
 /* =========================
  * Page
  * ========================= */
 
 export default function IncomeSalaryPage() {
   const [item, setItem] = React.useState<SalaryItem | null>(null);
+  const [versions, setVersions] = React.useState<SalaryItem[]>([]);
+  const [specials, setSpecials] = React.useState<SpecialPaymentItem[]>([]);
   const [loading, setLoading] = React.useState(true);
 
+  const [deleteVersion, setDeleteVersion] = React.useState<SalaryItem | null>(
+    null,
+  );
+  const [deleteSpecial, setDeleteSpecial] =
+    React.useState<SpecialPaymentItem | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+
   const form = useForm<SalaryInput>({
     resolver: zodResolver(SalarySchema),
     defaultValues: {
       profileId: '',
+      validFrom: formatDateOnly(new Date()),
       netAmount: '',
       grossAmount: '',
+      taxClass: '1',
+      state: 'NW',
+      churchTax: false,
+      children: '0',
+      healthAdditionalRate: '',
       payoutDay: '25',
+      businessDayRule: 'PREVIOUS',
       yearlyBonusAmount: '',
       yearlyBonusMonth: '',
       yearlyBonusDay: '',
     },
   });
 
+  const specialForm = useForm<SpecialPaymentInput>({
+    resolver: zodResolver(SpecialPaymentSchema),
+    defaultValues: EMPTY_SPECIAL,
+  });
+  const specialMode = specialForm.watch('mode');
+
   /* -------- load -------- */
 
+  async function reload() {
+    const [salary, special] = await Promise.all([
+      apiGet<{ items: SalaryItem[]; item: SalaryItem | null }>(
+        '/api/income/salary',
+      ),
+      apiGet<{ items: SpecialPaymentItem[] }>(
+        '/api/income/salary/special-payments',
+      ),
+    ]);
+
+    setItem(salary.item);
+    setVersions(salary.items);
+    setSpecials(special.items);
+    return salary.item;
+  }
+
   React.useEffect(() => {
     (async () => {
       setLoading(true);
       try {
-        const { item } = await apiGet<{ item: SalaryItem | null }>(
-          '/api/income/salary',
-        );
-
-        setItem(item);
+        const item = await reload();
 
         if (item) {
           form.reset({
             profileId: item.profile_id,
-            netAmount: formatEUR(item.net_amount),
+            validFrom: item.valid_from,
+            netAmount: moneyInput(item.net_amount),
             grossAmount: item.gross_amount
-              ? formatEUR(item.gross_amount)
+              ? moneyInput(item.gross_amount)
               : '',
+            taxClass: String(
+              item.payroll?.taxClass ?? 1,
+            ) as SalaryInput['taxClass'],
+            state: item.payroll?.state ?? 'NW',
+            churchTax: item.payroll?.churchTax ?? false,
+            children: String(item.payroll?.children ?? 0),
+            healthAdditionalRate:
+              item.payroll?.healthAdditionalRate != null
+                ? moneyInput(item.payroll.healthAdditionalRate)
+                : '',
             payoutDay: String(item.payout_day),
+            businessDayRule: item.business_day_rule ?? 'PREVIOUS',
             yearlyBonusAmount: item.yearly_bonus_amount
-              ? formatEUR(item.yearly_bonus_amount)
+              ? moneyInput(item.yearly_bonus_amount)
               : '',
             yearlyBonusMonth: item.yearly_bonus_month
               ? String(item.yearly_bonus_month)
@@ -172,24 +334,98 @@ export default function IncomeSalaryPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // what the plan will contain over the next twelve months
+  const upcoming = React.useMemo(() => {
+    const from = formatDateOnly(new Date());
+    const to = `${Number(from.slice(0, 4)) + 1}${from.slice(4)}`;
+    return salaryPayouts(
+      versions.filter((v) => v.is_active).map(salaryVersionFromRow),
+      specials.map(specialPaymentFromRow),
+      from,
+      to,
+    );
+  }, [versions, specials]);
+
+  // gross-to-net with the parameters of the year the version starts in
+  const watched = form.watch();
+  const taxYear =
+    Number(watched.validFrom?.slice(0, 4)) || new Date().getFullYear();
+  const gross = watched.grossAmount?.trim()
+    ? parseMoneyDE(watched.grossAmount)
+    : null;
+  const breakdown =
+    gross != null && Number.isFinite(gross) && gross > 0
+      ? calculateNetSalary(gross, payrollProfile(watched), taxYear)
+      : null;
+
   /* -------- submit -------- */
 
   async function onSubmit(values: SalaryInput) {
     const parsed: SalaryOutput = SalarySchema.parse(values);
 
-    const { item } = await apiSend<{ item: SalaryItem }>(
-      '/api/income/salary',
-      {
-        method: 'POST',
-        body: JSON.stringify({
-          ...parsed,
-          currency: 'EUR',
-          isActive: true,
-        }),
-      },
-    );
+    await apiSend<{ item: SalaryItem }>('/api/income/salary', {
+      method: 'POST',
+      body: JSON.stringify({
+        profileId: parsed.profileId,
+        validFrom: parsed.validFrom,
+        netAmount: parsed.netAmount,
+        grossAmount: parsed.grossAmount,
+        payoutDay: parsed.payoutDay,
+        businessDayRule: parsed.businessDayRule,
+        yearlyBonusAmount: parsed.yearlyBonusAmount,
+        yearlyBonusMonth: parsed.yearlyBonusMonth,
+        yearlyBonusDay: parsed.yearlyBonusDay,
+        // only meaningful together with a gross amount
+        payroll: parsed.grossAmount ? payrollProfile(values) : null,
+        currency: 'EUR',
+        isActive: true,
+      }),
+    });
+
+    await reload();
+  }
+
+  async function onAddSpecial(values: SpecialPaymentInput) {
+    const parsed = SpecialPaymentSchema.parse(values);
+    const once = parsed.mode === 'ONCE';
+
+    await apiSend('/api/income/salary/special-payments', {
+      method: 'POST',
+      body: JSON.stringify({
+        kind: parsed.kind,
+        title: parsed.title,
+        amount: parsed.amount,
+        payoutDate: once ? parsed.payoutDate : null,
+        payoutMonth: once ? null : parsed.payoutMonth,
+        payoutDay: once ? null : parsed.payoutDay,
+        businessDayRule: parsed.businessDayRule,
+      }),
+    });
+
+    specialForm.reset(EMPTY_SPECIAL);
+    await reload();
+  }
 
-    setItem(item);
+  async function confirmDelete() {
+    setDeleting(true);
+    try {
+      if (deleteVersion) {
+        await apiSend(`/api/income/salary/${deleteVersion.id}`, {
+          method: 'DELETE',
+        });
+      }
+      if (deleteSpecial) {
+        await apiSend(
+          `/api/income/salary/special-payments/${deleteSpecial.id}`,
+          { method: 'DELETE' },
+        );
+      }
+      setDeleteVersion(null);
+      setDeleteSpecial(null);
+      await reload();
+    } finally {
+      setDeleting(false);
+    }
   }
 
   if (loading) {
@@ -201,18 +437,20 @@ export default function IncomeSalaryPage() {
   /* -------- UI -------- */
 
   return (
-    <div className="space-y-6 max-w-xl">
+    <div className="space-y-8 max-w-3xl">
       <header className="space-y-1">
         <h2 className="text-lg font-semibold">Gehalt</h2>
         <p className="text-sm text-muted-foreground">
-          Wird automatisch monatlich im Finanzplan berücksichtigt.
+          Wird automatisch monatlich im Finanzplan berücksichtigt. Jede
+          Gehaltsänderung ist eine Version ab einem Stichtag – der Verlauf
+          bleibt erhalten.
         </p>
       </header>
 
       <Form<SalaryInput> {...form}>
         <form
           onSubmit={form.handleSubmit(onSubmit)}
-          className="space-y-4"
+          className="space-y-4 max-w-xl"
         >
           <FormField
             control={form.control}
@@ -228,6 +466,24 @@ export default function IncomeSalaryPage() {
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="validFrom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Gültig ab</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <p className="text-xs text-muted-foreground">
+                  Neues Datum legt eine neue Version an (z.B. Gehaltserhöhung),
+                  gleiches Datum ändert die bestehende.
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="netAmount"
@@ -256,6 +512,127 @@ export default function IncomeSalaryPage() {
             )}
           />
 
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="taxClass"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Steuerklasse</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TAX_CLASSES.map((c) => (
+                        <SelectItem key={c} value={String(c)}>
+                          {TAX_CLASS_LABEL[c]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="state"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bundesland</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {GERMAN_STATES.map((st) => (
+                        <SelectItem key={st} value={st}>
+                          {GERMAN_STATE_LABEL[st]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="children"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Kinder</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="0" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="healthAdditionalRate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>KV-Zusatzbeitrag (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder={moneyInput(
+                        defaultHealthAdditionalRate(taxYear),
+                      )}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="churchTax"
+            render={({ field }) => (
+              <FormItem>
+                <label className="flex items-center gap-2 text-sm">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(v) => field.onChange(v === true)}
+                    />
+                  </FormControl>
+                  Kirchensteuerpflichtig
+                </label>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {breakdown ? (
+            <NetBreakdown
+              breakdown={breakdown}
+              year={taxYear}
+              onApply={(net) =>
+                form.setValue('netAmount', moneyInput(net), {
+                  shouldValidate: true,
+                })
+              }
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Mit Bruttobetrag wird das Netto für das Steuerjahr der Version
+              berechnet.
+            </p>
+          )}
+
           <FormField
             control={form.control}
             name="payoutDay"
@@ -270,8 +647,31 @@ export default function IncomeSalaryPage() {
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="businessDayRule"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Wochenende / Feiertag</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="PREVIOUS">Vorheriger Bankarbeitstag</SelectItem>
+                    <SelectItem value="NEXT">Nächster Bankarbeitstag</SelectItem>
+                    <SelectItem value="NONE">Nicht verschieben</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <div className="pt-2 text-sm text-muted-foreground">
-            Optional: 13. Gehalt / Bonus
+            Optional: jährlicher Bonus dieser Version
           </div>
 
           <FormField
@@ -327,13 +727,287 @@ export default function IncomeSalaryPage() {
         </form>
       </Form>
 
-      {item && (
-        <div className="text-sm text-muted-foreground">
-          Aktuell gespeichert:{' '}
-          {formatEUR(item.net_amount)} € · Auszahlung am{' '}
-          {item.payout_day}.
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">Verlauf</h3>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Gültig ab</TableHead>
+                <TableHead className="text-right">Netto</TableHead>
+                <TableHead className="text-right">Brutto</TableHead>
+                <TableHead>Auszahlung</TableHead>
+                <TableHead>Jahresbonus</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="py-6 text-center text-muted-foreground"
+                  >
+                    Noch kein Gehalt hinterlegt.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                versions.map((v) => (
+                  <TableRow key={v.id}>
+                    <TableCell>
+                      {formatDateDE(v.valid_from)}
+                      {v.id === item?.id ? (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          aktuell
+                        </span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatEUR(v.net_amount)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {v.gross_amount ? formatEUR(v.gross_amount) : '–'}
+                      {v.payroll ? (
+                        <div className="text-xs text-muted-foreground">
+                          StKl {TAX_CLASS_LABEL[v.payroll.taxClass as TaxClass]}
+                        </div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell>am {v.payout_day}.</TableCell>
+                    <TableCell>
+                      {v.yearly_bonus_amount
+                        ? `${formatEUR(v.yearly_bonus_amount)} am ${v.yearly_bonus_day}.${v.yearly_bonus_month}.`
+                        : '–'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeleteVersion(v)}
+                      >
+                        Löschen
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold">Sonderzahlungen</h3>
+          <p className="text-sm text-muted-foreground">
+            13. Gehalt, Urlaubsgeld und Einmalzahlungen. Jährliche Zahlungen
+            laufen, solange ein Gehalt gilt; ohne Betrag wird ein Monatsnetto
+            angesetzt.
+          </p>
         </div>
-      )}
+
+        {specials.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {specials.map((p) => (
+              <div
+                key={p.id}
+                className="flex items-center justify-between gap-4 rounded border px-3 py-2"
+              >
+                <div>
+                  <div className="font-medium">
+                    {p.title || SPECIAL_PAYMENT_LABEL[p.kind]}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {specialSchedule(p)} ·{' '}
+                    {p.amount != null ? formatEUR(p.amount) : 'ein Monatsnetto'}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDeleteSpecial(p)}
+                >
+                  Löschen
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Form<SpecialPaymentInput> {...specialForm}>
+          <form
+            onSubmit={specialForm.handleSubmit(onAddSpecial)}
+            className="grid grid-cols-2 gap-4 rounded border p-3"
+          >
+            <FormField
+              control={specialForm.control}
+              name="kind"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Art</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="THIRTEENTH_SALARY">13. Gehalt</SelectItem>
+                      <SelectItem value="HOLIDAY_PAY">Urlaubsgeld</SelectItem>
+                      <SelectItem value="BONUS">Bonus / Einmalzahlung</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={specialForm.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bezeichnung (optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="z.B. Leistungsbonus 2026" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={specialForm.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Netto-Betrag</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="leer = ein Monatsnetto" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={specialForm.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Turnus</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="YEARLY">Jährlich</SelectItem>
+                      <SelectItem value="ONCE">Einmalig</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {specialMode === 'ONCE' ? (
+              <FormField
+                control={specialForm.control}
+                name="payoutDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Datum</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={specialForm.control}
+                  name="payoutMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Monat</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="11" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={specialForm.control}
+                  name="payoutDay"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tag</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="25" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="flex items-end">
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={specialForm.formState.isSubmitting}
+              >
+                Sonderzahlung hinzufügen
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">Nächste 12 Monate im Plan</h3>
+        {upcoming.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Keine Auszahlungen geplant.
+          </div>
+        ) : (
+          <div className="space-y-1 text-sm">
+            {upcoming.map((p) => (
+              <div key={p.id} className="flex justify-between gap-4">
+                <span>
+                  {formatDateDE(p.date)} · {p.title}
+                </span>
+                <span className="tabular-nums">{formatEUR(p.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <ConfirmDeleteDialog
+        open={!!deleteVersion || !!deleteSpecial}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDeleteVersion(null);
+            setDeleteSpecial(null);
+          }
+        }}
+        title={deleteVersion ? 'Gehaltsversion löschen?' : 'Sonderzahlung löschen?'}
+        description={
+          deleteVersion
+            ? 'Bis zum nächsten Stichtag gilt dann wieder die vorherige Version.'
+            : 'Die Zahlung verschwindet aus dem Plan.'
+        }
+        confirmLabel="Löschen"
+        loading={deleting}
+        onConfirm={confirmDelete}
+      />
     </div>
   );
 }
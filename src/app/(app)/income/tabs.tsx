@@ -6,11 +6,13 @@ import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const tabs = [
   { value: 'invoices', label: 'Rechnungen', href: '/income/invoices' },
+  { value: 'customers', label: 'Kunden', href: '/income/customers' },
   { value: 'salary', label: 'Gehalt', href: '/income/salary' },
   { value: 'provision', label: 'Provision', href: '/income/provision' },
 ] as const;
 
 function tabFromPath(pathname: string) {
+  if (pathname.startsWith('/income/customers')) return 'customers';
   if (pathname.startsWith('/income/salary')) return 'salary';
   if (pathname.startsWith('/income/provision')) return 'provision';
   return 'invoices';
@@ -4,6 +4,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import type { UseFormReturn } from "react-hook-form";
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -27,7 +28,16 @@ import { formatDateDE } from "@/lib/format";
 
 import { RowActions } from "@/components/row-actions";
 import { ConfirmDeleteDialog } from "@/components/confirm-delete-dialog";
-import { parseDateOnly, formatDateOnly, toDateOnlyInput } from "@/lib/date-only"
+import { formatDateOnly, toDateOnlyInput } from "@/lib/date-only"
+import {
+  nextOccurrence,
+  occurrencesPerMonth,
+  recurrenceFromRow,
+  type RecurrenceIntervalType,
+  type RecurrenceMonthRule,
+} from "@/lib/cashflow/recurrence"
+import type { BusinessDayRule } from "@/lib/cashflow/calendar"
+import type { RecurringDeviation, RecurringOccurrenceMatch } from "@/lib/recurring/match"
 
 type Account = { id: string; name: string; type: 'PRIVATE' | 'BUSINESS' | 'TAX'; color: string };
 
@@ -38,8 +48,13 @@ type Recurring = {
   amount: number; // numeric as string
   description: string;
   category: string;
-  interval_type: 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval_type: RecurrenceIntervalType;
+  interval_count: number;
+  month_rule: RecurrenceMonthRule;
   day_of_month: number | null;
+  weekday: number | null;
+  week_of_month: number | null;
+  business_day_rule: BusinessDayRule;
   is_business: boolean;
   is_tax_relevant: boolean;
   start_date: string; // may be YYYY-MM-DD or ISO
@@ -48,22 +63,79 @@ type Recurring = {
 
 type Direction = "EXPENSE" | "INCOME";
 
-function intervalLabel(t: Recurring["interval_type"] | "WEEKLY" | "MONTHLY" | "YEARLY") {
+type RecurringMatches = {
+  from: string;
+  to: string;
+  occurrences: RecurringOccurrenceMatch[];
+  deviations: RecurringDeviation[];
+};
+
+const DEVIATION_LABEL: Record<RecurringDeviation["kind"], string> = {
+  missed: "Ausgeblieben",
+  price_change: "Betrag geändert",
+  unexpected: "Unerwartete Abbuchung",
+};
+
+const WEEKDAYS = ["Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag", "Sonntag"];
+
+function intervalLabel(t: RecurrenceIntervalType, count = 1) {
+  if (count > 1) {
+    if (t === "WEEKLY") return `Alle ${count} Wochen`;
+    if (t === "MONTHLY") return `Alle ${count} Monate`;
+    if (t === "QUARTERLY") return `Alle ${count} Quartale`;
+    if (t === "HALF_YEARLY") return `Alle ${count} Halbjahre`;
+    return `Alle ${count} Jahre`;
+  }
   if (t === "WEEKLY") return "Wöchentlich";
   if (t === "MONTHLY") return "Monatlich";
+  if (t === "QUARTERLY") return "Quartalsweise";
+  if (t === "HALF_YEARLY") return "Halbjährlich";
   return "Jährlich";
 }
 
+function dayRuleLabel(r: Recurring) {
+  if (r.interval_type === "WEEKLY") return r.weekday ? WEEKDAYS[r.weekday - 1] : null;
+  if (r.month_rule === "LAST_BUSINESS_DAY") return "Letzter Bankarbeitstag";
+  if (r.month_rule === "NTH_WEEKDAY") {
+    const nth = r.week_of_month === -1 ? "Letzter" : r.week_of_month ? `${r.week_of_month}.` : null;
+    const wd = r.weekday ? WEEKDAYS[r.weekday - 1] : null;
+    return nth && wd ? `${nth} ${wd}` : null;
+  }
+  return r.day_of_month ? `Tag ${r.day_of_month}` : null;
+}
+
 function todayISO() {
   return formatDateOnly(new Date())
 }
 
 function toDayOfMonth(values: RecurringFormValues) {
-  if (values.intervalType !== "MONTHLY") return null;
+  if (values.intervalType === "WEEKLY" || values.monthRule !== "DAY_OF_MONTH") return null;
   const v = values.dayOfMonth?.trim();
   return v ? Number(v) : null; // number|null für DB
 }
 
+function toWeekday(values: RecurringFormValues) {
+  if (values.intervalType !== "WEEKLY" && values.monthRule !== "NTH_WEEKDAY") return null;
+  return values.weekday ? Number(values.weekday) : null; // null => Wochentag des Startdatums
+}
+
+function toWeekOfMonth(values: RecurringFormValues) {
+  if (values.intervalType === "WEEKLY" || values.monthRule !== "NTH_WEEKDAY") return null;
+  return values.weekOfMonth ? Number(values.weekOfMonth) : null;
+}
+
+function schedulePayload(values: RecurringFormValues) {
+  return {
+    intervalType: values.intervalType,
+    intervalCount: values.intervalCount,
+    monthRule: values.monthRule,
+    dayOfMonth: toDayOfMonth(values), // number|null
+    weekday: toWeekday(values),
+    weekOfMonth: toWeekOfMonth(values),
+    businessDayRule: values.businessDayRule,
+  };
+}
+
 function toDateAny(v: string) {
   // Accepts "YYYY-MM-DD" and ISO timestamps
   const d = new Date(v);
@@ -84,40 +156,8 @@ function toDateInputValue(v: string | null | undefined) {
 }
 
 function computeNextDue(r: Recurring): string {
-  const now = parseDateOnly(todayISO())
-  const start = parseDateOnly(toDateOnlyInput(r.start_date))
-
-  if (r.interval_type === "WEEKLY") {
-    const msWeek = 7 * 24 * 60 * 60 * 1000
-    const diff = Math.max(0, now.getTime() - start.getTime())
-    const weeks = Math.floor(diff / msWeek)
-    const candidate = new Date(start.getTime() + weeks * msWeek)
-    if (candidate < now) candidate.setTime(candidate.getTime() + msWeek)
-    return formatDateOnly(candidate)
-  }
-
-  if (r.interval_type === "YEARLY") {
-    const m = start.getMonth()
-    const d = start.getDate()
-    let candidate = new Date(now.getFullYear(), m, d, 12, 0, 0, 0)
-    if (candidate < now) candidate = new Date(now.getFullYear() + 1, m, d, 12, 0, 0, 0)
-    return formatDateOnly(candidate)
-  }
-
-  // MONTHLY (wie gehabt, aber candidate ebenfalls mittags)
-  const dom = r.day_of_month ?? start.getDate()
-  const y = now.getFullYear()
-  const m = now.getMonth()
-
-  const clampDom = (yy: number, mm: number, day: number) =>
-    Math.min(day, new Date(yy, mm + 1, 0).getDate())
-
-  let candidate = new Date(y, m, clampDom(y, m, dom), 12, 0, 0, 0)
-  if (candidate < now) {
-    const nm = m + 1
-    candidate = new Date(y, nm, clampDom(y, nm, dom), 12, 0, 0, 0)
-  }
-  return formatDateOnly(candidate)
+  // "" = no further occurrence (end_date passed)
+  return nextOccurrence(recurrenceFromRow(r), todayISO()) ?? ""
 }
 
 const AmountAbsSchema = z.coerce
@@ -134,7 +174,12 @@ const RecurringFormSchema = z.object({
   amountAbs: AmountAbsSchema,
   description: z.string().min(1, "Beschreibung fehlt").max(200),
   category: z.string().min(1, "Kategorie fehlt").max(120).default(""),
-  intervalType: z.enum(["WEEKLY", "MONTHLY", "YEARLY"]).default("MONTHLY"),
+  intervalType: z.enum(["WEEKLY", "MONTHLY", "QUARTERLY", "HALF_YEARLY", "YEARLY"]).default("MONTHLY"),
+  intervalCount: z.coerce.number().int().min(1, "Mindestens 1").max(52).default(1),
+  monthRule: z.enum(["DAY_OF_MONTH", "LAST_BUSINESS_DAY", "NTH_WEEKDAY"]).default("DAY_OF_MONTH"),
+  weekday: z.string().optional(),
+  weekOfMonth: z.string().optional(),
+  businessDayRule: z.enum(["NONE", "PREVIOUS", "NEXT"]).default("NEXT"),
 
   dayOfMonth: z
     .string()
@@ -180,12 +225,36 @@ export default function RecurringPage() {
 
   const [saving, setSaving] = useState(false);
 
+  // plan vs. booked transactions (last three months)
+  const [matches, setMatches] = useState<RecurringMatches | null>(null);
+  const [matching, setMatching] = useState(false);
+
   async function load() {
-    const [aRes, rRes] = await Promise.all([fetch('/api/accounts'), fetch('/api/recurring')]);
+    const [aRes, rRes, mRes] = await Promise.all([
+      fetch('/api/accounts'),
+      fetch('/api/recurring'),
+      fetch('/api/recurring/matches'),
+    ]);
     const aJson = await aRes.json();
     const rJson = await rRes.json();
     setAccounts(aJson.items ?? []);
     setItems(rJson.items ?? []);
+    setMatches(mRes.ok ? await mRes.json() : null);
+  }
+
+  async function runMatch() {
+    setMatching(true);
+    try {
+      const r = await fetch('/api/recurring/matches', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!r.ok) throw new Error("Match failed");
+      setMatches(await r.json());
+    } finally {
+      setMatching(false);
+    }
   }
 
   useEffect(() => {
@@ -208,15 +277,12 @@ export default function RecurringPage() {
   const itemsWithNext = useMemo(() => {
     return filtered
       .map((r) => ({ r, nextDue: computeNextDue(r), amountN: r.amount }))
-      .sort((a, b) => a.nextDue.localeCompare(b.nextDue));
+      .sort((a, b) => (a.nextDue || "9999").localeCompare(b.nextDue || "9999"));
   }, [filtered]);
 
   const sumMonthly = useMemo(() => {
     const m = filtered.reduce((acc, r) => {
-      const a = r.amount;
-      if (r.interval_type === 'WEEKLY') return acc + a * 4;
-      if (r.interval_type === 'YEARLY') return acc + a / 12;
-      return acc + a;
+      return acc + r.amount * occurrencesPerMonth(recurrenceFromRow(r));
     }, 0);
     return m;
   }, [filtered]);
@@ -224,11 +290,7 @@ export default function RecurringPage() {
   const perAccount = useMemo(() => {
     const map = new Map<string, { account_id: string; account_name: string; totalMonthly: number; count: number }>();
     for (const r of filtered) {
-      const a = r.amount;
-      const monthly =
-        r.interval_type === "WEEKLY" ? a * 4 :
-          r.interval_type === "YEARLY" ? a / 12 :
-            a;
+      const monthly = r.amount * occurrencesPerMonth(recurrenceFromRow(r));
 
       const cur = map.get(r.account_id) ?? {
         account_id: r.account_id,
@@ -245,6 +307,27 @@ export default function RecurringPage() {
 
   const nextUp = useMemo(() => itemsWithNext.slice(0, 5), [itemsWithNext]);
 
+  const matchInfo = useMemo(() => {
+    const map = new Map<string, { last: RecurringOccurrenceMatch | null; missed: number; priceChange: RecurringDeviation | null }>();
+    for (const o of matches?.occurrences ?? []) {
+      const cur = map.get(o.recurringId) ?? { last: null, missed: 0, priceChange: null };
+      if (o.status === "matched" && (!cur.last || o.date > cur.last.date)) cur.last = o;
+      if (o.status === "missed") cur.missed += 1;
+      map.set(o.recurringId, cur);
+    }
+    for (const d of matches?.deviations ?? []) {
+      if (d.kind !== "price_change") continue;
+      const cur = map.get(d.recurringId);
+      if (cur && (!cur.priceChange || d.date > cur.priceChange.date)) cur.priceChange = d;
+    }
+    return map;
+  }, [matches]);
+
+  const visibleDeviations = useMemo(() => {
+    const ids = new Set(filtered.map((r) => r.id));
+    return (matches?.deviations ?? []).filter((d) => ids.has(d.recurringId)).reverse();
+  }, [matches, filtered]);
+
   const createForm = useForm<z.input<typeof RecurringFormSchema>, any, z.output<typeof RecurringFormSchema>>({
     resolver: zodResolver(RecurringFormSchema),
     defaultValues: {
@@ -254,7 +337,12 @@ export default function RecurringPage() {
       description: "",
       category: "Wohnen",
       intervalType: "MONTHLY",
+      intervalCount: 1,
+      monthRule: "DAY_OF_MONTH",
       dayOfMonth: "1",
+      weekday: "",
+      weekOfMonth: "",
+      businessDayRule: "NEXT",
       startDate: todayISO(),
       isBusiness: false,
       isTaxRelevant: false,
@@ -270,7 +358,12 @@ export default function RecurringPage() {
       description: "",
       category: "",
       intervalType: "MONTHLY",
+      intervalCount: 1,
+      monthRule: "DAY_OF_MONTH",
       dayOfMonth: "1",
+      weekday: "",
+      weekOfMonth: "",
+      businessDayRule: "NEXT",
       startDate: todayISO(),
       isBusiness: false,
       isTaxRelevant: false,
@@ -300,8 +393,7 @@ export default function RecurringPage() {
         amount: signedAmount(values),              // string
         description: values.description.trim(),
         category: values.category,
-        intervalType: values.intervalType,
-        dayOfMonth: toDayOfMonth(values),          // number|null
+        ...schedulePayload(values),
         startDate: values.startDate,
         isBusiness: values.isBusiness,
         isTaxRelevant: values.isTaxRelevant,
@@ -337,7 +429,12 @@ export default function RecurringPage() {
       description: r.description ?? "",
       category: r.category ?? "",
       intervalType: r.interval_type,
+      intervalCount: r.interval_count ?? 1,
+      monthRule: r.month_rule ?? "DAY_OF_MONTH",
       dayOfMonth: r.day_of_month ? String(r.day_of_month) : "",
+      weekday: r.weekday ? String(r.weekday) : "",
+      weekOfMonth: r.week_of_month ? String(r.week_of_month) : "",
+      businessDayRule: r.business_day_rule ?? "NEXT",
       startDate: toDateOnlyInput(r.start_date),
       isBusiness: r.is_business,
       isTaxRelevant: r.is_tax_relevant,
@@ -355,8 +452,7 @@ export default function RecurringPage() {
         amount: signedAmount(values),
         description: values.description.trim(),
         category: values.category,
-        intervalType: values.intervalType,
-        dayOfMonth: toDayOfMonth(values),
+        ...schedulePayload(values),
         startDate: values.startDate,
         isBusiness: values.isBusiness,
         isTaxRelevant: values.isTaxRelevant,
@@ -400,9 +496,14 @@ export default function RecurringPage() {
         title="Fixkosten"
         description="Wiederkehrende Einnahmen/Ausgaben planen und pflegen."
         actions={
-          <Button onClick={() => { ensureDefaultAccountInForm(); setCreateOpen(true); }}>
-            Fixkosten anlegen
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={runMatch} disabled={matching}>
+              {matching ? "Gleiche ab…" : "Mit Buchungen abgleichen"}
+            </Button>
+            <Button onClick={() => { ensureDefaultAccountInForm(); setCreateOpen(true); }}>
+              Fixkosten anlegen
+            </Button>
+          </div>
         }
       />
 
@@ -449,43 +550,11 @@ export default function RecurringPage() {
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-1">
-                <Label>Intervall</Label>
-                <Select
-                  value={createForm.watch("intervalType")}
-                  onValueChange={(v) => createForm.setValue("intervalType", v as any, { shouldValidate: true })}
-                >
-                  <SelectTrigger><SelectValue /></SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="WEEKLY">Wöchentlich</SelectItem>
-                    <SelectItem value="MONTHLY">Monatlich</SelectItem>
-                    <SelectItem value="YEARLY">Jährlich</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+            <ScheduleFields form={createForm} />
 
-              <div className="space-y-1">
-                <Label>Startdatum</Label>
-                <Input type="date" {...createForm.register("startDate")} />
-              </div>
-            </div>
-
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-1">
-                <Label>Tag im Monat</Label>
-                <Input
-                  {...createForm.register("dayOfMonth")}
-                  disabled={createForm.watch("intervalType") !== "MONTHLY"}
-                  inputMode="numeric"
-                  placeholder="1"
-                />
-              </div>
-
-              <div className="space-y-1">
-                <Label>Kategorie</Label>
-                <Input {...createForm.register("category")} />
-              </div>
+            <div className="space-y-1">
+              <Label>Kategorie</Label>
+              <Input {...createForm.register("category")} />
             </div>
 
             <div className="space-y-1">
@@ -569,42 +638,11 @@ export default function RecurringPage() {
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-1">
-                <Label>Intervall</Label>
-                <Select
-                  value={editForm.watch("intervalType")}
-                  onValueChange={(v) => editForm.setValue("intervalType", v as any, { shouldValidate: true })}
-                >
-                  <SelectTrigger><SelectValue /></SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="WEEKLY">Wöchentlich</SelectItem>
-                    <SelectItem value="MONTHLY">Monatlich</SelectItem>
-                    <SelectItem value="YEARLY">Jährlich</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-1">
-                <Label>Startdatum</Label>
-                <Input type="date" {...editForm.register("startDate")} />
-              </div>
-            </div>
-
-            <div className="grid grid-cols-2 gap-3">
-              <div className="space-y-1">
-                <Label>Tag im Monat</Label>
-                <Input
-                  {...editForm.register("dayOfMonth")}
-                  disabled={editForm.watch("intervalType") !== "MONTHLY"}
-                  inputMode="numeric"
-                />
-              </div>
+            <ScheduleFields form={editForm} />
 
-              <div className="space-y-1">
-                <Label>Kategorie</Label>
-                <Input {...editForm.register("category")} />
-              </div>
+            <div className="space-y-1">
+              <Label>Kategorie</Label>
+              <Input {...editForm.register("category")} />
             </div>
 
             <div className="space-y-1">
@@ -678,10 +716,10 @@ export default function RecurringPage() {
           </div>
         </SectionCard>
 
-        <SectionCard title="Monatlicher Plan" description="Heuristik: WEEKLY×4, YEARLY÷12.">
+        <SectionCard title="Monatlicher Plan" description="Durchschnitt pro Monat (z.B. wöchentlich × 52 ÷ 12).">
           <div className="flex items-end justify-between gap-4">
             <div>
-              <div className="text-xs text-muted-foreground">Monthly (heuristisch)</div>
+              <div className="text-xs text-muted-foreground">Monthly (Durchschnitt)</div>
               <div className="mt-1 text-3xl font-semibold tracking-tight">
                 <Money value={sumMonthly} />
               </div>
@@ -714,7 +752,7 @@ export default function RecurringPage() {
                   <div className="min-w-0">
                     <div className="truncate text-sm font-medium">{r.description}</div>
                     <div className="text-xs text-muted-foreground">
-                      {r.account_name} · {intervalLabel(r.interval_type)} · {formatDateDE(nextDue)}
+                      {r.account_name} · {intervalLabel(r.interval_type, r.interval_count)} · {formatDateDE(nextDue)}
                     </div>
                   </div>
                   <div className="text-right text-sm font-semibold">
@@ -727,6 +765,39 @@ export default function RecurringPage() {
         </SectionCard>
       </div>
 
+      {visibleDeviations.length > 0 ? (
+        <SectionCard
+          title="Abweichungen"
+          description={`Plan vs. Buchungen seit ${formatDateDE(matches?.from)}: ausgebliebene Zahlungen, geänderte Beträge, zusätzliche Abbuchungen.`}
+        >
+          <div className="divide-y">
+            {visibleDeviations.map((d) => (
+              <div
+                key={`${d.kind}-${d.recurringId}-${d.date}-${d.kind === "missed" ? "" : d.transactionId}`}
+                className="flex items-center justify-between gap-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium">{d.title}</div>
+                  <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant={d.kind === "price_change" ? "outline" : "destructive"}>{DEVIATION_LABEL[d.kind]}</Badge>
+                    <span className="tabular-nums">{formatDateDE(d.date)}</span>
+                  </div>
+                </div>
+                <div className="text-right text-sm tabular-nums">
+                  {d.kind === "missed" ? (
+                    <>erwartet <Money value={d.expected} /></>
+                  ) : d.kind === "price_change" ? (
+                    <><Money value={d.expected} /> → <Money value={d.actual} /></>
+                  ) : (
+                    <Money value={d.actual} />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </SectionCard>
+      ) : null}
+
       {/* List: grouped by account (more overview when multiple accounts) */}
       <SectionCard title="Fixkosten" description="Nach Konto gruppiert (übersichtlicher bei mehreren Konten).">
         {itemsWithNext.length === 0 ? (
@@ -766,10 +837,8 @@ export default function RecurringPage() {
                           <div className="truncate text-sm font-medium">{r.description}</div>
                           <div className="mt-1 flex flex-wrap items-center gap-2">
                             <Badge variant="secondary">{r.category}</Badge>
-                            <Badge variant="outline">{intervalLabel(r.interval_type)}</Badge>
-                            {r.interval_type === "MONTHLY" && r.day_of_month ? (
-                              <Badge variant="outline">Tag {r.day_of_month}</Badge>
-                            ) : null}
+                            <Badge variant="outline">{intervalLabel(r.interval_type, r.interval_count)}</Badge>
+                            {dayRuleLabel(r) ? <Badge variant="outline">{dayRuleLabel(r)}</Badge> : null}
                             {r.is_business ? <Badge variant="outline">Business</Badge> : null}
                             {r.is_tax_relevant ? <Badge variant="outline">Steuer</Badge> : null}
                           </div>
@@ -777,7 +846,14 @@ export default function RecurringPage() {
                             Start: <span className="tabular-nums">{formatDateDE(toDateOnlyInput(r.start_date))}</span>
                             {" · "}
                             Next: <span className="tabular-nums">{formatDateDE(toDateOnlyInput(nextDue))}</span>
+                            {matchInfo.get(r.id)?.last ? (
+                              <>
+                                {" · "}
+                                Zuletzt gebucht: <span className="tabular-nums">{formatDateDE(matchInfo.get(r.id)?.last?.actualDate)}</span>
+                              </>
+                            ) : null}
                           </div>
+                          <MatchBadges info={matchInfo.get(r.id)} />
                         </div>
 
                         <div className="flex items-center gap-3">
@@ -823,3 +899,155 @@ export default function RecurringPage() {
     </div>
   );
 }
+
+function MatchBadges({
+  info,
+}: {
+  info: { missed: number; priceChange: RecurringDeviation | null } | undefined;
+}) {
+  if (!info || (!info.missed && !info.priceChange)) return null;
+  const change = info.priceChange?.kind === "price_change" ? info.priceChange : null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2">
+      {info.missed ? (
+        <Badge variant="destructive">{info.missed}× ausgeblieben</Badge>
+      ) : null}
+      {change ? (
+        <Badge variant="outline">
+          Betrag: <Money value={change.expected} /> → <Money value={change.actual} />
+        </Badge>
+      ) : null}
+    </div>
+  );
+}
+
+type RecurringForm = UseFormReturn<
+  z.input<typeof RecurringFormSchema>,
+  unknown,
+  z.output<typeof RecurringFormSchema>
+>;
+
+function ScheduleFields({ form }: { form: RecurringForm }) {
+  const intervalType = form.watch("intervalType");
+  const monthRule = form.watch("monthRule");
+  const isWeekly = intervalType === "WEEKLY";
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Intervall</Label>
+          <Select
+            value={intervalType}
+            onValueChange={(v) => form.setValue("intervalType", v as RecurrenceIntervalType, { shouldValidate: true })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="WEEKLY">Wöchentlich</SelectItem>
+              <SelectItem value="MONTHLY">Monatlich</SelectItem>
+              <SelectItem value="QUARTERLY">Quartalsweise</SelectItem>
+              <SelectItem value="HALF_YEARLY">Halbjährlich</SelectItem>
+              <SelectItem value="YEARLY">Jährlich</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Startdatum</Label>
+          <Input type="date" {...form.register("startDate")} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Alle N {isWeekly ? "Wochen" : "Intervalle"}</Label>
+          <Input {...form.register("intervalCount")} inputMode="numeric" placeholder="1" />
+        </div>
+
+        {isWeekly ? (
+          <WeekdaySelect form={form} />
+        ) : (
+          <div className="space-y-1">
+            <Label>Tag-Regel</Label>
+            <Select
+              value={monthRule}
+              onValueChange={(v) => form.setValue("monthRule", v as RecurrenceMonthRule, { shouldValidate: true })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DAY_OF_MONTH">Tag im Monat</SelectItem>
+                <SelectItem value="LAST_BUSINESS_DAY">Letzter Bankarbeitstag</SelectItem>
+                <SelectItem value="NTH_WEEKDAY">n-ter Wochentag</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {!isWeekly && monthRule === "DAY_OF_MONTH" ? (
+        <div className="space-y-1">
+          <Label>Tag im Monat</Label>
+          <Input {...form.register("dayOfMonth")} inputMode="numeric" placeholder="Tag des Startdatums" />
+        </div>
+      ) : null}
+
+      {!isWeekly && monthRule === "NTH_WEEKDAY" ? (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Woche</Label>
+            <Select
+              value={form.watch("weekOfMonth") || undefined}
+              onValueChange={(v) => form.setValue("weekOfMonth", v, { shouldValidate: true })}
+            >
+              <SelectTrigger><SelectValue placeholder="wie Startdatum" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1.</SelectItem>
+                <SelectItem value="2">2.</SelectItem>
+                <SelectItem value="3">3.</SelectItem>
+                <SelectItem value="4">4.</SelectItem>
+                <SelectItem value="-1">Letzter</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <WeekdaySelect form={form} />
+        </div>
+      ) : null}
+
+      <div className="space-y-1">
+        <Label>Wochenende / Feiertag</Label>
+        <Select
+          value={form.watch("businessDayRule")}
+          onValueChange={(v) => form.setValue("businessDayRule", v as BusinessDayRule, { shouldValidate: true })}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="NEXT">Nächster Bankarbeitstag</SelectItem>
+            <SelectItem value="PREVIOUS">Vorheriger Bankarbeitstag</SelectItem>
+            <SelectItem value="NONE">Nicht verschieben</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
+function WeekdaySelect({ form }: { form: RecurringForm }) {
+  return (
+    <div className="space-y-1">
+      <Label>Wochentag</Label>
+      <Select
+        value={form.watch("weekday") || undefined}
+        onValueChange={(v) => form.setValue("weekday", v, { shouldValidate: true })}
+      >
+        <SelectTrigger><SelectValue placeholder="wie Startdatum" /></SelectTrigger>
+        <SelectContent>
+          {WEEKDAYS.map((label, i) => (
+            <SelectItem key={label} value={String(i + 1)}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
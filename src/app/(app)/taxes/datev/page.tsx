@@ -0,0 +1,564 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { z } from 'zod';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateOnly } from '@/lib/date-only';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR } from '@/lib/money';
+import {
+  DATEV_BU_KEY_LABEL,
+  DATEV_BU_KEY_NAMES,
+  DATEV_CHART_ACCOUNTS,
+  DATEV_CHART_LABEL,
+  DATEV_CHARTS,
+  datevFiscalYear,
+  DEFAULT_DATEV_SETTINGS,
+  type DatevSettings,
+} from '@/lib/tax/datev';
+import type { DatevExport } from '@/lib/tax/store';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type Account = { id: string; name: string; type: 'PRIVATE' | 'BUSINESS' | 'TAX' };
+
+type ExportResponse = {
+  item: DatevExport;
+  fiscalYear: { startDate: string; endDateExclusive: string };
+};
+
+const MONTHS = [
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+];
+
+const ledgerInput = z.string().regex(/^(\d{4,9})?$/, '4 bis 9 Ziffern');
+const buKeyInput = z.string().regex(/^\d{0,4}$/, 'bis zu 4 Ziffern');
+
+const SettingsSchema = z.object({
+  consultantNumber: z.string().regex(/^(\d{4,7})?$/, '4 bis 7 Ziffern'),
+  clientNumber: z.string().regex(/^(\d{1,5})?$/, '1 bis 5 Ziffern'),
+  chart: z.enum(DATEV_CHARTS),
+  accountLength: z.string().regex(/^[4-8]$/, '4 bis 8'),
+  fiscalYearStart: z.string(),
+  includeInvoices: z.boolean(),
+  includeTaxRelevant: z.boolean(),
+  moneyAccounts: z.record(z.string(), ledgerInput),
+  revenueAccount: ledgerInput,
+  receivablesAccount: ledgerInput,
+  privateWithdrawalAccount: ledgerInput,
+  privateDepositAccount: ledgerInput,
+  buKeys: z.object({
+    saleStandard: buKeyInput,
+    saleReduced: buKeyInput,
+    purchaseStandard: buKeyInput,
+    purchaseReduced: buKeyInput,
+    reverseCharge: buKeyInput,
+  }),
+});
+
+type SettingsInput = z.input<typeof SettingsSchema>;
+
+const FIXED_ACCOUNTS = [
+  ['revenueAccount', 'revenue', 'Erlöse (Rechnungen)'],
+  ['receivablesAccount', 'receivables', 'Forderungen'],
+  ['privateWithdrawalAccount', 'privateWithdrawal', 'Privatentnahmen'],
+  ['privateDepositAccount', 'privateDeposit', 'Privateinlagen'],
+] as const;
+
+const toInput = (s: DatevSettings, accounts: Account[]): SettingsInput => ({
+  consultantNumber: s.consultantNumber ?? '',
+  clientNumber: s.clientNumber ?? '',
+  chart: s.chart,
+  accountLength: String(s.accountLength),
+  fiscalYearStart: String(s.fiscalYearStart),
+  includeInvoices: s.includeInvoices,
+  includeTaxRelevant: s.includeTaxRelevant,
+  moneyAccounts: Object.fromEntries(accounts.map((a) => [a.id, s.moneyAccounts[a.id] ?? ''])),
+  revenueAccount: s.revenueAccount ?? '',
+  receivablesAccount: s.receivablesAccount ?? '',
+  privateWithdrawalAccount: s.privateWithdrawalAccount ?? '',
+  privateDepositAccount: s.privateDepositAccount ?? '',
+  buKeys: s.buKeys,
+});
+
+const orNull = (s: string) => (s.trim() ? s.trim() : null);
+
+/**
+ * DATEV-Export für die Steuerberatung: Buchungsstapel (EXTF) mit Kontenzuordnung
+ * nach SKR 03/04, Gegenkonten je Geldkonto und BU-Schlüsseln für die Umsatzsteuer.
+ */
+export default function TaxesDatevPage() {
+  const [accounts, setAccounts] = React.useState<Account[]>([]);
+  const [settings, setSettings] = React.useState<DatevSettings | null>(null);
+  const [range, setRange] = React.useState<{ from: string; to: string } | null>(null);
+  const [data, setData] = React.useState<ExportResponse | null>(null);
+  const [categories, setCategories] = React.useState<Record<string, string>>({});
+  const [error, setError] = React.useState<string | null>(null);
+
+  const form = useForm<SettingsInput>({
+    resolver: zodResolver(SettingsSchema),
+    defaultValues: toInput(DEFAULT_DATEV_SETTINGS, []),
+  });
+  const chart = useWatch({ control: form.control, name: 'chart' });
+
+  React.useEffect(() => {
+    Promise.all([
+      apiGet<{ items: Account[] }>('/api/accounts'),
+      apiGet<{ item: DatevSettings }>('/api/taxes/datev/settings'),
+    ]).then(([a, s]) => {
+      setAccounts(a.items);
+      setSettings(s.item);
+      form.reset(toInput(s.item, a.items));
+      // the current fiscal year up to today
+      const today = formatDateOnly(new Date());
+      setRange({ from: datevFiscalYear(today, s.item.fiscalYearStart).startDate, to: today });
+    });
+  }, [form]);
+
+  const reload = React.useCallback(async () => {
+    if (!range || !settings) return;
+    setError(null);
+    try {
+      const res = await apiGet<ExportResponse>(
+        `/api/taxes/datev?from=${range.from}&to=${range.to}`,
+      );
+      setData(res);
+      setCategories(
+        Object.fromEntries(res.item.categories.map((c) => [c.category, c.account ?? ''])),
+      );
+    } catch (e) {
+      setData(null);
+      setError(e instanceof Error ? e.message : 'Fehler');
+    }
+  }, [range, settings]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  async function save(next: DatevSettings) {
+    setError(null);
+    try {
+      const res = await apiSend<{ item: DatevSettings }>('/api/taxes/datev/settings', {
+        method: 'PUT',
+        body: JSON.stringify(next),
+      });
+      setSettings(res.item);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Fehler');
+    }
+  }
+
+  async function onSubmit(values: SettingsInput) {
+    if (!settings) return;
+    const v = SettingsSchema.parse(values);
+    await save({
+      ...settings,
+      consultantNumber: orNull(v.consultantNumber),
+      clientNumber: orNull(v.clientNumber),
+      chart: v.chart,
+      accountLength: Number(v.accountLength),
+      fiscalYearStart: Number(v.fiscalYearStart),
+      includeInvoices: v.includeInvoices,
+      includeTaxRelevant: v.includeTaxRelevant,
+      moneyAccounts: Object.fromEntries(
+        Object.entries(v.moneyAccounts).filter(([, ledger]) => ledger.trim()),
+      ),
+      revenueAccount: orNull(v.revenueAccount),
+      receivablesAccount: orNull(v.receivablesAccount),
+      privateWithdrawalAccount: orNull(v.privateWithdrawalAccount),
+      privateDepositAccount: orNull(v.privateDepositAccount),
+      buKeys: v.buKeys,
+    });
+  }
+
+  async function saveCategories() {
+    if (!settings) return;
+    const next = { ...settings.categories };
+    for (const [category, ledger] of Object.entries(categories)) {
+      if (/^\d{4,9}$/.test(ledger)) next[category] = ledger;
+      else delete next[category];
+    }
+    await save({ ...settings, categories: next });
+  }
+
+  if (!settings || !range) return <p>Lade...</p>;
+
+  const chartAccounts = DATEV_CHART_ACCOUNTS[chart];
+  const exportUrl = `/api/taxes/datev?from=${range.from}&to=${range.to}&format=csv`;
+  const canExport = !!settings.consultantNumber && !!settings.clientNumber && !!data;
+
+  return (
+    <div className="grid md:grid-cols-3 gap-8">
+      <div className="space-y-4 p-6 border rounded-xl h-fit">
+        <h2 className="text-xl font-semibold">DATEV</h2>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="consultantNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Beraternummer</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clientNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mandantennummer</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="chart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Kontenrahmen</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DATEV_CHARTS.map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {DATEV_CHART_LABEL[c]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="accountLength"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sachkontenlänge</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="fiscalYearStart"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Wirtschaftsjahr beginnt im</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MONTHS.map((m, i) => (
+                        <SelectItem key={m} value={String(i + 1)}>
+                          {m}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Geldkonten</p>
+              {accounts.map((a) => (
+                <FormField
+                  key={a.id}
+                  control={form.control}
+                  name={`moneyAccounts.${a.id}`}
+                  render={({ field }) => (
+                    <FormItem className="grid grid-cols-2 items-center gap-2 space-y-0">
+                      <FormLabel className="font-normal">{a.name}</FormLabel>
+                      <FormControl>
+                        <Input
+                          inputMode="numeric"
+                          placeholder={a.type === 'BUSINESS' ? chartAccounts.bank : 'privat'}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="col-span-2" />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Alle Buchungen auf Konten mit Kontonummer werden exportiert. Betriebliche Buchungen
+                auf anderen Konten laufen über Privateinlagen und -entnahmen.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Sachkonten</p>
+              {FIXED_ACCOUNTS.map(([name, key, label]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem className="grid grid-cols-2 items-center gap-2 space-y-0">
+                      <FormLabel className="font-normal">{label}</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" placeholder={chartAccounts[key]} {...field} />
+                      </FormControl>
+                      <FormMessage className="col-span-2" />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">BU-Schlüssel</p>
+              {DATEV_BU_KEY_NAMES.map((k) => (
+                <FormField
+                  key={k}
+                  control={form.control}
+                  name={`buKeys.${k}`}
+                  render={({ field }) => (
+                    <FormItem className="grid grid-cols-2 items-center gap-2 space-y-0">
+                      <FormLabel className="font-normal">{DATEV_BU_KEY_LABEL[k]}</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage className="col-span-2" />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Bei Automatikkonten keinen BU-Schlüssel verwenden – die Kategorien dann auf Konten
+                ohne Steuerautomatik buchen.
+              </p>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="includeInvoices"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(v) => field.onChange(v === true)}
+                    />
+                  </FormControl>
+                  <FormLabel>Rechnungen als Forderungen buchen</FormLabel>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="includeTaxRelevant"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(v) => field.onChange(v === true)}
+                    />
+                  </FormControl>
+                  <FormLabel>Private steuerrelevante Buchungen einbeziehen</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? 'Speichere...' : 'Speichern'}
+            </Button>
+          </form>
+        </Form>
+      </div>
+
+      <div className="md:col-span-2 space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex items-end gap-2">
+            <label className="space-y-1 text-sm">
+              <span>Von</span>
+              <Input
+                type="date"
+                value={range.from}
+                onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span>Bis</span>
+              <Input
+                type="date"
+                value={range.to}
+                onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+              />
+            </label>
+          </div>
+          {canExport ? (
+            <Button asChild>
+              <a href={exportUrl}>Buchungsstapel exportieren</a>
+            </Button>
+          ) : (
+            <Button disabled>Buchungsstapel exportieren</Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {(!settings.consultantNumber || !settings.clientNumber) && (
+          <p className="text-sm text-muted-foreground">
+            Für den Export Berater- und Mandantennummer eintragen.
+          </p>
+        )}
+
+        {data && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Wirtschaftsjahr ab {formatDateDE(data.fiscalYear.startDate)} ·{' '}
+              <span className="font-medium text-foreground">{data.item.rows.length}</span>{' '}
+              Buchungssätze
+            </p>
+
+            {data.item.categories.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Kategorien</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Kategorie</TableHead>
+                      <TableHead className="text-right">Buchungen</TableHead>
+                      <TableHead className="w-36">Gegenkonto</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.item.categories.map((c) => (
+                      <TableRow key={c.category}>
+                        <TableCell>{c.category}</TableCell>
+                        <TableCell className="text-right">{c.count}</TableCell>
+                        <TableCell>
+                          <Input
+                            inputMode="numeric"
+                            value={categories[c.category] ?? ''}
+                            onChange={(e) =>
+                              setCategories((m) => ({ ...m, [c.category]: e.target.value }))
+                            }
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Button variant="outline" onClick={saveCategories}>
+                  Kontenzuordnung speichern
+                </Button>
+              </div>
+            )}
+
+            {data.item.missing.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Ohne Gegenkonto ({data.item.missing.length})</h3>
+                <p className="text-sm text-muted-foreground">
+                  Diese Buchungen fehlen im Export, bis ihre Kategorie ein Konto hat. Buchungen ohne
+                  Kategorie bitte unter{' '}
+                  <Link href="/transactions" className="underline">
+                    Buchungen
+                  </Link>{' '}
+                  kategorisieren.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Datum</TableHead>
+                      <TableHead>Buchung</TableHead>
+                      <TableHead>Kategorie</TableHead>
+                      <TableHead className="text-right">Betrag</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.item.missing.map((m) => (
+                      <TableRow key={m.id}>
+                        <TableCell>{formatDateDE(m.txDate)}</TableCell>
+                        <TableCell>{m.description}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {m.category ?? 'ohne Kategorie'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatEUR(m.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Ein Buchungsstapel darf nur ein Wirtschaftsjahr umfassen. Die Datei ist im DATEV-Format
+          (EXTF) und kann in DATEV Rechnungswesen importiert werden.
+        </p>
+      </div>
+    </div>
+  );
+}
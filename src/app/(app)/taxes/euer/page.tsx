@@ -0,0 +1,370 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR } from '@/lib/money';
+import {
+  EUER_TARGET_LABEL,
+  EUER_TARGETS,
+  EUER_TOTAL_KZ,
+  type EuerReport,
+  type EuerSettings,
+  type EuerTarget,
+} from '@/lib/tax/euer';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type Profile = { id: string; type: 'employee' | 'self_employed'; name: string; is_active: boolean };
+
+type Account = { id: string; name: string; type: 'PRIVATE' | 'BUSINESS' | 'TAX' };
+
+/**
+ * Einnahmen-Überschuss-Rechnung eines Selbstständigen-Profils: Buchungen des Jahres
+ * nach Kategorie auf den Zeilen der Anlage EÜR, Umsatzsteuer gesondert, mit Export.
+ */
+export default function TaxesEuerPage() {
+  const [year, setYear] = React.useState(() => new Date().getFullYear() - 1);
+  const [profiles, setProfiles] = React.useState<Profile[] | null>(null);
+  const [profileId, setProfileId] = React.useState<string | null>(null);
+  const [accounts, setAccounts] = React.useState<Account[]>([]);
+  const [settings, setSettings] = React.useState<EuerSettings | null>(null);
+  const [report, setReport] = React.useState<EuerReport | null>(null);
+  const [mapping, setMapping] = React.useState<Record<string, EuerTarget>>({});
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    Promise.all([
+      apiGet<{ items: Profile[] }>('/api/income/profiles'),
+      apiGet<{ items: Account[] }>('/api/accounts'),
+    ]).then(([p, a]) => {
+      setProfiles(p.items.filter((x) => x.type === 'self_employed' && x.is_active));
+      setAccounts(a.items);
+    });
+  }, []);
+
+  const profile = profiles?.find((p) => p.id === profileId) ?? profiles?.[0] ?? null;
+
+  const reload = React.useCallback(async () => {
+    if (!profile) return;
+    setReport(null);
+    const [s, r] = await Promise.all([
+      apiGet<{ item: EuerSettings }>(`/api/income/profiles/${profile.id}/euer`),
+      apiGet<{ item: EuerReport }>(`/api/taxes/euer?profileId=${profile.id}&year=${year}`),
+    ]);
+    setSettings(s.item);
+    setReport(r.item);
+  }, [profile, year]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // saved mapping, suggestions for the categories not mapped yet
+  React.useEffect(() => {
+    if (!report || !settings) return;
+    const next: Record<string, EuerTarget> = {};
+    for (const c of report.categories) {
+      if (!c.category) continue;
+      const target = settings.categories[c.category] ?? c.suggested;
+      if (target) next[c.category] = target;
+    }
+    setMapping(next);
+  }, [report, settings]);
+
+  async function save(next: EuerSettings) {
+    if (!profile) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await apiSend(`/api/income/profiles/${profile.id}/euer`, {
+        method: 'PUT',
+        body: JSON.stringify(next),
+      });
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Fehler');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggleAccount(id: string, checked: boolean) {
+    if (!settings) return;
+    const accountIds = checked
+      ? [...settings.accountIds, id]
+      : settings.accountIds.filter((x) => x !== id);
+    save({ ...settings, accountIds });
+  }
+
+  if (profiles == null) return <p>Lade...</p>;
+
+  if (profiles.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        Kein aktives Selbstständigen-Profil.{' '}
+        <Link href="/income" className="underline">
+          Profil anlegen
+        </Link>
+      </p>
+    );
+  }
+
+  const exportUrl = (format: 'csv' | 'pdf') =>
+    `/api/taxes/euer?profileId=${profile?.id}&year=${year}&format=${format}`;
+  const mappingChanged =
+    !!settings && Object.entries(mapping).some(([c, t]) => settings.categories[c] !== t);
+  const lines = report?.lines.filter((l) => l.count > 0) ?? [];
+
+  return (
+    <div className="grid md:grid-cols-3 gap-8">
+      <div className="space-y-6 h-fit">
+        {profiles.length > 1 && (
+          <Select value={profile?.id} onValueChange={setProfileId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {settings && (
+          <div className="space-y-4 p-6 border rounded-xl">
+            <h2 className="text-xl font-semibold">Konten</h2>
+            <div className="space-y-2">
+              {accounts
+                .filter((a) => a.type !== 'TAX')
+                .map((a) => (
+                  <label key={a.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={settings.accountIds.includes(a.id)}
+                      disabled={saving}
+                      onCheckedChange={(v) => toggleAccount(a.id, v === true)}
+                    />
+                    {a.name}
+                  </label>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Ohne Auswahl zählen alle Geschäftskonten. Zahlungen auf Rechnungen dieses Profils
+              zählen immer.
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={settings.includeOtherAccounts}
+                disabled={saving}
+                onCheckedChange={(v) => save({ ...settings, includeOtherAccounts: v === true })}
+              />
+              Betriebliche Buchungen auf Privatkonten einbeziehen
+            </label>
+          </div>
+        )}
+
+        {report && report.categories.some((c) => c.category) && (
+          <div className="space-y-4 p-6 border rounded-xl">
+            <h2 className="text-xl font-semibold">Kategorien</h2>
+            {report.categories
+              .filter((c) => c.category)
+              .map((c) => {
+                const category = c.category as string;
+                const target = mapping[category];
+                return (
+                  <div key={category} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-medium">{category}</span>
+                      <span className="text-muted-foreground">
+                        {c.count} · {formatEUR(c.amount)}
+                      </span>
+                    </div>
+                    <Select
+                      value={target ?? ''}
+                      onValueChange={(v) =>
+                        setMapping((m) => ({ ...m, [category]: v as EuerTarget }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Zeile wählen" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EUER_TARGETS.map((t) => (
+                          <SelectItem key={t} value={t}>
+                            {EUER_TARGET_LABEL(t)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {target && settings?.categories[category] !== target && (
+                      <Badge variant="outline">
+                        {target === c.suggested ? 'Vorschlag' : 'geändert'}
+                      </Badge>
+                    )}
+                  </div>
+                );
+              })}
+            <Button
+              className="w-full"
+              disabled={!settings || !mappingChanged || saving}
+              onClick={() =>
+                settings &&
+                save({ ...settings, categories: { ...settings.categories, ...mapping } })
+              }
+            >
+              {saving ? 'Speichere...' : 'Zuordnung speichern'}
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      <div className="md:col-span-2 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setYear((y) => y - 1)}>
+              ←
+            </Button>
+            <h2 className="text-xl font-semibold">EÜR {year}</h2>
+            <Button variant="outline" size="sm" onClick={() => setYear((y) => y + 1)}>
+              →
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl('csv')}>CSV</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl('pdf')}>PDF</a>
+            </Button>
+          </div>
+        </div>
+
+        {!report ? (
+          <p>Lade...</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kz.</TableHead>
+                  <TableHead>Zeile</TableHead>
+                  <TableHead className="text-right">Buchungen</TableHead>
+                  <TableHead className="text-right">Betrag</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(['income', 'expense'] as const).map((side) => (
+                  <React.Fragment key={side}>
+                    {lines
+                      .filter((l) => l.side === side)
+                      .map((l) => (
+                        <TableRow key={l.key}>
+                          <TableCell className="text-muted-foreground">{l.kz}</TableCell>
+                          <TableCell>{l.label}</TableCell>
+                          <TableCell className="text-right">{l.count}</TableCell>
+                          <TableCell className="text-right">{formatEUR(l.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    <TableRow className="font-medium">
+                      <TableCell className="text-muted-foreground">
+                        {side === 'income' ? EUER_TOTAL_KZ.income : EUER_TOTAL_KZ.expenses}
+                      </TableCell>
+                      <TableCell>
+                        {side === 'income' ? 'Summe Betriebseinnahmen' : 'Summe Betriebsausgaben'}
+                      </TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">
+                        {formatEUR(side === 'income' ? report.income : report.expenses)}
+                      </TableCell>
+                    </TableRow>
+                  </React.Fragment>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell className="text-muted-foreground">{EUER_TOTAL_KZ.profit}</TableCell>
+                  <TableCell>{report.profit < 0 ? 'Verlust' : 'Gewinn'}</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">{formatEUR(report.profit)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {report.excluded.count > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {report.excluded.count} Buchungen ({formatEUR(report.excluded.amount)}) sind als
+                privat ausgenommen.
+              </p>
+            )}
+
+            {report.unassigned.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Nicht zugeordnet ({report.unassigned.length})</h3>
+                <p className="text-sm text-muted-foreground">
+                  Diese Buchungen fehlen in der EÜR, bis ihre Kategorie einer Zeile zugeordnet ist.
+                  Buchungen ohne Kategorie bitte unter{' '}
+                  <Link href="/transactions" className="underline">
+                    Buchungen
+                  </Link>{' '}
+                  kategorisieren.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Datum</TableHead>
+                      <TableHead>Buchung</TableHead>
+                      <TableHead>Kategorie</TableHead>
+                      <TableHead className="text-right">Betrag</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.unassigned.map((b) => (
+                      <TableRow key={b.id}>
+                        <TableCell>{formatDateDE(b.txDate)}</TableCell>
+                        <TableCell>
+                          <p>{b.description}</p>
+                          <p className="text-xs text-muted-foreground">{b.accountName}</p>
+                        </TableCell>
+                        <TableCell>
+                          {b.category ?? <Badge variant="destructive">ohne Kategorie</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatEUR(b.net + b.vat)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Maßgeblich ist das Buchungsdatum (Zuflussprinzip). Einkommensteuerzahlungen und
+          Umbuchungen sind nicht enthalten.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import * as React from 'react';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR } from '@/lib/money';
+import { taxPaymentTitle, type TaxPayment } from '@/lib/tax/income-tax';
+import type { TaxPaymentCandidate } from '@/lib/tax/store';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+/**
+ * Buchung auswählen, mit der eine Steuerzahlung beglichen wurde: Buchungen in
+ * gleicher Richtung rund um die Fälligkeit, der passendste Betrag zuerst.
+ */
+export function TaxPaymentLinkDialog({
+  payment,
+  onOpenChange,
+  onLinked,
+}: {
+  payment: TaxPayment | null;
+  onOpenChange: (open: boolean) => void;
+  onLinked: () => void;
+}) {
+  const [items, setItems] = React.useState<TaxPaymentCandidate[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setItems(null);
+    setError(null);
+    if (!payment) return;
+    apiGet<{ items: TaxPaymentCandidate[] }>(`/api/taxes/payments/${payment.id}/candidates`).then(
+      (data) => setItems(data.items),
+    );
+  }, [payment]);
+
+  async function link(transactionId: string) {
+    if (!payment) return;
+    setError(null);
+    try {
+      await apiSend(`/api/taxes/payments/${payment.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ transactionId }),
+      });
+      onOpenChange(false);
+      onLinked();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Fehler');
+    }
+  }
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {payment ? `${taxPaymentTitle(payment)} zuordnen` : 'Buchung zuordnen'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {items == null ? (
+          <p>Lade...</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground">Keine passenden Buchungen gefunden.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Datum</TableHead>
+                <TableHead>Buchung</TableHead>
+                <TableHead>Konto</TableHead>
+                <TableHead className="text-right">Betrag</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((t) => (
+                <TableRow key={t.id}>
+                  <TableCell>{formatDateDE(t.txDate)}</TableCell>
+                  <TableCell>{t.description}</TableCell>
+                  <TableCell className="text-muted-foreground">{t.accountName}</TableCell>
+                  <TableCell className="text-right">{formatEUR(t.amount)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => link(t.id)}>
+                      Zuordnen
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,456 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateOnly } from '@/lib/date-only';
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import { formatDateDE } from '@/lib/format';
+import {
+  prepaymentDueDates,
+  taxPaymentCashflow,
+  taxPaymentTitle,
+  type TaxPayment,
+} from '@/lib/tax/income-tax';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteDialog } from '@/components/confirm-delete-dialog';
+
+import { TaxPaymentLinkDialog } from './link-dialog';
+
+type Profile = { id: string; type: 'employee' | 'self_employed'; name: string; is_active: boolean };
+
+const optionalAmount = z.string().refine((s) => {
+  if (!s.trim()) return true;
+  const n = parseMoneyDE(s);
+  return Number.isFinite(n) && n >= 0;
+}, 'Ungültiger Betrag');
+
+const PrepaymentsSchema = z.object({
+  amounts: z.array(optionalAmount).length(4),
+});
+
+type PrepaymentsInput = z.input<typeof PrepaymentsSchema>;
+
+const AssessmentSchema = z.object({
+  kind: z.enum(['refund', 'back_payment']),
+  taxYear: z.string().regex(/^\d{4}$/, 'Jahr angeben'),
+  dueDate: z.string().min(1, 'Datum erforderlich'),
+  amount: z.string().refine((s) => {
+    const n = parseMoneyDE(s);
+    return Number.isFinite(n) && n > 0;
+  }, 'Ungültiger Betrag (z.B. 1.234,56)'),
+  note: z.string().max(240),
+});
+
+type AssessmentInput = z.input<typeof AssessmentSchema>;
+
+const toInput = (n: number) =>
+  n.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Einkommensteuer eines Selbstständigen-Profils: Vorauszahlungen laut Bescheid,
+ * erwartete Erstattungen und Nachzahlungen, jeweils mit der Buchung, die sie beglichen hat.
+ */
+export default function TaxesIncomeTaxPage() {
+  const [year, setYear] = React.useState(() => new Date().getFullYear());
+  const [profiles, setProfiles] = React.useState<Profile[] | null>(null);
+  const [profileId, setProfileId] = React.useState<string | null>(null);
+  const [items, setItems] = React.useState<TaxPayment[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [linkItem, setLinkItem] = React.useState<TaxPayment | null>(null);
+  const [deleteItem, setDeleteItem] = React.useState<TaxPayment | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+
+  const prepayments = useForm<PrepaymentsInput>({
+    resolver: zodResolver(PrepaymentsSchema),
+    defaultValues: { amounts: ['', '', '', ''] },
+  });
+
+  const assessment = useForm<AssessmentInput>({
+    resolver: zodResolver(AssessmentSchema),
+    defaultValues: {
+      kind: 'refund',
+      taxYear: String(new Date().getFullYear() - 1),
+      dueDate: '',
+      amount: '',
+      note: '',
+    },
+  });
+
+  React.useEffect(() => {
+    apiGet<{ items: Profile[] }>('/api/income/profiles').then((data) =>
+      setProfiles(data.items.filter((p) => p.type === 'self_employed' && p.is_active)),
+    );
+  }, []);
+
+  const profile = profiles?.find((p) => p.id === profileId) ?? profiles?.[0] ?? null;
+
+  const reload = React.useCallback(async () => {
+    if (!profile) return;
+    setLoading(true);
+    try {
+      const data = await apiGet<{ items: TaxPayment[] }>(
+        `/api/taxes/payments?profileId=${profile.id}&year=${year}`,
+      );
+      setItems(data.items);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, year]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const dueDates = React.useMemo(() => prepaymentDueDates(year), [year]);
+
+  // the form shows this year's prepayments, by quarter
+  React.useEffect(() => {
+    prepayments.reset({
+      amounts: dueDates.map((d) => {
+        const p = items.find((x) => x.kind === 'prepayment' && x.dueDate === d);
+        return p ? toInput(p.amount) : '';
+      }),
+    });
+  }, [items, dueDates, prepayments]);
+
+  async function onSavePrepayments(values: PrepaymentsInput) {
+    if (!profile) return;
+    const v = PrepaymentsSchema.parse(values);
+    await apiSend('/api/taxes/payments/prepayments', {
+      method: 'PUT',
+      body: JSON.stringify({
+        profileId: profile.id,
+        year,
+        amounts: v.amounts.map((a) => (a.trim() ? parseMoneyDE(a) : null)),
+      }),
+    });
+    reload();
+  }
+
+  async function onAddAssessment(values: AssessmentInput) {
+    if (!profile) return;
+    const v = AssessmentSchema.parse(values);
+    await apiSend('/api/taxes/payments', {
+      method: 'POST',
+      body: JSON.stringify({
+        profileId: profile.id,
+        kind: v.kind,
+        taxYear: Number(v.taxYear),
+        dueDate: v.dueDate,
+        amount: parseMoneyDE(v.amount),
+        note: v.note,
+      }),
+    });
+    assessment.reset({ ...values, dueDate: '', amount: '', note: '' });
+    reload();
+  }
+
+  async function unlink(p: TaxPayment) {
+    await apiSend(`/api/taxes/payments/${p.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ transactionId: null }),
+    });
+    reload();
+  }
+
+  async function confirmDelete() {
+    if (!deleteItem) return;
+    setDeleting(true);
+    try {
+      await apiSend(`/api/taxes/payments/${deleteItem.id}`, { method: 'DELETE' });
+      setDeleteItem(null);
+      reload();
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  const today = formatDateOnly(new Date());
+  const open = items.filter((p) => !p.transactionId);
+  const openTotal = open.reduce((s, p) => s + taxPaymentCashflow(p.kind, p.amount), 0);
+
+  if (profiles == null) return <p>Lade...</p>;
+
+  if (profiles.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        Kein aktives Selbstständigen-Profil.{' '}
+        <Link href="/income" className="underline">
+          Profil anlegen
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-3 gap-8">
+      <div className="space-y-6 h-fit">
+        {profiles.length > 1 && (
+          <Select value={profile?.id} onValueChange={setProfileId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="space-y-4 p-6 border rounded-xl">
+          <h2 className="text-xl font-semibold">Vorauszahlungen {year}</h2>
+          <Form {...prepayments}>
+            <form onSubmit={prepayments.handleSubmit(onSavePrepayments)} className="space-y-4">
+              {dueDates.map((d, q) => (
+                <FormField
+                  key={d}
+                  control={prepayments.control}
+                  name={`amounts.${q}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Q{q + 1} · fällig {formatDateDE(d)}
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="0,00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={prepayments.formState.isSubmitting}
+              >
+                {prepayments.formState.isSubmitting ? 'Speichere...' : 'Speichern'}
+              </Button>
+            </form>
+          </Form>
+          <p className="text-xs text-muted-foreground">
+            Beträge aus dem letzten Steuerbescheid, inklusive Solidaritätszuschlag und
+            Kirchensteuer. Ein neuer Bescheid ersetzt die Beträge, bereits gezahlte Quartale bleiben
+            zugeordnet.
+          </p>
+        </div>
+
+        <div className="space-y-4 p-6 border rounded-xl">
+          <h2 className="text-xl font-semibold">Erstattung / Nachzahlung</h2>
+          <Form {...assessment}>
+            <form onSubmit={assessment.handleSubmit(onAddAssessment)} className="space-y-4">
+              <FormField
+                control={assessment.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Art</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="refund">Erstattung</SelectItem>
+                        <SelectItem value="back_payment">Nachzahlung</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={assessment.control}
+                  name="taxYear"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Steuerjahr</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={assessment.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Betrag (€)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={assessment.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Erwartet am</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={assessment.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notiz</FormLabel>
+                    <FormControl>
+                      <Input placeholder="z. B. Bescheid vom ..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={assessment.formState.isSubmitting}>
+                {assessment.formState.isSubmitting ? 'Speichere...' : 'Hinzufügen'}
+              </Button>
+            </form>
+          </Form>
+        </div>
+      </div>
+
+      <div className="md:col-span-2 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setYear((y) => y - 1)}>
+              ←
+            </Button>
+            <h2 className="text-xl font-semibold">{year}</h2>
+            <Button variant="outline" size="sm" onClick={() => setYear((y) => y + 1)}>
+              →
+            </Button>
+          </div>
+          {open.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Noch offen <span className="font-medium text-foreground">{formatEUR(openTotal)}</span>
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <p>Lade...</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground">Keine Steuerzahlungen in diesem Jahr.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fällig</TableHead>
+                <TableHead>Zahlung</TableHead>
+                <TableHead className="text-right">Betrag</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((p) => (
+                <TableRow key={p.id}>
+                  <TableCell>{formatDateDE(p.dueDate)}</TableCell>
+                  <TableCell>
+                    <p>{taxPaymentTitle(p)}</p>
+                    {p.note && <p className="text-xs text-muted-foreground">{p.note}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatEUR(taxPaymentCashflow(p.kind, p.amount))}
+                  </TableCell>
+                  <TableCell>
+                    {p.transactionId ? (
+                      <Badge variant="secondary">
+                        gebucht {p.txDate ? formatDateDE(p.txDate) : ''}
+                      </Badge>
+                    ) : p.dueDate < today ? (
+                      <Badge variant="destructive">überfällig</Badge>
+                    ) : (
+                      <Badge variant="outline">offen</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {p.transactionId ? (
+                      <Button variant="ghost" size="sm" onClick={() => unlink(p)}>
+                        Zuordnung lösen
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => setLinkItem(p)}>
+                        Buchung zuordnen
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteItem(p)}>
+                      Löschen
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Offene Zahlungen erscheinen in der Cashflow-Planung. Buchungen über den genauen Betrag mit
+          Finanzamt oder Steuer im Text werden beim Import automatisch zugeordnet.
+        </p>
+      </div>
+
+      <TaxPaymentLinkDialog
+        payment={linkItem}
+        onOpenChange={(o) => !o && setLinkItem(null)}
+        onLinked={reload}
+      />
+
+      <ConfirmDeleteDialog
+        open={!!deleteItem}
+        onOpenChange={(o) => !o && setDeleteItem(null)}
+        title="Steuerzahlung löschen?"
+        description="Die zugeordnete Buchung bleibt erhalten."
+        confirmLabel="Löschen"
+        loading={deleting}
+        onConfirm={confirmDelete}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import type { ReactNode } from 'react';
+import TaxesTabs from './tabs';
+
+export default function TaxesLayout({ children }: { children: ReactNode }) {
+  return (
+    <div className="space-y-4">
+      <TaxesTabs />
+      <div>{children}</div>
+    </div>
+  );
+}
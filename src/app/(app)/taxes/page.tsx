@@ -0,0 +1,6 @@
+import { redirect } from 'next/navigation';
+
+export default function TaxesIndexPage() {
+  // Default landing: VAT returns
+  redirect('/taxes/vat');
+}
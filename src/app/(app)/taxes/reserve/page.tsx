@@ -0,0 +1,487 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateOnly } from '@/lib/date-only';
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import { formatDateDE } from '@/lib/format';
+import type { TaxReserveReport } from '@/lib/tax/store';
+import {
+  DEFAULT_TAX_RESERVE_SETTINGS,
+  TAX_RESERVE_MODE_LABEL,
+  TAX_RESERVE_MODES,
+  TaxReserveSettingsSchema,
+  type TaxReserveSettings,
+} from '@/lib/tax/reserve';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type Profile = {
+  id: string;
+  type: 'employee' | 'self_employed';
+  name: string;
+  settings: Record<string, unknown> | null;
+  is_active: boolean;
+};
+
+type Account = { id: string; name: string; type: 'PRIVATE' | 'BUSINESS' | 'TAX' };
+
+// Select needs a value for "first business account"
+const DEFAULT_SOURCE = 'DEFAULT';
+
+const optionalAmount = z.string().refine((s) => {
+  if (!s.trim()) return true;
+  const n = parseMoneyDE(s);
+  return Number.isFinite(n) && n >= 0;
+}, 'Ungültiger Betrag');
+
+const SettingsSchema = z.object({
+  enabled: z.boolean(),
+  mode: z.enum(TAX_RESERVE_MODES),
+  percentage: z.string().refine((s) => {
+    const n = parseMoneyDE(s);
+    return Number.isFinite(n) && n >= 0 && n <= 100;
+  }, 'Zwischen 0 und 100'),
+  expectedTaxableIncome: optionalAmount,
+  includeUnlinkedIncome: z.boolean(),
+  sourceAccountId: z.string(),
+});
+
+type SettingsInput = z.input<typeof SettingsSchema>;
+
+const formatNumber = (n: number) =>
+  n.toLocaleString('de-DE', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const reserveSettingsOf = (p: Profile): TaxReserveSettings => {
+  const parsed = TaxReserveSettingsSchema.safeParse(p.settings?.taxReserve ?? {});
+  return parsed.success ? parsed.data : DEFAULT_TAX_RESERVE_SETTINGS;
+};
+
+const toInput = (s: TaxReserveSettings): SettingsInput => ({
+  enabled: s.enabled,
+  mode: s.mode,
+  percentage: formatNumber(s.percentage),
+  expectedTaxableIncome:
+    s.expectedTaxableIncome == null ? '' : formatNumber(s.expectedTaxableIncome),
+  includeUnlinkedIncome: s.includeUnlinkedIncome,
+  sourceAccountId: s.sourceAccountId ?? DEFAULT_SOURCE,
+});
+
+/**
+ * Steuerrücklage: Anteil der betrieblichen Einnahmen je Einkommensprofil, verglichen
+ * mit dem Stand der Steuerkonten, und die Umbuchungen, die die Lücke schließen.
+ */
+export default function TaxesReservePage() {
+  const [report, setReport] = React.useState<TaxReserveReport | null>(null);
+  const [profiles, setProfiles] = React.useState<Profile[]>([]);
+  const [accounts, setAccounts] = React.useState<Account[]>([]);
+  const [profileId, setProfileId] = React.useState<string | null>(null);
+  const [targetId, setTargetId] = React.useState<string | null>(null);
+  const [transferring, setTransferring] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+
+  const form = useForm<SettingsInput>({
+    resolver: zodResolver(SettingsSchema),
+    defaultValues: toInput(DEFAULT_TAX_RESERVE_SETTINGS),
+  });
+
+  const reload = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      const [r, p, a] = await Promise.all([
+        apiGet<{ item: TaxReserveReport }>('/api/taxes/reserve'),
+        apiGet<{ items: Profile[] }>('/api/income/profiles'),
+        apiGet<{ items: Account[] }>('/api/accounts'),
+      ]);
+      setReport(r.item);
+      setProfiles(p.items.filter((x) => x.type === 'self_employed' && x.is_active));
+      setAccounts(a.items);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const selected = profiles.find((p) => p.id === profileId) ?? profiles[0] ?? null;
+
+  React.useEffect(() => {
+    if (selected) form.reset(toInput(reserveSettingsOf(selected)));
+  }, [selected, form]);
+
+  async function onSubmit(values: SettingsInput) {
+    if (!selected) return;
+    const v = SettingsSchema.parse(values);
+    await apiSend(`/api/income/profiles/${selected.id}/tax-reserve`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        enabled: v.enabled,
+        mode: v.mode,
+        percentage: parseMoneyDE(v.percentage),
+        expectedTaxableIncome: v.expectedTaxableIncome.trim()
+          ? parseMoneyDE(v.expectedTaxableIncome)
+          : null,
+        includeUnlinkedIncome: v.includeUnlinkedIncome,
+        sourceAccountId: v.sourceAccountId === DEFAULT_SOURCE ? null : v.sourceAccountId,
+      }),
+    });
+    reload();
+  }
+
+  const taxAccounts = report?.taxAccounts ?? [];
+  const target = taxAccounts.find((a) => a.id === targetId) ?? taxAccounts[0] ?? null;
+  const accountName = (id: string | null) => accounts.find((a) => a.id === id)?.name ?? '—';
+
+  async function transfer(p: TaxReserveReport['profiles'][number]) {
+    if (!target || !p.sourceAccountId) return;
+    setTransferring(p.profileId);
+    try {
+      await apiSend('/api/transactions', {
+        method: 'POST',
+        body: JSON.stringify({
+          kind: 'TRANSFER',
+          fromAccountId: p.sourceAccountId,
+          toAccountId: target.id,
+          amount: p.transfer,
+          description: `Steuerrücklage ${p.name}`,
+          category: 'Steuerrücklage',
+          txDate: formatDateOnly(new Date()),
+        }),
+      });
+      await reload();
+    } finally {
+      setTransferring(null);
+    }
+  }
+
+  const marginal = form.watch('mode') === 'marginal';
+
+  return (
+    <div className="grid md:grid-cols-3 gap-8">
+      <div className="space-y-4 p-6 border rounded-xl h-fit">
+        <h2 className="text-xl font-semibold">Rücklage je Profil</h2>
+        {profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Kein aktives Selbstständigen-Profil.{' '}
+            <Link href="/income" className="underline">
+              Profil anlegen
+            </Link>
+          </p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {profiles.length > 1 && (
+                <Select value={selected?.id} onValueChange={setProfileId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>Steuerrücklage bilden</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Satz</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TAX_RESERVE_MODES.map((m) => (
+                          <SelectItem key={m} value={m}>
+                            {TAX_RESERVE_MODE_LABEL[m]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {marginal ? (
+                <FormField
+                  control={form.control}
+                  name="expectedTaxableIncome"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Erwartetes zu versteuerndes Einkommen (€)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="z. B. 60.000" {...field} />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        Grenzsteuersatz inkl. Solidaritätszuschlag auf dieses Einkommen.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="percentage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Anteil der Nettoeinnahmen (%)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="includeUnlinkedIncome"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>Betriebliche Einnahmen ohne Rechnung einbeziehen</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="sourceAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Umbuchen von</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_SOURCE}>Erstes Geschäftskonto</SelectItem>
+                        {accounts
+                          .filter((a) => a.type !== 'TAX')
+                          .map((a) => (
+                            <SelectItem key={a.id} value={a.id}>
+                              {a.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Speichere...' : 'Speichern'}
+              </Button>
+            </form>
+          </Form>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Einnahmen zählen netto (ohne Umsatzsteuer) ab dem 1. Januar. Steuerzahlungen von den
+          Steuerkonten in diesem Jahr verringern die Rücklage, die noch da sein muss.
+        </p>
+      </div>
+
+      <div className="md:col-span-2 space-y-6">
+        {loading && !report ? (
+          <p>Lade...</p>
+        ) : !report || report.profiles.length === 0 ? (
+          <p className="text-muted-foreground">
+            Für kein Profil ist eine Steuerrücklage eingestellt.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Rücklage {report.year}</p>
+                <p className="text-lg font-semibold">{formatEUR(report.reserve)}</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Bereits gezahlt</p>
+                <p className="text-lg font-semibold">{formatEUR(report.taxPaid)}</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Steuerkonten</p>
+                <p className="text-lg font-semibold">{formatEUR(report.balance)}</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">
+                  {report.shortfall > 0 ? 'Fehlbetrag' : 'Überdeckung'}
+                </p>
+                <p
+                  className={`text-lg font-semibold ${
+                    report.shortfall > 0 ? 'text-red-600' : 'text-green-600'
+                  }`}
+                >
+                  {formatEUR(report.shortfall > 0 ? report.shortfall : report.surplus)}
+                </p>
+              </div>
+            </div>
+
+            {taxAccounts.length === 0 ? (
+              <p className="text-sm text-amber-600">
+                Kein Steuerkonto vorhanden –{' '}
+                <Link href="/accounts" className="underline">
+                  Konto vom Typ Steuer anlegen
+                </Link>
+                , um die Rücklage dort zu parken.
+              </p>
+            ) : (
+              taxAccounts.length > 1 && (
+                <div className="flex items-center gap-2">
+                  <p className="text-sm text-muted-foreground">Umbuchen auf</p>
+                  <Select value={target?.id} onValueChange={setTargetId}>
+                    <SelectTrigger className="w-60">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {taxAccounts.map((a) => (
+                        <SelectItem key={a.id} value={a.id}>
+                          {a.name} ({formatEUR(a.balance)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Profil</TableHead>
+                  <TableHead className="text-right">Nettoeinnahmen</TableHead>
+                  <TableHead className="text-right">Satz</TableHead>
+                  <TableHead className="text-right">Rücklage</TableHead>
+                  <TableHead className="text-right">Umbuchung</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.profiles.map((p) => (
+                  <TableRow key={p.profileId}>
+                    <TableCell>
+                      <p>{p.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        von {accountName(p.sourceAccountId)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">{formatEUR(p.income)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(p.rate)} %</TableCell>
+                    <TableCell className="text-right">{formatEUR(p.reserve)}</TableCell>
+                    <TableCell className="text-right">{formatEUR(p.transfer)}</TableCell>
+                    <TableCell className="text-right">
+                      {p.transfer > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!target || !p.sourceAccountId || transferring !== null}
+                          onClick={() => transfer(p)}
+                        >
+                          {transferring === p.profileId ? 'Buche...' : 'Umbuchen'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {report.upcoming.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Geplante Rücklagen aus offenen Rechnungen</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zahlung erwartet</TableHead>
+                      <TableHead>Kunde</TableHead>
+                      <TableHead className="text-right">Zurücklegen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.upcoming.map((u) => (
+                      <TableRow key={u.invoiceId}>
+                        <TableCell>{formatDateDE(u.date)}</TableCell>
+                        <TableCell>
+                          <Link href={`/income/invoices/${u.invoiceId}`} className="underline">
+                            {u.customerName}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{formatEUR(u.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
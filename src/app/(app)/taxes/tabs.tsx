@@ -0,0 +1,43 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+const tabs = [
+  { value: 'vat', label: 'Umsatzsteuer', href: '/taxes/vat' },
+  { value: 'income-tax', label: 'Einkommensteuer', href: '/taxes/income-tax' },
+  { value: 'reserve', label: 'Rücklage', href: '/taxes/reserve' },
+  { value: 'euer', label: 'EÜR', href: '/taxes/euer' },
+  { value: 'datev', label: 'DATEV', href: '/taxes/datev' },
+] as const;
+
+function tabFromPath(pathname: string) {
+  return tabs.find((t) => pathname.startsWith(t.href))?.value ?? 'vat';
+}
+
+export default function TaxesTabs() {
+  const pathname = usePathname();
+  const active = tabFromPath(pathname);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h1 className="text-xl font-semibold">Steuern</h1>
+        <p className="text-sm text-muted-foreground">
+          Voranmeldungen, Steuerzahlungen, Rücklagen, EÜR und DATEV-Export deiner Selbstständigkeit.
+        </p>
+      </div>
+
+      <Tabs value={active}>
+        <TabsList>
+          {tabs.map((t) => (
+            <TabsTrigger key={t.value} value={t.value} asChild>
+              <Link href={t.href}>{t.label}</Link>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { apiGet, apiSend } from '@/lib/api';
+import { formatEUR, parseMoneyDE } from '@/lib/money';
+import { formatDateDE } from '@/lib/format';
+import type { VatReport } from '@/lib/tax/store';
+import { VAT_FILING_LABEL, VAT_FILINGS, type VatSettings } from '@/lib/tax/vat';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type VatResponse = { settings: VatSettings; items: VatReport[] };
+
+const SettingsSchema = z.object({
+  filing: z.enum(VAT_FILINGS),
+  permanentExtension: z.boolean(),
+  specialPrepayment: z.string().refine((s) => {
+    if (!s.trim()) return true;
+    const n = parseMoneyDE(s);
+    return Number.isFinite(n) && n >= 0;
+  }, 'Ungültiger Betrag'),
+});
+
+type SettingsInput = z.input<typeof SettingsSchema>;
+
+const toInput = (s: VatSettings): SettingsInput => ({
+  filing: s.filing,
+  permanentExtension: s.permanentExtension,
+  specialPrepayment:
+    s.specialPrepayment == null
+      ? ''
+      : s.specialPrepayment.toLocaleString('de-DE', {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        }),
+});
+
+/**
+ * Umsatzsteuer-Voranmeldungen eines Jahres mit den Kennzahlen des Formulars;
+ * laufende Zeiträume enthalten die bis zum Ende erwarteten Rechnungszahlungen.
+ */
+export default function TaxesVatPage() {
+  const [year, setYear] = React.useState(() => new Date().getFullYear());
+  const [data, setData] = React.useState<VatResponse | null>(null);
+  const [loading, setLoading] = React.useState(true);
+
+  const form = useForm<SettingsInput>({
+    resolver: zodResolver(SettingsSchema),
+    defaultValues: { filing: 'none', permanentExtension: false, specialPrepayment: '' },
+  });
+
+  const reload = React.useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await apiGet<VatResponse>(`/api/taxes/vat?year=${year}`);
+      setData(res);
+      form.reset(toInput(res.settings));
+    } finally {
+      setLoading(false);
+    }
+  }, [year, form]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  async function onSubmit(values: SettingsInput) {
+    const v = SettingsSchema.parse(values);
+    await apiSend('/api/taxes/vat/settings', {
+      method: 'PUT',
+      body: JSON.stringify({
+        filing: v.filing,
+        permanentExtension: v.permanentExtension,
+        specialPrepayment: v.specialPrepayment.trim() ? parseMoneyDE(v.specialPrepayment) : null,
+      }),
+    });
+    reload();
+  }
+
+  const monthly = form.watch('filing') === 'monthly';
+  const items = data?.items ?? [];
+  const total = items.reduce((s, r) => s + r.vat.payable, 0);
+
+  return (
+    <div className="grid md:grid-cols-3 gap-8">
+      <div className="space-y-4 p-6 border rounded-xl h-fit">
+        <h2 className="text-xl font-semibold">Voranmeldung</h2>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="filing"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Zeitraum</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {VAT_FILINGS.map((f) => (
+                        <SelectItem key={f} value={f}>
+                          {VAT_FILING_LABEL[f]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="permanentExtension"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(v) => field.onChange(v === true)}
+                    />
+                  </FormControl>
+                  <FormLabel>Dauerfristverlängerung (einen Monat später fällig)</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {monthly && form.watch('permanentExtension') && (
+              <FormField
+                control={form.control}
+                name="specialPrepayment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sondervorauszahlung (€)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1/11 der Vorjahressteuer" {...field} />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      Fällig am 10. Februar, angerechnet in der Dezember-Anmeldung.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? 'Speichere...' : 'Speichern'}
+            </Button>
+          </form>
+        </Form>
+        <p className="text-xs text-muted-foreground">
+          Berechnet nach vereinnahmten Entgelten (Istversteuerung): Einnahmen zählen im Monat des
+          Zahlungseingangs, Vorsteuer im Monat der Zahlung.
+        </p>
+      </div>
+
+      <div className="md:col-span-2 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setYear((y) => y - 1)}>
+              ←
+            </Button>
+            <h2 className="text-xl font-semibold">{year}</h2>
+            <Button variant="outline" size="sm" onClick={() => setYear((y) => y + 1)}>
+              →
+            </Button>
+          </div>
+          {items.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Summe Vorauszahlungen{' '}
+              <span className="font-medium text-foreground">{formatEUR(total)}</span>
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <p>Lade...</p>
+        ) : data?.settings.filing === 'none' ? (
+          <p className="text-muted-foreground">
+            Keine Voranmeldung eingestellt. Wähle den Zeitraum, den dir das Finanzamt vorgibt.
+          </p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground">Keine Zeiträume in diesem Jahr.</p>
+        ) : (
+          items.map((r) => (
+            <div key={r.period.key} className="p-4 border rounded-lg space-y-3">
+              <div className="flex flex-wrap justify-between items-baseline gap-2">
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold">{r.period.label}</p>
+                  {r.estimated && <Badge variant="outline">vorläufig</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  fällig {formatDateDE(r.period.dueDate)} ·{' '}
+                  <span className="font-medium text-foreground">
+                    {r.vat.payable < 0 ? 'Erstattung ' : ''}
+                    {formatEUR(Math.abs(r.vat.payable))}
+                  </span>
+                </p>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Kz</TableHead>
+                    <TableHead />
+                    <TableHead className="text-right">Bemessungsgrundlage</TableHead>
+                    <TableHead className="text-right">Steuer</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {r.vat.lines.map((l) => (
+                    <TableRow key={l.kz}>
+                      <TableCell className="font-mono">{l.kz}</TableCell>
+                      <TableCell>{l.label}</TableCell>
+                      <TableCell className="text-right">
+                        {l.base == null ? '' : `${l.base.toLocaleString('de-DE')} €`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {l.tax == null ? '' : formatEUR(l.tax)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {r.unclassified.count > 0 && (
+                <p className="text-sm text-amber-600">
+                  {r.unclassified.count} betriebliche Buchungen ({formatEUR(r.unclassified.amount)})
+                  ohne Umsatzsteuer-Angabe –{' '}
+                  <Link href="/transactions" className="underline">
+                    in den Transaktionen zuordnen
+                  </Link>
+                  .
+                </p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
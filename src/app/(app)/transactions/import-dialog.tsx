@@ -0,0 +1,787 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import { Money } from '@/components/money';
+import { apiGet, apiSend } from '@/lib/api';
+import { formatDateDE } from '@/lib/format';
+import { formatEUR } from '@/lib/money';
+import { normalizeIban } from '@/lib/iban';
+import {
+  applyMapping,
+  CSV_BANK_PRESETS,
+  detectPreset,
+  parseCsv,
+  type CsvColumnMapping,
+  type ImportRowResult,
+} from '@/lib/import/csv';
+import { detectStatementFormat } from '@/lib/import/statement';
+import type {
+  BalanceCheck,
+  BankStatement,
+  ImportCounts,
+  ImportRow,
+  ImportRowStatus,
+  StatementChecks,
+} from '@/lib/import/types';
+
+type ImportAccount = { id: string; name: string; iban?: string | null };
+
+type ImportProfile = { id: string; account_id: string; name: string; mapping: CsvColumnMapping };
+
+type StatementItem = Omit<BankStatement, 'rows'> & {
+  accountId: string | null;
+  accountName: string | null;
+  rows: ImportRow[];
+  statuses: ImportRowStatus[] | null;
+  counts: ImportCounts | null;
+  checks: StatementChecks | null;
+};
+
+type CsvDryRun = ImportCounts & { statuses: ImportRowStatus[] };
+
+const STATUS_LABEL: Record<ImportRowStatus, string> = {
+  new: 'Neu',
+  duplicate: 'Duplikat',
+  conflict: 'Konflikt',
+};
+
+const NONE = '__none__';
+const PREVIEW_ROWS = 25;
+
+const EMPTY_MAPPING: CsvColumnMapping = {
+  delimiter: ';',
+  dateFormat: 'DD.MM.YYYY',
+  decimal: 'de',
+  dateColumn: '',
+  amountColumn: '',
+  descriptionColumns: [],
+  counterpartyColumn: null,
+  referenceColumn: null,
+};
+
+// German banks still export Latin-1/Windows-1252 (Sparkasse), newer ones UTF-8.
+async function readStatementFile(file: File) {
+  const buf = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buf);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buf);
+  }
+}
+
+export function TransactionsImportDialog(props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: ImportAccount[];
+  defaultAccountId?: string;
+  onImported: () => void | Promise<void>;
+}) {
+  const { open, onOpenChange, accounts, defaultAccountId, onImported } = props;
+
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [statementText, setStatementText] = useState('');
+  const [statements, setStatements] = useState<StatementItem[] | null>(null);
+  const [accountId, setAccountId] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_MAPPING);
+  const [mappingSource, setMappingSource] = useState<string>('');
+  const [profileName, setProfileName] = useState('');
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [csvCheck, setCsvCheck] = useState<CsvDryRun | null>(null);
+  const [includeConflicts, setIncludeConflicts] = useState(false);
+  const [result, setResult] = useState<ImportCounts | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setText('');
+    setStatementText('');
+    setStatements(null);
+    setMapping(EMPTY_MAPPING);
+    setMappingSource('');
+    setCsvCheck(null);
+    setIncludeConflicts(false);
+    setResult(null);
+    setError(null);
+    setAccountId(defaultAccountId || accounts[0]?.id || '');
+  }, [open, defaultAccountId, accounts]);
+
+  // a saved profile for the account wins over the detected bank preset
+  useEffect(() => {
+    if (!open || !accountId || !text) return;
+    let cancelled = false;
+    apiGet<{ items: ImportProfile[] }>(`/api/import/profiles?accountId=${accountId}`)
+      .then((r) => {
+        if (cancelled || !r.items[0]) return;
+        setMapping(r.items[0].mapping);
+        setMappingSource(`Profil „${r.items[0].name}“`);
+        setProfileName(r.items[0].name);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [open, accountId, text]);
+
+  // CAMT/MT940 are parsed server-side; the dry run returns rows + balance checks
+  useEffect(() => {
+    if (!open || !statementText) return;
+    let cancelled = false;
+    apiSend<{ items: StatementItem[] }>('/api/transactions/import/statement', {
+      method: 'POST',
+      body: JSON.stringify({
+        content: statementText,
+        dryRun: true,
+        includeConflicts,
+        accountId: accountId || undefined,
+      }),
+    })
+      .then((r) => {
+        if (!cancelled) setStatements(r.items);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) setError('Kontoauszug konnte nicht gelesen werden.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, statementText, accountId, includeConflicts]);
+
+  const table = useMemo(
+    () => (text ? parseCsv(text, mapping.delimiter, mapping.dateColumn || undefined) : null),
+    [text, mapping.delimiter, mapping.dateColumn],
+  );
+
+  const results = useMemo(() => (table ? applyMapping(table, mapping) : []), [table, mapping]);
+  const validRows = useMemo(
+    () => results.flatMap((r) => (r.ok ? [r.row] : [])) as ImportRow[],
+    [results],
+  );
+  const invalid = results.filter((r) => !r.ok);
+
+  // flag rows that are already booked (re-import, overlapping date ranges)
+  useEffect(() => {
+    setCsvCheck(null);
+    if (!open || !accountId || !validRows.length) return;
+    let cancelled = false;
+    apiSend<CsvDryRun>('/api/transactions/import', {
+      method: 'POST',
+      body: JSON.stringify({ accountId, source: 'csv', rows: validRows, dryRun: true }),
+    })
+      .then((r) => {
+        if (!cancelled) setCsvCheck(r);
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [open, accountId, validRows]);
+
+  async function onFile(file: File | undefined) {
+    setError(null);
+    if (!file) return;
+
+    const content = await readStatementFile(file);
+    setFileName(file.name);
+
+    if (detectStatementFormat(content)) {
+      setText('');
+      setStatements(null);
+      setStatementText(content);
+      return;
+    }
+
+    setStatementText('');
+    setStatements(null);
+    const preset = detectPreset(content);
+    const base = preset?.mapping ?? EMPTY_MAPPING;
+    const parsed = parseCsv(content, base.delimiter, base.dateColumn || undefined);
+
+    setMapping(base);
+    setMappingSource(preset ? preset.label : '');
+    setProfileName(preset ? preset.label : file.name);
+
+    // statement names its account -> preselect it
+    if (parsed.iban) {
+      const match = accounts.find((a) => a.iban && normalizeIban(a.iban) === parsed.iban);
+      if (match) setAccountId(match.id);
+    }
+
+    setText(content);
+  }
+
+  function patchMapping(patch: Partial<CsvColumnMapping>) {
+    setMapping((m) => ({ ...m, ...patch }));
+  }
+
+  function toggleDescriptionColumn(name: string, on: boolean) {
+    setMapping((m) => ({
+      ...m,
+      descriptionColumns: on
+        ? [...m.descriptionColumns, name]
+        : m.descriptionColumns.filter((c) => c !== name),
+    }));
+  }
+
+  async function onImportStatement() {
+    setSaving(true);
+    setError(null);
+    try {
+      const r = await apiSend<ImportCounts>('/api/transactions/import/statement', {
+        method: 'POST',
+        body: JSON.stringify({
+          content: statementText,
+          dryRun: false,
+          includeConflicts,
+          accountId: accountId || undefined,
+        }),
+      });
+      setResult({
+        created: r.created,
+        skipped: r.skipped,
+        conflicting: r.conflicting,
+        invoicesLinked: r.invoicesLinked,
+        taxPaymentsLinked: r.taxPaymentsLinked,
+      });
+      await onImported();
+    } catch (e) {
+      console.error(e);
+      setError('Import fehlgeschlagen.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onImport() {
+    if (statementText) return onImportStatement();
+    if (!accountId || !validRows.length) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const r = await apiSend<ImportCounts>('/api/transactions/import', {
+        method: 'POST',
+        body: JSON.stringify({ accountId, source: 'csv', rows: validRows, includeConflicts }),
+      });
+
+      if (saveProfile) {
+        await apiSend('/api/import/profiles', {
+          method: 'POST',
+          body: JSON.stringify({
+            accountId,
+            name: profileName || fileName,
+            mapping,
+          }),
+        });
+      }
+
+      setResult({
+        created: r.created,
+        skipped: r.skipped,
+        conflicting: r.conflicting,
+        invoicesLinked: r.invoicesLinked,
+        taxPaymentsLinked: r.taxPaymentsLinked,
+      });
+      await onImported();
+    } catch (e) {
+      console.error(e);
+      setError('Import fehlgeschlagen.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const headers = table?.headers ?? [];
+  const mappingComplete = !!mapping.dateColumn && !!mapping.amountColumn;
+
+  const counts: ImportCounts | null = statementText
+    ? statements && statements.every((s) => s.counts)
+      ? statements.reduce(
+          (acc, s) => ({
+            created: acc.created + (s.counts?.created ?? 0),
+            skipped: acc.skipped + (s.counts?.skipped ?? 0),
+            conflicting: acc.conflicting + (s.counts?.conflicting ?? 0),
+          }),
+          { created: 0, skipped: 0, conflicting: 0 },
+        )
+      : null
+    : csvCheck
+      ? importCountsOf(csvCheck, includeConflicts)
+      : null;
+
+  const canImport = statementText
+    ? !!statements?.length && statements.every((s) => s.accountId) && !!counts?.created
+    : !!accountId && mappingComplete && !!counts?.created;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Kontoauszug importieren</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label>Datei</Label>
+              <Input
+                type="file"
+                accept=".csv,.xml,.sta,.mt940,.txt,text/csv,text/xml"
+                onChange={(e) => onFile(e.target.files?.[0]).catch(console.error)}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Konto</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Konto wählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {statementText ? (
+            statements ? (
+              statements.map((s, i) => <StatementPreview key={i} statement={s} />)
+            ) : (
+              <p className="text-sm text-muted-foreground">Lese Kontoauszug…</p>
+            )
+          ) : table ? (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span>{fileName}</span>
+                {mappingSource ? <Badge variant="secondary">{mappingSource}</Badge> : null}
+                {table.iban ? <Badge variant="outline">{table.iban}</Badge> : null}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-4">
+                <div className="grid gap-2">
+                  <Label>Vorlage</Label>
+                  <Select
+                    value=""
+                    onValueChange={(id) => {
+                      const preset = CSV_BANK_PRESETS.find((p) => p.id === id);
+                      if (!preset) return;
+                      setMapping(preset.mapping);
+                      setMappingSource(preset.label);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Bank wählen" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CSV_BANK_PRESETS.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label>Trennzeichen</Label>
+                  <Select
+                    value={mapping.delimiter}
+                    onValueChange={(v) =>
+                      patchMapping({ delimiter: v as CsvColumnMapping['delimiter'] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=";">Semikolon (;)</SelectItem>
+                      <SelectItem value=",">Komma (,)</SelectItem>
+                      <SelectItem value={'\t'}>Tab</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label>Datumsformat</Label>
+                  <Select
+                    value={mapping.dateFormat}
+                    onValueChange={(v) =>
+                      patchMapping({ dateFormat: v as CsvColumnMapping['dateFormat'] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="DD.MM.YYYY">TT.MM.JJJJ</SelectItem>
+                      <SelectItem value="YYYY-MM-DD">JJJJ-MM-TT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label>Zahlenformat</Label>
+                  <Select
+                    value={mapping.decimal}
+                    onValueChange={(v) =>
+                      patchMapping({ decimal: v as CsvColumnMapping['decimal'] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="de">1.234,56</SelectItem>
+                      <SelectItem value="en">1234.56</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-4">
+                <ColumnSelect
+                  label="Datum"
+                  headers={headers}
+                  value={mapping.dateColumn || null}
+                  onChange={(v) => patchMapping({ dateColumn: v ?? '' })}
+                />
+                <ColumnSelect
+                  label="Betrag"
+                  headers={headers}
+                  value={mapping.amountColumn || null}
+                  onChange={(v) => patchMapping({ amountColumn: v ?? '' })}
+                />
+                <ColumnSelect
+                  label="Gegenpartei"
+                  headers={headers}
+                  value={mapping.counterpartyColumn}
+                  onChange={(v) => patchMapping({ counterpartyColumn: v })}
+                  optional
+                />
+                <ColumnSelect
+                  label="Referenz"
+                  headers={headers}
+                  value={mapping.referenceColumn}
+                  onChange={(v) => patchMapping({ referenceColumn: v })}
+                  optional
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Verwendungszweck</Label>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {headers.map((h) => (
+                    <label key={h} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={mapping.descriptionColumns.includes(h)}
+                        onCheckedChange={(v) => toggleDescriptionColumn(h, v === true)}
+                      />
+                      {h}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="secondary">{validRows.length} Buchungen</Badge>
+                {invalid.length ? (
+                  <Badge variant="destructive">{invalid.length} fehlerhaft</Badge>
+                ) : null}
+                <span className="text-muted-foreground">
+                  Summe <Money value={validRows.reduce((s, r) => s + r.amount, 0)} />
+                </span>
+              </div>
+
+              <RowsPreview results={results} statuses={csvCheck?.statuses ?? null} />
+
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={saveProfile}
+                  onCheckedChange={(v) => setSaveProfile(v === true)}
+                />
+                Zuordnung als Profil für dieses Konto speichern
+              </label>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              CSV-Export, CAMT.053 (XML) oder MT940 deiner Bank wählen. CSV von Sparkasse, DKB, ING
+              und N26 wird automatisch erkannt.
+            </p>
+          )}
+
+          {counts && !result ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <CountsBadges counts={counts} />
+              {counts.conflicting ? (
+                <label className="flex items-center gap-2">
+                  <Checkbox
+                    checked={includeConflicts}
+                    onCheckedChange={(v) => setIncludeConflicts(v === true)}
+                  />
+                  Konflikte trotzdem importieren
+                </label>
+              ) : null}
+            </div>
+          ) : null}
+
+          {result ? (
+            <div className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm">
+              <span>Import abgeschlossen:</span>
+              <CountsBadges counts={result} done />
+            </div>
+          ) : null}
+
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        </div>
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>Schließen</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => onImport().catch(console.error)}
+                disabled={saving || !canImport}
+              >
+                {saving ? 'Importiere…' : `${counts?.created ?? 0} Buchungen importieren`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ColumnSelect(props: {
+  label: string;
+  headers: string[];
+  value: string | null;
+  onChange: (v: string | null) => void;
+  optional?: boolean;
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label>{props.label}</Label>
+      <Select
+        value={props.value ?? (props.optional ? NONE : '')}
+        onValueChange={(v) => props.onChange(v === NONE ? null : v)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Spalte wählen" />
+        </SelectTrigger>
+        <SelectContent>
+          {props.optional ? <SelectItem value={NONE}>—</SelectItem> : null}
+          {props.headers
+            .filter((h) => h)
+            .map((h) => (
+              <SelectItem key={h} value={h}>
+                {h}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function importCountsOf(check: CsvDryRun, includeConflicts: boolean): ImportCounts {
+  // the dry run is requested without conflicts; booking them is decided here
+  return {
+    created: check.created + (includeConflicts ? check.conflicting : 0),
+    skipped: check.skipped,
+    conflicting: check.conflicting,
+  };
+}
+
+function CountsBadges(props: { counts: ImportCounts; done?: boolean }) {
+  const { counts, done } = props;
+  return (
+    <>
+      <Badge variant="secondary">
+        {counts.created} {done ? 'angelegt' : 'neu'}
+      </Badge>
+      {counts.skipped ? (
+        <Badge variant="outline">{counts.skipped} Duplikate übersprungen</Badge>
+      ) : null}
+      {counts.conflicting ? (
+        <Badge variant="destructive">{counts.conflicting} Konflikte</Badge>
+      ) : null}
+      {counts.invoicesLinked ? (
+        <Badge variant="secondary">{counts.invoicesLinked} Rechnungen zugeordnet</Badge>
+      ) : null}
+      {counts.taxPaymentsLinked ? (
+        <Badge variant="secondary">{counts.taxPaymentsLinked} Steuerzahlungen zugeordnet</Badge>
+      ) : null}
+    </>
+  );
+}
+
+function StatusBadge(props: { status: ImportRowStatus | undefined }) {
+  const { status } = props;
+  if (!status) return null;
+  const variant =
+    status === 'conflict' ? 'destructive' : status === 'duplicate' ? 'outline' : 'secondary';
+  return <Badge variant={variant}>{STATUS_LABEL[status]}</Badge>;
+}
+
+// statuses are aligned with the valid (ok) rows only
+function RowsPreview(props: { results: ImportRowResult[]; statuses: ImportRowStatus[] | null }) {
+  const { results, statuses } = props;
+  let n = 0;
+  const okIndex = results.map((r) => (r.ok ? n++ : -1));
+
+  return (
+    <>
+      <div className="max-h-80 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Datum</TableHead>
+              <TableHead>Gegenpartei</TableHead>
+              <TableHead>Verwendungszweck</TableHead>
+              <TableHead className="text-right">Betrag</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.slice(0, PREVIEW_ROWS).map((r, i) =>
+              r.ok ? (
+                <TableRow key={i}>
+                  <TableCell className="whitespace-nowrap">{formatDateDE(r.row.txDate)}</TableCell>
+                  <TableCell>{r.row.counterparty ?? '—'}</TableCell>
+                  <TableCell className="max-w-md truncate">{r.row.remittanceInfo ?? '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Money value={r.row.amount} />
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={statuses?.[okIndex[i]]} />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={i}>
+                  <TableCell colSpan={5} className="text-destructive">
+                    Zeile {r.line}: {r.error}
+                  </TableCell>
+                </TableRow>
+              ),
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {results.length > PREVIEW_ROWS ? (
+        <p className="text-xs text-muted-foreground">
+          Vorschau zeigt {PREVIEW_ROWS} von {results.length} Zeilen.
+        </p>
+      ) : null}
+    </>
+  );
+}
+
+function BalanceBadge(props: { label: string; check: BalanceCheck | null }) {
+  const { label, check } = props;
+  if (!check) return null;
+  if (check.ok) {
+    return (
+      <Badge variant="secondary">
+        {label} {formatDateDE(check.asOf)} stimmt
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="destructive">
+      {label} {formatDateDE(check.asOf)}: Abweichung {formatEUR(check.difference)}
+    </Badge>
+  );
+}
+
+function StatementPreview(props: { statement: StatementItem }) {
+  const s = props.statement;
+  const sum = s.rows.reduce((acc, r) => acc + r.amount, 0);
+
+  return (
+    <div className="grid gap-3 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="outline">{s.format === 'camt053' ? 'CAMT.053' : 'MT940'}</Badge>
+        <span className="text-muted-foreground">{s.iban ?? 'ohne IBAN'}</span>
+        {s.accountName ? (
+          <Badge variant="secondary">{s.accountName}</Badge>
+        ) : (
+          <Badge variant="destructive">Kein Konto mit dieser IBAN</Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="secondary">{s.rows.length} Buchungen</Badge>
+        <span className="text-muted-foreground">
+          Summe <Money value={sum} />
+        </span>
+        {s.opening ? (
+          <span className="text-muted-foreground">
+            Anfangssaldo <Money value={s.opening.amount} />
+          </span>
+        ) : null}
+        {s.closing ? (
+          <span className="text-muted-foreground">
+            Endsaldo <Money value={s.closing.amount} />
+          </span>
+        ) : null}
+      </div>
+
+      {s.checks ? (
+        <div className="flex flex-wrap items-center gap-2">
+          {s.checks.consistent === false ? (
+            <Badge variant="destructive">
+              Auszug unvollständig (Salden passen nicht zu Buchungen)
+            </Badge>
+          ) : null}
+          <BalanceBadge label="Anfangssaldo" check={s.checks.opening} />
+          <BalanceBadge label="Endsaldo" check={s.checks.closing} />
+        </div>
+      ) : null}
+
+      <RowsPreview
+        results={s.rows.map((row) => ({ ok: true as const, row }))}
+        statuses={s.statuses}
+      />
+    </div>
+  );
+}
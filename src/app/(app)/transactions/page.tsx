@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
@@ -29,8 +30,17 @@ import { ConfirmDeleteDialog } from "@/components/confirm-delete-dialog"
 
 import { formatDateDE } from "@/lib/format"
 import { toDateOnlyInput, formatDateOnly } from "@/lib/date-only"
+import { VAT_CODE_LABEL, VAT_CODES, type VatCode } from "@/lib/tax/vat"
 
-type Account = { id: string; name: string; type: "PRIVATE" | "BUSINESS" | "TAX"; color?: string }
+import { TransactionsImportDialog } from "./import-dialog"
+
+type Account = {
+  id: string
+  name: string
+  type: "PRIVATE" | "BUSINESS" | "TAX"
+  color?: string
+  iban?: string | null
+}
 
 type BudgetPick = {
   id: string
@@ -52,6 +62,7 @@ type TxItem = {
   amount: number
   is_business: boolean
   is_tax_relevant: boolean
+  vat_code: VatCode | null
 
   account_id: string | null
   account_name: string | null
@@ -81,6 +92,8 @@ const NormalFormSchema = z.object({
   amountAbs: AmountAbsSchema,
   isBusiness: z.boolean().default(false),
   isTaxRelevant: z.boolean().default(false),
+  // business only; NONE = no VAT assigned
+  vatCode: z.enum(["NONE", ...VAT_CODES]).default("NONE"),
 })
 
 type NormalFormValues = z.output<typeof NormalFormSchema>
@@ -129,6 +142,9 @@ export default function TransactionsPage() {
   const [createOpen, setCreateOpen] = useState(false)
   const [tab, setTab] = useState<"NORMAL" | "TRANSFER">("NORMAL")
 
+  // import dialog
+  const [importOpen, setImportOpen] = useState(false)
+
   // edit dialog
   const [editOpen, setEditOpen] = useState(false)
   const [selectedTx, setSelectedTx] = useState<TxItem | null>(null)
@@ -150,6 +166,7 @@ export default function TransactionsPage() {
       amountAbs: "20",
       isBusiness: false,
       isTaxRelevant: false,
+      vatCode: "NONE",
     },
   })
 
@@ -177,6 +194,7 @@ export default function TransactionsPage() {
       amountAbs: "20",
       isBusiness: false,
       isTaxRelevant: false,
+      vatCode: "NONE",
     },
   })
 
@@ -240,6 +258,7 @@ export default function TransactionsPage() {
     createNormalForm.setValue("amountAbs", "20")
     createNormalForm.setValue("isBusiness", false)
     createNormalForm.setValue("isTaxRelevant", false)
+    createNormalForm.setValue("vatCode", "NONE")
 
     createTransferForm.setValue("txDate", todayISO())
     createTransferForm.setValue("description", "")
@@ -279,6 +298,7 @@ export default function TransactionsPage() {
             tags: [],
             isBusiness: v.isBusiness,
             isTaxRelevant: v.isTaxRelevant,
+            vatCode: v.isBusiness && v.vatCode !== "NONE" ? v.vatCode : null,
             txDate: v.txDate,
           }
 
@@ -340,6 +360,7 @@ export default function TransactionsPage() {
       amountAbs: String(Math.abs(amountN || 0)),
       isBusiness: !!t.is_business,
       isTaxRelevant: !!t.is_tax_relevant,
+      vatCode: t.vat_code ?? "NONE",
     })
     setEditOpen(true)
   }
@@ -357,6 +378,7 @@ export default function TransactionsPage() {
           category: v.category || null,
           isBusiness: v.isBusiness,
           isTaxRelevant: v.isTaxRelevant,
+          vatCode: v.isBusiness && v.vatCode !== "NONE" ? v.vatCode : null,
           txDate: v.txDate,
         }
 
@@ -407,6 +429,12 @@ export default function TransactionsPage() {
             <Button variant="outline" onClick={() => { setBudgetDialogOpen(true) }}>
               Aus Budget
             </Button>
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              Importieren
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/transactions/rules">Regeln</Link>
+            </Button>
             <Button onClick={() => openCreate("NORMAL")}>
               Hinzufügen
             </Button>
@@ -414,6 +442,14 @@ export default function TransactionsPage() {
         }
       />
 
+      <TransactionsImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        accounts={accounts}
+        defaultAccountId={accountFilter !== ALL ? accountFilter : undefined}
+        onImported={load}
+      />
+
       {/* Budget template dialog */}
       <Dialog open={budgetDialogOpen} onOpenChange={setBudgetDialogOpen}>
         <DialogContent>
@@ -563,6 +599,24 @@ export default function TransactionsPage() {
                       <Label htmlFor="create-tx-tax" className="text-sm">Steuerrelevant</Label>
                     </div>
                   </div>
+
+                  {createNormalForm.watch("isBusiness") ? (
+                    <div className="space-y-1">
+                      <Label>Umsatzsteuer</Label>
+                      <Select
+                        value={createNormalForm.watch("vatCode")}
+                        onValueChange={(v) => createNormalForm.setValue("vatCode", v as VatCode | "NONE", { shouldValidate: true })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="NONE">Keine Angabe</SelectItem>
+                          {VAT_CODES.map((c) => (
+                            <SelectItem key={c} value={c}>{VAT_CODE_LABEL[c]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : null}
                 </>
               ) : (
                 <>
@@ -717,6 +771,24 @@ export default function TransactionsPage() {
                 <Label htmlFor="edit-tx-tax" className="text-sm">Steuerrelevant</Label>
               </div>
             </div>
+
+            {editNormalForm.watch("isBusiness") ? (
+              <div className="space-y-1">
+                <Label>Umsatzsteuer</Label>
+                <Select
+                  value={editNormalForm.watch("vatCode")}
+                  onValueChange={(v) => editNormalForm.setValue("vatCode", v as VatCode | "NONE", { shouldValidate: true })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NONE">Keine Angabe</SelectItem>
+                    {VAT_CODES.map((c) => (
+                      <SelectItem key={c} value={c}>{VAT_CODE_LABEL[c]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : null}
           </div>
 
           <DialogFooter>
@@ -838,6 +910,7 @@ export default function TransactionsPage() {
                         <div className="flex flex-wrap gap-2">
                           <Badge variant="outline">{t.is_business ? "Business" : "Privat"}</Badge>
                           {t.is_tax_relevant ? <Badge variant="outline">Steuer</Badge> : null}
+                          {t.vat_code ? <Badge variant="outline">USt {VAT_CODE_LABEL[t.vat_code]}</Badge> : null}
                         </div>
                       </TableCell>
 
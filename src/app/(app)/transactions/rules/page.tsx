@@ -0,0 +1,654 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { z } from "zod"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { PageHeader } from "@/components/page-header"
+import { SectionCard } from "@/components/section-card"
+import { Money } from "@/components/money"
+import { RowActions } from "@/components/row-actions"
+import { ConfirmDeleteDialog } from "@/components/confirm-delete-dialog"
+
+import { apiGet, apiSend } from "@/lib/api"
+import { formatDateDE } from "@/lib/format"
+import { parseMoneyDE } from "@/lib/money"
+import type { RuleActions, RuleConditions } from "@/lib/categorization/rules"
+import type { CategoryChange, CategoryChangeFields } from "@/lib/categorization/store"
+import { VAT_CODE_LABEL, VAT_CODES } from "@/lib/tax/vat"
+
+type Account = { id: string; name: string }
+
+type Rule = {
+  id: string
+  name: string
+  priority: number
+  enabled: boolean
+  conditions: RuleConditions
+  actions: RuleActions
+}
+
+const ANY = "ANY"
+
+const MoneyOptional = z
+  .string()
+  .optional()
+  .transform((s) => (s && s.trim() ? parseMoneyDE(s) : null))
+  .refine((n) => n == null || Number.isFinite(n), "Ungültiger Betrag")
+
+// tri-state flags: ANY = rule leaves the flag alone
+const FlagAction = z.enum([ANY, "YES", "NO"]).transform((v) => (v === ANY ? null : v === "YES"))
+
+const RuleFormSchema = z.object({
+  name: z.string().trim().min(1, "Pflichtfeld"),
+  priority: z
+    .string()
+    .transform((s) => Number(s))
+    .refine((n) => Number.isInteger(n) && n >= 0 && n <= 10000, "Priorität 0–10000"),
+  descriptionContains: z.string().optional(),
+  counterpartyContains: z.string().optional(),
+  amountEquals: MoneyOptional,
+  amountMin: MoneyOptional,
+  amountMax: MoneyOptional,
+  direction: z.enum([ANY, "EXPENSE", "INCOME"]).transform((v) => (v === ANY ? null : v)),
+  accountId: z.string().transform((v) => (v === ANY ? null : v)),
+  category: z.string().optional(),
+  tags: z
+    .string()
+    .optional()
+    .transform((s) => (s ?? "").split(",").map((t) => t.trim()).filter(Boolean)),
+  isBusiness: FlagAction,
+  isTaxRelevant: FlagAction,
+  vatCode: z.enum([ANY, ...VAT_CODES]).transform((v) => (v === ANY ? null : v)),
+})
+
+type RuleFormInput = z.input<typeof RuleFormSchema>
+type RuleFormOutput = z.output<typeof RuleFormSchema>
+
+const EMPTY_FORM: RuleFormInput = {
+  name: "",
+  priority: "100",
+  descriptionContains: "",
+  counterpartyContains: "",
+  amountEquals: "",
+  amountMin: "",
+  amountMax: "",
+  direction: ANY,
+  accountId: ANY,
+  category: "",
+  tags: "",
+  isBusiness: ANY,
+  isTaxRelevant: ANY,
+  vatCode: ANY,
+}
+
+function amountInput(n: number | null) {
+  return n === null ? "" : String(n).replace(".", ",")
+}
+
+function flagInput(v: boolean | null) {
+  return v === null ? ANY : v ? "YES" : "NO"
+}
+
+function toFormValues(r: Rule): RuleFormInput {
+  const c = r.conditions
+  const a = r.actions
+  return {
+    name: r.name,
+    priority: String(r.priority),
+    descriptionContains: c.descriptionContains ?? "",
+    counterpartyContains: c.counterpartyContains ?? "",
+    amountEquals: amountInput(c.amountEquals),
+    amountMin: amountInput(c.amountMin),
+    amountMax: amountInput(c.amountMax),
+    direction: c.direction ?? ANY,
+    accountId: c.accountId ?? ANY,
+    category: a.category ?? "",
+    tags: a.tags.join(", "),
+    isBusiness: flagInput(a.isBusiness),
+    isTaxRelevant: flagInput(a.isTaxRelevant),
+    vatCode: a.vatCode ?? ANY,
+  }
+}
+
+function toPayload(v: RuleFormOutput) {
+  return {
+    name: v.name,
+    priority: v.priority,
+    conditions: {
+      descriptionContains: v.descriptionContains,
+      counterpartyContains: v.counterpartyContains,
+      amountEquals: v.amountEquals,
+      amountMin: v.amountMin,
+      amountMax: v.amountMax,
+      direction: v.direction,
+      accountId: v.accountId,
+    },
+    actions: {
+      category: v.category,
+      tags: v.tags,
+      isBusiness: v.isBusiness,
+      isTaxRelevant: v.isTaxRelevant,
+      vatCode: v.vatCode,
+    },
+  }
+}
+
+function conditionLabels(c: RuleConditions, accounts: Account[]) {
+  const out: string[] = []
+  if (c.descriptionContains) out.push(`Text enthält „${c.descriptionContains}“`)
+  if (c.counterpartyContains) out.push(`Gegenpartei enthält „${c.counterpartyContains}“`)
+  if (c.amountEquals !== null) out.push(`Betrag = ${amountInput(c.amountEquals)}`)
+  if (c.amountMin !== null) out.push(`Betrag ≥ ${amountInput(c.amountMin)}`)
+  if (c.amountMax !== null) out.push(`Betrag ≤ ${amountInput(c.amountMax)}`)
+  if (c.direction) out.push(c.direction === "EXPENSE" ? "Ausgabe" : "Einnahme")
+  if (c.accountId) out.push(`Konto ${accounts.find((a) => a.id === c.accountId)?.name ?? "?"}`)
+  return out
+}
+
+function actionLabels(a: RuleActions) {
+  const out: string[] = []
+  if (a.category) out.push(a.category)
+  for (const t of a.tags) out.push(`#${t}`)
+  if (a.isBusiness !== null) out.push(a.isBusiness ? "Business" : "Privat")
+  if (a.isTaxRelevant !== null) out.push(a.isTaxRelevant ? "Steuerrelevant" : "Nicht steuerrelevant")
+  if (a.vatCode) out.push(`USt ${VAT_CODE_LABEL[a.vatCode]}`)
+  return out
+}
+
+function fieldsLabel(f: CategoryChangeFields) {
+  const parts = [f.category ?? "—", ...f.tags.map((t) => `#${t}`)]
+  if (f.isBusiness) parts.push("Business")
+  if (f.isTaxRelevant) parts.push("Steuer")
+  return parts.join(" · ")
+}
+
+export default function CategoryRulesPage() {
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [items, setItems] = useState<Rule[]>([])
+
+  // create / edit
+  const [formOpen, setFormOpen] = useState(false)
+  const [selected, setSelected] = useState<Rule | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // delete
+  const [deleteOpen, setDeleteOpen] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  // re-apply
+  const [applyOpen, setApplyOpen] = useState(false)
+  const [overwrite, setOverwrite] = useState(false)
+  const [changes, setChanges] = useState<CategoryChange[] | null>(null)
+  const [applying, setApplying] = useState(false)
+  const [applied, setApplied] = useState<number | null>(null)
+
+  const form = useForm<RuleFormInput>({
+    resolver: zodResolver(RuleFormSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  async function load() {
+    const [a, r] = await Promise.all([
+      apiGet<{ items: Account[] }>("/api/accounts"),
+      apiGet<{ items: Rule[] }>("/api/category-rules"),
+    ])
+    setAccounts(a.items ?? [])
+    setItems(r.items ?? [])
+  }
+
+  useEffect(() => {
+    load().catch(console.error)
+  }, [])
+
+  useEffect(() => {
+    if (!applyOpen) return
+    let cancelled = false
+    setChanges(null)
+    apiSend<{ items: CategoryChange[] }>("/api/category-rules/apply", {
+      method: "POST",
+      body: JSON.stringify({ dryRun: true, overwrite }),
+    })
+      .then((r) => {
+        if (!cancelled) setChanges(r.items)
+      })
+      .catch(console.error)
+    return () => {
+      cancelled = true
+    }
+  }, [applyOpen, overwrite])
+
+  function openCreate() {
+    setSelected(null)
+    form.reset(EMPTY_FORM)
+    setFormOpen(true)
+  }
+
+  function openEdit(r: Rule) {
+    setSelected(r)
+    form.reset(toFormValues(r))
+    setFormOpen(true)
+  }
+
+  async function onSave(values: RuleFormInput) {
+    const parsed: RuleFormOutput = RuleFormSchema.parse(values)
+    setSaving(true)
+    try {
+      await apiSend(selected ? `/api/category-rules/${selected.id}` : "/api/category-rules", {
+        method: selected ? "PATCH" : "POST",
+        body: JSON.stringify(toPayload(parsed)),
+      })
+      setFormOpen(false)
+      setSelected(null)
+      await load()
+    } catch (e) {
+      form.setError("root", {
+        message: "Speichern fehlgeschlagen – mindestens eine Bedingung und eine Aktion angeben.",
+      })
+      console.error(e)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggleEnabled(r: Rule, enabled: boolean) {
+    setItems((prev) => prev.map((x) => (x.id === r.id ? { ...x, enabled } : x)))
+    await apiSend(`/api/category-rules/${r.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ enabled }),
+    }).catch(async (e) => {
+      console.error(e)
+      await load()
+    })
+  }
+
+  async function onDeleteConfirm() {
+    if (!selected) return
+    setDeleting(true)
+    try {
+      await apiSend(`/api/category-rules/${selected.id}`, { method: "DELETE" })
+      setDeleteOpen(false)
+      setSelected(null)
+      await load()
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  async function onApply() {
+    setApplying(true)
+    try {
+      const r = await apiSend<{ updated: number }>("/api/category-rules/apply", {
+        method: "POST",
+        body: JSON.stringify({ dryRun: false, overwrite }),
+      })
+      setApplied(r.updated)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  function closeApply(o: boolean) {
+    setApplyOpen(o)
+    if (!o) {
+      setApplied(null)
+      setChanges(null)
+    }
+  }
+
+  const rootError = form.formState.errors.root?.message
+  const errors = form.formState.errors
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Kategorisierungsregeln"
+        description="Regeln setzen Kategorie, Tags und Flags automatisch – beim Anlegen und beim Import."
+        actions={
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/transactions">Zurück</Link>
+            </Button>
+            <Button variant="outline" onClick={() => setApplyOpen(true)} disabled={items.length === 0}>
+              Regeln anwenden
+            </Button>
+            <Button onClick={openCreate}>Neue Regel</Button>
+          </div>
+        }
+      />
+
+      <SectionCard
+        title="Regeln"
+        description="Niedrige Priorität zuerst. Pro Feld gewinnt die erste passende Regel, Tags werden zusammengeführt."
+      >
+        {items.length === 0 ? (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            Noch keine Regeln angelegt.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">Prio</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Wenn</TableHead>
+                <TableHead>Dann</TableHead>
+                <TableHead className="w-[80px]">Aktiv</TableHead>
+                <TableHead className="w-[60px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((r) => (
+                <TableRow key={r.id} className={r.enabled ? undefined : "opacity-60"}>
+                  <TableCell className="tabular-nums">{r.priority}</TableCell>
+                  <TableCell className="font-medium">{r.name}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {conditionLabels(r.conditions, accounts).map((l) => (
+                        <Badge key={l} variant="outline">{l}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {actionLabels(r.actions).map((l) => (
+                        <Badge key={l} variant="secondary">{l}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={r.enabled} onCheckedChange={(v) => toggleEnabled(r, v)} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <RowActions
+                      row={r}
+                      editLabel="Bearbeiten"
+                      deleteLabel="Löschen"
+                      onEdit={openEdit}
+                      onDelete={(row) => {
+                        setSelected(row)
+                        setDeleteOpen(true)
+                      }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </SectionCard>
+
+      {/* Create / edit dialog */}
+      <Dialog
+        open={formOpen}
+        onOpenChange={(o) => {
+          setFormOpen(o)
+          if (!o) setSelected(null)
+        }}
+      >
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selected ? "Regel bearbeiten" : "Neue Regel"}</DialogTitle>
+            <DialogDescription>
+              Alle gesetzten Bedingungen müssen zutreffen. Leere Felder werden ignoriert.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form className="space-y-4" onSubmit={form.handleSubmit(onSave)}>
+            <div className="grid grid-cols-[1fr_120px] gap-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input {...form.register("name")} placeholder="z.B. Miete" />
+                {errors.name ? <p className="text-xs text-destructive">{errors.name.message}</p> : null}
+              </div>
+              <div className="space-y-1">
+                <Label>Priorität</Label>
+                <Input {...form.register("priority")} inputMode="numeric" />
+                {errors.priority ? <p className="text-xs text-destructive">{errors.priority.message}</p> : null}
+              </div>
+            </div>
+
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="text-sm font-medium">Wenn</div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Text enthält</Label>
+                  <Input {...form.register("descriptionContains")} placeholder="Verwendungszweck" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Gegenpartei enthält</Label>
+                  <Input {...form.register("counterpartyContains")} placeholder="z.B. Stadtwerke" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Betrag genau</Label>
+                  <Input {...form.register("amountEquals")} inputMode="decimal" placeholder="-49,99" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Betrag ab</Label>
+                  <Input {...form.register("amountMin")} inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Betrag bis</Label>
+                  <Input {...form.register("amountMax")} inputMode="decimal" />
+                </div>
+              </div>
+              {errors.amountEquals || errors.amountMin || errors.amountMax ? (
+                <p className="text-xs text-destructive">Ungültiger Betrag</p>
+              ) : null}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Richtung</Label>
+                  <Select
+                    value={form.watch("direction")}
+                    onValueChange={(v) => form.setValue("direction", v as RuleFormInput["direction"])}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Egal</SelectItem>
+                      <SelectItem value="EXPENSE">Ausgabe</SelectItem>
+                      <SelectItem value="INCOME">Einnahme</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Konto</Label>
+                  <Select value={form.watch("accountId")} onValueChange={(v) => form.setValue("accountId", v)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Alle Konten</SelectItem>
+                      {accounts.map((a) => (
+                        <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="text-sm font-medium">Dann</div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Kategorie</Label>
+                  <Input {...form.register("category")} placeholder="z.B. Wohnen" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Tags (kommagetrennt)</Label>
+                  <Input {...form.register("tags")} placeholder="fix, monatlich" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <FlagSelect
+                  label="Business"
+                  value={form.watch("isBusiness")}
+                  onChange={(v) => form.setValue("isBusiness", v)}
+                />
+                <FlagSelect
+                  label="Steuerrelevant"
+                  value={form.watch("isTaxRelevant")}
+                  onChange={(v) => form.setValue("isTaxRelevant", v)}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label>Umsatzsteuer</Label>
+                <Select
+                  value={form.watch("vatCode")}
+                  onValueChange={(v) => form.setValue("vatCode", v as RuleFormInput["vatCode"])}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Ohne</SelectItem>
+                    {VAT_CODES.map((c) => (
+                      <SelectItem key={c} value={c}>{VAT_CODE_LABEL[c]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Standard für neue und importierte Buchungen ohne eigenen Steuersatz.
+                </p>
+              </div>
+            </div>
+
+            {rootError ? <p className="text-sm text-destructive">{rootError}</p> : null}
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>Speichern</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Re-apply dialog */}
+      <Dialog open={applyOpen} onOpenChange={closeApply}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Regeln auf bestehende Transaktionen anwenden</DialogTitle>
+            <DialogDescription>
+              Vorschau der Änderungen. Transfers werden nicht verändert.
+            </DialogDescription>
+          </DialogHeader>
+
+          {applied !== null ? (
+            <div className="py-6 text-center text-sm">
+              {applied} Transaktion{applied === 1 ? "" : "en"} aktualisiert.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={overwrite} onCheckedChange={(v) => setOverwrite(v === true)} />
+                Bereits kategorisierte Transaktionen überschreiben
+              </label>
+
+              {changes === null ? (
+                <div className="py-6 text-center text-sm text-muted-foreground">Berechne Vorschau…</div>
+              ) : changes.length === 0 ? (
+                <div className="py-6 text-center text-sm text-muted-foreground">Keine Änderungen.</div>
+              ) : (
+                <div className="max-h-[50vh] overflow-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Datum</TableHead>
+                        <TableHead>Beschreibung</TableHead>
+                        <TableHead className="text-right">Betrag</TableHead>
+                        <TableHead>Vorher</TableHead>
+                        <TableHead>Nachher</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.map((c) => (
+                        <TableRow key={c.id}>
+                          <TableCell className="whitespace-nowrap">{formatDateDE(c.txDate)}</TableCell>
+                          <TableCell>
+                            <div className="max-w-[240px] truncate">{c.description}</div>
+                            {c.accountName ? (
+                              <div className="text-xs text-muted-foreground">{c.accountName}</div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell className="text-right"><Money value={c.amount} /></TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{fieldsLabel(c.before)}</TableCell>
+                          <TableCell className="text-xs">{fieldsLabel(c.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {applied !== null ? (
+              <Button onClick={() => closeApply(false)}>Schließen</Button>
+            ) : (
+              <Button onClick={onApply} disabled={applying || !changes?.length}>
+                {changes?.length ?? 0} Änderungen übernehmen
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDeleteDialog
+        open={deleteOpen}
+        onOpenChange={(o) => {
+          setDeleteOpen(o)
+          if (!o) setSelected(null)
+        }}
+        title="Regel löschen?"
+        description="Bereits kategorisierte Transaktionen bleiben unverändert."
+        loading={deleting}
+        onConfirm={onDeleteConfirm}
+      />
+    </div>
+  )
+}
+
+function FlagSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: RuleFormInput["isBusiness"]
+  onChange: (v: RuleFormInput["isBusiness"]) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as RuleFormInput["isBusiness"])}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Nicht ändern</SelectItem>
+          <SelectItem value="YES">Ja</SelectItem>
+          <SelectItem value="NO">Nein</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireApiUser } from '@/lib/authz';
+import { buildCashflowForecast, FORECAST_MAX_LEAD_MONTHS } from '@/lib/cashflow/forecast';
+import { formatDateOnly } from '@/lib/date-only';
+
+const monthIndex = (ym: string) => {
+  const [y, m] = ym.split('-').map(Number);
+  return y * 12 + m - 1;
+};
+
+const QuerySchema = z.object({
+  from: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .refine(
+      (from) =>
+        monthIndex(from) - monthIndex(formatDateOnly(new Date()).slice(0, 7)) <=
+        FORECAST_MAX_LEAD_MONTHS,
+      'Too far ahead',
+    ),
+  months: z.coerce.number().int().min(1).max(24).default(12),
+});
+
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { searchParams } = new URL(req.url);
+  const parsed = QuerySchema.safeParse({
+    from: searchParams.get('from'),
+    months: searchParams.get('months') ?? undefined,
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const data = await buildCashflowForecast({
+    userId: guard.userId,
+    from: parsed.data.from,
+    months: parsed.data.months,
+  });
+
+  return NextResponse.json(data);
+}
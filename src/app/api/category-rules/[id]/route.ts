@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { RuleActionsSchema, RuleConditionsSchema } from '@/lib/categorization/rules';
+
+const PatchRuleSchema = z.object({
+  name: z.string().min(1).max(120).optional(),
+  priority: z.number().int().min(0).max(10000).optional(),
+  enabled: z.boolean().optional(),
+  conditions: RuleConditionsSchema.optional(),
+  actions: RuleActionsSchema.optional(),
+});
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = PatchRuleSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  let i = 1;
+
+  for (const [k, v] of Object.entries(parsed.data)) {
+    if (v === undefined) continue;
+
+    if (k === 'conditions' || k === 'actions') {
+      fields.push(`${k} = $${i++}::jsonb`);
+      values.push(JSON.stringify(v));
+    } else {
+      fields.push(`${k} = $${i++}`);
+      values.push(v);
+    }
+  }
+
+  if (!fields.length) return NextResponse.json({ ok: true });
+
+  fields.push(`updated_at = now()`);
+  values.push(guard.userId, id);
+
+  const r = await pool.query(
+    `UPDATE category_rules SET ${fields.join(', ')} WHERE user_id = $${i++} AND id = $${i}`,
+    values,
+  );
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const r = await pool.query(`DELETE FROM category_rules WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { previewRuleChanges } from '@/lib/categorization/store';
+
+// Re-apply rules to past transactions. dryRun (default) only lists the changes.
+const ApplyRulesSchema = z.object({
+  dryRun: z.boolean().default(true),
+  overwrite: z.boolean().default(false),
+});
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = ApplyRulesSchema.safeParse(body ?? {});
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const { dryRun, overwrite } = parsed.data;
+
+  if (dryRun) {
+    const items = await previewRuleChanges(pool, guard.userId, { overwrite });
+    return NextResponse.json({ items });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const changes = await previewRuleChanges(client, guard.userId, { overwrite });
+    for (const c of changes) {
+      await client.query(
+        `UPDATE transactions
+         SET category = $3, tags = $4, is_business = $5, is_tax_relevant = $6
+         WHERE user_id = $1 AND id = $2`,
+        [
+          guard.userId,
+          c.id,
+          c.after.category,
+          c.after.tags,
+          c.after.isBusiness,
+          c.after.isTaxRelevant,
+        ],
+      );
+    }
+
+    await client.query('COMMIT');
+    return NextResponse.json({ updated: changes.length });
+  } catch {
+    await client.query('ROLLBACK');
+    return NextResponse.json({ error: 'DB error' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
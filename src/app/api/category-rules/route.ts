@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { RuleActionsSchema, RuleConditionsSchema } from '@/lib/categorization/rules';
+
+const CreateRuleSchema = z.object({
+  name: z.string().min(1).max(120),
+  priority: z.number().int().min(0).max(10000).default(100),
+  enabled: z.boolean().default(true),
+  conditions: RuleConditionsSchema,
+  actions: RuleActionsSchema,
+});
+
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const r = await pool.query(
+    `SELECT id, name, priority, enabled, conditions, actions, created_at, updated_at
+     FROM category_rules
+     WHERE user_id = $1
+     ORDER BY priority ASC, name ASC`,
+    [guard.userId],
+  );
+
+  return NextResponse.json({ items: r.rows });
+}
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = CreateRuleSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const v = parsed.data;
+
+  const r = await pool.query(
+    `INSERT INTO category_rules (user_id, name, priority, enabled, conditions, actions)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb)
+     RETURNING id`,
+    [
+      guard.userId,
+      v.name,
+      v.priority,
+      v.enabled,
+      JSON.stringify(v.conditions),
+      JSON.stringify(v.actions),
+    ],
+  );
+
+  return NextResponse.json({ id: r.rows[0].id }, { status: 201 });
+}
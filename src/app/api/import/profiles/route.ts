@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { normalizeIban } from '@/lib/iban';
+
+const CsvColumnMappingSchema = z.object({
+  delimiter: z.enum([';', ',', '\t']),
+  dateFormat: z.enum(['DD.MM.YYYY', 'YYYY-MM-DD']),
+  decimal: z.enum(['de', 'en']),
+  dateColumn: z.string().min(1).max(120),
+  amountColumn: z.string().min(1).max(120),
+  descriptionColumns: z.array(z.string().min(1).max(120)).max(10),
+  counterpartyColumn: z.string().min(1).max(120).nullable(),
+  referenceColumn: z.string().min(1).max(120).nullable(),
+});
+
+const QuerySchema = z.object({
+  accountId: z.string().uuid().optional(),
+  iban: z.string().min(5).max(40).optional(),
+});
+
+const UpsertProfileSchema = z.object({
+  accountId: z.string().uuid(),
+  name: z.string().min(1).max(120),
+  mapping: CsvColumnMappingSchema,
+});
+
+const SELECT_PROFILE = `
+  p.id,
+  p.account_id,
+  a.name AS account_name,
+  p.iban,
+  p.name,
+  p.mapping,
+  p.created_at,
+  p.updated_at
+`;
+
+// Profiles belong to an account; lookups also match by IBAN so a statement file
+// that names its account finds the right profile before an account is picked.
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const url = new URL(req.url);
+  const parsed = QuerySchema.safeParse({
+    accountId: url.searchParams.get('accountId') ?? undefined,
+    iban: url.searchParams.get('iban') ?? undefined,
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const { accountId, iban } = parsed.data;
+
+  const r = await pool.query(
+    `SELECT ${SELECT_PROFILE}
+     FROM import_profiles p
+     JOIN accounts a ON a.id = p.account_id
+     WHERE p.user_id = $1
+       AND ($2::uuid IS NULL OR p.account_id = $2)
+       AND ($3::text IS NULL OR p.iban = $3)
+     ORDER BY a.name ASC`,
+    [guard.userId, accountId ?? null, iban ? normalizeIban(iban) : null],
+  );
+
+  return NextResponse.json({ items: r.rows });
+}
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = UpsertProfileSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const p = parsed.data;
+
+  const acc = await pool.query(`SELECT iban FROM accounts WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    p.accountId,
+  ]);
+  if (!acc.rowCount)
+    return NextResponse.json({ error: 'Invalid account reference' }, { status: 400 });
+
+  const iban = acc.rows[0].iban ? normalizeIban(acc.rows[0].iban) : null;
+
+  const r = await pool.query(
+    `INSERT INTO import_profiles (user_id, account_id, iban, name, mapping)
+     VALUES ($1, $2, $3, $4, $5::jsonb)
+     ON CONFLICT ON CONSTRAINT import_profiles_user_account_uniq
+     DO UPDATE SET iban = EXCLUDED.iban,
+                   name = EXCLUDED.name,
+                   mapping = EXCLUDED.mapping,
+                   updated_at = now()
+     RETURNING id`,
+    [guard.userId, p.accountId, iban, p.name, JSON.stringify(p.mapping)],
+  );
+
+  return NextResponse.json({ id: r.rows[0].id }, { status: 201 });
+}
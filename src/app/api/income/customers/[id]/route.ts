@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { isValidVatId, normalizeVatId } from '@/lib/customers/customer';
+import { CUSTOMER_COLUMNS, loadCustomer } from '@/lib/customers/store';
+
+const PatchCustomerSchema = z.object({
+  name: z.string().trim().min(1).max(240).optional(),
+  email: z.string().trim().max(240).optional(),
+  street: z.string().trim().max(240).optional(),
+  postalCode: z.string().trim().max(20).optional(),
+  city: z.string().trim().max(120).optional(),
+  country: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2}$/)
+    .transform((s) => s.toUpperCase())
+    .optional(),
+  vatId: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((s) => (s === undefined ? undefined : s && s.trim() ? normalizeVatId(s) : null))
+    .refine((s) => s == null || isValidVatId(s), 'Invalid VAT ID'),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
+  defaultProfileId: z.string().uuid().nullable().optional(),
+  notes: z.string().max(4000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const COLUMN: Record<string, string> = {
+  name: 'name',
+  email: 'email',
+  street: 'street',
+  postalCode: 'postal_code',
+  city: 'city',
+  country: 'country',
+  vatId: 'vat_id',
+  paymentTermsDays: 'payment_terms_days',
+  defaultProfileId: 'default_profile_id',
+  notes: 'notes',
+  isActive: 'is_active',
+};
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const item = await loadCustomer(pool, guard.userId, id);
+  if (!item) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item });
+}
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = PatchCustomerSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  if (parsed.data.defaultProfileId) {
+    const profile = await pool.query(
+      `SELECT 1 FROM income_profiles WHERE user_id = $1 AND id = $2`,
+      [guard.userId, parsed.data.defaultProfileId],
+    );
+    if (profile.rowCount === 0) {
+      return NextResponse.json({ error: 'Invalid profile' }, { status: 400 });
+    }
+  }
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  let i = 1;
+
+  for (const [k, v] of Object.entries(parsed.data)) {
+    if (v === undefined) continue;
+    fields.push(`${COLUMN[k]} = $${i++}`);
+    values.push(v);
+  }
+
+  if (fields.length === 0) return NextResponse.json({ error: 'No changes' }, { status: 400 });
+
+  values.push(guard.userId, id);
+
+  const r = await pool.query(
+    `UPDATE customers
+     SET ${fields.join(', ')}, updated_at = now()
+     WHERE user_id = $${i++} AND id = $${i}
+     RETURNING ${CUSTOMER_COLUMNS}`,
+    values,
+  );
+
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: r.rows[0] });
+}
+
+export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  // invoices keep their customer_name, customer_id is set to NULL
+  const r = await pool.query(`DELETE FROM customers WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
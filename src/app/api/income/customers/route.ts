@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { DEFAULT_PAYMENT_TERMS_DAYS, isValidVatId, normalizeVatId } from '@/lib/customers/customer';
+import { CUSTOMER_COLUMNS } from '@/lib/customers/store';
+
+const CreateCustomerSchema = z.object({
+  name: z.string().trim().min(1).max(240),
+  email: z.string().trim().max(240).default(''),
+  street: z.string().trim().max(240).default(''),
+  postalCode: z.string().trim().max(20).default(''),
+  city: z.string().trim().max(120).default(''),
+  country: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{2}$/)
+    .transform((s) => s.toUpperCase())
+    .default('DE'),
+  vatId: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((s) => (s && s.trim() ? normalizeVatId(s) : null))
+    .refine((s) => s === null || isValidVatId(s), 'Invalid VAT ID'),
+  paymentTermsDays: z.number().int().min(0).max(365).default(DEFAULT_PAYMENT_TERMS_DAYS),
+  defaultProfileId: z.string().uuid().nullable().optional(),
+  notes: z.string().max(4000).default(''),
+  isActive: z.boolean().default(true),
+});
+
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const url = new URL(req.url);
+  const activeOnly = url.searchParams.get('active') === '1';
+
+  const r = await pool.query(
+    `SELECT ${CUSTOMER_COLUMNS}
+     FROM customers
+     WHERE user_id = $1
+       AND ($2::boolean = false OR is_active)
+     ORDER BY lower(name), created_at`,
+    [guard.userId, activeOnly],
+  );
+
+  return NextResponse.json({ items: r.rows });
+}
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = CreateCustomerSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const c = parsed.data;
+
+  if (c.defaultProfileId) {
+    const profile = await pool.query(
+      `SELECT 1 FROM income_profiles WHERE user_id = $1 AND id = $2`,
+      [guard.userId, c.defaultProfileId],
+    );
+    if (profile.rowCount === 0) {
+      return NextResponse.json({ error: 'Invalid profile' }, { status: 400 });
+    }
+  }
+
+  const r = await pool.query(
+    `INSERT INTO customers (
+       user_id, name, email, street, postal_code, city, country,
+       vat_id, payment_terms_days, default_profile_id, notes, is_active
+     )
+     VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+     RETURNING ${CUSTOMER_COLUMNS}`,
+    [
+      guard.userId,
+      c.name,
+      c.email,
+      c.street,
+      c.postalCode,
+      c.city,
+      c.country,
+      c.vatId,
+      c.paymentTermsDays,
+      c.defaultProfileId ?? null,
+      c.notes,
+      c.isActive,
+    ],
+  );
+
+  return NextResponse.json({ item: r.rows[0] }, { status: 201 });
+}
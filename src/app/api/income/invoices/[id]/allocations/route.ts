@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { allocateToInvoice, loadInvoiceAllocations } from '@/lib/invoices/store';
+
+const AllocationSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('payment'),
+    transactionId: z.string().uuid(),
+    amount: z.number().positive(),
+  }),
+  z.object({
+    kind: z.literal('writeoff'),
+    amount: z.number().positive(),
+    allocatedOn: z.string().optional(), // YYYY-MM-DD, default today
+    note: z.string().max(240).optional(),
+  }),
+]);
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const inv = await pool.query(`SELECT 1 FROM invoices WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (inv.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const items = await loadInvoiceAllocations(pool, guard.userId, id);
+
+  return NextResponse.json({ items });
+}
+
+// Link (part of) an existing incoming transaction, or write off a deducted amount
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = AllocationSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const a = parsed.data;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await allocateToInvoice(
+      client,
+      guard.userId,
+      id,
+      a.kind === 'payment'
+        ? { kind: 'payment', transactionId: a.transactionId, amount: a.amount }
+        : {
+            kind: 'writeoff',
+            transactionId: null,
+            amount: a.amount,
+            allocatedOn: a.allocatedOn,
+            note: a.note,
+          },
+    );
+    if (!result.ok) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await client.query('COMMIT');
+
+    const items = await loadInvoiceAllocations(pool, guard.userId, id);
+    const item = items.find((x) => x.id === result.allocationId);
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { eInvoiceIssues } from '@/lib/invoices/document';
+import { renderInvoicePdf } from '@/lib/invoices/pdf';
+import { loadInvoiceDocument } from '@/lib/invoices/store';
+import { renderCii, renderXRechnungUbl } from '@/lib/invoices/xrechnung';
+
+const FORMATS = ['pdf', 'zugferd', 'xrechnung-ubl', 'xrechnung-cii'] as const;
+type Format = (typeof FORMATS)[number];
+
+// GET ?format=pdf|zugferd|xrechnung-ubl|xrechnung-cii, rendered from the snapshot stored on issue
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const url = new URL(req.url);
+  const format = (url.searchParams.get('format') ?? 'pdf') as Format;
+  if (!FORMATS.includes(format))
+    return NextResponse.json({ error: 'Invalid format' }, { status: 400 });
+
+  const doc = await loadInvoiceDocument(pool, guard.userId, id);
+  if (!doc) return NextResponse.json({ error: 'Not issued' }, { status: 404 });
+
+  if (format !== 'pdf') {
+    const issues = eInvoiceIssues(doc);
+    if (issues.length > 0) {
+      return NextResponse.json({ error: 'Incomplete e-invoice data', issues }, { status: 422 });
+    }
+  }
+
+  const base = doc.number.replace(/[^A-Za-z0-9._-]+/g, '_');
+  let body: Buffer | string;
+  let contentType: string;
+  let filename: string;
+  if (format === 'pdf' || format === 'zugferd') {
+    body = renderInvoicePdf(
+      doc,
+      format === 'zugferd' ? { facturX: renderCii(doc, 'zugferd') } : {},
+    );
+    contentType = 'application/pdf';
+    filename = `${base}.pdf`;
+  } else {
+    body = format === 'xrechnung-ubl' ? renderXRechnungUbl(doc) : renderCii(doc, 'xrechnung');
+    contentType = 'application/xml; charset=utf-8';
+    filename = `${base}.xml`;
+  }
+
+  return new NextResponse(new Uint8Array(Buffer.from(body)), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { renderDunningPdf } from '@/lib/invoices/pdf';
+import { loadDunningDocument } from '@/lib/invoices/store';
+
+// PDF of the letter, rendered from the snapshot stored when it was created
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ id: string; dunningId: string }> },
+) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id, dunningId } = await ctx.params;
+
+  const letter = await loadDunningDocument(pool, guard.userId, id, dunningId);
+  if (!letter) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const base = `${letter.invoice.number}_${letter.level}`.replace(/[^A-Za-z0-9._-]+/g, '_');
+
+  return new NextResponse(new Uint8Array(renderDunningPdf(letter)), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${base}.pdf"`,
+    },
+  });
+}
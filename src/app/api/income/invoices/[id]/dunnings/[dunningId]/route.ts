@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { removeDunning } from '@/lib/invoices/store';
+
+// Only the latest letter can be removed
+export async function DELETE(
+  _req: Request,
+  ctx: { params: Promise<{ id: string; dunningId: string }> },
+) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id, dunningId } = await ctx.params;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const removed = await removeDunning(client, guard.userId, id, dunningId);
+    if (!removed) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    await client.query('COMMIT');
+
+    return NextResponse.json({ ok: true });
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { DUNNING_LEVELS } from '@/lib/invoices/dunning';
+import { createDunning, loadInvoiceDunnings, loadNextDunning } from '@/lib/invoices/store';
+
+const CreateDunningSchema = z.object({
+  // default: the next level after the letters sent so far
+  level: z.enum(DUNNING_LEVELS).optional(),
+});
+
+// Dunning history of the invoice and the next level with its due day
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const exists = await pool.query(`SELECT 1 FROM invoices WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (exists.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const [items, next] = await Promise.all([
+    loadInvoiceDunnings(pool, guard.userId, id),
+    loadNextDunning(pool, guard.userId, id, formatDateOnly(new Date())),
+  ]);
+
+  return NextResponse.json({ items, next });
+}
+
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = CreateDunningSchema.safeParse(body ?? {});
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await createDunning(
+      client,
+      guard.userId,
+      id,
+      formatDateOnly(new Date()),
+      parsed.data.level,
+    );
+    if (!result.ok) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await client.query('COMMIT');
+
+    return NextResponse.json({ item: result.item }, { status: 201 });
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { eInvoiceIssues } from '@/lib/invoices/document';
+import { issueInvoice } from '@/lib/invoices/store';
+
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  // number allocation and status change in one transaction
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await issueInvoice(client, guard.userId, id, formatDateOnly(new Date()));
+    if (!result.ok) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await client.query('COMMIT');
+
+    return NextResponse.json(
+      {
+        number: result.number,
+        document: result.document,
+        eInvoiceIssues: eInvoiceIssues(result.document),
+      },
+      { status: 201 },
+    );
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { InvoiceLineSchema } from '@/lib/invoices/document';
+import { loadInvoiceItems, replaceInvoiceItems } from '@/lib/invoices/store';
+
+const PutItemsSchema = z.object({
+  items: z.array(InvoiceLineSchema).max(200),
+});
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const inv = await pool.query(`SELECT 1 FROM invoices WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (inv.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const items = await loadInvoiceItems(pool, guard.userId, id);
+
+  return NextResponse.json({ items });
+}
+
+export async function PUT(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = PutItemsSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const inv = await client.query(
+      `SELECT invoice_number FROM invoices WHERE user_id = $1 AND id = $2 FOR UPDATE`,
+      [guard.userId, id],
+    );
+    if (inv.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (inv.rows[0].invoice_number) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Invoice already issued' }, { status: 409 });
+    }
+
+    const totals = await replaceInvoiceItems(client, guard.userId, id, parsed.data.items);
+    const items = await loadInvoiceItems(client, guard.userId, id);
+
+    await client.query('COMMIT');
+
+    return NextResponse.json({ items, totals });
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -2,10 +2,18 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { exceeds, outstandingAmount, type AllocationKind } from '@/lib/invoices/allocation';
+import { allocateToInvoice, applyPaymentPredictions } from '@/lib/invoices/store';
 
 const MarkPaidSchema = z.object({
   accountId: z.string().uuid(),
   txDate: z.string(), // YYYY-MM-DD
+  // received amount; default: the open balance
+  amount: z.number().positive().optional(),
+  // book the rest of the open balance as deducted by the customer (fees, discount)
+  writeOffRemainder: z.boolean().default(false),
+  writeOffNote: z.string().max(240).optional(),
   category: z.string().min(1).max(120).default('Income'),
   description: z.string().min(0).max(240).optional(),
   isBusiness: z.boolean().default(false),
@@ -37,6 +45,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
          user_id,
          status,
          amount::float8 AS amount,
+         paid_amount::float8 AS paid_amount,
          currency,
          customer_name
        FROM invoices
@@ -53,8 +62,9 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
     const invoice = inv.rows[0] as {
       id: string;
       user_id: string;
-      status: 'planned' | 'sent' | 'paid' | 'void';
+      status: 'planned' | 'sent' | 'partially_paid' | 'paid' | 'void';
       amount: number;
+      paid_amount: number;
       currency: string;
       customer_name: string;
     };
@@ -69,6 +79,13 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
       return NextResponse.json({ error: 'Already paid' }, { status: 400 });
     }
 
+    const outstanding = outstandingAmount(invoice.amount, invoice.paid_amount);
+    const received = p.amount ?? outstanding;
+    if (exceeds(received, outstanding)) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Amount exceeds open balance' }, { status: 400 });
+    }
+
     const description =
       p.description?.trim() ||
       (invoice.customer_name ? `Invoice payment: ${invoice.customer_name}` : 'Invoice payment');
@@ -101,7 +118,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
       [
         guard.userId,
         p.accountId,
-        invoice.amount, // positive
+        received, // positive
         description,
         p.category,
         p.tags,
@@ -114,24 +131,46 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
 
     const txRow = tx.rows[0];
 
-    // Update invoice status + paid_at + paid_tx_id
+    // Allocate the payment (and the deducted rest); status follows the open balance
+    const allocations: Array<{
+      kind: AllocationKind;
+      transactionId: string | null;
+      amount: number;
+    }> = [{ kind: 'payment', transactionId: txRow.id, amount: received }];
+    const rest = outstandingAmount(outstanding, received);
+    if (p.writeOffRemainder && rest > 0) {
+      allocations.push({ kind: 'writeoff', transactionId: null, amount: rest });
+    }
+    for (const a of allocations) {
+      const result = await allocateToInvoice(client, guard.userId, invoiceId, {
+        ...a,
+        allocatedOn: p.txDate,
+        note: a.kind === 'writeoff' ? p.writeOffNote : '',
+      });
+      if (!result.ok) {
+        await client.query('ROLLBACK');
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+    }
+
     const upd = await client.query(
-      `UPDATE invoices
-       SET status = 'paid',
-           paid_at = $1,
-           paid_tx_id = $2
-       WHERE user_id = $3 AND id = $4
-       RETURNING
+      `SELECT
          id,
          user_id,
          status,
          amount::float8 AS amount,
+         paid_amount::float8 AS paid_amount,
          paid_at,
          paid_tx_id,
-         updated_at`,
-      [p.txDate, txRow.id, guard.userId, invoiceId],
+         updated_at
+       FROM invoices
+       WHERE user_id = $1 AND id = $2`,
+      [guard.userId, invoiceId],
     );
 
+    // the payment history changed: re-predict open invoices that follow it
+    await applyPaymentPredictions(client, guard.userId, formatDateOnly(new Date()));
+
     await client.query('COMMIT');
 
     return NextResponse.json({ invoice: upd.rows[0], transaction: txRow }, { status: 201 });
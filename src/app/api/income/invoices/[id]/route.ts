@@ -3,8 +3,18 @@ import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
 import { parseMoneyDE } from '@/lib/money';
-
-const InvoiceStatusSchema = z.enum(['planned', 'sent', 'paid', 'void']);
+import { BUSINESS_DAY_RULES } from '@/lib/cashflow/calendar';
+import { formatDateOnly } from '@/lib/date-only';
+import {
+  applyPaymentPredictions,
+  INVOICE_COLUMNS,
+  loadInvoiceItems,
+  refreshInvoicePayment,
+} from '@/lib/invoices/store';
+import { splitGross, VAT_CODES } from '@/lib/tax/vat';
+
+// paid and partially_paid follow from the allocations, see the allocations and mark-paid routes
+const InvoiceStatusSchema = z.enum(['planned', 'sent', 'void']);
 
 const AmountSchema = z
   .union([
@@ -20,6 +30,8 @@ const PatchInvoiceSchema = z.object({
   customerName: z.string().min(0).max(240).optional(),
 
   amount: AmountSchema,
+  // only used while the invoice has no line items
+  vatCode: z.enum(VAT_CODES).nullable().optional(),
 
   currency: z.string().min(3).max(3).optional(),
 
@@ -27,6 +39,9 @@ const PatchInvoiceSchema = z.object({
   issuedAt: z.string().nullable().optional(),
   dueDate: z.string().nullable().optional(),
   expectedPaymentDate: z.string().nullable().optional(),
+  businessDayRule: z.enum(BUSINESS_DAY_RULES).optional(),
+  expectedPaymentAuto: z.boolean().optional(),
+  buyerReference: z.string().max(200).nullable().optional(),
 
   status: InvoiceStatusSchema.optional(),
   paidAt: z.string().nullable().optional(),
@@ -34,6 +49,37 @@ const PatchInvoiceSchema = z.object({
   notes: z.string().max(4000).optional(),
 });
 
+// printed on an issued invoice; the stored document is not re-rendered
+const DOCUMENT_FIELDS = [
+  'profileId',
+  'customerId',
+  'customerName',
+  'currency',
+  'serviceDate',
+  'issuedAt',
+  'dueDate',
+  'buyerReference',
+] as const;
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const r = await pool.query(
+    `SELECT ${INVOICE_COLUMNS}
+     FROM invoices
+     WHERE user_id = $1 AND id = $2`,
+    [guard.userId, id],
+  );
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const items = await loadInvoiceItems(pool, guard.userId, id);
+
+  return NextResponse.json({ item: r.rows[0], items });
+}
+
 export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
   const guard = await requireApiUser();
   if (!guard.ok) return guard.res;
@@ -44,12 +90,41 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
   const parsed = PatchInvoiceSchema.safeParse(body);
   if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
 
+  if (parsed.data.customerId) {
+    const customer = await pool.query(`SELECT 1 FROM customers WHERE user_id = $1 AND id = $2`, [
+      guard.userId,
+      parsed.data.customerId,
+    ]);
+    if (customer.rowCount === 0) {
+      return NextResponse.json({ error: 'Invalid customer' }, { status: 400 });
+    }
+  }
+
+  const current = await pool.query(
+    `SELECT
+       invoice_number,
+       amount::float8 AS amount,
+       vat_code,
+       EXISTS (SELECT 1 FROM invoice_items it WHERE it.invoice_id = invoices.id) AS has_items
+     FROM invoices
+     WHERE user_id = $1 AND id = $2`,
+    [guard.userId, id],
+  );
+  if (current.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  if (
+    current.rows[0].invoice_number &&
+    (parsed.data.amount !== current.rows[0].amount ||
+      DOCUMENT_FIELDS.some((k) => parsed.data[k] !== undefined))
+  ) {
+    return NextResponse.json({ error: 'Invoice already issued' }, { status: 409 });
+  }
+
   const fields: string[] = [];
   const values: any[] = [];
   let i = 1;
 
   for (const [k, v] of Object.entries(parsed.data)) {
-    if (v === undefined) continue;
+    if (v === undefined || k === 'vatCode') continue;
 
     if (k === 'profileId') {
       fields.push(`profile_id = $${i++}`);
@@ -72,6 +147,19 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
     } else if (k === 'expectedPaymentDate') {
       fields.push(`expected_payment_date = $${i++}`);
       values.push(v);
+      // a date set by hand stops following the payment history
+      if (parsed.data.expectedPaymentAuto === undefined) {
+        fields.push('expected_payment_auto = false');
+      }
+    } else if (k === 'expectedPaymentAuto') {
+      fields.push(`expected_payment_auto = $${i++}`);
+      values.push(v);
+    } else if (k === 'businessDayRule') {
+      fields.push(`business_day_rule = $${i++}`);
+      values.push(v);
+    } else if (k === 'buyerReference') {
+      fields.push(`buyer_reference = $${i++}`);
+      values.push(v);
     } else if (k === 'paidAt') {
       fields.push(`paid_at = $${i++}`);
       values.push(v);
@@ -81,6 +169,15 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
     }
   }
 
+  // without line items net and VAT follow the amount
+  if (!current.rows[0].has_items) {
+    const vatCode =
+      parsed.data.vatCode === undefined ? current.rows[0].vat_code : parsed.data.vatCode;
+    const vat = vatCode ? splitGross(parsed.data.amount, vatCode) : null;
+    fields.push(`vat_code = $${i++}`, `net_amount = $${i++}`, `vat_amount = $${i++}`);
+    values.push(vatCode, vat?.net ?? null, vat?.vat ?? null);
+  }
+
   if (fields.length === 0) return NextResponse.json({ error: 'No changes' }, { status: 400 });
 
   values.push(guard.userId, id);
@@ -89,30 +186,30 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
     `UPDATE invoices
      SET ${fields.join(', ')}
      WHERE user_id = $${i++} AND id = $${i}
-         RETURNING
-       id,
-       user_id,
-       profile_id,
-       customer_id,
-       customer_name,
-       amount::float8 AS amount,
-       currency,
-       service_date,
-       issued_at,
-       due_date,
-       expected_payment_date,
-       status,
-       paid_at,
-       paid_tx_id,
-       notes,
-       created_at,
-       updated_at`,
+     RETURNING ${INVOICE_COLUMNS}`,
     values,
   );
 
   if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
 
-  return NextResponse.json({ item: r.rows[0] });
+  const item = r.rows[0];
+  if (item.paid_amount > 0) {
+    // a changed amount moves the invoice between partially paid and paid
+    const payment = await refreshInvoicePayment(pool, guard.userId, id);
+    if (payment) item.status = payment.status;
+  }
+  if (item.expected_payment_auto) {
+    await applyPaymentPredictions(pool, guard.userId, formatDateOnly(new Date()), {
+      invoiceIds: [id],
+    });
+    const fresh = await pool.query(
+      `SELECT expected_payment_date FROM invoices WHERE user_id = $1 AND id = $2`,
+      [guard.userId, id],
+    );
+    item.expected_payment_date = fresh.rows[0]?.expected_payment_date ?? item.expected_payment_date;
+  }
+
+  return NextResponse.json({ item });
 }
 
 export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
@@ -121,6 +218,16 @@ export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string
 
   const { id } = await ctx.params;
 
+  const current = await pool.query(
+    `SELECT invoice_number FROM invoices WHERE user_id = $1 AND id = $2`,
+    [guard.userId, id],
+  );
+  if (current.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  // numbering must stay gapless: issued invoices are voided, not deleted
+  if (current.rows[0].invoice_number) {
+    return NextResponse.json({ error: 'Invoice already issued' }, { status: 409 });
+  }
+
   const r = await pool.query(`DELETE FROM invoices WHERE user_id = $1 AND id = $2`, [
     guard.userId,
     id,
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import {
+  allocateToInvoice,
+  applyPaymentPredictions,
+  dismissPaymentMatch,
+  loadPaymentMatches,
+} from '@/lib/invoices/store';
+
+const DecisionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('confirm'),
+    transactionId: z.string().uuid(),
+    invoiceId: z.string().uuid(),
+    amount: z.number().positive(),
+  }),
+  z.object({
+    action: z.literal('dismiss'),
+    transactionId: z.string().uuid(),
+    invoiceId: z.string().uuid(),
+  }),
+]);
+
+// Suggested links of incoming transactions to open invoices
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const items = await loadPaymentMatches(pool, guard.userId, { today: formatDateOnly(new Date()) });
+
+  return NextResponse.json({ items });
+}
+
+// Confirm a suggestion (books the payment like mark-paid) or dismiss it for good
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = DecisionSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const d = parsed.data;
+
+  if (d.action === 'dismiss') {
+    const ok = await dismissPaymentMatch(pool, guard.userId, d.transactionId, d.invoiceId);
+    if (!ok) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await allocateToInvoice(client, guard.userId, d.invoiceId, {
+      kind: 'payment',
+      transactionId: d.transactionId,
+      amount: d.amount,
+    });
+    if (!result.ok) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // the payment history changed: re-predict open invoices that follow it
+    await applyPaymentPredictions(client, guard.userId, formatDateOnly(new Date()));
+
+    await client.query('COMMIT');
+
+    return NextResponse.json({ ok: true, allocationId: result.allocationId }, { status: 201 });
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
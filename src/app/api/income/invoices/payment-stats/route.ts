@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { loadCustomerPaymentStats } from '@/lib/invoices/store';
+
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const items = await loadCustomerPaymentStats(pool, guard.userId);
+
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { applyPaymentPredictions, loadPaymentPredictions } from '@/lib/invoices/store';
+
+const ApplySchema = z.object({
+  invoiceIds: z.array(z.string().uuid()).min(1).max(500),
+  // keep following the payment history from now on
+  auto: z.boolean().default(true),
+});
+
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const items = await loadPaymentPredictions(pool, guard.userId, formatDateOnly(new Date()));
+
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = ApplySchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const updated = await applyPaymentPredictions(pool, guard.userId, formatDateOnly(new Date()), {
+    invoiceIds: parsed.data.invoiceIds,
+    enable: parsed.data.auto,
+  });
+
+  return NextResponse.json({ updated });
+}
@@ -3,8 +3,14 @@ import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
 import { parseMoneyDE } from '@/lib/money';
+import { BUSINESS_DAY_RULES } from '@/lib/cashflow/calendar';
+import { formatDateOnly } from '@/lib/date-only';
+import { invoiceDatesFromTerms } from '@/lib/customers/customer';
+import { loadCustomer } from '@/lib/customers/store';
+import { INVOICE_COLUMNS, predictNewInvoicePaymentDate } from '@/lib/invoices/store';
+import { splitGross, VAT_CODES } from '@/lib/tax/vat';
 
-const InvoiceStatusSchema = z.enum(['planned', 'sent', 'paid', 'void']);
+const InvoiceStatusSchema = z.enum(['planned', 'sent', 'partially_paid', 'paid', 'void']);
 
 const AmountSchema = z
   .union([
@@ -20,6 +26,8 @@ const CreateInvoiceSchema = z.object({
   customerName: z.string().min(0).max(240).optional(),
 
   amount: AmountSchema,
+  // VAT contained in the amount, until line items replace it
+  vatCode: z.enum(VAT_CODES).nullable().optional(),
 
   currency: z.string().min(3).max(3).default('EUR'),
 
@@ -27,8 +35,15 @@ const CreateInvoiceSchema = z.object({
   issuedAt: z.string().nullable().optional(),
   dueDate: z.string().nullable().optional(),
   expectedPaymentDate: z.string().nullable().optional(),
+  businessDayRule: z.enum(BUSINESS_DAY_RULES).optional(),
+  // expected payment date from the customer's payment history (default when omitted)
+  expectedPaymentAuto: z.boolean().optional(),
 
-  status: InvoiceStatusSchema.optional(),
+  // Leitweg-ID or order reference printed on the invoice (XRechnung BT-10)
+  buyerReference: z.string().max(200).nullable().optional(),
+
+  // payment states only come from allocations
+  status: InvoiceStatusSchema.extract(['planned', 'sent', 'void']).optional(),
   notes: z.string().max(4000).optional(),
 });
 
@@ -38,32 +53,22 @@ export async function GET(req: Request) {
 
   const url = new URL(req.url);
   const status = url.searchParams.get('status');
-  const qStatus = status && ['planned', 'sent', 'paid', 'void'].includes(status) ? status : null;
+  const qStatus =
+    status && (InvoiceStatusSchema.options as string[]).includes(status) ? status : null;
+  // ?overdue=1: sent, not fully paid and past the due date
+  const overdue = url.searchParams.get('overdue') === '1';
 
   const r = await pool.query(
-    `SELECT
-       id,
-       user_id,
-       profile_id,
-       customer_id,
-       customer_name,
-       amount::float8 AS amount,
-       currency,
-       service_date,
-       issued_at,
-       due_date,
-       expected_payment_date,
-       status,
-       paid_at,
-       paid_tx_id,
-       notes,
-       created_at,
-       updated_at
+    `SELECT ${INVOICE_COLUMNS}
      FROM invoices
      WHERE user_id = $1
        AND ($2::text IS NULL OR status = $2::text)
+       AND (
+         NOT $3::boolean
+         OR (status IN ('sent', 'partially_paid') AND due_date < $4::date AND paid_amount < amount)
+       )
      ORDER BY expected_payment_date NULLS LAST, created_at DESC`,
-    [guard.userId, qStatus],
+    [guard.userId, qStatus, overdue, formatDateOnly(new Date())],
   );
 
   return NextResponse.json({ items: r.rows });
@@ -78,33 +83,44 @@ export async function POST(req: Request) {
   if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
 
   const i = parsed.data;
+  const auto = !!i.customerId && (i.expectedPaymentAuto ?? i.expectedPaymentDate === undefined);
+
+  // customer defaults: printed name, income profile and dates from the payment terms
+  if (i.customerId) {
+    const customer = await loadCustomer(pool, guard.userId, i.customerId);
+    if (!customer) return NextResponse.json({ error: 'Invalid customer' }, { status: 400 });
+
+    const issuedAt = i.issuedAt ?? formatDateOnly(new Date());
+    const terms = invoiceDatesFromTerms(issuedAt, customer.payment_terms_days);
+
+    if (!i.customerName?.trim()) i.customerName = customer.name;
+    if (i.profileId === undefined) i.profileId = customer.default_profile_id;
+    if (i.issuedAt === undefined) i.issuedAt = issuedAt;
+    if (i.dueDate === undefined) i.dueDate = terms.dueDate;
+    if (auto) {
+      const predicted = await predictNewInvoicePaymentDate(
+        pool,
+        guard.userId,
+        { customerId: i.customerId, issuedAt: i.issuedAt ?? null, dueDate: i.dueDate ?? null },
+        formatDateOnly(new Date()),
+      );
+      if (predicted) i.expectedPaymentDate = predicted;
+    }
+    if (i.expectedPaymentDate === undefined) i.expectedPaymentDate = i.dueDate ?? terms.dueDate;
+  }
+
+  const vat = i.vatCode ? splitGross(i.amount, i.vatCode) : null;
 
   const r = await pool.query(
     `INSERT INTO invoices (
        user_id, profile_id, customer_id, customer_name,
        amount, currency,
-       service_date, issued_at, due_date, expected_payment_date,
-       status, notes
+       service_date, issued_at, due_date, expected_payment_date, business_day_rule,
+       expected_payment_auto, buyer_reference, status, notes,
+       vat_code, net_amount, vat_amount
      )
-     VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
-     RETURNING
-       id,
-       user_id,
-       profile_id,
-       customer_id,
-       customer_name,
-       amount::float8 AS amount,
-       currency,
-       service_date,
-       issued_at,
-       due_date,
-       expected_payment_date,
-       status,
-       paid_at,
-       paid_tx_id,
-       notes,
-       created_at,
-       updated_at`,
+     VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18)
+     RETURNING ${INVOICE_COLUMNS}`,
     [
       guard.userId,
       i.profileId ?? null,
@@ -116,8 +132,14 @@ export async function POST(req: Request) {
       i.issuedAt ?? null,
       i.dueDate ?? null,
       i.expectedPaymentDate ?? null,
+      i.businessDayRule ?? 'NEXT',
+      auto,
+      i.buyerReference ?? null,
       i.status ?? 'planned',
       i.notes ?? '',
+      i.vatCode ?? null,
+      vat?.net ?? null,
+      vat?.vat ?? null,
     ],
   );
 
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { EuerSettingsSchema } from '@/lib/tax/euer';
+import { loadEuerSettings } from '@/lib/tax/store';
+
+// Accounts and category mapping of this profile's EÜR (settings.euer)
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const exists = await pool.query(`SELECT 1 FROM income_profiles WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (exists.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: await loadEuerSettings(pool, guard.userId, id) });
+}
+
+export async function PUT(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = EuerSettingsSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  if (parsed.data.accountIds.length > 0) {
+    const acc = await pool.query(
+      `SELECT COUNT(*)::int AS n FROM accounts WHERE user_id = $1 AND id = ANY($2::uuid[])`,
+      [guard.userId, parsed.data.accountIds],
+    );
+    if (acc.rows[0].n !== new Set(parsed.data.accountIds).size)
+      return NextResponse.json({ error: 'Invalid account reference' }, { status: 400 });
+  }
+
+  const r = await pool.query(
+    `UPDATE income_profiles
+     SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('euer', $3::jsonb)
+     WHERE user_id = $1 AND id = $2
+     RETURNING settings -> 'euer' AS euer`,
+    [guard.userId, id, JSON.stringify(parsed.data)],
+  );
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: r.rows[0].euer });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { InvoiceSellerSchema } from '@/lib/invoices/document';
+
+// Sender data printed on invoices of this profile (settings.seller)
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const r = await pool.query(
+    `SELECT settings -> 'seller' AS seller FROM income_profiles WHERE user_id = $1 AND id = $2`,
+    [guard.userId, id],
+  );
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: r.rows[0].seller ?? null });
+}
+
+export async function PUT(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = InvoiceSellerSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const r = await pool.query(
+    `UPDATE income_profiles
+     SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('seller', $3::jsonb)
+     WHERE user_id = $1 AND id = $2
+     RETURNING settings -> 'seller' AS seller`,
+    [guard.userId, id, JSON.stringify(parsed.data)],
+  );
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: r.rows[0].seller });
+}
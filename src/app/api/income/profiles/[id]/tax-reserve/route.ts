@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { TaxReserveSettingsSchema } from '@/lib/tax/reserve';
+import { loadTaxReserveSettings } from '@/lib/tax/store';
+
+// Tax reserve rate and transfer source of this profile (settings.taxReserve)
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const exists = await pool.query(`SELECT 1 FROM income_profiles WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (exists.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: await loadTaxReserveSettings(pool, guard.userId, id) });
+}
+
+export async function PUT(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = TaxReserveSettingsSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  if (parsed.data.sourceAccountId) {
+    const acc = await pool.query(`SELECT 1 FROM accounts WHERE user_id = $1 AND id = $2`, [
+      guard.userId,
+      parsed.data.sourceAccountId,
+    ]);
+    if (acc.rowCount === 0)
+      return NextResponse.json({ error: 'Invalid account reference' }, { status: 400 });
+  }
+
+  const r = await pool.query(
+    `UPDATE income_profiles
+     SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('taxReserve', $3::jsonb)
+     WHERE user_id = $1 AND id = $2
+     RETURNING settings -> 'taxReserve' AS reserve`,
+    [guard.userId, id, JSON.stringify(parsed.data)],
+  );
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ item: r.rows[0].reserve });
+}
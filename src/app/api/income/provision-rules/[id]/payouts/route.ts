@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { loadCommissionPayouts } from '@/lib/commission/store';
+
+const DateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Default: payouts due in the current calendar year.
+const RangeSchema = z.object({
+  from: DateOnly.optional(),
+  to: DateOnly.optional(), // exclusive
+});
+
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id: commissionRuleId } = await ctx.params;
+
+  const { searchParams } = new URL(req.url);
+  const parsed = RangeSchema.safeParse({
+    from: searchParams.get('from') ?? undefined,
+    to: searchParams.get('to') ?? undefined,
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  // Ensure user owns the rule
+  const own = await pool.query(`SELECT 1 FROM commission_rules WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    commissionRuleId,
+  ]);
+  if (own.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const year = new Date().getFullYear();
+  const startDate = parsed.data.from ?? `${year}-01-01`;
+  const endDateExclusive = parsed.data.to ?? `${year + 1}-01-01`;
+
+  const items = await loadCommissionPayouts(pool, guard.userId, {
+    startDate,
+    endDateExclusive,
+    ruleId: commissionRuleId,
+  });
+
+  return NextResponse.json({ from: startDate, to: endDateExclusive, items });
+}
@@ -2,12 +2,13 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
+import { CommissionRuleSchema } from '@/lib/commission/rules';
 
 const PatchRuleSchema = z.object({
   name: z.string().min(1).max(120).optional(),
   isActive: z.boolean().optional(),
   profileId: z.string().uuid().nullable().optional(),
-  ruleJson: z.object({}).passthrough().optional(),
+  ruleJson: CommissionRuleSchema.optional(),
 });
 
 export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
+import { CommissionRuleSchema } from '@/lib/commission/rules';
 
 function toDateRangeLiteral(from: string, to: string | null) {
   // canonical: inclusive lower [, exclusive upper ) (Postgres ranges)
@@ -13,7 +14,7 @@ function toDateRangeLiteral(from: string, to: string | null) {
 const CreateVersionSchema = z.object({
   validFrom: z.string().min(1), // YYYY-MM-DD
   validTo: z.string().min(1).nullable().optional(), // YYYY-MM-DD or null => open end
-  ruleJson: z.object({}).passthrough().optional(),
+  ruleJson: CommissionRuleSchema,
 });
 
 export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
@@ -23,10 +24,10 @@ export async function GET(_req: Request, ctx: { params: Promise<{ id: string }>
   const { id: commissionRuleId } = await ctx.params;
 
   // Ensure user owns the rule
-  const own = await pool.query(
-    `SELECT 1 FROM commission_rules WHERE user_id = $1 AND id = $2`,
-    [guard.userId, commissionRuleId],
-  );
+  const own = await pool.query(`SELECT 1 FROM commission_rules WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    commissionRuleId,
+  ]);
   if (own.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
 
   const r = await pool.query(
@@ -58,10 +59,10 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
   if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
 
   // Ensure user owns the rule
-  const own = await pool.query(
-    `SELECT 1 FROM commission_rules WHERE user_id = $1 AND id = $2`,
-    [guard.userId, commissionRuleId],
-  );
+  const own = await pool.query(`SELECT 1 FROM commission_rules WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    commissionRuleId,
+  ]);
   if (own.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
 
   const v = parsed.data;
@@ -79,7 +80,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
        rule_json,
        created_at,
        updated_at`,
-    [guard.userId, commissionRuleId, rangeLiteral, v.ruleJson ?? {}],
+    [guard.userId, commissionRuleId, rangeLiteral, v.ruleJson],
   );
 
   return NextResponse.json({ item: r.rows[0] }, { status: 201 });
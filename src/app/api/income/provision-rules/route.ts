@@ -2,12 +2,13 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
+import { CommissionRuleSchema } from '@/lib/commission/rules';
 
 const CreateRuleSchema = z.object({
   profileId: z.string().uuid().nullable().optional(), // self_employed profile or null
   name: z.string().min(1).max(120),
   isActive: z.boolean().default(true),
-  ruleJson: z.object({}).passthrough().optional(),
+  ruleJson: CommissionRuleSchema,
 });
 
 export async function GET() {
@@ -55,7 +56,7 @@ export async function POST(req: Request) {
        is_active,
        created_at,
        updated_at`,
-    [guard.userId, x.profileId ?? null, x.name, x.ruleJson ?? {}, x.isActive],
+    [guard.userId, x.profileId ?? null, x.name, x.ruleJson, x.isActive],
   );
 
   return NextResponse.json({ item: r.rows[0] }, { status: 201 });
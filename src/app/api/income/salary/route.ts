@@ -3,19 +3,42 @@ import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
 import { parseMoneyDE } from '@/lib/money';
+import { BUSINESS_DAY_RULES } from '@/lib/cashflow/calendar';
+import { formatDateOnly } from '@/lib/date-only';
+import { PayrollProfileSchema } from '@/lib/salary/payroll';
+import { SALARY_COLUMNS } from '@/lib/salary/store';
 
 const AmountSchema = z
-  .union([z.number(), z.string().min(1).transform((s) => parseMoneyDE(s))])
+  .union([
+    z.number(),
+    z
+      .string()
+      .min(1)
+      .transform((s) => parseMoneyDE(s)),
+  ])
   .refine((n) => Number.isFinite(n), 'Invalid amount');
 
 const CreateOrUpdateSalarySchema = z.object({
   profileId: z.string().uuid(), // should be employee profile id
+  // version start; defaults to today, the same date again updates that version
+  validFrom: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
   netAmount: AmountSchema.refine((n) => n > 0, 'Net must be > 0'),
-  grossAmount: AmountSchema.refine((n) => n > 0, 'Gross must be > 0').nullable().optional(),
+  grossAmount: AmountSchema.refine((n) => n > 0, 'Gross must be > 0')
+    .nullable()
+    .optional(),
+  // gross-to-net calculator settings the net was derived with
+  payroll: PayrollProfileSchema.nullable().optional(),
 
   payoutDay: z.number().int().min(1).max(31),
+  // Auszahlung am Wochenende/Feiertag kommt i.d.R. am Bankarbeitstag davor
+  businessDayRule: z.enum(BUSINESS_DAY_RULES).default('PREVIOUS'),
 
-  yearlyBonusAmount: AmountSchema.refine((n) => n > 0, 'Bonus must be > 0').nullable().optional(),
+  yearlyBonusAmount: AmountSchema.refine((n) => n > 0, 'Bonus must be > 0')
+    .nullable()
+    .optional(),
   yearlyBonusMonth: z.number().int().min(1).max(12).nullable().optional(),
   yearlyBonusDay: z.number().int().min(1).max(31).nullable().optional(),
 
@@ -28,28 +51,19 @@ export async function GET() {
   if (!guard.ok) return guard.res;
 
   const r = await pool.query(
-    `SELECT
-       id,
-       user_id,
-       profile_id,
-       net_amount::float8 AS net_amount,
-       gross_amount::float8 AS gross_amount,
-       payout_day,
-       yearly_bonus_amount::float8 AS yearly_bonus_amount,
-       yearly_bonus_month,
-       yearly_bonus_day,
-       currency,
-       is_active,
-       created_at,
-       updated_at
+    `SELECT ${SALARY_COLUMNS}
      FROM salary_settings
      WHERE user_id = $1
-     ORDER BY created_at DESC`,
+     ORDER BY valid_from DESC, created_at DESC`,
     [guard.userId],
   );
 
-  // You likely want only one active row; return first for convenience
-  return NextResponse.json({ items: r.rows, item: r.rows[0] ?? null });
+  // item: the version in effect today (or the first upcoming one)
+  const today = formatDateOnly(new Date());
+  const active = r.rows.filter((row) => row.is_active);
+  const item = active.find((row) => row.valid_from <= today) ?? active[active.length - 1] ?? null;
+
+  return NextResponse.json({ items: r.rows, item });
 }
 
 export async function POST(req: Request) {
@@ -62,47 +76,40 @@ export async function POST(req: Request) {
 
   const s = parsed.data;
 
-  // Upsert: one active per user is enforced by partial unique index in SQL we wrote
+  // New version per start date; saving the same start date again updates it
   const r = await pool.query(
     `INSERT INTO salary_settings (
-       user_id, profile_id,
-       net_amount, gross_amount,
-       payout_day,
+       user_id, profile_id, valid_from,
+       net_amount, gross_amount, payroll,
+       payout_day, business_day_rule,
        yearly_bonus_amount, yearly_bonus_month, yearly_bonus_day,
        currency, is_active
      )
-     VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
-     ON CONFLICT ON CONSTRAINT salary_settings_user_active_uniq
+     VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)
+     ON CONFLICT (user_id, valid_from) WHERE is_active
      DO UPDATE SET
        profile_id = EXCLUDED.profile_id,
        net_amount = EXCLUDED.net_amount,
        gross_amount = EXCLUDED.gross_amount,
+       payroll = EXCLUDED.payroll,
        payout_day = EXCLUDED.payout_day,
+       business_day_rule = EXCLUDED.business_day_rule,
        yearly_bonus_amount = EXCLUDED.yearly_bonus_amount,
        yearly_bonus_month = EXCLUDED.yearly_bonus_month,
        yearly_bonus_day = EXCLUDED.yearly_bonus_day,
        currency = EXCLUDED.currency,
-       is_active = EXCLUDED.is_active
-     RETURNING
-       id,
-       user_id,
-       profile_id,
-       net_amount::float8 AS net_amount,
-       gross_amount::float8 AS gross_amount,
-       payout_day,
-       yearly_bonus_amount::float8 AS yearly_bonus_amount,
-       yearly_bonus_month,
-       yearly_bonus_day,
-       currency,
-       is_active,
-       created_at,
-       updated_at`,
+       is_active = EXCLUDED.is_active,
+       updated_at = now()
+     RETURNING ${SALARY_COLUMNS}`,
     [
       guard.userId,
       s.profileId,
+      s.validFrom ?? formatDateOnly(new Date()),
       s.netAmount,
       s.grossAmount ?? null,
+      s.payroll ? JSON.stringify(s.payroll) : null,
       s.payoutDay,
+      s.businessDayRule,
       s.yearlyBonusAmount ?? null,
       s.yearlyBonusMonth ?? null,
       s.yearlyBonusDay ?? null,
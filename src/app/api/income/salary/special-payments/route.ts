@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { parseMoneyDE } from '@/lib/money';
+import { BUSINESS_DAY_RULES } from '@/lib/cashflow/calendar';
+import { SALARY_SPECIAL_PAYMENT_KINDS } from '@/lib/salary/schedule';
+import { SPECIAL_PAYMENT_COLUMNS } from '@/lib/salary/store';
+
+const AmountSchema = z
+  .union([
+    z.number(),
+    z
+      .string()
+      .min(1)
+      .transform((s) => parseMoneyDE(s)),
+  ])
+  .refine((n) => Number.isFinite(n), 'Invalid amount');
+
+const CreateSpecialPaymentSchema = z
+  .object({
+    kind: z.enum(SALARY_SPECIAL_PAYMENT_KINDS),
+    title: z.string().max(120).default(''),
+    // null => one monthly net salary of the version valid on the payout day
+    amount: AmountSchema.refine((n) => n > 0, 'Amount must be > 0')
+      .nullable()
+      .optional(),
+
+    // either a one-off date or a yearly month/day
+    payoutDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .nullable()
+      .optional(),
+    payoutMonth: z.number().int().min(1).max(12).nullable().optional(),
+    payoutDay: z.number().int().min(1).max(31).nullable().optional(),
+
+    businessDayRule: z.enum(BUSINESS_DAY_RULES).default('PREVIOUS'),
+  })
+  .refine(
+    (v) =>
+      v.payoutDate
+        ? v.payoutMonth == null && v.payoutDay == null
+        : v.payoutMonth != null && v.payoutDay != null,
+    'Either payoutDate or payoutMonth + payoutDay',
+  );
+
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const r = await pool.query(
+    `SELECT ${SPECIAL_PAYMENT_COLUMNS}
+     FROM salary_special_payments
+     WHERE user_id = $1
+     ORDER BY payout_date ASC NULLS FIRST, payout_month ASC, payout_day ASC`,
+    [guard.userId],
+  );
+
+  return NextResponse.json({ items: r.rows });
+}
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = CreateSpecialPaymentSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const p = parsed.data;
+
+  const r = await pool.query(
+    `INSERT INTO salary_special_payments (
+       user_id, kind, title, amount, payout_date, payout_month, payout_day, business_day_rule
+     )
+     VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+     RETURNING ${SPECIAL_PAYMENT_COLUMNS}`,
+    [
+      guard.userId,
+      p.kind,
+      p.title.trim(),
+      p.amount ?? null,
+      p.payoutDate ?? null,
+      p.payoutDate ? null : p.payoutMonth,
+      p.payoutDate ? null : p.payoutDay,
+      p.businessDayRule,
+    ],
+  );
+
+  return NextResponse.json({ item: r.rows[0] }, { status: 201 });
+}
@@ -2,14 +2,20 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
+import { BUSINESS_DAY_RULES } from '@/lib/cashflow/calendar';
 
 const PatchRecurringSchema = z.object({
   accountId: z.string().uuid().optional(),
   amount: z.number().finite().optional(),
   description: z.string().min(1).max(200).optional(),
   category: z.string().min(1).max(120).optional(),
-  intervalType: z.enum(['WEEKLY', 'MONTHLY', 'YEARLY']).optional(),
+  intervalType: z.enum(['WEEKLY', 'MONTHLY', 'QUARTERLY', 'HALF_YEARLY', 'YEARLY']).optional(),
+  intervalCount: z.number().int().min(1).max(52).optional(),
+  monthRule: z.enum(['DAY_OF_MONTH', 'LAST_BUSINESS_DAY', 'NTH_WEEKDAY']).optional(),
   dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  weekday: z.number().int().min(1).max(7).nullable().optional(),
+  weekOfMonth: z.union([z.literal(-1), z.number().int().min(1).max(5)]).nullable().optional(),
+  businessDayRule: z.enum(BUSINESS_DAY_RULES).optional(),
   isBusiness: z.boolean().optional(),
   isTaxRelevant: z.boolean().optional(),
   startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
@@ -37,7 +43,11 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
   const map: Record<string, string> = {
     accountId: 'account_id',
     intervalType: 'interval_type',
+    intervalCount: 'interval_count',
+    monthRule: 'month_rule',
     dayOfMonth: 'day_of_month',
+    weekOfMonth: 'week_of_month',
+    businessDayRule: 'business_day_rule',
     isBusiness: 'is_business',
     isTaxRelevant: 'is_tax_relevant',
     startDate: 'start_date',
@@ -71,7 +81,12 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
     description,
     category,
     interval_type,
+    interval_count,
+    month_rule,
     day_of_month,
+    weekday,
+    week_of_month,
+    business_day_rule,
     is_business,
     is_tax_relevant,
     start_date::text AS start_date,
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { monthBounds } from '@/lib/cashflow/dates';
+import { formatDateOnly } from '@/lib/date-only';
+import { linkRecurringMatches, matchRecurringRange } from '@/lib/recurring/store';
+
+const DateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Default: the last three months up to the end of the current one.
+const RangeSchema = z.object({
+  from: DateOnly.optional(),
+  to: DateOnly.optional(), // exclusive
+  accountId: z.string().uuid().optional(),
+});
+
+function resolveRange(v: z.output<typeof RangeSchema>) {
+  const today = new Date();
+  const month = formatDateOnly(today).slice(0, 7);
+  const earlier = formatDateOnly(new Date(today.getFullYear(), today.getMonth() - 2, 1)).slice(
+    0,
+    7,
+  );
+  return {
+    from: v.from ?? monthBounds(earlier).startDate,
+    toExclusive: v.to ?? monthBounds(month).endDateExclusive,
+    accountId: v.accountId,
+  };
+}
+
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { searchParams } = new URL(req.url);
+  const parsed = RangeSchema.safeParse({
+    from: searchParams.get('from') ?? undefined,
+    to: searchParams.get('to') ?? undefined,
+    accountId: searchParams.get('accountId') ?? undefined,
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const range = resolveRange(parsed.data);
+  if (range.from >= range.toExclusive) {
+    return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+  }
+
+  const result = await matchRecurringRange(pool, guard.userId, range);
+  return NextResponse.json({ from: range.from, to: range.toExclusive, ...result });
+}
+
+// Stores the current matches on the transactions (manual re-run after edits).
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = RangeSchema.safeParse(body ?? {});
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const range = resolveRange(parsed.data);
+  if (range.from >= range.toExclusive) {
+    return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { linked, result } = await linkRecurringMatches(client, guard.userId, range);
+    await client.query('COMMIT');
+    return NextResponse.json({ from: range.from, to: range.toExclusive, linked, ...result });
+  } catch {
+    await client.query('ROLLBACK');
+    return NextResponse.json({ error: 'DB error' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
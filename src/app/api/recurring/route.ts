@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { pool } from "@/lib/db";
 import { requireApiUser } from "@/lib/authz";
+import { BUSINESS_DAY_RULES } from "@/lib/cashflow/calendar";
 
 const DateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ungültiges Datum");
 
@@ -14,11 +15,25 @@ const CreateRecurringSchema = z.object({
   description: z.string().min(1, "Beschreibung fehlt").max(200),
   category: z.string().min(1, "Kategorie fehlt").max(120),
 
-  intervalType: z.enum(["WEEKLY", "MONTHLY", "YEARLY"]).default("MONTHLY"),
+  intervalType: z
+    .enum(["WEEKLY", "MONTHLY", "QUARTERLY", "HALF_YEARLY", "YEARLY"])
+    .default("MONTHLY"),
+  intervalCount: z.number().int().min(1).max(52).default(1),
 
-  // Page sendet number|null (via toDayOfMonth)
+  // Tag innerhalb des Monats (nicht für WEEKLY)
+  monthRule: z.enum(["DAY_OF_MONTH", "LAST_BUSINESS_DAY", "NTH_WEEKDAY"]).default("DAY_OF_MONTH"),
+
+  // Page sendet number|null (via toDayOfMonth); null => Tag des Startdatums
   dayOfMonth: z.number().int().min(1).max(31).nullable(),
 
+  // ISO 1=Mo..7=So (WEEKLY / NTH_WEEKDAY); null => Wochentag des Startdatums
+  weekday: z.number().int().min(1).max(7).nullable().default(null),
+  // NTH_WEEKDAY: 1..5, -1 = letzter
+  weekOfMonth: z.union([z.literal(-1), z.number().int().min(1).max(5)]).nullable().default(null),
+
+  // Wochenende/Bankfeiertag: Lastschriften i.d.R. auf den nächsten Bankarbeitstag
+  businessDayRule: z.enum(BUSINESS_DAY_RULES).default("NEXT"),
+
   startDate: DateOnly,
   endDate: DateOnly.nullish(),
 
@@ -36,7 +51,8 @@ export async function GET() {
         SELECT
             r.id, r.account_id, a.name as account_name,
             r.amount::float8 as amount, r.description, r.category,
-            r.interval_type, r.day_of_month,
+            r.interval_type, r.interval_count, r.month_rule,
+            r.day_of_month, r.weekday, r.week_of_month, r.business_day_rule,
             r.is_business, r.is_tax_relevant,
             r.start_date::text AS start_date,
                 r.end_date::text AS end_date,
@@ -70,15 +86,19 @@ export async function POST(req: Request) {
   if (acc.rowCount === 0) return NextResponse.json({ error: "Invalid account" }, { status: 400 });
 
   const amountSigned = x.amount;
-  const dayOfMonth = x.intervalType === "MONTHLY" ? x.dayOfMonth : null;
+  const isWeekly = x.intervalType === "WEEKLY";
+  const dayOfMonth = !isWeekly && x.monthRule === "DAY_OF_MONTH" ? x.dayOfMonth : null;
+  const weekday = isWeekly || x.monthRule === "NTH_WEEKDAY" ? x.weekday : null;
+  const weekOfMonth = !isWeekly && x.monthRule === "NTH_WEEKDAY" ? x.weekOfMonth : null;
 
   const r = await pool.query(
     `
     INSERT INTO recurring
-      (user_id, account_id, amount, description, category, interval_type, day_of_month,
+      (user_id, account_id, amount, description, category, interval_type, interval_count,
+       month_rule, day_of_month, weekday, week_of_month, business_day_rule,
        is_business, is_tax_relevant, start_date, end_date)
     VALUES
-      ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+      ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
         RETURNING
         id,
         account_id,
@@ -86,7 +106,12 @@ export async function POST(req: Request) {
         description,
         category,
         interval_type,
+        interval_count,
+        month_rule,
         day_of_month,
+        weekday,
+        week_of_month,
+        business_day_rule,
         is_business,
         is_tax_relevant,
         start_date::text as start_date,
@@ -102,7 +127,12 @@ export async function POST(req: Request) {
       x.description.trim(),
       x.category.trim(),
       x.intervalType,
+      x.intervalCount,
+      isWeekly ? "DAY_OF_MONTH" : x.monthRule,
       dayOfMonth,
+      weekday,
+      weekOfMonth,
+      x.businessDayRule,
       x.isBusiness,
       x.isTaxRelevant,
       x.startDate,
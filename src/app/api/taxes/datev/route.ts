@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import { datevExtf, datevFiscalYear, inOneFiscalYear } from '@/lib/tax/datev';
+import { loadDatevExport, loadDatevSettings } from '@/lib/tax/store';
+
+const QuerySchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .refine((q) => q.from <= q.to);
+
+// Buchungsstapel for [from, to] as preview or as DATEV EXTF file
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const url = new URL(req.url);
+  const parsed = QuerySchema.safeParse({
+    from: url.searchParams.get('from') ?? undefined,
+    to: url.searchParams.get('to') ?? undefined,
+    format: url.searchParams.get('format') ?? undefined,
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const { from, to, format } = parsed.data;
+  const settings = await loadDatevSettings(pool, guard.userId);
+
+  if (!inOneFiscalYear(from, to, settings.fiscalYearStart)) {
+    return NextResponse.json(
+      { error: 'Date range spans more than one fiscal year' },
+      { status: 400 },
+    );
+  }
+
+  const endDateExclusive = addDaysUTC(to, 1);
+  const item = await loadDatevExport(pool, guard.userId, from, endDateExclusive, settings);
+  if (format === 'json') {
+    return NextResponse.json({ item, fiscalYear: datevFiscalYear(from, settings.fiscalYearStart) });
+  }
+
+  if (!settings.consultantNumber || !settings.clientNumber) {
+    return NextResponse.json({ error: 'Consultant and client number required' }, { status: 400 });
+  }
+
+  const file = datevExtf(item.rows, settings, {
+    startDate: from,
+    endDateExclusive,
+    createdAt: new Date(),
+    label: `Buchungen ${from.slice(0, 7)} bis ${to.slice(0, 7)}`,
+  });
+  const base = `EXTF_Buchungsstapel_${from.replace(/-/g, '')}_${to.replace(/-/g, '')}`;
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      'Content-Type': 'text/csv; charset=windows-1252',
+      'Content-Disposition': `attachment; filename="${base}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { DatevSettingsSchema } from '@/lib/tax/datev';
+import { loadDatevSettings, saveDatevSettings } from '@/lib/tax/store';
+
+// Consultant/client number, chart of accounts, account mapping and BU keys
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  return NextResponse.json({ item: await loadDatevSettings(pool, guard.userId) });
+}
+
+export async function PUT(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = DatevSettingsSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const accountIds = Object.keys(parsed.data.moneyAccounts);
+  if (accountIds.length > 0) {
+    const acc = await pool.query(
+      `SELECT COUNT(*)::int AS n FROM accounts WHERE user_id = $1 AND id = ANY($2::uuid[])`,
+      [guard.userId, accountIds],
+    );
+    if (acc.rows[0].n !== accountIds.length)
+      return NextResponse.json({ error: 'Invalid account reference' }, { status: 400 });
+  }
+
+  await saveDatevSettings(pool, guard.userId, parsed.data);
+
+  return NextResponse.json({ item: parsed.data });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { euerCsv } from '@/lib/tax/euer';
+import { renderEuerPdf } from '@/lib/tax/euer-pdf';
+import { loadEuerReport } from '@/lib/tax/store';
+
+const QuerySchema = z.object({
+  profileId: z.string().uuid(),
+  year: z.coerce.number().int().min(2000).max(2100),
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+});
+
+// EÜR of a self-employed profile for a year, as JSON or as CSV/PDF download
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const url = new URL(req.url);
+  const today = formatDateOnly(new Date());
+  const parsed = QuerySchema.safeParse({
+    profileId: url.searchParams.get('profileId') ?? undefined,
+    year: url.searchParams.get('year') ?? today.slice(0, 4),
+    format: url.searchParams.get('format') ?? undefined,
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const { profileId, year, format } = parsed.data;
+
+  const profile = await pool.query(
+    `SELECT name FROM income_profiles WHERE user_id = $1 AND id = $2 AND type = 'self_employed'`,
+    [guard.userId, profileId],
+  );
+  if (profile.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  const name: string = profile.rows[0].name;
+
+  const item = await loadEuerReport(pool, guard.userId, profileId, year);
+  if (format === 'json') return NextResponse.json({ item });
+
+  const base = `EUER_${year}_${name}`.replace(/[^A-Za-z0-9._-]+/g, '_');
+  if (format === 'csv') {
+    return new NextResponse(euerCsv(item, name), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${base}.csv"`,
+      },
+    });
+  }
+  return new NextResponse(new Uint8Array(renderEuerPdf(item, name, today)), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${base}.pdf"`,
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { loadTaxPayment, loadTaxPaymentCandidates } from '@/lib/tax/store';
+
+// Bookings the user can link to settle this payment
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const payment = await loadTaxPayment(pool, guard.userId, id);
+  if (!payment) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const items = await loadTaxPaymentCandidates(pool, guard.userId, payment);
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { linkTaxPayment, loadTaxPayment } from '@/lib/tax/store';
+
+const UpdateTaxPaymentSchema = z.object({
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  amount: z.number().positive().optional(),
+  note: z.string().max(240).optional(),
+  // booking that settled the payment; null removes the link
+  transactionId: z.string().uuid().nullable().optional(),
+});
+
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const body = await req.json().catch(() => null);
+  const parsed = UpdateTaxPaymentSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const v = parsed.data;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // prepayment dates follow the quarter; only refunds and back-payments move
+    const r = await client.query(
+      `UPDATE tax_payments
+       SET due_date = CASE WHEN kind = 'prepayment' THEN due_date ELSE COALESCE($3, due_date) END,
+           amount = COALESCE($4, amount),
+           note = COALESCE($5, note),
+           updated_at = now()
+       WHERE user_id = $1 AND id = $2`,
+      [guard.userId, id, v.dueDate ?? null, v.amount ?? null, v.note ?? null],
+    );
+    if (r.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (v.transactionId !== undefined) {
+      const result = await linkTaxPayment(client, guard.userId, id, v.transactionId);
+      if (!result.ok) {
+        await client.query('ROLLBACK');
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+
+  return NextResponse.json({ item: await loadTaxPayment(pool, guard.userId, id) });
+}
+
+export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const { id } = await ctx.params;
+
+  const r = await pool.query(`DELETE FROM tax_payments WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    id,
+  ]);
+  if (r.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
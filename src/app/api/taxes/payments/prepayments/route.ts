@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { loadTaxPayments, saveTaxPrepayments } from '@/lib/tax/store';
+
+const PrepaymentsSchema = z.object({
+  profileId: z.string().uuid(),
+  year: z.number().int().min(2000).max(2100),
+  // Q1..Q4 from the assessment notice; null or 0 removes the quarter
+  amounts: z.array(z.number().min(0).nullable()).length(4),
+});
+
+// Replace the prepayments of a year with the amounts of a (new) assessment notice
+export async function PUT(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = PrepaymentsSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const v = parsed.data;
+
+  const profile = await pool.query(
+    `SELECT 1 FROM income_profiles WHERE user_id = $1 AND id = $2 AND type = 'self_employed'`,
+    [guard.userId, v.profileId],
+  );
+  if (profile.rowCount === 0) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await saveTaxPrepayments(client, guard.userId, v.profileId, v.year, v.amounts);
+    await client.query('COMMIT');
+  } catch {
+    try {
+      await client.query('ROLLBACK');
+    } catch {}
+    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+
+  const items = await loadTaxPayments(pool, guard.userId, v.profileId, v.year);
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { loadTaxPayment, loadTaxPayments } from '@/lib/tax/store';
+
+const QuerySchema = z.object({
+  profileId: z.string().uuid(),
+  year: z.coerce.number().int().min(2000).max(2100),
+});
+
+// prepayments are entered per year as a whole (see ./prepayments)
+const CreateTaxPaymentSchema = z.object({
+  profileId: z.string().uuid(),
+  kind: z.enum(['refund', 'back_payment']),
+  taxYear: z.number().int().min(2000).max(2100),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  amount: z.number().positive(),
+  note: z.string().max(240).default(''),
+});
+
+// Income tax payments of a profile that belong to a year
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const url = new URL(req.url);
+  const parsed = QuerySchema.safeParse({
+    profileId: url.searchParams.get('profileId') ?? undefined,
+    year: url.searchParams.get('year') ?? formatDateOnly(new Date()).slice(0, 4),
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const items = await loadTaxPayments(pool, guard.userId, parsed.data.profileId, parsed.data.year);
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = CreateTaxPaymentSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const v = parsed.data;
+
+  const r = await pool.query(
+    `INSERT INTO tax_payments (user_id, profile_id, kind, tax_year, due_date, amount, note)
+     SELECT $1, id, $3, $4, $5, $6, $7
+     FROM income_profiles
+     WHERE user_id = $1 AND id = $2 AND type = 'self_employed'
+     RETURNING id`,
+    [guard.userId, v.profileId, v.kind, v.taxYear, v.dueDate, v.amount, v.note],
+  );
+  if (r.rowCount === 0)
+    return NextResponse.json({ error: 'Invalid profile reference' }, { status: 400 });
+
+  const item = await loadTaxPayment(pool, guard.userId, r.rows[0].id);
+  return NextResponse.json({ item }, { status: 201 });
+}
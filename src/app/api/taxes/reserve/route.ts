@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { loadTaxReserve } from '@/lib/tax/store';
+
+// Reserve target of the year so far against the TAX accounts, with the transfers to close the gap
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const item = await loadTaxReserve(pool, guard.userId, formatDateOnly(new Date()));
+  return NextResponse.json({ item });
+}
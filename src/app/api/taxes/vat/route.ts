@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { formatDateOnly } from '@/lib/date-only';
+import { loadVatReport, loadVatSettings } from '@/lib/tax/store';
+import { vatPeriods } from '@/lib/tax/vat';
+
+const QuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+});
+
+// USt-VA of every period of a year; periods not over yet are estimates
+export async function GET(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const url = new URL(req.url);
+  const today = formatDateOnly(new Date());
+  const parsed = QuerySchema.safeParse({
+    year: url.searchParams.get('year') ?? today.slice(0, 4),
+  });
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+
+  const settings = await loadVatSettings(pool, guard.userId);
+  const items = [];
+  for (const period of vatPeriods(parsed.data.year, settings)) {
+    if (period.startDate > today) break;
+    items.push(await loadVatReport(pool, guard.userId, period, settings, today));
+  }
+
+  return NextResponse.json({ settings, items });
+}
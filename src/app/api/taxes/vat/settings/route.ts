@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { loadVatSettings, saveVatSettings } from '@/lib/tax/store';
+import { VatSettingsSchema } from '@/lib/tax/vat';
+
+// Filing period, Dauerfristverlängerung and Sondervorauszahlung
+export async function GET() {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  return NextResponse.json({ item: await loadVatSettings(pool, guard.userId) });
+}
+
+export async function PUT(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = VatSettingsSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  await saveVatSettings(pool, guard.userId, parsed.data);
+
+  return NextResponse.json({ item: parsed.data });
+}
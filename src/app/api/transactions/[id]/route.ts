@@ -2,6 +2,8 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { pool } from "@/lib/db"
 import { requireApiUser } from "@/lib/authz"
+import { refreshInvoicePayment } from "@/lib/invoices/store"
+import { splitGross, VAT_CODES, type VatCode } from "@/lib/tax/vat"
 
 const PatchSchema = z.object({
   accountId: z.string().uuid(),
@@ -10,6 +12,7 @@ const PatchSchema = z.object({
   category: z.string().max(120).nullable().optional(),
   isBusiness: z.boolean().default(false),
   isTaxRelevant: z.boolean().default(false),
+  vatCode: z.enum(VAT_CODES).nullable().optional(), // absent: keep the stored VAT code
   txDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 })
 
@@ -36,38 +39,119 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
     return NextResponse.json({ error: "Invalid account reference" }, { status: 400 })
   }
 
-  const r = await pool.query(
-    `
-    UPDATE transactions
-    SET
-      account_id = $1,
-      amount = $2,
-      description = $3,
-      category = $4,
-      is_business = $5,
-      is_tax_relevant = $6,
-      tx_date = $7
-    WHERE user_id = $8
-      AND id = $9
-      AND transfer_group_id IS NULL
-    RETURNING id
-    `,
-    [
-      t.accountId,
-      t.amount,
-      t.description,
-      t.category ?? null,
-      t.isBusiness,
-      t.isTaxRelevant,
-      t.txDate,
-      guard.userId,
-      id,
-    ],
-  )
+  const client = await pool.connect()
+  try {
+    await client.query("BEGIN")
+
+    const cur = await client.query(
+      `
+      SELECT
+        tx_date::text AS tx_date,
+        amount::float8 AS amount,
+        vat_code,
+        net_amount::float8 AS net_amount,
+        vat_amount::float8 AS vat_amount
+      FROM transactions
+      WHERE user_id = $1
+        AND id = $2
+        AND transfer_group_id IS NULL
+      FOR UPDATE
+      `,
+      [guard.userId, id],
+    )
+    if (cur.rowCount === 0) {
+      await client.query("ROLLBACK")
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    // net and VAT follow the amount; a stored split stays as long as nothing changes it
+    const stored = cur.rows[0]
+    const vatCode: VatCode | null = t.vatCode === undefined ? stored.vat_code : t.vatCode
+    const vat =
+      vatCode === null
+        ? null
+        : vatCode === stored.vat_code && t.amount === stored.amount && stored.net_amount !== null
+          ? { net: stored.net_amount as number, vat: stored.vat_amount as number }
+          : splitGross(t.amount, vatCode)
 
-  if (r.rowCount === 0) return NextResponse.json({ error: "Not found" }, { status: 404 })
+    // payments allocated to invoices: the booking must still cover them
+    const allocated = await client.query(
+      `
+      SELECT invoice_id, SUM(amount)::float8 AS amount
+      FROM invoice_allocations
+      WHERE user_id = $1 AND transaction_id = $2
+      GROUP BY invoice_id
+      `,
+      [guard.userId, id],
+    )
+    const allocatedTotal = allocated.rows.reduce((s, a) => s + a.amount, 0)
+    if (allocated.rowCount && t.amount < allocatedTotal - 0.005) {
+      await client.query("ROLLBACK")
+      return NextResponse.json(
+        { error: "Amount is below the sum allocated to invoices" },
+        { status: 409 },
+      )
+    }
 
-  return NextResponse.json({ ok: true, id: r.rows[0].id })
+    const r = await client.query(
+      `
+      UPDATE transactions
+      SET
+        account_id = $1,
+        amount = $2,
+        description = $3,
+        category = $4,
+        is_business = $5,
+        is_tax_relevant = $6,
+        tx_date = $7,
+        vat_code = $8,
+        net_amount = $9,
+        vat_amount = $10
+      WHERE user_id = $11
+        AND id = $12
+      RETURNING id
+      `,
+      [
+        t.accountId,
+        t.amount,
+        t.description,
+        t.category ?? null,
+        t.isBusiness,
+        t.isTaxRelevant,
+        t.txDate,
+        vatCode,
+        vat?.net ?? null,
+        vat?.vat ?? null,
+        guard.userId,
+        id,
+      ],
+    )
+
+    if (allocated.rowCount) {
+      // payments dated by the booking move with it
+      await client.query(
+        `
+        UPDATE invoice_allocations
+        SET allocated_on = $3
+        WHERE user_id = $1 AND transaction_id = $2 AND allocated_on = $4
+        `,
+        [guard.userId, id, t.txDate, stored.tx_date],
+      )
+      for (const row of allocated.rows) {
+        await refreshInvoicePayment(client, guard.userId, row.invoice_id)
+      }
+    }
+
+    await client.query("COMMIT")
+    return NextResponse.json({ ok: true, id: r.rows[0].id })
+  } catch {
+    try {
+      await client.query("ROLLBACK")
+    } catch {}
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  } finally {
+    client.release()
+  }
 }
 
 export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
@@ -76,17 +160,43 @@ export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string
 
   const { id } = await ctx.params
 
-  const r = await pool.query(
-    `
+  const client = await pool.connect()
+  try {
+    await client.query("BEGIN")
+
+    // invoices this payment was allocated to get their open balance back
+    const allocated = await client.query(
+      `SELECT DISTINCT invoice_id FROM invoice_allocations WHERE user_id = $1 AND transaction_id = $2`,
+      [guard.userId, id],
+    )
+
+    const r = await client.query(
+      `
         DELETE FROM transactions
         WHERE user_id = $1
           AND id = $2
           AND transfer_group_id IS NULL
-    `,
-    [guard.userId, id],
-  )
+      `,
+      [guard.userId, id],
+    )
 
-  if (r.rowCount === 0) return NextResponse.json({ error: "Not found" }, { status: 404 })
+    if (r.rowCount === 0) {
+      await client.query("ROLLBACK")
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
 
-  return NextResponse.json({ ok: true, deleted: r.rowCount })
+    for (const row of allocated.rows) {
+      await refreshInvoicePayment(client, guard.userId, row.invoice_id)
+    }
+
+    await client.query("COMMIT")
+    return NextResponse.json({ ok: true, deleted: r.rowCount })
+  } catch {
+    try {
+      await client.query("ROLLBACK")
+    } catch {}
+    return NextResponse.json({ error: "Failed" }, { status: 500 })
+  } finally {
+    client.release()
+  }
 }
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { classifyImportRows, importCounts } from '@/lib/import/dedup';
+import { insertImportedTransactions } from '@/lib/import/store';
+
+// Rows are parsed in the browser (src/lib/import/csv.ts); this endpoint checks them
+// against booked transactions (dryRun) and books the new ones.
+const ImportRowSchema = z.object({
+  txDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  amount: z.number().finite(),
+  description: z.string().min(1).max(200),
+  counterparty: z.string().max(200).nullable(),
+  remittanceInfo: z.string().max(1000).nullable(),
+  bankReference: z.string().max(120).nullable(),
+});
+
+const ImportSchema = z.object({
+  accountId: z.string().uuid(),
+  source: z.literal('csv'),
+  rows: z.array(ImportRowSchema).min(1).max(5000),
+  dryRun: z.boolean().default(false),
+  includeConflicts: z.boolean().default(false),
+});
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = ImportSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const { accountId, source, rows, dryRun, includeConflicts } = parsed.data;
+
+  const acc = await pool.query(`SELECT 1 FROM accounts WHERE user_id = $1 AND id = $2`, [
+    guard.userId,
+    accountId,
+  ]);
+  if (!acc.rowCount)
+    return NextResponse.json({ error: 'Invalid account reference' }, { status: 400 });
+
+  const client = await pool.connect();
+  try {
+    if (dryRun) {
+      const classified = await classifyImportRows(client, guard.userId, accountId, rows);
+      return NextResponse.json({
+        ...importCounts(classified, includeConflicts),
+        statuses: classified.map((c) => c.status),
+      });
+    }
+
+    await client.query('BEGIN');
+    const result = await insertImportedTransactions(client, guard.userId, accountId, rows, source, {
+      includeConflicts,
+    });
+    await client.query('COMMIT');
+
+    const { created, skipped, conflicting, invoicesLinked, taxPaymentsLinked, statuses } = result;
+    return NextResponse.json(
+      { created, skipped, conflicting, invoicesLinked, taxPaymentsLinked, statuses },
+      { status: 201 },
+    );
+  } catch {
+    if (!dryRun) await client.query('ROLLBACK');
+    return NextResponse.json({ error: 'DB error' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
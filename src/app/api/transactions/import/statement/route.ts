@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pool } from '@/lib/db';
+import { requireApiUser } from '@/lib/authz';
+import { normalizeIban } from '@/lib/iban';
+import { parseStatement } from '@/lib/import/statement';
+import { checkStatementBalances, insertImportedTransactions } from '@/lib/import/store';
+import { classifyImportRows, importCounts } from '@/lib/import/dedup';
+import type { ImportCounts, ImportRowStatus, StatementChecks } from '@/lib/import/types';
+
+// CAMT.053 / MT940: parsed on the server, matched to accounts by IBAN.
+// dryRun (default) returns the preview incl. balance checks without booking anything.
+const StatementImportSchema = z.object({
+  content: z.string().min(1).max(5_000_000),
+  dryRun: z.boolean().default(true),
+  includeConflicts: z.boolean().default(false),
+  accountId: z.string().uuid().optional(), // fallback when a single statement has no known IBAN
+});
+
+type AccountRow = { id: string; name: string; iban: string | null };
+
+export async function POST(req: Request) {
+  const guard = await requireApiUser();
+  if (!guard.ok) return guard.res;
+
+  const body = await req.json().catch(() => null);
+  const parsed = StatementImportSchema.safeParse(body);
+  if (!parsed.success) return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+
+  const { content, dryRun, accountId, includeConflicts } = parsed.data;
+
+  const statements = parseStatement(content);
+  if (!statements.length) {
+    return NextResponse.json({ error: 'Unknown statement format' }, { status: 400 });
+  }
+
+  const acc = await pool.query(`SELECT id, name, iban FROM accounts WHERE user_id = $1`, [
+    guard.userId,
+  ]);
+  const accounts = acc.rows as AccountRow[];
+  const byIban = new Map(
+    accounts.filter((a) => a.iban).map((a) => [normalizeIban(a.iban as string), a]),
+  );
+
+  const fallback = accountId ? accounts.find((a) => a.id === accountId) : undefined;
+  if (accountId && !fallback) {
+    return NextResponse.json({ error: 'Invalid account reference' }, { status: 400 });
+  }
+
+  const matched = statements.map((s) => ({
+    statement: s,
+    account:
+      (s.iban ? byIban.get(s.iban) : undefined) ??
+      (statements.length === 1 ? fallback : undefined) ??
+      null,
+  }));
+
+  if (!dryRun) {
+    const unmatched = matched.find((m) => !m.account);
+    if (unmatched) {
+      return NextResponse.json(
+        { error: 'Unknown account', iban: unmatched.statement.iban },
+        { status: 400 },
+      );
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    if (!dryRun) await client.query('BEGIN');
+
+    const totals: ImportCounts = { created: 0, skipped: 0, conflicting: 0 };
+    const books = (s: ImportRowStatus) => s === 'new' || (includeConflicts && s === 'conflict');
+
+    const items = [];
+    for (const { statement, account } of matched) {
+      let checks: StatementChecks | null = null;
+      let statuses: ImportRowStatus[] | null = null;
+      let counts: ImportCounts | null = null;
+
+      if (account) {
+        if (dryRun) {
+          const classified = await classifyImportRows(
+            client,
+            guard.userId,
+            account.id,
+            statement.rows,
+          );
+          statuses = classified.map((c) => c.status);
+          counts = importCounts(classified, includeConflicts);
+        } else {
+          const res = await insertImportedTransactions(
+            client,
+            guard.userId,
+            account.id,
+            statement.rows,
+            statement.format,
+            { includeConflicts },
+          );
+          statuses = res.statuses;
+          counts = { created: res.created, skipped: res.skipped, conflicting: res.conflicting };
+          totals.invoicesLinked = (totals.invoicesLinked ?? 0) + (res.invoicesLinked ?? 0);
+          totals.taxPaymentsLinked = (totals.taxPaymentsLinked ?? 0) + (res.taxPaymentsLinked ?? 0);
+        }
+
+        const rowStatuses = statuses;
+        const affected = statement.rows.filter((_, i) => books(rowStatuses[i]));
+        checks = await checkStatementBalances(client, guard.userId, account.id, statement, {
+          pending: dryRun ? affected : [],
+          booked: dryRun ? [] : affected,
+        });
+
+        totals.created += counts.created;
+        totals.skipped += counts.skipped;
+        totals.conflicting += counts.conflicting;
+      }
+
+      items.push({
+        format: statement.format,
+        iban: statement.iban,
+        currency: statement.currency,
+        accountId: account?.id ?? null,
+        accountName: account?.name ?? null,
+        opening: statement.opening,
+        closing: statement.closing,
+        rows: statement.rows,
+        statuses,
+        counts,
+        checks,
+      });
+    }
+
+    if (!dryRun) await client.query('COMMIT');
+    return NextResponse.json({ items, ...totals }, { status: dryRun ? 200 : 201 });
+  } catch {
+    if (!dryRun) await client.query('ROLLBACK');
+    return NextResponse.json({ error: 'DB error' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -2,6 +2,12 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { pool } from '@/lib/db';
 import { requireApiUser } from '@/lib/authz';
+import { applyRules, mergeTags } from '@/lib/categorization/rules';
+import { loadCategoryRules } from '@/lib/categorization/store';
+import { formatDateOnly } from '@/lib/date-only';
+import { linkInvoicePayments } from '@/lib/invoices/store';
+import { linkTaxPaymentBookings } from '@/lib/tax/store';
+import { splitGross, VAT_CODES } from '@/lib/tax/vat';
 
 const QuerySchema = z.object({
   accountId: z.string().uuid().optional(),
@@ -28,8 +34,11 @@ const CreateTransactionSchema = z
     category: z.string().max(120).optional(),
     tags: z.array(z.string().max(40)).default([]),
 
-    isBusiness: z.boolean().default(false),
-    isTaxRelevant: z.boolean().default(false),
+    // undefined = let categorization rules decide (default false)
+    isBusiness: z.boolean().optional(),
+    isTaxRelevant: z.boolean().optional(),
+    // NORMAL, business: net and VAT are derived from the amount
+    vatCode: z.enum(VAT_CODES).nullable().optional(),
 
     txDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   })
@@ -46,6 +55,7 @@ const CreateTransactionSchema = z
         ctx.addIssue({ code: 'custom', message: 'from and to must differ' });
       if (v.amount <= 0) ctx.addIssue({ code: 'custom', message: 'amount must be > 0 for TRANSFER' });
       if (v.accountId) ctx.addIssue({ code: 'custom', message: 'No accountId for TRANSFER' });
+      if (v.vatCode) ctx.addIssue({ code: 'custom', message: 'No vatCode for TRANSFER' });
     }
   });
 
@@ -106,6 +116,9 @@ export async function GET(req: Request) {
             t.tags,
             t.is_business,
             t.is_tax_relevant,
+            t.vat_code,
+            t.net_amount::float8 as net_amount,
+            t.vat_amount::float8 as vat_amount,
             t.tx_date::text,
                 t.created_at,
             NULL::uuid as transfer_group_id
@@ -150,6 +163,9 @@ export async function GET(req: Request) {
             COALESCE(out.tags, inp.tags) as tags,
             (out.is_business OR inp.is_business) as is_business,
             (out.is_tax_relevant OR inp.is_tax_relevant) as is_tax_relevant,
+            NULL::text as vat_code,
+            NULL::float8 as net_amount,
+            NULL::float8 as vat_amount,
             COALESCE(out.tx_date, inp.tx_date)::text as tx_date,
                 LEAST(out.created_at, inp.created_at) as created_at,
             out.transfer_group_id
@@ -206,12 +222,27 @@ export async function POST(req: Request) {
     await client.query('BEGIN');
 
     if (t.kind === 'NORMAL') {
+      // rules only fill what the user left open
+      const rules = await loadCategoryRules(client, guard.userId);
+      const outcome = applyRules(rules, {
+        accountId: t.accountId!,
+        amount: t.amount,
+        description: t.description,
+        counterparty: null,
+        remittanceInfo: null,
+      });
+
+      // an explicit null keeps the booking without VAT
+      const vatCode = t.vatCode === undefined ? outcome.vatCode : t.vatCode;
+      const vat = vatCode ? splitGross(t.amount, vatCode) : null;
+
       const r = await client.query(
         `
         INSERT INTO transactions
-          (user_id, account_id, amount, description, category, tags, is_business, is_tax_relevant, tx_date)
+          (user_id, account_id, amount, description, category, tags, is_business, is_tax_relevant, tx_date,
+           vat_code, net_amount, vat_amount)
         VALUES
-          ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+          ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
         RETURNING id
         `,
         [
@@ -219,16 +250,37 @@ export async function POST(req: Request) {
           t.accountId!,
           t.amount,
           t.description,
-          t.category ?? null,
-          t.tags,
-          t.isBusiness,
-          t.isTaxRelevant,
+          t.category ?? outcome.category,
+          mergeTags(t.tags, outcome.tags),
+          t.isBusiness ?? outcome.isBusiness ?? false,
+          t.isTaxRelevant ?? outcome.isTaxRelevant ?? false,
           t.txDate,
+          vatCode,
+          vat?.net ?? null,
+          vat?.vat ?? null,
         ],
       );
 
+      // incoming payment that clearly pays an open invoice: book it as paid
+      const invoicesLinked =
+        t.amount > 0
+          ? await linkInvoicePayments(
+              client,
+              guard.userId,
+              [r.rows[0].id],
+              formatDateOnly(new Date()),
+            )
+          : 0;
+      // prepayment, refund or back-payment of income tax
+      const taxPaymentsLinked = await linkTaxPaymentBookings(client, guard.userId, [
+        r.rows[0].id,
+      ]);
+
       await client.query('COMMIT');
-      return NextResponse.json({ kind: 'NORMAL', id: r.rows[0].id }, { status: 201 });
+      return NextResponse.json(
+        { kind: 'NORMAL', id: r.rows[0].id, invoicesLinked, taxPaymentsLinked },
+        { status: 201 },
+      );
     }
 
     // TRANSFER: 2 legs, atomar
@@ -251,8 +303,8 @@ export async function POST(req: Request) {
         t.description,
         t.category ?? 'Transfer',
         t.tags,
-        t.isBusiness,
-        t.isTaxRelevant,
+        t.isBusiness ?? false,
+        t.isTaxRelevant ?? false,
         t.txDate,
         transferGroupId,
       ],
@@ -274,8 +326,8 @@ export async function POST(req: Request) {
         t.description,
         t.category ?? 'Transfer',
         t.tags,
-        t.isBusiness,
-        t.isTaxRelevant,
+        t.isBusiness ?? false,
+        t.isTaxRelevant ?? false,
         t.txDate,
         transferGroupId,
       ],
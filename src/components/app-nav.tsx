@@ -16,6 +16,7 @@ import {
   PiggyBank,
   ArrowLeftRight,
   Coins,
+  Landmark,
 } from "lucide-react";
 
 const nav = [
@@ -24,6 +25,7 @@ const nav = [
   { href: "/accounts", label: "Konten", icon: Wallet },
   { href: "/recurring", label: "Fixkosten", icon: Repeat },
   { href: "/income", label: "Einnahmen", icon: Coins },
+  { href: "/taxes", label: "Steuern", icon: Landmark },
   { href: "/budgets", label: "Budgets", icon: PiggyBank },
   { href: "/transactions", label: "Transaktionen", icon: ArrowLeftRight },
 ];
@@ -1,4 +1,7 @@
 import { pool } from '@/lib/db';
+import type { RecurringDeviation } from '@/lib/recurring/match';
+import { matchRecurringRange } from '@/lib/recurring/store';
+import { dateUTC, lastDayOfMonthUTC, monthBounds } from './dates';
 
 export type CashflowActualTx = {
   id: string;
@@ -15,18 +18,19 @@ export type CashflowActualTx = {
   transfer_leg: string | null;
 
   invoice_id: string | null;
+  recurring_id: string | null; // recurring item this transaction fulfils
 };
 
 export type CashflowActualItem =
   | { kind: 'tx'; tx: CashflowActualTx }
   | {
-  kind: 'transfer';
-  transferGroupId: string;
-  date: string;
-  title: string;
-  legs: CashflowActualTx[]; // typically 2
-  net: number; // for a filtered single account view this can be +/-; for "all accounts" will be 0
-};
+      kind: 'transfer';
+      transferGroupId: string;
+      date: string;
+      title: string;
+      legs: CashflowActualTx[]; // typically 2
+      net: number; // for a filtered single account view this can be +/-; for "all accounts" will be 0
+    };
 
 export type CashflowActualDay = {
   date: string;
@@ -52,27 +56,10 @@ export type CashflowActualMonthResponse = {
   };
 
   days: CashflowActualDay[];
-};
-
-function monthBounds(month: string) {
-  const [y, m] = month.split('-').map(Number);
-  const start = new Date(Date.UTC(y, m - 1, 1));
-  const end = new Date(Date.UTC(y, m, 1));
-  return {
-    startDate: start.toISOString().slice(0, 10),
-    endDateExclusive: end.toISOString().slice(0, 10),
-    year: y,
-    monthIndex0: m - 1,
-  };
-}
 
-function lastDayOfMonthUTC(year: number, monthIndex0: number) {
-  return new Date(Date.UTC(year, monthIndex0 + 1, 0)).getUTCDate();
-}
-
-function dateUTC(year: number, monthIndex0: number, day: number) {
-  return new Date(Date.UTC(year, monthIndex0, day)).toISOString().slice(0, 10);
-}
+  // missed payments, price changes and unexpected debits against recurring items
+  recurringDeviations: RecurringDeviation[];
+};
 
 function classify(amount: number) {
   return amount >= 0 ? { income: amount, expense: 0 } : { income: 0, expense: Math.abs(amount) };
@@ -107,7 +94,8 @@ export async function buildCashflowActualMonth(params: {
        category,
        transfer_group_id,
        transfer_leg,
-       invoice_id
+       invoice_id,
+       recurring_id
      FROM transactions
      WHERE user_id = $1
        AND tx_date >= $2::date
@@ -213,6 +201,12 @@ export async function buildCashflowActualMonth(params: {
     { income: 0, expense: 0, net: 0 },
   );
 
+  const { deviations } = await matchRecurringRange(pool, userId, {
+    from: startDate,
+    toExclusive: endDateExclusive,
+    accountId,
+  });
+
   return {
     month,
     startDate,
@@ -221,6 +215,7 @@ export async function buildCashflowActualMonth(params: {
     closingBalance: running,
     totals,
     days,
+    recurringDeviations: deviations,
   };
 }
 
@@ -261,3 +256,52 @@ async function getOpeningBalanceAllAccounts(userId: string, startDate: string) {
   const row = r.rows[0] as { initial_balance_sum: number; before_sum: number };
   return (row.initial_balance_sum ?? 0) + (row.before_sum ?? 0);
 }
+
+export type AccountOpeningBalance = {
+  id: string;
+  name: string;
+  type: 'PRIVATE' | 'BUSINESS' | 'TAX';
+  balance: number;
+};
+
+/**
+ * Same as getOpeningBalanceForAccount, but for every account of the user in one query.
+ */
+export async function getOpeningBalancesPerAccount(
+  userId: string,
+  startDate: string,
+): Promise<AccountOpeningBalance[]> {
+  const r = await pool.query(
+    `SELECT
+       a.id,
+       a.name,
+       a.type,
+       COALESCE(a.initial_balance::float8, 0) AS initial_balance,
+       COALESCE((
+         SELECT SUM(t.amount)::float8
+         FROM transactions t
+         WHERE t.user_id = $1
+           AND (t.account_id = a.id OR t.from_account_id = a.id OR t.to_account_id = a.id)
+           AND t.tx_date < $2::date
+       ), 0) AS before_sum
+     FROM accounts a
+     WHERE a.user_id = $1
+     ORDER BY a.created_at ASC`,
+    [userId, startDate],
+  );
+
+  return (
+    r.rows as {
+      id: string;
+      name: string;
+      type: AccountOpeningBalance['type'];
+      initial_balance: number;
+      before_sum: number;
+    }[]
+  ).map((row) => ({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    balance: (row.initial_balance ?? 0) + (row.before_sum ?? 0),
+  }));
+}
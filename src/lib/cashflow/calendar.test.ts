@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { adjustToBusinessDay, bankHolidays, isBusinessDay } from './calendar';
+
+describe('bankHolidays', () => {
+  it('derives the Easter holidays of the year', () => {
+    const days2025 = bankHolidays(2025);
+    expect(days2025.has('2025-04-18')).toBe(true); // Karfreitag
+    expect(days2025.has('2025-04-21')).toBe(true); // Ostermontag
+    expect(days2025.has('2025-05-29')).toBe(true); // Christi Himmelfahrt
+    expect(days2025.has('2025-06-09')).toBe(true); // Pfingstmontag
+    expect(bankHolidays(2024).has('2024-03-29')).toBe(true);
+  });
+});
+
+describe('isBusinessDay', () => {
+  it('excludes weekends, holidays and the days banks are closed', () => {
+    expect(isBusinessDay('2025-12-23')).toBe(true);
+    expect(isBusinessDay('2025-12-24')).toBe(false);
+    expect(isBusinessDay('2025-12-31')).toBe(false);
+    expect(isBusinessDay('2025-10-03')).toBe(false);
+    expect(isBusinessDay('2025-03-15')).toBe(false); // Saturday
+  });
+});
+
+describe('adjustToBusinessDay', () => {
+  it('moves dates by the rule', () => {
+    expect(adjustToBusinessDay('2025-12-24', 'NEXT')).toBe('2025-12-29');
+    expect(adjustToBusinessDay('2025-12-24', 'PREVIOUS')).toBe('2025-12-23');
+    expect(adjustToBusinessDay('2025-05-31', 'PREVIOUS')).toBe('2025-05-30');
+    expect(adjustToBusinessDay('2025-05-31', 'NONE')).toBe('2025-05-31');
+    expect(adjustToBusinessDay('2025-06-02', 'NEXT')).toBe('2025-06-02');
+  });
+});
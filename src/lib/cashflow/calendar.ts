@@ -0,0 +1,73 @@
+import { addDaysUTC, dateUTC } from './dates';
+
+// Bank-day calendar for scheduled events. Germany-wide public holidays plus
+// TARGET2 closing days and the days German banks are closed (24.12., 31.12.).
+
+export type BusinessDayRule = 'NONE' | 'PREVIOUS' | 'NEXT';
+
+export const BUSINESS_DAY_RULES = ['NONE', 'PREVIOUS', 'NEXT'] as const;
+
+function easterSunday(year: number) {
+  // Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dateUTC(year, month - 1, day);
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+export function bankHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const easter = easterSunday(year);
+  const days = new Set<string>([
+    dateUTC(year, 0, 1), // Neujahr (TARGET2)
+    addDaysUTC(easter, -2), // Karfreitag (TARGET2)
+    addDaysUTC(easter, 1), // Ostermontag (TARGET2)
+    dateUTC(year, 4, 1), // Tag der Arbeit (TARGET2)
+    addDaysUTC(easter, 39), // Christi Himmelfahrt
+    addDaysUTC(easter, 50), // Pfingstmontag
+    dateUTC(year, 9, 3), // Tag der Deutschen Einheit
+    dateUTC(year, 11, 24), // Heiligabend (Banken geschlossen)
+    dateUTC(year, 11, 25), // 1. Weihnachtstag (TARGET2)
+    dateUTC(year, 11, 26), // 2. Weihnachtstag (TARGET2)
+    dateUTC(year, 11, 31), // Silvester (Banken geschlossen)
+  ]);
+
+  holidayCache.set(year, days);
+  return days;
+}
+
+export function isBusinessDay(ymd: string) {
+  const weekday = new Date(`${ymd}T00:00:00Z`).getUTCDay(); // 0=Sun, 6=Sat
+  if (weekday === 0 || weekday === 6) return false;
+  return !bankHolidays(Number(ymd.slice(0, 4))).has(ymd);
+}
+
+/**
+ * Moves a date off weekends/bank holidays: PREVIOUS (e.g. salary arrives Friday)
+ * or NEXT (e.g. direct debits move to the next banking day).
+ */
+export function adjustToBusinessDay(ymd: string, rule: BusinessDayRule) {
+  if (rule === 'NONE') return ymd;
+  const step = rule === 'PREVIOUS' ? -1 : 1;
+  let d = ymd;
+  while (!isBusinessDay(d)) d = addDaysUTC(d, step);
+  return d;
+}
+
+// Shifts never exceed a few days (longest closure: 24.–26.12. plus a weekend).
+export const BUSINESS_DAY_MAX_SHIFT = 7;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { addDaysUTC, clampedDateUTC, daysBetween, monthBounds, monthsInRange } from './dates';
+
+describe('monthBounds', () => {
+  it('returns the half-open month across the year end', () => {
+    expect(monthBounds('2025-12')).toEqual({
+      startDate: '2025-12-01',
+      endDateExclusive: '2026-01-01',
+      year: 2025,
+      monthIndex0: 11,
+    });
+  });
+});
+
+describe('monthsInRange', () => {
+  it('lists every month the range touches', () => {
+    expect(monthsInRange('2025-11-15', '2026-02-01')).toEqual(['2025-11', '2025-12', '2026-01']);
+    expect(monthsInRange('2025-11-15', '2026-02-02')).toEqual([
+      '2025-11',
+      '2025-12',
+      '2026-01',
+      '2026-02',
+    ]);
+    expect(monthsInRange('2025-03-01', '2025-03-01')).toEqual([]);
+  });
+});
+
+describe('clampedDateUTC / addDaysUTC', () => {
+  it('clamps to the month length and rolls over month ends', () => {
+    expect(clampedDateUTC(2025, 1, 31)).toBe('2025-02-28');
+    expect(clampedDateUTC(2024, 1, 31)).toBe('2024-02-29');
+    expect(clampedDateUTC(2025, 3, 0)).toBe('2025-04-01');
+    expect(addDaysUTC('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDaysUTC('2025-01-01', -1)).toBe('2024-12-31');
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts calendar days, negative when b is earlier', () => {
+    expect(daysBetween('2025-02-15', '2025-03-01')).toBe(14);
+    expect(daysBetween('2025-03-30', '2025-03-31')).toBe(1); // daylight saving in Europe
+    expect(daysBetween('2026-01-03', '2025-12-20')).toBe(-14);
+  });
+});
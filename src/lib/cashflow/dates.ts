@@ -0,0 +1,58 @@
+// Date-only helpers for the cashflow builders. Everything is YYYY-MM-DD in UTC.
+
+export function monthBounds(month: string) {
+  const [y, m] = month.split('-').map(Number);
+  const start = new Date(Date.UTC(y, m - 1, 1));
+  const end = new Date(Date.UTC(y, m, 1));
+  return {
+    startDate: start.toISOString().slice(0, 10),
+    endDateExclusive: end.toISOString().slice(0, 10),
+    year: y,
+    monthIndex0: m - 1,
+  };
+}
+
+export function lastDayOfMonthUTC(year: number, monthIndex0: number) {
+  return new Date(Date.UTC(year, monthIndex0 + 1, 0)).getUTCDate();
+}
+
+export function dateUTC(year: number, monthIndex0: number, day: number) {
+  return new Date(Date.UTC(year, monthIndex0, day)).toISOString().slice(0, 10);
+}
+
+export function addDaysUTC(ymd: string, days: number) {
+  const d = new Date(`${ymd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// whole calendar days from a to b (negative if b is earlier)
+export function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86_400_000);
+}
+
+/**
+ * Every month (YYYY-MM) touched by [startDate, endDateExclusive).
+ */
+export function monthsInRange(startDate: string, endDateExclusive: string) {
+  const out: string[] = [];
+  let y = Number(startDate.slice(0, 4));
+  let m = Number(startDate.slice(5, 7)) - 1;
+  while (dateUTC(y, m, 1) < endDateExclusive) {
+    out.push(dateUTC(y, m, 1).slice(0, 7));
+    m += 1;
+    if (m === 12) {
+      m = 0;
+      y += 1;
+    }
+  }
+  return out;
+}
+
+/**
+ * Day of month clamped to the month length (31 -> 28/29/30 where needed).
+ */
+export function clampedDateUTC(year: number, monthIndex0: number, day: number) {
+  const last = lastDayOfMonthUTC(year, monthIndex0);
+  return dateUTC(year, monthIndex0, Math.min(Math.max(day, 1), last));
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { collectPlanEvents } from './engine';
+import type { CashflowEvent, CashflowEventSource, CashflowPlanSource } from './types';
+
+const source = (name: CashflowEventSource, dates: string[]): CashflowPlanSource => ({
+  source: name,
+  load: async () =>
+    dates.map(
+      (date): CashflowEvent => ({
+        id: `${name}:${date}`,
+        date,
+        amount: -10,
+        title: name,
+        source: name,
+      }),
+    ),
+});
+
+describe('collectPlanEvents', () => {
+  it('merges the sources by date and keeps the source order within a day', async () => {
+    const range = { userId: 'u1', startDate: '2025-03-01', endDateExclusive: '2025-04-01' };
+    const events = await collectPlanEvents(range, [
+      source('salary', ['2025-03-28']),
+      source('recurring', ['2025-03-28', '2025-03-01']),
+    ]);
+    expect(events.map((e) => e.id)).toEqual([
+      'recurring:2025-03-01',
+      'salary:2025-03-28',
+      'recurring:2025-03-28',
+    ]);
+  });
+
+  it('passes the range to every source', async () => {
+    const seen: string[] = [];
+    const spy: CashflowPlanSource = {
+      source: 'recurring',
+      load: async (r) => {
+        seen.push(`${r.userId} ${r.startDate} ${r.endDateExclusive}`);
+        return [];
+      },
+    };
+    await collectPlanEvents(
+      { userId: 'u1', startDate: '2025-03-01', endDateExclusive: '2025-04-01' },
+      [spy, spy],
+    );
+    expect(seen).toEqual(['u1 2025-03-01 2025-04-01', 'u1 2025-03-01 2025-04-01']);
+  });
+});
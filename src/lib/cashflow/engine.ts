@@ -0,0 +1,35 @@
+import type { CashflowEvent, CashflowPlanRange, CashflowPlanSource } from './types';
+import { recurringSource } from './sources/recurring';
+import { budgetReserveSource } from './sources/budgets';
+import { salarySource } from './sources/salary';
+import { invoiceSource } from './sources/invoices';
+import { commissionSource } from './sources/commission';
+import { vatSource } from './sources/vat';
+import { taxPaymentSource } from './sources/tax-payments';
+
+/**
+ * All plan sources, in the order their events appear on a day.
+ * Register new sources here so cashflow page, dashboard and forecast stay in sync.
+ */
+export const planSources: CashflowPlanSource[] = [
+  salarySource,
+  invoiceSource,
+  commissionSource,
+  vatSource,
+  taxPaymentSource,
+  recurringSource,
+  budgetReserveSource,
+];
+
+export async function collectPlanEvents(
+  range: CashflowPlanRange,
+  sources: CashflowPlanSource[] = planSources,
+): Promise<CashflowEvent[]> {
+  const perSource = await Promise.all(sources.map((s) => s.load(range)));
+
+  // stable: by date, then by source order above
+  return perSource
+    .flatMap((events, order) => events.map((e) => ({ e, order })))
+    .sort((a, b) => (a.e.date === b.e.date ? a.order - b.order : a.e.date < b.e.date ? -1 : 1))
+    .map(({ e }) => e);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { forecastWindow, projectCashflowForecast, UNASSIGNED_ACCOUNT } from './forecast';
+import type { CashflowEvent } from './types';
+
+const event = (date: string, amount: number, accountId: string | null = null): CashflowEvent => ({
+  id: `${date}:${amount}`,
+  date,
+  amount,
+  title: 'Plan',
+  source: 'recurring',
+  accountId,
+});
+
+describe('forecastWindow', () => {
+  it('rolls from tomorrow and reports from the requested month', () => {
+    expect(forecastWindow('2025-02', 1, '2025-01-30')).toEqual({
+      tomorrow: '2025-01-31',
+      startDate: '2025-02-01',
+      endDateExclusive: '2025-03-01',
+    });
+    // a window that already started is reported from tomorrow
+    expect(forecastWindow('2025-11', 3, '2025-12-15')).toEqual({
+      tomorrow: '2025-12-16',
+      startDate: '2025-12-16',
+      endDateExclusive: '2026-02-01',
+    });
+  });
+});
+
+describe('projectCashflowForecast', () => {
+  const forecast = projectCashflowForecast({
+    from: '2025-02',
+    months: 1,
+    asOf: '2025-01-30',
+    opening: [
+      { id: 'giro', name: 'Giro', type: 'PRIVATE', balance: 100 },
+      { id: 'biz', name: 'Geschäft', type: 'BUSINESS', balance: 50 },
+    ],
+    events: [
+      event('2025-01-31', -150, 'giro'), // before the window: rolled, not reported
+      event('2025-02-03', 200),
+      event('2025-02-10', -80, 'biz'),
+      event('2025-02-10', -20, 'deleted account'),
+    ],
+  });
+
+  it('reports every day of the window with the balances carried in', () => {
+    expect(forecast.days).toHaveLength(28);
+    expect(forecast.days[0]).toMatchObject({
+      date: '2025-02-01',
+      balances: { giro: -50, biz: 50, [UNASSIGNED_ACCOUNT]: 0 },
+      totalBalance: 0,
+    });
+    expect(forecast.days.find((d) => d.date === '2025-02-10')).toMatchObject({
+      income: 0,
+      expense: 100,
+      net: -100,
+      totalBalance: 100,
+    });
+  });
+
+  it('books events without a known account on the unassigned bucket', () => {
+    const byId = Object.fromEntries(forecast.accounts.map((a) => [a.id, a]));
+    expect(byId[UNASSIGNED_ACCOUNT]).toMatchObject({ closingBalance: 180, minBalance: 0 });
+    expect(byId.biz).toMatchObject({
+      openingBalance: 50,
+      closingBalance: -30,
+      minBalance: -30,
+      minBalanceDate: '2025-02-10',
+      firstNegativeDate: '2025-02-10',
+    });
+    // the low before the window still counts
+    expect(byId.giro).toMatchObject({
+      minBalanceDate: '2025-01-31',
+      firstNegativeDate: '2025-01-31',
+    });
+  });
+
+  it('sums only the reported days', () => {
+    expect(forecast.totals).toEqual({
+      income: 200,
+      expense: 100,
+      net: 100,
+      openingBalance: 150,
+      closingBalance: 100,
+      minBalance: 0,
+      minBalanceDate: '2025-01-31',
+      firstNegativeDate: null,
+    });
+  });
+});
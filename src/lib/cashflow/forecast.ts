@@ -0,0 +1,212 @@
+import { formatDateOnly } from '@/lib/date-only';
+import type { CashflowEvent } from './types';
+import { collectPlanEvents } from './engine';
+import { getOpeningBalancesPerAccount, type AccountOpeningBalance } from './actual';
+import { addDaysUTC, monthBounds } from './dates';
+
+// Bucket for plan events without an account (salary, invoices, ...).
+export const UNASSIGNED_ACCOUNT = 'unassigned';
+
+export type CashflowForecastAccount = {
+  id: string; // account id or UNASSIGNED_ACCOUNT
+  name: string;
+  type: 'PRIVATE' | 'BUSINESS' | 'TAX' | null;
+  openingBalance: number;
+  closingBalance: number;
+  minBalance: number;
+  minBalanceDate: string;
+  firstNegativeDate: string | null;
+};
+
+export type CashflowForecastDay = {
+  date: string;
+  income: number;
+  expense: number;
+  net: number;
+  events: CashflowEvent[];
+  balances: Record<string, number>; // per account id (incl. UNASSIGNED_ACCOUNT)
+  totalBalance: number;
+};
+
+export type CashflowForecastResponse = {
+  from: string; // YYYY-MM
+  months: number;
+  asOf: string; // balances are real up to and including this day
+  startDate: string; // first projected day
+  endDateExclusive: string;
+
+  accounts: CashflowForecastAccount[];
+
+  totals: {
+    income: number;
+    expense: number;
+    net: number;
+    openingBalance: number;
+    closingBalance: number;
+    minBalance: number;
+    minBalanceDate: string;
+    firstNegativeDate: string | null;
+  };
+
+  days: CashflowForecastDay[];
+};
+
+function trackLow(
+  acc: { minBalance: number; minBalanceDate: string; firstNegativeDate: string | null },
+  balance: number,
+  date: string,
+) {
+  if (balance < acc.minBalance) {
+    acc.minBalance = balance;
+    acc.minBalanceDate = date;
+  }
+  if (balance < 0 && !acc.firstNegativeDate) acc.firstNegativeDate = date;
+}
+
+// the forecast rolls every day from today, so `from` may lie at most this far ahead
+export const FORECAST_MAX_LEAD_MONTHS = 24;
+
+/**
+ * Days to roll: from the day after `asOf` to the end of the window; the reported
+ * window starts with month `from` (or tomorrow when that is later).
+ */
+export function forecastWindow(from: string, months: number, asOf: string) {
+  const tomorrow = addDaysUTC(asOf, 1);
+  const fromStart = monthBounds(from).startDate;
+  const [fy, fm] = from.split('-').map(Number);
+  const endMonth = new Date(Date.UTC(fy, fm - 1 + months, 1)).toISOString().slice(0, 7);
+  const endDateExclusive = monthBounds(endMonth).startDate;
+  const startDate = fromStart > tomorrow ? fromStart : tomorrow;
+  return { tomorrow, startDate, endDateExclusive };
+}
+
+/**
+ * Rolls the plan forward from today's real balances.
+ * Days before `from` (but after today) are still rolled so the first reported day is correct.
+ */
+export async function buildCashflowForecast(params: {
+  userId: string;
+  from: string; // YYYY-MM
+  months: number;
+  today?: string; // YYYY-MM-DD, defaults to server date
+}): Promise<CashflowForecastResponse> {
+  const { userId, from, months } = params;
+  const asOf = params.today ?? formatDateOnly(new Date());
+  const { tomorrow, endDateExclusive } = forecastWindow(from, months, asOf);
+
+  const opening = await getOpeningBalancesPerAccount(userId, tomorrow);
+  const events =
+    tomorrow < endDateExclusive
+      ? await collectPlanEvents({ userId, startDate: tomorrow, endDateExclusive })
+      : [];
+
+  return projectCashflowForecast({ from, months, asOf, opening, events });
+}
+
+/**
+ * Forecast from the balances at the end of `asOf` and the plan events after it
+ * (sorted by date, as collectPlanEvents returns them).
+ */
+export function projectCashflowForecast(params: {
+  from: string; // YYYY-MM
+  months: number;
+  asOf: string;
+  opening: AccountOpeningBalance[];
+  events: CashflowEvent[];
+}): CashflowForecastResponse {
+  const { from, months, asOf, opening, events } = params;
+  const { tomorrow, startDate, endDateExclusive } = forecastWindow(from, months, asOf);
+
+  const known = new Set(opening.map((a) => a.id));
+  const accounts = new Map<string, CashflowForecastAccount>();
+  for (const a of opening) {
+    accounts.set(a.id, {
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      openingBalance: a.balance,
+      closingBalance: a.balance,
+      minBalance: a.balance,
+      minBalanceDate: asOf,
+      firstNegativeDate: a.balance < 0 ? asOf : null,
+    });
+  }
+  accounts.set(UNASSIGNED_ACCOUNT, {
+    id: UNASSIGNED_ACCOUNT,
+    name: 'Nicht zugeordnet',
+    type: null,
+    openingBalance: 0,
+    closingBalance: 0,
+    minBalance: 0,
+    minBalanceDate: asOf,
+    firstNegativeDate: null,
+  });
+
+  const byDate = new Map<string, CashflowEvent[]>();
+  for (const e of events) byDate.set(e.date, [...(byDate.get(e.date) ?? []), e]);
+
+  const openingTotal = opening.reduce((s, a) => s + a.balance, 0);
+  const totals = {
+    income: 0,
+    expense: 0,
+    net: 0,
+    openingBalance: openingTotal,
+    closingBalance: openingTotal,
+    minBalance: openingTotal,
+    minBalanceDate: asOf,
+    firstNegativeDate: (openingTotal < 0 ? asOf : null) as string | null,
+  };
+
+  const days: CashflowForecastDay[] = [];
+
+  for (let date = tomorrow; date < endDateExclusive; date = addDaysUTC(date, 1)) {
+    const dayEvents = byDate.get(date) ?? [];
+    let income = 0;
+    let expense = 0;
+
+    for (const e of dayEvents) {
+      const key = e.accountId && known.has(e.accountId) ? e.accountId : UNASSIGNED_ACCOUNT;
+      accounts.get(key)!.closingBalance += e.amount;
+      if (e.amount >= 0) income += e.amount;
+      else expense += Math.abs(e.amount);
+    }
+
+    const net = income - expense;
+    totals.closingBalance += net;
+
+    const balances: Record<string, number> = {};
+    for (const a of accounts.values()) {
+      balances[a.id] = a.closingBalance;
+      trackLow(a, a.closingBalance, date);
+    }
+    trackLow(totals, totals.closingBalance, date);
+
+    // Only the requested window is reported; earlier days just carry balances forward.
+    if (date < startDate) continue;
+
+    totals.income += income;
+    totals.expense += expense;
+    totals.net += net;
+
+    days.push({
+      date,
+      income,
+      expense,
+      net,
+      events: dayEvents,
+      balances,
+      totalBalance: totals.closingBalance,
+    });
+  }
+
+  return {
+    from,
+    months,
+    asOf,
+    startDate,
+    endDateExclusive,
+    accounts: Array.from(accounts.values()),
+    totals,
+    days,
+  };
+}
@@ -1,13 +1,8 @@
-import { pool } from '@/lib/db';
+import type { CashflowEvent } from './types';
+import { collectPlanEvents } from './engine';
+import { dateUTC, lastDayOfMonthUTC, monthBounds } from './dates';
 
-export type CashflowPlanEvent = {
-  id: string;
-  date: string;      // YYYY-MM-DD
-  amount: number;    // signed (+ income)
-  title: string;
-  source: 'salary' | 'invoice' | 'recurring' | 'budget_reserve' | 'commission';
-  invoiceId?: string;
-};
+export type CashflowPlanEvent = CashflowEvent;
 
 export type CashflowPlanDay = {
   date: string;
@@ -15,6 +10,7 @@ export type CashflowPlanDay = {
   expense: number;
   net: number;
   events: CashflowPlanEvent[];
+  runningBalance: number; // cumulative plan net since month start
 };
 
 export type CashflowPlanMonthResponse = {
@@ -29,26 +25,6 @@ export type CashflowPlanMonthResponse = {
   days: CashflowPlanDay[];
 };
 
-function monthBounds(month: string) {
-  const [y, m] = month.split('-').map(Number);
-  const start = new Date(Date.UTC(y, m - 1, 1));
-  const end = new Date(Date.UTC(y, m, 1));
-  return {
-    startDate: start.toISOString().slice(0, 10),
-    endDateExclusive: end.toISOString().slice(0, 10),
-    year: y,
-    monthIndex0: m - 1,
-  };
-}
-
-function lastDayOfMonthUTC(year: number, monthIndex0: number) {
-  return new Date(Date.UTC(year, monthIndex0 + 1, 0)).getUTCDate();
-}
-
-function dateUTC(year: number, monthIndex0: number, day: number) {
-  return new Date(Date.UTC(year, monthIndex0, day)).toISOString().slice(0, 10);
-}
-
 export async function buildCashflowPlanMonth(params: {
   userId: string;
   month: string;
@@ -56,62 +32,7 @@ export async function buildCashflowPlanMonth(params: {
   const { userId, month } = params;
   const { startDate, endDateExclusive, year, monthIndex0 } = monthBounds(month);
 
-  const events: CashflowPlanEvent[] = [];
-
-  // Salary (active one)
-  const salary = await pool.query(
-    `SELECT
-       id,
-       payout_day,
-       net_amount::float8 AS net_amount
-     FROM salary_settings
-     WHERE user_id = $1 AND is_active = true
-     ORDER BY created_at DESC
-     LIMIT 1`,
-    [userId],
-  );
-
-  if (salary.rowCount ?? 0 > 0) {
-    const s = salary.rows[0] as { id: string; payout_day: number; net_amount: number };
-    const last = lastDayOfMonthUTC(year, monthIndex0);
-    const d = Math.min(Math.max(s.payout_day, 1), last);
-    const dt = dateUTC(year, monthIndex0, d);
-
-    events.push({
-      id: `salary:${s.id}:${dt}`,
-      date: dt,
-      amount: s.net_amount,
-      title: 'Gehalt',
-      source: 'salary',
-    });
-  }
-
-  // Invoices planned/sent in this month by expected_payment_date
-  const inv = await pool.query(
-    `SELECT
-       id,
-       customer_name,
-       expected_payment_date,
-       amount::float8 AS amount
-     FROM invoices
-     WHERE user_id = $1
-       AND status IN ('planned','sent')
-       AND expected_payment_date >= $2::date
-       AND expected_payment_date < $3::date
-     ORDER BY expected_payment_date ASC, created_at ASC`,
-    [userId, startDate, endDateExclusive],
-  );
-
-  for (const r of inv.rows as any[]) {
-    events.push({
-      id: `invoice:${r.id}`,
-      date: r.expected_payment_date,
-      amount: r.amount,
-      title: r.customer_name ? `Rechnung: ${r.customer_name}` : 'Rechnung',
-      source: 'invoice',
-      invoiceId: r.id,
-    });
-  }
+  const events = await collectPlanEvents({ userId, startDate, endDateExclusive });
 
   // Build days map
   const dayMap = new Map<string, CashflowPlanDay>();
@@ -120,7 +41,7 @@ export async function buildCashflowPlanMonth(params: {
   const last = lastDayOfMonthUTC(year, monthIndex0);
   for (let d = 1; d <= last; d++) {
     const dt = dateUTC(year, monthIndex0, d);
-    dayMap.set(dt, { date: dt, income: 0, expense: 0, net: 0, events: [] });
+    dayMap.set(dt, { date: dt, income: 0, expense: 0, net: 0, events: [], runningBalance: 0 });
   }
 
   for (const e of events) {
@@ -134,6 +55,12 @@ export async function buildCashflowPlanMonth(params: {
 
   const days = Array.from(dayMap.values()).sort((a, b) => (a.date < b.date ? -1 : 1));
 
+  let running = 0;
+  for (const d of days) {
+    running += d.net;
+    d.runningBalance = running;
+  }
+
   const totals = days.reduce(
     (acc, d) => {
       acc.income += d.income;
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import type { RecurringOccurrenceMatch } from '@/lib/recurring/match';
+import type { CashflowActualMonthResponse, CashflowActualTx } from './actual';
+import { addDaysUTC } from './dates';
+import type { CashflowPlanMonthResponse } from './plan';
+import { reconcileMonth, type CashflowReconcileEvent } from './reconcile';
+import type { CashflowEvent } from './types';
+
+const MONTH = { month: '2025-03', startDate: '2025-03-01', endDateExclusive: '2025-04-01' };
+const DATES = Array.from({ length: 31 }, (_, i) => addDaysUTC(MONTH.startDate, i));
+const TOTALS = { income: 0, expense: 0, net: 0 };
+
+const event = (
+  id: string,
+  date: string,
+  amount: number,
+  source: CashflowEvent['source'],
+  fields: Partial<CashflowEvent> = {},
+): CashflowEvent => ({ id, date, amount, title: id, source, ...fields });
+
+const tx = (id: string, date: string, amount: number, category: string | null = null) =>
+  ({
+    id,
+    tx_date: date,
+    account_id: 'giro',
+    from_account_id: null,
+    to_account_id: null,
+    amount,
+    description: id,
+    category,
+    transfer_group_id: null,
+    transfer_leg: null,
+    invoice_id: null,
+    recurring_id: null,
+  }) satisfies CashflowActualTx;
+
+const plan = (events: CashflowEvent[]): CashflowPlanMonthResponse => ({
+  ...MONTH,
+  totals: TOTALS,
+  days: DATES.map((date) => ({
+    date,
+    income: 0,
+    expense: 0,
+    net: 0,
+    events: events.filter((e) => e.date === date),
+    runningBalance: 0,
+  })),
+});
+
+const actual = (txs: CashflowActualTx[]): CashflowActualMonthResponse => ({
+  ...MONTH,
+  openingBalance: 1000,
+  closingBalance: 0,
+  totals: TOTALS,
+  days: DATES.map((date) => {
+    const booked = txs.filter((t) => t.tx_date === date);
+    return {
+      date,
+      income: 0,
+      expense: 0,
+      net: booked.reduce((s, t) => s + t.amount, 0),
+      items: booked.map((t) => ({ kind: 'tx' as const, tx: t })),
+      runningBalance: 0,
+    };
+  }),
+  recurringDeviations: [],
+});
+
+const occurrence = (
+  recurringId: string,
+  date: string,
+  status: RecurringOccurrenceMatch['status'],
+  transactionId: string | null = null,
+): RecurringOccurrenceMatch => ({
+  recurringId,
+  date,
+  expected: 0,
+  status,
+  transactionId,
+  actualDate: null,
+  actualAmount: transactionId ? -800 : null,
+  linked: true,
+});
+
+const paidInvoice: CashflowReconcileEvent = {
+  ...event('invoice:inv0', '2025-03-05', 1000, 'invoice', { invoiceId: 'inv0' }),
+  status: 'settled',
+  transactionId: 'p1',
+  actualAmount: 1000,
+  remaining: 0,
+};
+
+const result = reconcileMonth({
+  today: '2025-03-15',
+  plan: plan([
+    event('rent', '2025-03-01', -800, 'recurring', { recurringId: 'rent', category: 'Wohnen' }),
+    event('food', '2025-03-01', -200, 'budget_reserve', { category: 'Lebensmittel' }),
+    event('gym', '2025-03-05', -30, 'recurring', { recurringId: 'gym', category: 'Sport' }),
+    event('salary', '2025-03-10', 3000, 'salary'),
+    event('commission', '2025-03-12', 400, 'commission'),
+    event('invoice:inv1', '2025-03-20', 500, 'invoice', { invoiceId: 'inv1' }),
+  ]),
+  actual: actual([
+    tx('r1', '2025-03-02', -800),
+    tx('f1', '2025-03-03', -50, 'Lebensmittel'),
+    tx('p1', '2025-03-06', 1000),
+    tx('s1', '2025-03-11', 2950, 'Gehalt'),
+    tx('c1', '2025-03-12', 400), // allocated to an invoice, settles nothing else
+  ]),
+  occurrences: [
+    occurrence('rent', '2025-03-01', 'matched', 'r1'),
+    occurrence('gym', '2025-03-05', 'missed'),
+  ],
+  settled: [paidInvoice],
+  claimedTxIds: ['c1'],
+});
+
+describe('reconcileMonth', () => {
+  it('settles plan events by their bookings', () => {
+    const byId = Object.fromEntries(result.days.flatMap((d) => d.events).map((e) => [e.id, e]));
+    expect(byId.rent).toMatchObject({ status: 'settled', transactionId: 'r1', remaining: 0 });
+    expect(byId.gym).toMatchObject({ status: 'missed', remaining: 0 });
+    expect(byId.salary).toMatchObject({
+      status: 'settled',
+      transactionId: 's1',
+      actualAmount: 2950,
+    });
+    expect(byId.commission).toMatchObject({
+      status: 'overdue',
+      transactionId: null,
+      remaining: 400,
+    });
+    expect(byId.food).toMatchObject({ status: 'overdue', actualAmount: -50, remaining: -150 });
+    expect(byId['invoice:inv0']).toMatchObject({ status: 'settled', transactionId: 'p1' });
+    expect(byId['invoice:inv1']).toMatchObject({ status: 'open', remaining: 500 });
+  });
+
+  it('projects the open plan from today on', () => {
+    const day = (date: string) => result.days.find((d) => d.date === date)!;
+    expect(day('2025-03-15').remaining).toBe(250); // overdue reserve and commission
+    expect(day('2025-03-20').remaining).toBe(500);
+    expect(result.totals).toEqual({ planned: 3870, actual: 3500, variance: -370, remaining: 750 });
+    expect(result.projectedClosingBalance).toBe(5250);
+  });
+
+  it('books settling transactions under the category of their plan event', () => {
+    const byName = Object.fromEntries(result.categories.map((c) => [c.category, c]));
+    expect(byName.Wohnen).toMatchObject({ planned: -800, actual: -800, variance: 0 });
+    expect(byName.Gehalt).toMatchObject({ planned: 3000, actual: 2950, variance: -50 });
+    expect(byName.Rechnungen).toMatchObject({ planned: 1500, actual: 1000, remaining: 500 });
+    expect(byName['Ohne Kategorie']).toMatchObject({ planned: 0, actual: 400 });
+  });
+});
@@ -0,0 +1,436 @@
+import { pool } from '@/lib/db';
+import { formatDateOnly } from '@/lib/date-only';
+import {
+  DEFAULT_RECURRING_MATCH_OPTIONS,
+  type RecurringDeviation,
+  type RecurringOccurrenceMatch,
+} from '@/lib/recurring/match';
+import { matchRecurringRange } from '@/lib/recurring/store';
+import { taxPaymentCashflow, taxPaymentTitle, type TaxPaymentKind } from '@/lib/tax/income-tax';
+import {
+  buildCashflowActualMonth,
+  type CashflowActualItem,
+  type CashflowActualMonthResponse,
+  type CashflowActualTx,
+} from './actual';
+import { adjustToBusinessDay, BUSINESS_DAY_MAX_SHIFT, type BusinessDayRule } from './calendar';
+import { addDaysUTC } from './dates';
+import { buildCashflowPlanMonth, type CashflowPlanMonthResponse } from './plan';
+import type { CashflowEvent } from './types';
+
+// Plan vs. actual for one month. Plan events are settled by the transaction that
+// fulfilled them (recurring match, invoice payment, tax payment, salary booking); the projection
+// is actual-to-date plus whatever of the plan is still open.
+
+export type ReconcileEventStatus = 'settled' | 'open' | 'overdue' | 'missed';
+
+export type CashflowReconcileEvent = CashflowEvent & {
+  status: ReconcileEventStatus;
+  transactionId: string | null;
+  actualAmount: number | null; // what the settling transaction(s) booked
+  remaining: number; // part of the plan still expected, counted in the projection
+};
+
+export type CashflowReconcileDay = {
+  date: string;
+  planned: number;
+  actual: number;
+  variance: number; // actual - planned
+  remaining: number; // open plan projected onto this day
+  events: CashflowReconcileEvent[];
+  items: CashflowActualItem[];
+  runningBalance: number; // opening + actual to date + remaining plan
+};
+
+export type CashflowReconcileCategory = {
+  category: string;
+  planned: number;
+  actual: number;
+  variance: number;
+  remaining: number;
+};
+
+export type CashflowReconcileMonthResponse = {
+  month: string;
+  startDate: string;
+  endDateExclusive: string;
+  today: string;
+
+  openingBalance: number;
+  projectedClosingBalance: number;
+
+  totals: {
+    planned: number;
+    actual: number;
+    variance: number;
+    remaining: number;
+  };
+
+  days: CashflowReconcileDay[];
+  categories: CashflowReconcileCategory[];
+  recurringDeviations: RecurringDeviation[];
+};
+
+const UNCATEGORIZED = 'Ohne Kategorie';
+
+// plan events without a link to their booking, settled by amount and date
+const ESTIMATED_SOURCES: CashflowEvent['source'][] = ['salary', 'commission', 'vat'];
+
+function planCategory(e: CashflowEvent) {
+  if (e.category) return e.category;
+  if (e.source === 'salary') return 'Gehalt';
+  if (e.source === 'invoice') return 'Rechnungen';
+  if (e.source === 'commission') return 'Provision';
+  return UNCATEGORIZED;
+}
+
+type PaidInvoiceRow = {
+  id: string;
+  customer_name: string;
+  expected_payment_date: string;
+  amount: number;
+  business_day_rule: BusinessDayRule;
+  paid_tx_id: string | null;
+  paid_amount: number | null;
+};
+
+// Paid invoices drop out of the plan sources; for the comparison they are plan events too.
+async function loadPaidInvoiceEvents(userId: string, startDate: string, endDateExclusive: string) {
+  const r = await pool.query(
+    `SELECT
+       i.id,
+       i.customer_name,
+       i.expected_payment_date::text AS expected_payment_date,
+       i.amount::float8 AS amount,
+       i.business_day_rule,
+       i.paid_tx_id,
+       (SELECT sum(a.amount)
+        FROM invoice_allocations a
+        WHERE a.invoice_id = i.id AND a.kind = 'payment')::float8 AS paid_amount
+     FROM invoices i
+     WHERE i.user_id = $1
+       AND i.status = 'paid'
+       AND i.expected_payment_date >= $2::date - $4::int
+       AND i.expected_payment_date < $3::date + $4::int`,
+    [userId, startDate, endDateExclusive, BUSINESS_DAY_MAX_SHIFT],
+  );
+
+  const out: CashflowReconcileEvent[] = [];
+  for (const row of r.rows as PaidInvoiceRow[]) {
+    const date = adjustToBusinessDay(row.expected_payment_date, row.business_day_rule);
+    if (date < startDate || date >= endDateExclusive) continue;
+    out.push({
+      id: `invoice:${row.id}`,
+      date,
+      amount: row.amount,
+      title: row.customer_name ? `Rechnung: ${row.customer_name}` : 'Rechnung',
+      source: 'invoice',
+      invoiceId: row.id,
+      status: 'settled',
+      transactionId: row.paid_tx_id,
+      actualAmount: row.paid_amount ?? row.amount,
+      remaining: 0,
+    });
+  }
+  return out;
+}
+
+type LinkedTaxPaymentRow = {
+  id: string;
+  kind: TaxPaymentKind;
+  tax_year: number;
+  due_date: string;
+  amount: number;
+  transaction_id: string;
+  tx_amount: number;
+};
+
+// Booked tax payments drop out of the plan source, like paid invoices.
+async function loadLinkedTaxPaymentEvents(
+  userId: string,
+  startDate: string,
+  endDateExclusive: string,
+) {
+  const r = await pool.query(
+    `SELECT
+       p.id,
+       p.kind,
+       p.tax_year,
+       p.due_date::text AS due_date,
+       p.amount::float8 AS amount,
+       p.transaction_id,
+       t.amount::float8 AS tx_amount
+     FROM tax_payments p
+     JOIN transactions t ON t.id = p.transaction_id
+     WHERE p.user_id = $1
+       AND p.due_date >= $2
+       AND p.due_date < $3`,
+    [userId, startDate, endDateExclusive],
+  );
+
+  return (r.rows as LinkedTaxPaymentRow[]).map(
+    (row): CashflowReconcileEvent => ({
+      id: `tax_payment:${row.id}`,
+      date: row.due_date,
+      amount: taxPaymentCashflow(row.kind, row.amount),
+      title: taxPaymentTitle({ kind: row.kind, taxYear: row.tax_year, dueDate: row.due_date }),
+      source: 'tax_payment',
+      category: 'Steuern',
+      taxPaymentId: row.id,
+      status: 'settled',
+      transactionId: row.transaction_id,
+      actualAmount: row.tx_amount,
+      remaining: 0,
+    }),
+  );
+}
+
+// Transactions allocated to invoices (instalments included) settle nothing else.
+async function loadAllocatedTransactionIds(
+  userId: string,
+  startDate: string,
+  endDateExclusive: string,
+) {
+  const r = await pool.query(
+    `SELECT DISTINCT a.transaction_id
+     FROM invoice_allocations a
+     JOIN transactions t ON t.id = a.transaction_id
+     WHERE a.user_id = $1
+       AND t.tx_date >= $2::date
+       AND t.tx_date < $3::date`,
+    [userId, startDate, endDateExclusive],
+  );
+  return r.rows.map((row) => row.transaction_id as string);
+}
+
+export async function buildCashflowReconcileMonth(params: {
+  userId: string;
+  month: string;
+  today?: string;
+}): Promise<CashflowReconcileMonthResponse> {
+  const { userId, month } = params;
+  const today = params.today ?? formatDateOnly(new Date());
+
+  const [plan, actual] = await Promise.all([
+    buildCashflowPlanMonth({ userId, month }),
+    buildCashflowActualMonth({ userId, month }),
+  ]);
+  const { startDate, endDateExclusive } = plan;
+
+  const [recurring, paidInvoices, taxPayments, allocatedTxIds] = await Promise.all([
+    matchRecurringRange(pool, userId, { from: startDate, toExclusive: endDateExclusive }),
+    loadPaidInvoiceEvents(userId, startDate, endDateExclusive),
+    loadLinkedTaxPaymentEvents(userId, startDate, endDateExclusive),
+    loadAllocatedTransactionIds(userId, startDate, endDateExclusive),
+  ]);
+
+  return reconcileMonth({
+    today,
+    plan,
+    actual,
+    occurrences: recurring.occurrences,
+    settled: [...paidInvoices, ...taxPayments],
+    claimedTxIds: allocatedTxIds,
+  });
+}
+
+/**
+ * Plan vs. actual from the loaded month: `settled` are plan events already linked
+ * to their booking, `claimedTxIds` bookings that settle no other plan event.
+ */
+export function reconcileMonth(params: {
+  today: string;
+  plan: CashflowPlanMonthResponse;
+  actual: CashflowActualMonthResponse;
+  occurrences: RecurringOccurrenceMatch[];
+  settled: CashflowReconcileEvent[];
+  claimedTxIds: string[];
+}): CashflowReconcileMonthResponse {
+  const { today, plan, actual, settled } = params;
+  const { month, startDate, endDateExclusive } = plan;
+
+  // transfers net out across accounts and never settle plan events
+  const txs: CashflowActualTx[] = actual.days.flatMap((d) =>
+    d.items.flatMap((i) => (i.kind === 'tx' ? [i.tx] : [])),
+  );
+  const used = new Set<string>(params.claimedTxIds);
+  for (const e of settled) if (e.transactionId) used.add(e.transactionId);
+
+  const occurrences = new Map(params.occurrences.map((o) => [`${o.recurringId}|${o.date}`, o]));
+  const window = DEFAULT_RECURRING_MATCH_OPTIONS.dateWindowDays;
+  const tolerance = DEFAULT_RECURRING_MATCH_OPTIONS.amountTolerance;
+
+  const pendingStatus = (date: string): ReconcileEventStatus => (date < today ? 'overdue' : 'open');
+
+  const events: CashflowReconcileEvent[] = plan.days.flatMap((d) =>
+    d.events.map((e) => ({
+      ...e,
+      status: pendingStatus(e.date),
+      transactionId: null,
+      actualAmount: null,
+      remaining: e.amount,
+    })),
+  );
+
+  // recurring: linked/matched occurrences
+  for (const e of events) {
+    if (e.source !== 'recurring' || !e.recurringId) continue;
+    const o = occurrences.get(`${e.recurringId}|${e.date}`);
+    if (!o) continue;
+    if (o.status === 'matched') {
+      e.status = 'settled';
+      e.transactionId = o.transactionId;
+      e.actualAmount = o.actualAmount;
+      e.remaining = 0;
+      if (o.transactionId) used.add(o.transactionId);
+    } else if (o.status === 'missed') {
+      e.status = 'missed';
+      e.remaining = 0;
+    }
+  }
+
+  // open invoices settled by a transaction carrying the invoice id (paid but not marked)
+  for (const e of events) {
+    if (e.source !== 'invoice' || !e.invoiceId) continue;
+    const tx = txs.find((t) => t.invoice_id === e.invoiceId && !used.has(t.id));
+    if (!tx) continue;
+    e.status = 'settled';
+    e.transactionId = tx.id;
+    e.actualAmount = tx.amount;
+    e.remaining = 0;
+    used.add(tx.id);
+  }
+
+  // salary, other income and tax payments: nearest unclaimed booking of similar size
+  for (const e of events) {
+    if (e.status === 'settled' || !ESTIMATED_SOURCES.includes(e.source)) continue;
+    const lo = addDaysUTC(e.date, -window);
+    const hi = addDaysUTC(e.date, window);
+    const tx = txs
+      .filter(
+        (t) =>
+          !used.has(t.id) &&
+          t.tx_date >= lo &&
+          t.tx_date <= hi &&
+          Math.sign(t.amount) === Math.sign(e.amount) &&
+          Math.abs(t.amount - e.amount) <= Math.abs(e.amount) * tolerance,
+      )
+      .sort((a, b) => Math.abs(a.amount - e.amount) - Math.abs(b.amount - e.amount))[0];
+    if (!tx) continue;
+    e.status = 'settled';
+    e.transactionId = tx.id;
+    e.actualAmount = tx.amount;
+    e.remaining = 0;
+    used.add(tx.id);
+  }
+
+  // budgets: the reserve is used up by unclaimed spending in its category
+  for (const e of events) {
+    if (e.source !== 'budget_reserve') continue;
+    const spent = txs
+      .filter(
+        (t) =>
+          !used.has(t.id) &&
+          t.amount < 0 &&
+          t.category === e.category &&
+          (!e.accountId || t.account_id === e.accountId),
+      )
+      .reduce((s, t) => s + t.amount, 0);
+    e.actualAmount = spent;
+    e.remaining = Math.min(0, e.amount - spent);
+    e.status = e.remaining === 0 ? 'settled' : pendingStatus(e.date);
+  }
+
+  events.push(...settled);
+  events.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  // days
+  const dayMap = new Map<string, CashflowReconcileDay>();
+  for (const d of actual.days) {
+    dayMap.set(d.date, {
+      date: d.date,
+      planned: 0,
+      actual: d.net,
+      variance: 0,
+      remaining: 0,
+      events: [],
+      items: d.items,
+      runningBalance: 0,
+    });
+  }
+
+  // open plan counts from today on; overdue plan is still expected, so it moves to today
+  const monthOpen = today < endDateExclusive;
+
+  for (const e of events) {
+    const day = dayMap.get(e.date);
+    if (!day) continue;
+    day.planned += e.amount;
+    day.events.push(e);
+
+    if (!monthOpen || e.remaining === 0) continue;
+    const target = dayMap.get(e.date < today ? today : e.date);
+    if (target) target.remaining += e.remaining;
+  }
+
+  const days = Array.from(dayMap.values()).sort((a, b) => (a.date < b.date ? -1 : 1));
+  let running = actual.openingBalance;
+  for (const d of days) {
+    d.variance = d.actual - d.planned;
+    running += d.actual + d.remaining;
+    d.runningBalance = running;
+  }
+
+  // categories: settled plan and its transaction count under the plan's category
+  const catMap = new Map<string, CashflowReconcileCategory>();
+  const cat = (name: string) => {
+    const c = catMap.get(name) ?? {
+      category: name,
+      planned: 0,
+      actual: 0,
+      variance: 0,
+      remaining: 0,
+    };
+    catMap.set(name, c);
+    return c;
+  };
+
+  const settledBy = new Map<string, string>();
+  for (const e of events) {
+    const c = cat(planCategory(e));
+    c.planned += e.amount;
+    if (monthOpen) c.remaining += e.remaining;
+    if (e.transactionId) settledBy.set(e.transactionId, planCategory(e));
+  }
+  for (const t of txs) {
+    cat(settledBy.get(t.id) ?? t.category ?? UNCATEGORIZED).actual += t.amount;
+  }
+
+  const categories = Array.from(catMap.values())
+    .map((c) => ({ ...c, variance: c.actual - c.planned }))
+    .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
+
+  const totals = days.reduce(
+    (acc, d) => {
+      acc.planned += d.planned;
+      acc.actual += d.actual;
+      acc.remaining += d.remaining;
+      return acc;
+    },
+    { planned: 0, actual: 0, variance: 0, remaining: 0 },
+  );
+  totals.variance = totals.actual - totals.planned;
+
+  return {
+    month,
+    startDate,
+    endDateExclusive,
+    today,
+    openingBalance: actual.openingBalance,
+    projectedClosingBalance: running,
+    totals,
+    days,
+    categories,
+    recurringDeviations: actual.recurringDeviations,
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  nextOccurrence,
+  occurrencesBetween,
+  occurrencesPerMonth,
+  recurrenceFromRow,
+  type RecurrenceRule,
+} from './recurrence';
+
+const rule = (fields: Partial<RecurrenceRule>): RecurrenceRule => ({
+  intervalType: 'MONTHLY',
+  intervalCount: 1,
+  startDate: '2025-01-01',
+  endDate: null,
+  monthRule: 'DAY_OF_MONTH',
+  dayOfMonth: null,
+  weekday: null,
+  weekOfMonth: null,
+  businessDayRule: 'NONE',
+  ...fields,
+});
+
+describe('occurrencesBetween', () => {
+  it('clamps the day of month to short months', () => {
+    expect(
+      occurrencesBetween(rule({ startDate: '2025-01-31' }), '2025-01-01', '2025-05-01'),
+    ).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    expect(
+      occurrencesBetween(
+        rule({ intervalType: 'YEARLY', startDate: '2024-02-29' }),
+        '2025-01-01',
+        '2029-01-01',
+      ),
+    ).toEqual(['2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']);
+  });
+
+  it('keeps the week rhythm from the start date', () => {
+    expect(
+      occurrencesBetween(
+        rule({ intervalType: 'WEEKLY', intervalCount: 2, startDate: '2025-01-06' }),
+        '2025-01-10',
+        '2025-02-10',
+      ),
+    ).toEqual(['2025-01-20', '2025-02-03']);
+  });
+
+  it('picks the nth or last weekday and the last business day', () => {
+    const window = ['2025-01-01', '2025-04-01'] as const;
+    expect(
+      occurrencesBetween(rule({ monthRule: 'NTH_WEEKDAY', weekday: 2, weekOfMonth: 2 }), ...window),
+    ).toEqual(['2025-01-14', '2025-02-11', '2025-03-11']);
+    expect(
+      occurrencesBetween(
+        rule({ monthRule: 'NTH_WEEKDAY', weekday: 5, weekOfMonth: -1 }),
+        ...window,
+      ),
+    ).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+    expect(
+      occurrencesBetween(rule({ monthRule: 'LAST_BUSINESS_DAY' }), '2025-05-01', '2026-01-01'),
+    ).toEqual([
+      '2025-05-30',
+      '2025-06-30',
+      '2025-07-31',
+      '2025-08-29',
+      '2025-09-30',
+      '2025-10-31',
+      '2025-11-28',
+      '2025-12-30',
+    ]);
+  });
+
+  it('stops at the inclusive end date', () => {
+    expect(
+      occurrencesBetween(
+        rule({ intervalType: 'QUARTERLY', startDate: '2025-01-15', endDate: '2025-07-15' }),
+        '2025-01-01',
+        '2026-01-01',
+      ),
+    ).toEqual(['2025-01-15', '2025-04-15', '2025-07-15']);
+  });
+
+  it('shifts off weekends and holidays, also into the window', () => {
+    const first = rule({ businessDayRule: 'NEXT' });
+    expect(occurrencesBetween(first, '2025-01-01', '2025-04-01')).toEqual([
+      '2025-01-02',
+      '2025-02-03',
+      '2025-03-03',
+    ]);
+    // scheduled on Saturday 1 February, booked on Monday
+    expect(occurrencesBetween(first, '2025-02-02', '2025-02-10')).toEqual(['2025-02-03']);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('is null once the rule has ended', () => {
+    const r = rule({ startDate: '2025-01-15', endDate: '2025-03-15' });
+    expect(nextOccurrence(r, '2025-02-16')).toBe('2025-03-15');
+    expect(nextOccurrence(r, '2025-03-16')).toBeNull();
+  });
+});
+
+describe('recurrenceFromRow / occurrencesPerMonth', () => {
+  it('fills defaults from a database row', () => {
+    expect(
+      recurrenceFromRow({
+        interval_type: 'QUARTERLY',
+        interval_count: null,
+        start_date: '2025-01-15T00:00:00.000Z',
+        end_date: null,
+        month_rule: null,
+        day_of_month: null,
+        weekday: null,
+        week_of_month: null,
+        business_day_rule: null,
+      }),
+    ).toEqual(rule({ intervalType: 'QUARTERLY', startDate: '2025-01-15' }));
+    expect(occurrencesPerMonth({ intervalType: 'QUARTERLY', intervalCount: 1 })).toBeCloseTo(1 / 3);
+    expect(occurrencesPerMonth({ intervalType: 'WEEKLY', intervalCount: 2 })).toBeCloseTo(52 / 24);
+  });
+});
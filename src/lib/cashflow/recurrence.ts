@@ -0,0 +1,162 @@
+import { addDaysUTC, clampedDateUTC, dateUTC, daysBetween, lastDayOfMonthUTC } from './dates';
+import {
+  adjustToBusinessDay,
+  BUSINESS_DAY_MAX_SHIFT,
+  isBusinessDay,
+  type BusinessDayRule,
+} from './calendar';
+
+// Shared occurrence generator for recurring items (plan, forecast, recurring page).
+// Pure date-only logic (YYYY-MM-DD, UTC), so it runs on server and client alike.
+
+export type RecurrenceIntervalType = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'HALF_YEARLY' | 'YEARLY';
+
+// How the day inside an occurrence month is picked (ignored for WEEKLY).
+export type RecurrenceMonthRule = 'DAY_OF_MONTH' | 'LAST_BUSINESS_DAY' | 'NTH_WEEKDAY';
+
+export type RecurrenceRule = {
+  intervalType: RecurrenceIntervalType;
+  intervalCount: number; // every N weeks / months / quarters / ...
+  startDate: string;
+  endDate: string | null; // inclusive
+  monthRule: RecurrenceMonthRule;
+  dayOfMonth: number | null; // DAY_OF_MONTH, defaults to the day of startDate
+  weekday: number | null; // ISO 1=Mon..7=Sun; WEEKLY and NTH_WEEKDAY, defaults to startDate's weekday
+  weekOfMonth: number | null; // NTH_WEEKDAY: 1..5, -1 = last
+  businessDayRule: BusinessDayRule; // shift off weekends/bank holidays
+};
+
+export type RecurrenceRow = {
+  interval_type: RecurrenceIntervalType;
+  interval_count: number | null;
+  start_date: string;
+  end_date: string | null;
+  month_rule: RecurrenceMonthRule | null;
+  day_of_month: number | null;
+  weekday: number | null;
+  week_of_month: number | null;
+  business_day_rule: BusinessDayRule | null;
+};
+
+const MONTHS_PER_INTERVAL: Record<Exclude<RecurrenceIntervalType, 'WEEKLY'>, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  HALF_YEARLY: 6,
+  YEARLY: 12,
+};
+
+export function recurrenceFromRow(row: RecurrenceRow): RecurrenceRule {
+  return {
+    intervalType: row.interval_type,
+    intervalCount: Math.max(1, row.interval_count ?? 1),
+    startDate: row.start_date.slice(0, 10),
+    endDate: row.end_date ? row.end_date.slice(0, 10) : null,
+    monthRule: row.month_rule ?? 'DAY_OF_MONTH',
+    dayOfMonth: row.day_of_month,
+    weekday: row.weekday,
+    weekOfMonth: row.week_of_month,
+    businessDayRule: row.business_day_rule ?? 'NONE',
+  };
+}
+
+export function isoWeekday(ymd: string) {
+  const d = new Date(`${ymd}T00:00:00Z`).getUTCDay(); // 0=Sun
+  return ((d + 6) % 7) + 1;
+}
+
+function lastBusinessDay(year: number, monthIndex0: number) {
+  let d = dateUTC(year, monthIndex0, lastDayOfMonthUTC(year, monthIndex0));
+  while (!isBusinessDay(d)) d = addDaysUTC(d, -1);
+  return d;
+}
+
+function nthWeekday(year: number, monthIndex0: number, weekday: number, n: number) {
+  const first = dateUTC(year, monthIndex0, 1);
+  const firstMatch = addDaysUTC(first, (weekday - isoWeekday(first) + 7) % 7);
+  const last = lastDayOfMonthUTC(year, monthIndex0);
+
+  // n = -1 (or a 5th that does not exist) -> last such weekday of the month
+  let day = Number(firstMatch.slice(8, 10)) + (n > 0 ? n - 1 : 4) * 7;
+  while (day > last) day -= 7;
+  return dateUTC(year, monthIndex0, day);
+}
+
+function dayInMonth(rule: RecurrenceRule, year: number, monthIndex0: number) {
+  const startDay = Number(rule.startDate.slice(8, 10));
+
+  if (rule.monthRule === 'LAST_BUSINESS_DAY') return lastBusinessDay(year, monthIndex0);
+
+  if (rule.monthRule === 'NTH_WEEKDAY') {
+    const weekday = rule.weekday ?? isoWeekday(rule.startDate);
+    const n = rule.weekOfMonth ?? Math.ceil(startDay / 7);
+    return nthWeekday(year, monthIndex0, weekday, n);
+  }
+
+  return clampedDateUTC(year, monthIndex0, rule.dayOfMonth ?? startDay);
+}
+
+/**
+ * All occurrence dates in [from, toExclusive), bounded by startDate/endDate of the rule
+ * and shifted by its business-day rule.
+ */
+export function occurrencesBetween(rule: RecurrenceRule, from: string, toExclusive: string) {
+  if (rule.businessDayRule === 'NONE') return scheduledBetween(rule, from, toExclusive);
+
+  // A shifted date may come from just outside the window, so scan a little wider.
+  const scheduled = scheduledBetween(
+    rule,
+    addDaysUTC(from, -BUSINESS_DAY_MAX_SHIFT),
+    addDaysUTC(toExclusive, BUSINESS_DAY_MAX_SHIFT),
+  );
+
+  return scheduled
+    .map((d) => adjustToBusinessDay(d, rule.businessDayRule))
+    .filter((d) => d >= from && d < toExclusive);
+}
+
+function scheduledBetween(rule: RecurrenceRule, from: string, toExclusive: string) {
+  const lower = from > rule.startDate ? from : rule.startDate;
+  const endExclusive = rule.endDate ? addDaysUTC(rule.endDate, 1) : null;
+  const upper = endExclusive && endExclusive < toExclusive ? endExclusive : toExclusive;
+
+  const out: string[] = [];
+  if (lower >= upper) return out;
+
+  if (rule.intervalType === 'WEEKLY') {
+    const weekday = rule.weekday ?? isoWeekday(rule.startDate);
+    const first = addDaysUTC(rule.startDate, (weekday - isoWeekday(rule.startDate) + 7) % 7);
+    const step = 7 * rule.intervalCount;
+
+    const skip = first < lower ? Math.ceil(daysBetween(first, lower) / step) : 0;
+    for (let d = addDaysUTC(first, skip * step); d < upper; d = addDaysUTC(d, step)) out.push(d);
+    return out;
+  }
+
+  const step = MONTHS_PER_INTERVAL[rule.intervalType] * rule.intervalCount;
+  const startIdx = Number(rule.startDate.slice(0, 4)) * 12 + Number(rule.startDate.slice(5, 7)) - 1;
+  const lowerIdx = Number(lower.slice(0, 4)) * 12 + Number(lower.slice(5, 7)) - 1;
+
+  let idx = startIdx + Math.max(0, Math.ceil((lowerIdx - startIdx) / step)) * step;
+  for (; dateUTC(Math.floor(idx / 12), idx % 12, 1) < upper; idx += step) {
+    const d = dayInMonth(rule, Math.floor(idx / 12), idx % 12);
+    if (d >= lower && d < upper) out.push(d);
+  }
+  return out;
+}
+
+/**
+ * First occurrence on or after `onOrAfter`, or null if the rule has ended.
+ */
+export function nextOccurrence(rule: RecurrenceRule, onOrAfter: string) {
+  const horizon = addDaysUTC(onOrAfter, 370 * rule.intervalCount);
+  return occurrencesBetween(rule, onOrAfter, horizon)[0] ?? null;
+}
+
+/**
+ * Average number of occurrences per month (WEEKLY ≈ 52/12).
+ */
+export function occurrencesPerMonth(rule: Pick<RecurrenceRule, 'intervalType' | 'intervalCount'>) {
+  const count = Math.max(1, rule.intervalCount);
+  if (rule.intervalType === 'WEEKLY') return 52 / 12 / count;
+  return 1 / (MONTHS_PER_INTERVAL[rule.intervalType] * count);
+}
@@ -0,0 +1,45 @@
+import { pool } from '@/lib/db';
+import type { CashflowPlanSource } from '../types';
+
+// Budgets "reserve" their planned amount on period_start.
+export const budgetReserveSource: CashflowPlanSource = {
+  source: 'budget_reserve',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    const r = await pool.query(
+      `SELECT
+         id,
+         name,
+         category,
+         planned_amount::float8 AS planned_amount,
+         period_start::text AS period_start,
+         account_id
+       FROM budgets
+       WHERE user_id = $1
+         AND period_start >= $2::date
+         AND period_start < $3::date
+       ORDER BY period_start ASC, created_at ASC`,
+      [userId, startDate, endDateExclusive],
+    );
+
+    return r.rows.map(
+      (b: {
+        id: string;
+        name: string;
+        category: string;
+        planned_amount: number;
+        period_start: string;
+        account_id: string | null;
+      }) => ({
+        id: `budget:${b.id}:${b.period_start}`,
+        date: b.period_start,
+        amount: -b.planned_amount,
+        title: `Budget: ${b.name}`,
+        source: 'budget_reserve' as const,
+        budgetId: b.id,
+        accountId: b.account_id,
+        category: b.category,
+      }),
+    );
+  },
+};
@@ -0,0 +1,28 @@
+import { pool } from '@/lib/db';
+import { loadCommissionPayouts } from '@/lib/commission/store';
+import type { CashflowEvent, CashflowPlanSource } from '../types';
+
+export const commissionSource: CashflowPlanSource = {
+  source: 'commission',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    // Active commission rules, evaluated per settlement period and paid out on their schedule
+    const payouts = await loadCommissionPayouts(pool, userId, { startDate, endDateExclusive });
+
+    const events: CashflowEvent[] = [];
+    for (const p of payouts) {
+      if (p.commission === 0) continue;
+
+      events.push({
+        id: `commission:${p.commissionRuleId}:${p.periodStart}`,
+        date: p.payoutDate,
+        amount: p.commission, // INCOME => positive
+        title: p.title,
+        source: 'commission',
+        commissionRuleId: p.commissionRuleId,
+      });
+    }
+
+    return events;
+  },
+};
@@ -0,0 +1,53 @@
+import { pool } from '@/lib/db';
+import { adjustToBusinessDay, BUSINESS_DAY_MAX_SHIFT, type BusinessDayRule } from '../calendar';
+import type { CashflowEvent, CashflowPlanSource } from '../types';
+
+type InvoicePlanRow = {
+  id: string;
+  customer_name: string;
+  expected_payment_date: string;
+  amount: number;
+  business_day_rule: BusinessDayRule;
+};
+
+export const invoiceSource: CashflowPlanSource = {
+  source: 'invoice',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    // Open invoices by expected_payment_date (window widened for business-day shifts);
+    // partially paid ones only with the remaining balance
+    const inv = await pool.query(
+      `SELECT
+         id,
+         customer_name,
+         expected_payment_date::text AS expected_payment_date,
+         (amount - paid_amount)::float8 AS amount,
+         business_day_rule
+       FROM invoices
+       WHERE user_id = $1
+         AND status IN ('planned','sent','partially_paid')
+         AND amount > paid_amount
+         AND expected_payment_date >= $2::date - $4::int
+         AND expected_payment_date < $3::date + $4::int
+       ORDER BY expected_payment_date ASC, created_at ASC`,
+      [userId, startDate, endDateExclusive, BUSINESS_DAY_MAX_SHIFT],
+    );
+
+    const events: CashflowEvent[] = [];
+    for (const r of inv.rows as InvoicePlanRow[]) {
+      const date = adjustToBusinessDay(r.expected_payment_date, r.business_day_rule);
+      if (date < startDate || date >= endDateExclusive) continue;
+
+      events.push({
+        id: `invoice:${r.id}`,
+        date,
+        amount: r.amount,
+        title: r.customer_name ? `Rechnung: ${r.customer_name}` : 'Rechnung',
+        source: 'invoice',
+        invoiceId: r.id,
+      });
+    }
+
+    return events;
+  },
+};
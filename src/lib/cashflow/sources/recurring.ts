@@ -0,0 +1,62 @@
+import { pool } from '@/lib/db';
+import { BUSINESS_DAY_MAX_SHIFT } from '../calendar';
+import { occurrencesBetween, recurrenceFromRow, type RecurrenceRow } from '../recurrence';
+import type { CashflowEvent, CashflowPlanSource } from '../types';
+
+type RecurringRow = RecurrenceRow & {
+  id: string;
+  account_id: string;
+  amount: number;
+  description: string;
+  category: string;
+};
+
+export const recurringSource: CashflowPlanSource = {
+  source: 'recurring',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    const r = await pool.query(
+      `SELECT
+         id,
+         account_id,
+         amount::float8 AS amount,
+         description,
+         category,
+         interval_type,
+         interval_count,
+         month_rule,
+         day_of_month,
+         weekday,
+         week_of_month,
+         business_day_rule,
+         start_date::text AS start_date,
+         end_date::text AS end_date
+       FROM recurring
+       WHERE user_id = $1
+         AND start_date < $3::date + $4::int
+         AND (end_date IS NULL OR end_date >= $2::date - $4::int)`,
+      [userId, startDate, endDateExclusive, BUSINESS_DAY_MAX_SHIFT],
+    );
+
+    const events: CashflowEvent[] = [];
+
+    for (const row of r.rows as RecurringRow[]) {
+      const rule = recurrenceFromRow(row);
+
+      for (const date of occurrencesBetween(rule, startDate, endDateExclusive)) {
+        events.push({
+          id: `recurring:${row.id}:${date}`,
+          date,
+          amount: row.amount,
+          title: row.description,
+          source: 'recurring',
+          recurringId: row.id,
+          accountId: row.account_id,
+          category: row.category,
+        });
+      }
+    }
+
+    return events;
+  },
+};
@@ -0,0 +1,27 @@
+import { pool } from '@/lib/db';
+import { salaryPayouts } from '@/lib/salary/schedule';
+import { loadSalarySpecialPayments, loadSalaryVersions } from '@/lib/salary/store';
+import type { CashflowEvent, CashflowPlanSource } from '../types';
+
+export const salarySource: CashflowPlanSource = {
+  source: 'salary',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    // Salary versions (the one valid in each month) plus yearly bonus and special payments
+    const [versions, specials] = await Promise.all([
+      loadSalaryVersions(pool, userId),
+      loadSalarySpecialPayments(pool, userId),
+    ]);
+    if (versions.length === 0 && specials.length === 0) return [];
+
+    return salaryPayouts(versions, specials, startDate, endDateExclusive).map(
+      (p): CashflowEvent => ({
+        id: p.id,
+        date: p.date,
+        amount: p.amount, // INCOME => positive
+        title: p.title,
+        source: 'salary',
+      }),
+    );
+  },
+};
@@ -0,0 +1,41 @@
+import { pool } from '@/lib/db';
+import { taxPaymentCashflow, taxPaymentTitle, type TaxPaymentKind } from '@/lib/tax/income-tax';
+import type { CashflowEvent, CashflowPlanSource } from '../types';
+
+type TaxPaymentPlanRow = {
+  id: string;
+  kind: TaxPaymentKind;
+  tax_year: number;
+  due_date: string;
+  amount: number;
+};
+
+export const taxPaymentSource: CashflowPlanSource = {
+  source: 'tax_payment',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    // income tax prepayments, refunds and back-payments not booked yet
+    const r = await pool.query(
+      `SELECT id, kind, tax_year, due_date::text AS due_date, amount::float8 AS amount
+       FROM tax_payments
+       WHERE user_id = $1
+         AND transaction_id IS NULL
+         AND due_date >= $2
+         AND due_date < $3
+       ORDER BY due_date ASC, created_at ASC`,
+      [userId, startDate, endDateExclusive],
+    );
+
+    return (r.rows as TaxPaymentPlanRow[]).map(
+      (row): CashflowEvent => ({
+        id: `tax_payment:${row.id}`,
+        date: row.due_date,
+        amount: taxPaymentCashflow(row.kind, row.amount),
+        title: taxPaymentTitle({ kind: row.kind, taxYear: row.tax_year, dueDate: row.due_date }),
+        source: 'tax_payment',
+        category: 'Steuern',
+        taxPaymentId: row.id,
+      }),
+    );
+  },
+};
@@ -0,0 +1,57 @@
+import { pool } from '@/lib/db';
+import { formatDateOnly } from '@/lib/date-only';
+import { loadVatReport, loadVatSettings } from '@/lib/tax/store';
+import { hasSpecialPrepayment, specialPrepaymentDueDate, vatPeriods } from '@/lib/tax/vat';
+import type { CashflowEvent, CashflowPlanSource } from '../types';
+
+export const vatSource: CashflowPlanSource = {
+  source: 'vat',
+
+  async load({ userId, startDate, endDateExclusive }) {
+    // VAT payable per USt-VA period due in the plan range, on its due date; refunds come
+    // in as income. Open periods are estimated from expected invoices and recurring items.
+    const settings = await loadVatSettings(pool, userId);
+    if (settings.filing === 'none') return [];
+
+    const firstYear = Number(startDate.slice(0, 4)) - 1; // December due in the next year
+    const lastYear = Number(endDateExclusive.slice(0, 4));
+    const today = formatDateOnly(new Date());
+
+    const events: CashflowEvent[] = [];
+    for (let year = firstYear; year <= lastYear; year++) {
+      const prepaymentDue = specialPrepaymentDueDate(year);
+      if (
+        hasSpecialPrepayment(settings) &&
+        prepaymentDue >= startDate &&
+        prepaymentDue < endDateExclusive
+      ) {
+        events.push({
+          id: `vat:${year}-special`,
+          date: prepaymentDue,
+          amount: -(settings.specialPrepayment ?? 0),
+          title: `USt-Sondervorauszahlung ${year}`,
+          source: 'vat',
+          category: 'Steuern',
+          vatPeriod: `${year}-special`,
+        });
+      }
+
+      for (const period of vatPeriods(year, settings)) {
+        if (period.dueDate < startDate || period.dueDate >= endDateExclusive) continue;
+        const report = await loadVatReport(pool, userId, period, settings, today);
+        if (report.vat.payable === 0) continue;
+        events.push({
+          id: `vat:${period.key}`,
+          date: period.dueDate,
+          amount: -report.vat.payable,
+          title: `Umsatzsteuer ${period.label}`,
+          source: 'vat',
+          category: 'Steuern',
+          vatPeriod: period.key,
+        });
+      }
+    }
+
+    return events;
+  },
+};
@@ -5,7 +5,9 @@ export type CashflowEventSource =
   | 'budget_reserve'
   | 'salary'
   | 'invoice'
-  | 'commission';
+  | 'commission'
+  | 'vat'
+  | 'tax_payment';
 
 export type CashflowEvent = {
   id: string;               // stable-ish id for UI keys
@@ -15,6 +17,30 @@ export type CashflowEvent = {
   source: CashflowEventSource;
 
   // optional metadata
+  accountId?: string | null;
+  category?: string | null;
+  recurringId?: string;
+  budgetId?: string;
   invoiceId?: string;
   commissionRuleId?: string;
+  vatPeriod?: string;
+  taxPaymentId?: string;
+};
+
+/**
+ * Date window a plan source has to fill: [startDate, endDateExclusive), YYYY-MM-DD.
+ */
+export type CashflowPlanRange = {
+  userId: string;
+  startDate: string;
+  endDateExclusive: string;
+};
+
+/**
+ * One pluggable producer of plan events (salary, invoices, recurring, ...).
+ * The engine runs all registered sources for a range and merges their events.
+ */
+export type CashflowPlanSource = {
+  source: CashflowEventSource;
+  load(range: CashflowPlanRange): Promise<CashflowEvent[]>;
 };
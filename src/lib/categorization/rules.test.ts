@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRules,
+  matchesRule,
+  mergeTags,
+  RuleActionsSchema,
+  RuleConditionsSchema,
+  type CategoryRule,
+  type RuleSubject,
+} from './rules';
+
+const subject = (fields: Partial<RuleSubject> = {}): RuleSubject => ({
+  accountId: 'a1',
+  amount: -12.99,
+  description: 'NETFLIX.COM 123',
+  counterparty: 'Netflix International',
+  remittanceInfo: null,
+  ...fields,
+});
+
+const rule = (
+  id: string,
+  priority: number,
+  conditions: object,
+  actions: object,
+  enabled = true,
+): CategoryRule => ({
+  id,
+  name: id,
+  priority,
+  enabled,
+  conditions: RuleConditionsSchema.parse(conditions),
+  actions: RuleActionsSchema.parse(actions),
+});
+
+describe('RuleConditionsSchema / RuleActionsSchema', () => {
+  it('trims texts and needs at least one condition and action', () => {
+    expect(RuleConditionsSchema.parse({ descriptionContains: '  rewe ' })).toMatchObject({
+      descriptionContains: 'rewe',
+      amountEquals: null,
+      direction: null,
+    });
+    expect(RuleConditionsSchema.safeParse({ descriptionContains: '  ' }).success).toBe(false);
+    expect(RuleActionsSchema.safeParse({ category: '', tags: [] }).success).toBe(false);
+    expect(RuleActionsSchema.safeParse({ isBusiness: false }).success).toBe(true);
+  });
+});
+
+describe('matchesRule', () => {
+  const conditions = (c: object) => RuleConditionsSchema.parse(c);
+
+  it('matches texts case-insensitively, also in the remittance info', () => {
+    expect(matchesRule(conditions({ counterpartyContains: 'netflix' }), subject())).toBe(true);
+    expect(
+      matchesRule(
+        conditions({ descriptionContains: 'rewe' }),
+        subject({ description: 'Kartenzahlung', remittanceInfo: 'REWE Markt' }),
+      ),
+    ).toBe(true);
+    expect(matchesRule(conditions({ descriptionContains: 'rewe' }), subject())).toBe(false);
+  });
+
+  it('checks amount, direction and account', () => {
+    expect(matchesRule(conditions({ amountEquals: -12.99 }), subject())).toBe(true);
+    expect(matchesRule(conditions({ amountEquals: -13 }), subject())).toBe(false);
+    expect(matchesRule(conditions({ amountMin: -20, amountMax: -10 }), subject())).toBe(true);
+    expect(matchesRule(conditions({ direction: 'INCOME' }), subject())).toBe(false);
+    expect(matchesRule(conditions({ direction: 'EXPENSE', accountId: null }), subject())).toBe(
+      true,
+    );
+  });
+});
+
+describe('applyRules', () => {
+  it('lets the first rule by priority set each field and merges all tags', () => {
+    const rules = [
+      rule('generic', 200, { direction: 'EXPENSE' }, { category: 'Sonstiges', tags: ['ausgabe'] }),
+      rule(
+        'netflix',
+        10,
+        { counterpartyContains: 'netflix' },
+        { category: 'Abos', tags: ['streaming'], isBusiness: false },
+      ),
+      rule('off', 1, { direction: 'EXPENSE' }, { category: 'Aus' }, false),
+    ];
+    expect(applyRules(rules, subject())).toMatchObject({
+      category: 'Abos',
+      tags: ['streaming', 'ausgabe'],
+      isBusiness: false,
+      isTaxRelevant: null,
+      ruleIds: ['netflix', 'generic'],
+    });
+    expect(
+      applyRules(
+        rules,
+        subject({ amount: 50, description: 'Gutschrift', counterparty: 'Kunde GmbH' }),
+      ),
+    ).toMatchObject({
+      category: null,
+      tags: [],
+      ruleIds: [],
+    });
+  });
+});
+
+describe('applyRules VAT code', () => {
+  it('takes the first VAT code and ignores rules stored without one', () => {
+    const legacy = rule('legacy', 1, { direction: 'EXPENSE' }, { isBusiness: true });
+    delete (legacy.actions as Partial<CategoryRule['actions']>).vatCode;
+    const rules = [
+      legacy,
+      rule('software', 10, { counterpartyContains: 'netflix' }, { vatCode: 'standard' }),
+      rule('food', 20, { direction: 'EXPENSE' }, { vatCode: 'reduced' }),
+    ];
+    expect(applyRules(rules, subject())).toMatchObject({ isBusiness: true, vatCode: 'standard' });
+    expect(RuleActionsSchema.safeParse({ vatCode: 'reverse_charge' }).success).toBe(true);
+  });
+});
+
+describe('mergeTags', () => {
+  it('keeps the existing tags first and adds new ones once', () => {
+    expect(mergeTags(['fix', 'abo'], ['abo', 'monatlich'])).toEqual(['fix', 'abo', 'monatlich']);
+  });
+});
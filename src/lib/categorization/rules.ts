@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { VAT_CODES, type VatCode } from '@/lib/tax/vat';
+
+// User-defined categorization rules. Pure, so the rules page can preview matches too.
+// Rules run by ascending priority; for category and each flag the first matching rule
+// that sets it wins, tags of all matching rules are merged. A VAT code is the category's
+// default rate: bookings created or imported without one get their net/VAT split from it.
+
+const OptionalText = z
+  .string()
+  .max(200)
+  .nullish()
+  .transform((v) => (v?.trim() ? v.trim() : null));
+
+const OptionalNumber = z.number().finite().nullish().transform((v) => v ?? null);
+
+export const RuleConditionsSchema = z
+  .object({
+    descriptionContains: OptionalText,
+    counterpartyContains: OptionalText,
+    amountEquals: OptionalNumber,
+    amountMin: OptionalNumber,
+    amountMax: OptionalNumber,
+    direction: z
+      .enum(['EXPENSE', 'INCOME'])
+      .nullish()
+      .transform((v) => v ?? null),
+    accountId: z
+      .string()
+      .uuid()
+      .nullish()
+      .transform((v) => v ?? null),
+  })
+  .refine((c) => Object.values(c).some((v) => v !== null), 'At least one condition');
+
+export const RuleActionsSchema = z
+  .object({
+    category: OptionalText,
+    tags: z.array(z.string().min(1).max(40)).max(20).default([]),
+    isBusiness: z
+      .boolean()
+      .nullish()
+      .transform((v) => v ?? null),
+    isTaxRelevant: z
+      .boolean()
+      .nullish()
+      .transform((v) => v ?? null),
+    vatCode: z
+      .enum(VAT_CODES)
+      .nullish()
+      .transform((v) => v ?? null),
+  })
+  .refine(
+    (a) =>
+      a.category !== null ||
+      a.tags.length > 0 ||
+      a.isBusiness !== null ||
+      a.isTaxRelevant !== null ||
+      a.vatCode !== null,
+    'At least one action',
+  );
+
+export type RuleConditions = z.output<typeof RuleConditionsSchema>;
+export type RuleActions = z.output<typeof RuleActionsSchema>;
+
+export type CategoryRule = {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+};
+
+export type RuleSubject = {
+  accountId: string | null;
+  amount: number;
+  description: string;
+  counterparty: string | null;
+  remittanceInfo: string | null;
+};
+
+export type RuleOutcome = {
+  category: string | null;
+  tags: string[];
+  isBusiness: boolean | null;
+  isTaxRelevant: boolean | null;
+  vatCode: VatCode | null;
+  ruleIds: string[];
+};
+
+function contains(haystack: (string | null)[], needle: string) {
+  const n = needle.toLocaleLowerCase('de-DE');
+  return haystack.some((h) => h?.toLocaleLowerCase('de-DE').includes(n));
+}
+
+export function matchesRule(conditions: RuleConditions, tx: RuleSubject) {
+  const c = conditions;
+  if (c.descriptionContains && !contains([tx.description, tx.remittanceInfo], c.descriptionContains))
+    return false;
+  if (c.counterpartyContains && !contains([tx.counterparty, tx.description], c.counterpartyContains))
+    return false;
+  if (c.amountEquals !== null && Math.abs(tx.amount - c.amountEquals) >= 0.005) return false;
+  if (c.amountMin !== null && tx.amount < c.amountMin) return false;
+  if (c.amountMax !== null && tx.amount > c.amountMax) return false;
+  if (c.direction === 'EXPENSE' && tx.amount >= 0) return false;
+  if (c.direction === 'INCOME' && tx.amount <= 0) return false;
+  if (c.accountId && tx.accountId !== c.accountId) return false;
+  return true;
+}
+
+export function sortRules(rules: CategoryRule[]) {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+export function applyRules(rules: CategoryRule[], tx: RuleSubject): RuleOutcome {
+  const out: RuleOutcome = {
+    category: null,
+    tags: [],
+    isBusiness: null,
+    isTaxRelevant: null,
+    vatCode: null,
+    ruleIds: [],
+  };
+
+  for (const rule of sortRules(rules)) {
+    if (!rule.enabled || !matchesRule(rule.conditions, tx)) continue;
+    const a = rule.actions;
+
+    out.ruleIds.push(rule.id);
+    if (out.category === null && a.category) out.category = a.category;
+    if (out.isBusiness === null && a.isBusiness !== null) out.isBusiness = a.isBusiness;
+    if (out.isTaxRelevant === null && a.isTaxRelevant !== null) out.isTaxRelevant = a.isTaxRelevant;
+    // rules stored before VAT codes existed have no vatCode at all
+    if (out.vatCode === null && a.vatCode) out.vatCode = a.vatCode;
+    for (const tag of a.tags) if (!out.tags.includes(tag)) out.tags.push(tag);
+  }
+
+  return out;
+}
+
+export function mergeTags(current: string[], added: string[]) {
+  return [...current, ...added.filter((t) => !current.includes(t))];
+}
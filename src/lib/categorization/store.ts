@@ -0,0 +1,138 @@
+import type { Pool, PoolClient } from 'pg';
+import { applyRules, mergeTags, type CategoryRule, type RuleConditions, type RuleActions } from './rules';
+
+type Db = Pool | PoolClient;
+
+type RuleRow = {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+};
+
+export async function loadCategoryRules(db: Db, userId: string): Promise<CategoryRule[]> {
+  const r = await db.query(
+    `SELECT id, name, priority, enabled, conditions, actions
+     FROM category_rules
+     WHERE user_id = $1 AND enabled = true
+     ORDER BY priority ASC, name ASC`,
+    [userId],
+  );
+  return r.rows as RuleRow[];
+}
+
+export type CategoryChangeFields = {
+  category: string | null;
+  tags: string[];
+  isBusiness: boolean;
+  isTaxRelevant: boolean;
+};
+
+export type CategoryChange = {
+  id: string;
+  txDate: string;
+  description: string;
+  amount: number;
+  accountName: string | null;
+  before: CategoryChangeFields;
+  after: CategoryChangeFields;
+  ruleIds: string[];
+};
+
+type TxRow = {
+  id: string;
+  account_id: string | null;
+  account_name: string | null;
+  tx_date: string;
+  amount: number;
+  description: string;
+  counterparty: string | null;
+  remittance_info: string | null;
+  category: string | null;
+  tags: string[] | null;
+  is_business: boolean;
+  is_tax_relevant: boolean;
+};
+
+/**
+ * What re-applying the rules would change on past (non-transfer) transactions.
+ * Without `overwrite` only uncategorized transactions are touched.
+ */
+export async function previewRuleChanges(
+  db: Db,
+  userId: string,
+  opts: { overwrite: boolean },
+): Promise<CategoryChange[]> {
+  const rules = await loadCategoryRules(db, userId);
+  if (!rules.length) return [];
+
+  const r = await db.query(
+    `SELECT
+       t.id,
+       t.account_id,
+       a.name AS account_name,
+       t.tx_date::text AS tx_date,
+       t.amount::float8 AS amount,
+       t.description,
+       t.counterparty,
+       t.remittance_info,
+       t.category,
+       t.tags,
+       t.is_business,
+       t.is_tax_relevant
+     FROM transactions t
+     LEFT JOIN accounts a ON a.id = t.account_id
+     WHERE t.user_id = $1
+       AND t.transfer_group_id IS NULL
+       AND ($2::boolean OR t.category IS NULL OR t.category = '')
+     ORDER BY t.tx_date DESC, t.created_at DESC`,
+    [userId, opts.overwrite],
+  );
+
+  const changes: CategoryChange[] = [];
+  for (const tx of r.rows as TxRow[]) {
+    const outcome = applyRules(rules, {
+      accountId: tx.account_id,
+      amount: tx.amount,
+      description: tx.description,
+      counterparty: tx.counterparty,
+      remittanceInfo: tx.remittance_info,
+    });
+    if (!outcome.ruleIds.length) continue;
+
+    const before: CategoryChangeFields = {
+      category: tx.category || null,
+      tags: tx.tags ?? [],
+      isBusiness: tx.is_business,
+      isTaxRelevant: tx.is_tax_relevant,
+    };
+    const after: CategoryChangeFields = {
+      category: outcome.category ?? before.category,
+      tags: mergeTags(before.tags, outcome.tags),
+      isBusiness: outcome.isBusiness ?? before.isBusiness,
+      isTaxRelevant: outcome.isTaxRelevant ?? before.isTaxRelevant,
+    };
+
+    const changed =
+      after.category !== before.category ||
+      after.tags.length !== before.tags.length ||
+      after.isBusiness !== before.isBusiness ||
+      after.isTaxRelevant !== before.isTaxRelevant;
+    if (!changed) continue;
+
+    changes.push({
+      id: tx.id,
+      txDate: tx.tx_date,
+      description: tx.description,
+      amount: tx.amount,
+      accountName: tx.account_name,
+      before,
+      after,
+      ruleIds: outcome.ruleIds,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  commissionBase,
+  computeCommissionPayouts,
+  ruleValidOn,
+  versionValidOn,
+  type CommissionInvoice,
+  type CommissionRuleInput,
+  type CommissionRuleVersion,
+} from './engine';
+
+// manual bases keep these independent of the invoices
+const ruleJson = (fields: Record<string, unknown> = {}) => ({
+  kind: 'percentage',
+  rate: 10,
+  base: 'manual',
+  manualBase: 1000,
+  period: 'MONTHLY',
+  payoutDay: 15,
+  payoutDelayMonths: 1,
+  businessDayRule: 'PREVIOUS',
+  ...fields,
+});
+
+const rule = (
+  json: unknown = ruleJson(),
+  versions: CommissionRuleVersion[] = [],
+): CommissionRuleInput => ({
+  id: 'r1',
+  name: 'Vertrieb',
+  profileId: null,
+  ruleJson: json,
+  versions,
+});
+
+const version = (
+  id: string,
+  validFrom: string | null,
+  validToExclusive: string | null,
+  json: unknown,
+): CommissionRuleVersion => ({ id, validFrom, validToExclusive, ruleJson: json });
+
+describe('versionValidOn / ruleValidOn', () => {
+  const versions = [
+    version('v1', null, '2025-04-01', ruleJson()),
+    version('v2', '2025-05-01', null, ruleJson({ rate: 20 })),
+  ];
+
+  it('picks the version covering the date, bounds are half-open', () => {
+    expect(versionValidOn(versions, '2025-03-31')?.id).toBe('v1');
+    expect(versionValidOn(versions, '2025-04-01')).toBeNull();
+    expect(versionValidOn(versions, '2025-05-01')?.id).toBe('v2');
+  });
+
+  it('uses the rule JSON without versions and skips unusable JSON', () => {
+    expect(ruleValidOn(rule(), '2025-01-01')).toMatchObject({
+      versionId: null,
+      rule: { rate: 10 },
+    });
+    expect(ruleValidOn(rule({ kind: 'percentage' }), '2025-01-01')).toBeNull();
+    expect(ruleValidOn(rule(ruleJson(), versions), '2025-04-15')).toBeNull();
+    expect(ruleValidOn(rule(ruleJson(), versions), '2025-06-01')).toMatchObject({
+      versionId: 'v2',
+      rule: { rate: 20 },
+    });
+  });
+});
+
+describe('commissionBase', () => {
+  const invoice = (fields: Partial<CommissionInvoice>): CommissionInvoice => ({
+    profileId: 'p1',
+    amount: 1000,
+    status: 'sent',
+    payments: [],
+    expectedPaymentDate: null,
+    ...fields,
+  });
+  const invoices = [
+    // paid in two instalments across the period boundary
+    invoice({
+      status: 'paid',
+      payments: [
+        { amount: 400, paidOn: '2025-02-27' },
+        { amount: 600, paidOn: '2025-03-03' },
+      ],
+      expectedPaymentDate: '2025-02-25',
+    }),
+    invoice({
+      amount: 500,
+      status: 'partially_paid',
+      payments: [{ amount: 199.99, paidOn: '2025-03-31' }],
+      expectedPaymentDate: '2025-03-10',
+    }),
+    invoice({ amount: 700, expectedPaymentDate: '2025-03-20' }),
+    invoice({ amount: 900, status: 'void', expectedPaymentDate: '2025-03-20' }),
+    invoice({ profileId: 'p2', payments: [{ amount: 1000, paidOn: '2025-03-05' }] }),
+  ];
+  const base = (json: unknown, profileId: string | null = 'p1') =>
+    commissionBase(
+      ruleValidOn(rule(json), '2025-03-01')!.rule,
+      invoices,
+      profileId,
+      '2025-03-01',
+      '2025-04-01',
+    );
+
+  it('counts the payments received in the period', () => {
+    expect(base(ruleJson({ base: 'invoices_paid' }))).toEqual({ revenue: 799.99, units: 2 });
+    expect(base(ruleJson({ base: 'invoices_paid' }), null)).toEqual({
+      revenue: 1799.99,
+      units: 3,
+    });
+  });
+
+  it('counts planned invoices by their expected payment date', () => {
+    expect(base(ruleJson({ base: 'invoices_planned' }))).toEqual({ revenue: 1200, units: 2 });
+  });
+});
+
+describe('computeCommissionPayouts', () => {
+  it('pays a month in the following month, moved off the weekend', () => {
+    const payouts = computeCommissionPayouts(rule(), [], '2025-03-01', '2025-04-01');
+    expect(payouts).toHaveLength(1);
+    expect(payouts[0]).toMatchObject({
+      commissionRuleId: 'r1',
+      versionId: null,
+      title: 'Provision: Vertrieb',
+      periodStart: '2025-02-01',
+      periodEndExclusive: '2025-03-01',
+      scheduledDate: '2025-03-15', // Saturday
+      payoutDate: '2025-03-14',
+      base: 1000,
+      commission: 100,
+    });
+  });
+
+  it('aligns quarters to the calendar and keeps shifted payouts in their new window', () => {
+    const quarterly = rule(
+      ruleJson({
+        period: 'QUARTERLY',
+        payoutDay: 31,
+        payoutDelayMonths: 0,
+        businessDayRule: 'NEXT',
+      }),
+    );
+    const in2025 = computeCommissionPayouts(quarterly, [], '2025-01-01', '2026-01-01');
+    expect(in2025.map((p) => [p.periodStart, p.payoutDate])).toEqual([
+      ['2024-10-01', '2025-01-02'],
+      ['2025-01-01', '2025-03-31'],
+      ['2025-04-01', '2025-06-30'],
+      ['2025-07-01', '2025-09-30'],
+    ]);
+    // banks are closed on 31 December and New Year's Day
+    expect(computeCommissionPayouts(quarterly, [], '2026-01-01', '2026-02-01')).toMatchObject([
+      { periodStart: '2025-10-01', scheduledDate: '2025-12-31', payoutDate: '2026-01-02' },
+    ]);
+  });
+
+  it('evaluates each period with the version valid on its first day', () => {
+    const versioned = rule(ruleJson(), [
+      version('v1', null, '2025-04-01', ruleJson()),
+      version('v2', '2025-04-01', '2025-05-01', ruleJson({ rate: 20 })),
+    ]);
+    expect(
+      computeCommissionPayouts(versioned, [], '2025-04-01', '2025-07-01').map((p) => [
+        p.periodStart,
+        p.versionId,
+        p.commission,
+      ]),
+    ).toEqual([
+      ['2025-03-01', 'v1', 100],
+      ['2025-04-01', 'v2', 200],
+    ]);
+  });
+
+  it('applies tiers before the cap', () => {
+    const tiered = rule(
+      ruleJson({
+        kind: 'tiered',
+        manualBase: 3000,
+        tiers: [
+          { from: 0, rate: 5 },
+          { from: 1000, rate: 10 },
+        ],
+        cap: 200,
+      }),
+    );
+    expect(computeCommissionPayouts(tiered, [], '2025-03-01', '2025-04-01')).toMatchObject([
+      { base: 3000, gross: 250, commission: 200, capped: true, minimumApplied: false },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { adjustToBusinessDay } from '@/lib/cashflow/calendar';
+import { clampedDateUTC, dateUTC } from '@/lib/cashflow/dates';
+import {
+  calculateCommission,
+  readCommissionRule,
+  type CommissionBaseSource,
+  type CommissionBaseValue,
+  type CommissionPeriod,
+  type CommissionResult,
+  type CommissionRuleJson,
+} from './rules';
+
+// Evaluates commission rules into payouts. A rule without versions uses its own
+// rule_json; otherwise each settlement period uses the version valid on its first day.
+
+export type CommissionRuleVersion = {
+  id: string;
+  validFrom: string | null; // null = unbounded
+  validToExclusive: string | null;
+  ruleJson: unknown;
+};
+
+export type CommissionRuleInput = {
+  id: string;
+  name: string;
+  profileId: string | null;
+  ruleJson: unknown;
+  versions: CommissionRuleVersion[];
+};
+
+export type CommissionInvoice = {
+  profileId: string | null;
+  amount: number;
+  status: 'planned' | 'sent' | 'partially_paid' | 'paid' | 'void';
+  // payment allocations (instalments), write-offs are not revenue
+  payments: Array<{ amount: number; paidOn: string }>; // YYYY-MM-DD
+  expectedPaymentDate: string | null;
+};
+
+export type CommissionPayout = CommissionResult & {
+  commissionRuleId: string;
+  versionId: string | null;
+  title: string;
+  baseSource: CommissionBaseSource;
+  periodStart: string;
+  periodEndExclusive: string;
+  scheduledDate: string; // payout day before the business-day shift
+  payoutDate: string;
+};
+
+const PERIOD_MONTHS: Record<CommissionPeriod, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+};
+
+// payouts may trail their period by up to a year plus the configured delay
+export const COMMISSION_LOOKBACK_MONTHS = 36;
+
+export function versionValidOn<
+  T extends Pick<CommissionRuleVersion, 'validFrom' | 'validToExclusive'>,
+>(versions: T[], date: string): T | null {
+  return (
+    versions.find(
+      (v) =>
+        (v.validFrom === null || v.validFrom <= date) &&
+        (v.validToExclusive === null || date < v.validToExclusive),
+    ) ?? null
+  );
+}
+
+/**
+ * Rule in effect on `date`, or null when the rule has versions but none covers the date
+ * (or the stored JSON is unusable).
+ */
+export function ruleValidOn(
+  rule: CommissionRuleInput,
+  date: string,
+): { versionId: string | null; rule: CommissionRuleJson } | null {
+  if (!rule.versions.length) {
+    const json = readCommissionRule(rule.ruleJson);
+    return json ? { versionId: null, rule: json } : null;
+  }
+  const version = versionValidOn(rule.versions, date);
+  const json = version ? readCommissionRule(version.ruleJson) : null;
+  return version && json ? { versionId: version.id, rule: json } : null;
+}
+
+function monthStart(year: number, monthIndex0: number) {
+  const y = year + Math.floor(monthIndex0 / 12);
+  const m = ((monthIndex0 % 12) + 12) % 12;
+  return dateUTC(y, m, 1);
+}
+
+/**
+ * Revenue (and invoice count) the rule is applied to for [periodStart, periodEndExclusive).
+ */
+export function commissionBase(
+  rule: CommissionRuleJson,
+  invoices: CommissionInvoice[],
+  profileId: string | null,
+  periodStart: string,
+  periodEndExclusive: string,
+): CommissionBaseValue {
+  if (rule.base === 'manual') {
+    return { revenue: rule.manualBase ?? 0, units: rule.manualUnits ?? 0 };
+  }
+
+  const inPeriod = (d: string | null) => d !== null && d >= periodStart && d < periodEndExclusive;
+  const own = invoices.filter((i) => profileId === null || i.profileId === profileId);
+
+  if (rule.base === 'invoices_paid') {
+    // money received in the period, so an instalment counts when it arrives;
+    // units are the invoices with a payment in the period
+    let revenue = 0;
+    let units = 0;
+    for (const i of own) {
+      const paid = i.payments.filter((p) => inPeriod(p.paidOn));
+      if (!paid.length) continue;
+      revenue += paid.reduce((s, p) => s + p.amount, 0);
+      units++;
+    }
+    return { revenue: Math.round(revenue * 100) / 100, units };
+  }
+
+  const counted = own.filter((i) => i.status !== 'void' && inPeriod(i.expectedPaymentDate));
+  return { revenue: counted.reduce((s, i) => s + i.amount, 0), units: counted.length };
+}
+
+/**
+ * Payouts of one rule whose (business-day adjusted) payout date lies in
+ * [startDate, endDateExclusive).
+ */
+export function computeCommissionPayouts(
+  rule: CommissionRuleInput,
+  invoices: CommissionInvoice[],
+  startDate: string,
+  endDateExclusive: string,
+): CommissionPayout[] {
+  const [sy, sm] = startDate.split('-').map(Number);
+  const [ey, em] = endDateExclusive.split('-').map(Number);
+  const first = sy * 12 + (sm - 1) - COMMISSION_LOOKBACK_MONTHS;
+  const last = ey * 12 + (em - 1) + 1;
+
+  const out: CommissionPayout[] = [];
+  for (let idx = first; idx <= last; idx++) {
+    const year = Math.floor(idx / 12);
+    const month0 = idx % 12;
+    const periodStart = monthStart(year, month0);
+
+    const valid = ruleValidOn(rule, periodStart);
+    if (!valid) continue;
+
+    // periods are calendar aligned: quarters start in Jan/Apr/Jul/Oct, years in Jan
+    const length = PERIOD_MONTHS[valid.rule.period];
+    if (month0 % length !== 0) continue;
+
+    const periodEndExclusive = monthStart(year, month0 + length);
+    const payoutMonth = month0 + length - 1 + valid.rule.payoutDelayMonths;
+    const scheduledDate = clampedDateUTC(
+      year + Math.floor(payoutMonth / 12),
+      payoutMonth % 12,
+      valid.rule.payoutDay,
+    );
+    const payoutDate = adjustToBusinessDay(scheduledDate, valid.rule.businessDayRule);
+    if (payoutDate < startDate || payoutDate >= endDateExclusive) continue;
+
+    const base = commissionBase(
+      valid.rule,
+      invoices,
+      rule.profileId,
+      periodStart,
+      periodEndExclusive,
+    );
+
+    out.push({
+      ...calculateCommission(valid.rule, base),
+      commissionRuleId: rule.id,
+      versionId: valid.versionId,
+      title: rule.name ? `Provision: ${rule.name}` : 'Provision',
+      baseSource: valid.rule.base,
+      periodStart,
+      periodEndExclusive,
+      scheduledDate,
+      payoutDate,
+    });
+  }
+
+  return out;
+}
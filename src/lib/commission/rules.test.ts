@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateCommission,
+  CommissionRuleSchema,
+  readCommissionRule,
+  type CommissionRuleJson,
+} from './rules';
+
+const parse = (json: Record<string, unknown>): CommissionRuleJson =>
+  CommissionRuleSchema.parse(json);
+
+const issues = (json: Record<string, unknown>) => {
+  const parsed = CommissionRuleSchema.safeParse(json);
+  return parsed.success ? [] : parsed.error.issues.map((i) => [i.path.join('.'), i.message]);
+};
+
+describe('CommissionRuleSchema', () => {
+  it('fills the defaults of a minimal rule', () => {
+    expect(parse({ kind: 'percentage', rate: 5 })).toEqual({
+      kind: 'percentage',
+      rate: 5,
+      cap: null,
+      minimum: null,
+      base: 'invoices_paid',
+      manualBase: null,
+      manualUnits: null,
+      period: 'MONTHLY',
+      payoutDay: 15,
+      payoutDelayMonths: 1,
+      businessDayRule: 'PREVIOUS',
+    });
+  });
+
+  it('reports the offending fields', () => {
+    expect(issues({ kind: 'percentage', rate: 120, payoutDay: 0 })).toEqual([
+      ['payoutDay', 'Tag 1–31'],
+      ['rate', 'Höchstens 100 %'],
+    ]);
+    expect(issues({ kind: 'per_unit', amountPerUnit: 50, base: 'manual', manualBase: 10 })).toEqual(
+      [['manualUnits', 'Pflichtfeld']],
+    );
+    expect(issues({ kind: 'percentage', rate: 5, cap: 100, minimum: 200 })).toEqual([
+      ['minimum', 'Mindestbetrag über Deckel'],
+    ]);
+    expect(
+      issues({
+        kind: 'tiered',
+        tiers: [
+          { from: 100, rate: 5 },
+          { from: 100, rate: 10 },
+        ],
+      }),
+    ).toEqual([
+      ['tiers.0.from', 'Erste Stufe ab 0'],
+      ['tiers.1.from', 'Aufsteigend'],
+    ]);
+  });
+
+  it('reads stored JSON from before the schema as unusable', () => {
+    expect(readCommissionRule({ rate: '5' })).toBeNull();
+    expect(readCommissionRule({ kind: 'percentage', rate: 5 })).toMatchObject({ rate: 5 });
+  });
+});
+
+describe('calculateCommission', () => {
+  const tiers = [
+    { from: 0, rate: 5 },
+    { from: 1000, rate: 10 },
+  ];
+
+  it('applies tiers marginally or to the whole base', () => {
+    const marginal = parse({ kind: 'tiered', tiers });
+    const stepped = parse({ kind: 'tiered', tiers, tierMode: 'stepped' });
+    expect(calculateCommission(marginal, { revenue: 3000, units: 0 }).commission).toBe(250);
+    expect(calculateCommission(stepped, { revenue: 3000, units: 0 }).commission).toBe(300);
+    expect(calculateCommission(stepped, { revenue: 999.99, units: 0 }).commission).toBe(50);
+  });
+
+  it('pays per unit and a bonus from the threshold on', () => {
+    const perUnit = parse({ kind: 'per_unit', amountPerUnit: 25 });
+    expect(calculateCommission(perUnit, { revenue: 5000, units: 3 })).toMatchObject({
+      base: 5000,
+      units: 3,
+      commission: 75,
+    });
+
+    const bonus = parse({ kind: 'threshold_bonus', threshold: 10000, bonus: 500, rate: 1 });
+    expect(calculateCommission(bonus, { revenue: 9999, units: 0 }).commission).toBe(99.99);
+    expect(calculateCommission(bonus, { revenue: 10000, units: 0 }).commission).toBe(600);
+  });
+
+  it('caps and tops up the commission of a period', () => {
+    const rule = parse({ kind: 'percentage', rate: 10, cap: 300, minimum: 50 });
+    expect(calculateCommission(rule, { revenue: 5000, units: 0 })).toMatchObject({
+      gross: 500,
+      commission: 300,
+      capped: true,
+      minimumApplied: false,
+    });
+    expect(calculateCommission(rule, { revenue: -200, units: 0 })).toMatchObject({
+      base: -200,
+      gross: 0,
+      commission: 50,
+      capped: false,
+      minimumApplied: true,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import { BUSINESS_DAY_RULES } from '@/lib/cashflow/calendar';
+
+// Commission (Provision) rules as stored in commission_rules.rule_json and
+// commission_rule_versions.rule_json. Pure, so the provision page can preview them.
+
+export const COMMISSION_RULE_KINDS = [
+  'percentage',
+  'tiered',
+  'per_unit',
+  'threshold_bonus',
+] as const;
+export const COMMISSION_BASE_SOURCES = ['invoices_paid', 'invoices_planned', 'manual'] as const;
+export const COMMISSION_PERIODS = ['MONTHLY', 'QUARTERLY', 'YEARLY'] as const;
+
+export type CommissionRuleKind = (typeof COMMISSION_RULE_KINDS)[number];
+export type CommissionBaseSource = (typeof COMMISSION_BASE_SOURCES)[number];
+export type CommissionPeriod = (typeof COMMISSION_PERIODS)[number];
+
+const Amount = z.number({ error: 'Zahl erwartet' }).finite().min(0, 'Darf nicht negativ sein');
+const Percent = z
+  .number({ error: 'Zahl erwartet' })
+  .finite()
+  .min(0, 'Darf nicht negativ sein')
+  .max(100, 'Höchstens 100 %');
+const OptionalAmount = Amount.nullish().transform((v) => v ?? null);
+
+const CommonFields = {
+  cap: OptionalAmount, // max commission per period
+  minimum: OptionalAmount, // guaranteed commission per period
+  base: z.enum(COMMISSION_BASE_SOURCES).default('invoices_paid'),
+  manualBase: OptionalAmount, // revenue per period for base = 'manual'
+  manualUnits: OptionalAmount, // units per period for base = 'manual' (per_unit)
+  period: z.enum(COMMISSION_PERIODS).default('MONTHLY'),
+  payoutDay: z
+    .number({ error: 'Tag 1–31' })
+    .int('Tag 1–31')
+    .min(1, 'Tag 1–31')
+    .max(31, 'Tag 1–31')
+    .default(15),
+  // months after the period's last month, 1 = following month
+  payoutDelayMonths: z
+    .number({ error: 'Monate 0–12' })
+    .int('Monate 0–12')
+    .min(0, 'Monate 0–12')
+    .max(12, 'Monate 0–12')
+    .default(1),
+  businessDayRule: z.enum(BUSINESS_DAY_RULES).default('PREVIOUS'),
+};
+
+export const CommissionTierSchema = z.object({
+  from: Amount, // base amount where this tier starts
+  rate: Percent,
+});
+
+export const CommissionRuleSchema = z
+  .discriminatedUnion('kind', [
+    z.object({ ...CommonFields, kind: z.literal('percentage'), rate: Percent }),
+    z.object({
+      ...CommonFields,
+      kind: z.literal('tiered'),
+      // marginal: every slice of the base gets its tier's rate (like income tax);
+      // stepped: the highest tier reached applies to the whole base
+      tierMode: z.enum(['marginal', 'stepped']).default('marginal'),
+      tiers: z.array(CommissionTierSchema).min(1, 'Mindestens eine Stufe').max(20),
+    }),
+    z.object({ ...CommonFields, kind: z.literal('per_unit'), amountPerUnit: Amount }),
+    z.object({
+      ...CommonFields,
+      kind: z.literal('threshold_bonus'),
+      threshold: Amount,
+      bonus: Amount, // paid once the base reaches the threshold
+      rate: Percent.default(0), // optional rate on the whole base on top
+    }),
+  ])
+  .superRefine((r, ctx) => {
+    if (r.base === 'manual') {
+      const field = r.kind === 'per_unit' ? 'manualUnits' : 'manualBase';
+      if (r[field] === null)
+        ctx.addIssue({ code: 'custom', path: [field], message: 'Pflichtfeld' });
+    }
+    if (r.cap !== null && r.minimum !== null && r.minimum > r.cap) {
+      ctx.addIssue({ code: 'custom', path: ['minimum'], message: 'Mindestbetrag über Deckel' });
+    }
+    if (r.kind === 'tiered') {
+      if (r.tiers[0] && r.tiers[0].from !== 0) {
+        ctx.addIssue({ code: 'custom', path: ['tiers', 0, 'from'], message: 'Erste Stufe ab 0' });
+      }
+      r.tiers.forEach((t, i) => {
+        if (i > 0 && t.from <= r.tiers[i - 1].from) {
+          ctx.addIssue({ code: 'custom', path: ['tiers', i, 'from'], message: 'Aufsteigend' });
+        }
+      });
+    }
+  });
+
+export type CommissionRuleJson = z.output<typeof CommissionRuleSchema>;
+export type CommissionTier = z.output<typeof CommissionTierSchema>;
+
+export type CommissionBaseValue = {
+  revenue: number;
+  units: number; // invoices in the period, or manualUnits
+};
+
+export type CommissionResult = {
+  base: number;
+  units: number;
+  gross: number; // before cap/minimum
+  commission: number;
+  capped: boolean;
+  minimumApplied: boolean;
+};
+
+/**
+ * Reads a stored rule_json; null when it does not satisfy the schema
+ * (e.g. stored before the schema was enforced).
+ */
+export function readCommissionRule(json: unknown): CommissionRuleJson | null {
+  const parsed = CommissionRuleSchema.safeParse(json);
+  return parsed.success ? parsed.data : null;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function tieredCommission(base: number, tiers: CommissionTier[], mode: 'marginal' | 'stepped') {
+  if (base <= 0 || !tiers.length) return 0;
+
+  if (mode === 'stepped') {
+    const reached = tiers.filter((t) => base >= t.from).pop();
+    return reached ? (base * reached.rate) / 100 : 0;
+  }
+
+  let total = 0;
+  tiers.forEach((t, i) => {
+    const upper = tiers[i + 1]?.from ?? Infinity;
+    const slice = Math.min(base, upper) - t.from;
+    if (slice > 0) total += (slice * t.rate) / 100;
+  });
+  return total;
+}
+
+function grossCommission(rule: CommissionRuleJson, { revenue, units }: CommissionBaseValue) {
+  const base = Math.max(revenue, 0);
+  switch (rule.kind) {
+    case 'percentage':
+      return (base * rule.rate) / 100;
+    case 'tiered':
+      return tieredCommission(base, rule.tiers, rule.tierMode);
+    case 'per_unit':
+      return Math.max(units, 0) * rule.amountPerUnit;
+    case 'threshold_bonus':
+      return (base * rule.rate) / 100 + (base >= rule.threshold ? rule.bonus : 0);
+  }
+}
+
+export function calculateCommission(
+  rule: CommissionRuleJson,
+  base: CommissionBaseValue,
+): CommissionResult {
+  const gross = round2(grossCommission(rule, base));
+
+  let commission = gross;
+  let capped = false;
+  let minimumApplied = false;
+
+  if (rule.cap !== null && commission > rule.cap) {
+    commission = rule.cap;
+    capped = true;
+  }
+  if (rule.minimum !== null && commission < rule.minimum) {
+    commission = rule.minimum;
+    minimumApplied = true;
+  }
+
+  return {
+    base: round2(base.revenue),
+    units: base.units,
+    gross,
+    commission: round2(commission),
+    capped,
+    minimumApplied,
+  };
+}
@@ -0,0 +1,150 @@
+import type { Pool, PoolClient } from 'pg';
+import {
+  COMMISSION_LOOKBACK_MONTHS,
+  computeCommissionPayouts,
+  type CommissionInvoice,
+  type CommissionPayout,
+  type CommissionRuleInput,
+  type CommissionRuleVersion,
+} from './engine';
+
+type Db = Pool | PoolClient;
+
+type RuleRow = {
+  id: string;
+  name: string;
+  profile_id: string | null;
+  rule_json: unknown;
+};
+
+type VersionRow = {
+  id: string;
+  commission_rule_id: string;
+  valid_from: string | null;
+  valid_to: string | null;
+  rule_json: unknown;
+};
+
+type InvoiceRow = {
+  id: string;
+  profile_id: string | null;
+  amount: number;
+  status: CommissionInvoice['status'];
+  expected_payment_date: string | null;
+};
+
+type PaymentRow = {
+  invoice_id: string;
+  amount: number;
+  allocated_on: string;
+};
+
+/**
+ * Commission payouts due in [startDate, endDateExclusive) for the user's active
+ * rules (or a single rule, active or not, when `ruleId` is given).
+ */
+export async function loadCommissionPayouts(
+  db: Db,
+  userId: string,
+  range: { startDate: string; endDateExclusive: string; ruleId?: string },
+): Promise<CommissionPayout[]> {
+  const ruleId = range.ruleId ?? null;
+
+  const rules = await db.query(
+    `SELECT id, name, profile_id, rule_json
+     FROM commission_rules
+     WHERE user_id = $1
+       AND (($2::uuid IS NULL AND is_active = true) OR id = $2::uuid)
+     ORDER BY created_at ASC`,
+    [userId, ruleId],
+  );
+  if (rules.rowCount === 0) return [];
+
+  const ids = (rules.rows as RuleRow[]).map((r) => r.id);
+
+  const versions = await db.query(
+    `SELECT
+       id,
+       commission_rule_id,
+       lower(valid_period)::text AS valid_from,
+       upper(valid_period)::text AS valid_to,
+       rule_json
+     FROM commission_rule_versions
+     WHERE user_id = $1
+       AND commission_rule_id = ANY($2::uuid[])
+       AND NOT isempty(valid_period)
+     ORDER BY lower(valid_period) ASC`,
+    [userId, ids],
+  );
+
+  // periods can trail their payout; load invoices and payments back to the oldest period considered
+  const window = [userId, range.startDate, range.endDateExclusive, COMMISSION_LOOKBACK_MONTHS];
+  const payments = await db.query(
+    `SELECT
+       a.invoice_id,
+       a.amount::float8 AS amount,
+       a.allocated_on::text AS allocated_on
+     FROM invoice_allocations a
+     WHERE a.user_id = $1
+       AND a.kind = 'payment'
+       AND a.allocated_on >= $2::date - make_interval(months => $4::int)
+       AND a.allocated_on < $3::date
+     ORDER BY a.allocated_on ASC`,
+    window,
+  );
+  const paymentsByInvoice = new Map<string, CommissionInvoice['payments']>();
+  for (const p of payments.rows as PaymentRow[]) {
+    const list = paymentsByInvoice.get(p.invoice_id) ?? [];
+    list.push({ amount: p.amount, paidOn: p.allocated_on });
+    paymentsByInvoice.set(p.invoice_id, list);
+  }
+
+  const inv = await db.query(
+    `SELECT
+       id,
+       profile_id,
+       amount::float8 AS amount,
+       status,
+       expected_payment_date::text AS expected_payment_date
+     FROM invoices
+     WHERE user_id = $1
+       AND status <> 'void'
+       AND (
+         (expected_payment_date >= $2::date - make_interval(months => $4::int)
+          AND expected_payment_date < $3::date)
+         OR id = ANY($5::uuid[])
+       )`,
+    [...window, [...paymentsByInvoice.keys()]],
+  );
+
+  const invoices: CommissionInvoice[] = (inv.rows as InvoiceRow[]).map((r) => ({
+    profileId: r.profile_id,
+    amount: r.amount,
+    status: r.status,
+    payments: paymentsByInvoice.get(r.id) ?? [],
+    expectedPaymentDate: r.expected_payment_date,
+  }));
+
+  const byRule = new Map<string, CommissionRuleVersion[]>();
+  for (const v of versions.rows as VersionRow[]) {
+    const list = byRule.get(v.commission_rule_id) ?? [];
+    list.push({
+      id: v.id,
+      validFrom: v.valid_from,
+      validToExclusive: v.valid_to,
+      ruleJson: v.rule_json,
+    });
+    byRule.set(v.commission_rule_id, list);
+  }
+
+  return (rules.rows as RuleRow[]).flatMap((r) => {
+    const rule: CommissionRuleInput = {
+      id: r.id,
+      name: r.name,
+      profileId: r.profile_id,
+      ruleJson: r.rule_json,
+      versions: byRule.get(r.id) ?? [],
+    };
+    return computeCommissionPayouts(rule, invoices, range.startDate, range.endDateExclusive);
+  });
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { invoiceDatesFromTerms, isValidVatId, normalizeVatId } from './customer';
+
+describe('VAT ids', () => {
+  it('strips separators and checks the shape only', () => {
+    expect(normalizeVatId('de 123.456-789')).toBe('DE123456789');
+    expect(isValidVatId('DE 123 456 789')).toBe(true);
+    expect(isValidVatId('ATU12345678')).toBe(true);
+    expect(isValidVatId('123456789')).toBe(false);
+    expect(isValidVatId('DE1')).toBe(false);
+  });
+});
+
+describe('invoiceDatesFromTerms', () => {
+  it('expects the payment on the due date, also across the year end', () => {
+    expect(invoiceDatesFromTerms('2025-12-20', 14)).toEqual({
+      dueDate: '2026-01-03',
+      expectedPaymentDate: '2026-01-03',
+    });
+    expect(invoiceDatesFromTerms('2025-02-28', 0).dueDate).toBe('2025-02-28');
+  });
+});
@@ -0,0 +1,41 @@
+import { addDaysUTC } from '@/lib/cashflow/dates';
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 14;
+
+export type Customer = {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  street: string;
+  postal_code: string;
+  city: string;
+  country: string;
+  vat_id: string | null;
+  payment_terms_days: number;
+  default_profile_id: string | null;
+  notes: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export function normalizeVatId(v: string) {
+  return (v ?? '').replace(/[\s.-]+/g, '').toUpperCase();
+}
+
+/**
+ * Shape check only (country prefix + 2–12 characters), no VIES lookup.
+ */
+export function isValidVatId(v: string) {
+  return /^[A-Z]{2}[A-Z0-9+*]{2,12}$/.test(normalizeVatId(v));
+}
+
+/**
+ * Due date from the invoice date and the customer's payment terms. The expected
+ * payment date starts out as the due date; the plan applies the business-day rule.
+ */
+export function invoiceDatesFromTerms(issuedAt: string, paymentTermsDays: number) {
+  const dueDate = addDaysUTC(issuedAt, paymentTermsDays);
+  return { dueDate, expectedPaymentDate: dueDate };
+}
@@ -0,0 +1,36 @@
+import type { Pool, PoolClient } from 'pg';
+import type { Customer } from './customer';
+
+type Db = Pool | PoolClient;
+
+export const CUSTOMER_COLUMNS = `
+  id,
+  user_id,
+  name,
+  email,
+  street,
+  postal_code,
+  city,
+  country,
+  vat_id,
+  payment_terms_days,
+  default_profile_id,
+  notes,
+  is_active,
+  created_at,
+  updated_at`;
+
+export async function loadCustomer(
+  db: Db,
+  userId: string,
+  customerId: string,
+): Promise<Customer | null> {
+  const r = await db.query(
+    `SELECT ${CUSTOMER_COLUMNS}
+     FROM customers
+     WHERE user_id = $1 AND id = $2`,
+    [userId, customerId],
+  );
+
+  return (r.rows[0] as Customer | undefined) ?? null;
+}
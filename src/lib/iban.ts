@@ -15,3 +15,14 @@ export function maskIban(iban: string) {
   const masked = s.slice(0, -4).replace(/[A-Z0-9]/g, "•") + last4
   return formatIbanGroups(masked)
 }
+
+// BLZ + Kontonummer -> DE-IBAN (MT940 :25: often carries only "BLZ/Konto")
+export function germanIbanFromAccount(blz: string, accountNumber: string) {
+  const bban = blz.padStart(8, "0") + accountNumber.replace(/^0+/, "").padStart(10, "0")
+  if (!/^\d{18}$/.test(bban)) return null
+
+  // "DE00" moved to the end, letters as numbers (D=13, E=14)
+  let rest = 0
+  for (const ch of bban + "131400") rest = (rest * 10 + Number(ch)) % 97
+  return `DE${String(98 - rest).padStart(2, "0")}${bban}`
+}
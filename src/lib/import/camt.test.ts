@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseCamt053 } from './camt';
+import { detectStatementFormat } from './statement';
+
+const camt = (entries: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>DE89 3704 0044 0532 0130 00</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2025-03-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1119.50</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2025-03-31</Dt></Dt>
+      </Bal>
+      ${entries}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('parseCamt053', () => {
+  it('reads account, balances and a single booked entry', () => {
+    const [stmt] = parseCamt053(
+      camt(`<Ntry>
+        <Amt Ccy="EUR">150.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-03-05</Dt></BookgDt><AcctSvcrRef>BANK-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Pty><Nm>Kunde &amp; Co</Nm></Pty></Dbtr></RltdPties>
+          <RmtInf><Ustrd>RE 2025-007</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2025-03-06</Dt></BookgDt>
+      </Ntry>`),
+    );
+
+    expect(stmt.iban).toBe('DE89370400440532013000');
+    expect(stmt.currency).toBe('EUR');
+    // the opening balance is the balance at the end of the previous day
+    expect(stmt.opening).toEqual({ asOf: '2025-02-28', amount: 1000 });
+    expect(stmt.closing).toEqual({ asOf: '2025-03-31', amount: 1119.5 });
+    expect(stmt.rows).toEqual([
+      {
+        txDate: '2025-03-05',
+        amount: 150,
+        description: 'Kunde & Co · RE 2025-007',
+        counterparty: 'Kunde & Co',
+        remittanceInfo: 'RE 2025-007',
+        bankReference: 'BANK-1',
+      },
+    ]);
+  });
+
+  it('splits batch bookings and applies reversals', () => {
+    const [stmt] = parseCamt053(
+      camt(`<Ntry>
+        <Amt Ccy="EUR">30.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-10</Dt></BookgDt>
+        <NtryDtls>
+          <TxDtls><Refs><EndToEndId>E2E-1</EndToEndId></Refs><Amt Ccy="EUR">10.50</Amt>
+            <RltdPties><Cdtr><Nm>A</Nm></Cdtr></RltdPties></TxDtls>
+          <TxDtls><Refs><EndToEndId>E2E-2</EndToEndId></Refs><Amt Ccy="EUR">20.00</Amt>
+            <RltdPties><Cdtr><Nm>B</Nm></Cdtr></RltdPties></TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">20.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><RvslInd>true</RvslInd>
+        <BookgDt><Dt>2025-03-11</Dt></BookgDt><AddtlNtryInf>Rueckbuchung</AddtlNtryInf>
+      </Ntry>`),
+    );
+
+    expect(stmt.rows.map((r) => [r.amount, r.counterparty, r.bankReference])).toEqual([
+      [-10.5, 'A', 'E2E-1'],
+      [-20, 'B', 'E2E-2'],
+      [-20, null, null],
+    ]);
+    expect(stmt.rows[2].remittanceInfo).toBe('Rueckbuchung');
+  });
+
+  it('is detected as CAMT.053', () => {
+    expect(detectStatementFormat(camt(''))).toBe('camt053');
+  });
+});
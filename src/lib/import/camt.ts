@@ -0,0 +1,103 @@
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import { normalizeIban } from '@/lib/iban';
+import { importRow } from './row';
+import type { BankStatement, ImportRow, StatementBalance } from './types';
+import { child, children, parseXml, textAt, type XmlNode } from './xml';
+
+// ISO 20022 CAMT.053 (Bank to Customer Statement), versions .001.02 – .001.08.
+
+function dateOf(node: XmlNode | undefined) {
+  return textAt(node, 'Dt') ?? textAt(node, 'DtTm')?.slice(0, 10) ?? null;
+}
+
+function signedAmount(node: XmlNode | undefined, amount: string | null) {
+  const n = Number(amount);
+  if (!amount || !Number.isFinite(n)) return null;
+  return textAt(node, 'CdtDbtInd') === 'DBIT' ? -n : n;
+}
+
+function balance(bal: XmlNode): (StatementBalance & { code: string }) | null {
+  const code = textAt(bal, 'Tp', 'CdOrPrtry', 'Cd');
+  const date = dateOf(child(bal, 'Dt'));
+  const amount = signedAmount(bal, textAt(bal, 'Amt'));
+  if (!code || !date || amount === null) return null;
+
+  // OPBD is the balance at the start of `date`; PRCD/CLBD at its end.
+  return { code, asOf: code === 'OPBD' ? addDaysUTC(date, -1) : date, amount };
+}
+
+function partyName(tx: XmlNode | undefined, party: 'Dbtr' | 'Cdtr') {
+  const p = child(tx, 'RltdPties', party);
+  return textAt(p, 'Nm') ?? textAt(p, 'Pty', 'Nm'); // .08 wraps the party in <Pty>
+}
+
+function remittance(tx: XmlNode | undefined) {
+  const info = child(tx, 'RmtInf');
+  const unstructured = children(info, 'Ustrd')
+    .map((u) => u.text.trim())
+    .join(' ');
+  return (
+    unstructured || textAt(info, 'Strd', 'CdtrRefInf', 'Ref') || textAt(tx, 'AddtlTxInf') || null
+  );
+}
+
+function entryRows(entry: XmlNode): ImportRow[] {
+  const status = textAt(entry, 'Sts', 'Cd') ?? textAt(entry, 'Sts');
+  if (status && status !== 'BOOK') return []; // pending/info entries are not booked yet
+
+  const txDate = dateOf(child(entry, 'BookgDt')) ?? dateOf(child(entry, 'ValDt'));
+  const entryAmount = signedAmount(entry, textAt(entry, 'Amt'));
+  if (!txDate || entryAmount === null) return [];
+
+  // a reversal is booked against the original direction
+  const reversal = textAt(entry, 'RvslInd') === 'true' ? -1 : 1;
+  const details = children(entry, 'NtryDtls').flatMap((d) => children(d, 'TxDtls'));
+
+  const row = (tx: XmlNode | undefined, amount: number) => {
+    const incoming = amount * reversal > 0;
+    return importRow({
+      txDate,
+      amount: amount * reversal,
+      counterparty: partyName(tx, incoming ? 'Dbtr' : 'Cdtr'),
+      remittanceInfo: remittance(tx) ?? textAt(entry, 'AddtlNtryInf'),
+      bankReference:
+        textAt(tx, 'Refs', 'AcctSvcrRef') ??
+        (details.length <= 1 ? textAt(entry, 'AcctSvcrRef') : null) ??
+        textAt(tx, 'Refs', 'EndToEndId'),
+    });
+  };
+
+  if (details.length <= 1) return [row(details[0], entryAmount)];
+
+  // batch booking: one transaction per detail, each with its own amount
+  return details.map((tx) => {
+    const txAmount =
+      signedAmount(tx, textAt(tx, 'Amt') ?? textAt(tx, 'AmtDtls', 'TxAmt', 'Amt')) ??
+      entryAmount / details.length;
+    const amount = textAt(tx, 'CdtDbtInd') ? txAmount : Math.sign(entryAmount) * Math.abs(txAmount);
+    return row(tx, amount);
+  });
+}
+
+export function parseCamt053(xml: string): BankStatement[] {
+  const doc = parseXml(xml);
+  const stmts = children(child(doc, 'Document', 'BkToCstmrStmt'), 'Stmt');
+
+  return stmts.map((stmt): BankStatement => {
+    const balances = children(stmt, 'Bal')
+      .map(balance)
+      .filter((b) => b !== null);
+    const opening = balances.find((b) => b.code === 'OPBD' || b.code === 'PRCD') ?? null;
+    const closing = balances.find((b) => b.code === 'CLBD') ?? null;
+    const iban = textAt(stmt, 'Acct', 'Id', 'IBAN');
+
+    return {
+      format: 'camt053',
+      iban: iban ? normalizeIban(iban) : null,
+      currency: textAt(stmt, 'Acct', 'Ccy') ?? child(stmt, 'Bal', 'Amt')?.attrs.Ccy ?? 'EUR',
+      opening: opening ? { asOf: opening.asOf, amount: opening.amount } : null,
+      closing: closing ? { asOf: closing.asOf, amount: closing.amount } : null,
+      rows: children(stmt, 'Ntry').flatMap(entryRows),
+    };
+  });
+}
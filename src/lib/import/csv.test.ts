@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMapping,
+  CSV_BANK_PRESETS,
+  detectPreset,
+  parseCsv,
+  parseCsvLine,
+  parseDateDE,
+  type CsvColumnMapping,
+} from './csv';
+
+const preset = (id: string) => CSV_BANK_PRESETS.find((p) => p.id === id)!.mapping;
+
+describe('parseCsvLine', () => {
+  it('splits on the delimiter and keeps quoted delimiters and escaped quotes', () => {
+    expect(parseCsvLine('a; "b;c" ;"say ""hi"""', ';')).toEqual(['a', 'b;c', 'say "hi"']);
+  });
+});
+
+describe('parseCsv', () => {
+  it('skips the account lines above the header and picks up the IBAN', () => {
+    const text = [
+      '\uFEFF"Girokonto";"DE89 3704 0044 0532 0130 00"',
+      '',
+      '"Buchungsdatum";"Betrag (€)";"Verwendungszweck";"Zahlungsempfänger*in";"Kundenreferenz"',
+      '"02.01.25";"-1.234,56";"Miete\nJanuar";"Vermieter";"REF1"',
+    ].join('\r\n');
+
+    const table = parseCsv(text, ';', 'Buchungsdatum');
+    expect(table.iban).toBe('DE89370400440532013000');
+    expect(table.headers[0]).toBe('Buchungsdatum');
+    expect(table.rows).toEqual([['02.01.25', '-1.234,56', 'Miete\nJanuar', 'Vermieter', 'REF1']]);
+    expect(detectPreset(text)?.id).toBe('dkb');
+  });
+});
+
+describe('parseDateDE', () => {
+  it('accepts two- and four-digit years and rejects impossible dates', () => {
+    expect(parseDateDE('2.1.25')).toBe('2025-01-02');
+    expect(parseDateDE('31.12.2024')).toBe('2024-12-31');
+    expect(parseDateDE('31.02.2025')).toBeNull();
+    expect(parseDateDE('2025-03-01', 'YYYY-MM-DD')).toBe('2025-03-01');
+    expect(parseDateDE('01.03.2025', 'YYYY-MM-DD')).toBeNull();
+  });
+});
+
+describe('applyMapping', () => {
+  it('builds import rows with German amounts', () => {
+    const table = parseCsv(
+      'Buchungstag;Betrag;Verwendungszweck;Beguenstigter/Zahlungspflichtiger;Kundenreferenz (End-to-End)\n' +
+        '15.01.2025;1.500,00 €;RE 2025-001;Kunde GmbH;NOTPROVIDED',
+      ';',
+    );
+    expect(applyMapping(table, preset('sparkasse'))).toEqual([
+      {
+        ok: true,
+        row: {
+          txDate: '2025-01-15',
+          amount: 1500,
+          description: 'Kunde GmbH · RE 2025-001',
+          counterparty: 'Kunde GmbH',
+          remittanceInfo: 'RE 2025-001',
+          bankReference: null,
+        },
+      },
+    ]);
+  });
+
+  it('reports invalid dates, amounts and empty amount cells per line', () => {
+    const mapping: CsvColumnMapping = preset('n26');
+    const table = parseCsv(
+      'Booking Date,Amount (EUR),Payment Reference,Partner Name\n' +
+        '2025-01-15,"1,234.50",Invoice,ACME\n' +
+        '15.01.2025,10,x,y\n' +
+        '2025-01-16,abc,x,y\n' +
+        '2025-01-17, ,x,y',
+      ',',
+    );
+    const results = applyMapping(table, mapping);
+
+    expect(results[0]).toMatchObject({ ok: true, row: { amount: 1234.5 } });
+    expect(results[1]).toMatchObject({ ok: false, line: 2 });
+    expect(results[2]).toMatchObject({ ok: false, line: 3 });
+    expect(results[3]).toMatchObject({ ok: false, line: 4 });
+  });
+
+  it('reads dots in German amounts as thousands separators', () => {
+    const table = parseCsv(
+      'Buchungstag;Betrag;Verwendungszweck;Beguenstigter/Zahlungspflichtiger;Kundenreferenz (End-to-End)\n' +
+        '15.01.2025;1.500;Miete;Vermieter;\n' +
+        '16.01.2025;-12.345;Steuer;Finanzamt;\n' +
+        '17.01.2025;-1.234.567,89;Kauf;Händler;',
+      ';',
+    );
+    expect(
+      applyMapping(table, preset('sparkasse')).map((r) => (r.ok ? r.row.amount : r.error)),
+    ).toEqual([1500, -12345, -1234567.89]);
+  });
+
+  it('fails every row when a mapped column is missing', () => {
+    const table = parseCsv('Datum;Betrag\n01.01.2025;1,00', ';');
+    expect(applyMapping(table, preset('sparkasse'))).toEqual([
+      { ok: false, line: 1, error: 'Spalte fehlt' },
+    ]);
+  });
+});
@@ -0,0 +1,235 @@
+import { normalizeIban } from '@/lib/iban';
+import { importRow } from './row';
+import type { ImportRow } from './types';
+
+// CSV bank statement parsing + column mapping. Pure, so the import dialog can
+// preview on the client before anything is sent to /api/transactions/import.
+
+export type CsvDateFormat = 'DD.MM.YYYY' | 'YYYY-MM-DD';
+export type CsvDecimalFormat = 'de' | 'en'; // "1.234,56" vs "1234.56"
+
+export type CsvColumnMapping = {
+  delimiter: ';' | ',' | '\t';
+  dateFormat: CsvDateFormat;
+  decimal: CsvDecimalFormat;
+
+  // header names (not indexes), so small layout changes of the bank don't break profiles
+  dateColumn: string;
+  amountColumn: string;
+  descriptionColumns: string[]; // joined with " "
+  counterpartyColumn: string | null;
+  referenceColumn: string | null; // bank reference / end-to-end id, if the export has one
+};
+
+export type CsvBankPreset = {
+  id: 'sparkasse' | 'dkb' | 'ing' | 'n26';
+  label: string;
+  mapping: CsvColumnMapping;
+};
+
+export const CSV_BANK_PRESETS: CsvBankPreset[] = [
+  {
+    id: 'sparkasse',
+    label: 'Sparkasse (CSV-CAMT)',
+    mapping: {
+      delimiter: ';',
+      dateFormat: 'DD.MM.YYYY',
+      decimal: 'de',
+      dateColumn: 'Buchungstag',
+      amountColumn: 'Betrag',
+      descriptionColumns: ['Verwendungszweck'],
+      counterpartyColumn: 'Beguenstigter/Zahlungspflichtiger',
+      referenceColumn: 'Kundenreferenz (End-to-End)',
+    },
+  },
+  {
+    id: 'dkb',
+    label: 'DKB',
+    mapping: {
+      delimiter: ';',
+      dateFormat: 'DD.MM.YYYY',
+      decimal: 'de',
+      dateColumn: 'Buchungsdatum',
+      amountColumn: 'Betrag (€)',
+      descriptionColumns: ['Verwendungszweck'],
+      counterpartyColumn: 'Zahlungsempfänger*in',
+      referenceColumn: 'Kundenreferenz',
+    },
+  },
+  {
+    id: 'ing',
+    label: 'ING',
+    mapping: {
+      delimiter: ';',
+      dateFormat: 'DD.MM.YYYY',
+      decimal: 'de',
+      dateColumn: 'Buchung',
+      amountColumn: 'Betrag',
+      descriptionColumns: ['Buchungstext', 'Verwendungszweck'],
+      counterpartyColumn: 'Auftraggeber/Empfänger',
+      referenceColumn: null,
+    },
+  },
+  {
+    id: 'n26',
+    label: 'N26',
+    mapping: {
+      delimiter: ',',
+      dateFormat: 'YYYY-MM-DD',
+      decimal: 'en',
+      dateColumn: 'Booking Date',
+      amountColumn: 'Amount (EUR)',
+      descriptionColumns: ['Payment Reference'],
+      counterpartyColumn: 'Partner Name',
+      referenceColumn: null,
+    },
+  },
+];
+
+export type CsvTable = {
+  headers: string[];
+  rows: string[][];
+  iban: string | null; // statement account, if the file mentions one
+};
+
+export type ImportRowResult =
+  | { ok: true; row: ImportRow }
+  | { ok: false; line: number; error: string };
+
+export function parseCsvLine(line: string, delimiter: string) {
+  const out: string[] = [];
+  let cur = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      out.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function splitLines(text: string) {
+  // keep line breaks inside quoted fields
+  const lines: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (const ch of text.replace(/^\uFEFF/, '')) {
+    if (ch === '"') quoted = !quoted;
+    if ((ch === '\n' || ch === '\r') && !quoted) {
+      if (cur.trim()) lines.push(cur);
+      cur = '';
+      continue;
+    }
+    cur += ch;
+  }
+  if (cur.trim()) lines.push(cur);
+  return lines;
+}
+
+/**
+ * Banks put account info lines above the real header (ING, DKB). The header is the
+ * first line containing the mapped date column, or else the first line with the most columns.
+ */
+export function parseCsv(text: string, delimiter: string, dateColumn?: string): CsvTable {
+  const lines = splitLines(text);
+  const cells = lines.map((l) => parseCsvLine(l, delimiter));
+
+  let headerIdx = dateColumn ? cells.findIndex((c) => c.includes(dateColumn)) : -1;
+  if (headerIdx < 0) {
+    const width = Math.max(0, ...cells.map((c) => c.length));
+    headerIdx = cells.findIndex((c) => c.length === width);
+  }
+
+  const prelude = lines.slice(0, Math.max(0, headerIdx)).join(' ');
+  const ibanMatch = /\b([A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?)\b/.exec(prelude);
+
+  return {
+    headers: headerIdx >= 0 ? cells[headerIdx] : [],
+    rows: headerIdx >= 0 ? cells.slice(headerIdx + 1).filter((c) => c.some((x) => x !== '')) : [],
+    iban: ibanMatch ? normalizeIban(ibanMatch[1]) : null,
+  };
+}
+
+export function detectPreset(text: string): CsvBankPreset | null {
+  for (const preset of CSV_BANK_PRESETS) {
+    const { headers } = parseCsv(text, preset.mapping.delimiter, preset.mapping.dateColumn);
+    const m = preset.mapping;
+    if (headers.includes(m.dateColumn) && headers.includes(m.amountColumn)) return preset;
+  }
+  return null;
+}
+
+export function parseDateDE(value: string, format: CsvDateFormat = 'DD.MM.YYYY') {
+  const s = (value ?? '').trim();
+  if (format === 'YYYY-MM-DD') return /^\d{4}-\d{2}-\d{2}$/.test(s) ? s : null;
+
+  const m = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/.exec(s);
+  if (!m) return null;
+  const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+  const ymd = `${year}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`;
+
+  // reject 31.02. etc.
+  const d = new Date(`${ymd}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === ymd ? ymd : null;
+}
+
+function parseAmount(value: string, decimal: CsvDecimalFormat) {
+  const s = (value ?? '').replace(/[€\s]/g, '').replace(/EUR$/i, '');
+  if (!s) return NaN; // Number('') is 0, an empty cell is not a booking of 0 €
+  // bank exports are strict: in 'de' a dot is always the thousands separator ("1.500" = 1500)
+  return decimal === 'de'
+    ? Number(s.replace(/\./g, '').replace(',', '.'))
+    : Number(s.replace(/,/g, ''));
+}
+
+export function applyMapping(table: CsvTable, mapping: CsvColumnMapping): ImportRowResult[] {
+  const col = (name: string | null) => (name ? table.headers.indexOf(name) : -1);
+  const dateIdx = col(mapping.dateColumn);
+  const amountIdx = col(mapping.amountColumn);
+  const descIdx = mapping.descriptionColumns.map(col).filter((i) => i >= 0);
+  const counterpartyIdx = col(mapping.counterpartyColumn);
+  const referenceIdx = col(mapping.referenceColumn);
+
+  return table.rows.map((cells, i): ImportRowResult => {
+    const line = i + 1;
+    if (dateIdx < 0 || amountIdx < 0) return { ok: false, line, error: 'Spalte fehlt' };
+
+    const txDate = parseDateDE(cells[dateIdx], mapping.dateFormat);
+    if (!txDate) return { ok: false, line, error: `Ungültiges Datum: ${cells[dateIdx] ?? ''}` };
+
+    const amount = parseAmount(cells[amountIdx], mapping.decimal);
+    if (!Number.isFinite(amount))
+      return { ok: false, line, error: `Ungültiger Betrag: ${cells[amountIdx] ?? ''}` };
+
+    return {
+      ok: true,
+      row: importRow({
+        txDate,
+        amount,
+        counterparty: counterpartyIdx >= 0 ? cells[counterpartyIdx] : null,
+        remittanceInfo: descIdx
+          .map((j) => cells[j])
+          .filter(Boolean)
+          .join(' '),
+        bankReference: referenceIdx >= 0 ? cells[referenceIdx] : null,
+      }),
+    };
+  });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyAgainstExisting,
+  importCounts,
+  importFingerprints,
+  type ExistingTx,
+} from './dedup';
+import { importRow } from './row';
+
+const row = (txDate: string, amount: number, bankReference: string | null = null, text = 'Miete') =>
+  importRow({ txDate, amount, counterparty: null, remittanceInfo: text, bankReference });
+
+const existing = (
+  id: string,
+  tx_date: string,
+  amount: number,
+  bank_reference: string | null = null,
+  import_fingerprint: string | null = null,
+): ExistingTx => ({ id, tx_date, amount, bank_reference, import_fingerprint });
+
+const classify = (rows: ReturnType<typeof row>[], tx: ExistingTx[]) =>
+  classifyAgainstExisting(rows, importFingerprints('acc', rows), tx).map((c) => [
+    c.status,
+    c.existingId,
+  ]);
+
+describe('importFingerprints', () => {
+  it('is stable and counts identical rows within one file', () => {
+    const rows = [row('2025-01-02', -3.5), row('2025-01-02', -3.5)];
+    const [a, b] = importFingerprints('acc', rows);
+    expect(a).not.toBe(b);
+    expect(importFingerprints('acc', rows)).toEqual([a, b]);
+    expect(importFingerprints('other', rows)[0]).not.toBe(a);
+  });
+});
+
+describe('classifyAgainstExisting', () => {
+  it('skips rows already imported with the same fingerprint', () => {
+    const rows = [row('2025-01-02', -3.5), row('2025-01-02', -3.5)];
+    const [fp] = importFingerprints('acc', rows);
+    expect(classify(rows, [existing('t1', '2025-01-02', -3.5, null, fp)])).toEqual([
+      ['duplicate', 't1'],
+      ['new', null],
+    ]);
+  });
+
+  it('treats the same bank reference as duplicate only with same amount and a nearby date', () => {
+    const tx = [existing('t1', '2025-01-01', -800, 'MANDATE-1')];
+    expect(classify([row('2025-01-03', -800, 'MANDATE-1', 'other text')], tx)).toEqual([
+      ['duplicate', 't1'],
+    ]);
+    // a creditor reusing its reference next month is a new booking to decide on
+    expect(classify([row('2025-02-01', -800, 'MANDATE-1')], tx)).toEqual([['conflict', 't1']]);
+    expect(classify([row('2025-01-02', -810, 'MANDATE-1')], tx)).toEqual([['conflict', 't1']]);
+  });
+
+  it('flags the same date and amount as conflict, each existing booking once', () => {
+    const tx = [existing('t1', '2025-01-05', -20)];
+    expect(
+      classify([row('2025-01-05', -20, null, 'a'), row('2025-01-05', -20, null, 'b')], tx),
+    ).toEqual([
+      ['conflict', 't1'],
+      ['new', null],
+    ]);
+  });
+
+  it('counts conflicts as created only when they are imported anyway', () => {
+    const statuses = [{ status: 'new' }, { status: 'duplicate' }, { status: 'conflict' }] as const;
+    expect(importCounts([...statuses])).toEqual({ created: 1, skipped: 1, conflicting: 1 });
+    expect(importCounts([...statuses], true)).toEqual({ created: 2, skipped: 1, conflicting: 1 });
+  });
+});
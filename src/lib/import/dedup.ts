@@ -0,0 +1,161 @@
+import { createHash } from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { daysBetween } from '@/lib/cashflow/dates';
+import type { ImportCounts, ImportRow, ImportRowStatus } from './types';
+
+export type ClassifiedImportRow = {
+  row: ImportRow;
+  fingerprint: string;
+  status: ImportRowStatus;
+  existingId: string | null;
+};
+
+export type ExistingTx = {
+  id: string;
+  tx_date: string;
+  amount: number;
+  bank_reference: string | null;
+  import_fingerprint: string | null;
+};
+
+export function normalizeDescription(s: string) {
+  return s
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Stable per-row fingerprint (account, date, amount, normalized description, bank reference).
+ * Identical bookings in one file (two coffees on the same day) get an occurrence counter,
+ * so re-importing the same file maps each row onto the same fingerprint again.
+ */
+export function importFingerprints(accountId: string, rows: ImportRow[]) {
+  const seen = new Map<string, number>();
+
+  return rows.map((r) => {
+    const key = [
+      accountId,
+      r.txDate,
+      r.amount.toFixed(2),
+      normalizeDescription(r.description),
+      r.bankReference ?? '',
+    ].join('|');
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+
+    return createHash('sha256').update(`${key}|${n}`).digest('hex');
+  });
+}
+
+// days a booking with the same bank reference may move between statements
+// (booking vs. value date); beyond that a reused reference is a new booking
+export const REFERENCE_MATCH_DAYS = 3;
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+/**
+ * Classify rows against the account's existing transactions: same fingerprint, or
+ * same bank reference with the same amount around the same date, is a duplicate.
+ * Some creditors reuse their reference every month, so a reference alone, or
+ * date and amount alone, only make a conflict for the user to decide.
+ */
+export function classifyAgainstExisting(
+  rows: ImportRow[],
+  fingerprints: string[],
+  existing: ExistingTx[],
+): ClassifiedImportRow[] {
+  const byFingerprint = new Map(
+    existing.filter((e) => e.import_fingerprint).map((e) => [e.import_fingerprint, e]),
+  );
+  const byReference = new Map<string, ExistingTx[]>();
+  for (const e of existing) {
+    if (!e.bank_reference) continue;
+    byReference.set(e.bank_reference, [...(byReference.get(e.bank_reference) ?? []), e]);
+  }
+  const claimed = new Set<string>();
+
+  const classified = rows.map((row, i): ClassifiedImportRow => {
+    const fingerprint = fingerprints[i];
+    const fpMatch = byFingerprint.get(fingerprint);
+    const dup =
+      fpMatch && !claimed.has(fpMatch.id)
+        ? fpMatch
+        : (byReference.get(row.bankReference ?? '') ?? []).find(
+            (e) =>
+              !claimed.has(e.id) &&
+              sameAmount(e.amount, row.amount) &&
+              Math.abs(daysBetween(e.tx_date, row.txDate)) <= REFERENCE_MATCH_DAYS,
+          );
+    if (dup) {
+      claimed.add(dup.id);
+      return { row, fingerprint, status: 'duplicate', existingId: dup.id };
+    }
+    return { row, fingerprint, status: 'new', existingId: null };
+  });
+
+  // second pass: same reference, or same date + amount, without a duplicate (each existing one once)
+  for (const c of classified) {
+    if (c.status !== 'new') continue;
+    const match =
+      (byReference.get(c.row.bankReference ?? '') ?? []).find((e) => !claimed.has(e.id)) ??
+      existing.find(
+        (e) =>
+          !claimed.has(e.id) && e.tx_date === c.row.txDate && sameAmount(e.amount, c.row.amount),
+      );
+    if (match) {
+      claimed.add(match.id);
+      c.status = 'conflict';
+      c.existingId = match.id;
+    }
+  }
+
+  return classified;
+}
+
+export async function classifyImportRows(
+  client: PoolClient,
+  userId: string,
+  accountId: string,
+  rows: ImportRow[],
+): Promise<ClassifiedImportRow[]> {
+  if (!rows.length) return [];
+
+  const fingerprints = importFingerprints(accountId, rows);
+  const dates = rows.map((r) => r.txDate).sort();
+
+  const r = await client.query(
+    `SELECT id, tx_date::text AS tx_date, amount::float8 AS amount, bank_reference, import_fingerprint
+     FROM transactions
+     WHERE user_id = $1
+       AND account_id = $2
+       AND (
+         tx_date BETWEEN $3::date AND $4::date
+         OR import_fingerprint = ANY($5::text[])
+         OR bank_reference = ANY($6::text[])
+       )`,
+    [
+      userId,
+      accountId,
+      dates[0],
+      dates[dates.length - 1],
+      fingerprints,
+      rows.map((row) => row.bankReference).filter(Boolean),
+    ],
+  );
+  return classifyAgainstExisting(rows, fingerprints, r.rows as ExistingTx[]);
+}
+
+export function importCounts(
+  classified: Pick<ClassifiedImportRow, 'status'>[],
+  includeConflicts = false,
+): ImportCounts {
+  const count = (s: ImportRowStatus) => classified.filter((c) => c.status === s).length;
+  return {
+    created: count('new') + (includeConflicts ? count('conflict') : 0),
+    skipped: count('duplicate'),
+    conflicting: count('conflict'),
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseMt940 } from './mt940';
+import { detectStatementFormat } from './statement';
+
+const page = (lines: string[]) => [':20:STARTUMS', ...lines, '-'].join('\r\n');
+
+describe('parseMt940', () => {
+  it('reads balances and bookings with structured :86: details', () => {
+    const text = page([
+      ':25:37040044/532013000',
+      ':28C:1/1',
+      ':60F:C241231EUR1000,00',
+      ':61:2412310102C150,00NTRFNONREF//BANK-1',
+      ':86:166?00GUTSCHRIFT?20EREF+E2E-1SVWZ+RE 2025-0?2101?32Kunde GmbH',
+      ':61:2501030103D49,99NDDTKREF-7',
+      ':86:Lastschrift Telefon',
+      ':62F:C250103EUR1100,01',
+    ]);
+
+    const [stmt] = parseMt940(text);
+    expect(stmt.iban).toBe('DE89370400440532013000');
+    expect(stmt.currency).toBe('EUR');
+    expect(stmt.opening).toEqual({ asOf: '2024-12-31', amount: 1000 });
+    expect(stmt.closing).toEqual({ asOf: '2025-01-03', amount: 1100.01 });
+
+    // a booking date in January after a December value date belongs to the next year
+    expect(stmt.rows[0]).toEqual({
+      txDate: '2025-01-02',
+      amount: 150,
+      description: 'Kunde GmbH · RE 2025-001',
+      counterparty: 'Kunde GmbH',
+      remittanceInfo: 'RE 2025-001',
+      bankReference: 'BANK-1',
+    });
+    expect(stmt.rows[1]).toMatchObject({
+      txDate: '2025-01-03',
+      amount: -49.99,
+      counterparty: null,
+      remittanceInfo: 'Lastschrift Telefon',
+      bankReference: 'KREF-7',
+    });
+  });
+
+  it('merges the pages of a multi-page statement', () => {
+    const text = [
+      page([
+        ':25:DE89370400440532013000',
+        ':60F:C250101EUR100,00',
+        ':61:250102C10,00NTRFNONREF',
+        ':62M:C250102EUR110,00',
+      ]),
+      page([
+        ':25:DE89370400440532013000',
+        ':60M:C250102EUR110,00',
+        ':61:250103RC5,00NTRFNONREF',
+        ':62F:C250103EUR105,00',
+      ]),
+    ].join('\r\n');
+
+    expect(detectStatementFormat(text)).toBe('mt940');
+    const stmts = parseMt940(text);
+    expect(stmts).toHaveLength(1);
+    expect(stmts[0].rows.map((r) => r.amount)).toEqual([10, -5]);
+    expect(stmts[0].closing).toEqual({ asOf: '2025-01-03', amount: 105 });
+  });
+});
@@ -0,0 +1,183 @@
+import { germanIbanFromAccount, normalizeIban } from '@/lib/iban';
+import { importRow } from './row';
+import type { BankStatement, ImportRow, StatementBalance } from './types';
+
+// SWIFT MT940 as exported by German banks (incl. the structured DK :86: field).
+
+type Field = { tag: string; value: string };
+
+function fieldsOf(block: string): Field[] {
+  const out: Field[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    const m = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (m) out.push({ tag: m[1], value: m[2] });
+    else if (out.length && line.trim() !== '-') out[out.length - 1].value += `\n${line}`;
+  }
+  return out;
+}
+
+function yymmdd(s: string) {
+  return `20${s.slice(0, 2)}-${s.slice(2, 4)}-${s.slice(4, 6)}`;
+}
+
+function amountOf(s: string) {
+  return Number(s.replace(',', '.'));
+}
+
+function balanceOf(value: string): StatementBalance | null {
+  const m = /^([CD])(\d{6})([A-Z]{3})([\d,]+)/.exec(value.trim());
+  if (!m) return null;
+  const amount = amountOf(m[4]);
+  return { asOf: yymmdd(m[2]), amount: m[1] === 'D' ? -amount : amount };
+}
+
+function accountIban(value: string) {
+  const v = value.trim().split('\n')[0];
+  const iban = /^([A-Z]{2}\d{2}[A-Z0-9]{10,30})/.exec(normalizeIban(v));
+  if (iban) return iban[1];
+
+  const blz = /^(\d{8})\/(\d{1,10})/.exec(v.replace(/\s+/g, ''));
+  return blz ? germanIbanFromAccount(blz[1], blz[2]) : null;
+}
+
+type StatementLine = {
+  valueDate: string;
+  bookingDate: string;
+  amount: number;
+  customerRef: string | null;
+  bankRef: string | null;
+};
+
+function statementLine(value: string): StatementLine | null {
+  const first = value.split('\n')[0];
+  const m =
+    /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})[A-Z][A-Z0-9]{3}([^/]*)(?:\/\/(.*))?$/.exec(
+      first.trim(),
+    );
+  if (!m) return null;
+
+  const valueDate = yymmdd(m[1]);
+  let bookingDate = valueDate;
+  if (m[2]) {
+    // booking date has no year: take the value date's, across a year boundary if needed
+    let year = Number(valueDate.slice(0, 4));
+    const month = Number(m[2].slice(0, 2));
+    const valueMonth = Number(valueDate.slice(5, 7));
+    if (month === 1 && valueMonth === 12) year++;
+    if (month === 12 && valueMonth === 1) year--;
+    bookingDate = `${year}-${m[2].slice(0, 2)}-${m[2].slice(2, 4)}`;
+  }
+
+  // RC = reversal of a credit (money leaves), RD = reversal of a debit
+  const sign = m[3] === 'D' || m[3] === 'RC' ? -1 : 1;
+  const customerRef = m[6].trim();
+
+  return {
+    valueDate,
+    bookingDate,
+    amount: sign * amountOf(m[5]),
+    customerRef: customerRef && customerRef !== 'NONREF' ? customerRef : null,
+    bankRef: m[7]?.trim() || null,
+  };
+}
+
+// :86: in DK format: "166?00GUTSCHRIFT?20SVWZ+...?21...?32Name?33Name"
+function details(value: string) {
+  const flat = value.replace(/\r?\n/g, '');
+  const m = /^\d{3}([^\w\s])/.exec(flat);
+  if (!m) return { counterparty: null, remittanceInfo: flat.trim() || null, endToEnd: null };
+
+  const sep = m[1];
+  const parts = new Map<string, string>();
+  for (const chunk of flat.slice(3).split(sep).slice(1)) {
+    const key = chunk.slice(0, 2);
+    parts.set(key, (parts.get(key) ?? '') + chunk.slice(2));
+  }
+
+  const purposeKeys = [
+    '20',
+    '21',
+    '22',
+    '23',
+    '24',
+    '25',
+    '26',
+    '27',
+    '28',
+    '29',
+    '60',
+    '61',
+    '62',
+    '63',
+  ];
+  const purpose = purposeKeys.map((k) => parts.get(k) ?? '').join('');
+
+  // SEPA purposes carry keyword segments (EREF+, MREF+, SVWZ+ ...)
+  const svwz = /SVWZ\+(.*?)(?=(?:EREF|KREF|MREF|CRED|DEBT|ABWA|ABWE|IBAN|BIC)\+|$)/.exec(purpose);
+  const eref = /EREF\+(.*?)(?=(?:KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE|IBAN|BIC)\+|$)/.exec(purpose);
+
+  return {
+    counterparty: `${parts.get('32') ?? ''}${parts.get('33') ?? ''}`.trim() || null,
+    remittanceInfo: (svwz ? svwz[1] : purpose).trim() || parts.get('00')?.trim() || null,
+    endToEnd: eref ? eref[1].trim() : null,
+  };
+}
+
+function statementOf(block: string): BankStatement | null {
+  const fields = fieldsOf(block);
+  const account = fields.find((f) => f.tag === '25');
+  if (!account) return null;
+
+  const openings = fields.filter((f) => f.tag === '60F' || f.tag === '60M');
+  const closings = fields.filter((f) => f.tag === '62F' || f.tag === '62M');
+  const opening = openings.length ? balanceOf(openings[0].value) : null;
+  const closing = closings.length ? balanceOf(closings[closings.length - 1].value) : null;
+
+  const rows: ImportRow[] = [];
+  fields.forEach((f, i) => {
+    if (f.tag !== '61') return;
+    const line = statementLine(f.value);
+    if (!line) return;
+
+    const next = fields[i + 1];
+    const info = next?.tag === '86' ? details(next.value) : null;
+
+    rows.push(
+      importRow({
+        txDate: line.bookingDate,
+        amount: line.amount,
+        counterparty: info?.counterparty ?? null,
+        remittanceInfo: info?.remittanceInfo ?? null,
+        bankReference: line.bankRef ?? info?.endToEnd ?? line.customerRef,
+      }),
+    );
+  });
+
+  const currency = /^[CD]\d{6}([A-Z]{3})/.exec(openings[0]?.value ?? '')?.[1] ?? 'EUR';
+
+  return { format: 'mt940', iban: accountIban(account.value), currency, opening, closing, rows };
+}
+
+export function parseMt940(text: string): BankStatement[] {
+  // statements are separated by a line with a single "-"; some exports wrap them in {4: ...}
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n-\s*(?:\}\s*)?(?:\r?\n|$)/)
+    .filter((b) => b.includes(':20:'));
+
+  // a multi-page statement (60M/62M) repeats the account; merge its pages
+  const out: BankStatement[] = [];
+  blocks.forEach((block, i) => {
+    const stmt = statementOf(block);
+    if (!stmt) return;
+
+    const prev = out[out.length - 1];
+    if (prev && prev.iban === stmt.iban && /:62M:/.test(blocks[i - 1] ?? '')) {
+      prev.rows.push(...stmt.rows);
+      prev.closing = stmt.closing;
+    } else {
+      out.push(stmt);
+    }
+  });
+  return out;
+}
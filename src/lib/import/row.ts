@@ -0,0 +1,24 @@
+import type { ImportRow } from './types';
+
+const MAX_DESCRIPTION = 200;
+
+/**
+ * Builds the transaction row of an imported booking; the description shown in
+ * lists is "counterparty · remittance info".
+ */
+export function importRow(input: Omit<ImportRow, 'description'>): ImportRow {
+  const counterparty = input.counterparty?.trim() || null;
+  const remittanceInfo = input.remittanceInfo?.replace(/\s+/g, ' ').trim() || null;
+  const bankReference = input.bankReference?.trim() || null;
+
+  return {
+    txDate: input.txDate,
+    amount: Math.round(input.amount * 100) / 100,
+    description:
+      [counterparty, remittanceInfo].filter(Boolean).join(' · ').slice(0, MAX_DESCRIPTION) ||
+      'Import',
+    counterparty,
+    remittanceInfo,
+    bankReference: bankReference && bankReference !== 'NOTPROVIDED' ? bankReference : null,
+  };
+}
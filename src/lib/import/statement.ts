@@ -0,0 +1,22 @@
+import { parseCamt053 } from './camt';
+import { parseMt940 } from './mt940';
+import type { BankStatement } from './types';
+
+export type StatementFormat = BankStatement['format'];
+
+export function detectStatementFormat(text: string): StatementFormat | null {
+  const head = text
+    .replace(/^\uFEFF/, '')
+    .trimStart()
+    .slice(0, 4000);
+  if (head.startsWith('<') && /camt\.053|BkToCstmrStmt/.test(head)) return 'camt053';
+  if (/(^|\n):20:/.test(head) && /\n:25:/.test(head)) return 'mt940';
+  return null;
+}
+
+export function parseStatement(text: string): BankStatement[] {
+  const format = detectStatementFormat(text);
+  if (format === 'camt053') return parseCamt053(text);
+  if (format === 'mt940') return parseMt940(text);
+  return [];
+}
@@ -0,0 +1,198 @@
+import type { PoolClient } from 'pg';
+import { applyRules } from '@/lib/categorization/rules';
+import { loadCategoryRules } from '@/lib/categorization/store';
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import { formatDateOnly } from '@/lib/date-only';
+import { linkInvoicePayments } from '@/lib/invoices/store';
+import { DEFAULT_RECURRING_MATCH_OPTIONS } from '@/lib/recurring/match';
+import { linkRecurringMatches } from '@/lib/recurring/store';
+import { linkTaxPaymentBookings } from '@/lib/tax/store';
+import { splitGross } from '@/lib/tax/vat';
+import { classifyImportRows, importCounts } from './dedup';
+import type {
+  BalanceCheck,
+  BankStatement,
+  ImportCounts,
+  ImportRow,
+  ImportRowStatus,
+  ImportSource,
+  StatementChecks,
+} from './types';
+
+export type ImportResult = ImportCounts & {
+  ids: string[];
+  statuses: ImportRowStatus[]; // per input row
+};
+
+/**
+ * Inserts already parsed statement rows as NORMAL transactions of one account,
+ * categorized by the user's rules and linked to the recurring occurrences they fulfil
+ * and to the open invoices and income tax payments they clearly pay.
+ * Duplicates are skipped; conflicts are only booked with `includeConflicts`.
+ * Runs on the caller's client so the whole file is imported atomically.
+ */
+export async function insertImportedTransactions(
+  client: PoolClient,
+  userId: string,
+  accountId: string,
+  rows: ImportRow[],
+  source: ImportSource,
+  opts: { includeConflicts?: boolean } = {},
+): Promise<ImportResult> {
+  const classified = await classifyImportRows(client, userId, accountId, rows);
+  const rules = await loadCategoryRules(client, userId);
+  const ids: string[] = [];
+  let skipped = 0;
+
+  for (const c of classified) {
+    if (c.status === 'duplicate' || (c.status === 'conflict' && !opts.includeConflicts)) {
+      if (c.status === 'duplicate') skipped++;
+      continue;
+    }
+
+    const { row } = c;
+    const outcome = applyRules(rules, { accountId, ...row });
+    const vat = outcome.vatCode ? splitGross(row.amount, outcome.vatCode) : null;
+
+    const r = await client.query(
+      `
+      INSERT INTO transactions
+        (user_id, account_id, amount, description, category, tags, is_business, is_tax_relevant,
+         tx_date, counterparty, remittance_info, bank_reference, import_source, import_fingerprint,
+         vat_code, net_amount, vat_amount)
+      VALUES
+        ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17)
+      ON CONFLICT (user_id, account_id, import_fingerprint) WHERE import_fingerprint IS NOT NULL
+      DO NOTHING
+      RETURNING id
+      `,
+      [
+        userId,
+        accountId,
+        row.amount,
+        row.description,
+        outcome.category,
+        outcome.tags,
+        outcome.isBusiness ?? false,
+        outcome.isTaxRelevant ?? false,
+        row.txDate,
+        row.counterparty,
+        row.remittanceInfo,
+        row.bankReference,
+        source,
+        c.fingerprint,
+        outcome.vatCode,
+        vat?.net ?? null,
+        vat?.vat ?? null,
+      ],
+    );
+
+    // a concurrent import booked it first
+    if (!r.rowCount) {
+      c.status = 'duplicate';
+      skipped++;
+      continue;
+    }
+    ids.push(r.rows[0].id);
+  }
+
+  let invoicesLinked = 0;
+  let taxPaymentsLinked = 0;
+  if (ids.length) {
+    // occurrences the booked rows can fulfil lie within the matcher's date window
+    const window = DEFAULT_RECURRING_MATCH_OPTIONS.dateWindowDays;
+    const dates = rows.map((r) => r.txDate).sort();
+    await linkRecurringMatches(client, userId, {
+      from: addDaysUTC(dates[0], -window),
+      toExclusive: addDaysUTC(dates[dates.length - 1], window + 1),
+      accountId,
+    });
+    invoicesLinked = await linkInvoicePayments(client, userId, ids, formatDateOnly(new Date()));
+    taxPaymentsLinked = await linkTaxPaymentBookings(client, userId, ids);
+  }
+
+  return {
+    ...importCounts(classified, opts.includeConflicts),
+    created: ids.length,
+    skipped,
+    invoicesLinked,
+    taxPaymentsLinked,
+    ids,
+    statuses: classified.map((c) => c.status),
+  };
+}
+
+const CENT = 0.005;
+
+/**
+ * Account balance at the end of `asOf`, computed like /api/accounts/balances
+ * (initial balance + all transactions of the account up to that day).
+ */
+export async function accountBalanceAsOf(
+  client: PoolClient,
+  userId: string,
+  accountId: string,
+  asOf: string,
+) {
+  const r = await client.query(
+    `SELECT (a.initial_balance + COALESCE(SUM(t.amount), 0))::float8 AS balance
+     FROM accounts a
+     LEFT JOIN transactions t
+       ON t.account_id = a.id
+      AND t.user_id = a.user_id
+      AND t.tx_date <= $3::date
+     WHERE a.user_id = $1 AND a.id = $2
+     GROUP BY a.id, a.initial_balance`,
+    [userId, accountId, asOf],
+  );
+  return (r.rows[0]?.balance as number | undefined) ?? 0;
+}
+
+function balanceCheck(asOf: string, statement: number, computed: number): BalanceCheck {
+  const difference = Math.round((statement - computed) * 100) / 100;
+  return { asOf, statement, computed, difference, ok: Math.abs(difference) < CENT };
+}
+
+/**
+ * Compares the statement's opening/closing balance with the booked account balance.
+ * `pending` rows (dry run) are added to the computed closing balance so the preview
+ * shows what the import leads to; rows `booked` by this import are taken out of the
+ * opening balance again.
+ */
+export async function checkStatementBalances(
+  client: PoolClient,
+  userId: string,
+  accountId: string,
+  statement: BankStatement,
+  adjust: { pending: ImportRow[]; booked: ImportRow[] },
+): Promise<StatementChecks> {
+  const { opening, closing, rows } = statement;
+  const sumUntil = (list: ImportRow[], asOf: string) =>
+    list.filter((r) => r.txDate <= asOf).reduce((s, r) => s + r.amount, 0);
+
+  const sum = rows.reduce((s, r) => s + r.amount, 0);
+  const consistent =
+    opening && closing ? Math.abs(opening.amount + sum - closing.amount) < CENT : null;
+
+  let openingCheck: BalanceCheck | null = null;
+  if (opening) {
+    const computed = await accountBalanceAsOf(client, userId, accountId, opening.asOf);
+    openingCheck = balanceCheck(
+      opening.asOf,
+      opening.amount,
+      computed - sumUntil(adjust.booked, opening.asOf),
+    );
+  }
+
+  let closingCheck: BalanceCheck | null = null;
+  if (closing) {
+    const computed = await accountBalanceAsOf(client, userId, accountId, closing.asOf);
+    closingCheck = balanceCheck(
+      closing.asOf,
+      closing.amount,
+      computed + sumUntil(adjust.pending, closing.asOf),
+    );
+  }
+
+  return { consistent, opening: openingCheck, closing: closingCheck };
+}
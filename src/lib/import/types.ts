@@ -0,0 +1,53 @@
+// Shared shapes of the bank statement import (CSV, CAMT.053, MT940).
+
+export type ImportSource = 'csv' | 'camt053' | 'mt940';
+
+export type ImportRow = {
+  txDate: string; // YYYY-MM-DD
+  amount: number; // signed
+  description: string;
+  counterparty: string | null;
+  remittanceInfo: string | null;
+  bankReference: string | null;
+};
+
+export type StatementBalance = {
+  asOf: string; // balance at the end of this day (YYYY-MM-DD)
+  amount: number;
+};
+
+export type BankStatement = {
+  format: Exclude<ImportSource, 'csv'>;
+  iban: string | null;
+  currency: string;
+  opening: StatementBalance | null;
+  closing: StatementBalance | null;
+  rows: ImportRow[];
+};
+
+export type BalanceCheck = {
+  asOf: string;
+  statement: number;
+  computed: number;
+  difference: number; // statement - computed
+  ok: boolean;
+};
+
+export type StatementChecks = {
+  consistent: boolean | null; // opening + bookings = closing within the file itself
+  opening: BalanceCheck | null;
+  closing: BalanceCheck | null;
+};
+
+// new = not booked yet; duplicate = same fingerprint/bank reference already booked;
+// conflict = a booking with the same date + amount exists on the account (manual entry,
+// other export format) and needs a decision.
+export type ImportRowStatus = 'new' | 'duplicate' | 'conflict';
+
+export type ImportCounts = {
+  created: number;
+  skipped: number;
+  conflicting: number;
+  invoicesLinked?: number; // incoming payments linked to open invoices (after booking)
+  taxPaymentsLinked?: number; // bookings linked to open income tax payments (after booking)
+};
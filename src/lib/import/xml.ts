@@ -0,0 +1,83 @@
+// Minimal XML reader for bank statements (CAMT.053). No DTDs, no mixed content:
+// enough for ISO 20022 messages without pulling in a parser dependency.
+
+export type XmlNode = {
+  name: string; // local name, namespace prefix stripped
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === '#') {
+      const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : Number(e.slice(1));
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e] ?? m;
+  });
+}
+
+function localName(qname: string) {
+  const i = qname.indexOf(':');
+  return i >= 0 ? qname.slice(i + 1) : qname;
+}
+
+export function parseXml(input: string): XmlNode {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const tagRe =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>/g;
+
+  let last = 0;
+  for (let m = tagRe.exec(input); m; m = tagRe.exec(input)) {
+    const top = stack[stack.length - 1];
+    top.text += decodeEntities(input.slice(last, m.index));
+    last = tagRe.lastIndex;
+
+    if (m[1] !== undefined) {
+      top.text += m[1];
+      continue;
+    }
+    if (!m[3]) continue; // comment, PI, doctype
+
+    if (m[2] === '/') {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const a of m[4].matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      attrs[localName(a[1])] = decodeEntities(a[3] ?? a[4] ?? '');
+    }
+
+    const node: XmlNode = { name: localName(m[3]), attrs, children: [], text: '' };
+    top.children.push(node);
+    if (m[5] !== '/') stack.push(node);
+  }
+
+  return root;
+}
+
+export function child(node: XmlNode | undefined, ...path: string[]): XmlNode | undefined {
+  let cur = node;
+  for (const name of path) cur = cur?.children.find((c) => c.name === name);
+  return cur;
+}
+
+export function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter((c) => c.name === name) : [];
+}
+
+export function textAt(node: XmlNode | undefined, ...path: string[]): string | null {
+  const t = child(node, ...path)?.text.trim();
+  return t ? t : null;
+}
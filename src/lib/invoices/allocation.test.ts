@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exceeds,
+  isSettled,
+  outstandingAmount,
+  statusFromAllocations,
+  unallocatedAmount,
+} from './allocation';
+
+describe('outstandingAmount / isSettled', () => {
+  it('rounds to cents and tolerates sub-cent differences', () => {
+    expect(outstandingAmount(119, 100.1)).toBe(18.9);
+    expect(outstandingAmount(100, 120)).toBe(0);
+    expect(isSettled(100, 99.996)).toBe(true);
+    expect(isSettled(100, 99.99)).toBe(false);
+  });
+});
+
+describe('statusFromAllocations', () => {
+  const invoice = { status: 'sent' as const, amount: 500, paidAmount: 0, issued: true };
+
+  it('follows the allocated amount', () => {
+    expect(statusFromAllocations({ ...invoice, paidAmount: 200 })).toBe('partially_paid');
+    expect(statusFromAllocations({ ...invoice, paidAmount: 500 })).toBe('paid');
+    expect(statusFromAllocations({ ...invoice, status: 'void', paidAmount: 500 })).toBe('void');
+  });
+
+  it('goes back to sent or planned once the allocations are removed', () => {
+    expect(statusFromAllocations({ ...invoice, status: 'paid' })).toBe('sent');
+    expect(statusFromAllocations({ ...invoice, status: 'partially_paid', issued: false })).toBe(
+      'planned',
+    );
+    expect(statusFromAllocations({ ...invoice, status: 'planned', issued: false })).toBe('planned');
+  });
+});
+
+describe('unallocatedAmount / exceeds', () => {
+  it('splits a transaction across invoices', () => {
+    expect(unallocatedAmount(1000, 599.99)).toBe(400.01);
+    expect(unallocatedAmount(100, 150)).toBe(0);
+    expect(exceeds(400.01, 400.01)).toBe(false);
+    expect(exceeds(400.02, 400.01)).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import type { InvoiceStatus } from '@/lib/types/income';
+
+// Payments are allocated to invoices: an invoice can be paid in instalments by
+// several transactions, and amounts the customer deducted (bank fees, discounts)
+// are written off. The invoice is paid once the allocations cover its amount.
+
+export const ALLOCATION_KINDS = ['payment', 'writeoff'] as const;
+
+export type AllocationKind = (typeof ALLOCATION_KINDS)[number];
+
+export type InvoiceAllocation = {
+  id: string;
+  invoiceId: string;
+  transactionId: string | null;
+  kind: AllocationKind;
+  amount: number;
+  allocatedOn: string;
+  note: string;
+  // joined from the transaction
+  txDate: string | null;
+  txDescription: string | null;
+};
+
+// below one cent counts as settled (rounding in bank exports)
+const TOLERANCE = 0.005;
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+export function outstandingAmount(amount: number, paidAmount: number) {
+  return Math.max(0, round2(amount - paidAmount));
+}
+
+export function isSettled(amount: number, paidAmount: number) {
+  return paidAmount >= amount - TOLERANCE;
+}
+
+/**
+ * Status after the allocations changed. Without any allocation an invoice goes
+ * back to `sent` once it was issued, else to `planned`; void stays void.
+ */
+export function statusFromAllocations(invoice: {
+  status: InvoiceStatus;
+  amount: number;
+  paidAmount: number;
+  issued: boolean;
+}): InvoiceStatus {
+  if (invoice.status === 'void') return 'void';
+  if (invoice.paidAmount > 0 && isSettled(invoice.amount, invoice.paidAmount)) return 'paid';
+  if (invoice.paidAmount > 0) return 'partially_paid';
+  if (invoice.status === 'paid' || invoice.status === 'partially_paid') {
+    return invoice.issued ? 'sent' : 'planned';
+  }
+  return invoice.status;
+}
+
+/**
+ * Amount still free on an incoming transaction that may be split across invoices.
+ */
+export function unallocatedAmount(txAmount: number, allocated: number) {
+  return Math.max(0, round2(txAmount - allocated));
+}
+
+export function exceeds(amount: number, available: number) {
+  return amount > available + TOLERANCE;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildInvoiceDocument,
+  eInvoiceIssues,
+  formatInvoiceNumber,
+  invoiceTotals,
+  InvoiceSellerSchema,
+  type InvoiceBuyer,
+  type InvoiceLine,
+} from './document';
+
+const seller = InvoiceSellerSchema.parse({
+  name: 'Muster Consulting',
+  contactName: 'Erika Muster',
+  street: 'Hauptstr. 1',
+  postalCode: '10115',
+  city: 'Berlin',
+  country: 'de',
+  vatId: 'DE123456789',
+  email: 'rechnung@muster.de',
+  phone: '+49 30 123456',
+  iban: 'DE02 1203 0000 0000 2020 51',
+});
+
+const buyer: InvoiceBuyer = {
+  name: 'Kunde GmbH',
+  street: 'Ring 5',
+  postalCode: '80331',
+  city: 'München',
+  country: 'DE',
+  vatId: null,
+  email: 'einkauf@kunde.de',
+};
+
+const line = (quantity: number, unitPrice: number, vatRate: number): InvoiceLine => ({
+  description: 'Beratung',
+  quantity,
+  unit: 'HUR',
+  unitPrice,
+  vatRate,
+});
+
+const invoiceInput = {
+  number: 'RE-2025-0007',
+  issueDate: '2025-03-01',
+  serviceDate: '2025-02-28',
+  dueDate: '2025-03-15',
+  currency: 'EUR',
+  buyerReference: null,
+  seller,
+  buyer,
+  lines: [line(3, 33.33, 19), line(1, 10, 7)],
+  notes: '',
+};
+
+describe('InvoiceSellerSchema', () => {
+  it('needs a VAT id or a tax number', () => {
+    expect(seller).toMatchObject({ country: 'DE', taxNumber: null, smallBusiness: false });
+    expect(InvoiceSellerSchema.safeParse({ ...seller, vatId: null }).error?.issues).toMatchObject([
+      { path: ['taxNumber'], message: 'USt-IdNr. oder Steuernummer erforderlich' },
+    ]);
+  });
+});
+
+describe('invoiceTotals / formatInvoiceNumber', () => {
+  it('rounds VAT per rate on the summed lines', () => {
+    // per line it would be 3 × 6.33 = 18.99
+    expect(invoiceTotals(invoiceInput.lines)).toEqual({ net: 109.99, vat: 19.7, gross: 129.69 });
+    expect(formatInvoiceNumber('RE-', 2025, 7)).toBe('RE-2025-0007');
+  });
+});
+
+describe('buildInvoiceDocument', () => {
+  it('numbers the lines and breaks VAT down per rate', () => {
+    const doc = buildInvoiceDocument(invoiceInput);
+    expect(doc.buyerReference).toBe('RE-2025-0007');
+    expect(doc.lines.map((l) => [l.position, l.net, l.vatCategory])).toEqual([
+      [1, 99.99, 'S'],
+      [2, 10, 'S'],
+    ]);
+    expect(doc.vat.map((g) => [g.category, g.rate, g.taxable, g.tax])).toEqual([
+      ['S', 19, 99.99, 19],
+      ['S', 7, 10, 0.7],
+    ]);
+    expect(doc.totals).toEqual(invoiceTotals(invoiceInput.lines));
+    expect(eInvoiceIssues(doc)).toEqual([]);
+  });
+
+  it('invoices small businesses and reverse charge without VAT', () => {
+    const small = buildInvoiceDocument({
+      ...invoiceInput,
+      seller: { ...seller, smallBusiness: true },
+    });
+    expect(small.vat).toEqual([
+      {
+        category: 'E',
+        rate: 0,
+        taxable: 109.99,
+        tax: 0,
+        exemptionReason: 'Kein Ausweis von Umsatzsteuer, da Kleinunternehmer gemäß § 19 UStG',
+        exemptionReasonCode: null,
+      },
+    ]);
+    expect(small.totals).toEqual({ net: 109.99, vat: 0, gross: 109.99 });
+
+    const abroad = { ...buyer, country: 'AT', vatId: null };
+    const reverse = buildInvoiceDocument({
+      ...invoiceInput,
+      buyer: abroad,
+      lines: [line(1, 500, 0)],
+    });
+    expect(reverse.vat[0].category).toBe('Z'); // a consumer abroad
+    const business = buildInvoiceDocument({
+      ...invoiceInput,
+      buyer: { ...abroad, vatId: 'ATU12345678' },
+      lines: [line(1, 500, 0)],
+    });
+    expect(business.vat[0]).toMatchObject({ category: 'AE', exemptionReasonCode: 'VATEX-EU-AE' });
+  });
+
+  it('lists what an e-invoice is missing', () => {
+    const doc = buildInvoiceDocument({
+      ...invoiceInput,
+      seller: { ...seller, phone: '', iban: '' },
+      buyer: { ...buyer, email: '', city: '' },
+    });
+    expect(eInvoiceIssues(doc)).toEqual([
+      'Absender: Telefonnummer fehlt',
+      'Absender: IBAN fehlt',
+      'Kunde: E-Mail-Adresse fehlt',
+      'Kunde: Anschrift unvollständig',
+    ]);
+  });
+});
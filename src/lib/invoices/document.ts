@@ -0,0 +1,233 @@
+import { z } from 'zod';
+
+// Invoice document model shared by the PDF and the e-invoice (XRechnung/ZUGFeRD)
+// renderers. A snapshot is stored on the invoice when it is issued, so later
+// changes to the customer or the sender data do not alter issued documents.
+
+// UN/ECE Recommendation 20 unit codes
+export const INVOICE_UNITS = ['C62', 'HUR', 'DAY', 'MON', 'KMT', 'LS'] as const;
+
+export type InvoiceUnit = (typeof INVOICE_UNITS)[number];
+
+export const INVOICE_UNIT_LABEL: Record<InvoiceUnit, string> = {
+  C62: 'Stk.',
+  HUR: 'Std.',
+  DAY: 'Tage',
+  MON: 'Monate',
+  KMT: 'km',
+  LS: 'pauschal',
+};
+
+export const VAT_RATES = [19, 7, 0] as const;
+
+export const InvoiceLineSchema = z.object({
+  description: z.string().trim().min(1).max(500),
+  quantity: z.number().positive().max(1_000_000),
+  unit: z.enum(INVOICE_UNITS).default('C62'),
+  unitPrice: z.number().min(0).max(1_000_000_000), // net
+  vatRate: z.number().min(0).max(100),
+});
+
+export type InvoiceLine = z.output<typeof InvoiceLineSchema>;
+
+/**
+ * Sender data, stored per income profile (income_profiles.settings.seller).
+ */
+export const InvoiceSellerSchema = z
+  .object({
+    name: z.string().trim().min(1).max(240),
+    contactName: z.string().trim().max(240).default(''),
+    street: z.string().trim().min(1).max(240),
+    postalCode: z.string().trim().min(1).max(20),
+    city: z.string().trim().min(1).max(120),
+    country: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{2}$/)
+      .transform((s) => s.toUpperCase())
+      .default('DE'),
+    vatId: z.string().trim().max(20).nullable().default(null),
+    taxNumber: z.string().trim().max(40).nullable().default(null),
+    email: z.string().trim().email().max(240),
+    phone: z.string().trim().max(60).default(''),
+    iban: z.string().trim().max(40).default(''),
+    bic: z.string().trim().max(20).default(''),
+    // §19 UStG: no VAT on the invoice
+    smallBusiness: z.boolean().default(false),
+    invoicePrefix: z.string().max(20).default('RE-'),
+  })
+  .refine((s) => !!s.vatId || !!s.taxNumber, {
+    message: 'USt-IdNr. oder Steuernummer erforderlich',
+    path: ['taxNumber'],
+  });
+
+export type InvoiceSeller = z.output<typeof InvoiceSellerSchema>;
+
+export type InvoiceBuyer = {
+  name: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  country: string;
+  vatId: string | null;
+  email: string;
+};
+
+// EN 16931 VAT category: S standard, Z zero rated, E exempt (§19 UStG), AE reverse charge
+export type VatCategory = 'S' | 'Z' | 'E' | 'AE';
+
+export type InvoiceDocumentLine = InvoiceLine & {
+  position: number;
+  net: number;
+  vatCategory: VatCategory;
+};
+
+export type VatBreakdownRow = {
+  category: VatCategory;
+  rate: number;
+  taxable: number;
+  tax: number;
+  exemptionReason: string | null;
+  exemptionReasonCode: string | null;
+};
+
+export type InvoiceDocument = {
+  number: string;
+  issueDate: string;
+  serviceDate: string;
+  dueDate: string;
+  currency: string;
+  buyerReference: string;
+  seller: InvoiceSeller;
+  buyer: InvoiceBuyer;
+  lines: InvoiceDocumentLine[];
+  vat: VatBreakdownRow[];
+  totals: { net: number; vat: number; gross: number };
+  notes: string;
+};
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+export function lineNet(line: Pick<InvoiceLine, 'quantity' | 'unitPrice'>) {
+  return round2(line.quantity * line.unitPrice);
+}
+
+const EXEMPTION: Partial<Record<VatCategory, { reason: string; code: string | null }>> = {
+  E: {
+    reason: 'Kein Ausweis von Umsatzsteuer, da Kleinunternehmer gemäß § 19 UStG',
+    code: null,
+  },
+  AE: {
+    reason: 'Steuerschuldnerschaft des Leistungsempfängers (Reverse Charge)',
+    code: 'VATEX-EU-AE',
+  },
+};
+
+function vatCategory(rate: number, seller: InvoiceSeller, buyer: InvoiceBuyer): VatCategory {
+  if (seller.smallBusiness) return 'E';
+  if (rate > 0) return 'S';
+  // 0 % to a business customer in another country: the customer owes the VAT
+  if (buyer.vatId && seller.vatId && buyer.country !== seller.country) return 'AE';
+  return 'Z';
+}
+
+/**
+ * Net, VAT and gross totals. VAT is calculated per category and rate on the sum
+ * of the line amounts (EN 16931), not per line.
+ */
+export function invoiceTotals(
+  lines: Array<Pick<InvoiceLine, 'quantity' | 'unitPrice' | 'vatRate'>>,
+) {
+  const byRate = new Map<number, number>();
+  for (const l of lines) byRate.set(l.vatRate, round2((byRate.get(l.vatRate) ?? 0) + lineNet(l)));
+
+  let net = 0;
+  let vat = 0;
+  for (const [rate, taxable] of byRate) {
+    net = round2(net + taxable);
+    vat = round2(vat + round2((taxable * rate) / 100));
+  }
+  return { net, vat, gross: round2(net + vat) };
+}
+
+export function formatInvoiceNumber(prefix: string, year: number, sequence: number) {
+  return `${prefix}${year}-${String(sequence).padStart(4, '0')}`;
+}
+
+export function buildInvoiceDocument(input: {
+  number: string;
+  issueDate: string;
+  serviceDate: string;
+  dueDate: string;
+  currency: string;
+  buyerReference: string | null;
+  seller: InvoiceSeller;
+  buyer: InvoiceBuyer;
+  lines: InvoiceLine[];
+  notes: string;
+}): InvoiceDocument {
+  const lines = input.lines.map(
+    (l, i): InvoiceDocumentLine => ({
+      ...l,
+      vatRate: input.seller.smallBusiness ? 0 : l.vatRate,
+      position: i + 1,
+      net: lineNet(l),
+      vatCategory: vatCategory(l.vatRate, input.seller, input.buyer),
+    }),
+  );
+
+  const groups = new Map<string, VatBreakdownRow>();
+  for (const l of lines) {
+    const key = `${l.vatCategory}:${l.vatRate}`;
+    const g = groups.get(key) ?? {
+      category: l.vatCategory,
+      rate: l.vatRate,
+      taxable: 0,
+      tax: 0,
+      exemptionReason: EXEMPTION[l.vatCategory]?.reason ?? null,
+      exemptionReasonCode: EXEMPTION[l.vatCategory]?.code ?? null,
+    };
+    g.taxable = round2(g.taxable + l.net);
+    groups.set(key, g);
+  }
+  const vat = Array.from(groups.values()).map((g) => ({
+    ...g,
+    tax: g.category === 'S' ? round2((g.taxable * g.rate) / 100) : 0,
+  }));
+
+  const net = round2(vat.reduce((s, g) => s + g.taxable, 0));
+  const tax = round2(vat.reduce((s, g) => s + g.tax, 0));
+
+  return {
+    number: input.number,
+    issueDate: input.issueDate,
+    serviceDate: input.serviceDate,
+    dueDate: input.dueDate,
+    currency: input.currency,
+    buyerReference: input.buyerReference?.trim() || input.number,
+    seller: input.seller,
+    buyer: input.buyer,
+    lines,
+    vat,
+    totals: { net, vat: tax, gross: round2(net + tax) },
+    notes: input.notes,
+  };
+}
+
+/**
+ * Fields XRechnung requires beyond what the PDF needs; empty = ready to export.
+ */
+export function eInvoiceIssues(doc: InvoiceDocument): string[] {
+  const issues: string[] = [];
+  if (!doc.seller.contactName) issues.push('Absender: Ansprechpartner fehlt');
+  if (!doc.seller.phone) issues.push('Absender: Telefonnummer fehlt');
+  if (!doc.seller.iban) issues.push('Absender: IBAN fehlt');
+  if (!doc.buyer.email) issues.push('Kunde: E-Mail-Adresse fehlt');
+  if (!doc.buyer.street || !doc.buyer.postalCode || !doc.buyer.city) {
+    issues.push('Kunde: Anschrift unvollständig');
+  }
+  if (doc.vat.some((g) => g.category === 'AE') && !doc.buyer.vatId) {
+    issues.push('Kunde: USt-IdNr. für Reverse Charge fehlt');
+  }
+  return issues;
+}
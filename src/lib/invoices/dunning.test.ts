@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { InvoiceBuyer, InvoiceSeller } from './document';
+import {
+  agingBucket,
+  baseRateOn,
+  buildDunningLetter,
+  daysOverdue,
+  DEFAULT_DUNNING_SETTINGS,
+  defaultInterest,
+  defaultInterestRate,
+  nextDunningLevel,
+} from './dunning';
+
+describe('base rate', () => {
+  it('changes on 1 January and 1 July', () => {
+    expect(baseRateOn('2025-06-30')).toBe(2.27);
+    expect(baseRateOn('2025-07-01')).toBe(1.27);
+    expect(defaultInterestRate('2025-07-01')).toBe(10.27);
+  });
+});
+
+describe('daysOverdue', () => {
+  const invoice = { status: 'sent' as const, due_date: '2025-06-20', amount: 100, paid_amount: 0 };
+
+  it('counts days after the due date of open invoices only', () => {
+    expect(daysOverdue(invoice, '2025-07-10')).toBe(20);
+    expect(daysOverdue(invoice, '2025-06-20')).toBe(0);
+    expect(daysOverdue({ ...invoice, paid_amount: 100 }, '2025-07-10')).toBe(0);
+    expect(daysOverdue({ ...invoice, status: 'planned' }, '2025-07-10')).toBe(0);
+    expect(agingBucket(20)).toBe('1_30');
+    expect(agingBucket(91)).toBe('over_90');
+  });
+});
+
+describe('nextDunningLevel', () => {
+  it('walks through the enabled levels', () => {
+    const settings = DEFAULT_DUNNING_SETTINGS;
+    expect(nextDunningLevel('2025-06-20', [], settings)).toEqual({
+      level: 'reminder',
+      dueOn: '2025-06-27',
+    });
+    expect(
+      nextDunningLevel('2025-06-20', [{ level: 'reminder', sentOn: '2025-06-28' }], settings),
+    ).toEqual({ level: 'dunning_1', dueOn: '2025-07-12' });
+    expect(
+      nextDunningLevel('2025-06-20', [{ level: 'reminder', sentOn: '2025-06-28' }], {
+        ...settings,
+        dunning_1: { ...settings.dunning_1, enabled: false },
+      }),
+    ).toEqual({ level: 'dunning_2', dueOn: '2025-07-12' });
+    expect(
+      nextDunningLevel('2025-06-20', [{ level: 'dunning_2', sentOn: '2025-08-01' }], settings),
+    ).toBeNull();
+  });
+});
+
+describe('defaultInterest', () => {
+  it('splits at base rate changes and at partial payments', () => {
+    expect(
+      defaultInterest({ amount: 1000, dueDate: '2025-06-20', payments: [], until: '2025-07-10' }),
+    ).toEqual({
+      periods: [
+        {
+          from: '2025-06-21',
+          to: '2025-06-30',
+          days: 10,
+          principal: 1000,
+          rate: 11.27,
+          amount: 3.09,
+        },
+        {
+          from: '2025-07-01',
+          to: '2025-07-10',
+          days: 10,
+          principal: 1000,
+          rate: 10.27,
+          amount: 2.81,
+        },
+      ],
+      total: 5.9,
+    });
+
+    const partial = defaultInterest({
+      amount: 1000,
+      dueDate: '2025-06-20',
+      payments: [{ date: '2025-07-05', amount: 400 }],
+      until: '2025-07-10',
+    });
+    expect(partial.periods.map((p) => [p.from, p.principal, p.amount])).toEqual([
+      ['2025-06-21', 1000, 3.09],
+      ['2025-07-01', 1000, 1.41],
+      ['2025-07-06', 600, 0.84],
+    ]);
+    expect(partial.total).toBe(5.34);
+  });
+
+  it('is zero before the customer is in default', () => {
+    expect(
+      defaultInterest({ amount: 1000, dueDate: '2025-06-20', payments: [], until: '2025-06-20' }),
+    ).toEqual({ periods: [], total: 0 });
+  });
+});
+
+describe('buildDunningLetter', () => {
+  const input = {
+    date: '2025-07-10',
+    settings: DEFAULT_DUNNING_SETTINGS,
+    seller: {} as InvoiceSeller,
+    buyer: {} as InvoiceBuyer,
+    invoice: { number: 'RE-2025-001', issueDate: '2025-06-06', dueDate: '2025-06-20', gross: 1000 },
+    payments: [],
+  };
+
+  it('charges neither interest nor fees with a reminder', () => {
+    const letter = buildDunningLetter({ ...input, level: 'reminder', previous: [] });
+    expect(letter).toMatchObject({ interestTotal: 0, fees: 0, flatFee: 0, total: 1000 });
+    expect(letter.payBy).toBe('2025-07-20');
+  });
+
+  it('credits the dunning fees against the flat fee', () => {
+    const letter = buildDunningLetter({
+      ...input,
+      level: 'dunning_1',
+      previous: [{ level: 'reminder', sentOn: '2025-06-28', fee: 0 }],
+    });
+    expect(letter).toMatchObject({ interestTotal: 5.9, fee: 5, fees: 5, flatFee: 35 });
+    expect(letter.total).toBe(1045.9);
+  });
+});
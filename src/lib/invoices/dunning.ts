@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { addDaysUTC, daysBetween } from '@/lib/cashflow/dates';
+import type { InvoiceStatus } from '@/lib/types/income';
+import { outstandingAmount } from './allocation';
+import type { InvoiceBuyer, InvoiceSeller } from './document';
+
+// Dunning for overdue invoices between businesses: a friendly payment reminder,
+// then a first and second Mahnung. With a due date set by calendar the customer
+// is in default from the day after it (§ 286 Abs. 2 Nr. 1 BGB); from the first
+// Mahnung on the letters charge default interest of the base rate plus 9 points
+// (§ 288 Abs. 2 BGB) and the flat fee of 40 € (§ 288 Abs. 5 BGB), against which
+// the dunning fees are credited. Consumer invoices (base rate + 5) are not covered.
+
+export const DUNNING_LEVELS = ['reminder', 'dunning_1', 'dunning_2'] as const;
+
+export type DunningLevel = (typeof DUNNING_LEVELS)[number];
+
+export const DUNNING_LEVEL_LABEL: Record<DunningLevel, string> = {
+  reminder: 'Zahlungserinnerung',
+  dunning_1: '1. Mahnung',
+  dunning_2: '2. Mahnung',
+};
+
+const DunningLevelSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // days after the due date (first letter) or after the previous letter
+  daysAfter: z.number().int().min(0).max(365),
+  fee: z.number().min(0).max(1000).default(0),
+});
+
+/**
+ * Dunning settings, stored per income profile (income_profiles.settings.dunning).
+ */
+export const DunningSettingsSchema = z.object({
+  reminder: DunningLevelSettingsSchema.default({ enabled: true, daysAfter: 7, fee: 0 }),
+  dunning_1: DunningLevelSettingsSchema.default({ enabled: true, daysAfter: 14, fee: 5 }),
+  dunning_2: DunningLevelSettingsSchema.default({ enabled: true, daysAfter: 14, fee: 10 }),
+  // new payment deadline printed on the letter
+  paymentDays: z.number().int().min(1).max(60).default(10),
+  chargeInterest: z.boolean().default(true),
+  chargeFlatFee: z.boolean().default(true),
+});
+
+export type DunningSettings = z.output<typeof DunningSettingsSchema>;
+
+export const DEFAULT_DUNNING_SETTINGS: DunningSettings = DunningSettingsSchema.parse({});
+
+// § 288 Abs. 2 BGB: percentage points above the base rate between businesses
+export const B2B_DEFAULT_INTEREST_MARGIN = 9;
+// § 288 Abs. 5 BGB
+export const B2B_FLAT_FEE = 40;
+
+/**
+ * Basiszinssatz (§ 247 BGB) as published by the Bundesbank, changing on 1 January
+ * and 1 July. The latest entry applies until the table is extended.
+ */
+export const BASE_RATES: Array<{ validFrom: string; rate: number }> = [
+  { validFrom: '2020-01-01', rate: -0.88 },
+  { validFrom: '2023-01-01', rate: 1.62 },
+  { validFrom: '2023-07-01', rate: 3.12 },
+  { validFrom: '2024-01-01', rate: 3.62 },
+  { validFrom: '2024-07-01', rate: 3.37 },
+  { validFrom: '2025-01-01', rate: 2.27 },
+  { validFrom: '2025-07-01', rate: 1.27 },
+  { validFrom: '2026-01-01', rate: 1.27 },
+];
+
+export function baseRateOn(date: string) {
+  let rate = BASE_RATES[0].rate;
+  for (const r of BASE_RATES) if (r.validFrom <= date) rate = r.rate;
+  return rate;
+}
+
+export function defaultInterestRate(date: string) {
+  return Math.round((baseRateOn(date) + B2B_DEFAULT_INTEREST_MARGIN) * 100) / 100;
+}
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+/* ---------------- overdue and aging ---------------- */
+
+type OverdueInvoice = {
+  status: InvoiceStatus;
+  due_date: string | null;
+  amount: number;
+  paid_amount: number;
+};
+
+export function isOverdue(invoice: OverdueInvoice, today: string) {
+  return daysOverdue(invoice, today) > 0;
+}
+
+/**
+ * Days past the due date of a sent, not fully paid invoice; 0 when not overdue.
+ */
+export function daysOverdue(invoice: OverdueInvoice, today: string) {
+  if (invoice.status !== 'sent' && invoice.status !== 'partially_paid') return 0;
+  if (!invoice.due_date) return 0;
+  if (outstandingAmount(invoice.amount, invoice.paid_amount) <= 0) return 0;
+  return Math.max(0, daysBetween(invoice.due_date.slice(0, 10), today));
+}
+
+export const AGING_BUCKETS = ['current', '1_30', '31_60', '61_90', 'over_90'] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export const AGING_BUCKET_LABEL: Record<AgingBucket, string> = {
+  current: 'nicht fällig',
+  '1_30': '1–30 Tage',
+  '31_60': '31–60 Tage',
+  '61_90': '61–90 Tage',
+  over_90: 'über 90 Tage',
+};
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 0) return 'current';
+  if (days <= 30) return '1_30';
+  if (days <= 60) return '31_60';
+  if (days <= 90) return '61_90';
+  return 'over_90';
+}
+
+/* ---------------- levels ---------------- */
+
+export type SentDunning = { level: DunningLevel; sentOn: string };
+
+/**
+ * The next enabled level after the letters already sent and the day it is due
+ * by the settings; null once the last level was sent.
+ */
+export function nextDunningLevel(
+  dueDate: string,
+  sent: SentDunning[],
+  settings: DunningSettings,
+): { level: DunningLevel; dueOn: string } | null {
+  const last = sent.reduce<SentDunning | null>(
+    (acc, d) =>
+      !acc || DUNNING_LEVELS.indexOf(d.level) > DUNNING_LEVELS.indexOf(acc.level) ? d : acc,
+    null,
+  );
+  const start = last ? DUNNING_LEVELS.indexOf(last.level) + 1 : 0;
+  const level = DUNNING_LEVELS.slice(start).find((l) => settings[l].enabled);
+  if (!level) return null;
+  return {
+    level,
+    dueOn: addDaysUTC(last ? last.sentOn : dueDate.slice(0, 10), settings[level].daysAfter),
+  };
+}
+
+/* ---------------- interest ---------------- */
+
+export type InterestPeriod = {
+  from: string; // first day of interest
+  to: string; // last day of interest
+  days: number;
+  principal: number;
+  rate: number;
+  amount: number;
+};
+
+/**
+ * Default interest from the day after the due date up to and including `until`,
+ * per day on the balance left after earlier payments (act/365), split where the
+ * base rate or the balance changes.
+ */
+export function defaultInterest(input: {
+  amount: number;
+  dueDate: string;
+  payments: Array<{ date: string; amount: number }>;
+  until: string;
+}): { periods: InterestPeriod[]; total: number } {
+  const start = addDaysUTC(input.dueDate.slice(0, 10), 1);
+  if (input.until < start) return { periods: [], total: 0 };
+
+  // days on which the balance or the rate changes
+  const cuts = new Set<string>([start]);
+  for (const r of BASE_RATES) {
+    if (r.validFrom > start && r.validFrom <= input.until) cuts.add(r.validFrom);
+  }
+  // a payment reduces the balance from the following day
+  for (const p of input.payments) {
+    const next = addDaysUTC(p.date, 1);
+    if (next > start && next <= input.until) cuts.add(next);
+  }
+  const bounds = [...cuts].sort();
+
+  const periods: InterestPeriod[] = [];
+  bounds.forEach((from, i) => {
+    const to = i + 1 < bounds.length ? addDaysUTC(bounds[i + 1], -1) : input.until;
+    const paid = input.payments.filter((p) => p.date < from).reduce((s, p) => s + p.amount, 0);
+    const principal = outstandingAmount(input.amount, paid);
+    if (principal <= 0) return;
+    const days = daysBetween(from, to) + 1;
+    const rate = defaultInterestRate(from);
+    const amount = (principal * rate * days) / 36_500;
+    const prev = periods[periods.length - 1];
+    if (prev && prev.rate === rate && prev.principal === principal) {
+      prev.to = to;
+      prev.days += days;
+      prev.amount += amount;
+    } else {
+      periods.push({ from, to, days, principal, rate, amount });
+    }
+  });
+
+  for (const p of periods) p.amount = round2(p.amount);
+  return { periods, total: round2(periods.reduce((s, p) => s + p.amount, 0)) };
+}
+
+/* ---------------- letter ---------------- */
+
+export type DunningLetter = {
+  level: DunningLevel;
+  date: string;
+  payBy: string;
+  seller: InvoiceSeller;
+  buyer: InvoiceBuyer;
+  invoice: { number: string; issueDate: string; dueDate: string; gross: number };
+  paid: number;
+  outstanding: number;
+  interest: InterestPeriod[];
+  interestTotal: number;
+  fee: number; // dunning fee of this letter
+  fees: number; // dunning fees of all letters so far
+  flatFee: number; // § 288 Abs. 5 BGB, less the fees credited against it
+  total: number;
+  previous: SentDunning[];
+};
+
+/**
+ * Letter content for the given level. Interest and fees are cumulative: each
+ * letter claims everything owed up to its date.
+ */
+export function buildDunningLetter(input: {
+  level: DunningLevel;
+  date: string;
+  settings: DunningSettings;
+  seller: InvoiceSeller;
+  buyer: InvoiceBuyer;
+  invoice: DunningLetter['invoice'];
+  payments: Array<{ date: string; amount: number }>;
+  previous: Array<SentDunning & { fee: number }>;
+}): DunningLetter {
+  const { level, settings } = input;
+  const paid = round2(input.payments.reduce((s, p) => s + p.amount, 0));
+  const outstanding = outstandingAmount(input.invoice.gross, paid);
+  const formal = level !== 'reminder';
+
+  const interest =
+    formal && settings.chargeInterest
+      ? defaultInterest({
+          amount: input.invoice.gross,
+          dueDate: input.invoice.dueDate,
+          payments: input.payments,
+          until: input.date,
+        })
+      : { periods: [], total: 0 };
+
+  const fee = settings[level].fee;
+  const fees = round2(input.previous.reduce((s, d) => s + d.fee, 0) + fee);
+  const flatFee = formal && settings.chargeFlatFee ? round2(Math.max(0, B2B_FLAT_FEE - fees)) : 0;
+
+  return {
+    level,
+    date: input.date,
+    payBy: addDaysUTC(input.date, settings.paymentDays),
+    seller: input.seller,
+    buyer: input.buyer,
+    invoice: input.invoice,
+    paid,
+    outstanding,
+    interest: interest.periods,
+    interestTotal: interest.total,
+    fee,
+    fees,
+    flatFee,
+    total: round2(outstanding + interest.total + fees + flatFee),
+    previous: input.previous.map(({ level, sentOn }) => ({ level, sentOn })),
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  containsInvoiceNumber,
+  matchPayments,
+  type MatchIncomingPayment,
+  type MatchOpenInvoice,
+} from './payment-match';
+
+const invoice = (
+  id: string,
+  customerName: string,
+  outstanding: number,
+  issuedAt: string | null = '2025-03-01',
+): MatchOpenInvoice => ({
+  id,
+  invoiceNumber: `RE-2025-000${id.slice(1)}`,
+  customerName,
+  outstanding,
+  issuedAt,
+});
+
+const payment = (
+  id: string,
+  amount: number,
+  counterparty: string,
+  remittanceInfo: string | null = null,
+  txDate = '2025-04-15',
+): MatchIncomingPayment => ({
+  id,
+  txDate,
+  amount,
+  description: 'Gutschrift',
+  counterparty,
+  remittanceInfo,
+});
+
+const invoices = [
+  invoice('i1', 'Kunde GmbH', 1190),
+  invoice('i2', 'Kunde GmbH', 1190),
+  invoice('i3', 'Beta AG', 500),
+  invoice('i4', 'Gamma Design', 300, '2025-04-10'),
+];
+
+const pick = (matches: ReturnType<typeof matchPayments>) =>
+  matches.map((m) => [m.transactionId, m.invoiceId, m.amount, m.confident]);
+
+describe('containsInvoiceNumber', () => {
+  it('ignores separators and accepts the bare number when it is long enough', () => {
+    expect(containsInvoiceNumber('Zahlung RE 2025/0001', 'RE-2025-0001')).toBe(true);
+    expect(containsInvoiceNumber('Rechnung 20250001 danke', 'RE-2025-0001')).toBe(true);
+    expect(containsInvoiceNumber('Betrag 12 EUR', 'R-12')).toBe(false);
+  });
+});
+
+describe('matchPayments', () => {
+  it('links by invoice number, or by exact amount and customer name', () => {
+    const matches = matchPayments(
+      [payment('t1', 1190, 'Kunde GmbH', 'RE-2025-0002'), payment('t2', 500, 'Beta AG')],
+      invoices,
+    );
+    expect(matches).toEqual([
+      {
+        transactionId: 't1',
+        invoiceId: 'i2',
+        amount: 1190,
+        score: 1.2,
+        reasons: ['invoice_number', 'amount', 'customer_name'],
+        confident: true,
+      },
+      {
+        transactionId: 't2',
+        invoiceId: 'i3',
+        amount: 500,
+        score: 0.6,
+        reasons: ['amount', 'customer_name'],
+        confident: true,
+      },
+    ]);
+  });
+
+  it('only suggests when the customer has two invoices of that amount', () => {
+    expect(pick(matchPayments([payment('t3', 1190, 'Kunde GmbH')], invoices))).toEqual([
+      ['t3', 'i1', 1190, false],
+    ]);
+  });
+
+  it('takes overpayments only with the invoice number and never before the invoice date', () => {
+    expect(pick(matchPayments([payment('t4', 400, 'Gamma Design')], invoices))).toEqual([]);
+    expect(
+      pick(matchPayments([payment('t4', 400, 'Gamma Design', 'RE-2025-0004')], invoices)),
+    ).toEqual([['t4', 'i4', 300, true]]);
+    expect(
+      pick(
+        matchPayments([payment('t4', 300, 'Gamma Design', 'RE-2025-0004', '2025-04-05')], invoices),
+      ),
+    ).toEqual([]);
+  });
+
+  it('skips dismissed pairs', () => {
+    expect(
+      pick(matchPayments([payment('t2', 500, 'Beta AG')], invoices, new Set(['t2|i3']))),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { descriptionSimilarity, descriptionTokens } from '@/lib/recurring/match';
+
+// Matches incoming transactions to open invoices by invoice number in the
+// remittance text, amount and customer name. Confident matches are linked on
+// import/booking, the rest is offered as a suggestion.
+
+export type MatchOpenInvoice = {
+  id: string;
+  invoiceNumber: string | null;
+  customerName: string;
+  outstanding: number;
+  issuedAt: string | null;
+};
+
+export type MatchIncomingPayment = {
+  id: string;
+  txDate: string;
+  amount: number; // not yet allocated part
+  description: string;
+  counterparty: string | null;
+  remittanceInfo: string | null;
+};
+
+export type PaymentMatchReason = 'invoice_number' | 'amount' | 'customer_name';
+
+export type PaymentMatch = {
+  transactionId: string;
+  invoiceId: string;
+  amount: number; // to allocate: the payment, at most the open balance
+  score: number;
+  reasons: PaymentMatchReason[];
+  confident: boolean; // linked without asking
+};
+
+// exact amount alone, or a clear customer name, is worth a suggestion
+export const PAYMENT_MATCH_MIN_SCORE = 0.3;
+const NAME_MIN_SIMILARITY = 0.5;
+
+const CENT = 0.005;
+
+function compact(text: string) {
+  return text.toUpperCase().replace(/[^A-Z0-9]+/g, '');
+}
+
+/**
+ * Invoice number in the remittance text, ignoring separators ("RE 2026/0001"
+ * finds RE-2026-0001). The number without its prefix counts too, as long as it
+ * is long enough not to match any amount or date.
+ */
+export function containsInvoiceNumber(text: string, invoiceNumber: string) {
+  const haystack = compact(text);
+  const full = compact(invoiceNumber);
+  if (full && haystack.includes(full)) return true;
+  const digits = invoiceNumber.replace(/\D+/g, '');
+  return digits.length >= 6 && haystack.includes(digits);
+}
+
+function scorePair(tx: MatchIncomingPayment, inv: MatchOpenInvoice, txTokens: Set<string>) {
+  const reasons: PaymentMatchReason[] = [];
+  let score = 0;
+
+  const text = [tx.remittanceInfo, tx.description].filter(Boolean).join(' ');
+  const byNumber = !!inv.invoiceNumber && containsInvoiceNumber(text, inv.invoiceNumber);
+  if (byNumber) {
+    score += 0.6;
+    reasons.push('invoice_number');
+  }
+
+  const exact = Math.abs(tx.amount - inv.outstanding) < CENT;
+  if (exact) {
+    score += 0.3;
+    reasons.push('amount');
+  } else if (tx.amount > inv.outstanding + CENT) {
+    // overpaid: only with the invoice number
+    if (!byNumber) return null;
+  }
+
+  const name = descriptionSimilarity(descriptionTokens(inv.customerName), txTokens);
+  if (name >= NAME_MIN_SIMILARITY) {
+    score += 0.3 * name;
+    reasons.push('customer_name');
+  }
+
+  return { score, reasons, byNumber, exact, byName: name >= NAME_MIN_SIMILARITY };
+}
+
+/**
+ * Best match per transaction and invoice, best first. Confident: the invoice
+ * number is in the text, or the amount is exact and the customer name matches
+ * with no other invoice of the same amount for that name.
+ */
+export function matchPayments(
+  payments: MatchIncomingPayment[],
+  invoices: MatchOpenInvoice[],
+  dismissed: Set<string> = new Set(), // `${transactionId}|${invoiceId}`
+): PaymentMatch[] {
+  const candidates: (PaymentMatch & { byNumber: boolean })[] = [];
+  const exactNameHits = new Map<string, number>(); // per transaction
+
+  for (const tx of payments) {
+    if (tx.amount <= 0) continue;
+    const tokens = descriptionTokens(tx.description, tx.counterparty, tx.remittanceInfo);
+    for (const inv of invoices) {
+      if (inv.outstanding <= 0 || dismissed.has(`${tx.id}|${inv.id}`)) continue;
+      if (inv.issuedAt && tx.txDate < inv.issuedAt.slice(0, 10)) continue;
+      const s = scorePair(tx, inv, tokens);
+      if (!s || s.score < PAYMENT_MATCH_MIN_SCORE) continue;
+      if (s.exact && s.byName) exactNameHits.set(tx.id, (exactNameHits.get(tx.id) ?? 0) + 1);
+      candidates.push({
+        transactionId: tx.id,
+        invoiceId: inv.id,
+        amount: Math.min(tx.amount, inv.outstanding),
+        score: Math.round(s.score * 100) / 100,
+        reasons: s.reasons,
+        confident: s.byNumber || (s.exact && s.byName),
+        byNumber: s.byNumber,
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedTx = new Set<string>();
+  const usedInv = new Set<string>();
+  const out: PaymentMatch[] = [];
+  for (const c of candidates) {
+    if (usedTx.has(c.transactionId) || usedInv.has(c.invoiceId)) continue;
+    usedTx.add(c.transactionId);
+    usedInv.add(c.invoiceId);
+    const { byNumber, ...match } = c;
+    // two invoices of the same customer and amount: ask which one
+    if (!byNumber && (exactNameHits.get(c.transactionId) ?? 0) > 1) match.confident = false;
+    out.push(match);
+  }
+  return out;
+}
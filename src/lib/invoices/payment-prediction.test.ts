@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  customerKey,
+  customerPaymentStats,
+  predictPaymentDate,
+  type OpenInvoice,
+  type PaidInvoice,
+} from './payment-prediction';
+
+const paid = (
+  key: string,
+  issuedAt: string | null,
+  dueDate: string | null,
+  paidAt: string,
+): PaidInvoice => ({ id: `${key}:${paidAt}`, customerKey: key, issuedAt, dueDate, paidAt });
+
+const open = (fields: Partial<OpenInvoice>): OpenInvoice => ({
+  id: 'open',
+  customerKey: 'c1',
+  issuedAt: null,
+  dueDate: null,
+  expectedPaymentDate: null,
+  ...fields,
+});
+
+const stats = customerPaymentStats([
+  paid('c1', '2025-01-01', '2025-01-15', '2025-01-20'),
+  paid('c1', '2025-02-01', '2025-02-15', '2025-02-13'),
+  paid('c1', '2025-03-01', '2025-03-15', '2025-03-25'),
+  paid('name:kunde gmbh', '2025-01-10', null, '2025-02-09'),
+  paid('name:kunde gmbh', '2025-02-10', null, '2025-03-02'),
+  paid('c2', '2025-01-01', '2025-01-15', '2025-01-15'),
+]);
+
+describe('customerKey', () => {
+  it('falls back to the normalized name', () => {
+    expect(customerKey('c1', 'Kunde GmbH')).toBe('c1');
+    expect(customerKey(null, ' Kunde GmbH ')).toBe('name:kunde gmbh');
+    expect(customerKey(null, '  ')).toBeNull();
+  });
+});
+
+describe('customerPaymentStats', () => {
+  it('reports medians and averages of days to pay and days late', () => {
+    expect(stats.get('c1')).toEqual({
+      customerKey: 'c1',
+      paidCount: 3,
+      lastPaidAt: '2025-03-25',
+      medianDaysToPay: 19,
+      avgDaysToPay: 18.3,
+      medianDaysLate: 5,
+      avgDaysLate: 4.3,
+      onTimeShare: 1 / 3,
+    });
+    expect(stats.get('name:kunde gmbh')).toMatchObject({
+      medianDaysToPay: 25,
+      medianDaysLate: null,
+      onTimeShare: null,
+    });
+  });
+});
+
+describe('predictPaymentDate', () => {
+  const today = '2025-04-01';
+
+  it('adds the typical lateness to the due date, else the days to pay to the invoice date', () => {
+    expect(predictPaymentDate(open({ dueDate: '2025-04-15' }), stats, today)).toEqual({
+      invoiceId: 'open',
+      customerKey: 'c1',
+      predictedDate: '2025-04-20',
+      basis: 'due_date',
+      sampleSize: 3,
+    });
+    expect(
+      predictPaymentDate(
+        open({ customerKey: 'name:kunde gmbh', issuedAt: '2025-04-01', dueDate: '2025-04-15' }),
+        stats,
+        today,
+      ),
+    ).toMatchObject({ predictedDate: '2025-04-26', basis: 'issued_at' });
+  });
+
+  it('does not predict the past', () => {
+    expect(predictPaymentDate(open({ dueDate: '2025-03-20' }), stats, today)?.predictedDate).toBe(
+      today,
+    );
+  });
+
+  it('needs a customer with enough paid invoices', () => {
+    expect(
+      predictPaymentDate(open({ customerKey: 'c2', dueDate: '2025-04-15' }), stats, today),
+    ).toBeNull();
+    expect(
+      predictPaymentDate(open({ customerKey: null, dueDate: '2025-04-15' }), stats, today),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { addDaysUTC, daysBetween } from '@/lib/cashflow/dates';
+
+// Payment behaviour per customer from paid invoices, used to predict when open
+// invoices will actually be paid. Medians, so one very late payment does not
+// shift every forecast.
+
+export const PAYMENT_HISTORY_LIMIT = 12; // most recent paid invoices per customer
+export const MIN_PAID_INVOICES = 2;
+
+export type PaidInvoice = {
+  id: string;
+  customerKey: string;
+  issuedAt: string | null;
+  dueDate: string | null;
+  paidAt: string;
+};
+
+export type OpenInvoice = {
+  id: string;
+  customerKey: string | null;
+  issuedAt: string | null;
+  dueDate: string | null;
+  expectedPaymentDate: string | null;
+};
+
+export type CustomerPaymentStats = {
+  customerKey: string;
+  paidCount: number;
+  lastPaidAt: string;
+  medianDaysToPay: number | null; // issued -> paid
+  avgDaysToPay: number | null;
+  medianDaysLate: number | null; // due -> paid, negative = early
+  avgDaysLate: number | null;
+  onTimeShare: number | null; // paid on or before the due date
+};
+
+export type PaymentPrediction = {
+  invoiceId: string;
+  customerKey: string;
+  predictedDate: string;
+  basis: 'due_date' | 'issued_at';
+  sampleSize: number;
+};
+
+/**
+ * Invoices are grouped by customer id, or by normalized name for invoices
+ * entered without a customer record.
+ */
+export function customerKey(customerId: string | null, customerName: string | null) {
+  if (customerId) return customerId;
+  const name = (customerName ?? '').trim().toLowerCase();
+  return name ? `name:${name}` : null;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : Math.round((s[mid - 1] + s[mid]) / 2);
+}
+
+function average(values: number[]) {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+}
+
+export function customerPaymentStats(paid: PaidInvoice[]): Map<string, CustomerPaymentStats> {
+  const byCustomer = new Map<string, PaidInvoice[]>();
+  for (const inv of paid) {
+    const list = byCustomer.get(inv.customerKey) ?? [];
+    list.push(inv);
+    byCustomer.set(inv.customerKey, list);
+  }
+
+  const out = new Map<string, CustomerPaymentStats>();
+  for (const [key, list] of byCustomer) {
+    const recent = list
+      .sort((a, b) => (a.paidAt < b.paidAt ? 1 : a.paidAt > b.paidAt ? -1 : 0))
+      .slice(0, PAYMENT_HISTORY_LIMIT);
+
+    const daysToPay = recent
+      .filter((i) => i.issuedAt)
+      .map((i) => daysBetween(i.issuedAt as string, i.paidAt));
+    const daysLate = recent
+      .filter((i) => i.dueDate)
+      .map((i) => daysBetween(i.dueDate as string, i.paidAt));
+
+    out.set(key, {
+      customerKey: key,
+      paidCount: recent.length,
+      lastPaidAt: recent[0].paidAt,
+      medianDaysToPay: median(daysToPay),
+      avgDaysToPay: average(daysToPay),
+      medianDaysLate: median(daysLate),
+      avgDaysLate: average(daysLate),
+      onTimeShare:
+        daysLate.length > 0 ? daysLate.filter((d) => d <= 0).length / daysLate.length : null,
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Predicted payment date: due date plus the customer's typical lateness, else
+ * invoice date plus the typical days-to-pay. Never before the invoice date and,
+ * for invoices already overdue by that measure, not before `today`.
+ */
+export function predictPaymentDate(
+  invoice: OpenInvoice,
+  stats: Map<string, CustomerPaymentStats>,
+  today: string,
+): PaymentPrediction | null {
+  if (!invoice.customerKey) return null;
+  const s = stats.get(invoice.customerKey);
+  if (!s || s.paidCount < MIN_PAID_INVOICES) return null;
+
+  let predicted: string;
+  let basis: PaymentPrediction['basis'];
+  if (invoice.dueDate && s.medianDaysLate !== null) {
+    predicted = addDaysUTC(invoice.dueDate, s.medianDaysLate);
+    basis = 'due_date';
+  } else if (invoice.issuedAt && s.medianDaysToPay !== null) {
+    predicted = addDaysUTC(invoice.issuedAt, s.medianDaysToPay);
+    basis = 'issued_at';
+  } else {
+    return null;
+  }
+
+  if (invoice.issuedAt && predicted < invoice.issuedAt) predicted = invoice.issuedAt;
+  if (predicted < today) predicted = today;
+
+  return {
+    invoiceId: invoice.id,
+    customerKey: invoice.customerKey,
+    predictedDate: predicted,
+    basis,
+    sampleSize: s.paidCount,
+  };
+}
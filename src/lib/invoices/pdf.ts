@@ -0,0 +1,501 @@
+import {
+  INVOICE_UNIT_LABEL,
+  type InvoiceBuyer,
+  type InvoiceDocument,
+  type InvoiceSeller,
+} from './document';
+import { DUNNING_LEVEL_LABEL, type DunningLetter } from './dunning';
+
+// Minimal PDF writer for invoices and dunning letters, its primitives shared with
+// the tax reports: A4, Helvetica (standard font, WinAnsi), no compression, plus
+// an optional embedded XML for ZUGFeRD/Factur-X. Enough for a one-look business
+// document without a PDF dependency. The standard fonts are not embedded, so the file is not strictly
+// PDF/A-3; the XML attachment and its XMP metadata follow the Factur-X
+// conventions so readers pick it up.
+
+export const PAGE_W = 595.28;
+export const PAGE_H = 841.89;
+export const MARGIN = 56;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Unicode -> WinAnsiEncoding for characters outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+function charWidth(ch: string) {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return HELVETICA_WIDTHS[code - 32];
+  if ('äöüß'.includes(ch)) return 556;
+  if ('ÄÖÜ'.includes(ch)) return 722;
+  return 556;
+}
+
+export function textWidth(text: string, size: number) {
+  let w = 0;
+  for (const ch of text) w += charWidth(ch);
+  return (w * size) / 1000;
+}
+
+function encodeWinAnsi(text: string) {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0) as number;
+    if (WIN_ANSI[ch] !== undefined) bytes.push(WIN_ANSI[ch]);
+    else if (code < 256) bytes.push(code);
+    else bytes.push(0x3f); // '?'
+  }
+  return Buffer.from(bytes);
+}
+
+export function pdfString(text: string) {
+  const bytes = encodeWinAnsi(text);
+  let out = '';
+  for (const b of bytes) {
+    const ch = String.fromCharCode(b);
+    out += ch === '(' || ch === ')' || ch === '\\' ? `\\${ch}` : ch;
+  }
+  return `(${out})`;
+}
+
+export function wrap(text: string, width: number, size: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export const money = (n: number) =>
+  `${n.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+export const dateDE = (ymd: string) => ymd.split('-').reverse().join('.');
+const qty = (n: number) => n.toLocaleString('de-DE', { maximumFractionDigits: 3 });
+
+/* ---------------- page content ---------------- */
+
+export class PageWriter {
+  pages: string[][] = [[]];
+  y = PAGE_H - MARGIN;
+
+  get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, size = 10, bold = false) {
+    this.ops.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`,
+    );
+  }
+
+  right(xRight: number, y: number, text: string, size = 10, bold = false) {
+    this.text(xRight - textWidth(text, size), y, text, size, bold);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.ops.push(
+      `${width} w ${x1.toFixed(2)} ${y1.toFixed(2)} m ${x2.toFixed(2)} ${y2.toFixed(2)} l S`,
+    );
+  }
+
+  // start a new page when fewer than `needed` points are left above the footer
+  ensure(needed: number) {
+    if (this.y - needed > MARGIN + 60) return false;
+    this.pages.push([]);
+    this.y = PAGE_H - MARGIN;
+    return true;
+  }
+}
+
+// sender block (top right), sender line and address window; leaves w.y below them
+function letterhead(w: PageWriter, s: InvoiceSeller, b: InvoiceBuyer) {
+  const right = PAGE_W - MARGIN;
+  const senderLines = [s.name, s.street, `${s.postalCode} ${s.city}`, s.email, s.phone].filter(
+    Boolean,
+  );
+  senderLines.forEach((t, i) => w.right(right, w.y - i * 12, t, 9));
+  const addressTop = PAGE_H - 160;
+  w.text(MARGIN, addressTop + 14, `${s.name} · ${s.street} · ${s.postalCode} ${s.city}`, 7);
+  [b.name, b.street, `${b.postalCode} ${b.city}`.trim(), b.country !== s.country ? b.country : '']
+    .filter(Boolean)
+    .forEach((t, i) => w.text(MARGIN, addressTop - i * 13, t, 10));
+  w.y = addressTop - 90;
+}
+
+// title with the meta block (label/value pairs) on the right
+function titleBlock(w: PageWriter, title: string, meta: Array<[string, string]>) {
+  const right = PAGE_W - MARGIN;
+  w.text(MARGIN, w.y, title, 16, true);
+  meta.forEach(([k, v], i) => {
+    w.text(right - 200, w.y - i * 12, k, 9);
+    w.right(right, w.y - i * 12, v, 9);
+  });
+  w.y -= Math.max(meta.length * 12, 24) + 24;
+}
+
+export function paragraphs(w: PageWriter, texts: string[], size = 9) {
+  const lead = size + 2;
+  for (const n of texts) {
+    const lines = wrap(n, PAGE_W - 2 * MARGIN, size);
+    w.ensure(lines.length * lead);
+    lines.forEach((t, i) => w.text(MARGIN, w.y - i * lead, t, size));
+    w.y -= lines.length * lead + 6;
+  }
+}
+
+// sender and bank details plus page numbers on every page
+function footer(w: PageWriter, s: InvoiceSeller) {
+  const right = PAGE_W - MARGIN;
+  const lines = [
+    [s.name, s.street, `${s.postalCode} ${s.city}`].join(' · '),
+    [
+      s.iban ? `IBAN ${s.iban}` : '',
+      s.bic ? `BIC ${s.bic}` : '',
+      s.vatId ? `USt-IdNr. ${s.vatId}` : '',
+      s.taxNumber ? `St.-Nr. ${s.taxNumber}` : '',
+    ]
+      .filter(Boolean)
+      .join(' · '),
+  ];
+  w.pages.forEach((ops, i) => {
+    ops.push(`0.5 w ${MARGIN} ${MARGIN + 30} m ${right.toFixed(2)} ${MARGIN + 30} l S`);
+    lines.forEach((t, j) => {
+      ops.push(`BT /F1 7 Tf ${MARGIN} ${MARGIN + 18 - j * 9} Td ${pdfString(t)} Tj ET`);
+    });
+    const pageNo = `Seite ${i + 1} von ${w.pages.length}`;
+    ops.push(
+      `BT /F1 7 Tf ${(right - textWidth(pageNo, 7)).toFixed(2)} ${MARGIN + 18} Td ${pdfString(pageNo)} Tj ET`,
+    );
+  });
+}
+
+function layout(doc: InvoiceDocument): string[][] {
+  const b = doc.buyer;
+  const w = new PageWriter();
+  const right = PAGE_W - MARGIN;
+
+  letterhead(w, doc.seller, b);
+
+  // invoice meta
+  const meta: Array<[string, string]> = [
+    ['Rechnungsnummer', doc.number],
+    ['Rechnungsdatum', dateDE(doc.issueDate)],
+    ['Leistungsdatum', dateDE(doc.serviceDate)],
+    ['Fällig am', dateDE(doc.dueDate)],
+  ];
+  if (b.vatId) meta.push(['USt-IdNr. Kunde', b.vatId]);
+  titleBlock(w, 'Rechnung', meta);
+
+  // line items
+  const cols = {
+    pos: MARGIN,
+    desc: MARGIN + 28,
+    qty: right - 210,
+    price: right - 110,
+    vat: right - 70,
+  };
+  const descWidth = cols.qty - 70 - cols.desc;
+  const header = () => {
+    w.text(cols.pos, w.y, 'Pos.', 9, true);
+    w.text(cols.desc, w.y, 'Beschreibung', 9, true);
+    w.right(cols.qty, w.y, 'Menge', 9, true);
+    w.right(cols.price, w.y, 'Einzelpreis', 9, true);
+    w.right(cols.vat, w.y, 'USt.', 9, true);
+    w.right(right, w.y, 'Gesamt', 9, true);
+    w.line(MARGIN, w.y - 4, right, w.y - 4);
+    w.y -= 18;
+  };
+  header();
+
+  for (const l of doc.lines) {
+    const descLines = wrap(l.description, descWidth, 9);
+    if (w.ensure(descLines.length * 11 + 6)) header();
+    w.text(cols.pos, w.y, String(l.position), 9);
+    descLines.forEach((t, i) => w.text(cols.desc, w.y - i * 11, t, 9));
+    w.right(cols.qty, w.y, `${qty(l.quantity)} ${INVOICE_UNIT_LABEL[l.unit]}`, 9);
+    w.right(cols.price, w.y, money(l.unitPrice), 9);
+    w.right(cols.vat, w.y, `${l.vatRate} %`, 9);
+    w.right(right, w.y, money(l.net), 9);
+    w.y -= descLines.length * 11 + 6;
+  }
+
+  // totals
+  w.ensure(40 + doc.vat.length * 13);
+  w.line(cols.price - 60, w.y + 4, right, w.y + 4);
+  w.y -= 10;
+  w.text(cols.price - 60, w.y, 'Summe netto', 9);
+  w.right(right, w.y, money(doc.totals.net), 9);
+  for (const g of doc.vat) {
+    if (g.category !== 'S') continue;
+    w.y -= 13;
+    w.text(cols.price - 60, w.y, `USt. ${g.rate} % auf ${money(g.taxable)}`, 9);
+    w.right(right, w.y, money(g.tax), 9);
+  }
+  w.y -= 16;
+  w.text(cols.price - 60, w.y, 'Gesamtbetrag', 10, true);
+  w.right(right, w.y, money(doc.totals.gross), 10, true);
+  w.y -= 30;
+
+  // notes: VAT exemptions, payment terms, free text
+  paragraphs(
+    w,
+    [
+      ...doc.vat.map((g) => g.exemptionReason).filter((r): r is string => !!r),
+      `Bitte überweisen Sie den Betrag bis zum ${dateDE(doc.dueDate)} unter Angabe der Rechnungsnummer.`,
+      doc.notes,
+    ].filter(Boolean),
+  );
+
+  footer(w, doc.seller);
+  return w.pages;
+}
+
+function dunningText(l: DunningLetter) {
+  const inv = `unsere Rechnung ${l.invoice.number} vom ${dateDE(l.invoice.issueDate)} über ${money(l.invoice.gross)}`;
+  const payBy = `Bitte überweisen Sie den Gesamtbetrag bis zum ${dateDE(l.payBy)} unter Angabe der Rechnungsnummer.`;
+  switch (l.level) {
+    case 'reminder':
+      return [
+        `sicher ist es Ihrer Aufmerksamkeit entgangen, dass ${inv} noch nicht vollständig beglichen ist. Sie war am ${dateDE(l.invoice.dueDate)} fällig.`,
+        payBy,
+      ];
+    case 'dunning_1':
+      return [
+        `leider konnten wir bis heute keinen vollständigen Zahlungseingang für ${inv} feststellen. Die Rechnung war am ${dateDE(l.invoice.dueDate)} fällig, seitdem befinden Sie sich in Zahlungsverzug.`,
+        payBy,
+      ];
+    case 'dunning_2': {
+      const previous = l.previous
+        .map((d) => `${DUNNING_LEVEL_LABEL[d.level]} vom ${dateDE(d.sentOn)}`)
+        .join(' und ');
+      return [
+        `trotz ${previous ? `unserer ${previous}` : 'unserer Erinnerung'} ist ${inv} weiterhin nicht vollständig bezahlt.`,
+        `${payBy} Sollte der Betrag bis dahin nicht eingegangen sein, werden wir ohne weitere Ankündigung das gerichtliche Mahnverfahren einleiten.`,
+      ];
+    }
+  }
+}
+
+function dunningLayout(l: DunningLetter): string[][] {
+  const w = new PageWriter();
+  const right = PAGE_W - MARGIN;
+
+  letterhead(w, l.seller, l.buyer);
+  titleBlock(w, DUNNING_LEVEL_LABEL[l.level], [
+    ['Datum', dateDE(l.date)],
+    ['Rechnungsnummer', l.invoice.number],
+    ['Rechnungsdatum', dateDE(l.invoice.issueDate)],
+    ['Fällig am', dateDE(l.invoice.dueDate)],
+  ]);
+
+  paragraphs(w, ['Sehr geehrte Damen und Herren,', ...dunningText(l)], 10);
+  w.y -= 10;
+
+  // claim
+  const rows: Array<[string, number]> = [['Rechnungsbetrag', l.invoice.gross]];
+  if (l.paid > 0) rows.push(['abzüglich Zahlungen', -l.paid]);
+  for (const p of l.interest) {
+    rows.push([
+      `Verzugszinsen ${p.rate.toLocaleString('de-DE')} % p.a. auf ${money(p.principal)}, ${dateDE(p.from)}–${dateDE(p.to)} (${p.days} Tage)`,
+      p.amount,
+    ]);
+  }
+  if (l.fees > 0) rows.push(['Mahngebühren', l.fees]);
+  if (l.flatFee > 0) rows.push(['Verzugspauschale (§ 288 Abs. 5 BGB)', l.flatFee]);
+
+  w.ensure(rows.length * 13 + 30);
+  for (const [label, amount] of rows) {
+    w.text(MARGIN, w.y, label, 9);
+    w.right(right, w.y, money(amount), 9);
+    w.y -= 13;
+  }
+  w.line(right - 200, w.y + 9, right, w.y + 9);
+  w.y -= 4;
+  w.text(MARGIN, w.y, 'Gesamtbetrag', 10, true);
+  w.right(right, w.y, money(l.total), 10, true);
+  w.y -= 30;
+
+  paragraphs(
+    w,
+    [
+      'Sollte sich Ihre Zahlung mit diesem Schreiben überschnitten haben, betrachten Sie es bitte als gegenstandslos.',
+      'Mit freundlichen Grüßen',
+      l.seller.contactName || l.seller.name,
+    ],
+    10,
+  );
+
+  footer(w, l.seller);
+  return w.pages;
+}
+
+/* ---------------- file structure ---------------- */
+
+function xmpMetadata(title: string, attachment: boolean) {
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"',
+    ' xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">',
+    `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${title}</rdf:li></rdf:Alt></dc:title>`,
+    '<pdfaid:part>3</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance>',
+    attachment
+      ? '<fx:DocumentType>INVOICE</fx:DocumentType><fx:DocumentFileName>factur-x.xml</fx:DocumentFileName><fx:Version>1.0</fx:Version><fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>'
+      : '',
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+const pdfDate = (ymd: string) => `D:${ymd.replace(/-/g, '')}000000Z`;
+
+export type PdfInfo = { title: string; author: string; date: string; facturX?: string };
+
+export function assemblePdf(pages: string[][], info: PdfInfo): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length; // object number
+  };
+  const stream = (dict: string, data: Buffer) =>
+    Buffer.concat([
+      Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+
+  // reserve catalog (1) and page tree (2), filled in below
+  add('');
+  add('');
+  const font = add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  );
+  const fontBold = add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  );
+
+  const pageRefs: number[] = [];
+  for (const ops of pages) {
+    const content = add(stream('', Buffer.from(ops.join('\n'), 'latin1')));
+    pageRefs.push(
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] /Resources << /Font << /F1 ${font} 0 R /F2 ${fontBold} 0 R >> >> /Contents ${content} 0 R >>`,
+      ),
+    );
+  }
+
+  const metadata = add(
+    stream(
+      '/Type /Metadata /Subtype /XML',
+      Buffer.from(xmpMetadata(info.title, !!info.facturX), 'utf8'),
+    ),
+  );
+
+  let attachments = '';
+  if (info.facturX) {
+    const xml = Buffer.from(info.facturX, 'utf8');
+    const file = add(
+      stream(
+        `/Type /EmbeddedFile /Subtype /text#2Fxml /Params << /Size ${xml.length} /ModDate (${pdfDate(info.date)}) >>`,
+        xml,
+      ),
+    );
+    const spec = add(
+      `<< /Type /Filespec /F (factur-x.xml) /UF (factur-x.xml) /Desc (Factur-X/ZUGFeRD invoice) /AFRelationship /Alternative /EF << /F ${file} 0 R /UF ${file} 0 R >> >>`,
+    );
+    attachments = ` /Names << /EmbeddedFiles << /Names [(factur-x.xml) ${spec} 0 R] >> >> /AF [${spec} 0 R]`;
+  }
+
+  objects[0] = Buffer.from(
+    `<< /Type /Catalog /Pages 2 0 R /Metadata ${metadata} 0 R /Lang (de-DE)${attachments} >>`,
+    'latin1',
+  );
+  objects[1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageRefs.map((r) => `${r} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`,
+    'latin1',
+  );
+  const infoRef = add(
+    `<< /Title ${pdfString(info.title)} /Author ${pdfString(info.author)} /CreationDate (${pdfDate(info.date)}) >>`,
+  );
+
+  // body with cross-reference table
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const obj = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    chunks.push(obj);
+    offset += obj.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoRef} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Render the invoice; with `facturX` the CII XML is embedded as factur-x.xml.
+ */
+export function renderInvoicePdf(doc: InvoiceDocument, opts: { facturX?: string } = {}): Buffer {
+  return assemblePdf(layout(doc), {
+    title: `Rechnung ${doc.number}`,
+    author: doc.seller.name,
+    date: doc.issueDate,
+    facturX: opts.facturX,
+  });
+}
+
+export function renderDunningPdf(letter: DunningLetter): Buffer {
+  return assemblePdf(dunningLayout(letter), {
+    title: `${DUNNING_LEVEL_LABEL[letter.level]} zu Rechnung ${letter.invoice.number}`,
+    author: letter.seller.name,
+    date: letter.date,
+  });
+}
@@ -0,0 +1,1175 @@
+import type { Pool, PoolClient } from 'pg';
+import { DEFAULT_PAYMENT_TERMS_DAYS, invoiceDatesFromTerms } from '@/lib/customers/customer';
+import { loadCustomer } from '@/lib/customers/store';
+import type { InvoiceStatus } from '@/lib/types/income';
+import {
+  exceeds,
+  outstandingAmount,
+  statusFromAllocations,
+  unallocatedAmount,
+  type AllocationKind,
+  type InvoiceAllocation,
+} from './allocation';
+import {
+  buildInvoiceDocument,
+  formatInvoiceNumber,
+  invoiceTotals,
+  InvoiceSellerSchema,
+  type InvoiceBuyer,
+  type InvoiceDocument,
+  type InvoiceLine,
+  type InvoiceSeller,
+} from './document';
+import {
+  buildDunningLetter,
+  DEFAULT_DUNNING_SETTINGS,
+  DUNNING_LEVELS,
+  DunningSettingsSchema,
+  nextDunningLevel,
+  type DunningLetter,
+  type DunningLevel,
+  type DunningSettings,
+} from './dunning';
+import { matchPayments, type MatchIncomingPayment, type PaymentMatch } from './payment-match';
+import {
+  customerKey,
+  customerPaymentStats,
+  predictPaymentDate,
+  type CustomerPaymentStats,
+  type PaidInvoice,
+  type PaymentPrediction,
+} from './payment-prediction';
+
+type Db = Pool | PoolClient;
+
+export const INVOICE_COLUMNS = `
+  id,
+  user_id,
+  profile_id,
+  customer_id,
+  customer_name,
+  amount::float8 AS amount,
+  currency,
+  service_date,
+  issued_at,
+  due_date,
+  expected_payment_date,
+  business_day_rule,
+  expected_payment_auto,
+  invoice_number,
+  net_amount::float8 AS net_amount,
+  vat_amount::float8 AS vat_amount,
+  vat_code,
+  buyer_reference,
+  paid_amount::float8 AS paid_amount,
+  dunning_level,
+  dunned_at,
+  status,
+  paid_at,
+  paid_tx_id,
+  notes,
+  created_at,
+  updated_at`;
+
+type PaidRow = {
+  id: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  issued_at: string | null;
+  due_date: string | null;
+  paid_at: string;
+};
+
+type OpenRow = {
+  id: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  issued_at: string | null;
+  due_date: string | null;
+  expected_payment_date: string | null;
+  expected_payment_auto: boolean;
+};
+
+export type CustomerPaymentStatsItem = CustomerPaymentStats & {
+  customerId: string | null;
+  customerName: string;
+};
+
+export type PaymentPredictionItem = PaymentPrediction & {
+  customerName: string;
+  expectedPaymentDate: string | null;
+  auto: boolean;
+};
+
+async function loadPaymentHistory(db: Db, userId: string) {
+  const r = await db.query(
+    `SELECT
+       id,
+       customer_id,
+       customer_name,
+       issued_at::date::text AS issued_at,
+       due_date::text AS due_date,
+       paid_at::date::text AS paid_at
+     FROM invoices
+     WHERE user_id = $1
+       AND status = 'paid'
+       AND paid_at IS NOT NULL
+     ORDER BY paid_at DESC`,
+    [userId],
+  );
+
+  const paid: PaidInvoice[] = [];
+  const names = new Map<string, { customerId: string | null; customerName: string }>();
+  for (const row of r.rows as PaidRow[]) {
+    const key = customerKey(row.customer_id, row.customer_name);
+    if (!key) continue;
+    paid.push({
+      id: row.id,
+      customerKey: key,
+      issuedAt: row.issued_at,
+      dueDate: row.due_date,
+      paidAt: row.paid_at,
+    });
+    // newest first, so the name on the latest invoice wins
+    if (!names.has(key)) {
+      names.set(key, { customerId: row.customer_id, customerName: row.customer_name ?? '' });
+    }
+  }
+
+  return { stats: customerPaymentStats(paid), names };
+}
+
+async function loadOpenInvoices(db: Db, userId: string): Promise<OpenRow[]> {
+  const r = await db.query(
+    `SELECT
+       id,
+       customer_id,
+       customer_name,
+       issued_at::date::text AS issued_at,
+       due_date::text AS due_date,
+       expected_payment_date::text AS expected_payment_date,
+       expected_payment_auto
+     FROM invoices
+     WHERE user_id = $1
+       AND status IN ('planned','sent','partially_paid')
+     ORDER BY expected_payment_date NULLS LAST, created_at`,
+    [userId],
+  );
+  return r.rows as OpenRow[];
+}
+
+export async function loadCustomerPaymentStats(
+  db: Db,
+  userId: string,
+): Promise<CustomerPaymentStatsItem[]> {
+  const { stats, names } = await loadPaymentHistory(db, userId);
+  return Array.from(stats.values()).map((s) => ({
+    ...s,
+    customerId: names.get(s.customerKey)?.customerId ?? null,
+    customerName: names.get(s.customerKey)?.customerName ?? '',
+  }));
+}
+
+/**
+ * Prediction for every open invoice whose customer has enough payment history.
+ */
+export async function loadPaymentPredictions(
+  db: Db,
+  userId: string,
+  today: string,
+): Promise<PaymentPredictionItem[]> {
+  const [{ stats }, open] = await Promise.all([
+    loadPaymentHistory(db, userId),
+    loadOpenInvoices(db, userId),
+  ]);
+
+  const out: PaymentPredictionItem[] = [];
+  for (const row of open) {
+    const p = predictPaymentDate(
+      {
+        id: row.id,
+        customerKey: customerKey(row.customer_id, row.customer_name),
+        issuedAt: row.issued_at,
+        dueDate: row.due_date,
+        expectedPaymentDate: row.expected_payment_date,
+      },
+      stats,
+      today,
+    );
+    if (!p) continue;
+    out.push({
+      ...p,
+      customerName: row.customer_name ?? '',
+      expectedPaymentDate: row.expected_payment_date,
+      auto: row.expected_payment_auto,
+    });
+  }
+  return out;
+}
+
+/**
+ * Predicted date for a new invoice of `customerId`, or null without enough history.
+ */
+export async function predictNewInvoicePaymentDate(
+  db: Db,
+  userId: string,
+  invoice: { customerId: string; issuedAt: string | null; dueDate: string | null },
+  today: string,
+): Promise<string | null> {
+  const { stats } = await loadPaymentHistory(db, userId);
+  const p = predictPaymentDate(
+    {
+      id: '',
+      customerKey: invoice.customerId,
+      issuedAt: invoice.issuedAt,
+      dueDate: invoice.dueDate,
+      expectedPaymentDate: null,
+    },
+    stats,
+    today,
+  );
+  return p?.predictedDate ?? null;
+}
+
+/**
+ * Set the expected payment date of the given invoices (default: all with
+ * expected_payment_auto) to the prediction. With `enable`, the invoices are
+ * switched to automatic as well. Returns the number of changed invoices.
+ */
+export async function applyPaymentPredictions(
+  db: Db,
+  userId: string,
+  today: string,
+  opts: { invoiceIds?: string[]; enable?: boolean } = {},
+): Promise<number> {
+  const predictions = await loadPaymentPredictions(db, userId, today);
+  const wanted = opts.invoiceIds ? new Set(opts.invoiceIds) : null;
+
+  const ids: string[] = [];
+  const dates: string[] = [];
+  for (const p of predictions) {
+    if (wanted ? !wanted.has(p.invoiceId) : !p.auto) continue;
+    if (p.expectedPaymentDate === p.predictedDate && (p.auto || !opts.enable)) continue;
+    ids.push(p.invoiceId);
+    dates.push(p.predictedDate);
+  }
+  if (ids.length === 0) return 0;
+
+  const r = await db.query(
+    `UPDATE invoices i
+     SET expected_payment_date = u.predicted,
+         expected_payment_auto = i.expected_payment_auto OR $4::boolean,
+         updated_at = now()
+     FROM unnest($2::uuid[], $3::date[]) AS u(id, predicted)
+     WHERE i.user_id = $1 AND i.id = u.id`,
+    [userId, ids, dates, opts.enable ?? false],
+  );
+  return r.rowCount ?? 0;
+}
+
+/* ---------------- line items and documents ---------------- */
+
+export type InvoiceItem = InvoiceLine & { id: string; position: number };
+
+export async function loadInvoiceItems(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+): Promise<InvoiceItem[]> {
+  const r = await db.query(
+    `SELECT
+       id,
+       position,
+       description,
+       quantity::float8 AS quantity,
+       unit,
+       unit_price::float8 AS "unitPrice",
+       vat_rate::float8 AS "vatRate"
+     FROM invoice_items
+     WHERE user_id = $1 AND invoice_id = $2
+     ORDER BY position`,
+    [userId, invoiceId],
+  );
+  return r.rows as InvoiceItem[];
+}
+
+/**
+ * Replace the line items of a not yet issued invoice and set its amount to the
+ * gross total. Call inside a transaction.
+ */
+export async function replaceInvoiceItems(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+  lines: InvoiceLine[],
+) {
+  await db.query(`DELETE FROM invoice_items WHERE user_id = $1 AND invoice_id = $2`, [
+    userId,
+    invoiceId,
+  ]);
+
+  if (lines.length > 0) {
+    await db.query(
+      `INSERT INTO invoice_items (
+         user_id, invoice_id, position, description, quantity, unit, unit_price, vat_rate
+       )
+       SELECT $1, $2, u.position, u.description, u.quantity, u.unit, u.unit_price, u.vat_rate
+       FROM unnest($3::int[], $4::text[], $5::numeric[], $6::text[], $7::numeric[], $8::numeric[])
+         AS u(position, description, quantity, unit, unit_price, vat_rate)`,
+      [
+        userId,
+        invoiceId,
+        lines.map((_, i) => i + 1),
+        lines.map((l) => l.description),
+        lines.map((l) => l.quantity),
+        lines.map((l) => l.unit),
+        lines.map((l) => l.unitPrice),
+        lines.map((l) => l.vatRate),
+      ],
+    );
+  }
+
+  const totals = invoiceTotals(lines);
+  // without items (or only free ones) the amount entered by hand stays; the VAT
+  // of the items replaces the one chosen for the amount
+  await db.query(
+    `UPDATE invoices
+     SET amount = CASE WHEN $3::numeric > 0 THEN $3::numeric ELSE amount END,
+         net_amount = $4,
+         vat_amount = $5,
+         vat_code = NULL,
+         updated_at = now()
+     WHERE user_id = $1 AND id = $2`,
+    [
+      userId,
+      invoiceId,
+      totals.gross,
+      lines.length > 0 ? totals.net : null,
+      lines.length > 0 ? totals.vat : null,
+    ],
+  );
+
+  return totals;
+}
+
+export async function loadInvoiceSeller(
+  db: Db,
+  userId: string,
+  profileId: string,
+): Promise<InvoiceSeller | null> {
+  const r = await db.query(
+    `SELECT settings -> 'seller' AS seller FROM income_profiles WHERE user_id = $1 AND id = $2`,
+    [userId, profileId],
+  );
+  const parsed = InvoiceSellerSchema.safeParse(r.rows[0]?.seller);
+  return parsed.success ? parsed.data : null;
+}
+
+export type IssueInvoiceResult =
+  | { ok: true; number: string; document: InvoiceDocument }
+  | { ok: false; status: number; error: string };
+
+type IssueRow = {
+  status: string;
+  profile_id: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  currency: string;
+  service_date: string | null;
+  due_date: string | null;
+  buyer_reference: string | null;
+  expected_payment_auto: boolean;
+  invoice_number: string | null;
+  notes: string | null;
+};
+
+/**
+ * Issue an invoice: allocate the next number of its income profile for the
+ * year, store the document snapshot and move it to `sent` with today as the
+ * invoice date. Call inside a transaction; the counter row stays locked until
+ * commit, so a rollback does not leave a gap.
+ */
+export async function issueInvoice(
+  db: PoolClient,
+  userId: string,
+  invoiceId: string,
+  today: string,
+): Promise<IssueInvoiceResult> {
+  const inv = await db.query(
+    `SELECT
+       status,
+       profile_id,
+       customer_id,
+       customer_name,
+       currency,
+       service_date::text AS service_date,
+       due_date::text AS due_date,
+       buyer_reference,
+       expected_payment_auto,
+       invoice_number,
+       notes
+     FROM invoices
+     WHERE user_id = $1 AND id = $2
+     FOR UPDATE`,
+    [userId, invoiceId],
+  );
+  const row = inv.rows[0] as IssueRow | undefined;
+  if (!row) return { ok: false, status: 404, error: 'Not found' };
+  if (row.invoice_number) return { ok: false, status: 409, error: 'Already issued' };
+  if (row.status !== 'planned' && row.status !== 'sent') {
+    return { ok: false, status: 400, error: 'Invoice is paid or void' };
+  }
+  if (!row.profile_id) return { ok: false, status: 400, error: 'Income profile required' };
+
+  const seller = await loadInvoiceSeller(db, userId, row.profile_id);
+  if (!seller) return { ok: false, status: 400, error: 'Sender data missing' };
+
+  const lines = await loadInvoiceItems(db, userId, invoiceId);
+  if (lines.length === 0) return { ok: false, status: 400, error: 'No line items' };
+  if (seller.smallBusiness && lines.some((l) => l.vatRate > 0)) {
+    return { ok: false, status: 400, error: 'Small business invoices carry no VAT' };
+  }
+  if (invoiceTotals(lines).gross <= 0)
+    return { ok: false, status: 400, error: 'Total must be > 0' };
+
+  const customer = row.customer_id ? await loadCustomer(db, userId, row.customer_id) : null;
+  const buyer: InvoiceBuyer = {
+    name: row.customer_name || customer?.name || '',
+    street: customer?.street ?? '',
+    postalCode: customer?.postal_code ?? '',
+    city: customer?.city ?? '',
+    country: customer?.country ?? seller.country,
+    vatId: customer?.vat_id ?? null,
+    email: customer?.email ?? '',
+  };
+  if (!buyer.name) return { ok: false, status: 400, error: 'Customer required' };
+
+  // the due date entered with the invoice is kept unless it lies before the invoice
+  // date; otherwise it follows from the customer's payment terms
+  const dueDate =
+    row.due_date && row.due_date >= today
+      ? row.due_date
+      : invoiceDatesFromTerms(today, customer?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS)
+          .dueDate;
+
+  const year = Number(today.slice(0, 4));
+  const counter = await db.query(
+    `INSERT INTO invoice_number_counters (user_id, profile_id, year, last_number)
+     VALUES ($1, $2, $3, 1)
+     ON CONFLICT (profile_id, year)
+     DO UPDATE SET last_number = invoice_number_counters.last_number + 1, updated_at = now()
+     RETURNING last_number`,
+    [userId, row.profile_id, year],
+  );
+  const number = formatInvoiceNumber(seller.invoicePrefix, year, counter.rows[0].last_number);
+
+  const document = buildInvoiceDocument({
+    number,
+    issueDate: today,
+    serviceDate: row.service_date ?? today,
+    dueDate,
+    currency: row.currency,
+    buyerReference: row.buyer_reference,
+    seller,
+    buyer,
+    lines,
+    notes: row.notes ?? '',
+  });
+
+  await db.query(
+    `UPDATE invoices
+     SET invoice_number = $3,
+         document = $4,
+         status = 'sent',
+         issued_at = $5,
+         service_date = $6,
+         due_date = $7,
+         expected_payment_date = COALESCE(expected_payment_date, $7),
+         amount = $8,
+         net_amount = $9,
+         vat_amount = $10,
+         updated_at = now()
+     WHERE user_id = $1 AND id = $2`,
+    [
+      userId,
+      invoiceId,
+      number,
+      JSON.stringify(document),
+      today,
+      document.serviceDate,
+      dueDate,
+      document.totals.gross,
+      document.totals.net,
+      document.totals.vat,
+    ],
+  );
+
+  if (row.expected_payment_auto) {
+    await applyPaymentPredictions(db, userId, today, { invoiceIds: [invoiceId] });
+  }
+
+  return { ok: true, number, document };
+}
+
+export async function loadInvoiceDocument(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+): Promise<InvoiceDocument | null> {
+  const r = await db.query(`SELECT document FROM invoices WHERE user_id = $1 AND id = $2`, [
+    userId,
+    invoiceId,
+  ]);
+  return (r.rows[0]?.document as InvoiceDocument | null | undefined) ?? null;
+}
+
+/* ---------------- payment allocations ---------------- */
+
+export async function loadInvoiceAllocations(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+): Promise<InvoiceAllocation[]> {
+  const r = await db.query(
+    `SELECT
+       a.id,
+       a.invoice_id AS "invoiceId",
+       a.transaction_id AS "transactionId",
+       a.kind,
+       a.amount::float8 AS amount,
+       a.allocated_on::text AS "allocatedOn",
+       a.note,
+       t.tx_date::text AS "txDate",
+       t.description AS "txDescription"
+     FROM invoice_allocations a
+     LEFT JOIN transactions t ON t.id = a.transaction_id
+     WHERE a.user_id = $1 AND a.invoice_id = $2
+     ORDER BY a.allocated_on, a.created_at`,
+    [userId, invoiceId],
+  );
+  return r.rows as InvoiceAllocation[];
+}
+
+/**
+ * Recompute paid_amount, status, paid_at and paid_tx_id (latest payment) of an
+ * invoice from its allocations.
+ */
+export async function refreshInvoicePayment(db: Db, userId: string, invoiceId: string) {
+  const r = await db.query(
+    `SELECT
+       i.status,
+       i.amount::float8 AS amount,
+       i.issued_at IS NOT NULL AS issued,
+       COALESCE(s.total, 0)::float8 AS paid_amount,
+       s.last_on::text AS last_on,
+       (SELECT a.transaction_id
+        FROM invoice_allocations a
+        WHERE a.invoice_id = i.id AND a.transaction_id IS NOT NULL
+        ORDER BY a.allocated_on DESC, a.created_at DESC
+        LIMIT 1) AS last_tx_id
+     FROM invoices i
+     LEFT JOIN LATERAL (
+       SELECT sum(a.amount) AS total, max(a.allocated_on) AS last_on
+       FROM invoice_allocations a
+       WHERE a.invoice_id = i.id
+     ) s ON true
+     WHERE i.user_id = $1 AND i.id = $2`,
+    [userId, invoiceId],
+  );
+  const row = r.rows[0] as
+    | {
+        status: InvoiceStatus;
+        amount: number;
+        issued: boolean;
+        paid_amount: number;
+        last_on: string | null;
+        last_tx_id: string | null;
+      }
+    | undefined;
+  if (!row) return null;
+
+  const status = statusFromAllocations({
+    status: row.status,
+    amount: row.amount,
+    paidAmount: row.paid_amount,
+    issued: row.issued,
+  });
+  const paid = status === 'paid';
+
+  await db.query(
+    `UPDATE invoices
+     SET paid_amount = $3,
+         status = $4,
+         paid_at = $5,
+         paid_tx_id = $6,
+         updated_at = now()
+     WHERE user_id = $1 AND id = $2`,
+    [
+      userId,
+      invoiceId,
+      row.paid_amount,
+      status,
+      paid ? row.last_on : null,
+      paid ? row.last_tx_id : null,
+    ],
+  );
+
+  return {
+    status,
+    paidAmount: row.paid_amount,
+    outstanding: outstandingAmount(row.amount, row.paid_amount),
+  };
+}
+
+export type AllocateResult =
+  | { ok: true; allocationId: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Allocate (part of) an incoming transaction, or a write-off, to an invoice.
+ * Call inside a transaction; the invoice and the transaction are locked.
+ */
+export async function allocateToInvoice(
+  db: PoolClient,
+  userId: string,
+  invoiceId: string,
+  input: {
+    kind: AllocationKind;
+    transactionId: string | null;
+    amount: number;
+    allocatedOn?: string;
+    note?: string;
+  },
+): Promise<AllocateResult> {
+  const inv = await db.query(
+    `SELECT status, amount::float8 AS amount, paid_amount::float8 AS paid_amount
+     FROM invoices
+     WHERE user_id = $1 AND id = $2
+     FOR UPDATE`,
+    [userId, invoiceId],
+  );
+  const invoice = inv.rows[0] as
+    | { status: InvoiceStatus; amount: number; paid_amount: number }
+    | undefined;
+  if (!invoice) return { ok: false, status: 404, error: 'Not found' };
+  if (invoice.status === 'void') return { ok: false, status: 400, error: 'Invoice is void' };
+  if (invoice.status === 'paid') return { ok: false, status: 400, error: 'Already paid' };
+  if (exceeds(input.amount, outstandingAmount(invoice.amount, invoice.paid_amount))) {
+    return { ok: false, status: 400, error: 'Amount exceeds open balance' };
+  }
+
+  let allocatedOn = input.allocatedOn ?? null;
+  if (input.kind === 'payment') {
+    const tx = await db.query(
+      `SELECT
+         t.amount::float8 AS amount,
+         t.tx_date::text AS tx_date,
+         (SELECT COALESCE(sum(a.amount), 0)
+          FROM invoice_allocations a
+          WHERE a.transaction_id = t.id)::float8 AS allocated
+       FROM transactions t
+       WHERE t.user_id = $1 AND t.id = $2
+       FOR UPDATE`,
+      [userId, input.transactionId],
+    );
+    const row = tx.rows[0] as { amount: number; tx_date: string; allocated: number } | undefined;
+    if (!row || row.amount <= 0) return { ok: false, status: 400, error: 'Invalid transaction' };
+    if (exceeds(input.amount, unallocatedAmount(row.amount, row.allocated))) {
+      return { ok: false, status: 400, error: 'Amount exceeds transaction' };
+    }
+    allocatedOn = allocatedOn ?? row.tx_date;
+
+    await db.query(
+      `UPDATE transactions
+       SET invoice_id = COALESCE(invoice_id, $3)
+       WHERE user_id = $1 AND id = $2`,
+      [userId, input.transactionId, invoiceId],
+    );
+  }
+
+  const a = await db.query(
+    `INSERT INTO invoice_allocations (
+       user_id, invoice_id, transaction_id, kind, amount, allocated_on, note
+     )
+     VALUES ($1, $2, $3, $4, $5, COALESCE($6::date, current_date), $7)
+     RETURNING id`,
+    [
+      userId,
+      invoiceId,
+      input.kind === 'payment' ? input.transactionId : null,
+      input.kind,
+      input.amount,
+      allocatedOn,
+      input.note ?? '',
+    ],
+  );
+
+  await refreshInvoicePayment(db, userId, invoiceId);
+
+  return { ok: true, allocationId: a.rows[0].id };
+}
+
+/**
+ * Remove an allocation; the transaction stays. Returns false when not found.
+ */
+export async function removeInvoiceAllocation(
+  db: PoolClient,
+  userId: string,
+  invoiceId: string,
+  allocationId: string,
+) {
+  const r = await db.query(
+    `DELETE FROM invoice_allocations
+     WHERE user_id = $1 AND invoice_id = $2 AND id = $3
+     RETURNING transaction_id`,
+    [userId, invoiceId, allocationId],
+  );
+  if (r.rowCount === 0) return false;
+
+  const txId = r.rows[0].transaction_id as string | null;
+  if (txId) {
+    // the transaction no longer points at this invoice unless another allocation remains
+    await db.query(
+      `UPDATE transactions t
+       SET invoice_id = NULL
+       WHERE t.user_id = $1 AND t.id = $2 AND t.invoice_id = $3
+         AND NOT EXISTS (
+           SELECT 1 FROM invoice_allocations a
+           WHERE a.transaction_id = t.id AND a.invoice_id = $3
+         )`,
+      [userId, txId, invoiceId],
+    );
+  }
+
+  await refreshInvoicePayment(db, userId, invoiceId);
+  return true;
+}
+
+/* ---------------- matching incoming payments ---------------- */
+
+// suggestions look back this far for unallocated incoming transactions
+export const PAYMENT_MATCH_LOOKBACK_DAYS = 120;
+
+export type PaymentMatchItem = PaymentMatch & {
+  txDate: string;
+  txAmount: number;
+  txDescription: string;
+  invoiceNumber: string | null;
+  customerName: string;
+  outstanding: number;
+};
+
+type IncomingRow = {
+  id: string;
+  tx_date: string;
+  amount: number;
+  unallocated: number;
+  description: string;
+  counterparty: string | null;
+  remittance_info: string | null;
+};
+
+type OpenInvoiceRow = {
+  id: string;
+  invoice_number: string | null;
+  customer_name: string;
+  outstanding: number;
+  issued_at: string | null;
+};
+
+/**
+ * Matches of incoming, not (fully) allocated transactions to open sent
+ * invoices: the given transactions, or all of the last PAYMENT_MATCH_LOOKBACK_DAYS.
+ */
+export async function loadPaymentMatches(
+  db: Db,
+  userId: string,
+  opts: { transactionIds?: string[]; today: string },
+): Promise<PaymentMatchItem[]> {
+  const tx = await db.query(
+    `SELECT
+       t.id,
+       t.tx_date::text AS tx_date,
+       t.amount::float8 AS amount,
+       (t.amount - COALESCE(a.allocated, 0))::float8 AS unallocated,
+       t.description,
+       t.counterparty,
+       t.remittance_info
+     FROM transactions t
+     LEFT JOIN LATERAL (
+       SELECT sum(x.amount) AS allocated
+       FROM invoice_allocations x
+       WHERE x.transaction_id = t.id
+     ) a ON true
+     WHERE t.user_id = $1
+       AND t.amount > 0
+       AND t.transfer_group_id IS NULL
+       AND t.amount - COALESCE(a.allocated, 0) > 0.005
+       AND ($2::uuid[] IS NULL OR t.id = ANY($2::uuid[]))
+       AND ($2::uuid[] IS NOT NULL OR t.tx_date >= $3::date - $4::int)
+     ORDER BY t.tx_date DESC`,
+    [userId, opts.transactionIds ?? null, opts.today, PAYMENT_MATCH_LOOKBACK_DAYS],
+  );
+  if (tx.rowCount === 0) return [];
+
+  const [inv, dismissed] = await Promise.all([
+    db.query(
+      `SELECT
+         id,
+         invoice_number,
+         customer_name,
+         (amount - paid_amount)::float8 AS outstanding,
+         issued_at::date::text AS issued_at
+       FROM invoices
+       WHERE user_id = $1
+         AND status IN ('sent','partially_paid')
+         AND amount > paid_amount`,
+      [userId],
+    ),
+    db.query(`SELECT transaction_id, invoice_id FROM invoice_match_dismissals WHERE user_id = $1`, [
+      userId,
+    ]),
+  ]);
+
+  const txRows = tx.rows as IncomingRow[];
+  const invRows = inv.rows as OpenInvoiceRow[];
+  const payments: MatchIncomingPayment[] = txRows.map((t) => ({
+    id: t.id,
+    txDate: t.tx_date,
+    amount: t.unallocated,
+    description: t.description,
+    counterparty: t.counterparty,
+    remittanceInfo: t.remittance_info,
+  }));
+  const matches = matchPayments(
+    payments,
+    invRows.map((i) => ({
+      id: i.id,
+      invoiceNumber: i.invoice_number,
+      customerName: i.customer_name,
+      outstanding: i.outstanding,
+      issuedAt: i.issued_at,
+    })),
+    new Set(dismissed.rows.map((d) => `${d.transaction_id}|${d.invoice_id}`)),
+  );
+
+  const txById = new Map(txRows.map((t) => [t.id, t]));
+  const invById = new Map(invRows.map((i) => [i.id, i]));
+  return matches.map((m) => {
+    const t = txById.get(m.transactionId) as IncomingRow;
+    const i = invById.get(m.invoiceId) as OpenInvoiceRow;
+    return {
+      ...m,
+      txDate: t.tx_date,
+      txAmount: t.amount,
+      txDescription: t.description,
+      invoiceNumber: i.invoice_number,
+      customerName: i.customer_name,
+      outstanding: i.outstanding,
+    };
+  });
+}
+
+/**
+ * Link the confident matches among `transactionIds` the same way mark-paid
+ * does (allocation, status, paid_tx_id). Call inside the booking/import
+ * transaction. Returns the number of linked transactions.
+ */
+export async function linkInvoicePayments(
+  db: PoolClient,
+  userId: string,
+  transactionIds: string[],
+  today: string,
+) {
+  if (transactionIds.length === 0) return 0;
+
+  const matches = await loadPaymentMatches(db, userId, { transactionIds, today });
+  let linked = 0;
+  for (const m of matches) {
+    if (!m.confident) continue;
+    const result = await allocateToInvoice(db, userId, m.invoiceId, {
+      kind: 'payment',
+      transactionId: m.transactionId,
+      amount: m.amount,
+    });
+    if (result.ok) linked++;
+  }
+
+  // the payment history changed: re-predict open invoices that follow it
+  if (linked > 0) await applyPaymentPredictions(db, userId, today);
+  return linked;
+}
+
+export async function dismissPaymentMatch(
+  db: Db,
+  userId: string,
+  transactionId: string,
+  invoiceId: string,
+) {
+  const r = await db.query(
+    `INSERT INTO invoice_match_dismissals (user_id, transaction_id, invoice_id)
+     SELECT $1, t.id, i.id
+     FROM transactions t, invoices i
+     WHERE t.user_id = $1 AND t.id = $2 AND i.user_id = $1 AND i.id = $3
+     ON CONFLICT (transaction_id, invoice_id)
+     DO UPDATE SET created_at = invoice_match_dismissals.created_at`,
+    [userId, transactionId, invoiceId],
+  );
+  return (r.rowCount ?? 0) > 0;
+}
+
+/* ---------------- dunning ---------------- */
+
+export type InvoiceDunning = {
+  id: string;
+  invoiceId: string;
+  level: DunningLevel;
+  sentOn: string;
+  payBy: string;
+  outstanding: number;
+  interest: number;
+  fee: number;
+  flatFee: number;
+  total: number;
+};
+
+/**
+ * Dunning settings of an income profile; the defaults without a profile or
+ * before they were saved.
+ */
+export async function loadDunningSettings(
+  db: Db,
+  userId: string,
+  profileId: string | null,
+): Promise<DunningSettings> {
+  if (!profileId) return DEFAULT_DUNNING_SETTINGS;
+  const r = await db.query(
+    `SELECT settings -> 'dunning' AS dunning FROM income_profiles WHERE user_id = $1 AND id = $2`,
+    [userId, profileId],
+  );
+  const parsed = DunningSettingsSchema.safeParse(r.rows[0]?.dunning ?? {});
+  return parsed.success ? parsed.data : DEFAULT_DUNNING_SETTINGS;
+}
+
+export async function loadInvoiceDunnings(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+): Promise<InvoiceDunning[]> {
+  const r = await db.query(
+    `SELECT
+       id,
+       invoice_id AS "invoiceId",
+       level,
+       sent_on::text AS "sentOn",
+       pay_by::text AS "payBy",
+       outstanding::float8 AS outstanding,
+       interest::float8 AS interest,
+       fee::float8 AS fee,
+       flat_fee::float8 AS "flatFee",
+       total::float8 AS total
+     FROM invoice_dunnings
+     WHERE user_id = $1 AND invoice_id = $2
+     ORDER BY sent_on, created_at`,
+    [userId, invoiceId],
+  );
+  return r.rows as InvoiceDunning[];
+}
+
+type DunningInvoiceRow = {
+  status: InvoiceStatus;
+  profile_id: string | null;
+  amount: number;
+  paid_amount: number;
+  due_date: string | null;
+  document: InvoiceDocument | null;
+};
+
+async function loadDunningInvoice(db: Db, userId: string, invoiceId: string, lock = false) {
+  const r = await db.query(
+    `SELECT
+       status,
+       profile_id,
+       amount::float8 AS amount,
+       paid_amount::float8 AS paid_amount,
+       due_date::text AS due_date,
+       document
+     FROM invoices
+     WHERE user_id = $1 AND id = $2${lock ? ' FOR UPDATE' : ''}`,
+    [userId, invoiceId],
+  );
+  return r.rows[0] as DunningInvoiceRow | undefined;
+}
+
+/**
+ * Next level for an invoice and the day it is due by the profile's settings;
+ * null when the invoice is not overdue or all levels were sent.
+ */
+export async function loadNextDunning(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+  today: string,
+): Promise<{ level: DunningLevel; dueOn: string } | null> {
+  const invoice = await loadDunningInvoice(db, userId, invoiceId);
+  if (!invoice?.due_date) return null;
+  const open = invoice.status === 'sent' || invoice.status === 'partially_paid';
+  if (!open || invoice.due_date >= today || !invoice.document) return null;
+
+  const [settings, sent] = await Promise.all([
+    loadDunningSettings(db, userId, invoice.profile_id),
+    loadInvoiceDunnings(db, userId, invoiceId),
+  ]);
+  return nextDunningLevel(invoice.due_date, sent, settings);
+}
+
+export type CreateDunningResult =
+  | { ok: true; item: InvoiceDunning; letter: DunningLetter }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Send the next dunning level (or a later one, skipping levels) for an overdue
+ * issued invoice: build the letter from the invoice snapshot and the payments
+ * so far, store it and mark the invoice. Call inside a transaction.
+ */
+export async function createDunning(
+  db: PoolClient,
+  userId: string,
+  invoiceId: string,
+  today: string,
+  requested?: DunningLevel,
+): Promise<CreateDunningResult> {
+  const invoice = await loadDunningInvoice(db, userId, invoiceId, true);
+  if (!invoice) return { ok: false, status: 404, error: 'Not found' };
+  if (!invoice.document) return { ok: false, status: 409, error: 'Invoice not issued' };
+  if (
+    (invoice.status !== 'sent' && invoice.status !== 'partially_paid') ||
+    !invoice.due_date ||
+    invoice.due_date >= today
+  ) {
+    return { ok: false, status: 409, error: 'Invoice not overdue' };
+  }
+
+  const [settings, sent, allocations] = await Promise.all([
+    loadDunningSettings(db, userId, invoice.profile_id),
+    loadInvoiceDunnings(db, userId, invoiceId),
+    loadInvoiceAllocations(db, userId, invoiceId),
+  ]);
+
+  const next = nextDunningLevel(invoice.due_date, sent, settings);
+  const level = requested ?? next?.level;
+  if (!level) return { ok: false, status: 409, error: 'All dunning levels sent' };
+  const reached = sent.reduce((max, d) => Math.max(max, DUNNING_LEVELS.indexOf(d.level)), -1);
+  if (DUNNING_LEVELS.indexOf(level) <= reached) {
+    return { ok: false, status: 409, error: 'Dunning level already sent' };
+  }
+
+  const doc = invoice.document;
+  const letter = buildDunningLetter({
+    level,
+    date: today,
+    settings,
+    seller: doc.seller,
+    buyer: doc.buyer,
+    invoice: {
+      number: doc.number,
+      issueDate: doc.issueDate,
+      dueDate: invoice.due_date,
+      gross: invoice.amount,
+    },
+    payments: allocations.map((a) => ({ date: a.allocatedOn, amount: a.amount })),
+    previous: sent,
+  });
+
+  const r = await db.query(
+    `INSERT INTO invoice_dunnings (
+       user_id, invoice_id, level, sent_on, pay_by,
+       outstanding, interest, fee, flat_fee, total, document
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11::jsonb)
+     RETURNING
+       id,
+       invoice_id AS "invoiceId",
+       level,
+       sent_on::text AS "sentOn",
+       pay_by::text AS "payBy",
+       outstanding::float8 AS outstanding,
+       interest::float8 AS interest,
+       fee::float8 AS fee,
+       flat_fee::float8 AS "flatFee",
+       total::float8 AS total`,
+    [
+      userId,
+      invoiceId,
+      level,
+      letter.date,
+      letter.payBy,
+      letter.outstanding,
+      letter.interestTotal,
+      letter.fee,
+      letter.flatFee,
+      letter.total,
+      JSON.stringify(letter),
+    ],
+  );
+
+  await refreshInvoiceDunning(db, userId, invoiceId);
+
+  return { ok: true, item: r.rows[0] as InvoiceDunning, letter };
+}
+
+// mirror the latest letter on the invoice for the list
+async function refreshInvoiceDunning(db: Db, userId: string, invoiceId: string) {
+  await db.query(
+    `UPDATE invoices i
+     SET (dunning_level, dunned_at) = (
+           SELECT d.level, d.sent_on
+           FROM invoice_dunnings d
+           WHERE d.invoice_id = i.id
+           ORDER BY d.sent_on DESC, d.created_at DESC
+           LIMIT 1
+         ),
+         updated_at = now()
+     WHERE i.user_id = $1 AND i.id = $2`,
+    [userId, invoiceId],
+  );
+}
+
+/**
+ * Remove the latest letter (e.g. sent by mistake); earlier letters stay, since
+ * later ones build on them. Returns false when not found or not the latest.
+ */
+export async function removeDunning(
+  db: PoolClient,
+  userId: string,
+  invoiceId: string,
+  dunningId: string,
+) {
+  const r = await db.query(
+    `DELETE FROM invoice_dunnings d
+     WHERE d.user_id = $1 AND d.invoice_id = $2 AND d.id = $3
+       AND NOT EXISTS (
+         SELECT 1 FROM invoice_dunnings later
+         WHERE later.invoice_id = d.invoice_id
+           AND (later.sent_on, later.created_at) > (d.sent_on, d.created_at)
+       )`,
+    [userId, invoiceId, dunningId],
+  );
+  if (r.rowCount === 0) return false;
+
+  await refreshInvoiceDunning(db, userId, invoiceId);
+  return true;
+}
+
+export async function loadDunningDocument(
+  db: Db,
+  userId: string,
+  invoiceId: string,
+  dunningId: string,
+): Promise<DunningLetter | null> {
+  const r = await db.query(
+    `SELECT document FROM invoice_dunnings WHERE user_id = $1 AND invoice_id = $2 AND id = $3`,
+    [userId, invoiceId, dunningId],
+  );
+  return (r.rows[0]?.document as DunningLetter | undefined) ?? null;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildInvoiceDocument, InvoiceSellerSchema } from './document';
+import { escapeXml, renderCii, renderXRechnungUbl } from './xrechnung';
+
+const doc = buildInvoiceDocument({
+  number: 'RE-2025-0007',
+  issueDate: '2025-03-01',
+  serviceDate: '2025-02-28',
+  dueDate: '2025-03-15',
+  currency: 'EUR',
+  buyerReference: 'PO 4711',
+  seller: InvoiceSellerSchema.parse({
+    name: 'Muster Consulting',
+    contactName: 'Erika Muster',
+    street: 'Hauptstr. 1',
+    postalCode: '10115',
+    city: 'Berlin',
+    vatId: 'DE123456789',
+    email: 'rechnung@muster.de',
+    phone: '+49 30 123456',
+    iban: 'DE02 1203 0000 0000 2020 51',
+    bic: 'BYLADEM1001',
+  }),
+  buyer: {
+    name: 'Kunde & Söhne GmbH',
+    street: 'Ring 5',
+    postalCode: '80331',
+    city: 'München',
+    country: 'DE',
+    vatId: null,
+    email: 'einkauf@kunde.de',
+  },
+  lines: [
+    { description: 'Beratung <Workshop>', quantity: 2.5, unit: 'HUR', unitPrice: 120, vatRate: 19 },
+    { description: 'Fahrtkosten', quantity: 1, unit: 'LS', unitPrice: 30, vatRate: 7 },
+  ],
+  notes: '',
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;',
+    );
+  });
+});
+
+describe('renderXRechnungUbl', () => {
+  const xml = renderXRechnungUbl(doc);
+
+  it('writes the XRechnung header, parties and payment', () => {
+    expect(xml).toContain(
+      '<cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0</cbc:CustomizationID>',
+    );
+    expect(xml).toContain('<cbc:BuyerReference>PO 4711</cbc:BuyerReference>');
+    expect(xml).toContain('<cbc:RegistrationName>Kunde &amp; Söhne GmbH</cbc:RegistrationName>');
+    expect(xml).toContain('<cac:PayeeFinancialAccount><cbc:ID>DE02120300000000202051</cbc:ID>');
+    expect(xml).toContain('<cbc:Note>Zahlbar bis 15.03.2025 ohne Abzug</cbc:Note>');
+    // empty notes are left out
+    expect(xml).not.toContain('<cbc:Note></cbc:Note>');
+  });
+
+  it('writes the VAT breakdown, totals and lines', () => {
+    expect(xml).toContain(
+      '<cac:TaxSubtotal><cbc:TaxableAmount currencyID="EUR">300.00</cbc:TaxableAmount><cbc:TaxAmount currencyID="EUR">57.00</cbc:TaxAmount><cac:TaxCategory><cbc:ID>S</cbc:ID><cbc:Percent>19</cbc:Percent>',
+    );
+    expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">389.10</cbc:PayableAmount>');
+    expect(xml).toContain('<cbc:InvoicedQuantity unitCode="HUR">2.5</cbc:InvoicedQuantity>');
+    expect(xml).toContain('<cbc:Name>Beratung &lt;Workshop&gt;</cbc:Name>');
+  });
+});
+
+describe('renderCii', () => {
+  it('declares the XRechnung or the EN 16931 profile', () => {
+    const xrechnung = renderCii(doc, 'xrechnung');
+    const zugferd = renderCii(doc, 'zugferd');
+    expect(xrechnung).toContain('urn:fdc:peppol.eu:2017:poacc:billing:01:1.0');
+    expect(zugferd).not.toContain('urn:fdc:peppol.eu:2017:poacc:billing:01:1.0');
+    expect(zugferd).toContain(
+      '<ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>urn:cen.eu:en16931:2017</ram:ID>',
+    );
+  });
+
+  it('writes dates, tax registrations and the amount due', () => {
+    const xml = renderCii(doc, 'xrechnung');
+    expect(xml).toContain(
+      '<ram:IssueDateTime><udt:DateTimeString format="102">20250301</udt:DateTimeString></ram:IssueDateTime>',
+    );
+    expect(xml).toContain('<ram:ID schemeID="VA">DE123456789</ram:ID>');
+    expect(xml).toContain('<ram:BICID>BYLADEM1001</ram:BICID>');
+    expect(xml).toContain('<ram:TaxTotalAmount currencyID="EUR">59.10</ram:TaxTotalAmount>');
+    expect(xml).toContain('<ram:DuePayableAmount>389.10</ram:DuePayableAmount>');
+  });
+});
@@ -0,0 +1,286 @@
+import type { InvoiceDocument, VatBreakdownRow } from './document';
+
+// EN 16931 e-invoices: XRechnung 3.0 as UBL or CII, and the CII payload for
+// ZUGFeRD/Factur-X (profile EN 16931) that gets embedded into the PDF.
+
+const XRECHNUNG_ID = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0';
+const PEPPOL_PROCESS_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+const EN16931_ID = 'urn:cen.eu:en16931:2017';
+
+export function escapeXml(s: string) {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const amount = (n: number) => n.toFixed(2);
+const quantity = (n: number) => String(Math.round(n * 1000) / 1000);
+const percent = (n: number) => String(Math.round(n * 100) / 100);
+const compactDate = (ymd: string) => ymd.replace(/-/g, '');
+
+// element with escaped text; omitted when the value is empty
+function el(name: string, value: string | null | undefined, attrs = '') {
+  if (value === null || value === undefined || value === '') return '';
+  return `<${name}${attrs}>${escapeXml(value)}</${name}>`;
+}
+
+function paymentTermsText(doc: InvoiceDocument) {
+  return `Zahlbar bis ${doc.dueDate.split('-').reverse().join('.')} ohne Abzug`;
+}
+
+/* ---------------- UBL ---------------- */
+
+function ublTaxCategory(
+  tag: string,
+  g: Pick<VatBreakdownRow, 'category' | 'rate'>,
+  reasons?: VatBreakdownRow,
+) {
+  return [
+    `<cac:${tag}>`,
+    el('cbc:ID', g.category),
+    el('cbc:Percent', percent(g.rate)),
+    reasons ? el('cbc:TaxExemptionReasonCode', reasons.exemptionReasonCode) : '',
+    reasons ? el('cbc:TaxExemptionReason', reasons.exemptionReason) : '',
+    '<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>',
+    `</cac:${tag}>`,
+  ].join('');
+}
+
+function ublParty(p: {
+  name: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  country: string;
+  vatId: string | null;
+  taxNumber?: string | null;
+  email: string;
+  contactName?: string;
+  phone?: string;
+}) {
+  return [
+    '<cac:Party>',
+    el('cbc:EndpointID', p.email, ' schemeID="EM"'),
+    '<cac:PostalAddress>',
+    el('cbc:StreetName', p.street),
+    el('cbc:CityName', p.city),
+    el('cbc:PostalZone', p.postalCode),
+    `<cac:Country>${el('cbc:IdentificationCode', p.country)}</cac:Country>`,
+    '</cac:PostalAddress>',
+    p.vatId
+      ? `<cac:PartyTaxScheme>${el('cbc:CompanyID', p.vatId)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '',
+    p.taxNumber
+      ? `<cac:PartyTaxScheme>${el('cbc:CompanyID', p.taxNumber)}<cac:TaxScheme><cbc:ID>FC</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '',
+    `<cac:PartyLegalEntity>${el('cbc:RegistrationName', p.name)}</cac:PartyLegalEntity>`,
+    p.contactName !== undefined
+      ? `<cac:Contact>${el('cbc:Name', p.contactName)}${el('cbc:Telephone', p.phone)}${el('cbc:ElectronicMail', p.email)}</cac:Contact>`
+      : '',
+    '</cac:Party>',
+  ].join('');
+}
+
+export function renderXRechnungUbl(doc: InvoiceDocument): string {
+  const cur = ` currencyID="${escapeXml(doc.currency)}"`;
+  const s = doc.seller;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<ubl:Invoice xmlns:ubl="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"',
+    ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+    ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    el('cbc:CustomizationID', XRECHNUNG_ID),
+    el('cbc:ProfileID', PEPPOL_PROCESS_ID),
+    el('cbc:ID', doc.number),
+    el('cbc:IssueDate', doc.issueDate),
+    el('cbc:DueDate', doc.dueDate),
+    '<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>',
+    el('cbc:Note', doc.notes),
+    el('cbc:DocumentCurrencyCode', doc.currency),
+    el('cbc:BuyerReference', doc.buyerReference),
+    `<cac:AccountingSupplierParty>${ublParty(s)}</cac:AccountingSupplierParty>`,
+    `<cac:AccountingCustomerParty>${ublParty(doc.buyer)}</cac:AccountingCustomerParty>`,
+    `<cac:Delivery>${el('cbc:ActualDeliveryDate', doc.serviceDate)}</cac:Delivery>`,
+    s.iban
+      ? [
+          '<cac:PaymentMeans><cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>',
+          el('cbc:PaymentID', doc.number),
+          `<cac:PayeeFinancialAccount>${el('cbc:ID', s.iban.replace(/\s+/g, ''))}`,
+          s.bic
+            ? `<cac:FinancialInstitutionBranch>${el('cbc:ID', s.bic)}</cac:FinancialInstitutionBranch>`
+            : '',
+          '</cac:PayeeFinancialAccount></cac:PaymentMeans>',
+        ].join('')
+      : '',
+    `<cac:PaymentTerms>${el('cbc:Note', paymentTermsText(doc))}</cac:PaymentTerms>`,
+    `<cac:TaxTotal>${el('cbc:TaxAmount', amount(doc.totals.vat), cur)}`,
+    ...doc.vat.map(
+      (g) =>
+        `<cac:TaxSubtotal>${el('cbc:TaxableAmount', amount(g.taxable), cur)}${el('cbc:TaxAmount', amount(g.tax), cur)}${ublTaxCategory('TaxCategory', g, g)}</cac:TaxSubtotal>`,
+    ),
+    '</cac:TaxTotal>',
+    '<cac:LegalMonetaryTotal>',
+    el('cbc:LineExtensionAmount', amount(doc.totals.net), cur),
+    el('cbc:TaxExclusiveAmount', amount(doc.totals.net), cur),
+    el('cbc:TaxInclusiveAmount', amount(doc.totals.gross), cur),
+    el('cbc:PayableAmount', amount(doc.totals.gross), cur),
+    '</cac:LegalMonetaryTotal>',
+    ...doc.lines.map((l) =>
+      [
+        '<cac:InvoiceLine>',
+        el('cbc:ID', String(l.position)),
+        el('cbc:InvoicedQuantity', quantity(l.quantity), ` unitCode="${l.unit}"`),
+        el('cbc:LineExtensionAmount', amount(l.net), cur),
+        `<cac:Item>${el('cbc:Name', l.description)}${ublTaxCategory('ClassifiedTaxCategory', { category: l.vatCategory, rate: l.vatRate })}</cac:Item>`,
+        `<cac:Price>${el('cbc:PriceAmount', amount(l.unitPrice), cur)}</cac:Price>`,
+        '</cac:InvoiceLine>',
+      ].join(''),
+    ),
+    '</ubl:Invoice>',
+  ].join('\n');
+}
+
+/* ---------------- CII ---------------- */
+
+function ciiDate(name: string, ymd: string) {
+  return `<${name}><udt:DateTimeString format="102">${compactDate(ymd)}</udt:DateTimeString></${name}>`;
+}
+
+function ciiParty(
+  tag: string,
+  p: {
+    name: string;
+    street: string;
+    postalCode: string;
+    city: string;
+    country: string;
+    vatId: string | null;
+    taxNumber?: string | null;
+    email: string;
+    contactName?: string;
+    phone?: string;
+  },
+) {
+  return [
+    `<ram:${tag}>`,
+    el('ram:Name', p.name),
+    p.contactName !== undefined
+      ? [
+          '<ram:DefinedTradeContact>',
+          el('ram:PersonName', p.contactName),
+          p.phone
+            ? `<ram:TelephoneUniversalCommunication>${el('ram:CompleteNumber', p.phone)}</ram:TelephoneUniversalCommunication>`
+            : '',
+          `<ram:EmailURIUniversalCommunication>${el('ram:URIID', p.email)}</ram:EmailURIUniversalCommunication>`,
+          '</ram:DefinedTradeContact>',
+        ].join('')
+      : '',
+    '<ram:PostalTradeAddress>',
+    el('ram:PostcodeCode', p.postalCode),
+    el('ram:LineOne', p.street),
+    el('ram:CityName', p.city),
+    el('ram:CountryID', p.country),
+    '</ram:PostalTradeAddress>',
+    p.email
+      ? `<ram:URIUniversalCommunication>${el('ram:URIID', p.email, ' schemeID="EM"')}</ram:URIUniversalCommunication>`
+      : '',
+    p.taxNumber
+      ? `<ram:SpecifiedTaxRegistration>${el('ram:ID', p.taxNumber, ' schemeID="FC"')}</ram:SpecifiedTaxRegistration>`
+      : '',
+    p.vatId
+      ? `<ram:SpecifiedTaxRegistration>${el('ram:ID', p.vatId, ' schemeID="VA"')}</ram:SpecifiedTaxRegistration>`
+      : '',
+    `</ram:${tag}>`,
+  ].join('');
+}
+
+/**
+ * UN/CEFACT CII. `xrechnung` uses the XRechnung CIUS, otherwise the plain EN 16931
+ * profile as expected in a ZUGFeRD/Factur-X PDF.
+ */
+export function renderCii(doc: InvoiceDocument, profile: 'xrechnung' | 'zugferd'): string {
+  const s = doc.seller;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice',
+    ' xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"',
+    ' xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"',
+    ' xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100"',
+    ' xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">',
+    '<rsm:ExchangedDocumentContext>',
+    profile === 'xrechnung'
+      ? `<ram:BusinessProcessSpecifiedDocumentContextParameter>${el('ram:ID', PEPPOL_PROCESS_ID)}</ram:BusinessProcessSpecifiedDocumentContextParameter>`
+      : '',
+    `<ram:GuidelineSpecifiedDocumentContextParameter>${el('ram:ID', profile === 'xrechnung' ? XRECHNUNG_ID : EN16931_ID)}</ram:GuidelineSpecifiedDocumentContextParameter>`,
+    '</rsm:ExchangedDocumentContext>',
+    '<rsm:ExchangedDocument>',
+    el('ram:ID', doc.number),
+    '<ram:TypeCode>380</ram:TypeCode>',
+    ciiDate('ram:IssueDateTime', doc.issueDate),
+    doc.notes ? `<ram:IncludedNote>${el('ram:Content', doc.notes)}</ram:IncludedNote>` : '',
+    '</rsm:ExchangedDocument>',
+    '<rsm:SupplyChainTradeTransaction>',
+    ...doc.lines.map((l) =>
+      [
+        '<ram:IncludedSupplyChainTradeLineItem>',
+        `<ram:AssociatedDocumentLineDocument>${el('ram:LineID', String(l.position))}</ram:AssociatedDocumentLineDocument>`,
+        `<ram:SpecifiedTradeProduct>${el('ram:Name', l.description)}</ram:SpecifiedTradeProduct>`,
+        `<ram:SpecifiedLineTradeAgreement><ram:NetPriceProductTradePrice>${el('ram:ChargeAmount', amount(l.unitPrice))}</ram:NetPriceProductTradePrice></ram:SpecifiedLineTradeAgreement>`,
+        `<ram:SpecifiedLineTradeDelivery>${el('ram:BilledQuantity', quantity(l.quantity), ` unitCode="${l.unit}"`)}</ram:SpecifiedLineTradeDelivery>`,
+        '<ram:SpecifiedLineTradeSettlement>',
+        `<ram:ApplicableTradeTax><ram:TypeCode>VAT</ram:TypeCode>${el('ram:CategoryCode', l.vatCategory)}${el('ram:RateApplicablePercent', percent(l.vatRate))}</ram:ApplicableTradeTax>`,
+        `<ram:SpecifiedTradeSettlementLineMonetarySummation>${el('ram:LineTotalAmount', amount(l.net))}</ram:SpecifiedTradeSettlementLineMonetarySummation>`,
+        '</ram:SpecifiedLineTradeSettlement>',
+        '</ram:IncludedSupplyChainTradeLineItem>',
+      ].join(''),
+    ),
+    '<ram:ApplicableHeaderTradeAgreement>',
+    el('ram:BuyerReference', doc.buyerReference),
+    ciiParty('SellerTradeParty', s),
+    ciiParty('BuyerTradeParty', doc.buyer),
+    '</ram:ApplicableHeaderTradeAgreement>',
+    `<ram:ApplicableHeaderTradeDelivery><ram:ActualDeliverySupplyChainEvent>${ciiDate('ram:OccurrenceDateTime', doc.serviceDate)}</ram:ActualDeliverySupplyChainEvent></ram:ApplicableHeaderTradeDelivery>`,
+    '<ram:ApplicableHeaderTradeSettlement>',
+    el('ram:PaymentReference', doc.number),
+    el('ram:InvoiceCurrencyCode', doc.currency),
+    s.iban
+      ? [
+          '<ram:SpecifiedTradeSettlementPaymentMeans><ram:TypeCode>58</ram:TypeCode>',
+          `<ram:PayeePartyCreditorFinancialAccount>${el('ram:IBANID', s.iban.replace(/\s+/g, ''))}</ram:PayeePartyCreditorFinancialAccount>`,
+          s.bic
+            ? `<ram:PayeeSpecifiedCreditorFinancialInstitution>${el('ram:BICID', s.bic)}</ram:PayeeSpecifiedCreditorFinancialInstitution>`
+            : '',
+          '</ram:SpecifiedTradeSettlementPaymentMeans>',
+        ].join('')
+      : '',
+    ...doc.vat.map((g) =>
+      [
+        '<ram:ApplicableTradeTax>',
+        el('ram:CalculatedAmount', amount(g.tax)),
+        '<ram:TypeCode>VAT</ram:TypeCode>',
+        el('ram:ExemptionReason', g.exemptionReason),
+        el('ram:BasisAmount', amount(g.taxable)),
+        el('ram:CategoryCode', g.category),
+        el('ram:ExemptionReasonCode', g.exemptionReasonCode),
+        el('ram:RateApplicablePercent', percent(g.rate)),
+        '</ram:ApplicableTradeTax>',
+      ].join(''),
+    ),
+    `<ram:SpecifiedTradePaymentTerms>${el('ram:Description', paymentTermsText(doc))}${ciiDate('ram:DueDateDateTime', doc.dueDate)}</ram:SpecifiedTradePaymentTerms>`,
+    '<ram:SpecifiedTradeSettlementHeaderMonetarySummation>',
+    el('ram:LineTotalAmount', amount(doc.totals.net)),
+    el('ram:TaxBasisTotalAmount', amount(doc.totals.net)),
+    el('ram:TaxTotalAmount', amount(doc.totals.vat), ` currencyID="${escapeXml(doc.currency)}"`),
+    el('ram:GrandTotalAmount', amount(doc.totals.gross)),
+    el('ram:DuePayableAmount', amount(doc.totals.gross)),
+    '</ram:SpecifiedTradeSettlementHeaderMonetarySummation>',
+    '</ram:ApplicableHeaderTradeSettlement>',
+    '</rsm:SupplyChainTradeTransaction>',
+    '</rsm:CrossIndustryInvoice>',
+  ].join('\n');
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { RecurrenceRule } from '@/lib/cashflow/recurrence';
+import {
+  DEFAULT_RECURRING_MATCH_OPTIONS,
+  descriptionSimilarity,
+  descriptionTokens,
+  matchRecurring,
+  type MatchRecurringItem,
+  type MatchTransaction,
+} from './match';
+
+const monthly = (startDate: string): RecurrenceRule => ({
+  intervalType: 'MONTHLY',
+  intervalCount: 1,
+  startDate,
+  endDate: null,
+  monthRule: 'DAY_OF_MONTH',
+  dayOfMonth: null,
+  weekday: null,
+  weekOfMonth: null,
+  businessDayRule: 'NONE',
+});
+
+const items: MatchRecurringItem[] = [
+  {
+    id: 'rent',
+    accountId: 'a1',
+    amount: -800,
+    description: 'Miete Wohnung',
+    rule: monthly('2025-01-01'),
+  },
+  {
+    id: 'gym',
+    accountId: 'a1',
+    amount: -30,
+    description: 'FitX Mitgliedschaft',
+    rule: monthly('2025-01-15'),
+  },
+];
+
+const tx = (
+  id: string,
+  txDate: string,
+  amount: number,
+  description: string,
+  fields: Partial<MatchTransaction> = {},
+): MatchTransaction => ({
+  id,
+  accountId: 'a1',
+  txDate,
+  amount,
+  description,
+  counterparty: null,
+  recurringId: null,
+  recurringOccurrence: null,
+  ...fields,
+});
+
+const range = { from: '2025-03-01', toExclusive: '2025-05-01' };
+const opts = { ...DEFAULT_RECURRING_MATCH_OPTIONS, today: '2025-04-21' };
+
+describe('descriptionTokens / descriptionSimilarity', () => {
+  it('drops stop words and numbers and matches word prefixes', () => {
+    const booked = descriptionTokens('SEPA-Lastschrift Allianz Versicherungs-AG 12345', null);
+    expect([...booked]).toEqual(['allianz', 'versicherungs']);
+    expect(descriptionSimilarity(descriptionTokens('Allianz Versicherung'), booked)).toBe(1);
+    expect(descriptionSimilarity(descriptionTokens('Bäckerei Müller'), booked)).toBe(0);
+  });
+});
+
+describe('matchRecurring', () => {
+  it('matches bookings to occurrences and reports the deviations', () => {
+    const result = matchRecurring(
+      items,
+      [
+        tx('t1', '2025-03-03', -800, 'DAUERAUFTRAG Miete Wohnung'),
+        tx('t2', '2025-04-02', -850, 'Miete Wohnung April'),
+        tx('t3', '2025-03-15', -30, 'SEPA Lastschrift', { counterparty: 'FitX Deutschland' }),
+        tx('t4', '2025-03-25', -30, 'FitX Mitgliedschaft'),
+      ],
+      range,
+      opts,
+    );
+
+    expect(
+      result.occurrences.map((o) => [o.recurringId, o.date, o.status, o.transactionId]),
+    ).toEqual([
+      ['rent', '2025-03-01', 'matched', 't1'],
+      ['rent', '2025-04-01', 'matched', 't2'],
+      ['gym', '2025-03-15', 'matched', 't3'],
+      ['gym', '2025-04-15', 'missed', null],
+    ]);
+    expect(result.deviations.map((d) => [d.kind, d.recurringId, d.date])).toEqual([
+      ['unexpected', 'gym', '2025-03-25'],
+      ['price_change', 'rent', '2025-04-02'],
+      ['missed', 'gym', '2025-04-15'],
+    ]);
+  });
+
+  it('keeps persisted links and waits out the date window before reporting a miss', () => {
+    const result = matchRecurring(
+      items,
+      [
+        tx('t1', '2025-03-10', -700, 'Überweisung', {
+          recurringId: 'rent',
+          recurringOccurrence: '2025-03-01',
+        }),
+      ],
+      { from: '2025-03-01', toExclusive: '2025-04-01' },
+      { ...opts, today: '2025-03-20' },
+    );
+    expect(result.occurrences).toEqual([
+      expect.objectContaining({ date: '2025-03-01', transactionId: 't1', linked: true }),
+      expect.objectContaining({ date: '2025-03-15', status: 'pending' }),
+    ]);
+    expect(result.deviations).toEqual([
+      expect.objectContaining({ kind: 'price_change', expected: -800, actual: -700 }),
+    ]);
+  });
+});
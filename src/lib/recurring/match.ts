@@ -0,0 +1,291 @@
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import { occurrencesBetween, type RecurrenceRule } from '@/lib/cashflow/recurrence';
+
+// Links booked transactions to the recurring occurrence they fulfil and reports
+// what deviates from the plan. Pure, so the same result feeds the recurring page
+// and the actual cashflow view.
+
+export type MatchRecurringItem = {
+  id: string;
+  accountId: string;
+  amount: number; // signed
+  description: string;
+  rule: RecurrenceRule;
+};
+
+export type MatchTransaction = {
+  id: string;
+  accountId: string | null;
+  txDate: string;
+  amount: number;
+  description: string;
+  counterparty: string | null;
+  // persisted link, kept as long as the occurrence still exists
+  recurringId: string | null;
+  recurringOccurrence: string | null;
+};
+
+export type RecurringMatchOptions = {
+  today: string;
+  dateWindowDays: number; // booking may be this many days before/after the occurrence
+  amountTolerance: number; // relative, e.g. 0.25 = ±25 %
+  minSimilarity: number; // 0..1, share of the shorter description's words found in the other
+};
+
+export const DEFAULT_RECURRING_MATCH_OPTIONS: Omit<RecurringMatchOptions, 'today'> = {
+  dateWindowDays: 5,
+  amountTolerance: 0.25,
+  minSimilarity: 0.5,
+};
+
+export type RecurringOccurrenceStatus = 'matched' | 'missed' | 'pending';
+
+export type RecurringOccurrenceMatch = {
+  recurringId: string;
+  date: string;
+  expected: number;
+  status: RecurringOccurrenceStatus;
+  transactionId: string | null;
+  actualDate: string | null;
+  actualAmount: number | null;
+  linked: boolean; // already persisted on the transaction
+};
+
+export type RecurringDeviation =
+  | { kind: 'missed'; recurringId: string; title: string; date: string; expected: number }
+  | {
+      kind: 'price_change';
+      recurringId: string;
+      title: string;
+      date: string;
+      expected: number;
+      actual: number;
+      transactionId: string;
+    }
+  | {
+      kind: 'unexpected';
+      recurringId: string;
+      title: string;
+      date: string;
+      actual: number;
+      transactionId: string;
+    };
+
+export type RecurringMatchResult = {
+  occurrences: RecurringOccurrenceMatch[];
+  deviations: RecurringDeviation[];
+};
+
+const STOP_WORDS = new Set([
+  'und',
+  'der',
+  'die',
+  'das',
+  'fuer',
+  'von',
+  'gmbh',
+  'sepa',
+  'lastschrift',
+]);
+
+export function descriptionTokens(...parts: (string | null)[]) {
+  const text = parts
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+  const tokens = new Set<string>();
+  for (const t of text.split(/[^a-z0-9]+/)) {
+    if (t.length < 3 || /^\d+$/.test(t) || STOP_WORDS.has(t)) continue;
+    tokens.add(t);
+  }
+  return tokens;
+}
+
+/**
+ * Overlap coefficient of two word sets. Words count as equal when one is a
+ * prefix of the other (≥ 4 chars), so "versicherung" matches "versicherungs".
+ */
+export function descriptionSimilarity(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+
+  let hits = 0;
+  for (const s of small) {
+    if (large.has(s)) {
+      hits++;
+      continue;
+    }
+    for (const l of large) {
+      const [short, long] = s.length <= l.length ? [s, l] : [l, s];
+      if (short.length >= 4 && long.startsWith(short)) {
+        hits++;
+        break;
+      }
+    }
+  }
+  return hits / small.size;
+}
+
+function daysApart(a: string, b: string) {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000;
+}
+
+function amountDeviation(expected: number, actual: number) {
+  if (Math.sign(expected) !== Math.sign(actual)) return Infinity;
+  return Math.abs(actual - expected) / Math.max(Math.abs(expected), 0.01);
+}
+
+function sameAmount(a: number, b: number) {
+  return Math.abs(a - b) < 0.005;
+}
+
+export function matchRecurring(
+  items: MatchRecurringItem[],
+  transactions: MatchTransaction[],
+  range: { from: string; toExclusive: string },
+  opts: RecurringMatchOptions,
+): RecurringMatchResult {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const itemTokens = new Map(items.map((i) => [i.id, descriptionTokens(i.description)]));
+
+  const occurrences: RecurringOccurrenceMatch[] = items.flatMap((item) =>
+    occurrencesBetween(item.rule, range.from, range.toExclusive).map((date) => ({
+      recurringId: item.id,
+      date,
+      expected: item.amount,
+      status: 'pending' as RecurringOccurrenceStatus,
+      transactionId: null,
+      actualDate: null,
+      actualAmount: null,
+      linked: false,
+    })),
+  );
+  const occKey = (recurringId: string, date: string) => `${recurringId}|${date}`;
+  const byOcc = new Map(occurrences.map((o) => [occKey(o.recurringId, o.date), o]));
+
+  const assign = (o: RecurringOccurrenceMatch, tx: MatchTransaction, linked: boolean) => {
+    o.status = 'matched';
+    o.transactionId = tx.id;
+    o.actualDate = tx.txDate;
+    o.actualAmount = tx.amount;
+    o.linked = linked;
+  };
+
+  // 1) persisted links win; links to occurrences outside the range belong there,
+  // links to occurrences that no longer exist (schedule edited) are re-matched
+  const used = new Set<string>();
+  for (const tx of transactions) {
+    if (!tx.recurringId || !tx.recurringOccurrence) continue;
+    const inRange =
+      tx.recurringOccurrence >= range.from && tx.recurringOccurrence < range.toExclusive;
+    const o = byOcc.get(occKey(tx.recurringId, tx.recurringOccurrence));
+    if (o && !o.transactionId) assign(o, tx, true);
+    if (o || !inRange) used.add(tx.id);
+  }
+
+  // 2) score every plausible (transaction, occurrence) pair, best first
+  const txTokens = new Map(
+    transactions.map((t) => [t.id, descriptionTokens(t.description, t.counterparty)]),
+  );
+  const candidates: { score: number; tx: MatchTransaction; occ: RecurringOccurrenceMatch }[] = [];
+
+  for (const tx of transactions) {
+    if (used.has(tx.id)) continue;
+
+    for (const occ of occurrences) {
+      if (occ.transactionId) continue;
+      const item = byId.get(occ.recurringId);
+      if (!item || item.accountId !== tx.accountId) continue;
+
+      const days = daysApart(occ.date, tx.txDate);
+      if (days > opts.dateWindowDays) continue;
+
+      const dev = amountDeviation(item.amount, tx.amount);
+      if (dev > opts.amountTolerance) continue;
+
+      const sim = descriptionSimilarity(
+        itemTokens.get(item.id) ?? new Set(),
+        txTokens.get(tx.id) ?? new Set(),
+      );
+      // an exact amount on the right account is evidence enough for terse bank texts
+      if (sim < opts.minSimilarity && !sameAmount(item.amount, tx.amount)) continue;
+
+      const score =
+        0.5 * sim +
+        0.3 * (1 - dev / opts.amountTolerance) +
+        0.2 * (1 - days / (opts.dateWindowDays + 1));
+      candidates.push({ score, tx, occ });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  for (const c of candidates) {
+    if (used.has(c.tx.id) || c.occ.transactionId) continue;
+    assign(c.occ, c.tx, false);
+    used.add(c.tx.id);
+  }
+
+  // 3) deviations
+  const deviations: RecurringDeviation[] = [];
+  const title = (id: string) => byId.get(id)?.description ?? '';
+
+  for (const o of occurrences) {
+    if (o.status === 'matched') {
+      if (o.actualAmount !== null && o.transactionId && !sameAmount(o.actualAmount, o.expected)) {
+        deviations.push({
+          kind: 'price_change',
+          recurringId: o.recurringId,
+          title: title(o.recurringId),
+          date: o.actualDate ?? o.date,
+          expected: o.expected,
+          actual: o.actualAmount,
+          transactionId: o.transactionId,
+        });
+      }
+    } else if (addDaysUTC(o.date, opts.dateWindowDays) < opts.today) {
+      o.status = 'missed';
+      deviations.push({
+        kind: 'missed',
+        recurringId: o.recurringId,
+        title: title(o.recurringId),
+        date: o.date,
+        expected: o.expected,
+      });
+    }
+  }
+
+  // Left-over debits that look like a recurring item but fulfil no occurrence
+  // (double debit, extra fee, charge outside the schedule).
+  for (const tx of transactions) {
+    if (used.has(tx.id) || tx.amount >= 0) continue;
+    if (tx.txDate < range.from || tx.txDate >= range.toExclusive) continue;
+
+    const tokens = txTokens.get(tx.id) ?? new Set<string>();
+    const item = items.find(
+      (i) =>
+        i.amount < 0 &&
+        i.accountId === tx.accountId &&
+        descriptionSimilarity(itemTokens.get(i.id) ?? new Set(), tokens) >= opts.minSimilarity,
+    );
+    if (!item) continue;
+
+    deviations.push({
+      kind: 'unexpected',
+      recurringId: item.id,
+      title: item.description,
+      date: tx.txDate,
+      actual: tx.amount,
+      transactionId: tx.id,
+    });
+  }
+
+  deviations.sort((a, b) => a.date.localeCompare(b.date));
+  return { occurrences, deviations };
+}
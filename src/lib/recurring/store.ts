@@ -0,0 +1,159 @@
+import type { Pool, PoolClient } from 'pg';
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import { BUSINESS_DAY_MAX_SHIFT } from '@/lib/cashflow/calendar';
+import { recurrenceFromRow, type RecurrenceRow } from '@/lib/cashflow/recurrence';
+import { formatDateOnly } from '@/lib/date-only';
+import {
+  DEFAULT_RECURRING_MATCH_OPTIONS,
+  matchRecurring,
+  type MatchTransaction,
+  type RecurringMatchResult,
+} from './match';
+
+type Db = Pool | PoolClient;
+
+export type RecurringMatchRange = {
+  from: string;
+  toExclusive: string;
+  accountId?: string;
+};
+
+type RecurringRow = RecurrenceRow & {
+  id: string;
+  account_id: string;
+  amount: number;
+  description: string;
+};
+
+type TxRow = {
+  id: string;
+  account_id: string | null;
+  tx_date: string;
+  amount: number;
+  description: string;
+  counterparty: string | null;
+  recurring_id: string | null;
+  recurring_occurrence: string | null;
+};
+
+/**
+ * Match recurring occurrences in [from, toExclusive) against booked (non-transfer)
+ * transactions. Read-only: persisted links are honoured, new matches are not stored.
+ */
+export async function matchRecurringRange(
+  db: Db,
+  userId: string,
+  range: RecurringMatchRange,
+): Promise<RecurringMatchResult> {
+  const window = DEFAULT_RECURRING_MATCH_OPTIONS.dateWindowDays;
+  const accountId = range.accountId ?? null;
+
+  const rec = await db.query(
+    `SELECT
+       id,
+       account_id,
+       amount::float8 AS amount,
+       description,
+       interval_type,
+       interval_count,
+       month_rule,
+       day_of_month,
+       weekday,
+       week_of_month,
+       business_day_rule,
+       start_date::text AS start_date,
+       end_date::text AS end_date
+     FROM recurring
+     WHERE user_id = $1
+       AND ($5::uuid IS NULL OR account_id = $5::uuid)
+       AND start_date < $3::date + $4::int
+       AND (end_date IS NULL OR end_date >= $2::date - $4::int)`,
+    [userId, range.from, range.toExclusive, BUSINESS_DAY_MAX_SHIFT, accountId],
+  );
+
+  const tx = await db.query(
+    `SELECT
+       id,
+       account_id,
+       tx_date::text AS tx_date,
+       amount::float8 AS amount,
+       description,
+       counterparty,
+       recurring_id,
+       recurring_occurrence::text AS recurring_occurrence
+     FROM transactions
+     WHERE user_id = $1
+       AND transfer_group_id IS NULL
+       AND account_id IS NOT NULL
+       AND ($4::uuid IS NULL OR account_id = $4::uuid)
+       AND tx_date >= $2::date
+       AND tx_date < $3::date
+     ORDER BY tx_date ASC, created_at ASC`,
+    [userId, addDaysUTC(range.from, -window), addDaysUTC(range.toExclusive, window), accountId],
+  );
+
+  const items = (rec.rows as RecurringRow[]).map((r) => ({
+    id: r.id,
+    accountId: r.account_id,
+    amount: r.amount,
+    description: r.description,
+    rule: recurrenceFromRow(r),
+  }));
+
+  const transactions: MatchTransaction[] = (tx.rows as TxRow[]).map((t) => ({
+    id: t.id,
+    accountId: t.account_id,
+    txDate: t.tx_date,
+    amount: t.amount,
+    description: t.description,
+    counterparty: t.counterparty,
+    recurringId: t.recurring_id,
+    recurringOccurrence: t.recurring_occurrence,
+  }));
+
+  return matchRecurring(items, transactions, range, {
+    ...DEFAULT_RECURRING_MATCH_OPTIONS,
+    today: formatDateOnly(new Date()),
+  });
+}
+
+/**
+ * Same as matchRecurringRange, but stores new matches on the transactions and
+ * drops links to occurrences that no longer exist. Returns the number of new links.
+ */
+export async function linkRecurringMatches(
+  client: PoolClient,
+  userId: string,
+  range: RecurringMatchRange,
+): Promise<{ linked: number; result: RecurringMatchResult }> {
+  const result = await matchRecurringRange(client, userId, range);
+  const kept = result.occurrences
+    .filter((o) => o.linked && o.transactionId)
+    .map((o) => o.transactionId as string);
+  const fresh = result.occurrences.filter((o) => o.status === 'matched' && !o.linked);
+
+  // stale links first, so a re-matched occurrence does not trip the unique index
+  await client.query(
+    `UPDATE transactions t
+     SET recurring_id = NULL, recurring_occurrence = NULL
+     WHERE t.user_id = $1
+       AND t.recurring_id IS NOT NULL
+       AND t.recurring_occurrence >= $2::date
+       AND t.recurring_occurrence < $3::date
+       AND ($4::uuid IS NULL OR t.account_id = $4::uuid)
+       AND t.id <> ALL($5::uuid[])`,
+    [userId, range.from, range.toExclusive, range.accountId ?? null, kept],
+  );
+
+  for (const o of fresh) {
+    await client.query(
+      `UPDATE transactions
+       SET recurring_id = $3, recurring_occurrence = $4::date
+       WHERE user_id = $1 AND id = $2`,
+      [userId, o.transactionId, o.recurringId, o.date],
+    );
+    o.linked = true;
+  }
+
+  return { linked: fresh.length, result };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateNetSalary,
+  marginalIncomeTaxRate,
+  payrollTaxYear,
+  type PayrollProfile,
+} from './payroll';
+
+const profile: PayrollProfile = {
+  taxClass: 1,
+  state: 'NW',
+  churchTax: false,
+  children: 0,
+  healthAdditionalRate: null,
+};
+
+describe('payrollTaxYear', () => {
+  it('falls back to the closest year with tables', () => {
+    expect(payrollTaxYear(2020)).toBe(2024);
+    expect(payrollTaxYear(2025)).toBe(2025);
+    expect(payrollTaxYear(2030)).toBe(2026);
+  });
+});
+
+describe('calculateNetSalary', () => {
+  it('computes Lohnsteuer and contributions for tax class I', () => {
+    expect(calculateNetSalary(4000, profile, 2025)).toEqual({
+      taxYear: 2025,
+      gross: 4000,
+      incomeTax: 535.58,
+      solidaritySurcharge: 0,
+      churchTax: 0,
+      pension: 372,
+      unemployment: 52,
+      health: 342,
+      care: 96,
+      totalTax: 535.58,
+      totalSocial: 862,
+      net: 2602.42,
+    });
+  });
+
+  it('applies the tax class to the Lohnsteuer only', () => {
+    const classIII = calculateNetSalary(4000, { ...profile, taxClass: 3 }, 2025);
+    const classV = calculateNetSalary(4000, { ...profile, taxClass: 5 }, 2025);
+    expect(classIII.incomeTax).toBe(214.83);
+    expect(classV.incomeTax).toBe(955.25);
+    expect(classIII.totalSocial).toBe(862);
+    expect(classV.totalSocial).toBe(862);
+  });
+
+  it('caps contributions at the ceilings and charges Soli above the exemption', () => {
+    const high = calculateNetSalary(10_000, profile, 2025);
+    expect(high).toMatchObject({
+      pension: 748.65, // 8050 × 9.3 %
+      unemployment: 104.65, // 8050 × 1.3 %
+      health: 471.32, // 5512.50 × (14.6 + 2.5) / 2 %
+      care: 132.3, // 5512.50 × (1.8 + 0.6 childless) %
+      incomeTax: 2685.33,
+      solidaritySurcharge: 121.71,
+    });
+  });
+
+  it('adds church tax by state and lowers care insurance for children', () => {
+    const by = calculateNetSalary(4000, { ...profile, state: 'BY', churchTax: true }, 2025);
+    const nw = calculateNetSalary(4000, { ...profile, churchTax: true }, 2025);
+    expect(by.churchTax).toBe(Math.floor(535.58 * 0.08 * 100) / 100);
+    expect(nw.churchTax).toBeGreaterThan(by.churchTax);
+    expect(calculateNetSalary(4000, { ...profile, children: 3 }, 2025).care).toBe(52);
+  });
+});
+
+describe('marginalIncomeTaxRate', () => {
+  it('is zero within the basic allowance and includes Soli above it', () => {
+    expect(marginalIncomeTaxRate(10_000, 2025)).toBe(0);
+    expect(marginalIncomeTaxRate(100_000, 2025)).toBe(47);
+  });
+});
@@ -0,0 +1,368 @@
+import { z } from 'zod';
+
+// Offline gross-to-net estimate for German employees with statutory insurance
+// (Lohnsteuer after the BMF Programmablaufplan, simplified). Parameters are kept
+// per tax year so an older salary version is still calculated with its own year.
+// Not covered: Midijob/Minijob, private health insurance, Freibeträge from the
+// ELStAM, Kinderfreibeträge for Soli/church tax and the factor method in class IV.
+
+export const GERMAN_STATES = [
+  'BW',
+  'BY',
+  'BE',
+  'BB',
+  'HB',
+  'HH',
+  'HE',
+  'MV',
+  'NI',
+  'NW',
+  'RP',
+  'SL',
+  'SN',
+  'ST',
+  'SH',
+  'TH',
+] as const;
+
+export type GermanState = (typeof GERMAN_STATES)[number];
+
+export const GERMAN_STATE_LABEL: Record<GermanState, string> = {
+  BW: 'Baden-Württemberg',
+  BY: 'Bayern',
+  BE: 'Berlin',
+  BB: 'Brandenburg',
+  HB: 'Bremen',
+  HH: 'Hamburg',
+  HE: 'Hessen',
+  MV: 'Mecklenburg-Vorpommern',
+  NI: 'Niedersachsen',
+  NW: 'Nordrhein-Westfalen',
+  RP: 'Rheinland-Pfalz',
+  SL: 'Saarland',
+  SN: 'Sachsen',
+  ST: 'Sachsen-Anhalt',
+  SH: 'Schleswig-Holstein',
+  TH: 'Thüringen',
+};
+
+export const TAX_CLASSES = [1, 2, 3, 4, 5, 6] as const;
+
+export type TaxClass = (typeof TAX_CLASSES)[number];
+
+export const TAX_CLASS_LABEL: Record<TaxClass, string> = {
+  1: 'I',
+  2: 'II',
+  3: 'III',
+  4: 'IV',
+  5: 'V',
+  6: 'VI',
+};
+
+/**
+ * Calculator settings stored on a salary version (salary_settings.payroll).
+ */
+export const PayrollProfileSchema = z.object({
+  taxClass: z.number().int().min(1).max(6),
+  state: z.enum(GERMAN_STATES),
+  churchTax: z.boolean().default(false),
+  children: z.number().int().min(0).max(20).default(0), // for the care insurance rate
+  // health insurance Zusatzbeitrag in percent; null = average of the tax year
+  healthAdditionalRate: z.number().min(0).max(10).nullable().default(null),
+});
+
+export type PayrollProfile = z.output<typeof PayrollProfileSchema>;
+
+type PayrollYear = {
+  // §32a EStG: zone 2 = (a·y + b)·y, zone 3 = (a·z + b)·z + c, zones 4/5 = rate·x − sub
+  basicAllowance: number;
+  zone2End: number;
+  zone2A: number;
+  zone3End: number;
+  zone3A: number;
+  zone3C: number;
+  zone4Sub: number;
+  zone5Start: number;
+  zone5Sub: number;
+  // §39b Abs. 2 Satz 7 EStG: thresholds for tax classes V and VI
+  class56W1: number;
+  class56W2: number;
+  class56W3: number;
+  soliExemption: number; // annual Lohnsteuer, doubled in class III
+  // monthly contribution ceilings and total rates in percent
+  pensionCeiling: number;
+  healthCeiling: number;
+  pensionRate: number;
+  unemploymentRate: number;
+  healthRate: number;
+  healthAdditionalAverage: number;
+  careRate: number;
+  // until 2025 the Mindestvorsorgepauschale, from 2026 unemployment insurance counts
+  minimumProvisionAllowance: boolean;
+  unemploymentInProvisionAllowance: boolean;
+};
+
+const PAYROLL_YEARS: Record<number, PayrollYear> = {
+  2024: {
+    basicAllowance: 11784,
+    zone2End: 17005,
+    zone2A: 954.8,
+    zone3End: 66760,
+    zone3A: 181.19,
+    zone3C: 991.21,
+    zone4Sub: 10636.31,
+    zone5Start: 277826,
+    zone5Sub: 18971.06,
+    class56W1: 13279,
+    class56W2: 33380,
+    class56W3: 222260,
+    soliExemption: 18130,
+    pensionCeiling: 7550,
+    healthCeiling: 5175,
+    pensionRate: 18.6,
+    unemploymentRate: 2.6,
+    healthRate: 14.6,
+    healthAdditionalAverage: 1.7,
+    careRate: 3.4,
+    minimumProvisionAllowance: true,
+    unemploymentInProvisionAllowance: false,
+  },
+  2025: {
+    basicAllowance: 12096,
+    zone2End: 17443,
+    zone2A: 932.3,
+    zone3End: 68480,
+    zone3A: 176.64,
+    zone3C: 1015.13,
+    zone4Sub: 10911.92,
+    zone5Start: 277826,
+    zone5Sub: 19246.67,
+    class56W1: 13785,
+    class56W2: 34240,
+    class56W3: 222260,
+    soliExemption: 19950,
+    pensionCeiling: 8050,
+    healthCeiling: 5512.5,
+    pensionRate: 18.6,
+    unemploymentRate: 2.6,
+    healthRate: 14.6,
+    healthAdditionalAverage: 2.5,
+    careRate: 3.6,
+    minimumProvisionAllowance: true,
+    unemploymentInProvisionAllowance: false,
+  },
+  2026: {
+    basicAllowance: 12348,
+    zone2End: 17799,
+    zone2A: 914.51,
+    zone3End: 69878,
+    zone3A: 173.1,
+    zone3C: 1034.87,
+    zone4Sub: 11135.63,
+    zone5Start: 277826,
+    zone5Sub: 19470.38,
+    class56W1: 14071,
+    class56W2: 34939,
+    class56W3: 222260,
+    soliExemption: 20350,
+    pensionCeiling: 8450,
+    healthCeiling: 5812.5,
+    pensionRate: 18.6,
+    unemploymentRate: 2.6,
+    healthRate: 14.6,
+    healthAdditionalAverage: 2.9,
+    careRate: 3.6,
+    minimumProvisionAllowance: false,
+    unemploymentInProvisionAllowance: true,
+  },
+};
+
+export const PAYROLL_TAX_YEARS = Object.keys(PAYROLL_YEARS)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+const WORK_ALLOWANCE = 1230; // Arbeitnehmer-Pauschbetrag
+const SPECIAL_EXPENSES_ALLOWANCE = 36; // Sonderausgaben-Pauschbetrag
+const SINGLE_PARENT_RELIEF = 4260; // Entlastungsbetrag für Alleinerziehende (class II)
+const HEALTH_PROVISION_RATE = 14.0; // reduced rate: Krankengeld share is not deductible
+const OTHER_PROVISION_CAP = 1900; // §10 Abs. 4 EStG, 3000 in class III
+const OTHER_PROVISION_CAP_JOINT = 3000;
+const CARE_CHILDLESS_SURCHARGE = 0.6;
+const CARE_CHILD_DISCOUNT = 0.25; // per child from the 2nd to the 5th
+const CARE_SAXONY_EMPLOYEE_EXTRA = 0.5; // Saxony kept the Buß- und Bettag
+
+/**
+ * Tax year whose parameters are used for `year`: the year itself or the
+ * closest one we have tables for.
+ */
+export function payrollTaxYear(year: number): number {
+  const first = PAYROLL_TAX_YEARS[0];
+  const last = PAYROLL_TAX_YEARS[PAYROLL_TAX_YEARS.length - 1];
+  return Math.min(Math.max(year, first), last);
+}
+
+export function defaultHealthAdditionalRate(year: number): number {
+  return PAYROLL_YEARS[payrollTaxYear(year)].healthAdditionalAverage;
+}
+
+export type NetSalaryBreakdown = {
+  taxYear: number; // parameter year actually used
+  gross: number;
+  incomeTax: number; // Lohnsteuer
+  solidaritySurcharge: number;
+  churchTax: number;
+  pension: number;
+  unemployment: number;
+  health: number;
+  care: number;
+  totalTax: number;
+  totalSocial: number;
+  net: number;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const floor2 = (n: number) => Math.floor(n * 100 + 1e-6) / 100;
+
+function tariff(zvE: number, p: PayrollYear): number {
+  const x = Math.floor(zvE);
+  if (x <= p.basicAllowance) return 0;
+  if (x <= p.zone2End) {
+    const y = (x - p.basicAllowance) / 10000;
+    return Math.floor((p.zone2A * y + 1400) * y);
+  }
+  if (x <= p.zone3End) {
+    const z = (x - p.zone2End) / 10000;
+    return Math.floor((p.zone3A * z + 2397) * z + p.zone3C);
+  }
+  if (x < p.zone5Start) return Math.floor(0.42 * x - p.zone4Sub);
+  return Math.floor(0.45 * x - p.zone5Sub);
+}
+
+// tax classes V and VI: twice the difference of the tariff at 125 % and 75 %,
+// at least 14 %, with fixed marginal rates above the thresholds
+function class56Base(zx: number, p: PayrollYear) {
+  const diff = (tariff(zx * 1.25, p) - tariff(zx * 0.75, p)) * 2;
+  return Math.max(diff, Math.floor(zx * 0.14));
+}
+
+function class56Tax(zvE: number, p: PayrollYear): number {
+  const x = Math.floor(zvE);
+  if (x > p.class56W2) {
+    const base = class56Base(p.class56W2, p);
+    if (x > p.class56W3) {
+      return Math.floor(base + (p.class56W3 - p.class56W2) * 0.42 + (x - p.class56W3) * 0.45);
+    }
+    return Math.floor(base + (x - p.class56W2) * 0.42);
+  }
+
+  const tax = class56Base(x, p);
+  if (x <= p.class56W1) return tax;
+  return Math.min(tax, Math.floor(class56Base(p.class56W1, p) + (x - p.class56W1) * 0.42));
+}
+
+// Soli: exemption limit, then at most 11.9 % of the amount above it
+function soliOnTax(annualTax: number, exemption: number) {
+  return annualTax <= exemption ? 0 : Math.min(annualTax * 0.055, (annualTax - exemption) * 0.119);
+}
+
+/**
+ * Marginal rate in percent of income tax plus Soli at a taxable income (single
+ * assessment): the share of an additional euro of profit that goes to tax.
+ */
+export function marginalIncomeTaxRate(zvE: number, year: number): number {
+  const p = PAYROLL_YEARS[payrollTaxYear(year)];
+  const total = (x: number) => {
+    const tax = tariff(x, p);
+    return tax + soliOnTax(tax, p.soliExemption);
+  };
+  const x = Math.max(0, Math.floor(zvE));
+  return Math.round(((total(x + 100) - total(x)) / 100) * 1000) / 10;
+}
+
+function careEmployeeRate(profile: PayrollProfile, p: PayrollYear) {
+  let rate = p.careRate / 2;
+  if (profile.state === 'SN') rate += CARE_SAXONY_EMPLOYEE_EXTRA;
+  if (profile.children === 0) rate += CARE_CHILDLESS_SURCHARGE;
+  else if (profile.children >= 2) rate -= CARE_CHILD_DISCOUNT * (Math.min(profile.children, 5) - 1);
+  return rate;
+}
+
+/**
+ * Monthly net salary for a monthly gross in `year`.
+ */
+export function calculateNetSalary(
+  grossMonthly: number,
+  profile: PayrollProfile,
+  year: number,
+): NetSalaryBreakdown {
+  const taxYear = payrollTaxYear(year);
+  const p = PAYROLL_YEARS[taxYear];
+  const taxClass = profile.taxClass as TaxClass;
+  const gross = Math.max(0, round2(grossMonthly));
+  const additional = profile.healthAdditionalRate ?? p.healthAdditionalAverage;
+
+  // employee contributions (half of the total rates, care depends on children/state)
+  const pensionBase = Math.min(gross, p.pensionCeiling);
+  const healthBase = Math.min(gross, p.healthCeiling);
+  const careRate = careEmployeeRate(profile, p);
+  const pension = round2((pensionBase * p.pensionRate) / 200);
+  const unemployment = round2((pensionBase * p.unemploymentRate) / 200);
+  const health = round2((healthBase * (p.healthRate + additional)) / 200);
+  const care = round2((healthBase * careRate) / 100);
+
+  // Vorsorgepauschale on the annual wage
+  const annual = gross * 12;
+  const provisionCap = taxClass === 3 ? OTHER_PROVISION_CAP_JOINT : OTHER_PROVISION_CAP;
+  const pensionPart = (Math.min(annual, p.pensionCeiling * 12) * p.pensionRate) / 200;
+  const healthAnnualBase = Math.min(annual, p.healthCeiling * 12);
+  const healthCarePart =
+    (healthAnnualBase * (HEALTH_PROVISION_RATE + additional)) / 200 +
+    (healthAnnualBase * careRate) / 100;
+  let provision = pensionPart + healthCarePart;
+  if (p.minimumProvisionAllowance) {
+    provision = pensionPart + Math.max(healthCarePart, Math.min(annual * 0.12, provisionCap));
+  }
+  if (p.unemploymentInProvisionAllowance) {
+    const unemploymentPart = (Math.min(annual, p.pensionCeiling * 12) * p.unemploymentRate) / 200;
+    provision += Math.min(unemploymentPart, Math.max(0, provisionCap - healthCarePart));
+  }
+
+  let allowances = Math.ceil(provision);
+  if (taxClass !== 6) allowances += WORK_ALLOWANCE + SPECIAL_EXPENSES_ALLOWANCE;
+  if (taxClass === 2) allowances += SINGLE_PARENT_RELIEF;
+  const zvE = Math.max(0, Math.floor(annual - allowances));
+
+  const annualTax =
+    taxClass === 3
+      ? 2 * tariff(Math.floor(zvE / 2), p)
+      : taxClass === 5 || taxClass === 6
+        ? class56Tax(zvE, p)
+        : tariff(zvE, p);
+
+  const exemption = taxClass === 3 ? p.soliExemption * 2 : p.soliExemption;
+  const annualSoli = soliOnTax(annualTax, exemption);
+  const churchRate = profile.state === 'BY' || profile.state === 'BW' ? 0.08 : 0.09;
+  const annualChurch = profile.churchTax ? annualTax * churchRate : 0;
+
+  const incomeTax = floor2(annualTax / 12);
+  const solidaritySurcharge = floor2(annualSoli / 12);
+  const churchTax = floor2(annualChurch / 12);
+
+  const totalTax = round2(incomeTax + solidaritySurcharge + churchTax);
+  const totalSocial = round2(pension + unemployment + health + care);
+
+  return {
+    taxYear,
+    gross,
+    incomeTax,
+    solidaritySurcharge,
+    churchTax,
+    pension,
+    unemployment,
+    health,
+    care,
+    totalTax,
+    totalSocial,
+    net: round2(gross - totalTax - totalSocial),
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  salaryPayouts,
+  salaryVersionOn,
+  type SalarySpecialPayment,
+  type SalaryVersion,
+} from './schedule';
+
+const version = (id: string, validFrom: string, fields: Partial<SalaryVersion> = {}) =>
+  ({
+    id,
+    validFrom,
+    netAmount: 3000,
+    payoutDay: 30,
+    businessDayRule: 'PREVIOUS',
+    yearlyBonusAmount: null,
+    yearlyBonusMonth: null,
+    yearlyBonusDay: null,
+    ...fields,
+  }) satisfies SalaryVersion;
+
+const special = (id: string, fields: Partial<SalarySpecialPayment>) =>
+  ({
+    id,
+    kind: 'BONUS',
+    title: '',
+    amount: null,
+    payoutDate: null,
+    payoutMonth: null,
+    payoutDay: null,
+    businessDayRule: 'NONE',
+    ...fields,
+  }) satisfies SalarySpecialPayment;
+
+const versions = [
+  version('v1', '2025-01-01', { yearlyBonusAmount: 1000, yearlyBonusMonth: 3, yearlyBonusDay: 10 }),
+  version('v2', '2025-03-15', { netAmount: 3300 }),
+];
+
+const pick = (payouts: ReturnType<typeof salaryPayouts>) =>
+  payouts.map((p) => [p.kind, p.date, p.amount, p.salaryId]);
+
+describe('salaryVersionOn', () => {
+  it('takes the latest version started on or before the date', () => {
+    expect(salaryVersionOn(versions, '2024-12-31')).toBeNull();
+    expect(salaryVersionOn(versions, '2025-03-14')?.id).toBe('v1');
+    expect(salaryVersionOn([...versions].reverse(), '2025-03-15')?.id).toBe('v2');
+  });
+});
+
+describe('salaryPayouts', () => {
+  it('pays each month from the version valid on its last day', () => {
+    expect(pick(salaryPayouts(versions, [], '2025-02-01', '2025-05-01'))).toEqual([
+      ['salary', '2025-02-28', 3000, 'v1'],
+      ['yearly_bonus', '2025-03-10', 1000, 'v1'],
+      ['salary', '2025-03-28', 3300, 'v2'], // raise from mid-March, 30 March is a Sunday
+      ['salary', '2025-04-30', 3300, 'v2'],
+    ]);
+  });
+
+  it('includes payouts shifted into the window from the next month', () => {
+    const first = [version('v1', '2025-01-01', { payoutDay: 1 })];
+    // 1 May is a holiday and paid in April, 1 June is a Sunday and paid in May
+    expect(salaryPayouts(first, [], '2025-05-01', '2025-06-01')).toMatchObject([
+      { id: 'salary:v1:2025-06-01', scheduled: '2025-06-01', date: '2025-05-30' },
+    ]);
+  });
+
+  it('pays yearly specials only while employed and one-offs on their date', () => {
+    const specials = [
+      special('s1', {
+        kind: 'THIRTEENTH_SALARY',
+        payoutMonth: 11,
+        payoutDay: 30,
+        businessDayRule: 'PREVIOUS',
+      }),
+      special('s2', { title: 'Projektbonus', amount: 500, payoutDate: '2025-11-05' }),
+      special('s3', { kind: 'HOLIDAY_PAY', amount: 800, payoutMonth: 6, payoutDay: 15 }),
+    ];
+
+    expect(salaryPayouts(versions, specials, '2025-11-01', '2025-12-01')).toMatchObject([
+      { kind: 'special', date: '2025-11-05', amount: 500, title: 'Projektbonus' },
+      { kind: 'salary', date: '2025-11-28', amount: 3300 },
+      { kind: 'special', date: '2025-11-28', amount: 3300, title: '13. Gehalt', salaryId: 'v2' },
+    ]);
+    expect(salaryPayouts(versions, specials, '2024-06-01', '2024-07-01')).toEqual([]);
+  });
+});
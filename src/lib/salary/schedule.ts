@@ -0,0 +1,222 @@
+import {
+  adjustToBusinessDay,
+  BUSINESS_DAY_MAX_SHIFT,
+  type BusinessDayRule,
+} from '@/lib/cashflow/calendar';
+import {
+  addDaysUTC,
+  clampedDateUTC,
+  dateUTC,
+  lastDayOfMonthUTC,
+  monthsInRange,
+} from '@/lib/cashflow/dates';
+
+// Salary payouts from effective-dated versions plus special payments. Pure, so the
+// salary page can show what the plan will contain.
+
+export type SalaryVersion = {
+  id: string;
+  validFrom: string; // valid until the next version starts
+  netAmount: number;
+  payoutDay: number;
+  businessDayRule: BusinessDayRule;
+  yearlyBonusAmount: number | null;
+  yearlyBonusMonth: number | null;
+  yearlyBonusDay: number | null;
+};
+
+export type SalarySpecialPaymentKind = 'THIRTEENTH_SALARY' | 'HOLIDAY_PAY' | 'BONUS';
+
+export const SALARY_SPECIAL_PAYMENT_KINDS = ['THIRTEENTH_SALARY', 'HOLIDAY_PAY', 'BONUS'] as const;
+
+export const SPECIAL_PAYMENT_LABEL: Record<SalarySpecialPaymentKind, string> = {
+  THIRTEENTH_SALARY: '13. Gehalt',
+  HOLIDAY_PAY: 'Urlaubsgeld',
+  BONUS: 'Bonus',
+};
+
+export type SalarySpecialPayment = {
+  id: string;
+  kind: SalarySpecialPaymentKind;
+  title: string;
+  amount: number | null; // null = one monthly net of the version valid on the payout day
+  payoutDate: string | null; // one-off
+  payoutMonth: number | null; // yearly, 1-12
+  payoutDay: number | null;
+  businessDayRule: BusinessDayRule;
+};
+
+export type SalaryPayoutKind = 'salary' | 'yearly_bonus' | 'special';
+
+export type SalaryPayout = {
+  id: string;
+  kind: SalaryPayoutKind;
+  scheduled: string; // before the business-day shift
+  date: string;
+  amount: number;
+  title: string;
+  salaryId: string | null;
+  specialPaymentId: string | null;
+};
+
+export type SalaryRow = {
+  id: string;
+  valid_from: string;
+  net_amount: number;
+  payout_day: number;
+  business_day_rule: BusinessDayRule;
+  yearly_bonus_amount: number | null;
+  yearly_bonus_month: number | null;
+  yearly_bonus_day: number | null;
+};
+
+export type SalarySpecialPaymentRow = {
+  id: string;
+  kind: SalarySpecialPaymentKind;
+  title: string;
+  amount: number | null;
+  payout_date: string | null;
+  payout_month: number | null;
+  payout_day: number | null;
+  business_day_rule: BusinessDayRule;
+};
+
+export function salaryVersionFromRow(row: SalaryRow): SalaryVersion {
+  return {
+    id: row.id,
+    validFrom: row.valid_from.slice(0, 10),
+    netAmount: row.net_amount,
+    payoutDay: row.payout_day,
+    businessDayRule: row.business_day_rule,
+    yearlyBonusAmount: row.yearly_bonus_amount,
+    yearlyBonusMonth: row.yearly_bonus_month,
+    yearlyBonusDay: row.yearly_bonus_day,
+  };
+}
+
+export function specialPaymentFromRow(row: SalarySpecialPaymentRow): SalarySpecialPayment {
+  return {
+    id: row.id,
+    kind: row.kind,
+    title: row.title,
+    amount: row.amount,
+    payoutDate: row.payout_date ? row.payout_date.slice(0, 10) : null,
+    payoutMonth: row.payout_month,
+    payoutDay: row.payout_day,
+    businessDayRule: row.business_day_rule,
+  };
+}
+
+/**
+ * Version in effect on `date`: the latest one that started on or before it.
+ */
+export function salaryVersionOn(versions: SalaryVersion[], date: string): SalaryVersion | null {
+  let found: SalaryVersion | null = null;
+  for (const v of versions) {
+    if (v.validFrom <= date && (!found || v.validFrom > found.validFrom)) found = v;
+  }
+  return found;
+}
+
+function specialTitle(p: SalarySpecialPayment) {
+  return p.title.trim() || SPECIAL_PAYMENT_LABEL[p.kind];
+}
+
+/**
+ * All payouts whose (business-day adjusted) date lies in [startDate, endDateExclusive).
+ * A month's salary comes from the version valid on the month's last day, so a raise
+ * or a new job starting mid-month already counts for that month.
+ */
+export function salaryPayouts(
+  versions: SalaryVersion[],
+  specials: SalarySpecialPayment[],
+  startDate: string,
+  endDateExclusive: string,
+): SalaryPayout[] {
+  const inRange = (d: string) => d >= startDate && d < endDateExclusive;
+  const out: SalaryPayout[] = [];
+
+  // a payout on a weekend/holiday may move into the neighbouring month
+  const months = monthsInRange(
+    addDaysUTC(startDate, -BUSINESS_DAY_MAX_SHIFT),
+    addDaysUTC(endDateExclusive, BUSINESS_DAY_MAX_SHIFT),
+  );
+  const years = Array.from(new Set(months.map((m) => Number(m.slice(0, 4)))));
+
+  for (const month of months) {
+    const [y, m] = month.split('-').map(Number);
+    const v = salaryVersionOn(versions, dateUTC(y, m - 1, lastDayOfMonthUTC(y, m - 1)));
+    if (!v) continue;
+
+    const scheduled = clampedDateUTC(y, m - 1, v.payoutDay);
+    const date = adjustToBusinessDay(scheduled, v.businessDayRule);
+    if (!inRange(date)) continue;
+
+    out.push({
+      id: `salary:${v.id}:${scheduled}`,
+      kind: 'salary',
+      scheduled,
+      date,
+      amount: v.netAmount,
+      title: 'Gehalt',
+      salaryId: v.id,
+      specialPaymentId: null,
+    });
+  }
+
+  // yearly bonus configured on the version valid on its payout day
+  for (const y of years) {
+    for (const v of versions) {
+      if (!v.yearlyBonusAmount || !v.yearlyBonusMonth || !v.yearlyBonusDay) continue;
+      const scheduled = clampedDateUTC(y, v.yearlyBonusMonth - 1, v.yearlyBonusDay);
+      if (salaryVersionOn(versions, scheduled)?.id !== v.id) continue;
+
+      const date = adjustToBusinessDay(scheduled, v.businessDayRule);
+      if (!inRange(date)) continue;
+
+      out.push({
+        id: `salary-bonus:${v.id}:${scheduled}`,
+        kind: 'yearly_bonus',
+        scheduled,
+        date,
+        amount: v.yearlyBonusAmount,
+        title: 'Jahresbonus',
+        salaryId: v.id,
+        specialPaymentId: null,
+      });
+    }
+  }
+
+  // special payments: one-offs on their date, yearly ones while a salary is paid
+  for (const p of specials) {
+    const dates = p.payoutDate
+      ? [p.payoutDate]
+      : p.payoutMonth && p.payoutDay
+        ? years.map((y) => clampedDateUTC(y, (p.payoutMonth as number) - 1, p.payoutDay as number))
+        : [];
+
+    for (const scheduled of dates) {
+      const v = salaryVersionOn(versions, scheduled);
+      if (!p.payoutDate && !v) continue;
+
+      const amount = p.amount ?? v?.netAmount ?? null;
+      if (amount === null) continue;
+
+      const date = adjustToBusinessDay(scheduled, p.businessDayRule);
+      if (!inRange(date)) continue;
+
+      out.push({
+        id: `salary-special:${p.id}:${scheduled}`,
+        kind: 'special',
+        scheduled,
+        date,
+        amount,
+        title: specialTitle(p),
+        salaryId: v?.id ?? null,
+        specialPaymentId: p.id,
+      });
+    }
+  }
+
+  return out.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
@@ -0,0 +1,72 @@
+import type { Pool, PoolClient } from 'pg';
+import {
+  salaryVersionFromRow,
+  specialPaymentFromRow,
+  type SalaryRow,
+  type SalarySpecialPayment,
+  type SalarySpecialPaymentRow,
+  type SalaryVersion,
+} from './schedule';
+
+type Db = Pool | PoolClient;
+
+export const SALARY_COLUMNS = `
+  id,
+  user_id,
+  profile_id,
+  valid_from::text AS valid_from,
+  net_amount::float8 AS net_amount,
+  gross_amount::float8 AS gross_amount,
+  payout_day,
+  business_day_rule,
+  yearly_bonus_amount::float8 AS yearly_bonus_amount,
+  yearly_bonus_month,
+  yearly_bonus_day,
+  payroll,
+  currency,
+  is_active,
+  created_at,
+  updated_at`;
+
+export const SPECIAL_PAYMENT_COLUMNS = `
+  id,
+  user_id,
+  kind,
+  title,
+  amount::float8 AS amount,
+  payout_date::text AS payout_date,
+  payout_month,
+  payout_day,
+  business_day_rule,
+  created_at,
+  updated_at`;
+
+/**
+ * Active salary versions, oldest first.
+ */
+export async function loadSalaryVersions(db: Db, userId: string): Promise<SalaryVersion[]> {
+  const r = await db.query(
+    `SELECT ${SALARY_COLUMNS}
+     FROM salary_settings
+     WHERE user_id = $1 AND is_active = true
+     ORDER BY valid_from ASC`,
+    [userId],
+  );
+
+  return (r.rows as SalaryRow[]).map(salaryVersionFromRow);
+}
+
+export async function loadSalarySpecialPayments(
+  db: Db,
+  userId: string,
+): Promise<SalarySpecialPayment[]> {
+  const r = await db.query(
+    `SELECT ${SPECIAL_PAYMENT_COLUMNS}
+     FROM salary_special_payments
+     WHERE user_id = $1
+     ORDER BY created_at ASC`,
+    [userId],
+  );
+
+  return (r.rows as SalarySpecialPaymentRow[]).map(specialPaymentFromRow);
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDatevRows,
+  datevExtf,
+  datevFiscalYear,
+  DEFAULT_DATEV_SETTINGS,
+  inOneFiscalYear,
+  type DatevSettings,
+  type DatevTransaction,
+} from './datev';
+
+const settings: DatevSettings = {
+  ...DEFAULT_DATEV_SETTINGS,
+  moneyAccounts: { giro: '1200', savings: '1210' },
+  categories: { Software: '4964', Umsatz: '8400' },
+};
+
+const tx = (
+  id: string,
+  amount: number,
+  fields: Partial<DatevTransaction> = {},
+): DatevTransaction => ({
+  id,
+  txDate: '2025-03-15',
+  amount,
+  description: id,
+  category: null,
+  accountId: 'giro',
+  vatCode: null,
+  transfer: false,
+  transferAccountId: null,
+  invoiceNumber: null,
+  ...fields,
+});
+
+const pick = (rows: ReturnType<typeof buildDatevRows>['rows']) =>
+  rows.map((r) => [r.amount, r.side, r.account, r.contraAccount, r.buKey]);
+
+describe('datevFiscalYear', () => {
+  it('starts in the configured month', () => {
+    expect(datevFiscalYear('2025-03-15', 1)).toEqual({
+      startDate: '2025-01-01',
+      endDateExclusive: '2026-01-01',
+    });
+    expect(datevFiscalYear('2025-03-15', 7)).toEqual({
+      startDate: '2024-07-01',
+      endDateExclusive: '2025-07-01',
+    });
+    expect(inOneFiscalYear('2025-01-01', '2025-06-30', 7)).toBe(true);
+    expect(inOneFiscalYear('2025-06-01', '2025-07-31', 7)).toBe(false);
+  });
+});
+
+describe('buildDatevRows', () => {
+  it('books transactions against their category account with the VAT key', () => {
+    const { rows, missing } = buildDatevRows(
+      [
+        tx('software', -119, { category: 'Software', vatCode: 'standard' }),
+        tx('sale', 1190, { category: 'Umsatz', vatCode: 'standard' }),
+        tx('paid privately', -30, { category: 'Software', vatCode: 'standard', accountId: 'cash' }),
+        tx('unmapped', -50, { category: 'Sonstiges' }),
+      ],
+      [],
+      settings,
+    );
+
+    expect(pick(rows)).toEqual([
+      [119, 'H', '1200', '4964', '9'],
+      [1190, 'S', '1200', '8400', '3'],
+      [30, 'H', '1890', '4964', '9'], // Privateinlage
+    ]);
+    expect(missing.map((m) => m.id)).toEqual(['unmapped']);
+  });
+
+  it('books transfers between business accounts once and private ones as withdrawals', () => {
+    const { rows } = buildDatevRows(
+      [
+        tx('out', -100, { transfer: true, transferAccountId: 'savings' }),
+        tx('in', 100, { transfer: true, accountId: 'savings', transferAccountId: 'giro' }),
+        tx('private', -500, { transfer: true, transferAccountId: 'private' }),
+      ],
+      [],
+      settings,
+    );
+    expect(pick(rows)).toEqual([
+      [100, 'S', '1210', '1200', ''],
+      [500, 'H', '1200', '1800', ''],
+    ]);
+  });
+
+  it('books invoices as receivables and their payments against them', () => {
+    const withInvoices = { ...settings, includeInvoices: true };
+    const invoices = [
+      {
+        id: 'i1',
+        number: 'RE-2025-001',
+        issueDate: '2025-03-01',
+        customerName: 'Kunde GmbH',
+        amounts: [{ code: 'standard' as const, gross: 119 }],
+      },
+    ];
+    const payment = tx('payment', 119, { category: 'Umsatz', invoiceNumber: 'RE-2025-001' });
+
+    const { rows } = buildDatevRows([payment], invoices, withInvoices);
+    expect(pick(rows)).toEqual([
+      [119, 'S', '1400', '8200', '3'],
+      [119, 'S', '1200', '1400', ''],
+    ]);
+    expect(rows[0].text).toBe('Rechnung RE-2025-001 Kunde GmbH');
+
+    // no BU key on a revenue account with VAT automatic
+    const automatic = buildDatevRows([], invoices, { ...withInvoices, revenueAccount: '8400' });
+    expect(pick(automatic.rows)).toEqual([[119, 'S', '1400', '8400', '']]);
+  });
+});
+
+describe('datevExtf', () => {
+  it('writes the EXTF header and rows in Windows-1252', () => {
+    const consultant = { ...settings, consultantNumber: '1234567', clientNumber: '42' };
+    const { rows } = buildDatevRows(
+      [
+        tx('Lizenz "Pro" 50 €', -119, {
+          category: 'Software',
+          vatCode: 'standard',
+          invoiceNumber: 'INV 2025_7',
+        }),
+      ],
+      [],
+      consultant,
+    );
+    const file = datevExtf(rows, consultant, {
+      startDate: '2025-03-01',
+      endDateExclusive: '2025-04-01',
+      createdAt: new Date(Date.UTC(2025, 3, 2, 8, 30, 5, 7)),
+      label: 'Buchungen März 2025',
+    });
+    const lines = file.toString('latin1').split('\r\n');
+
+    expect(lines[0].split(';').slice(0, 17)).toEqual([
+      '"EXTF"',
+      '700',
+      '21',
+      '"Buchungsstapel"',
+      '13',
+      '20250402083005007',
+      '',
+      '"RE"',
+      '""',
+      '""',
+      '1234567',
+      '42',
+      '20250101',
+      '4',
+      '20250301',
+      '20250331',
+      '"Buchungen März 2025"',
+    ]);
+    expect(lines[2]).toBe(
+      '119,00;"H";"EUR";;;"";1200;4964;"9";1503;"INV20257";"";;"Lizenz ""Pro"" 50 \u0080"',
+    );
+    expect(lines[3]).toBe('');
+  });
+});
@@ -0,0 +1,427 @@
+import { z } from 'zod';
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import type { VatCode } from './vat';
+
+// DATEV-Format (EXTF, Buchungsstapel) for the tax advisor: every booking of a
+// business money account, business bookings paid privately and, if wanted,
+// issued invoices. Each row books the money account (Konto) against the account
+// of the transaction's category (Gegenkonto); the BU key carries the VAT.
+
+export const DATEV_CHARTS = ['SKR03', 'SKR04'] as const;
+
+export type DatevChart = (typeof DATEV_CHARTS)[number];
+
+export const DATEV_CHART_LABEL: Record<DatevChart, string> = {
+  SKR03: 'SKR 03',
+  SKR04: 'SKR 04',
+};
+
+export type DatevFixedAccounts = {
+  bank: string;
+  revenue: string; // Erlöse without VAT automatic; the BU key carries the rate
+  receivables: string; // Forderungen aus Lieferungen und Leistungen
+  privateWithdrawal: string; // Privatentnahmen
+  privateDeposit: string; // Privateinlagen
+};
+
+// standard accounts of the charts, used where the settings leave them empty
+export const DATEV_CHART_ACCOUNTS: Record<DatevChart, DatevFixedAccounts> = {
+  SKR03: {
+    bank: '1200',
+    revenue: '8200',
+    receivables: '1400',
+    privateWithdrawal: '1800',
+    privateDeposit: '1890',
+  },
+  SKR04: {
+    bank: '1800',
+    revenue: '4200',
+    receivables: '1200',
+    privateWithdrawal: '2100',
+    privateDeposit: '2180',
+  },
+};
+
+// revenue accounts with VAT automatic (Erlöse 7 %/19 %): a BU key on them is
+// rejected by DATEV or books the VAT twice
+export const DATEV_AUTOMATIC_REVENUE_ACCOUNTS: Record<DatevChart, string[]> = {
+  SKR03: ['8300', '8400'],
+  SKR04: ['4300', '4400'],
+};
+
+export const DATEV_BU_KEY_NAMES = [
+  'saleStandard',
+  'saleReduced',
+  'purchaseStandard',
+  'purchaseReduced',
+  'reverseCharge',
+] as const;
+
+export type DatevBuKeyName = (typeof DATEV_BU_KEY_NAMES)[number];
+
+export const DATEV_BU_KEY_LABEL: Record<DatevBuKeyName, string> = {
+  saleStandard: 'Umsatzsteuer 19 %',
+  saleReduced: 'Umsatzsteuer 7 %',
+  purchaseStandard: 'Vorsteuer 19 %',
+  purchaseReduced: 'Vorsteuer 7 %',
+  reverseCharge: 'Reverse Charge (§ 13b UStG) 19 %',
+};
+
+export const DEFAULT_DATEV_BU_KEYS: Record<DatevBuKeyName, string> = {
+  saleStandard: '3',
+  saleReduced: '2',
+  purchaseStandard: '9',
+  purchaseReduced: '8',
+  reverseCharge: '94',
+};
+
+const LedgerAccount = z.string().regex(/^\d{4,9}$/);
+const BuKey = z.string().regex(/^\d{0,4}$/);
+
+/**
+ * DATEV settings, one set per user (tax_settings.datev). Empty fixed accounts
+ * fall back to the chart's standard accounts.
+ */
+export const DatevSettingsSchema = z.object({
+  consultantNumber: z
+    .string()
+    .regex(/^\d{4,7}$/)
+    .nullable()
+    .default(null), // Beraternummer
+  clientNumber: z
+    .string()
+    .regex(/^\d{1,5}$/)
+    .nullable()
+    .default(null), // Mandantennummer
+  chart: z.enum(DATEV_CHARTS).default('SKR03'),
+  accountLength: z.number().int().min(4).max(8).default(4), // Sachkontenlänge
+  fiscalYearStart: z.number().int().min(1).max(12).default(1), // month the fiscal year begins
+  includeInvoices: z.boolean().default(false), // book invoices as receivables when issued
+  includeTaxRelevant: z.boolean().default(false), // private, tax relevant bookings
+  moneyAccounts: z.record(z.string().uuid(), LedgerAccount).default({}),
+  categories: z.record(z.string(), LedgerAccount).default({}),
+  revenueAccount: LedgerAccount.nullable().default(null),
+  receivablesAccount: LedgerAccount.nullable().default(null),
+  privateWithdrawalAccount: LedgerAccount.nullable().default(null),
+  privateDepositAccount: LedgerAccount.nullable().default(null),
+  buKeys: z
+    .object({
+      saleStandard: BuKey,
+      saleReduced: BuKey,
+      purchaseStandard: BuKey,
+      purchaseReduced: BuKey,
+      reverseCharge: BuKey,
+    })
+    .default(DEFAULT_DATEV_BU_KEYS),
+});
+
+export type DatevSettings = z.output<typeof DatevSettingsSchema>;
+
+export const DEFAULT_DATEV_SETTINGS: DatevSettings = DatevSettingsSchema.parse({});
+
+export function datevFixedAccounts(settings: DatevSettings): Omit<DatevFixedAccounts, 'bank'> {
+  const chart = DATEV_CHART_ACCOUNTS[settings.chart];
+  return {
+    revenue: settings.revenueAccount ?? chart.revenue,
+    receivables: settings.receivablesAccount ?? chart.receivables,
+    privateWithdrawal: settings.privateWithdrawalAccount ?? chart.privateWithdrawal,
+    privateDeposit: settings.privateDepositAccount ?? chart.privateDeposit,
+  };
+}
+
+/* ---------------- fiscal year ---------------- */
+
+/**
+ * Fiscal year containing a date: [startDate, endDateExclusive).
+ */
+export function datevFiscalYear(date: string, startMonth: number) {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  const startYear = month >= startMonth ? year : year - 1;
+  const mm = String(startMonth).padStart(2, '0');
+  return {
+    startDate: `${startYear}-${mm}-01`,
+    endDateExclusive: `${startYear + 1}-${mm}-01`,
+  };
+}
+
+// a Buchungsstapel must not span fiscal years
+export function inOneFiscalYear(startDate: string, endDate: string, startMonth: number) {
+  return datevFiscalYear(startDate, startMonth).endDateExclusive > endDate;
+}
+
+/* ---------------- bookings ---------------- */
+
+export type DatevTransaction = {
+  id: string;
+  txDate: string;
+  amount: number; // signed
+  description: string;
+  category: string | null;
+  accountId: string;
+  vatCode: VatCode | null;
+  transfer: boolean;
+  transferAccountId: string | null; // account of the other leg
+  invoiceNumber: string | null; // invoice this booking pays ('' when it has no number)
+};
+
+export type DatevInvoice = {
+  id: string;
+  number: string; // '' when entered without number
+  issueDate: string;
+  customerName: string;
+  // gross amounts by VAT code
+  amounts: Array<{ code: VatCode | null; gross: number }>;
+};
+
+export type DatevRow = {
+  amount: number; // positive
+  side: 'S' | 'H'; // Soll/Haben of Konto
+  account: string; // Konto
+  contraAccount: string; // Gegenkonto
+  buKey: string;
+  date: string;
+  document: string; // Belegfeld 1
+  text: string;
+};
+
+export type DatevMissing = {
+  id: string;
+  txDate: string;
+  description: string;
+  category: string | null;
+  amount: number;
+};
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+function buKey(settings: DatevSettings, code: VatCode | null, sale: boolean) {
+  const k = settings.buKeys;
+  switch (code) {
+    case 'standard':
+      return sale ? k.saleStandard : k.purchaseStandard;
+    case 'reduced':
+      return sale ? k.saleReduced : k.purchaseReduced;
+    case 'reverse_charge':
+      // the supplier owes no VAT on reverse charge sales
+      return sale ? '' : k.reverseCharge;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Buchungsstapel rows of the transactions and invoices. Transactions whose
+ * category has no account yet are left out and returned as missing.
+ */
+export function buildDatevRows(
+  transactions: DatevTransaction[],
+  invoices: DatevInvoice[],
+  settings: DatevSettings,
+): { rows: DatevRow[]; missing: DatevMissing[] } {
+  const fixed = datevFixedAccounts(settings);
+  const rows: DatevRow[] = [];
+  const missing: DatevMissing[] = [];
+
+  const revenueBuKey = (code: VatCode | null) =>
+    DATEV_AUTOMATIC_REVENUE_ACCOUNTS[settings.chart].includes(fixed.revenue)
+      ? ''
+      : buKey(settings, code, true);
+
+  for (const inv of invoices) {
+    for (const a of inv.amounts) {
+      if (Math.abs(a.gross) < 0.005) continue;
+      rows.push({
+        amount: round2(Math.abs(a.gross)),
+        side: a.gross > 0 ? 'S' : 'H',
+        account: fixed.receivables,
+        contraAccount: fixed.revenue,
+        buKey: revenueBuKey(a.code),
+        date: inv.issueDate,
+        document: inv.number,
+        text: ['Rechnung', inv.number, inv.customerName].filter(Boolean).join(' '),
+      });
+    }
+  }
+
+  for (const t of transactions) {
+    const money = settings.moneyAccounts[t.accountId];
+    const side = t.amount > 0 ? 'S' : 'H';
+    const base = {
+      amount: round2(Math.abs(t.amount)),
+      side,
+      date: t.txDate,
+      document: t.invoiceNumber ?? '',
+      text: t.description,
+    } as const;
+
+    if (t.transfer) {
+      if (!money) continue;
+      const other = t.transferAccountId ? settings.moneyAccounts[t.transferAccountId] : undefined;
+      // between two business accounts: booked once, from the receiving side
+      if (other && t.amount < 0) continue;
+      rows.push({
+        ...base,
+        account: money,
+        contraAccount: other ?? (t.amount < 0 ? fixed.privateWithdrawal : fixed.privateDeposit),
+        buKey: '',
+      });
+      continue;
+    }
+
+    // paid from or into a private account: a deposit or withdrawal of the owner
+    const account = money ?? (t.amount < 0 ? fixed.privateDeposit : fixed.privateWithdrawal);
+
+    if (settings.includeInvoices && t.invoiceNumber !== null) {
+      rows.push({ ...base, account, contraAccount: fixed.receivables, buKey: '' });
+      continue;
+    }
+
+    const contra = t.category ? settings.categories[t.category] : undefined;
+    if (!contra) {
+      missing.push({
+        id: t.id,
+        txDate: t.txDate,
+        description: t.description,
+        category: t.category,
+        amount: t.amount,
+      });
+      continue;
+    }
+    rows.push({
+      ...base,
+      account,
+      contraAccount: contra,
+      buKey: buKey(settings, t.vatCode, t.amount > 0),
+    });
+  }
+
+  rows.sort((a, b) => a.date.localeCompare(b.date));
+  return { rows, missing };
+}
+
+/* ---------------- EXTF file ---------------- */
+
+// the leading columns of the Buchungsstapel; DATEV accepts the rest left out
+const COLUMNS = [
+  'Umsatz (ohne Soll/Haben-Kz)',
+  'Soll/Haben-Kennzeichen',
+  'WKZ Umsatz',
+  'Kurs',
+  'Basis-Umsatz',
+  'WKZ Basis-Umsatz',
+  'Konto',
+  'Gegenkonto (ohne BU-Schlüssel)',
+  'BU-Schlüssel',
+  'Belegdatum',
+  'Belegfeld 1',
+  'Belegfeld 2',
+  'Skonto',
+  'Buchungstext',
+];
+
+const text = (value: string, max: number) => `"${value.slice(0, max).replace(/"/g, '""')}"`;
+const ymd = (date: string) => date.replace(/-/g, '');
+
+// Belegfeld 1 allows letters, digits and $&%*+-/ only
+const documentField = (value: string) => value.replace(/[^A-Za-z0-9$&%*+\-/]/g, '').slice(0, 36);
+
+function timestamp(d: Date) {
+  const p = (n: number, len = 2) => String(n).padStart(len, '0');
+  return (
+    `${d.getUTCFullYear()}${p(d.getUTCMonth() + 1)}${p(d.getUTCDate())}` +
+    `${p(d.getUTCHours())}${p(d.getUTCMinutes())}${p(d.getUTCSeconds())}${p(d.getUTCMilliseconds(), 3)}`
+  );
+}
+
+/**
+ * EXTF Buchungsstapel (format version 13) for [startDate, endDateExclusive),
+ * which must lie within one fiscal year. Windows-1252 encoded, as DATEV reads it.
+ */
+export function datevExtf(
+  rows: DatevRow[],
+  settings: DatevSettings,
+  opts: { startDate: string; endDateExclusive: string; createdAt: Date; label: string },
+): Buffer {
+  const fiscalYear = datevFiscalYear(opts.startDate, settings.fiscalYearStart);
+  const header = [
+    '"EXTF"',
+    '700',
+    '21',
+    '"Buchungsstapel"',
+    '13',
+    timestamp(opts.createdAt),
+    '',
+    '"RE"',
+    '""',
+    '""',
+    settings.consultantNumber ?? '',
+    settings.clientNumber ?? '',
+    ymd(fiscalYear.startDate),
+    String(settings.accountLength),
+    ymd(opts.startDate),
+    ymd(addDaysUTC(opts.endDateExclusive, -1)),
+    text(opts.label, 30),
+    '""',
+    '1', // Finanzbuchführung
+    '0',
+    '0', // not locked (Festschreibung)
+    '"EUR"',
+    '',
+    '""',
+    '',
+    '',
+    `"${settings.chart.slice(3)}"`,
+    '',
+    '',
+    '""',
+    '""',
+  ];
+
+  const lines = [header.join(';'), COLUMNS.join(';')];
+  for (const r of rows) {
+    lines.push(
+      [
+        r.amount.toFixed(2).replace('.', ','),
+        `"${r.side}"`,
+        '"EUR"',
+        '',
+        '',
+        '""',
+        r.account,
+        r.contraAccount,
+        r.buKey ? `"${r.buKey}"` : '""',
+        `${r.date.slice(8, 10)}${r.date.slice(5, 7)}`,
+        text(documentField(r.document), 36),
+        '""',
+        '',
+        text(r.text, 60),
+      ].join(';'),
+    );
+  }
+  return encodeWindows1252(`${lines.join('\r\n')}\r\n`);
+}
+
+// Unicode -> Windows-1252 for characters outside Latin-1; anything else becomes '?'
+const CP1252: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+function encodeWindows1252(value: string) {
+  const bytes: number[] = [];
+  for (const ch of value) {
+    const code = ch.codePointAt(0) ?? 0x3f;
+    bytes.push(CP1252[ch] ?? (code <= 0xff ? code : 0x3f));
+  }
+  return Buffer.from(bytes);
+}
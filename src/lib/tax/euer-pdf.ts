@@ -0,0 +1,101 @@
+import {
+  assemblePdf,
+  dateDE,
+  MARGIN,
+  money,
+  PAGE_W,
+  PageWriter,
+  paragraphs,
+  pdfString,
+  textWidth,
+} from '@/lib/invoices/pdf';
+import { EUER_LINES, EUER_TOTAL_KZ, type EuerReport } from './euer';
+
+// cut to the column width, with an ellipsis
+function fit(text: string, width: number, size: number) {
+  if (textWidth(text, size) <= width) return text;
+  let t = text;
+  while (t.length > 1 && textWidth(`${t}…`, size) > width) t = t.slice(0, -1);
+  return `${t}…`;
+}
+
+function layout(report: EuerReport, profileName: string, date: string): string[][] {
+  const w = new PageWriter();
+  const right = PAGE_W - MARGIN;
+
+  w.text(MARGIN, w.y, `Einnahmen-Überschuss-Rechnung ${report.year}`, 16, true);
+  w.y -= 18;
+  w.text(MARGIN, w.y, profileName, 10);
+  w.right(right, w.y, `Zeitraum 01.01.${report.year} – 31.12.${report.year}`, 9);
+  w.y -= 30;
+
+  const row = (kz: string, label: string, amount: number, bold = false) => {
+    w.ensure(14);
+    w.text(MARGIN, w.y, kz, 9, bold);
+    w.text(MARGIN + 40, w.y, fit(label, right - MARGIN - 160, 9), 9, bold);
+    w.right(right, w.y, money(amount), 9, bold);
+    w.y -= 14;
+  };
+  const section = (title: string, side: 'income' | 'expense', kz: string, total: number) => {
+    w.ensure(40);
+    w.text(MARGIN, w.y, title, 11, true);
+    w.y -= 16;
+    for (const l of report.lines) {
+      if (l.side === side && l.count > 0) row(l.kz, l.label, l.amount);
+    }
+    w.line(MARGIN, w.y + 10, right, w.y + 10);
+    w.y -= 2;
+    row(kz, `Summe ${title}`, total, true);
+    w.y -= 14;
+  };
+
+  section('Betriebseinnahmen', 'income', EUER_TOTAL_KZ.income, report.income);
+  section('Betriebsausgaben', 'expense', EUER_TOTAL_KZ.expenses, report.expenses);
+  row(EUER_TOTAL_KZ.profit, report.profit < 0 ? 'Verlust' : 'Gewinn', report.profit, true);
+  w.y -= 14;
+
+  const notes = [
+    'Zuflussprinzip (§ 11 EStG): maßgeblich ist das Buchungsdatum. Umsatzsteuer und Vorsteuer sind gesondert ausgewiesen.',
+  ];
+  if (report.unassigned.length > 0) {
+    notes.push(
+      `${report.unassigned.length} Buchungen ohne zugeordnete Kategorie sind nicht enthalten.`,
+    );
+  }
+  paragraphs(w, notes);
+  w.y -= 10;
+
+  // journal
+  w.ensure(40);
+  w.text(MARGIN, w.y, 'Buchungen', 11, true);
+  w.y -= 16;
+  for (const p of report.postings) {
+    w.ensure(12);
+    w.text(MARGIN, w.y, dateDE(p.txDate), 8);
+    w.text(MARGIN + 50, w.y, fit(p.description, 250, 8), 8);
+    w.text(MARGIN + 310, w.y, fit(p.category ?? '', 90, 8), 8);
+    w.text(MARGIN + 405, w.y, EUER_LINES[p.key].kz, 8);
+    w.right(right, w.y, money(p.amount), 8);
+    w.y -= 12;
+  }
+
+  // generation date and page numbers on every page
+  const stamp = `Erstellt am ${dateDE(date)}`;
+  w.pages.forEach((ops, i) => {
+    const pageNo = `Seite ${i + 1} von ${w.pages.length}`;
+    ops.push(`0.5 w ${MARGIN} ${MARGIN + 30} m ${right.toFixed(2)} ${MARGIN + 30} l S`);
+    ops.push(`BT /F1 7 Tf ${MARGIN} ${MARGIN + 18} Td ${pdfString(stamp)} Tj ET`);
+    ops.push(
+      `BT /F1 7 Tf ${(right - textWidth(pageNo, 7)).toFixed(2)} ${MARGIN + 18} Td ${pdfString(pageNo)} Tj ET`,
+    );
+  });
+  return w.pages;
+}
+
+export function renderEuerPdf(report: EuerReport, profileName: string, date: string): Buffer {
+  return assemblePdf(layout(report, profileName, date), {
+    title: `Einnahmen-Überschuss-Rechnung ${report.year}`,
+    author: profileName,
+    date,
+  });
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildEuer, euerCsv, suggestEuerTarget, type EuerBooking } from './euer';
+
+const booking = (
+  id: string,
+  category: string | null,
+  amount: number,
+  split: Partial<Pick<EuerBooking, 'sales' | 'net' | 'vat'>> = {},
+): EuerBooking => ({
+  id,
+  txDate: '2025-03-01',
+  description: id,
+  category,
+  accountName: 'Geschäftskonto',
+  amount,
+  sales: [],
+  net: amount,
+  vat: 0,
+  ...split,
+});
+
+const bookings = [
+  booking('invoice', 'Umsatz', 1190, {
+    sales: [{ net: 1000, vat: 190, taxFree: false }],
+    net: 0,
+  }),
+  booking('rent', 'Miete', -595, { net: -500, vat: -95 }),
+  booking('ustva', 'Umsatzsteuer', -300),
+  booking('private', 'Privat', -100),
+  booking('unknown', null, -50),
+];
+const categories = { Miete: 'rent', Umsatzsteuer: 'vat_to_office', Privat: 'none' } as const;
+
+describe('buildEuer', () => {
+  it('puts net amounts and VAT on their own lines', () => {
+    const report = buildEuer(2025, bookings, categories);
+    const amounts = Object.fromEntries(
+      report.lines.filter((l) => l.count > 0).map((l) => [l.kz, l.amount]),
+    );
+
+    expect(amounts).toEqual({
+      '112': 1000, // revenue
+      '140': 190, // VAT received
+      '150': 500, // rent
+      '185': 95, // input tax
+      '186': 300, // VAT paid to the tax office
+    });
+    expect(report).toMatchObject({ income: 1190, expenses: 895, profit: 295 });
+  });
+
+  it('leaves private and unmapped bookings out of the totals', () => {
+    const report = buildEuer(2025, bookings, categories);
+    expect(report.excluded).toEqual({ count: 1, amount: -100 });
+    expect(report.unassigned.map((b) => b.id)).toEqual(['unknown']);
+    expect(report.categories.find((c) => c.category === 'Umsatz')).toBeUndefined();
+  });
+});
+
+describe('suggestEuerTarget', () => {
+  it('maps category names to lines', () => {
+    expect(suggestEuerTarget('Miete Büro')).toBe('rent');
+    expect(suggestEuerTarget('Bürobedarf')).toBe('other');
+    expect(suggestEuerTarget('Steuerberatung')).toBe('advisory');
+    expect(suggestEuerTarget('Einkommensteuer')).toBe('none');
+    expect(suggestEuerTarget('Sonstiges')).toBeNull();
+  });
+});
+
+describe('euerCsv', () => {
+  it('writes lines, totals and postings with decimal commas', () => {
+    const csv = euerCsv(buildEuer(2025, bookings, categories), 'Studio; Nord');
+    const lines = csv.split('\r\n');
+    expect(lines[0]).toBe('\uFEFFEinnahmen-Überschuss-Rechnung 2025;"Studio; Nord"');
+    expect(lines).toContain('112;Umsatzsteuerpflichtige Betriebseinnahmen;1000,00');
+    expect(lines).toContain('219;Gewinn/Verlust;295,00');
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
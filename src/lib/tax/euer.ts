@@ -0,0 +1,360 @@
+import { z } from 'zod';
+
+// Einnahmen-Überschuss-Rechnung (§ 4 Abs. 3 EStG) of a self-employed profile:
+// the business bookings of a calendar year on the lines of the Anlage EÜR, by
+// the category of each booking. Payments of the profile's invoices are revenue
+// whatever their category. VAT is kept on its own lines, as the form asks: VAT
+// received and input tax paid, VAT paid to and refunded by the tax office.
+
+export const EUER_LINE_KEYS = [
+  'revenue',
+  'revenue_tax_free',
+  'vat_received',
+  'vat_refund',
+  'asset_sale',
+  'goods',
+  'subcontractors',
+  'staff',
+  'low_value_assets',
+  'rent',
+  'leasing',
+  'telecom',
+  'it',
+  'travel',
+  'training',
+  'advisory',
+  'insurance',
+  'advertising',
+  'vat_paid',
+  'vat_to_office',
+  'other',
+] as const;
+
+export type EuerLineKey = (typeof EUER_LINE_KEYS)[number];
+
+export type EuerLineDef = {
+  kz: string; // Kennzahl of the Anlage EÜR
+  label: string;
+  side: 'income' | 'expense';
+  vat: boolean; // VAT line: bookings land here gross
+};
+
+export const EUER_LINES: Record<EuerLineKey, EuerLineDef> = {
+  revenue: {
+    kz: '112',
+    label: 'Umsatzsteuerpflichtige Betriebseinnahmen',
+    side: 'income',
+    vat: false,
+  },
+  revenue_tax_free: {
+    kz: '103',
+    label: 'Umsatzsteuerfreie und nicht steuerbare Betriebseinnahmen',
+    side: 'income',
+    vat: false,
+  },
+  vat_received: { kz: '140', label: 'Vereinnahmte Umsatzsteuer', side: 'income', vat: true },
+  vat_refund: {
+    kz: '141',
+    label: 'Vom Finanzamt erstattete Umsatzsteuer',
+    side: 'income',
+    vat: true,
+  },
+  asset_sale: {
+    kz: '102',
+    label: 'Veräußerung oder Entnahme von Anlagevermögen',
+    side: 'income',
+    vat: false,
+  },
+  goods: { kz: '100', label: 'Waren, Roh- und Hilfsstoffe', side: 'expense', vat: false },
+  subcontractors: { kz: '110', label: 'Bezogene Fremdleistungen', side: 'expense', vat: false },
+  staff: { kz: '120', label: 'Ausgaben für eigenes Personal', side: 'expense', vat: false },
+  low_value_assets: {
+    kz: '132',
+    label: 'Geringwertige Wirtschaftsgüter',
+    side: 'expense',
+    vat: false,
+  },
+  rent: { kz: '150', label: 'Miete/Pacht für Geschäftsräume', side: 'expense', vat: false },
+  leasing: {
+    kz: '222',
+    label: 'Miete/Leasing für bewegliche Wirtschaftsgüter',
+    side: 'expense',
+    vat: false,
+  },
+  telecom: { kz: '280', label: 'Telekommunikation', side: 'expense', vat: false },
+  it: { kz: '228', label: 'Laufende EDV-Kosten', side: 'expense', vat: false },
+  travel: {
+    kz: '221',
+    label: 'Übernachtungs- und Reisenebenkosten',
+    side: 'expense',
+    vat: false,
+  },
+  training: { kz: '281', label: 'Fortbildungskosten', side: 'expense', vat: false },
+  advisory: {
+    kz: '194',
+    label: 'Rechts- und Steuerberatung, Buchführung',
+    side: 'expense',
+    vat: false,
+  },
+  insurance: {
+    kz: '223',
+    label: 'Beiträge, Gebühren, Abgaben und Versicherungen',
+    side: 'expense',
+    vat: false,
+  },
+  advertising: { kz: '224', label: 'Werbekosten', side: 'expense', vat: false },
+  vat_paid: { kz: '185', label: 'Gezahlte Vorsteuerbeträge', side: 'expense', vat: true },
+  vat_to_office: {
+    kz: '186',
+    label: 'An das Finanzamt gezahlte Umsatzsteuer',
+    side: 'expense',
+    vat: true,
+  },
+  other: {
+    kz: '183',
+    label: 'Übrige unbeschränkt abziehbare Betriebsausgaben',
+    side: 'expense',
+    vat: false,
+  },
+};
+
+// where a category goes: a line, or 'none' for bookings outside the EÜR (private)
+export const EUER_TARGETS = [...EUER_LINE_KEYS, 'none'] as const;
+
+export type EuerTarget = (typeof EUER_TARGETS)[number];
+
+export const EUER_TARGET_LABEL = (t: EuerTarget) =>
+  t === 'none' ? 'nicht in der EÜR (privat)' : `${EUER_LINES[t].kz} ${EUER_LINES[t].label}`;
+
+export const EUER_TOTAL_KZ = { income: '159', expenses: '199', profit: '219' } as const;
+
+/**
+ * EÜR settings, stored per income profile (income_profiles.settings.euer).
+ */
+export const EuerSettingsSchema = z.object({
+  // accounts of this business; none selected: all business accounts
+  accountIds: z.array(z.string().uuid()).default([]),
+  // business bookings on private accounts, e.g. expenses paid privately
+  includeOtherAccounts: z.boolean().default(true),
+  categories: z.record(z.string(), z.enum(EUER_TARGETS)).default({}),
+});
+
+export type EuerSettings = z.output<typeof EuerSettingsSchema>;
+
+export const DEFAULT_EUER_SETTINGS: EuerSettings = EuerSettingsSchema.parse({});
+
+const SUGGESTIONS: Array<[RegExp, EuerTarget]> = [
+  [/umsatzsteuer|ust-?va|vorsteuer/, 'vat_to_office'],
+  [/einkommensteuer|privat|entnahme/, 'none'],
+  [/steuerber|buchhalt|rechtsanw|notar/, 'advisory'],
+  [/bürobedarf|büromaterial|porto/, 'other'],
+  [/miete|pacht|coworking/, 'rent'],
+  [/leasing/, 'leasing'],
+  [/telefon|mobilfunk|internet|handy/, 'telecom'],
+  [/software|hosting|server|cloud|lizenz|edv|domain/, 'it'],
+  [/reise|hotel|bahn|flug|übernachtung/, 'travel'],
+  [/fortbildung|seminar|schulung|kurs|fachliteratur/, 'training'],
+  [/versicherung|beitrag|gebühr|kammer|ihk|bank/, 'insurance'],
+  [/werbung|marketing|anzeige/, 'advertising'],
+  [/fremdleistung|freelancer|subunternehm/, 'subcontractors'],
+  [/gehalt|lohn|personal/, 'staff'],
+  [/ware|material|einkauf/, 'goods'],
+  [/umsatz|honorar|einnahme|rechnung/, 'revenue'],
+];
+
+/**
+ * Line a category most likely belongs to, by its name; null when nothing fits.
+ */
+export function suggestEuerTarget(category: string): EuerTarget | null {
+  const c = category.toLowerCase();
+  return SUGGESTIONS.find(([re]) => re.test(c))?.[1] ?? null;
+}
+
+/* ---------------- report ---------------- */
+
+export type EuerSale = { net: number; vat: number; taxFree: boolean };
+
+export type EuerBooking = {
+  id: string;
+  txDate: string;
+  description: string;
+  category: string | null;
+  accountName: string;
+  amount: number; // gross, signed
+  // payment of the profile's invoices, split by VAT
+  sales: EuerSale[];
+  // the rest, booked by category; signed like amount
+  net: number;
+  vat: number;
+};
+
+export type EuerPosting = {
+  bookingId: string;
+  txDate: string;
+  description: string;
+  category: string | null;
+  accountName: string;
+  key: EuerLineKey;
+  amount: number; // on the line: income and expenses positive
+};
+
+export type EuerLine = EuerLineDef & { key: EuerLineKey; amount: number; count: number };
+
+export type EuerCategory = {
+  category: string | null;
+  count: number;
+  amount: number; // gross
+  target: EuerTarget | null;
+  suggested: EuerTarget | null;
+};
+
+export type EuerReport = {
+  year: number;
+  lines: EuerLine[];
+  income: number;
+  expenses: number;
+  profit: number;
+  postings: EuerPosting[];
+  // bookings without category or with a category not mapped yet
+  unassigned: EuerBooking[];
+  excluded: { count: number; amount: number };
+  categories: EuerCategory[];
+};
+
+const CENT = 0.005;
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+/**
+ * Lines, totals and postings of the year from its bookings and the category
+ * mapping. Unmapped bookings are left out of the totals and listed instead.
+ */
+export function buildEuer(
+  year: number,
+  bookings: EuerBooking[],
+  categories: EuerSettings['categories'],
+): EuerReport {
+  const postings: EuerPosting[] = [];
+  const unassigned: EuerBooking[] = [];
+  const excluded = { count: 0, amount: 0 };
+  const byCategory = new Map<string | null, EuerCategory>();
+
+  for (const b of bookings) {
+    const post = (key: EuerLineKey, value: number) => {
+      if (Math.abs(value) < CENT) return;
+      const sign = EUER_LINES[key].side === 'income' ? 1 : -1;
+      postings.push({
+        bookingId: b.id,
+        txDate: b.txDate,
+        description: b.description,
+        category: b.category,
+        accountName: b.accountName,
+        key,
+        amount: round2(sign * value),
+      });
+    };
+
+    for (const s of b.sales) {
+      post(s.taxFree ? 'revenue_tax_free' : 'revenue', s.net);
+      post('vat_received', s.vat);
+    }
+
+    const rest = round2(b.net + b.vat);
+    if (Math.abs(rest) < CENT) continue;
+
+    const target = b.category ? categories[b.category] : undefined;
+    const c = byCategory.get(b.category) ?? {
+      category: b.category,
+      count: 0,
+      amount: 0,
+      target: target ?? null,
+      suggested: b.category ? suggestEuerTarget(b.category) : null,
+    };
+    c.count++;
+    c.amount = round2(c.amount + rest);
+    byCategory.set(b.category, c);
+
+    if (!target) {
+      unassigned.push(b);
+    } else if (target === 'none') {
+      excluded.count++;
+      excluded.amount = round2(excluded.amount + rest);
+    } else if (EUER_LINES[target].vat) {
+      post(target, rest);
+    } else {
+      post(target, b.net);
+      // VAT goes with the side of the line: VAT on income, input tax on expenses
+      post(EUER_LINES[target].side === 'income' ? 'vat_received' : 'vat_paid', b.vat);
+    }
+  }
+
+  const lines: EuerLine[] = EUER_LINE_KEYS.map((key) => {
+    const own = postings.filter((p) => p.key === key);
+    return {
+      key,
+      ...EUER_LINES[key],
+      amount: round2(own.reduce((s, p) => s + p.amount, 0)),
+      count: new Set(own.map((p) => p.bookingId)).size,
+    };
+  });
+  const income = round2(lines.filter((l) => l.side === 'income').reduce((s, l) => s + l.amount, 0));
+  const expenses = round2(
+    lines.filter((l) => l.side === 'expense').reduce((s, l) => s + l.amount, 0),
+  );
+
+  return {
+    year,
+    lines,
+    income,
+    expenses,
+    profit: round2(income - expenses),
+    postings,
+    unassigned,
+    excluded,
+    categories: Array.from(byCategory.values()).sort((a, b) =>
+      (a.category ?? '').localeCompare(b.category ?? '', 'de'),
+    ),
+  };
+}
+
+/* ---------------- export ---------------- */
+
+const csvNumber = (n: number) => n.toFixed(2).replace('.', ',');
+
+function csvField(value: string) {
+  return /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Semicolon-separated with decimal commas, as German spreadsheets expect: the
+ * lines with totals, then every posting with its Kennzahl.
+ */
+export function euerCsv(report: EuerReport, profileName: string) {
+  const rows: string[][] = [
+    [`Einnahmen-Überschuss-Rechnung ${report.year}`, profileName],
+    [],
+    ['Kennzahl', 'Bezeichnung', 'Betrag'],
+  ];
+  for (const l of report.lines) {
+    if (l.count > 0) rows.push([l.kz, l.label, csvNumber(l.amount)]);
+  }
+  rows.push(
+    [EUER_TOTAL_KZ.income, 'Summe Betriebseinnahmen', csvNumber(report.income)],
+    [EUER_TOTAL_KZ.expenses, 'Summe Betriebsausgaben', csvNumber(report.expenses)],
+    [EUER_TOTAL_KZ.profit, 'Gewinn/Verlust', csvNumber(report.profit)],
+    [],
+    ['Datum', 'Buchung', 'Kategorie', 'Konto', 'Kennzahl', 'Bezeichnung', 'Betrag'],
+  );
+  for (const p of report.postings) {
+    rows.push([
+      p.txDate,
+      p.description,
+      p.category ?? '',
+      p.accountName,
+      EUER_LINES[p.key].kz,
+      EUER_LINES[p.key].label,
+      csvNumber(p.amount),
+    ]);
+  }
+  // BOM so spreadsheet programs read UTF-8
+  return `\uFEFF${rows.map((r) => r.map(csvField).join(';')).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  matchTaxPayments,
+  prepaymentDueDates,
+  taxPaymentCashflow,
+  taxPaymentTitle,
+  type MatchTaxTransaction,
+} from './income-tax';
+
+const tx = (
+  id: string,
+  txDate: string,
+  amount: number,
+  description: string,
+): MatchTaxTransaction => ({
+  id,
+  txDate,
+  amount,
+  description,
+  counterparty: null,
+  remittanceInfo: null,
+});
+
+describe('prepayments', () => {
+  it('are due on the 10th of March, June, September and December', () => {
+    // 10 March 2024 is a Sunday
+    expect(prepaymentDueDates(2024)).toEqual([
+      '2024-03-11',
+      '2024-06-10',
+      '2024-09-10',
+      '2024-12-10',
+    ]);
+    expect(taxPaymentTitle({ kind: 'prepayment', taxYear: 2024, dueDate: '2024-09-10' })).toBe(
+      'ESt-Vorauszahlung Q3/2024',
+    );
+  });
+
+  it('leave the account unless they are a refund', () => {
+    expect(taxPaymentCashflow('prepayment', 2000)).toBe(-2000);
+    expect(taxPaymentCashflow('back_payment', 300)).toBe(-300);
+    expect(taxPaymentCashflow('refund', 500)).toBe(500);
+  });
+});
+
+describe('matchTaxPayments', () => {
+  it('prefers bookings naming the tax office, then the closest date', () => {
+    const matches = matchTaxPayments(
+      [
+        { id: 'q1', kind: 'prepayment', dueDate: '2025-03-10', amount: 2000 },
+        { id: 'refund', kind: 'refund', dueDate: '2025-08-01', amount: 500 },
+      ],
+      [
+        tx('t1', '2025-03-09', -2000, 'Lastschrift'),
+        tx('t2', '2025-03-12', -2000, 'Finanzamt Köln ESt 1/25'),
+        tx('t3', '2025-03-10', 2000, 'Gutschrift'),
+        tx('t4', '2025-08-20', 500, 'Erstattung Einkommensteuer 2024'),
+      ],
+    );
+    expect(matches).toEqual([
+      { paymentId: 'q1', transactionId: 't2', confident: true },
+      { paymentId: 'refund', transactionId: 't4', confident: true },
+    ]);
+  });
+
+  it('uses each booking once and ignores bookings outside the window', () => {
+    const matches = matchTaxPayments(
+      [
+        { id: 'q1', kind: 'prepayment', dueDate: '2025-03-10', amount: 2000 },
+        { id: 'q2', kind: 'prepayment', dueDate: '2025-06-10', amount: 2000 },
+      ],
+      [tx('t1', '2025-03-11', -2000, 'Lastschrift'), tx('t2', '2025-05-20', -2000, 'Lastschrift')],
+    );
+    expect(matches).toEqual([{ paymentId: 'q1', transactionId: 't1', confident: false }]);
+  });
+});
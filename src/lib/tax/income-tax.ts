@@ -0,0 +1,131 @@
+import { adjustToBusinessDay } from '@/lib/cashflow/calendar';
+import { dateUTC, daysBetween } from '@/lib/cashflow/dates';
+import { descriptionTokens } from '@/lib/recurring/match';
+
+// Einkommensteuer of the self-employed: the assessment notice sets quarterly
+// prepayments, and the assessment of a past year ends in a refund or a
+// back-payment. Each payment is settled by the transaction that booked it.
+
+export const TAX_PAYMENT_KINDS = ['prepayment', 'refund', 'back_payment'] as const;
+
+export type TaxPaymentKind = (typeof TAX_PAYMENT_KINDS)[number];
+
+export const TAX_PAYMENT_KIND_LABEL: Record<TaxPaymentKind, string> = {
+  prepayment: 'Vorauszahlung',
+  refund: 'Erstattung',
+  back_payment: 'Nachzahlung',
+};
+
+export type TaxPayment = {
+  id: string;
+  profileId: string;
+  kind: TaxPaymentKind;
+  taxYear: number;
+  dueDate: string;
+  amount: number; // positive, direction by kind
+  note: string;
+  transactionId: string | null;
+  txDate: string | null;
+  txAmount: number | null;
+};
+
+/**
+ * Due dates of the four prepayments of a year: 10 March, June, September and
+ * December, on the next business day when that is a weekend or holiday.
+ */
+export function prepaymentDueDates(year: number) {
+  return [2, 5, 8, 11].map((m) => adjustToBusinessDay(dateUTC(year, m, 10), 'NEXT'));
+}
+
+export function prepaymentQuarter(dueDate: string) {
+  return Math.ceil(Number(dueDate.slice(5, 7)) / 3);
+}
+
+// signed like a transaction: only a refund comes in
+export function taxPaymentCashflow(kind: TaxPaymentKind, amount: number) {
+  return kind === 'refund' ? amount : -amount;
+}
+
+export function taxPaymentTitle(p: Pick<TaxPayment, 'kind' | 'taxYear' | 'dueDate'>) {
+  if (p.kind === 'prepayment') {
+    return `ESt-Vorauszahlung Q${prepaymentQuarter(p.dueDate)}/${p.taxYear}`;
+  }
+  return p.kind === 'refund' ? `Steuererstattung ${p.taxYear}` : `Steuernachzahlung ${p.taxYear}`;
+}
+
+/* ---------------- matching ---------------- */
+
+// days a booking may lie before or after the due date; refund dates are a guess
+export const TAX_PAYMENT_MATCH_DAYS: Record<TaxPaymentKind, number> = {
+  prepayment: 10,
+  back_payment: 14,
+  refund: 30,
+};
+
+export type MatchTaxPayment = Pick<TaxPayment, 'id' | 'kind' | 'dueDate' | 'amount'>;
+
+export type MatchTaxTransaction = {
+  id: string;
+  txDate: string;
+  amount: number; // signed
+  description: string;
+  counterparty: string | null;
+  remittanceInfo: string | null;
+};
+
+export type TaxPaymentMatch = {
+  paymentId: string;
+  transactionId: string;
+  confident: boolean; // linked without asking
+};
+
+const CENT = 0.005;
+
+function mentionsTaxOffice(tx: MatchTaxTransaction) {
+  const tokens = descriptionTokens(tx.description, tx.counterparty, tx.remittanceInfo);
+  for (const t of tokens) {
+    if (t === 'est' || t.startsWith('finanz') || t.includes('steuer')) return true;
+  }
+  return false;
+}
+
+/**
+ * Bookings of the exact amount within the window of a payment's due date, the
+ * closest first. Confident when the booking names the tax office or the tax.
+ */
+export function matchTaxPayments(
+  payments: MatchTaxPayment[],
+  transactions: MatchTaxTransaction[],
+): TaxPaymentMatch[] {
+  const candidates: (TaxPaymentMatch & { distance: number })[] = [];
+
+  for (const p of payments) {
+    const expected = taxPaymentCashflow(p.kind, p.amount);
+    for (const tx of transactions) {
+      if (Math.abs(tx.amount - expected) >= CENT) continue;
+      const distance = Math.abs(daysBetween(p.dueDate, tx.txDate));
+      if (distance > TAX_PAYMENT_MATCH_DAYS[p.kind]) continue;
+      candidates.push({
+        paymentId: p.id,
+        transactionId: tx.id,
+        confident: mentionsTaxOffice(tx),
+        distance,
+      });
+    }
+  }
+
+  candidates.sort((a, b) =>
+    a.confident === b.confident ? a.distance - b.distance : a.confident ? -1 : 1,
+  );
+
+  const usedTx = new Set<string>();
+  const usedPayment = new Set<string>();
+  const out: TaxPaymentMatch[] = [];
+  for (const c of candidates) {
+    if (usedTx.has(c.transactionId) || usedPayment.has(c.paymentId)) continue;
+    usedTx.add(c.transactionId);
+    usedPayment.add(c.paymentId);
+    out.push({ paymentId: c.paymentId, transactionId: c.transactionId, confident: c.confident });
+  }
+  return out;
+}
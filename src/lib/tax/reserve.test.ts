@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TAX_RESERVE_SETTINGS, taxReserveRate, taxReserveSummary } from './reserve';
+
+const profile = (profileId: string, income: number, rate: number) => ({
+  profileId,
+  name: profileId,
+  rate,
+  income,
+  sourceAccountId: null,
+});
+
+describe('taxReserveRate', () => {
+  it('uses the fixed percentage or the marginal rate of the expected income', () => {
+    expect(taxReserveRate(DEFAULT_TAX_RESERVE_SETTINGS, 2025)).toBe(30);
+    expect(
+      taxReserveRate(
+        { ...DEFAULT_TAX_RESERVE_SETTINGS, mode: 'marginal', expectedTaxableIncome: 100_000 },
+        2025,
+      ),
+    ).toBe(47); // 42 % plus Soli in its phase-in zone
+    expect(taxReserveRate({ ...DEFAULT_TAX_RESERVE_SETTINGS, mode: 'marginal' }, 2025)).toBe(0);
+  });
+});
+
+describe('taxReserveSummary', () => {
+  it('lowers the target by taxes paid and splits the shortfall by reserve', () => {
+    const summary = taxReserveSummary({
+      profiles: [profile('a', 10_000, 30), profile('b', 3333.33, 25), profile('c', -500, 30)],
+      taxPaid: 1000,
+      balance: 500,
+    });
+
+    expect(summary).toMatchObject({ reserve: 3833.33, target: 2833.33, shortfall: 2333.33 });
+    expect(summary.profiles.map((p) => [p.reserve, p.transfer])).toEqual([
+      [3000, 1826.09],
+      [833.33, 507.24],
+      [0, 0],
+    ]);
+  });
+
+  it('gives the cent left by the split to the largest share', () => {
+    const summary = taxReserveSummary({
+      profiles: [profile('a', 1000, 10), profile('b', 1000, 10), profile('c', 1000, 10)],
+      taxPaid: 0,
+      balance: 200,
+    });
+    expect(summary.profiles.map((p) => p.transfer)).toEqual([33.34, 33.33, 33.33]);
+  });
+
+  it('reports money above the target as surplus', () => {
+    const summary = taxReserveSummary({
+      profiles: [profile('a', 1000, 30)],
+      taxPaid: 100,
+      balance: 400,
+    });
+    expect(summary).toMatchObject({ target: 200, shortfall: 0, surplus: 200 });
+    expect(summary.profiles[0].transfer).toBe(0);
+  });
+});
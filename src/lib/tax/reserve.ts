@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { marginalIncomeTaxRate } from '@/lib/salary/payroll';
+
+// Tax reserve for self-employed income: a share of the business income of the
+// year is set aside on the TAX accounts until the income tax is due. Taxes paid
+// from those accounts during the year (prepayments) lower what still has to be
+// there. Income is counted net of VAT, which the USt-VA settles separately.
+
+export const TAX_RESERVE_MODES = ['percentage', 'marginal'] as const;
+
+export type TaxReserveMode = (typeof TAX_RESERVE_MODES)[number];
+
+export const TAX_RESERVE_MODE_LABEL: Record<TaxReserveMode, string> = {
+  percentage: 'Fester Prozentsatz',
+  marginal: 'Grenzsteuersatz (geschätzt)',
+};
+
+/**
+ * Reserve settings, stored per income profile (income_profiles.settings.taxReserve).
+ */
+export const TaxReserveSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  mode: z.enum(TAX_RESERVE_MODES).default('percentage'),
+  percentage: z.number().min(0).max(100).default(30),
+  // zu versteuerndes Einkommen of the year, for the marginal rate
+  expectedTaxableIncome: z.number().min(0).max(100_000_000).nullable().default(null),
+  // business income not paying an invoice of any profile counts for this one
+  includeUnlinkedIncome: z.boolean().default(true),
+  // transfers to the TAX account start here; default the first business account
+  sourceAccountId: z.string().uuid().nullable().default(null),
+});
+
+export type TaxReserveSettings = z.output<typeof TaxReserveSettingsSchema>;
+
+export const DEFAULT_TAX_RESERVE_SETTINGS: TaxReserveSettings = TaxReserveSettingsSchema.parse({});
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+/**
+ * Share of the income to set aside, in percent. The marginal rate (income tax
+ * and Soli) is on the expected taxable income and errs on the safe side.
+ */
+export function taxReserveRate(settings: TaxReserveSettings, year: number) {
+  if (settings.mode === 'percentage') return settings.percentage;
+  return marginalIncomeTaxRate(settings.expectedTaxableIncome ?? 0, year);
+}
+
+export type TaxReserveProfileInput = {
+  profileId: string;
+  name: string;
+  rate: number;
+  income: number; // net business income of the year so far
+  sourceAccountId: string | null;
+};
+
+export type TaxReserveProfile = TaxReserveProfileInput & {
+  reserve: number;
+  transfer: number; // this profile's share of the shortfall
+};
+
+export type TaxReserveSummary = {
+  profiles: TaxReserveProfile[];
+  reserve: number; // all profiles
+  taxPaid: number; // paid from the TAX accounts this year
+  target: number;
+  balance: number; // TAX accounts now
+  shortfall: number;
+  surplus: number;
+};
+
+/**
+ * Target on the TAX accounts and the transfers that close the gap, split over
+ * the profiles by their reserve.
+ */
+export function taxReserveSummary(input: {
+  profiles: TaxReserveProfileInput[];
+  taxPaid: number;
+  balance: number;
+}): TaxReserveSummary {
+  const withReserve = input.profiles.map((p) => ({
+    ...p,
+    reserve: round2(Math.max(0, p.income) * (p.rate / 100)),
+  }));
+  const reserve = round2(withReserve.reduce((s, p) => s + p.reserve, 0));
+  const target = round2(Math.max(0, reserve - input.taxPaid));
+  const shortfall = round2(Math.max(0, target - input.balance));
+
+  const profiles = withReserve.map((p) => ({
+    ...p,
+    transfer: reserve > 0 ? round2((shortfall * p.reserve) / reserve) : 0,
+  }));
+  // cent left over by the split goes to the largest share
+  const rest = round2(shortfall - profiles.reduce((s, p) => s + p.transfer, 0));
+  if (rest !== 0 && profiles.length > 0) {
+    const largest = profiles.reduce((a, b) => (b.reserve > a.reserve ? b : a));
+    largest.transfer = round2(largest.transfer + rest);
+  }
+
+  return {
+    profiles,
+    reserve,
+    taxPaid: round2(input.taxPaid),
+    target,
+    balance: round2(input.balance),
+    shortfall,
+    surplus: round2(Math.max(0, input.balance - target)),
+  };
+}
@@ -0,0 +1,1046 @@
+import type { Pool, PoolClient } from 'pg';
+import { BUSINESS_DAY_MAX_SHIFT } from '@/lib/cashflow/calendar';
+import { addDaysUTC } from '@/lib/cashflow/dates';
+import {
+  occurrencesBetween,
+  recurrenceFromRow,
+  type RecurrenceRow,
+} from '@/lib/cashflow/recurrence';
+import { applyRules } from '@/lib/categorization/rules';
+import { loadCategoryRules } from '@/lib/categorization/store';
+import type { InvoiceDocument } from '@/lib/invoices/document';
+import {
+  buildDatevRows,
+  DatevSettingsSchema,
+  DEFAULT_DATEV_SETTINGS,
+  type DatevInvoice,
+  type DatevMissing,
+  type DatevRow,
+  type DatevSettings,
+  type DatevTransaction,
+} from './datev';
+import {
+  buildEuer,
+  DEFAULT_EUER_SETTINGS,
+  EuerSettingsSchema,
+  type EuerBooking,
+  type EuerReport,
+  type EuerSale,
+  type EuerSettings,
+} from './euer';
+import {
+  matchTaxPayments,
+  prepaymentDueDates,
+  taxPaymentCashflow,
+  type MatchTaxTransaction,
+  type TaxPayment,
+} from './income-tax';
+import {
+  DEFAULT_TAX_RESERVE_SETTINGS,
+  taxReserveRate,
+  TaxReserveSettingsSchema,
+  taxReserveSummary,
+  type TaxReserveSettings,
+  type TaxReserveSummary,
+} from './reserve';
+import {
+  buildVatReturn,
+  DEFAULT_VAT_SETTINGS,
+  hasSpecialPrepayment,
+  invoiceVatEntries,
+  splitGross,
+  transactionVatEntry,
+  VatSettingsSchema,
+  type VatCode,
+  type VatEntry,
+  type VatPeriod,
+  type VatReturn,
+  type VatSettings,
+} from './vat';
+
+type Db = Pool | PoolClient;
+
+export async function loadVatSettings(db: Db, userId: string): Promise<VatSettings> {
+  const r = await db.query(
+    `SELECT
+       vat_filing AS filing,
+       vat_permanent_extension AS "permanentExtension",
+       vat_special_prepayment::float8 AS "specialPrepayment"
+     FROM tax_settings
+     WHERE user_id = $1`,
+    [userId],
+  );
+  const parsed = VatSettingsSchema.safeParse(r.rows[0] ?? {});
+  return parsed.success ? parsed.data : DEFAULT_VAT_SETTINGS;
+}
+
+export async function saveVatSettings(db: Db, userId: string, settings: VatSettings) {
+  await db.query(
+    `INSERT INTO tax_settings (user_id, vat_filing, vat_permanent_extension, vat_special_prepayment)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id) DO UPDATE
+     SET vat_filing = EXCLUDED.vat_filing,
+         vat_permanent_extension = EXCLUDED.vat_permanent_extension,
+         vat_special_prepayment = EXCLUDED.vat_special_prepayment,
+         updated_at = now()`,
+    [userId, settings.filing, settings.permanentExtension, settings.specialPrepayment],
+  );
+}
+
+type InvoiceVatRow = {
+  amount: number;
+  vat_code: VatCode | null;
+  net_amount: number | null;
+  vat_amount: number | null;
+  document: InvoiceDocument | null;
+};
+
+const invoiceVat = (r: InvoiceVatRow) => ({
+  amount: r.amount,
+  vatCode: r.vat_code,
+  netAmount: r.net_amount,
+  vatAmount: r.vat_amount,
+  document: r.document,
+});
+
+export type VatBookings = {
+  entries: VatEntry[];
+  // business transactions without VAT code and not paying an invoice
+  unclassified: { count: number; amount: number };
+};
+
+/**
+ * VAT entries of the business transactions booked in [startDate, endDateExclusive):
+ * transactions with a VAT code, and invoice payments without one by the VAT of
+ * the invoice they pay.
+ */
+export async function loadVatBookings(
+  db: Db,
+  userId: string,
+  startDate: string,
+  endDateExclusive: string,
+): Promise<VatBookings> {
+  const [coded, payments, unclassified] = await Promise.all([
+    db.query(
+      `SELECT
+         amount::float8 AS amount,
+         vat_code,
+         net_amount::float8 AS net_amount,
+         vat_amount::float8 AS vat_amount
+       FROM transactions
+       WHERE user_id = $1
+         AND tx_date >= $2 AND tx_date < $3
+         AND is_business
+         AND transfer_group_id IS NULL
+         AND vat_code IS NOT NULL`,
+      [userId, startDate, endDateExclusive],
+    ),
+    // payments are income of the business even when the booking is not marked as such
+    db.query(
+      `SELECT
+         SUM(a.amount)::float8 AS paid,
+         i.amount::float8 AS amount,
+         i.vat_code,
+         i.net_amount::float8 AS net_amount,
+         i.vat_amount::float8 AS vat_amount,
+         i.document
+       FROM invoice_allocations a
+       JOIN transactions t ON t.id = a.transaction_id
+       JOIN invoices i ON i.id = a.invoice_id
+       WHERE a.user_id = $1
+         AND a.kind = 'payment'
+         AND t.tx_date >= $2 AND t.tx_date < $3
+         AND t.vat_code IS NULL
+       GROUP BY a.transaction_id, i.id`,
+      [userId, startDate, endDateExclusive],
+    ),
+    db.query(
+      `SELECT COUNT(*)::int AS count, COALESCE(SUM(t.amount), 0)::float8 AS amount
+       FROM transactions t
+       WHERE t.user_id = $1
+         AND t.tx_date >= $2 AND t.tx_date < $3
+         AND t.is_business
+         AND t.transfer_group_id IS NULL
+         AND t.vat_code IS NULL
+         AND NOT EXISTS (SELECT 1 FROM invoice_allocations a WHERE a.transaction_id = t.id)`,
+      [userId, startDate, endDateExclusive],
+    ),
+  ]);
+
+  const entries: VatEntry[] = coded.rows.map((r) =>
+    transactionVatEntry({
+      amount: r.amount,
+      vatCode: r.vat_code,
+      netAmount: r.net_amount,
+      vatAmount: r.vat_amount,
+    }),
+  );
+  for (const r of payments.rows as Array<InvoiceVatRow & { paid: number }>) {
+    entries.push(...invoiceVatEntries(invoiceVat(r), r.paid));
+  }
+
+  return { entries, unclassified: unclassified.rows[0] };
+}
+
+/**
+ * VAT of the open invoices expected to be paid in [startDate, endDateExclusive),
+ * on their remaining balance.
+ */
+export async function loadExpectedVatEntries(
+  db: Db,
+  userId: string,
+  startDate: string,
+  endDateExclusive: string,
+): Promise<VatEntry[]> {
+  const r = await db.query(
+    `SELECT
+       (amount - paid_amount)::float8 AS outstanding,
+       amount::float8 AS amount,
+       vat_code,
+       net_amount::float8 AS net_amount,
+       vat_amount::float8 AS vat_amount,
+       document
+     FROM invoices
+     WHERE user_id = $1
+       AND status IN ('planned','sent','partially_paid')
+       AND amount > paid_amount
+       AND expected_payment_date >= $2
+       AND expected_payment_date < $3`,
+    [userId, startDate, endDateExclusive],
+  );
+  return (r.rows as Array<InvoiceVatRow & { outstanding: number }>).flatMap((row) =>
+    invoiceVatEntries(invoiceVat(row), row.outstanding),
+  );
+}
+
+type RecurringVatRow = RecurrenceRow & {
+  id: string;
+  account_id: string;
+  amount: number;
+  description: string;
+};
+
+/**
+ * VAT of the recurring items due in [startDate, endDateExclusive) and not booked yet.
+ * Recurring items carry no VAT code of their own: an occurrence counts when the
+ * category rules would book it as business with a VAT code, as they do on import.
+ */
+export async function loadExpectedRecurringVatEntries(
+  db: Db,
+  userId: string,
+  startDate: string,
+  endDateExclusive: string,
+): Promise<VatEntry[]> {
+  const rules = await loadCategoryRules(db, userId);
+  if (!rules.some((r) => r.actions.vatCode)) return [];
+
+  const [items, booked] = await Promise.all([
+    db.query(
+      `SELECT
+         id,
+         account_id,
+         amount::float8 AS amount,
+         description,
+         interval_type,
+         interval_count,
+         month_rule,
+         day_of_month,
+         weekday,
+         week_of_month,
+         business_day_rule,
+         start_date::text AS start_date,
+         end_date::text AS end_date
+       FROM recurring
+       WHERE user_id = $1
+         AND start_date < $3::date + $4::int
+         AND (end_date IS NULL OR end_date >= $2::date - $4::int)`,
+      [userId, startDate, endDateExclusive, BUSINESS_DAY_MAX_SHIFT],
+    ),
+    db.query(
+      `SELECT recurring_id || ':' || recurring_occurrence::text AS key
+       FROM transactions
+       WHERE user_id = $1
+         AND recurring_id IS NOT NULL
+         AND recurring_occurrence >= $2 AND recurring_occurrence < $3`,
+      [userId, startDate, endDateExclusive],
+    ),
+  ]);
+  const bookedKeys = new Set((booked.rows as Array<{ key: string }>).map((r) => r.key));
+
+  const entries: VatEntry[] = [];
+  for (const row of items.rows as RecurringVatRow[]) {
+    const outcome = applyRules(rules, {
+      accountId: row.account_id,
+      amount: row.amount,
+      description: row.description,
+      counterparty: null,
+      remittanceInfo: null,
+    });
+    if (!outcome.isBusiness || !outcome.vatCode) continue;
+
+    for (const date of occurrencesBetween(recurrenceFromRow(row), startDate, endDateExclusive)) {
+      if (bookedKeys.has(`${row.id}:${date}`)) continue;
+      entries.push(
+        transactionVatEntry({
+          amount: row.amount,
+          vatCode: outcome.vatCode,
+          netAmount: null,
+          vatAmount: null,
+        }),
+      );
+    }
+  }
+  return entries;
+}
+
+export type VatReport = {
+  period: VatPeriod;
+  // period not over yet: includes the invoices and recurring items expected until its end
+  estimated: boolean;
+  vat: VatReturn;
+  unclassified: VatBookings['unclassified'];
+};
+
+/**
+ * USt-VA of a period from the bookings; for a period that is not over, the
+ * invoices expected to be paid and the recurring items due from today until
+ * its end are added.
+ */
+export async function loadVatReport(
+  db: Db,
+  userId: string,
+  period: VatPeriod,
+  settings: VatSettings,
+  today: string,
+): Promise<VatReport> {
+  const estimated = today < period.endDateExclusive;
+  const from = today > period.startDate ? today : period.startDate;
+  const [booked, expected, recurring] = await Promise.all([
+    loadVatBookings(db, userId, period.startDate, period.endDateExclusive),
+    estimated
+      ? loadExpectedVatEntries(db, userId, from, period.endDateExclusive)
+      : Promise.resolve([]),
+    estimated
+      ? loadExpectedRecurringVatEntries(db, userId, from, period.endDateExclusive)
+      : Promise.resolve([]),
+  ]);
+
+  // the Sondervorauszahlung is credited in the December return
+  const credit =
+    hasSpecialPrepayment(settings) && period.startDate.slice(5, 7) === '12'
+      ? (settings.specialPrepayment ?? 0)
+      : 0;
+
+  return {
+    period,
+    estimated,
+    vat: buildVatReturn([...booked.entries, ...expected, ...recurring], {
+      specialPrepayment: credit,
+    }),
+    unclassified: booked.unclassified,
+  };
+}
+
+/* ---------------- tax reserve ---------------- */
+
+// how far ahead expected invoice payments are listed as upcoming reserve transfers
+const RESERVE_UPCOMING_DAYS = 90;
+
+export async function loadTaxReserveSettings(
+  db: Db,
+  userId: string,
+  profileId: string,
+): Promise<TaxReserveSettings> {
+  const r = await db.query(
+    `SELECT settings -> 'taxReserve' AS reserve FROM income_profiles WHERE user_id = $1 AND id = $2`,
+    [userId, profileId],
+  );
+  const parsed = TaxReserveSettingsSchema.safeParse(r.rows[0]?.reserve ?? {});
+  return parsed.success ? parsed.data : DEFAULT_TAX_RESERVE_SETTINGS;
+}
+
+export type TaxReserveAccount = { id: string; name: string; balance: number };
+
+export type UpcomingReserveTransfer = {
+  invoiceId: string;
+  profileId: string;
+  customerName: string;
+  date: string; // expected payment date
+  amount: number;
+};
+
+export type TaxReserveReport = TaxReserveSummary & {
+  year: number;
+  taxAccounts: TaxReserveAccount[];
+  upcoming: UpcomingReserveTransfer[];
+};
+
+/**
+ * Reserve of the active self-employed profiles that have it enabled, on their net
+ * business income from 1 January until today: payments of their invoices, plus
+ * business income without an invoice where the profile includes it.
+ */
+export async function loadTaxReserve(
+  db: Db,
+  userId: string,
+  today: string,
+): Promise<TaxReserveReport> {
+  const year = Number(today.slice(0, 4));
+  const yearStart = `${year}-01-01`;
+
+  const [profileRows, accounts, business] = await Promise.all([
+    db.query(
+      `SELECT id, name, settings -> 'taxReserve' AS reserve
+       FROM income_profiles
+       WHERE user_id = $1 AND is_active AND type = 'self_employed'
+       ORDER BY created_at ASC`,
+      [userId],
+    ),
+    db.query(
+      `SELECT a.id, a.name, (a.initial_balance + COALESCE(SUM(t.amount), 0))::float8 AS balance
+       FROM accounts a
+       LEFT JOIN transactions t ON t.account_id = a.id AND t.user_id = a.user_id
+       WHERE a.user_id = $1 AND a.type = 'TAX'
+       GROUP BY a.id, a.name, a.initial_balance, a.created_at
+       ORDER BY a.created_at ASC`,
+      [userId],
+    ),
+    db.query(
+      `SELECT id FROM accounts WHERE user_id = $1 AND type = 'BUSINESS' ORDER BY created_at ASC LIMIT 1`,
+      [userId],
+    ),
+  ]);
+
+  const profiles = profileRows.rows
+    .map((r) => {
+      const parsed = TaxReserveSettingsSchema.safeParse(r.reserve ?? {});
+      return {
+        id: r.id as string,
+        name: r.name as string,
+        settings: parsed.success ? parsed.data : DEFAULT_TAX_RESERVE_SETTINGS,
+      };
+    })
+    .filter((p) => p.settings.enabled);
+  const profileIds = profiles.map((p) => p.id);
+
+  const [invoiceIncome, unlinked, taxPaid, open] = await Promise.all([
+    // payments of invoices, net by the invoice's net/gross ratio
+    db.query(
+      `SELECT
+         i.profile_id,
+         SUM(a.amount * COALESCE(i.net_amount / NULLIF(i.amount, 0), 1))::float8 AS income
+       FROM invoice_allocations a
+       JOIN transactions t ON t.id = a.transaction_id
+       JOIN invoices i ON i.id = a.invoice_id
+       WHERE a.user_id = $1
+         AND a.kind = 'payment'
+         AND t.tx_date >= $2 AND t.tx_date <= $3
+         AND i.profile_id = ANY($4::uuid[])
+       GROUP BY i.profile_id`,
+      [userId, yearStart, today, profileIds],
+    ),
+    db.query(
+      `SELECT COALESCE(SUM(COALESCE(t.net_amount, t.amount)), 0)::float8 AS income
+       FROM transactions t
+       JOIN accounts ac ON ac.id = t.account_id
+       WHERE t.user_id = $1
+         AND t.tx_date >= $2 AND t.tx_date <= $3
+         AND t.is_business
+         AND t.amount > 0
+         AND t.transfer_group_id IS NULL
+         AND ac.type <> 'TAX'
+         AND NOT EXISTS (SELECT 1 FROM invoice_allocations a WHERE a.transaction_id = t.id)`,
+      [userId, yearStart, today],
+    ),
+    db.query(
+      `SELECT COALESCE(-SUM(t.amount), 0)::float8 AS paid
+       FROM transactions t
+       JOIN accounts ac ON ac.id = t.account_id
+       WHERE t.user_id = $1
+         AND t.tx_date >= $2 AND t.tx_date <= $3
+         AND t.amount < 0
+         AND t.transfer_group_id IS NULL
+         AND (
+           ac.type = 'TAX'
+           OR EXISTS (
+             SELECT 1 FROM tax_payments p
+             WHERE p.transaction_id = t.id AND p.kind = 'prepayment'
+           )
+         )`,
+      [userId, yearStart, today],
+    ),
+    db.query(
+      `SELECT
+         id,
+         profile_id,
+         customer_name,
+         expected_payment_date::text AS date,
+         ((amount - paid_amount) * COALESCE(net_amount / NULLIF(amount, 0), 1))::float8 AS net
+       FROM invoices
+       WHERE user_id = $1
+         AND status IN ('planned','sent','partially_paid')
+         AND amount > paid_amount
+         AND profile_id = ANY($2::uuid[])
+         AND expected_payment_date >= $3
+         AND expected_payment_date < $4
+       ORDER BY expected_payment_date ASC`,
+      [userId, profileIds, today, addDaysUTC(today, RESERVE_UPCOMING_DAYS)],
+    ),
+  ]);
+
+  const incomeByProfile = new Map<string, number>(
+    invoiceIncome.rows.map((r) => [r.profile_id, r.income]),
+  );
+  const rates = new Map(profiles.map((p) => [p.id, taxReserveRate(p.settings, year)]));
+  const defaultSource: string | null = business.rows[0]?.id ?? null;
+  const taxAccounts = accounts.rows as TaxReserveAccount[];
+
+  const summary = taxReserveSummary({
+    profiles: profiles.map((p) => ({
+      profileId: p.id,
+      name: p.name,
+      rate: rates.get(p.id) ?? 0,
+      income:
+        (incomeByProfile.get(p.id) ?? 0) +
+        (p.settings.includeUnlinkedIncome ? unlinked.rows[0].income : 0),
+      sourceAccountId: p.settings.sourceAccountId ?? defaultSource,
+    })),
+    taxPaid: taxPaid.rows[0].paid,
+    balance: taxAccounts.reduce((s, a) => s + a.balance, 0),
+  });
+
+  const upcoming = open.rows
+    .map((r) => ({
+      invoiceId: r.id,
+      profileId: r.profile_id,
+      customerName: r.customer_name,
+      date: r.date,
+      amount: Math.round(r.net * (rates.get(r.profile_id) ?? 0)) / 100,
+    }))
+    .filter((u) => u.amount > 0);
+
+  return { ...summary, year, taxAccounts, upcoming };
+}
+
+/* ---------------- income tax payments ---------------- */
+
+type LinkResult = { ok: true } | { ok: false; status: number; error: string };
+
+const TAX_PAYMENT_COLUMNS = `
+  p.id,
+  p.profile_id AS "profileId",
+  p.kind,
+  p.tax_year AS "taxYear",
+  p.due_date::text AS "dueDate",
+  p.amount::float8 AS amount,
+  p.note,
+  p.transaction_id AS "transactionId",
+  t.tx_date::text AS "txDate",
+  t.amount::float8 AS "txAmount"`;
+
+// manual linking offers bookings this far around the due date
+const TAX_PAYMENT_CANDIDATE_DAYS = 45;
+
+/**
+ * Payments of a profile that belong to a year: assessed for it, or due in it.
+ */
+export async function loadTaxPayments(
+  db: Db,
+  userId: string,
+  profileId: string,
+  year: number,
+): Promise<TaxPayment[]> {
+  const r = await db.query(
+    `SELECT ${TAX_PAYMENT_COLUMNS}
+     FROM tax_payments p
+     LEFT JOIN transactions t ON t.id = p.transaction_id
+     WHERE p.user_id = $1
+       AND p.profile_id = $2
+       AND (p.tax_year = $3 OR EXTRACT(YEAR FROM p.due_date) = $3)
+     ORDER BY p.due_date, p.created_at`,
+    [userId, profileId, year],
+  );
+  return r.rows as TaxPayment[];
+}
+
+export async function loadTaxPayment(db: Db, userId: string, id: string) {
+  const r = await db.query(
+    `SELECT ${TAX_PAYMENT_COLUMNS}
+     FROM tax_payments p
+     LEFT JOIN transactions t ON t.id = p.transaction_id
+     WHERE p.user_id = $1 AND p.id = $2`,
+    [userId, id],
+  );
+  return (r.rows[0] as TaxPayment | undefined) ?? null;
+}
+
+/**
+ * Prepayments of a year from the assessment notice, one amount per quarter.
+ * Changed amounts keep their booking; a quarter without amount is removed
+ * unless it was paid already.
+ */
+export async function saveTaxPrepayments(
+  db: PoolClient,
+  userId: string,
+  profileId: string,
+  year: number,
+  amounts: (number | null)[],
+) {
+  const dueDates = prepaymentDueDates(year);
+  for (let q = 0; q < dueDates.length; q++) {
+    const amount = amounts[q] ?? 0;
+    if (amount > 0) {
+      await db.query(
+        `INSERT INTO tax_payments (user_id, profile_id, kind, tax_year, due_date, amount)
+         VALUES ($1, $2, 'prepayment', $3, $4, $5)
+         ON CONFLICT (profile_id, tax_year, due_date) WHERE kind = 'prepayment'
+         DO UPDATE SET amount = EXCLUDED.amount, updated_at = now()`,
+        [userId, profileId, year, dueDates[q], amount],
+      );
+    } else {
+      await db.query(
+        `DELETE FROM tax_payments
+         WHERE user_id = $1
+           AND profile_id = $2
+           AND kind = 'prepayment'
+           AND tax_year = $3
+           AND due_date = $4
+           AND transaction_id IS NULL`,
+        [userId, profileId, year, dueDates[q]],
+      );
+    }
+  }
+}
+
+/**
+ * Settle a payment by a booking of the same direction, or remove the link
+ * (transactionId null). Call inside a transaction.
+ */
+export async function linkTaxPayment(
+  db: PoolClient,
+  userId: string,
+  id: string,
+  transactionId: string | null,
+): Promise<LinkResult> {
+  const p = await db.query(
+    `SELECT kind FROM tax_payments WHERE user_id = $1 AND id = $2 FOR UPDATE`,
+    [userId, id],
+  );
+  if (p.rowCount === 0) return { ok: false, status: 404, error: 'Not found' };
+
+  if (transactionId) {
+    const tx = await db.query(
+      `SELECT
+         t.amount::float8 AS amount,
+         EXISTS (
+           SELECT 1 FROM tax_payments x WHERE x.transaction_id = t.id AND x.id <> $3
+         ) AS linked
+       FROM transactions t
+       WHERE t.user_id = $1 AND t.id = $2 AND t.transfer_group_id IS NULL`,
+      [userId, transactionId, id],
+    );
+    const row = tx.rows[0] as { amount: number; linked: boolean } | undefined;
+    if (!row || Math.sign(row.amount) !== Math.sign(taxPaymentCashflow(p.rows[0].kind, 1))) {
+      return { ok: false, status: 400, error: 'Invalid transaction' };
+    }
+    if (row.linked) return { ok: false, status: 409, error: 'Transaction already linked' };
+  }
+
+  await db.query(
+    `UPDATE tax_payments SET transaction_id = $3, updated_at = now() WHERE user_id = $1 AND id = $2`,
+    [userId, id, transactionId],
+  );
+  return { ok: true };
+}
+
+export type TaxPaymentCandidate = {
+  id: string;
+  txDate: string;
+  amount: number;
+  description: string;
+  accountName: string;
+};
+
+/**
+ * Bookings that could settle a payment: same direction, around the due date and
+ * not settling another payment; closest amount first.
+ */
+export async function loadTaxPaymentCandidates(
+  db: Db,
+  userId: string,
+  payment: TaxPayment,
+): Promise<TaxPaymentCandidate[]> {
+  const expected = taxPaymentCashflow(payment.kind, payment.amount);
+  const r = await db.query(
+    `SELECT
+       t.id,
+       t.tx_date::text AS "txDate",
+       t.amount::float8 AS amount,
+       t.description,
+       a.name AS "accountName"
+     FROM transactions t
+     JOIN accounts a ON a.id = t.account_id
+     WHERE t.user_id = $1
+       AND t.transfer_group_id IS NULL
+       AND sign(t.amount) = sign($2::numeric)
+       AND t.tx_date >= $3::date - $4::int
+       AND t.tx_date <= $3::date + $4::int
+       AND NOT EXISTS (
+         SELECT 1 FROM tax_payments p WHERE p.transaction_id = t.id AND p.id <> $5
+       )
+     ORDER BY abs(t.amount - $2::numeric), abs(t.tx_date - $3::date)
+     LIMIT 20`,
+    [userId, expected, payment.dueDate, TAX_PAYMENT_CANDIDATE_DAYS, payment.id],
+  );
+  return r.rows as TaxPaymentCandidate[];
+}
+
+/**
+ * Link the confident matches among `transactionIds` to open tax payments.
+ * Call inside the booking/import transaction. Returns the number linked.
+ */
+export async function linkTaxPaymentBookings(
+  db: PoolClient,
+  userId: string,
+  transactionIds: string[],
+) {
+  if (transactionIds.length === 0) return 0;
+
+  const tx = await db.query(
+    `SELECT
+       t.id,
+       t.tx_date::text AS "txDate",
+       t.amount::float8 AS amount,
+       t.description,
+       t.counterparty,
+       t.remittance_info AS "remittanceInfo"
+     FROM transactions t
+     WHERE t.user_id = $1
+       AND t.id = ANY($2::uuid[])
+       AND t.transfer_group_id IS NULL
+       AND NOT EXISTS (SELECT 1 FROM tax_payments p WHERE p.transaction_id = t.id)`,
+    [userId, transactionIds],
+  );
+  if (tx.rowCount === 0) return 0;
+
+  const open = await db.query(
+    `SELECT id, kind, due_date::text AS "dueDate", amount::float8 AS amount
+     FROM tax_payments
+     WHERE user_id = $1 AND transaction_id IS NULL`,
+    [userId],
+  );
+  if (open.rowCount === 0) return 0;
+
+  let linked = 0;
+  for (const m of matchTaxPayments(open.rows, tx.rows as MatchTaxTransaction[])) {
+    if (!m.confident) continue;
+    const result = await linkTaxPayment(db, userId, m.paymentId, m.transactionId);
+    if (result.ok) linked++;
+  }
+  return linked;
+}
+
+/* ---------------- EÜR ---------------- */
+
+export async function loadEuerSettings(
+  db: Db,
+  userId: string,
+  profileId: string,
+): Promise<EuerSettings> {
+  const r = await db.query(
+    `SELECT settings -> 'euer' AS euer FROM income_profiles WHERE user_id = $1 AND id = $2`,
+    [userId, profileId],
+  );
+  const parsed = EuerSettingsSchema.safeParse(r.rows[0]?.euer ?? {});
+  return parsed.success ? parsed.data : DEFAULT_EUER_SETTINGS;
+}
+
+const saleOf = (e: VatEntry): EuerSale => ({
+  net: e.net,
+  vat: e.vat,
+  taxFree: e.code === 'zero' || e.code === 'reverse_charge',
+});
+
+/**
+ * Bookings of the profile's business in a year: everything on its accounts, business
+ * bookings on private accounts if wanted, and payments of its invoices wherever they
+ * were booked. Income tax payments are private and left out.
+ */
+export async function loadEuerBookings(
+  db: Db,
+  userId: string,
+  profileId: string,
+  year: number,
+  settings: EuerSettings,
+): Promise<EuerBooking[]> {
+  const startDate = `${year}-01-01`;
+  const endDateExclusive = `${year + 1}-01-01`;
+
+  const [tx, payments] = await Promise.all([
+    db.query(
+      `SELECT
+         t.id,
+         t.tx_date::text AS tx_date,
+         t.description,
+         t.category,
+         a.name AS account_name,
+         t.amount::float8 AS amount,
+         t.vat_code,
+         t.net_amount::float8 AS net_amount,
+         t.vat_amount::float8 AS vat_amount,
+         own.paid::float8 AS paid
+       FROM transactions t
+       JOIN accounts a ON a.id = t.account_id
+       LEFT JOIN LATERAL (
+         SELECT SUM(x.amount) AS paid
+         FROM invoice_allocations x
+         JOIN invoices i ON i.id = x.invoice_id
+         WHERE x.transaction_id = t.id AND x.kind = 'payment' AND i.profile_id = $2
+       ) own ON true
+       WHERE t.user_id = $1
+         AND t.tx_date >= $3 AND t.tx_date < $4
+         AND t.transfer_group_id IS NULL
+         AND NOT EXISTS (SELECT 1 FROM tax_payments p WHERE p.transaction_id = t.id)
+         AND NOT EXISTS (
+           SELECT 1
+           FROM invoice_allocations x
+           JOIN invoices i ON i.id = x.invoice_id
+           WHERE x.transaction_id = t.id AND i.profile_id <> $2
+         )
+         AND (
+           own.paid IS NOT NULL
+           OR (CASE WHEN cardinality($5::uuid[]) > 0
+                 THEN t.account_id = ANY($5::uuid[])
+                 ELSE a.type = 'BUSINESS' END)
+           OR ($6 AND t.is_business AND a.type <> 'BUSINESS')
+         )
+       ORDER BY t.tx_date ASC, t.created_at ASC`,
+      [
+        userId,
+        profileId,
+        startDate,
+        endDateExclusive,
+        settings.accountIds,
+        settings.includeOtherAccounts,
+      ],
+    ),
+    db.query(
+      `SELECT
+         a.transaction_id,
+         SUM(a.amount)::float8 AS paid,
+         i.amount::float8 AS amount,
+         i.vat_code,
+         i.net_amount::float8 AS net_amount,
+         i.vat_amount::float8 AS vat_amount,
+         i.document
+       FROM invoice_allocations a
+       JOIN transactions t ON t.id = a.transaction_id
+       JOIN invoices i ON i.id = a.invoice_id
+       WHERE a.user_id = $1
+         AND a.kind = 'payment'
+         AND i.profile_id = $2
+         AND t.tx_date >= $3 AND t.tx_date < $4
+       GROUP BY a.transaction_id, i.id`,
+      [userId, profileId, startDate, endDateExclusive],
+    ),
+  ]);
+
+  const salesByTx = new Map<string, EuerSale[]>();
+  for (const r of payments.rows as Array<
+    InvoiceVatRow & { transaction_id: string; paid: number }
+  >) {
+    const entries = invoiceVatEntries(invoiceVat(r), r.paid).map(saleOf);
+    // invoice without VAT details: all of it is revenue
+    if (entries.length === 0) entries.push({ net: r.paid, vat: 0, taxFree: false });
+    salesByTx.set(r.transaction_id, [...(salesByTx.get(r.transaction_id) ?? []), ...entries]);
+  }
+
+  return tx.rows.map((r): EuerBooking => {
+    const base = {
+      id: r.id,
+      txDate: r.tx_date,
+      description: r.description,
+      category: r.category,
+      accountName: r.account_name,
+      amount: r.amount,
+    };
+    const coded = r.vat_code !== null;
+
+    if (r.paid !== null) {
+      // the booking's own VAT code wins over the invoice, as in the VAT return
+      const sales = coded
+        ? [
+            saleOf(
+              transactionVatEntry({
+                amount: r.amount,
+                vatCode: r.vat_code,
+                netAmount: r.net_amount,
+                vatAmount: r.vat_amount,
+              }),
+            ),
+          ]
+        : (salesByTx.get(r.id) ?? []);
+      const rest = coded ? 0 : Math.round((r.amount - r.paid) * 100) / 100;
+      return { ...base, sales, net: rest, vat: 0 };
+    }
+
+    if (!coded || r.vat_code === 'reverse_charge') {
+      // reverse charge: the VAT owed and the input tax cancel out, only the net is paid
+      return { ...base, sales: [], net: r.amount, vat: 0 };
+    }
+    const split =
+      r.net_amount !== null && r.vat_amount !== null
+        ? { net: r.net_amount, vat: r.vat_amount }
+        : splitGross(r.amount, r.vat_code);
+    return { ...base, sales: [], net: split.net, vat: split.vat };
+  });
+}
+
+export async function loadEuerReport(
+  db: Db,
+  userId: string,
+  profileId: string,
+  year: number,
+): Promise<EuerReport> {
+  const settings = await loadEuerSettings(db, userId, profileId);
+  const bookings = await loadEuerBookings(db, userId, profileId, year, settings);
+  return buildEuer(year, bookings, settings.categories);
+}
+
+/* ---------------- DATEV ---------------- */
+
+export async function loadDatevSettings(db: Db, userId: string): Promise<DatevSettings> {
+  const r = await db.query(`SELECT datev FROM tax_settings WHERE user_id = $1`, [userId]);
+  const parsed = DatevSettingsSchema.safeParse(r.rows[0]?.datev ?? {});
+  return parsed.success ? parsed.data : DEFAULT_DATEV_SETTINGS;
+}
+
+export async function saveDatevSettings(db: Db, userId: string, settings: DatevSettings) {
+  await db.query(
+    `INSERT INTO tax_settings (user_id, datev)
+     VALUES ($1, $2::jsonb)
+     ON CONFLICT (user_id) DO UPDATE
+     SET datev = EXCLUDED.datev,
+         updated_at = now()`,
+    [userId, JSON.stringify(settings)],
+  );
+}
+
+export type DatevExport = {
+  rows: DatevRow[];
+  missing: DatevMissing[];
+  // categories of the exported bookings, for the mapping
+  categories: Array<{ category: string; count: number; account: string | null }>;
+};
+
+/**
+ * Bookings for the tax advisor in [startDate, endDateExclusive): everything on the
+ * mapped money accounts, business (and, if wanted, tax relevant) bookings on other
+ * accounts and payments of invoices, plus the invoices issued when they are exported.
+ */
+export async function loadDatevExport(
+  db: Db,
+  userId: string,
+  startDate: string,
+  endDateExclusive: string,
+  settings: DatevSettings,
+): Promise<DatevExport> {
+  const [tx, inv] = await Promise.all([
+    db.query(
+      `SELECT
+         t.id,
+         t.tx_date::text AS "txDate",
+         t.amount::float8 AS amount,
+         t.description,
+         t.category,
+         t.account_id AS "accountId",
+         t.vat_code AS "vatCode",
+         t.transfer_group_id IS NOT NULL AS transfer,
+         other.account_id AS "transferAccountId",
+         paid.number AS "invoiceNumber"
+       FROM transactions t
+       LEFT JOIN LATERAL (
+         SELECT o.account_id
+         FROM transactions o
+         WHERE o.transfer_group_id = t.transfer_group_id AND o.id <> t.id
+         LIMIT 1
+       ) other ON t.transfer_group_id IS NOT NULL
+       LEFT JOIN LATERAL (
+         SELECT COALESCE(i.invoice_number, '') AS number
+         FROM invoice_allocations a
+         JOIN invoices i ON i.id = a.invoice_id
+         WHERE a.transaction_id = t.id AND a.kind = 'payment'
+         ORDER BY a.created_at ASC
+         LIMIT 1
+       ) paid ON true
+       WHERE t.user_id = $1
+         AND t.tx_date >= $2 AND t.tx_date < $3
+         AND (
+           t.account_id = ANY($4::uuid[])
+           OR (t.transfer_group_id IS NULL
+               AND (t.is_business OR paid.number IS NOT NULL OR ($5 AND t.is_tax_relevant)))
+         )
+       ORDER BY t.tx_date ASC, t.created_at ASC`,
+      [
+        userId,
+        startDate,
+        endDateExclusive,
+        Object.keys(settings.moneyAccounts),
+        settings.includeTaxRelevant,
+      ],
+    ),
+    settings.includeInvoices
+      ? db.query(
+          `SELECT
+             id,
+             COALESCE(invoice_number, '') AS number,
+             COALESCE(issued_at::date, service_date)::text AS issue_date,
+             COALESCE(customer_name, '') AS customer_name,
+             amount::float8 AS amount,
+             vat_code,
+             net_amount::float8 AS net_amount,
+             vat_amount::float8 AS vat_amount,
+             document
+           FROM invoices
+           WHERE user_id = $1
+             AND status IN ('sent', 'partially_paid', 'paid')
+             AND COALESCE(issued_at::date, service_date) >= $2
+             AND COALESCE(issued_at::date, service_date) < $3
+           ORDER BY issue_date ASC`,
+          [userId, startDate, endDateExclusive],
+        )
+      : null,
+  ]);
+
+  const invoices: DatevInvoice[] = (inv?.rows ?? []).map(
+    (
+      r: InvoiceVatRow & { id: string; number: string; issue_date: string; customer_name: string },
+    ) => {
+      const entries = invoiceVatEntries(invoiceVat(r), r.amount);
+      return {
+        id: r.id,
+        number: r.number,
+        issueDate: r.issue_date,
+        customerName: r.customer_name,
+        amounts:
+          entries.length > 0
+            ? entries.map((e) => ({ code: e.code, gross: e.net + e.vat }))
+            : [{ code: r.vat_code, gross: r.amount }],
+      };
+    },
+  );
+
+  const { rows, missing } = buildDatevRows(tx.rows as DatevTransaction[], invoices, settings);
+
+  const counts = new Map<string, number>();
+  for (const t of tx.rows as DatevTransaction[]) {
+    if (!t.transfer && t.category) counts.set(t.category, (counts.get(t.category) ?? 0) + 1);
+  }
+  const categories = Array.from(counts, ([category, count]) => ({
+    category,
+    count,
+    account: settings.categories[category] ?? null,
+  })).sort((a, b) => a.category.localeCompare(b.category, 'de'));
+
+  return { rows, missing, categories };
+}
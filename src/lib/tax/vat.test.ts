@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { InvoiceBuyer, InvoiceSeller } from '@/lib/invoices/document';
+import {
+  buildVatReturn,
+  invoiceVatEntries,
+  splitGross,
+  transactionVatEntry,
+  vatDueDate,
+  vatPeriods,
+  type VatEntry,
+} from './vat';
+
+describe('splitGross', () => {
+  it('splits signed gross amounts by rate', () => {
+    expect(splitGross(119, 'standard')).toEqual({ net: 100, vat: 19 });
+    expect(splitGross(-107, 'reduced')).toEqual({ net: -100, vat: -7 });
+    expect(splitGross(50, 'zero')).toEqual({ net: 50, vat: 0 });
+  });
+
+  it('adds VAT on top of reverse charge purchases only', () => {
+    expect(splitGross(-1000, 'reverse_charge')).toEqual({ net: -1000, vat: -190 });
+    expect(splitGross(500, 'reverse_charge')).toEqual({ net: 500, vat: 0 });
+  });
+});
+
+describe('periods', () => {
+  it('are due on the 10th after the period, moved to the next business day', () => {
+    expect(vatDueDate('2025-02-01', false)).toBe('2025-02-10');
+    expect(vatDueDate('2025-02-01', true)).toBe('2025-03-10');
+    expect(vatDueDate('2025-05-01', false)).toBe('2025-05-12'); // 10 May 2025 is a Saturday
+  });
+
+  it('follow the filing frequency', () => {
+    expect(
+      vatPeriods(2025, { filing: 'none', permanentExtension: false, specialPrepayment: null }),
+    ).toEqual([]);
+    const quarters = vatPeriods(2025, {
+      filing: 'quarterly',
+      permanentExtension: false,
+      specialPrepayment: null,
+    });
+    expect(quarters.map((p) => p.key)).toEqual(['2025-Q1', '2025-Q2', '2025-Q3', '2025-Q4']);
+    expect(quarters[3]).toMatchObject({
+      startDate: '2025-10-01',
+      endDateExclusive: '2026-01-01',
+      dueDate: '2026-01-12',
+    });
+  });
+});
+
+describe('entries', () => {
+  it('books money out as a purchase with positive amounts', () => {
+    expect(
+      transactionVatEntry({ amount: -119, vatCode: 'standard', netAmount: null, vatAmount: null }),
+    ).toEqual({ kind: 'purchase', code: 'standard', net: 100, vat: 19, crossBorder: false });
+    // a stored split wins over the rate
+    expect(
+      transactionVatEntry({
+        amount: 119,
+        vatCode: 'standard',
+        netAmount: 100.01,
+        vatAmount: 18.99,
+      }),
+    ).toMatchObject({ kind: 'sale', net: 100.01, vat: 18.99 });
+  });
+
+  it('splits an invoice payment like the VAT breakdown of its document', () => {
+    const document = {
+      seller: { country: 'DE' } as InvoiceSeller,
+      buyer: { country: 'DE' } as InvoiceBuyer,
+      totals: { net: 200, vat: 26, gross: 226 },
+      vat: [
+        { category: 'S' as const, rate: 19, taxable: 100, tax: 19 },
+        { category: 'S' as const, rate: 7, taxable: 100, tax: 7 },
+      ].map((v) => ({ ...v, exemptionReason: null, exemptionReasonCode: null })),
+    };
+    const invoice = { amount: 226, vatCode: null, netAmount: 200, vatAmount: 26, document };
+
+    expect(invoiceVatEntries(invoice, 113)).toEqual([
+      { kind: 'sale', code: 'standard', net: 50, vat: 9.5, crossBorder: false },
+      { kind: 'sale', code: 'reduced', net: 50, vat: 3.5, crossBorder: false },
+    ]);
+    expect(invoiceVatEntries({ ...invoice, document: null, vatCode: 'standard' }, 59.5)).toEqual([
+      { kind: 'sale', code: 'standard', net: 50, vat: 9.5, crossBorder: false },
+    ]);
+  });
+});
+
+describe('buildVatReturn', () => {
+  it('fills the Kennzahlen from whole-euro bases', () => {
+    const entries: VatEntry[] = [
+      { kind: 'sale', code: 'standard', net: 1000.6, vat: 190.11, crossBorder: false },
+      { kind: 'sale', code: 'reduced', net: 200, vat: 14, crossBorder: false },
+      { kind: 'sale', code: 'reverse_charge', net: 300, vat: 0, crossBorder: true },
+      { kind: 'purchase', code: 'standard', net: 100, vat: 19, crossBorder: false },
+      { kind: 'purchase', code: 'reverse_charge', net: 500, vat: 95, crossBorder: false },
+    ];
+    const ret = buildVatReturn(entries, { specialPrepayment: 50 });
+
+    expect(ret.lines.map((l) => [l.kz, l.base, l.tax])).toEqual([
+      ['81', 1000, 190],
+      ['86', 200, 14],
+      ['21', 300, null],
+      ['46/47', 500, 95],
+      ['66', null, 19],
+      ['67', null, 95],
+      ['39', null, 50],
+      ['83', null, 135],
+    ]);
+    expect(ret).toMatchObject({ outputTax: 299, inputTax: 114, payable: 135 });
+  });
+
+  it('shows a refund as negative Kz 83', () => {
+    const ret = buildVatReturn([
+      { kind: 'purchase', code: 'standard', net: 1000, vat: 190, crossBorder: false },
+    ]);
+    expect(ret.payable).toBe(-190);
+  });
+});
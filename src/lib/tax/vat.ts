@@ -0,0 +1,346 @@
+import { z } from 'zod';
+import { adjustToBusinessDay } from '@/lib/cashflow/calendar';
+import { dateUTC } from '@/lib/cashflow/dates';
+import type { InvoiceDocument, VatCategory } from '@/lib/invoices/document';
+
+// VAT for the Umsatzsteuer-Voranmeldung (USt-VA) under Istversteuerung (§ 20 UStG):
+// sales count when the money comes in, input tax when the bill is paid. Sales are
+// the incoming business transactions of a period, purchases the outgoing ones;
+// payments allocated to an invoice take the VAT of that invoice.
+
+export const VAT_CODES = ['standard', 'reduced', 'zero', 'reverse_charge'] as const;
+
+export type VatCode = (typeof VAT_CODES)[number];
+
+export const VAT_CODE_LABEL: Record<VatCode, string> = {
+  standard: '19 %',
+  reduced: '7 %',
+  zero: '0 % / steuerfrei',
+  reverse_charge: 'Reverse Charge (§ 13b UStG)',
+};
+
+export const VAT_CODE_RATE: Record<VatCode, number> = {
+  standard: 19,
+  reduced: 7,
+  zero: 0,
+  reverse_charge: 19,
+};
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+/**
+ * Net and VAT of a signed gross amount. Under reverse charge the amount paid is
+ * the net: on a purchase the business owes 19 % on top and deducts it again as
+ * input tax, on a sale the customer owes it, so there is none.
+ */
+export function splitGross(amount: number, code: VatCode): { net: number; vat: number } {
+  if (code === 'reverse_charge') {
+    return {
+      net: round2(amount),
+      vat: amount < 0 ? round2((amount * VAT_CODE_RATE[code]) / 100) : 0,
+    };
+  }
+  const net = round2(amount / (1 + VAT_CODE_RATE[code] / 100));
+  return { net, vat: round2(amount - net) };
+}
+
+/* ---------------- settings and periods ---------------- */
+
+export const VAT_FILINGS = ['none', 'monthly', 'quarterly'] as const;
+
+export type VatFiling = (typeof VAT_FILINGS)[number];
+
+export const VAT_FILING_LABEL: Record<VatFiling, string> = {
+  none: 'keine Voranmeldung',
+  monthly: 'monatlich',
+  quarterly: 'vierteljährlich',
+};
+
+export const VatSettingsSchema = z.object({
+  filing: z.enum(VAT_FILINGS).default('none'),
+  // Dauerfristverlängerung (§ 46 UStDV): every return and payment one month later
+  permanentExtension: z.boolean().default(false),
+  // Sondervorauszahlung of monthly filers with the extension, 1/11 of last year's tax
+  specialPrepayment: z.number().min(0).max(10_000_000).nullable().default(null),
+});
+
+export type VatSettings = z.output<typeof VatSettingsSchema>;
+
+export const DEFAULT_VAT_SETTINGS: VatSettings = VatSettingsSchema.parse({});
+
+export type VatPeriod = {
+  key: string; // 2026-03 or 2026-Q1
+  label: string;
+  startDate: string;
+  endDateExclusive: string;
+  dueDate: string; // filing and payment
+};
+
+const MONTH_LABEL = [
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+];
+
+/**
+ * Return and payment are due on the 10th after the period (§ 18 Abs. 1 UStG), a
+ * month later with the extension; a weekend or holiday moves it to the next
+ * business day (§ 108 Abs. 3 AO).
+ */
+export function vatDueDate(endDateExclusive: string, permanentExtension: boolean) {
+  const y = Number(endDateExclusive.slice(0, 4));
+  const m = Number(endDateExclusive.slice(5, 7)) - 1 + (permanentExtension ? 1 : 0);
+  return adjustToBusinessDay(dateUTC(y, m, 10), 'NEXT');
+}
+
+/**
+ * Periods of a calendar year in filing order; none without a filing obligation.
+ */
+export function vatPeriods(year: number, settings: VatSettings): VatPeriod[] {
+  if (settings.filing === 'none') return [];
+  const months = settings.filing === 'monthly' ? 1 : 3;
+  const out: VatPeriod[] = [];
+  for (let m = 0; m < 12; m += months) {
+    const startDate = dateUTC(year, m, 1);
+    const endDateExclusive = dateUTC(year, m + months, 1);
+    out.push({
+      key: months === 1 ? startDate.slice(0, 7) : `${year}-Q${m / 3 + 1}`,
+      label: months === 1 ? `${MONTH_LABEL[m]} ${year}` : `${m / 3 + 1}. Quartal ${year}`,
+      startDate,
+      endDateExclusive,
+      dueDate: vatDueDate(endDateExclusive, settings.permanentExtension),
+    });
+  }
+  return out;
+}
+
+export function parseVatPeriodKey(key: string, settings: VatSettings): VatPeriod | null {
+  const year = Number(key.slice(0, 4));
+  if (!/^\d{4}-(\d{2}|Q[1-4])$/.test(key)) return null;
+  return vatPeriods(year, settings).find((p) => p.key === key) ?? null;
+}
+
+/**
+ * Monthly filers with the extension pay a Sondervorauszahlung by 10 February; it
+ * is credited in the December return (Kz 39).
+ */
+export function hasSpecialPrepayment(settings: VatSettings) {
+  return (
+    settings.filing === 'monthly' && settings.permanentExtension && !!settings.specialPrepayment
+  );
+}
+
+export function specialPrepaymentDueDate(year: number) {
+  return adjustToBusinessDay(dateUTC(year, 1, 10), 'NEXT');
+}
+
+/* ---------------- entries ---------------- */
+
+export type VatEntry = {
+  kind: 'sale' | 'purchase';
+  code: VatCode;
+  net: number; // positive; negative for refunds and credit notes
+  vat: number;
+  crossBorder: boolean; // customer abroad (only relevant for sales)
+};
+
+/**
+ * Entry for a business transaction with a VAT code: money in is a sale, money
+ * out a purchase.
+ */
+export function transactionVatEntry(tx: {
+  amount: number;
+  vatCode: VatCode;
+  netAmount: number | null;
+  vatAmount: number | null;
+}): VatEntry {
+  const split =
+    tx.netAmount !== null && tx.vatAmount !== null
+      ? { net: tx.netAmount, vat: tx.vatAmount }
+      : splitGross(tx.amount, tx.vatCode);
+  const sign = tx.amount < 0 ? -1 : 1;
+  return {
+    kind: tx.amount < 0 ? 'purchase' : 'sale',
+    code: tx.vatCode,
+    net: round2(sign * split.net),
+    vat: round2(sign * split.vat),
+    crossBorder: false,
+  };
+}
+
+const CATEGORY_CODE: Record<VatCategory, (rate: number) => VatCode> = {
+  S: (rate) => (rate === 7 ? 'reduced' : 'standard'),
+  Z: () => 'zero',
+  E: () => 'zero',
+  AE: () => 'reverse_charge',
+};
+
+/**
+ * Sale entries for `paid` of an invoice's gross amount, split like the VAT
+ * breakdown of the issued document, else by its own VAT code or the totals of its
+ * line items. Invoices without any of these give no entry.
+ */
+export function invoiceVatEntries(
+  invoice: {
+    amount: number;
+    vatCode: VatCode | null;
+    netAmount: number | null;
+    vatAmount: number | null;
+    document: Pick<InvoiceDocument, 'vat' | 'totals' | 'seller' | 'buyer'> | null;
+  },
+  paid: number,
+): VatEntry[] {
+  if (invoice.amount <= 0) return [];
+  const share = paid / invoice.amount;
+
+  const doc = invoice.document;
+  if (doc && doc.vat.length > 0 && doc.totals.gross > 0) {
+    const crossBorder = doc.buyer.country !== doc.seller.country;
+    return doc.vat.map((row) => ({
+      kind: 'sale' as const,
+      code: CATEGORY_CODE[row.category](row.rate),
+      net: round2(row.taxable * share),
+      vat: round2(row.tax * share),
+      crossBorder,
+    }));
+  }
+
+  if (invoice.vatCode) {
+    const split = splitGross(paid, invoice.vatCode);
+    return [{ kind: 'sale', code: invoice.vatCode, ...split, crossBorder: false }];
+  }
+
+  // not issued yet: one entry at the average rate of the items
+  if (invoice.netAmount === null || invoice.vatAmount === null || invoice.netAmount <= 0) return [];
+  const rate = (invoice.vatAmount / invoice.netAmount) * 100;
+  return [
+    {
+      kind: 'sale',
+      code: rate === 0 ? 'zero' : rate < 13 ? 'reduced' : 'standard',
+      net: round2(invoice.netAmount * share),
+      vat: round2(invoice.vatAmount * share),
+      crossBorder: false,
+    },
+  ];
+}
+
+/* ---------------- return ---------------- */
+
+export type VatReturnLine = {
+  kz: string; // Kennzahl of the form; two for base and tax (46/47)
+  label: string;
+  base: number | null; // assessment base, whole euros
+  tax: number | null;
+};
+
+export type VatReturn = {
+  lines: VatReturnLine[];
+  outputTax: number; // on sales and reverse charge purchases
+  inputTax: number; // Vorsteuer, incl. § 13b
+  specialPrepayment: number; // Kz 39
+  payable: number; // Kz 83; negative is a refund
+};
+
+// bases are entered in whole euros, cents dropped
+const euros = (n: number) => Math.trunc(round2(n));
+
+function sum(entries: VatEntry[], pick: (e: VatEntry) => number) {
+  return round2(entries.reduce((s, e) => s + pick(e), 0));
+}
+
+/**
+ * USt-VA of one period with the Kennzahlen of the official form. Tax on domestic
+ * sales is computed from the whole-euro bases, as the tax office does.
+ */
+export function buildVatReturn(
+  entries: VatEntry[],
+  options: { specialPrepayment?: number } = {},
+): VatReturn {
+  const sales = entries.filter((e) => e.kind === 'sale');
+  const purchases = entries.filter((e) => e.kind === 'purchase');
+  const of = (list: VatEntry[], code: VatCode, crossBorder?: boolean) =>
+    list.filter(
+      (e) => e.code === code && (crossBorder === undefined || e.crossBorder === crossBorder),
+    );
+
+  const base81 = euros(sum(of(sales, 'standard'), (e) => e.net));
+  const base86 = euros(sum(of(sales, 'reduced'), (e) => e.net));
+  const base21 = euros(sum(of(sales, 'reverse_charge', true), (e) => e.net));
+  const base60 = euros(sum(of(sales, 'reverse_charge', false), (e) => e.net));
+  const base45 = euros(sum(of(sales, 'zero', true), (e) => e.net));
+  const base48 = euros(sum(of(sales, 'zero', false), (e) => e.net));
+  const base46 = euros(sum(of(purchases, 'reverse_charge'), (e) => e.net));
+
+  const tax81 = round2((base81 * 19) / 100);
+  const tax86 = round2((base86 * 7) / 100);
+  const tax47 = sum(of(purchases, 'reverse_charge'), (e) => e.vat);
+  const tax66 = round2(
+    sum(of(purchases, 'standard'), (e) => e.vat) + sum(of(purchases, 'reduced'), (e) => e.vat),
+  );
+  const tax67 = tax47;
+  const kz39 = round2(options.specialPrepayment ?? 0);
+
+  const outputTax = round2(tax81 + tax86 + tax47);
+  const inputTax = round2(tax66 + tax67);
+  const payable = round2(outputTax - inputTax - kz39);
+
+  const lines: VatReturnLine[] = [
+    { kz: '81', label: 'Steuerpflichtige Umsätze zu 19 %', base: base81, tax: tax81 },
+    { kz: '86', label: 'Steuerpflichtige Umsätze zu 7 %', base: base86, tax: tax86 },
+    {
+      kz: '21',
+      label: 'Nicht steuerbare sonstige Leistungen im übrigen Gemeinschaftsgebiet',
+      base: base21,
+      tax: null,
+    },
+    {
+      kz: '45',
+      label: 'Übrige nicht steuerbare Umsätze (Leistungsort im Ausland)',
+      base: base45,
+      tax: null,
+    },
+    {
+      kz: '60',
+      label: 'Umsätze, für die der Leistungsempfänger die Steuer schuldet',
+      base: base60,
+      tax: null,
+    },
+    { kz: '48', label: 'Steuerfreie Umsätze ohne Vorsteuerabzug', base: base48, tax: null },
+    {
+      kz: '46/47',
+      label: 'Leistungen eines im Ausland ansässigen Unternehmers (§ 13b UStG)',
+      base: base46,
+      tax: tax47,
+    },
+    {
+      kz: '66',
+      label: 'Vorsteuerbeträge aus Rechnungen anderer Unternehmer',
+      base: null,
+      tax: tax66,
+    },
+    {
+      kz: '67',
+      label: 'Vorsteuerbeträge aus Leistungen im Sinne des § 13b UStG',
+      base: null,
+      tax: tax67,
+    },
+    { kz: '39', label: 'Abzug der festgesetzten Sondervorauszahlung', base: null, tax: kz39 },
+  ].filter((l) => (l.base ?? 0) !== 0 || (l.tax ?? 0) !== 0);
+  lines.push({
+    kz: '83',
+    label: 'Verbleibende Umsatzsteuer-Vorauszahlung',
+    base: null,
+    tax: payable,
+  });
+
+  return { lines, outputTax, inputTax, specialPrepayment: kz39, payable };
+}
@@ -1,4 +1,6 @@
-export type InvoiceStatus = 'planned' | 'sent' | 'paid' | 'void';
+import type { VatCode } from '@/lib/tax/vat';
+
+export type InvoiceStatus = 'planned' | 'sent' | 'partially_paid' | 'paid' | 'void';
 
 export type Invoice = {
   id: string;
@@ -12,6 +14,16 @@ export type Invoice = {
   issued_at: string | null;
   due_date: string | null;
   expected_payment_date: string | null;
+  business_day_rule: 'NONE' | 'PREVIOUS' | 'NEXT';
+  expected_payment_auto: boolean; // follows the customer's payment history
+  invoice_number: string | null; // set when the document is issued
+  net_amount: number | null;
+  vat_amount: number | null;
+  vat_code: VatCode | null; // VAT of the amount when there are no line items
+  buyer_reference: string | null;
+  paid_amount: number; // sum of payment allocations and write-offs
+  dunning_level: 'reminder' | 'dunning_1' | 'dunning_2' | null; // latest letter sent
+  dunned_at: string | null;
   status: InvoiceStatus;
   paid_at: string | null;
   paid_tx_id: string | null;